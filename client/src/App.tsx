@@ -2,6 +2,7 @@ import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { toast } from "@/hooks/use-toast";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
@@ -51,6 +52,40 @@ function TerminalApp() {
       queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
       queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
     }
+    if (data.type === "order_filled" || data.type === "order_failed") {
+      queryClient.invalidateQueries({ queryKey: ["/api/limit-orders"] });
+    }
+    if (data.type === "alert_triggered" && data.data) {
+      queryClient.invalidateQueries({ queryKey: ["/api/price-alerts"] });
+      toast({ title: "Alert Triggered", description: data.data.message });
+    }
+    if (data.type === "rug_alert" && data.data) {
+      toast({
+        title: data.data.urgent ? "Rug Alert" : "Rug Warning",
+        description: data.data.message,
+        variant: data.data.urgent ? "destructive" : undefined,
+      });
+    }
+    if (data.type === "rug_exit" && data.data) {
+      queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+      const sold = data.data.exits.filter((e: any) => e.status === "sold").length;
+      toast({ title: "Emergency Exit", description: `${data.data.symbol}: ${sold}/${data.data.exits.length} position(s) sold`, variant: "destructive" });
+    }
+    if (data.type === "snipe_executed" || data.type === "snipe_rejected") {
+      queryClient.invalidateQueries({ queryKey: ["/api/sniper-executions"] });
+      if (data.type === "snipe_executed" && data.data) {
+        toast({ title: "Snipe Executed", description: `${data.data.tokenSymbol ?? data.data.tokenAddress} on ${data.data.chain}` });
+      }
+    }
+    if (data.type === "copy_trade_fill") {
+      queryClient.invalidateQueries({ queryKey: ["/api/copy-trades/fills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/copy-trades/positions"] });
+    }
+    if (data.type === "dca_execution" || data.type === "dca_update") {
+      queryClient.invalidateQueries({ queryKey: ["/api/dca-configs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dca-executions"] });
+    }
     if (data.type === "price_updates" && data.updates) {
       queryClient.setQueryData<any[]>(["/api/tokens"], (oldTokens) => {
         if (!oldTokens) return oldTokens;
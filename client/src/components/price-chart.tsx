@@ -40,6 +40,23 @@ const CHAIN_SLUG_MAP: Record<string, string> = {
 const TIMEFRAMES = ["1m", "5m", "15m", "1H", "4H", "1D"] as const;
 type Timeframe = typeof TIMEFRAMES[number];
 
+const CANDLE_RESOLUTION: Record<Timeframe, string> = {
+  "1m": "1m",
+  "5m": "5m",
+  "15m": "15m",
+  "1H": "1h",
+  "4H": "4h",
+  "1D": "1d",
+};
+
+// Candles come from the server's candle store when the token's chain and
+// address are known, and from the per-token route otherwise.
+function getCandlesUrl(token: ChartToken, timeframe: Timeframe): string {
+  if (!token.chain || !token.address) return `/api/tokens/${token.id}/ohlcv/${timeframe}`;
+  const params = new URLSearchParams({ resolution: CANDLE_RESOLUTION[timeframe] });
+  return `/api/candles/${token.chain}/${token.address}?${params}`;
+}
+
 function getDexScreenerUrl(token: ChartToken, embed: boolean): string | null {
   const chainSlug = CHAIN_SLUG_MAP[token.chain || "solana"] || "solana";
   const identifier = token.pairAddress || token.address;
@@ -183,7 +200,7 @@ export function PriceChart({ token }: PriceChartProps) {
   const tokenId = token?.id;
 
   const { data: ohlcvData } = useQuery<OHLCVCandle[]>({
-    queryKey: [`/api/tokens/${tokenId}/ohlcv/${timeframe}`],
+    queryKey: [token ? getCandlesUrl(token, timeframe) : ""],
     enabled: !!tokenId,
     refetchInterval: 30000,
     staleTime: 15000,
@@ -1,8 +1,9 @@
-import { useSubscription, TIER_LABELS, type TierLimits } from "@/hooks/use-subscription";
+import { useSubscription, useEntitlements, TIER_LABELS, type TierLimits, type QuotaKey } from "@/hooks/use-subscription";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
 import { Lock, Zap, Crown, Sparkles, ArrowRight } from "lucide-react";
 import { useLocation } from "wouter";
 import { useTranslation } from "@/i18n";
@@ -32,7 +33,15 @@ export function TierGate({ feature, featureLabel, children, requiredTier = "basi
   const featureValue = limits?.[feature];
   const isAllowed = typeof featureValue === "boolean" ? featureValue : (typeof featureValue === "number" && featureValue > 0);
 
-  if (isAllowed) return <>{children}</>;
+  if (isAllowed) {
+    if (typeof featureValue !== "number") return <>{children}</>;
+    return (
+      <>
+        <QuotaUsageBar feature={feature as QuotaKey} featureLabel={featureLabel} />
+        {children}
+      </>
+    );
+  }
 
   const tierIcons: Record<string, any> = {
     basic: Zap,
@@ -66,14 +75,57 @@ export function TierGate({ feature, featureLabel, children, requiredTier = "basi
   );
 }
 
+interface QuotaUsageBarProps {
+  feature: QuotaKey;
+  featureLabel: string;
+}
+
+export function QuotaUsageBar({ feature, featureLabel }: QuotaUsageBarProps) {
+  const { usage } = useEntitlements();
+  const { tier } = useSubscription();
+  const [, setLocation] = useLocation();
+  const { t } = useTranslation();
+
+  const quota = usage?.[feature];
+  if (!quota || quota.limit >= 999) return null;
+
+  const atLimit = quota.remaining <= 0;
+  const percent = quota.limit > 0 ? Math.min(100, (quota.used / quota.limit) * 100) : 100;
+
+  return (
+    <div className="flex items-center gap-3 flex-wrap px-4 pt-3 text-xs" data-testid={`quota-usage-${feature}`}>
+      <span className="text-muted-foreground">{featureLabel}</span>
+      <Progress value={percent} className={`h-1.5 w-32 ${atLimit ? "[&>div]:bg-loss" : ""}`} />
+      <span className={atLimit ? "text-loss font-medium" : "font-medium"} data-testid={`text-quota-${feature}`}>
+        {quota.used}/{quota.limit} {t.tierGate.used}
+      </span>
+      <span className="text-muted-foreground">
+        {atLimit ? t.tierGate.limitReached : `${quota.remaining} ${t.tierGate.remaining}`} ({TIER_LABELS[tier] || "Free"})
+      </span>
+      {atLimit && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 text-[10px] gap-1"
+          onClick={() => setLocation("/pricing")}
+          data-testid={`button-upgrade-quota-${feature}`}
+        >
+          {t.tierGate.upgradeNow}
+        </Button>
+      )}
+    </div>
+  );
+}
+
 interface FeatureLimitBannerProps {
   feature: keyof TierLimits;
-  currentCount: number;
+  currentCount?: number;
   featureLabel: string;
 }
 
 export function FeatureLimitBanner({ feature, currentCount, featureLabel }: FeatureLimitBannerProps) {
   const { limits, tier } = useSubscription();
+  const { usage } = useEntitlements();
   const [, setLocation] = useLocation();
   const { t } = useTranslation();
 
@@ -82,7 +134,8 @@ export function FeatureLimitBanner({ feature, currentCount, featureLabel }: Feat
   const maxValue = limits[feature];
   if (typeof maxValue !== "number") return null;
 
-  const remaining = maxValue - currentCount;
+  const used = currentCount ?? usage?.[feature as QuotaKey]?.used ?? 0;
+  const remaining = maxValue - used;
   if (remaining > Math.ceil(maxValue * 0.5)) return null;
 
   const atLimit = remaining <= 0;
@@ -91,11 +144,11 @@ export function FeatureLimitBanner({ feature, currentCount, featureLabel }: Feat
     <div className={`flex items-center gap-2 flex-wrap rounded-md border px-3 py-2 text-xs ${atLimit ? "border-loss/30 bg-loss/5" : "border-yellow-500/30 bg-yellow-500/5"}`} data-testid="feature-limit-banner">
       {atLimit ? (
         <span className="text-loss font-medium">
-          {featureLabel} limit reached ({currentCount}/{maxValue})
+          {featureLabel} limit reached ({used}/{maxValue})
         </span>
       ) : (
         <span className="text-yellow-400 font-medium">
-          {remaining} {featureLabel} remaining ({currentCount}/{maxValue})
+          {remaining} {featureLabel} remaining ({used}/{maxValue})
         </span>
       )}
       <span className="text-muted-foreground">({TIER_LABELS[tier]} plan)</span>
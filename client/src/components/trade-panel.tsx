@@ -12,7 +12,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useWallet } from "@/lib/wallet";
 import { useEvmSwap } from "@/hooks/use-evm-swap";
 import { VersionedTransaction } from "@solana/web3.js";
-import { getUserTier, calculateFee } from "@/lib/fees";
+import { calculateFee } from "@/lib/fees";
+import { useSubscription } from "@/hooks/use-subscription";
 import { useWallets } from "@/hooks/use-wallets";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { playTradeSuccess, playTradeFail } from "@/lib/sounds";
@@ -68,6 +69,7 @@ export function TradePanel({ token }: TradePanelProps) {
   const { publicKey, connected: solConnected, signAndSendTransaction, connection } = useWallet();
   const { address: evmAddress, executeSwap: evmSwap, isEvmChain, getQuote: getEvmQuote, isPending: evmPending } = useEvmSwap();
   const { wallets, getWalletForChain, generateWallet, isGenerating, refreshBalance, isRefreshing } = useWallets();
+  const { tier } = useSubscription();
 
   const chain = token?.chain || "solana";
   const isEvm = isEvmChain(chain);
@@ -185,6 +187,13 @@ export function TradePanel({ token }: TradePanelProps) {
       }
       const transaction = VersionedTransaction.deserialize(transactionBuf);
       const signature = await signAndSendTransaction(transaction);
+      if (swapData.feeLedgerId && swapData.feeBps > 0) {
+        fetch(`/api/fees/${swapData.feeLedgerId}/confirm`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ txHash: signature, confirmToken: swapData.feeConfirmToken }),
+        }).catch(() => {});
+      }
       return signature;
     },
     onSuccess: (signature) => {
@@ -595,9 +604,9 @@ export function TradePanel({ token }: TradePanelProps) {
                 <div className="flex items-center justify-between text-[10px] font-mono text-muted-foreground bg-secondary/30 rounded px-2 py-0.5" data-testid="text-buy-fee">
                   <span className="flex items-center gap-1">
                     <Info className="w-2.5 h-2.5" />
-                    Fee ({getUserTier().swapFeePercent}%)
+                    Fee ({calculateFee(0, tier).feePercent}%)
                   </span>
-                  <span>{calculateFee(parseFloat(buyAmount)).fee.toFixed(6)} {nativeInfo.symbol}</span>
+                  <span>{calculateFee(parseFloat(buyAmount), tier).fee.toFixed(6)} {nativeInfo.symbol}</span>
                 </div>
               </div>
             )}
@@ -660,9 +669,9 @@ export function TradePanel({ token }: TradePanelProps) {
                 <div className="flex items-center justify-between text-[10px] font-mono text-muted-foreground bg-secondary/30 rounded px-2 py-0.5" data-testid="text-sell-fee">
                   <span className="flex items-center gap-1">
                     <Info className="w-2.5 h-2.5" />
-                    Fee ({getUserTier().swapFeePercent}%)
+                    Fee ({calculateFee(0, tier).feePercent}%)
                   </span>
-                  <span>{calculateFee(parseFloat(sellAmount) * token.price / nativeInfo.priceUsd).fee.toFixed(6)} {nativeInfo.symbol}</span>
+                  <span>{calculateFee(parseFloat(sellAmount) * token.price / nativeInfo.priceUsd, tier).fee.toFixed(6)} {nativeInfo.symbol}</span>
                 </div>
               </div>
             )}
@@ -17,10 +17,16 @@ interface EvmQuote {
   router: string;
   chainId: number;
   explorer: string;
+  feeBps: number;
+  feeAmount: string;
 }
 
 interface EvmSwapResult {
-  transactions: Array<{ to: string; data: string; value: string }>;
+  transactions: Array<{ to: string; data: string; value: string; kind: "approve" | "swap" | "fee" }>;
+  feeLedgerId: number;
+  feeConfirmToken: string | null;
+  feeBps: number;
+  feeAmount: string;
   chain: string;
   chainId: number;
   dex: string;
@@ -89,7 +95,15 @@ export function useEvmSwap() {
           data: tx.data as Hex,
           value: BigInt(tx.value),
         });
-        lastHash = hash;
+        if (tx.kind === "fee") {
+          fetch(`/api/fees/${swapData.feeLedgerId}/confirm`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ txHash: hash, confirmToken: swapData.feeConfirmToken }),
+          }).catch(() => {});
+        } else {
+          lastHash = hash;
+        }
       }
 
       setTxHash(lastHash);
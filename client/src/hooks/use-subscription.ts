@@ -1,19 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
+import { TIER_CATALOG, type TierLimits } from "@shared/tiers";
 
-export interface TierLimits {
-  maxAgents: number;
-  maxDailyTrades: number;
-  maxAlerts: number;
-  maxLimitOrders: number;
-  maxDcaConfigs: number;
-  maxCopyTrades: number;
-  maxSniperRules: number;
-  smartMoneyAccess: boolean;
-  smartMoneyFollow: boolean;
-  safetyScanner: boolean;
-  csvExport: boolean;
-  advancedAnalytics: boolean;
-}
+export type { TierLimits };
 
 export interface SubStatus {
   subscription: any | null;
@@ -29,6 +17,33 @@ export interface SubStatus {
   promoAccess: { tier: string; code: string } | null;
 }
 
+export type QuotaKey = "maxAgents" | "maxDailyTrades" | "maxAlerts" | "maxLimitOrders" | "maxDcaConfigs" | "maxCopyTrades" | "maxSniperRules";
+
+export interface QuotaUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+export interface Entitlements {
+  tier: string;
+  limits: TierLimits;
+  usage: Record<QuotaKey, QuotaUsage>;
+}
+
+export function useEntitlements() {
+  const { data, isLoading } = useQuery<Entitlements>({
+    queryKey: ["/api/entitlements"],
+    refetchInterval: 30000,
+  });
+
+  return {
+    entitlements: data,
+    usage: data?.usage,
+    isLoading,
+  };
+}
+
 export function useSubscription() {
   const { data: subStatus, isLoading } = useQuery<SubStatus>({
     queryKey: ["/api/subscriptions/me"],
@@ -48,9 +63,6 @@ export function useSubscription() {
   };
 }
 
-export const TIER_LABELS: Record<string, string> = {
-  free: "Free",
-  basic: "Basic",
-  pro: "Pro",
-  whale: "Whale",
-};
+export const TIER_LABELS: Record<string, string> = Object.fromEntries(
+  TIER_CATALOG.map(t => [t.id, t.name]),
+);
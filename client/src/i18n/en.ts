@@ -200,6 +200,9 @@ export const en = {
     deleteAlert: "Delete Alert",
     tokenSymbol: "Token Symbol",
     alertType: "Alert Type",
+    window: "Window",
+    webhookUrl: "Webhook URL (optional)",
+    noMessaging: "No email/Telegram",
   },
 
   wallets: {
@@ -239,6 +242,11 @@ export const en = {
     stopLoss: "Stop Loss",
     takeProfit: "Take Profit",
     riskLevel: "Risk Level",
+    executionMode: "Execution Mode",
+    paperMode: "Paper",
+    liveMode: "Live",
+    paperModeDesc: "Simulated fills with modelled slippage and fees",
+    liveModeDesc: "Real swaps from your generated wallet",
     maxDailyTrades: "Max Daily Trades",
     startAgent: "Start Agent",
     stopAgent: "Stop Agent",
@@ -271,6 +279,125 @@ export const en = {
     invalidPromo: "Invalid promo code",
     redeemFailed: "Failed to redeem",
     promoActivated: "Promo code activated!",
+    backtests: "Backtests",
+    backtestDesc: "Replay a strategy against recent candles with the same decision and exit logic as live agents",
+    runBacktest: "Run Backtest",
+    backtestRunning: "Backtest running...",
+    backtestStarted: "Backtest started",
+    backtestFailed: "Backtest failed",
+    backtestInterrupted: "Backtest interrupted",
+    noBacktests: "No backtests yet",
+    backtestAgent: "Agent",
+    strategyDefaults: "Strategy defaults",
+    decider: "Decision Maker",
+    deciderRule: "Rule (deterministic)",
+    deciderLlm: "LLM",
+    llmRequiresPlan: "LLM replays need an active plan",
+    timeframe: "Timeframe",
+    tokenCount: "Tokens",
+    candles: "Candles",
+    totalReturn: "Total Return",
+    maxDrawdown: "Max Drawdown",
+    sharpe: "Sharpe",
+    roundTrips: "Round Trips",
+    equityCurve: "Equity Curve",
+    signalAttribution: "Signal Attribution",
+    signal: "Signal",
+    avgReturn: "Avg Return",
+    frames: "frames",
+    customStrategies: "Custom Strategies",
+    customStrategiesDesc: "Write your own entry rule and exit ladder on top of a preset. Saving creates a new version; agents keep the version they were set up with.",
+    newStrategy: "New Strategy",
+    noCustomStrategies: "No custom strategies yet",
+    customStrategy: "Custom",
+    strategyName: "Strategy Name",
+    baseStrategy: "Base Preset",
+    maxPositions: "Max Positions",
+    entryRule: "Entry Rule",
+    entryRuleHint: "e.g. momentumScore >= 60 and technicals.rsi14 < 70 and not has(signals, \"HIGH_RUG_RISK\")",
+    availableFields: "Fields",
+    exitLadder: "Exit Ladder",
+    exitLadderHint: "Each tier sells part of the position once PnL reaches that multiple of the dynamic take-profit",
+    tierThreshold: "At x TP",
+    tierSell: "Sell %",
+    addTier: "Add Tier",
+    promptGuidance: "Guidance for the AI (optional)",
+    saveStrategy: "Save Strategy",
+    saveNewVersion: "Save New Version",
+    strategySaved: "Strategy saved",
+    decisionProvider: "Decision Engine",
+    decisionProviderDesc: "If the model fails, times out or runs out of budget, the rule engine decides that cycle",
+    providerOpenai: "OpenAI",
+    providerLocal: "Local model",
+    providerRule: "Rules only",
+    dailyTokenBudget: "Daily Token Budget",
+    tokensToday: "tokens today",
+    fallbacks: "rule fallbacks",
+    portfolioRisk: "Portfolio Risk",
+    portfolioRiskDesc: "Limits across all your agents in USD. A daily-loss or drawdown breach stops every agent until you reset the kill switch.",
+    maxTotalExposure: "Max Total Exposure",
+    maxTokenExposure: "Max Exposure per Token",
+    maxDailyLoss: "Max Daily Loss",
+    maxDrawdownFromPeak: "Max Drawdown from Peak",
+    noLimit: "No limit",
+    saveLimits: "Save Limits",
+    riskSaved: "Risk limits saved",
+    rugAutoExit: "Rug Auto-Exit",
+    rugAutoExitDesc: "Market-sell every open position in a token the rug watchdog flags, at elevated slippage.",
+    rugExitSlippage: "Exit Slippage (bps)",
+    equity: "Equity",
+    exposure: "Exposure",
+    dailyPnl: "Today",
+    drawdown: "Drawdown",
+    killSwitchActive: "Kill switch active",
+    resetKillSwitch: "Reset Kill Switch",
+    flattenAll: "Flatten All",
+    flattenConfirm: "Stop every agent and close all open positions?",
+    flattened: "Positions flattened",
+    replay: "Replay",
+    decisionReplay: "Decision replay",
+    replayUnavailable: "No explanation was recorded for this decision",
+    outcomeExecuted: "Executed",
+    outcomeBlocked: "Blocked",
+    outcomeHold: "Hold",
+    replayInputs: "Inputs",
+    marketRegime: "Market regime",
+    lossStreak: "Loss streak",
+    adaptiveThresholds: "Adaptive minimums",
+    ruleFallback: "Rule fallback",
+    proposal: "Proposal",
+    checksRun: "Filters & risk checks",
+    sizingSteps: "Sizing",
+    fill: "Fill",
+    candidatesConsidered: "Candidates",
+    shortlisted: "Shortlisted",
+    shortlistFull: "Passed filters, shortlist was full",
+    tournaments: "Strategy Tournaments",
+    tournamentDesc: "Run agent configs head-to-head in paper mode on the same live signals",
+    tournamentName: "Tournament name",
+    durationMinutes: "Duration (min)",
+    entrants: "Entrants",
+    addEntrant: "Add entrant",
+    startTournament: "Start tournament",
+    tournamentStarted: "Tournament started",
+    tournamentRunning: "Tournament running...",
+    stopTournament: "Stop tournament",
+    tournamentInterrupted: "Interrupted",
+    tournamentFailed: "Tournament failed",
+    completed: "Completed",
+    noTournaments: "No tournaments yet",
+    llmShortRun: "LLM entrants need an active plan and run for at most 60 minutes",
+    leaderboard: "Leaderboard",
+    vsLeader: "vs leader",
+    significantLead: "Significant lead",
+    notSignificant: "Not significant",
+    promoteTo: "Copy winner's config to",
+    promoteWinner: "Promote winner",
+    winnerPromoted: "Winner's config copied to agent",
+    promotedTo: "Promoted to",
+    allowShorts: "Allow shorts",
+    allowShortsDesc: "Short weak tokens in a bear regime. Paper fills always work; live shorts need a perp venue.",
+    sideShort: "Short",
   },
 
   smartMoney: {
@@ -306,6 +433,8 @@ export const en = {
     copyDelay: "Copy Delay",
     slippage: "Slippage",
     enabledChains: "Enabled Chains",
+    auditTrail: "Copy Audit Trail",
+    noFills: "No copy fills yet",
   },
 
   sniper: {
@@ -321,6 +450,7 @@ export const en = {
     triggerCondition: "Trigger Condition",
     liquidityThreshold: "Liquidity Threshold",
     gasMultiplier: "Gas Multiplier",
+    noExecutions: "No snipes yet. New pairs matching your rules will appear here.",
   },
 
   orders: {
@@ -329,6 +459,8 @@ export const en = {
     createOrder: "Create Order",
     limitOrder: "Limit Order",
     stopOrder: "Stop Order",
+    takeProfit: "Take Profit",
+    stopLoss: "Stop Loss",
     dca: "DCA",
     dcaFull: "Dollar-Cost Averaging",
     targetPrice: "Target Price",
@@ -342,6 +474,7 @@ export const en = {
     totalBudget: "Total Budget",
     remaining: "Remaining",
     executed: "Executed",
+    lastRun: "Last Run",
     hourly: "Hourly",
     daily: "Daily",
     weekly: "Weekly",
@@ -469,6 +602,9 @@ export const en = {
     requiredTier: "Required Tier",
     upgradeNow: "Upgrade Now",
     viewPricing: "View Pricing",
+    used: "used",
+    remaining: "remaining",
+    limitReached: "Limit reached",
   },
 
   landing: {
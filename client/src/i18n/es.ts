@@ -202,6 +202,9 @@ export const es: TranslationKeys = {
     deleteAlert: "Eliminar Alerta",
     tokenSymbol: "S\u00EDmbolo del Token",
     alertType: "Tipo de Alerta",
+    window: "Ventana",
+    webhookUrl: "URL de Webhook (opcional)",
+    noMessaging: "Sin email/Telegram",
   },
 
   wallets: {
@@ -241,6 +244,11 @@ export const es: TranslationKeys = {
     stopLoss: "Stop Loss",
     takeProfit: "Take Profit",
     riskLevel: "Nivel de Riesgo",
+    executionMode: "Modo de Ejecuci\u00F3n",
+    paperMode: "Simulado",
+    liveMode: "Real",
+    paperModeDesc: "Ejecuciones simuladas con deslizamiento y comisiones modelados",
+    liveModeDesc: "Swaps reales desde tu billetera generada",
     maxDailyTrades: "M\u00E1x. Operaciones Diarias",
     startAgent: "Iniciar Agente",
     stopAgent: "Detener Agente",
@@ -273,6 +281,125 @@ export const es: TranslationKeys = {
     invalidPromo: "C\u00F3digo promocional inv\u00E1lido",
     redeemFailed: "Error al canjear",
     promoActivated: "C\u00F3digo promocional activado!",
+    backtests: "Backtests",
+    backtestDesc: "Reproduce una estrategia sobre velas recientes con la misma l\u00F3gica de decisi\u00F3n y salida que los agentes en vivo",
+    runBacktest: "Ejecutar backtest",
+    backtestRunning: "Backtest en curso...",
+    backtestStarted: "Backtest iniciado",
+    backtestFailed: "Backtest fallido",
+    backtestInterrupted: "Backtest interrumpido",
+    noBacktests: "A\u00FAn no hay backtests",
+    backtestAgent: "Agente",
+    strategyDefaults: "Valores por defecto de la estrategia",
+    decider: "Toma de decisiones",
+    deciderRule: "Regla (determinista)",
+    deciderLlm: "LLM",
+    llmRequiresPlan: "Las repeticiones con LLM requieren un plan activo",
+    timeframe: "Temporalidad",
+    tokenCount: "Tokens",
+    candles: "Velas",
+    totalReturn: "Rendimiento total",
+    maxDrawdown: "Ca\u00EDda m\u00E1xima",
+    sharpe: "Sharpe",
+    roundTrips: "Operaciones cerradas",
+    equityCurve: "Curva de capital",
+    signalAttribution: "Atribuci\u00F3n por se\u00F1al",
+    signal: "Se\u00F1al",
+    avgReturn: "Rendimiento medio",
+    frames: "cuadros",
+    customStrategies: "Estrategias Personalizadas",
+    customStrategiesDesc: "Escribe tu propia regla de entrada y escalera de salida sobre un preset. Guardar crea una nueva versi\u00F3n; los agentes conservan la versi\u00F3n con la que se configuraron.",
+    newStrategy: "Nueva Estrategia",
+    noCustomStrategies: "A\u00FAn no hay estrategias personalizadas",
+    customStrategy: "Personalizada",
+    strategyName: "Nombre de la Estrategia",
+    baseStrategy: "Preset Base",
+    maxPositions: "Posiciones M\u00E1ximas",
+    entryRule: "Regla de Entrada",
+    entryRuleHint: "ej. momentumScore >= 60 and technicals.rsi14 < 70 and not has(signals, \"HIGH_RUG_RISK\")",
+    availableFields: "Campos",
+    exitLadder: "Escalera de Salida",
+    exitLadderHint: "Cada nivel vende parte de la posici\u00F3n cuando el PnL alcanza ese m\u00FAltiplo del take-profit din\u00E1mico",
+    tierThreshold: "A x TP",
+    tierSell: "Vender %",
+    addTier: "A\u00F1adir Nivel",
+    promptGuidance: "Indicaciones para la IA (opcional)",
+    saveStrategy: "Guardar Estrategia",
+    saveNewVersion: "Guardar Nueva Versi\u00F3n",
+    strategySaved: "Estrategia guardada",
+    decisionProvider: "Motor de Decisi\u00F3n",
+    decisionProviderDesc: "Si el modelo falla, tarda demasiado o agota su presupuesto, el motor de reglas decide ese ciclo",
+    providerOpenai: "OpenAI",
+    providerLocal: "Modelo local",
+    providerRule: "Solo reglas",
+    dailyTokenBudget: "Presupuesto Diario de Tokens",
+    tokensToday: "tokens hoy",
+    fallbacks: "respaldos por reglas",
+    portfolioRisk: "Riesgo de Cartera",
+    portfolioRiskDesc: "L\u00EDmites en USD para todos tus agentes. Superar la p\u00E9rdida diaria o el drawdown detiene todos los agentes hasta que reinicies el interruptor de emergencia.",
+    maxTotalExposure: "Exposici\u00F3n Total M\u00E1xima",
+    maxTokenExposure: "Exposici\u00F3n M\u00E1xima por Token",
+    maxDailyLoss: "P\u00E9rdida Diaria M\u00E1xima",
+    maxDrawdownFromPeak: "Drawdown M\u00E1ximo desde el Pico",
+    noLimit: "Sin l\u00EDmite",
+    saveLimits: "Guardar L\u00EDmites",
+    riskSaved: "L\u00EDmites de riesgo guardados",
+    rugAutoExit: "Salida Autom\u00E1tica por Rug",
+    rugAutoExitDesc: "Vende a mercado todas las posiciones abiertas en un token que el vigilante de rug marque, con slippage elevado.",
+    rugExitSlippage: "Slippage de Salida (bps)",
+    equity: "Capital",
+    exposure: "Exposici\u00F3n",
+    dailyPnl: "Hoy",
+    drawdown: "Drawdown",
+    killSwitchActive: "Interruptor de emergencia activo",
+    resetKillSwitch: "Reiniciar Interruptor",
+    flattenAll: "Cerrar Todo",
+    flattenConfirm: "\u00BFDetener todos los agentes y cerrar todas las posiciones abiertas?",
+    flattened: "Posiciones cerradas",
+    replay: "Repetir",
+    decisionReplay: "Repetici\u00F3n de la decisi\u00F3n",
+    replayUnavailable: "No se registr\u00F3 una explicaci\u00F3n para esta decisi\u00F3n",
+    outcomeExecuted: "Ejecutada",
+    outcomeBlocked: "Bloqueada",
+    outcomeHold: "Mantener",
+    replayInputs: "Entradas",
+    marketRegime: "R\u00E9gimen de mercado",
+    lossStreak: "Racha de p\u00E9rdidas",
+    adaptiveThresholds: "M\u00EDnimos adaptativos",
+    ruleFallback: "Respaldo por reglas",
+    proposal: "Propuesta",
+    checksRun: "Filtros y controles de riesgo",
+    sizingSteps: "Tama\u00F1o",
+    fill: "Ejecuci\u00F3n",
+    candidatesConsidered: "Candidatos",
+    shortlisted: "Preseleccionado",
+    shortlistFull: "Pas\u00F3 los filtros, la preselecci\u00F3n estaba llena",
+    tournaments: "Torneos de estrategias",
+    tournamentDesc: "Enfrenta configuraciones de agentes en modo simulado con las mismas se\u00F1ales en vivo",
+    tournamentName: "Nombre del torneo",
+    durationMinutes: "Duraci\u00F3n (min)",
+    entrants: "Participantes",
+    addEntrant: "A\u00F1adir participante",
+    startTournament: "Iniciar torneo",
+    tournamentStarted: "Torneo iniciado",
+    tournamentRunning: "Torneo en curso...",
+    stopTournament: "Detener torneo",
+    tournamentInterrupted: "Interrumpido",
+    tournamentFailed: "Torneo fallido",
+    completed: "Completado",
+    noTournaments: "A\u00FAn no hay torneos",
+    llmShortRun: "Los participantes con LLM requieren un plan activo y duran como m\u00E1ximo 60 minutos",
+    leaderboard: "Clasificaci\u00F3n",
+    vsLeader: "vs l\u00EDder",
+    significantLead: "Ventaja significativa",
+    notSignificant: "No significativa",
+    promoteTo: "Copiar configuraci\u00F3n ganadora a",
+    promoteWinner: "Promover ganador",
+    winnerPromoted: "Configuraci\u00F3n ganadora copiada al agente",
+    promotedTo: "Promovido a",
+    allowShorts: "Permitir cortos",
+    allowShortsDesc: "Abre cortos en tokens d\u00E9biles en r\u00E9gimen bajista. En papel siempre funciona; en vivo requiere un mercado de perpetuos.",
+    sideShort: "Corto",
   },
 
   smartMoney: {
@@ -308,6 +435,8 @@ export const es: TranslationKeys = {
     copyDelay: "Retraso de Copia",
     slippage: "Slippage",
     enabledChains: "Cadenas Habilitadas",
+    auditTrail: "Registro de Copias",
+    noFills: "A\u00FAn no hay copias ejecutadas",
   },
 
   sniper: {
@@ -323,6 +452,7 @@ export const es: TranslationKeys = {
     triggerCondition: "Condici\u00F3n de Activaci\u00F3n",
     liquidityThreshold: "Umbral de Liquidez",
     gasMultiplier: "Multiplicador de Gas",
+    noExecutions: "A\u00FAn no hay snipes. Los nuevos pares que cumplan tus reglas aparecer\u00E1n aqu\u00ED.",
   },
 
   orders: {
@@ -331,6 +461,8 @@ export const es: TranslationKeys = {
     createOrder: "Crear Orden",
     limitOrder: "Orden L\u00EDmite",
     stopOrder: "Orden Stop",
+    takeProfit: "Toma de Ganancias",
+    stopLoss: "Stop Loss",
     dca: "DCA",
     dcaFull: "Compra Promediada (DCA)",
     targetPrice: "Precio Objetivo",
@@ -344,6 +476,7 @@ export const es: TranslationKeys = {
     totalBudget: "Presupuesto Total",
     remaining: "Restante",
     executed: "Ejecutado",
+    lastRun: "\u00DAltima Ejecuci\u00F3n",
     hourly: "Cada Hora",
     daily: "Diario",
     weekly: "Semanal",
@@ -471,6 +604,9 @@ export const es: TranslationKeys = {
     requiredTier: "Nivel Requerido",
     upgradeNow: "Mejorar Ahora",
     viewPricing: "Ver Precios",
+    used: "usados",
+    remaining: "restantes",
+    limitReached: "L\u00EDmite alcanzado",
   },
 
   landing: {
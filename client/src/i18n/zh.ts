@@ -202,6 +202,9 @@ export const zh: TranslationKeys = {
     deleteAlert: "\u5220\u9664\u63D0\u9192",
     tokenSymbol: "\u4EE3\u5E01\u7B26\u53F7",
     alertType: "\u63D0\u9192\u7C7B\u578B",
+    window: "\u65F6\u95F4\u7A97\u53E3",
+    webhookUrl: "Webhook URL (\u53EF\u9009)",
+    noMessaging: "\u4E0D\u4F7F\u7528\u90AE\u4EF6/Telegram",
   },
 
   wallets: {
@@ -241,6 +244,11 @@ export const zh: TranslationKeys = {
     stopLoss: "\u6B62\u635F",
     takeProfit: "\u6B62\u76C8",
     riskLevel: "\u98CE\u9669\u7B49\u7EA7",
+    executionMode: "\u6267\u884C\u6A21\u5F0F",
+    paperMode: "\u6A21\u62DF",
+    liveMode: "\u5B9E\u76D8",
+    paperModeDesc: "\u6A21\u62DF\u6210\u4EA4\uFF0C\u542B\u6ED1\u70B9\u548C\u624B\u7EED\u8D39",
+    liveModeDesc: "\u4ECE\u4F60\u751F\u6210\u7684\u94B1\u5305\u771F\u5B9E\u4EA4\u6613",
     maxDailyTrades: "\u6BCF\u65E5\u6700\u5927\u4EA4\u6613\u6570",
     startAgent: "\u542F\u52A8\u4EE3\u7406",
     stopAgent: "\u505C\u6B62\u4EE3\u7406",
@@ -273,6 +281,125 @@ export const zh: TranslationKeys = {
     invalidPromo: "\u65E0\u6548\u7684\u4FC3\u9500\u4EE3\u7801",
     redeemFailed: "\u5151\u6362\u5931\u8D25",
     promoActivated: "\u4FC3\u9500\u4EE3\u7801\u5DF2\u6FC0\u6D3B\uFF01",
+    backtests: "\u56DE\u6D4B",
+    backtestDesc: "\u7528\u4E0E\u5B9E\u76D8\u4EE3\u7406\u76F8\u540C\u7684\u51B3\u7B56\u548C\u9000\u51FA\u903B\u8F91\uFF0C\u5728\u8FD1\u671FK\u7EBF\u4E0A\u56DE\u653E\u7B56\u7565",
+    runBacktest: "\u8FD0\u884C\u56DE\u6D4B",
+    backtestRunning: "\u56DE\u6D4B\u8FD0\u884C\u4E2D...",
+    backtestStarted: "\u56DE\u6D4B\u5DF2\u5F00\u59CB",
+    backtestFailed: "\u56DE\u6D4B\u5931\u8D25",
+    backtestInterrupted: "\u56DE\u6D4B\u5DF2\u4E2D\u65AD",
+    noBacktests: "\u6682\u65E0\u56DE\u6D4B",
+    backtestAgent: "\u4EE3\u7406",
+    strategyDefaults: "\u7B56\u7565\u9ED8\u8BA4\u503C",
+    decider: "\u51B3\u7B56\u65B9\u5F0F",
+    deciderRule: "\u89C4\u5219\uFF08\u786E\u5B9A\u6027\uFF09",
+    deciderLlm: "LLM",
+    llmRequiresPlan: "LLM \u56DE\u653E\u9700\u8981\u6709\u6548\u5957\u9910",
+    timeframe: "\u65F6\u95F4\u5468\u671F",
+    tokenCount: "\u4EE3\u5E01\u6570",
+    candles: "K\u7EBF\u6570",
+    totalReturn: "\u603B\u6536\u76CA",
+    maxDrawdown: "\u6700\u5927\u56DE\u64A4",
+    sharpe: "\u590F\u666E\u6BD4\u7387",
+    roundTrips: "\u5B8C\u6574\u4EA4\u6613",
+    equityCurve: "\u8D44\u91D1\u66F2\u7EBF",
+    signalAttribution: "\u4FE1\u53F7\u5F52\u56E0",
+    signal: "\u4FE1\u53F7",
+    avgReturn: "\u5E73\u5747\u6536\u76CA",
+    frames: "\u5E27",
+    customStrategies: "\u81EA\u5B9A\u4E49\u7B56\u7565",
+    customStrategiesDesc: "\u5728\u9884\u8BBE\u7B56\u7565\u4E4B\u4E0A\u7F16\u5199\u81EA\u5DF1\u7684\u5165\u573A\u89C4\u5219\u548C\u5206\u6279\u6B62\u76C8\u3002\u6BCF\u6B21\u4FDD\u5B58\u90FD\u4F1A\u751F\u6210\u65B0\u7248\u672C\uFF1B\u4EE3\u7406\u4FDD\u7559\u521B\u5EFA\u65F6\u4F7F\u7528\u7684\u7248\u672C\u3002",
+    newStrategy: "\u65B0\u5EFA\u7B56\u7565",
+    noCustomStrategies: "\u6682\u65E0\u81EA\u5B9A\u4E49\u7B56\u7565",
+    customStrategy: "\u81EA\u5B9A\u4E49",
+    strategyName: "\u7B56\u7565\u540D\u79F0",
+    baseStrategy: "\u57FA\u7840\u9884\u8BBE",
+    maxPositions: "\u6700\u5927\u6301\u4ED3\u6570",
+    entryRule: "\u5165\u573A\u89C4\u5219",
+    entryRuleHint: "\u4F8B\u5982 momentumScore >= 60 and technicals.rsi14 < 70 and not has(signals, \"HIGH_RUG_RISK\")",
+    availableFields: "\u53EF\u7528\u5B57\u6BB5",
+    exitLadder: "\u5206\u6279\u6B62\u76C8",
+    exitLadderHint: "\u5F53\u76C8\u4E8F\u8FBE\u5230\u52A8\u6001\u6B62\u76C8\u7684\u8BE5\u500D\u6570\u65F6\uFF0C\u6BCF\u4E00\u6863\u5356\u51FA\u90E8\u5206\u4ED3\u4F4D",
+    tierThreshold: "\u6B62\u76C8\u500D\u6570",
+    tierSell: "\u5356\u51FA %",
+    addTier: "\u6DFB\u52A0\u6863\u4F4D",
+    promptGuidance: "\u7ED9 AI \u7684\u6307\u5F15\uFF08\u53EF\u9009\uFF09",
+    saveStrategy: "\u4FDD\u5B58\u7B56\u7565",
+    saveNewVersion: "\u4FDD\u5B58\u65B0\u7248\u672C",
+    strategySaved: "\u7B56\u7565\u5DF2\u4FDD\u5B58",
+    decisionProvider: "\u51B3\u7B56\u5F15\u64CE",
+    decisionProviderDesc: "\u6A21\u578B\u51FA\u9519\u3001\u8D85\u65F6\u6216\u9884\u7B97\u7528\u5C3D\u65F6\uFF0C\u7531\u89C4\u5219\u5F15\u64CE\u51B3\u5B9A\u8BE5\u5468\u671F",
+    providerOpenai: "OpenAI",
+    providerLocal: "\u672C\u5730\u6A21\u578B",
+    providerRule: "\u4EC5\u89C4\u5219",
+    dailyTokenBudget: "\u6BCF\u65E5 Token \u9884\u7B97",
+    tokensToday: "\u4ECA\u65E5 tokens",
+    fallbacks: "\u89C4\u5219\u56DE\u9000",
+    portfolioRisk: "\u7EC4\u5408\u98CE\u9669",
+    portfolioRiskDesc: "\u6240\u6709\u4EE3\u7406\u5171\u7528\u7684\u7F8E\u5143\u9650\u989D\u3002\u89E6\u53CA\u6BCF\u65E5\u4E8F\u635F\u6216\u56DE\u64A4\u9650\u989D\u65F6\u5C06\u505C\u6B62\u6240\u6709\u4EE3\u7406\uFF0C\u76F4\u5230\u4F60\u91CD\u7F6E\u7194\u65AD\u5F00\u5173\u3002",
+    maxTotalExposure: "\u6700\u5927\u603B\u655E\u53E3",
+    maxTokenExposure: "\u5355\u4E2A\u4EE3\u5E01\u6700\u5927\u655E\u53E3",
+    maxDailyLoss: "\u6BCF\u65E5\u6700\u5927\u4E8F\u635F",
+    maxDrawdownFromPeak: "\u8DDD\u9AD8\u70B9\u6700\u5927\u56DE\u64A4",
+    noLimit: "\u65E0\u9650\u5236",
+    saveLimits: "\u4FDD\u5B58\u9650\u989D",
+    riskSaved: "\u98CE\u9669\u9650\u989D\u5DF2\u4FDD\u5B58",
+    rugAutoExit: "\u8DD1\u8DEF\u81EA\u52A8\u9000\u51FA",
+    rugAutoExitDesc: "\u5F53\u8DD1\u8DEF\u76D1\u63A7\u6807\u8BB0\u67D0\u4EE3\u5E01\u65F6\uFF0C\u4EE5\u8F83\u9AD8\u6ED1\u70B9\u5E02\u4EF7\u5356\u51FA\u8BE5\u4EE3\u5E01\u7684\u6240\u6709\u6301\u4ED3\u3002",
+    rugExitSlippage: "\u9000\u51FA\u6ED1\u70B9 (bps)",
+    equity: "\u6743\u76CA",
+    exposure: "\u655E\u53E3",
+    dailyPnl: "\u4ECA\u65E5",
+    drawdown: "\u56DE\u64A4",
+    killSwitchActive: "\u7194\u65AD\u5F00\u5173\u5DF2\u89E6\u53D1",
+    resetKillSwitch: "\u91CD\u7F6E\u7194\u65AD\u5F00\u5173",
+    flattenAll: "\u5168\u90E8\u5E73\u4ED3",
+    flattenConfirm: "\u505C\u6B62\u6240\u6709\u4EE3\u7406\u5E76\u5173\u95ED\u5168\u90E8\u6301\u4ED3\uFF1F",
+    flattened: "\u5DF2\u5168\u90E8\u5E73\u4ED3",
+    replay: "\u56DE\u653E",
+    decisionReplay: "\u51B3\u7B56\u56DE\u653E",
+    replayUnavailable: "\u6B64\u51B3\u7B56\u672A\u8BB0\u5F55\u89E3\u91CA",
+    outcomeExecuted: "\u5DF2\u6267\u884C",
+    outcomeBlocked: "\u5DF2\u62E6\u622A",
+    outcomeHold: "\u6301\u6709",
+    replayInputs: "\u8F93\u5165",
+    marketRegime: "\u5E02\u573A\u72B6\u6001",
+    lossStreak: "\u8FDE\u7EED\u4E8F\u635F",
+    adaptiveThresholds: "\u81EA\u9002\u5E94\u95E8\u69DB",
+    ruleFallback: "\u89C4\u5219\u56DE\u9000",
+    proposal: "\u63D0\u8BAE",
+    checksRun: "\u7B5B\u9009\u4E0E\u98CE\u63A7\u68C0\u67E5",
+    sizingSteps: "\u4ED3\u4F4D\u8BA1\u7B97",
+    fill: "\u6210\u4EA4",
+    candidatesConsidered: "\u5019\u9009\u4EE3\u5E01",
+    shortlisted: "\u5DF2\u5165\u9009",
+    shortlistFull: "\u901A\u8FC7\u7B5B\u9009\uFF0C\u4F46\u5165\u9009\u540D\u5355\u5DF2\u6EE1",
+    tournaments: "\u7B56\u7565\u9526\u6807\u8D5B",
+    tournamentDesc: "\u8BA9\u591A\u4E2A\u667A\u80FD\u4F53\u914D\u7F6E\u4EE5\u6A21\u62DF\u6A21\u5F0F\u5728\u76F8\u540C\u5B9E\u65F6\u4FE1\u53F7\u4E0A\u6B63\u9762\u5BF9\u51B3",
+    tournamentName: "\u9526\u6807\u8D5B\u540D\u79F0",
+    durationMinutes: "\u65F6\u957F\uFF08\u5206\u949F\uFF09",
+    entrants: "\u53C2\u8D5B\u8005",
+    addEntrant: "\u6DFB\u52A0\u53C2\u8D5B\u8005",
+    startTournament: "\u5F00\u59CB\u9526\u6807\u8D5B",
+    tournamentStarted: "\u9526\u6807\u8D5B\u5DF2\u5F00\u59CB",
+    tournamentRunning: "\u9526\u6807\u8D5B\u8FDB\u884C\u4E2D...",
+    stopTournament: "\u505C\u6B62\u9526\u6807\u8D5B",
+    tournamentInterrupted: "\u5DF2\u4E2D\u65AD",
+    tournamentFailed: "\u9526\u6807\u8D5B\u5931\u8D25",
+    completed: "\u5DF2\u5B8C\u6210",
+    noTournaments: "\u6682\u65E0\u9526\u6807\u8D5B",
+    llmShortRun: "LLM \u53C2\u8D5B\u8005\u9700\u8981\u6709\u6548\u5957\u9910\uFF0C\u6700\u957F\u8FD0\u884C 60 \u5206\u949F",
+    leaderboard: "\u6392\u884C\u699C",
+    vsLeader: "\u5BF9\u6BD4\u9886\u5148\u8005",
+    significantLead: "\u9886\u5148\u5177\u6709\u7EDF\u8BA1\u663E\u8457\u6027",
+    notSignificant: "\u4E0D\u663E\u8457",
+    promoteTo: "\u5C06\u83B7\u80DC\u914D\u7F6E\u590D\u5236\u5230",
+    promoteWinner: "\u5E94\u7528\u83B7\u80DC\u914D\u7F6E",
+    winnerPromoted: "\u83B7\u80DC\u914D\u7F6E\u5DF2\u590D\u5236\u5230\u667A\u80FD\u4F53",
+    promotedTo: "\u5DF2\u5E94\u7528\u5230",
+    allowShorts: "\u5141\u8BB8\u505A\u7A7A",
+    allowShortsDesc: "\u5728\u718A\u5E02\u884C\u60C5\u4E2D\u505A\u7A7A\u5F31\u52BF\u4EE3\u5E01\u3002\u6A21\u62DF\u4EA4\u6613\u59CB\u7EC8\u53EF\u7528\uFF1B\u5B9E\u76D8\u505A\u7A7A\u9700\u8981\u6C38\u7EED\u5408\u7EA6\u4EA4\u6613\u6240\u3002",
+    sideShort: "\u505A\u7A7A",
   },
 
   smartMoney: {
@@ -308,6 +435,8 @@ export const zh: TranslationKeys = {
     copyDelay: "\u590D\u5236\u5EF6\u8FDF",
     slippage: "\u6ED1\u70B9",
     enabledChains: "\u542F\u7528\u7684\u94FE",
+    auditTrail: "\u8DDF\u5355\u5BA1\u8BA1\u8BB0\u5F55",
+    noFills: "\u6682\u65E0\u8DDF\u5355\u6210\u4EA4",
   },
 
   sniper: {
@@ -323,6 +452,7 @@ export const zh: TranslationKeys = {
     triggerCondition: "\u89E6\u53D1\u6761\u4EF6",
     liquidityThreshold: "\u6D41\u52A8\u6027\u9608\u503C",
     gasMultiplier: "Gas\u500D\u6570",
+    noExecutions: "\u6682\u65E0\u72D9\u51FB\u8BB0\u5F55\u3002\u7B26\u5408\u89C4\u5219\u7684\u65B0\u4EA4\u6613\u5BF9\u5C06\u663E\u793A\u5728\u8FD9\u91CC\u3002",
   },
 
   orders: {
@@ -331,6 +461,8 @@ export const zh: TranslationKeys = {
     createOrder: "\u521B\u5EFA\u8BA2\u5355",
     limitOrder: "\u9650\u4EF7\u5355",
     stopOrder: "\u6B62\u635F\u5355",
+    takeProfit: "\u6B62\u76C8",
+    stopLoss: "\u6B62\u635F",
     dca: "\u5B9A\u6295",
     dcaFull: "\u5B9A\u671F\u5B9A\u989D\u6295\u8D44",
     targetPrice: "\u76EE\u6807\u4EF7\u683C",
@@ -344,6 +476,7 @@ export const zh: TranslationKeys = {
     totalBudget: "\u603B\u9884\u7B97",
     remaining: "\u5269\u4F59",
     executed: "\u5DF2\u6267\u884C",
+    lastRun: "\u4E0A\u6B21\u6267\u884C",
     hourly: "\u6BCF\u5C0F\u65F6",
     daily: "\u6BCF\u5929",
     weekly: "\u6BCF\u5468",
@@ -471,6 +604,9 @@ export const zh: TranslationKeys = {
     requiredTier: "\u6240\u9700\u5C42\u7EA7",
     upgradeNow: "\u7ACB\u5373\u5347\u7EA7",
     viewPricing: "\u67E5\u770B\u4EF7\u683C",
+    used: "\u5DF2\u7528",
+    remaining: "\u5269\u4F59",
+    limitReached: "\u5DF2\u8FBE\u4E0A\u9650",
   },
 
   landing: {
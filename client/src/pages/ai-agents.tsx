@@ -8,15 +8,27 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerDescription,
+  DrawerClose,
+} from "@/components/ui/drawer";
 import { useToast } from "@/hooks/use-toast";
 import {
   Bot, Play, Square, Trash2, Plus, TrendingUp, TrendingDown,
   Activity, Brain, Shield, AlertTriangle, ChevronDown, ChevronUp,
   Zap, Target, BarChart3, Crosshair, ArrowUpRight,
   ArrowDownRight, Eye, Copy, Check, Lock, CreditCard, Clock,
-  Crown, Sparkles, X
+  Crown, Sparkles, X, Pencil, History
 } from "lucide-react";
-import type { AiAgent, AgentTrade, AgentLog, AgentPosition, Subscription } from "@shared/schema";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import type { AiAgent, AgentTrade, AgentLog, AgentPosition, Subscription, CustomStrategy, CustomStrategyVersion } from "@shared/schema";
+import { TIER_CATALOG } from "@shared/tiers";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useTranslation } from "@/i18n";
 
@@ -61,6 +73,7 @@ interface PaymentRecord {
   status: string;
   failureReason: string | null;
   retryCount: number | null;
+  amountReserved: boolean;
   expiresAt: string;
   confirmedAt: string | null;
   createdAt: string;
@@ -73,6 +86,22 @@ interface TierPrice {
   chains: { chain: string; currency: string; cryptoPrice: number; amount: number }[];
 }
 
+interface DecisionUsage {
+  provider: string;
+  dailyTokenBudget: number | null;
+  tokensToday: number;
+  days: { day: string; provider: string; calls: number; failures: number; fallbacks: number; promptTokens: number; completionTokens: number }[];
+}
+
+function useDecisionProviders() {
+  const { t } = useTranslation();
+  return [
+    { value: "openai", label: t.aiAgents.providerOpenai },
+    { value: "local", label: t.aiAgents.providerLocal },
+    { value: "rule", label: t.aiAgents.providerRule },
+  ];
+}
+
 function useStrategies() {
   const { t } = useTranslation();
   return [
@@ -83,6 +112,22 @@ function useStrategies() {
   ];
 }
 
+type CustomStrategyRow = CustomStrategy & { latest?: CustomStrategyVersion };
+
+function useCustomStrategies() {
+  const { data = [] } = useQuery<CustomStrategyRow[]>({ queryKey: ["/api/strategies"] });
+  return data;
+}
+
+// Custom strategies share the preset select as "custom:<id>" values.
+function customStrategyValue(id: number) {
+  return `custom:${id}`;
+}
+
+function parseStrategyValue(value: string): { strategy?: string; customStrategyId?: number } {
+  return value.startsWith("custom:") ? { customStrategyId: Number(value.slice(7)) } : { strategy: value };
+}
+
 // ── Subscription Status Banner ──
 function SubscriptionBanner({ subStatus, onSubscribe }: { subStatus: SubStatus; onSubscribe: () => void }) {
   const { t } = useTranslation();
@@ -325,9 +370,17 @@ function PaymentModal({ onClose, isMobile }: { onClose: () => void; isMobile: bo
 
   const verifyMutation = useMutation({
     mutationFn: () => apiRequest("POST", "/api/subscriptions/verify-payment", { paymentId: paymentData?.paymentId, txHash }),
-    onSuccess: () => {
+    onSuccess: async (res) => {
+      const data = await res.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/subscriptions/payments"] });
+      if (data.status === "confirming") {
+        toast({ title: "Payment detected", description: `${data.message || "Waiting for confirmations"}. Your subscription activates once the transaction is final.` });
+        onClose();
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/subscriptions/me"] });
       queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: "Payment verified!", description: "Your subscription is now active." });
       onClose();
     },
@@ -531,6 +584,7 @@ function PaymentModal({ onClose, isMobile }: { onClose: () => void; isMobile: bo
 
 // ── Position Card ──
 function PositionCard({ position }: { position: AgentPosition }) {
+  const { t } = useTranslation();
   const pnlPercent = position.unrealizedPnlPercent ?? 0;
   const isProfitable = pnlPercent >= 0;
   const pnl = position.unrealizedPnl ?? 0;
@@ -542,6 +596,11 @@ function PositionCard({ position }: { position: AgentPosition }) {
         <div>
           <span className="font-semibold text-xs">{position.tokenSymbol}</span>
           <span className="text-muted-foreground ml-1">({position.chain})</span>
+          {position.side === "short" && (
+            <Badge variant="outline" className="text-[8px] ml-1 text-loss border-loss/30" data-testid={`badge-side-${position.id}`}>
+              {t.aiAgents.sideShort}
+            </Badge>
+          )}
         </div>
       </div>
       <div className="flex items-center gap-3">
@@ -575,11 +634,21 @@ function AgentCard({ agent, onExpand, isExpanded, isMobile }: { agent: AiAgent;
   const { toast } = useToast();
   const { t } = useTranslation();
   const strategies = useStrategies();
+  const providers = useDecisionProviders();
+  const { data: usage } = useQuery<DecisionUsage>({
+    queryKey: ["/api/ai-agents", agent.id, "usage"],
+    enabled: agent.decisionProvider !== "rule",
+    refetchInterval: 60000,
+  });
+  // Usage days are UTC dates.
+  const today = new Date().toISOString().slice(0, 10);
+  const fallbacksToday = (usage?.days ?? []).filter(d => d.day === today).reduce((n, d) => n + d.fallbacks, 0);
 
   const startMutation = useMutation({
     mutationFn: () => apiRequest("POST", `/api/ai-agents/${agent.id}/start`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: "Agent started", description: `${agent.name} is now trading with LIVE market data` });
     },
     onError: (err: any) => {
@@ -591,6 +660,7 @@ function AgentCard({ agent, onExpand, isExpanded, isMobile }: { agent: AiAgent;
     mutationFn: () => apiRequest("POST", `/api/ai-agents/${agent.id}/stop`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: "Agent stopped", description: `${agent.name} has been paused` });
     },
   });
@@ -599,6 +669,7 @@ function AgentCard({ agent, onExpand, isExpanded, isMobile }: { agent: AiAgent;
     mutationFn: () => apiRequest("DELETE", `/api/ai-agents/${agent.id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: "Agent deleted" });
     },
   });
@@ -623,9 +694,17 @@ function AgentCard({ agent, onExpand, isExpanded, isMobile }: { agent: AiAgent;
                 <Badge variant="outline" className={`text-[9px] ${strategy?.color}`}>
                   {strategy?.label}
                 </Badge>
+                {agent.customStrategyVersionId != null && (
+                  <Badge variant="outline" className="text-[9px] text-purple-400" data-testid={`badge-custom-strategy-${agent.id}`}>
+                    {t.aiAgents.customStrategy}
+                  </Badge>
+                )}
                 <Badge variant="outline" className="text-[9px]">
                   {CHAINS.find(c => c.value === agent.chain)?.label || agent.chain}
                 </Badge>
+                <Badge variant="outline" className={`text-[9px] ${agent.executionMode === "live" ? "text-loss border-loss/30" : "text-muted-foreground"}`} data-testid={`badge-mode-${agent.id}`}>
+                  {agent.executionMode === "live" ? t.aiAgents.liveMode : t.aiAgents.paperMode}
+                </Badge>
                 <Badge variant={isRunning ? "default" : "secondary"} className="text-[9px]">
                   {isRunning ? t.aiAgents.running : t.aiAgents.stopped}
                 </Badge>
@@ -685,6 +764,17 @@ function AgentCard({ agent, onExpand, isExpanded, isMobile }: { agent: AiAgent;
           </div>
         </div>
 
+        <div className="flex items-center gap-1 text-[10px] text-muted-foreground" data-testid={`text-decision-usage-${agent.id}`}>
+          <Brain className="w-3 h-3" />
+          <span>{providers.find(p => p.value === agent.decisionProvider)?.label ?? agent.decisionProvider}</span>
+          {usage && (
+            <span className="font-mono">
+              · {usage.tokensToday.toLocaleString()}{usage.dailyTokenBudget != null ? `/${usage.dailyTokenBudget.toLocaleString()}` : ""} {t.aiAgents.tokensToday}
+              {fallbacksToday > 0 && ` · ${fallbacksToday} ${t.aiAgents.fallbacks}`}
+            </span>
+          )}
+        </div>
+
         <div className="text-[9px] text-muted-foreground font-mono truncate">
           {agent.walletAddress}
         </div>
@@ -703,6 +793,7 @@ function AgentCard({ agent, onExpand, isExpanded, isMobile }: { agent: AiAgent;
 // ── Agent Activity Tabs ──
 function AgentActivity({ agentId }: { agentId: number }) {
   const [activeTab, setActiveTab] = useState<"positions" | "trades" | "logs">("positions");
+  const [replayLogId, setReplayLogId] = useState<number | null>(null);
   const { t } = useTranslation();
 
   const { data: positions = [] } = useQuery<AgentPosition[]>({
@@ -771,10 +862,11 @@ function AgentActivity({ agentId }: { agentId: number }) {
               {trades.slice(0, 15).map(trade => (
                 <div key={trade.id} className="flex items-center justify-between text-[10px] font-mono p-1.5 rounded bg-muted/30 flex-wrap gap-1" data-testid={`agent-trade-${trade.id}`}>
                   <div className="flex items-center gap-1.5">
-                    {trade.type === "buy" ? <ArrowUpRight className="w-3 h-3 text-gain" /> : <ArrowDownRight className="w-3 h-3 text-loss" />}
-                    <span className={trade.type === "buy" ? "text-gain" : "text-loss"}>{trade.type.toUpperCase()}</span>
+                    {trade.type === "buy" || trade.type === "cover" ? <ArrowUpRight className="w-3 h-3 text-gain" /> : <ArrowDownRight className="w-3 h-3 text-loss" />}
+                    <span className={trade.type === "buy" || trade.type === "cover" ? "text-gain" : "text-loss"}>{trade.type.toUpperCase()}</span>
                     <span>{trade.amount.toFixed(4)}</span>
                     <span className="text-muted-foreground">@ ${trade.price < 0.001 ? trade.price.toExponential(2) : trade.price.toFixed(6)}</span>
+                    {trade.txHash && <span className="text-muted-foreground" title={trade.txHash}>tx {trade.txHash.slice(0, 8)}</span>}
                   </div>
                   <span className={(trade.pnl ?? 0) >= 0 ? "text-gain" : "text-loss"}>
                     {(trade.pnl ?? 0) >= 0 ? "+" : ""}${(trade.pnl ?? 0).toFixed(4)}
@@ -797,8 +889,8 @@ function AgentActivity({ agentId }: { agentId: number }) {
                   <div className="flex items-center justify-between mb-0.5 gap-1">
                     <div className="flex items-center gap-1">
                       <Badge variant="outline" className={`text-[8px] ${
-                        log.action === "buy" ? "text-gain border-gain/30" :
-                        log.action === "sell" ? "text-loss border-loss/30" :
+                        log.action === "buy" || log.action === "cover" ? "text-gain border-gain/30" :
+                        log.action === "sell" || log.action === "short" ? "text-loss border-loss/30" :
                         log.action === "error" ? "text-destructive border-destructive/30" :
                         log.action === "auto_close" ? "text-orange-400 border-orange-400/30" :
                         "text-muted-foreground"
@@ -807,7 +899,14 @@ function AgentActivity({ agentId }: { agentId: number }) {
                       </Badge>
                       {log.tokensAnalyzed ? <span className="text-muted-foreground">{log.tokensAnalyzed} {t.aiAgents.tokensAnalyzed}</span> : null}
                     </div>
-                    <span className="text-muted-foreground">{log.confidence ? `${log.confidence}% ${t.aiAgents.confidence}` : ""}</span>
+                    <div className="flex items-center gap-1">
+                      <span className="text-muted-foreground">{log.confidence ? `${log.confidence}% ${t.aiAgents.confidence}` : ""}</span>
+                      {log.decision?.startsWith("{") && (
+                        <Button size="sm" variant="ghost" className="h-5 px-1 text-[9px]" onClick={() => setReplayLogId(log.id)} data-testid={`button-replay-${log.id}`}>
+                          <History className="w-3 h-3 mr-0.5" /> {t.aiAgents.replay}
+                        </Button>
+                      )}
+                    </div>
                   </div>
                   <div className="text-muted-foreground leading-tight">{log.reasoning}</div>
                   {log.marketContext && <div className="text-[9px] text-muted-foreground/60 mt-0.5 truncate">{log.marketContext}</div>}
@@ -817,15 +916,218 @@ function AgentActivity({ agentId }: { agentId: number }) {
           )}
         </div>
       )}
+
+      <DecisionReplay agentId={agentId} logId={replayLogId} onClose={() => setReplayLogId(null)} />
     </div>
   );
 }
 
+// ── Decision Replay ──
+interface DecisionCheck {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+interface ExplainedCandidate {
+  rank: number;
+  symbol: string;
+  chain: string;
+  price: number;
+  signalScore: number;
+  conviction: number;
+  momentum: number;
+  buyPressure: number;
+  rugRisk: number;
+  whaleActivity: string;
+  shortlisted: boolean;
+  rejectedBy: string[];
+}
+
+interface DecisionExplanation {
+  logId: number;
+  createdAt: string;
+  strategy: string;
+  customStrategy: string | null;
+  marketRegime: string;
+  openPositions: number;
+  lossStreak: number;
+  thresholds: { minConviction: number; minSignalScore: number; minMomentum: number; positionSizeMultiplier: number } | null;
+  candidates: ExplainedCandidate[];
+  provider: string | null;
+  fallbackReason: string | null;
+  proposal: { action?: string; tokenSymbol?: string; amount?: number; confidence?: number; reasoning?: string } | null;
+  checks: DecisionCheck[];
+  sizing: { step: string; amount: number }[];
+  fill: { mode: string; price: number; size: number; txHash: string | null } | null;
+  outcome: { result: "executed" | "blocked" | "hold"; action: string; tokenSymbol: string | null; detail: string } | null;
+}
+
+function ReplaySection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-[10px] font-semibold uppercase text-muted-foreground">{title}</div>
+      {children}
+    </div>
+  );
+}
+
+function DecisionReplay({ agentId, logId, onClose }: { agentId: number; logId: number | null; onClose: () => void }) {
+  const { t } = useTranslation();
+  const { data: explanation, isLoading } = useQuery<DecisionExplanation | null>({
+    queryKey: ["/api/ai-agents", agentId, "logs", logId, "explanation"],
+    queryFn: () => fetch(`/api/ai-agents/${agentId}/logs/${logId}/explanation`).then(r => (r.ok ? r.json() : null)),
+    enabled: logId != null,
+  });
+
+  const outcomeLabel = {
+    executed: t.aiAgents.outcomeExecuted,
+    blocked: t.aiAgents.outcomeBlocked,
+    hold: t.aiAgents.outcomeHold,
+  };
+  const outcomeColor = {
+    executed: "text-gain border-gain/30",
+    blocked: "text-loss border-loss/30",
+    hold: "text-muted-foreground",
+  };
+
+  return (
+    <Drawer open={logId != null} onOpenChange={open => { if (!open) onClose(); }}>
+      <DrawerContent className="max-h-[85vh]">
+        <DrawerHeader className="py-2 px-3 flex items-center justify-between">
+          <div>
+            <DrawerTitle className="text-sm">{t.aiAgents.decisionReplay}</DrawerTitle>
+            <DrawerDescription className="text-[10px]">
+              {explanation ? `#${explanation.logId} · ${new Date(explanation.createdAt).toLocaleString()}` : ""}
+            </DrawerDescription>
+          </div>
+          <DrawerClose asChild>
+            <Button size="icon" variant="ghost" data-testid="button-close-replay"><X className="w-4 h-4" /></Button>
+          </DrawerClose>
+        </DrawerHeader>
+        <div className="overflow-auto px-3 pb-4 space-y-3 text-[10px]">
+          {isLoading ? (
+            <div className="text-muted-foreground text-center py-4">{t.common.loading}</div>
+          ) : !explanation ? (
+            <div className="text-muted-foreground text-center py-4">{t.aiAgents.replayUnavailable}</div>
+          ) : (
+            <>
+              {explanation.outcome && (
+                <div className="flex items-start gap-2 p-2 rounded bg-muted/30" data-testid="replay-outcome">
+                  <Badge variant="outline" className={`text-[8px] shrink-0 ${outcomeColor[explanation.outcome.result]}`}>
+                    {outcomeLabel[explanation.outcome.result]}
+                  </Badge>
+                  <span className="leading-tight">
+                    {explanation.outcome.tokenSymbol && <span className="font-mono font-bold mr-1">{explanation.outcome.action.toUpperCase()} {explanation.outcome.tokenSymbol}</span>}
+                    {explanation.outcome.detail}
+                  </span>
+                </div>
+              )}
+
+              <ReplaySection title={t.aiAgents.replayInputs}>
+                <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 font-mono">
+                  <span className="text-muted-foreground">{t.aiAgents.strategy}</span>
+                  <span>{explanation.customStrategy ? `${explanation.strategy} + ${explanation.customStrategy}` : explanation.strategy}</span>
+                  <span className="text-muted-foreground">{t.aiAgents.marketRegime}</span>
+                  <span>{explanation.marketRegime}</span>
+                  <span className="text-muted-foreground">{t.aiAgents.openPositions}</span>
+                  <span>{explanation.openPositions}</span>
+                  <span className="text-muted-foreground">{t.aiAgents.lossStreak}</span>
+                  <span>{explanation.lossStreak}</span>
+                  <span className="text-muted-foreground">{t.aiAgents.decisionProvider}</span>
+                  <span>{explanation.provider ?? "-"}</span>
+                  {explanation.thresholds && (
+                    <>
+                      <span className="text-muted-foreground">{t.aiAgents.adaptiveThresholds}</span>
+                      <span>
+                        conv {explanation.thresholds.minConviction} · sig {explanation.thresholds.minSignalScore} · mom {explanation.thresholds.minMomentum} · size x{explanation.thresholds.positionSizeMultiplier.toFixed(2)}
+                      </span>
+                    </>
+                  )}
+                </div>
+                {explanation.fallbackReason && (
+                  <div className="text-orange-400">{t.aiAgents.ruleFallback}: {explanation.fallbackReason}</div>
+                )}
+              </ReplaySection>
+
+              {explanation.proposal && (
+                <ReplaySection title={t.aiAgents.proposal}>
+                  <div className="font-mono">
+                    {(explanation.proposal.action ?? "hold").toUpperCase()} {explanation.proposal.tokenSymbol || ""}
+                    {explanation.proposal.amount ? ` · ${explanation.proposal.amount}` : ""}
+                    {explanation.proposal.confidence != null ? ` · ${explanation.proposal.confidence}% ${t.aiAgents.confidence}` : ""}
+                  </div>
+                  {explanation.proposal.reasoning && <div className="text-muted-foreground leading-tight">{explanation.proposal.reasoning}</div>}
+                </ReplaySection>
+              )}
+
+              {explanation.checks.length > 0 && (
+                <ReplaySection title={t.aiAgents.checksRun}>
+                  {explanation.checks.map((check, i) => (
+                    <div key={i} className="flex items-start gap-1.5" data-testid={`replay-check-${i}`}>
+                      {check.passed ? <Check className="w-3 h-3 text-gain shrink-0" /> : <X className="w-3 h-3 text-loss shrink-0" />}
+                      <span className="font-semibold shrink-0">{check.name}</span>
+                      <span className="text-muted-foreground leading-tight">{check.detail}</span>
+                    </div>
+                  ))}
+                </ReplaySection>
+              )}
+
+              {explanation.sizing.length > 0 && (
+                <ReplaySection title={t.aiAgents.sizingSteps}>
+                  {explanation.sizing.map((step, i) => (
+                    <div key={i} className="flex items-center justify-between font-mono">
+                      <span className="text-muted-foreground">{step.step}</span>
+                      <span>{step.amount.toFixed(4)}</span>
+                    </div>
+                  ))}
+                </ReplaySection>
+              )}
+
+              {explanation.fill && (
+                <ReplaySection title={t.aiAgents.fill}>
+                  <div className="font-mono">
+                    {explanation.fill.size.toFixed(4)} @ ${explanation.fill.price < 0.001 ? explanation.fill.price.toExponential(2) : explanation.fill.price.toFixed(6)} ({explanation.fill.mode})
+                    {explanation.fill.txHash && <span className="text-muted-foreground" title={explanation.fill.txHash}> tx {explanation.fill.txHash.slice(0, 8)}</span>}
+                  </div>
+                </ReplaySection>
+              )}
+
+              <ReplaySection title={`${t.aiAgents.candidatesConsidered} (${explanation.candidates.length})`}>
+                <div className="space-y-0.5">
+                  {explanation.candidates.map(c => (
+                    <div key={`${c.chain}:${c.rank}`} className={`p-1 rounded ${c.shortlisted ? "bg-gain/10" : "bg-muted/30"}`} data-testid={`replay-candidate-${c.rank}`}>
+                      <div className="flex items-center justify-between gap-1 font-mono">
+                        <span>
+                          #{c.rank} <span className="font-bold">{c.symbol}</span> <span className="text-muted-foreground">{c.chain}</span>
+                        </span>
+                        <span className="text-muted-foreground">
+                          sig {c.signalScore} · conv {c.conviction} · mom {c.momentum} · buyP {c.buyPressure} · rug {c.rugRisk} · {c.whaleActivity}
+                        </span>
+                      </div>
+                      <div className={c.shortlisted ? "text-gain" : "text-muted-foreground"}>
+                        {c.shortlisted
+                          ? t.aiAgents.shortlisted
+                          : c.rejectedBy.length > 0 ? c.rejectedBy.join(", ") : t.aiAgents.shortlistFull}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ReplaySection>
+            </>
+          )}
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
+
 // ── Create Agent Form ──
 function CreateAgentForm({ onClose, isMobile }: { onClose: () => void; isMobile: boolean }) {
   const { toast } = useToast();
   const { t } = useTranslation();
   const strategies = useStrategies();
+  const customStrategies = useCustomStrategies();
   const [name, setName] = useState("");
   const [walletAddress, setWalletAddress] = useState("");
   const [chain, setChain] = useState("solana");
@@ -835,16 +1137,23 @@ function CreateAgentForm({ onClose, isMobile }: { onClose: () => void; isMobile:
   const [takeProfit, setTakeProfit] = useState(50);
   const [maxDailyTrades, setMaxDailyTrades] = useState(10);
   const [riskLevel, setRiskLevel] = useState(5);
+  const [executionMode, setExecutionMode] = useState("paper");
+  const [allowShorts, setAllowShorts] = useState(false);
+  const [decisionProvider, setDecisionProvider] = useState("openai");
+  const [dailyTokenBudget, setDailyTokenBudget] = useState("");
+  const providers = useDecisionProviders();
 
   const createMutation = useMutation({
     mutationFn: () => apiRequest("POST", "/api/ai-agents", {
-      name, walletAddress, chain, strategy,
+      name, walletAddress, chain, executionMode, ...parseStrategyValue(strategy),
+      decisionProvider, dailyTokenBudget: decisionProvider !== "rule" && Number(dailyTokenBudget) > 0 ? Math.round(Number(dailyTokenBudget)) : null,
       status: "stopped", maxPositionSize,
       stopLossPercent: stopLoss, takeProfitPercent: takeProfit,
-      maxDailyTrades, riskLevel,
+      maxDailyTrades, riskLevel, allowShorts,
     }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       queryClient.invalidateQueries({ queryKey: ["/api/subscriptions/me"] });
       toast({ title: "Agent created", description: `${name} is ready to deploy with LIVE market signals` });
       onClose();
@@ -855,6 +1164,7 @@ function CreateAgentForm({ onClose, isMobile }: { onClose: () => void; isMobile:
   });
 
   const selectedStrategy = strategies.find(s => s.value === strategy);
+  const selectedCustom = customStrategies.find(s => customStrategyValue(s.id) === strategy);
 
   return (
     <Card>
@@ -888,12 +1198,63 @@ function CreateAgentForm({ onClose, isMobile }: { onClose: () => void; isMobile:
             <Label className="text-xs">{t.aiAgents.strategy}</Label>
             <Select value={strategy} onValueChange={setStrategy}>
               <SelectTrigger className="h-8 text-xs" data-testid="select-strategy"><SelectValue /></SelectTrigger>
-              <SelectContent>{strategies.map(s => <SelectItem key={s.value} value={s.value}><span className={s.color}>{s.label}</span></SelectItem>)}</SelectContent>
+              <SelectContent>
+                {strategies.map(s => <SelectItem key={s.value} value={s.value}><span className={s.color}>{s.label}</span></SelectItem>)}
+                {customStrategies.map(s => (
+                  <SelectItem key={s.id} value={customStrategyValue(s.id)}>
+                    <span className="text-purple-400">{s.name}</span> <span className="text-muted-foreground">v{s.latestVersion}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
             </Select>
             {selectedStrategy && <div className="text-[9px] text-muted-foreground">{selectedStrategy.desc}</div>}
+            {selectedCustom?.latest && (
+              <div className="text-[9px] text-muted-foreground font-mono truncate" title={selectedCustom.latest.entryRule}>
+                {strategies.find(s => s.value === selectedCustom.latest?.baseStrategy)?.label} · {selectedCustom.latest.entryRule}
+              </div>
+            )}
           </div>
         </div>
 
+        <div className="space-y-1.5">
+          <Label className="text-xs">{t.aiAgents.executionMode}</Label>
+          <Select value={executionMode} onValueChange={setExecutionMode}>
+            <SelectTrigger className="h-8 text-xs" data-testid="select-execution-mode"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="paper">{t.aiAgents.paperMode}</SelectItem>
+              <SelectItem value="live"><span className="text-loss">{t.aiAgents.liveMode}</span></SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="text-[9px] text-muted-foreground">
+            {executionMode === "live" ? t.aiAgents.liveModeDesc : t.aiAgents.paperModeDesc}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="space-y-0.5">
+            <Label className="text-xs">{t.aiAgents.allowShorts}</Label>
+            <div className="text-[9px] text-muted-foreground">{t.aiAgents.allowShortsDesc}</div>
+          </div>
+          <Switch checked={allowShorts} onCheckedChange={setAllowShorts} data-testid="switch-allow-shorts" />
+        </div>
+
+        <div className={`grid gap-3 ${isMobile ? "grid-cols-1" : "grid-cols-2"}`}>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t.aiAgents.decisionProvider}</Label>
+            <Select value={decisionProvider} onValueChange={setDecisionProvider}>
+              <SelectTrigger className="h-8 text-xs" data-testid="select-decision-provider"><SelectValue /></SelectTrigger>
+              <SelectContent>{providers.map(p => <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>)}</SelectContent>
+            </Select>
+            <div className="text-[9px] text-muted-foreground">{t.aiAgents.decisionProviderDesc}</div>
+          </div>
+          {decisionProvider !== "rule" && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t.aiAgents.dailyTokenBudget}</Label>
+              <Input type="number" value={dailyTokenBudget} onChange={e => setDailyTokenBudget(e.target.value)} placeholder={t.aiAgents.unlimited} className="h-8 text-xs" min={1000} step={1000} data-testid="input-daily-token-budget" />
+            </div>
+          )}
+        </div>
+
         <div className={`grid gap-3 ${isMobile ? "grid-cols-1 sm:grid-cols-2" : "grid-cols-3"}`}>
           <div className="space-y-1.5">
             <Label className="text-xs">{t.aiAgents.maxPosition} (SOL)</Label>
@@ -1171,6 +1532,14 @@ export default function AiAgentsPage() {
           )}
         </div>
 
+        <RiskPanel isMobile={isMobile} />
+
+        <StrategyEditor isMobile={isMobile} />
+
+        <BacktestPanel agents={agents} hasSubscription={hasSubscription} isMobile={isMobile} />
+
+        <TournamentPanel agents={agents} hasSubscription={hasSubscription} isMobile={isMobile} />
+
         {!showPayment && (
           <div>
             <h2 className="text-sm font-semibold mb-3 flex items-center gap-2">
@@ -1178,11 +1547,9 @@ export default function AiAgentsPage() {
               Subscription Plans - Pay with Crypto
             </h2>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-              {[
-                { name: "Basic", price: 29, features: ["1 AI Agent", "10 trades/day", "Live market signals", "Basic strategies"], tier: "basic" },
-                { name: "Pro", price: 79, features: ["3 AI Agents", "50 trades/day", "All strategies", "Priority execution", "Position tracking"], tier: "pro" },
-                { name: "Whale", price: 199, features: ["Unlimited Agents", "Unlimited trades", "All strategies", "Priority execution", "Custom risk profiles", "Advanced signals"], tier: "whale" },
-              ].map((plan, i) => {
+              {TIER_CATALOG.filter(t => t.monthlyPriceUsd > 0).map(t => (
+                { name: t.name, price: t.monthlyPriceUsd, features: t.features, tier: t.id }
+              )).map((plan, i) => {
                 const isCurrentTier = subStatus?.tier === plan.tier;
                 return (
                   <Card key={plan.name} className={i === 1 ? "border-gain/30" : isCurrentTier ? "border-gain/50" : ""}>
@@ -1233,6 +1600,978 @@ export default function AiAgentsPage() {
   );
 }
 
+// ── Portfolio Risk ──
+interface RiskStatus {
+  maxTotalExposure: number | null;
+  maxTokenExposure: number | null;
+  maxDailyLoss: number | null;
+  maxDrawdown: number | null;
+  rugAutoExit: boolean;
+  rugExitSlippageBps: number | null;
+  killSwitchActive: boolean;
+  killSwitchReason: string | null;
+  killSwitchAt: string | null;
+  equity: number;
+  equityPeak: number;
+  dailyPnl: number;
+  drawdown: number;
+  totalExposure: number;
+  tokenExposure: { token: string; chain: string; exposure: number }[];
+  openPositions: number;
+}
+
+const RISK_LIMIT_KEYS = ["maxTotalExposure", "maxTokenExposure", "maxDailyLoss", "maxDrawdown"] as const;
+type RiskLimitKey = typeof RISK_LIMIT_KEYS[number];
+
+function RiskPanel({ isMobile }: { isMobile: boolean }) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { data: risk } = useQuery<RiskStatus>({ queryKey: ["/api/risk"], refetchInterval: 15000 });
+  // Unsaved edits; a field not in here shows the saved limit.
+  const [drafts, setDrafts] = useState<Partial<Record<RiskLimitKey, string>>>({});
+  const [slippageDraft, setSlippageDraft] = useState<string | null>(null);
+  const [confirmFlatten, setConfirmFlatten] = useState(false);
+
+  const fieldValue = (key: RiskLimitKey) => drafts[key] ?? (risk?.[key] != null ? String(risk[key]) : "");
+  const slippageValue = slippageDraft ?? (risk?.rugExitSlippageBps != null ? String(risk.rugExitSlippageBps) : "");
+
+  const onRiskChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/risk"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const body = Object.fromEntries(RISK_LIMIT_KEYS.map(key => {
+        const value = fieldValue(key).trim();
+        return [key, value === "" ? null : Number(value)];
+      }));
+      if (slippageDraft != null) {
+        body.rugExitSlippageBps = slippageDraft.trim() === "" ? null : Number(slippageDraft);
+      }
+      return apiRequest("PUT", "/api/risk", body);
+    },
+    onSuccess: () => {
+      setDrafts({});
+      setSlippageDraft(null);
+      onRiskChanged();
+      toast({ title: t.aiAgents.riskSaved });
+    },
+    onError: (err: any) => {
+      toast({ title: t.common.error, description: err.message, variant: "destructive" });
+    },
+  });
+
+  const rugAutoExitMutation = useMutation({
+    mutationFn: (rugAutoExit: boolean) => apiRequest("PUT", "/api/risk", { rugAutoExit }),
+    onSuccess: onRiskChanged,
+    onError: (err: any) => {
+      toast({ title: t.common.error, description: err.message, variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/risk/reset"),
+    onSuccess: onRiskChanged,
+    onError: (err: any) => {
+      toast({ title: t.common.error, description: err.message, variant: "destructive" });
+    },
+  });
+
+  const flattenMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/risk/flatten");
+      return res.json() as Promise<{ closed: number; remaining: number }>;
+    },
+    onSuccess: (result) => {
+      setConfirmFlatten(false);
+      onRiskChanged();
+      toast({
+        title: t.aiAgents.flattened,
+        description: `${result.closed} closed${result.remaining > 0 ? `, ${result.remaining} still open` : ""}`,
+        variant: result.remaining > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (err: any) => {
+      toast({ title: t.common.error, description: err.message, variant: "destructive" });
+    },
+  });
+
+  const labels: Record<RiskLimitKey, string> = {
+    maxTotalExposure: t.aiAgents.maxTotalExposure,
+    maxTokenExposure: t.aiAgents.maxTokenExposure,
+    maxDailyLoss: t.aiAgents.maxDailyLoss,
+    maxDrawdown: t.aiAgents.maxDrawdownFromPeak,
+  };
+  const usd = (n: number) => `${n < 0 ? "-" : ""}$${Math.abs(n).toFixed(2)}`;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Shield className="w-4 h-4 text-amber-400" />
+            {t.aiAgents.portfolioRisk}
+          </CardTitle>
+          {confirmFlatten ? (
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-loss">{t.aiAgents.flattenConfirm}</span>
+              <Button size="sm" variant="destructive" onClick={() => flattenMutation.mutate()} disabled={flattenMutation.isPending} data-testid="button-confirm-flatten">
+                {t.aiAgents.flattenAll}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setConfirmFlatten(false)} data-testid="button-cancel-flatten">{t.common.cancel}</Button>
+            </div>
+          ) : (
+            <Button size="sm" variant="outline" className="text-loss" onClick={() => setConfirmFlatten(true)} disabled={!risk || risk.openPositions === 0} data-testid="button-flatten-all">
+              <Square className="w-3 h-3 mr-1" />
+              {t.aiAgents.flattenAll}
+            </Button>
+          )}
+        </div>
+        <p className="text-[10px] text-muted-foreground">{t.aiAgents.portfolioRiskDesc}</p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {risk?.killSwitchActive && (
+          <div className="flex items-center justify-between gap-2 rounded-md border border-loss/30 bg-loss/5 p-2" data-testid="banner-kill-switch">
+            <div className="flex items-start gap-2 min-w-0">
+              <AlertTriangle className="w-4 h-4 text-loss mt-0.5 shrink-0" />
+              <div className="min-w-0">
+                <div className="text-xs font-semibold text-loss">{t.aiAgents.killSwitchActive}</div>
+                <div className="text-[10px] text-muted-foreground">{risk.killSwitchReason}</div>
+              </div>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => resetMutation.mutate()} disabled={resetMutation.isPending} data-testid="button-reset-kill-switch">
+              {t.aiAgents.resetKillSwitch}
+            </Button>
+          </div>
+        )}
+
+        {risk && (
+          <div className={`grid gap-2 ${isMobile ? "grid-cols-2" : "grid-cols-4"}`}>
+            <div className="text-center">
+              <div className="text-[10px] text-muted-foreground">{t.aiAgents.equity}</div>
+              <div className={`text-sm font-mono font-bold ${risk.equity >= 0 ? "text-gain" : "text-loss"}`}>{usd(risk.equity)}</div>
+            </div>
+            <div className="text-center">
+              <div className="text-[10px] text-muted-foreground">{t.aiAgents.exposure}</div>
+              <div className="text-sm font-mono font-bold" data-testid="text-risk-exposure">
+                {usd(risk.totalExposure)}{risk.maxTotalExposure != null ? ` / ${usd(risk.maxTotalExposure)}` : ""}
+              </div>
+            </div>
+            <div className="text-center">
+              <div className="text-[10px] text-muted-foreground">{t.aiAgents.dailyPnl}</div>
+              <div className={`text-sm font-mono font-bold ${risk.dailyPnl >= 0 ? "text-gain" : "text-loss"}`}>{usd(risk.dailyPnl)}</div>
+            </div>
+            <div className="text-center">
+              <div className="text-[10px] text-muted-foreground">{t.aiAgents.drawdown}</div>
+              <div className={`text-sm font-mono font-bold ${risk.drawdown > 0 ? "text-loss" : ""}`}>{usd(risk.drawdown)}</div>
+            </div>
+          </div>
+        )}
+
+        {risk && risk.tokenExposure.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {risk.tokenExposure.slice(0, 8).map(entry => (
+              <Badge key={`${entry.chain}:${entry.token}`} variant="outline" className="text-[9px] font-mono">
+                {entry.token} {usd(entry.exposure)}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className={`grid gap-3 ${isMobile ? "grid-cols-1" : "grid-cols-4"}`}>
+          {RISK_LIMIT_KEYS.map(key => (
+            <div key={key} className="space-y-1.5">
+              <Label className="text-xs">{labels[key]} ($)</Label>
+              <Input
+                type="number"
+                value={fieldValue(key)}
+                onChange={e => setDrafts({ ...drafts, [key]: e.target.value })}
+                placeholder={t.aiAgents.noLimit}
+                className="h-8 text-xs"
+                min={0}
+                data-testid={`input-risk-${key}`}
+              />
+            </div>
+          ))}
+        </div>
+        <div className={`grid gap-3 ${isMobile ? "grid-cols-1" : "grid-cols-4"}`}>
+          <div className={`flex items-center justify-between gap-3 ${isMobile ? "" : "col-span-3"}`}>
+            <div className="space-y-0.5">
+              <Label className="text-xs">{t.aiAgents.rugAutoExit}</Label>
+              <div className="text-[9px] text-muted-foreground">{t.aiAgents.rugAutoExitDesc}</div>
+            </div>
+            <Switch
+              checked={risk?.rugAutoExit ?? false}
+              onCheckedChange={checked => rugAutoExitMutation.mutate(checked)}
+              disabled={!risk || rugAutoExitMutation.isPending}
+              data-testid="switch-rug-auto-exit"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t.aiAgents.rugExitSlippage}</Label>
+            <Input
+              type="number"
+              value={slippageValue}
+              onChange={e => setSlippageDraft(e.target.value)}
+              placeholder="1500"
+              className="h-8 text-xs"
+              min={100}
+              max={5000}
+              data-testid="input-rug-exit-slippage"
+            />
+          </div>
+        </div>
+        <Button size="sm" onClick={() => saveMutation.mutate()} disabled={(Object.keys(drafts).length === 0 && slippageDraft == null) || saveMutation.isPending} data-testid="button-save-risk">
+          {t.aiAgents.saveLimits}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ── Custom Strategies ──
+interface ExitTierDraft {
+  threshold: number;
+  sellPercent: number;
+}
+
+const DEFAULT_EXIT_LADDER: ExitTierDraft[] = [
+  { threshold: 0.5, sellPercent: 30 },
+  { threshold: 1.0, sellPercent: 40 },
+  { threshold: 1.5, sellPercent: 50 },
+];
+
+function StrategyEditor({ isMobile }: { isMobile: boolean }) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const strategies = useStrategies();
+  const customStrategies = useCustomStrategies();
+  const { data: fields = {} } = useQuery<Record<string, { type: string; values?: string[] }>>({ queryKey: ["/api/strategies/fields"] });
+  // null: closed, 0: new strategy, otherwise the strategy being edited.
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [baseStrategy, setBaseStrategy] = useState("balanced");
+  const [entryRule, setEntryRule] = useState("");
+  const [exitLadder, setExitLadder] = useState<ExitTierDraft[]>(DEFAULT_EXIT_LADDER);
+  const [maxPositions, setMaxPositions] = useState(5);
+  const [promptGuidance, setPromptGuidance] = useState("");
+
+  const openEditor = (row?: CustomStrategyRow) => {
+    setEditingId(row?.id ?? 0);
+    setName(row?.name ?? "");
+    setBaseStrategy(row?.latest?.baseStrategy ?? "balanced");
+    setEntryRule(row?.latest?.entryRule ?? "");
+    setExitLadder(row?.latest ? JSON.parse(row.latest.exitLadder) : DEFAULT_EXIT_LADDER);
+    setMaxPositions(row?.latest?.maxPositions ?? 5);
+    setPromptGuidance(row?.latest?.promptGuidance ?? "");
+  };
+
+  const updateTier = (index: number, patch: Partial<ExitTierDraft>) => {
+    setExitLadder(exitLadder.map((tier, i) => (i === index ? { ...tier, ...patch } : tier)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const body = { name, baseStrategy, entryRule, exitLadder, maxPositions, promptGuidance: promptGuidance.trim() || null };
+      return editingId
+        ? apiRequest("PUT", `/api/strategies/${editingId}`, body)
+        : apiRequest("POST", "/api/strategies", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+      toast({ title: t.aiAgents.strategySaved });
+      setEditingId(null);
+    },
+    onError: (err: any) => {
+      toast({ title: t.common.error, description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/strategies/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+    },
+    onError: (err: any) => {
+      toast({ title: t.common.error, description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Brain className="w-4 h-4 text-purple-400" />
+            {t.aiAgents.customStrategies}
+          </CardTitle>
+          {editingId === null && (
+            <Button size="sm" variant="outline" onClick={() => openEditor()} data-testid="button-new-strategy">
+              <Plus className="w-3 h-3 mr-1" />
+              {t.aiAgents.newStrategy}
+            </Button>
+          )}
+        </div>
+        <p className="text-[10px] text-muted-foreground">{t.aiAgents.customStrategiesDesc}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {customStrategies.length === 0 && editingId === null ? (
+          <div className="text-xs text-muted-foreground text-center py-4">{t.aiAgents.noCustomStrategies}</div>
+        ) : (
+          <div className="space-y-1.5">
+            {customStrategies.map(row => (
+              <div key={row.id} className={`flex items-center justify-between gap-2 rounded-md border p-2 text-[10px] ${row.id === editingId ? "border-purple-400/50" : ""}`} data-testid={`custom-strategy-${row.id}`}>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-semibold text-xs">{row.name}</span>
+                  <Badge variant="outline" className="text-[9px]">v{row.latestVersion}</Badge>
+                  <span className="text-muted-foreground truncate font-mono" title={row.latest?.entryRule}>{row.latest?.entryRule}</span>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => openEditor(row)} data-testid={`button-edit-strategy-${row.id}`}>
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => deleteMutation.mutate(row.id)} data-testid={`button-delete-strategy-${row.id}`}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {editingId !== null && (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className={`grid gap-3 ${isMobile ? "grid-cols-1" : "grid-cols-3"}`}>
+              <div className="space-y-1.5">
+                <Label className="text-xs">{t.aiAgents.strategyName}</Label>
+                <Input value={name} onChange={e => setName(e.target.value)} placeholder="Pullback Sniper" className="h-8 text-xs" data-testid="input-strategy-name" />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">{t.aiAgents.baseStrategy}</Label>
+                <Select value={baseStrategy} onValueChange={setBaseStrategy}>
+                  <SelectTrigger className="h-8 text-xs" data-testid="select-base-strategy"><SelectValue /></SelectTrigger>
+                  <SelectContent>{strategies.map(s => <SelectItem key={s.value} value={s.value}><span className={s.color}>{s.label}</span></SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">{t.aiAgents.maxPositions}</Label>
+                <Input type="number" value={maxPositions} onChange={e => setMaxPositions(Number(e.target.value))} className="h-8 text-xs" min={1} max={20} data-testid="input-strategy-max-positions" />
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t.aiAgents.entryRule}</Label>
+              <Textarea
+                value={entryRule}
+                onChange={e => setEntryRule(e.target.value)}
+                placeholder={t.aiAgents.entryRuleHint}
+                className="text-xs font-mono min-h-[64px]"
+                data-testid="input-entry-rule"
+              />
+              <div className="text-[9px] text-muted-foreground font-mono break-words">
+                {t.aiAgents.availableFields}: {Object.keys(fields).join(", ")}
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t.aiAgents.exitLadder}</Label>
+              <div className="text-[9px] text-muted-foreground">{t.aiAgents.exitLadderHint}</div>
+              {exitLadder.map((tier, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <span className="text-[10px] text-muted-foreground w-20">{t.aiAgents.tierThreshold}</span>
+                  <Input type="number" value={tier.threshold} onChange={e => updateTier(i, { threshold: Number(e.target.value) })} className="h-7 text-xs w-20" min={0.05} max={3} step={0.05} data-testid={`input-tier-threshold-${i}`} />
+                  <span className="text-[10px] text-muted-foreground">{t.aiAgents.tierSell}</span>
+                  <Input type="number" value={tier.sellPercent} onChange={e => updateTier(i, { sellPercent: Number(e.target.value) })} className="h-7 text-xs w-20" min={1} max={100} data-testid={`input-tier-sell-${i}`} />
+                  <Button variant="ghost" size="icon" className="h-6 w-6" disabled={exitLadder.length <= 1} onClick={() => setExitLadder(exitLadder.filter((_, j) => j !== i))} data-testid={`button-remove-tier-${i}`}>
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+              {exitLadder.length < 8 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setExitLadder([...exitLadder, { threshold: (exitLadder[exitLadder.length - 1]?.threshold ?? 0) + 0.5, sellPercent: 50 }])}
+                  data-testid="button-add-tier"
+                >
+                  <Plus className="w-3 h-3 mr-1" />
+                  {t.aiAgents.addTier}
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t.aiAgents.promptGuidance}</Label>
+              <Textarea value={promptGuidance} onChange={e => setPromptGuidance(e.target.value)} maxLength={2000} className="text-xs min-h-[48px]" data-testid="input-prompt-guidance" />
+            </div>
+
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!name || !entryRule || saveMutation.isPending} data-testid="button-save-strategy">
+                {editingId ? t.aiAgents.saveNewVersion : t.aiAgents.saveStrategy}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setEditingId(null)} data-testid="button-cancel-strategy">{t.common.cancel}</Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ── Backtests ──
+interface BacktestMetrics {
+  startingBalance: number;
+  finalEquity: number;
+  totalReturnPct: number;
+  maxDrawdownPct: number;
+  sharpe: number;
+  winRate: number;
+  roundTrips: number;
+  trades: number;
+  frames: number;
+  cycleErrors: number;
+}
+
+interface BacktestRun {
+  id: number;
+  agentId: number | null;
+  strategy: string;
+  source: string;
+  decider: string;
+  status: string;
+  config: { chain?: string; source?: { timeframe?: string; tokenCount?: number } } | null;
+  metrics: BacktestMetrics | null;
+  attribution: { signal: string; trades: number; wins: number; winRate: number; totalPnl: number; avgReturnPct: number }[] | null;
+  equityCurve?: { time: number; equity: number }[] | null;
+  error: string | null;
+  createdAt: string;
+}
+
+const BACKTEST_TIMEFRAMES = ["5m", "15m", "1h", "4h"];
+
+function BacktestPanel({ agents, hasSubscription, isMobile }: { agents: AiAgent[]; hasSubscription: boolean; isMobile: boolean }) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const strategies = useStrategies();
+  const customStrategies = useCustomStrategies();
+  const [agentId, setAgentId] = useState("none");
+  const [strategy, setStrategy] = useState("balanced");
+  const [chain, setChain] = useState("solana");
+  const [decider, setDecider] = useState("rule");
+  const [timeframe, setTimeframe] = useState("15m");
+  const [tokenCount, setTokenCount] = useState(5);
+  const [bars, setBars] = useState(300);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: runs = [] } = useQuery<BacktestRun[]>({
+    queryKey: ["/api/backtests"],
+    refetchInterval: (query) => (query.state.data?.some(r => r.status === "running") ? 5000 : false),
+  });
+
+  const activeId = selectedId ?? runs.find(r => r.status === "completed")?.id ?? null;
+  const { data: selected } = useQuery<BacktestRun>({
+    queryKey: ["/api/backtests", activeId],
+    enabled: activeId != null,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => {
+      const agent = agents.find(a => a.id === Number(agentId));
+      return apiRequest("POST", "/api/backtests", {
+        ...(agent ? { agentId: agent.id } : { ...parseStrategyValue(strategy), chain }),
+        decider,
+        source: { type: "candles", chain: agent?.chain && agent.chain !== "all" ? agent.chain : chain, timeframe, tokenCount, bars },
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/backtests"] });
+      setSelectedId(null);
+      toast({ title: t.aiAgents.backtestStarted });
+    },
+    onError: (err: any) => {
+      toast({ title: t.common.error, description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/backtests/${id}`),
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/backtests"] });
+    },
+  });
+
+  const isRunning = runs.some(r => r.status === "running");
+  const metrics = selected?.metrics;
+  const curve = (selected?.equityCurve ?? []).map(p => ({ ...p, label: new Date(p.time).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }) }));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Clock className="w-4 h-4 text-gain" />
+          {t.aiAgents.backtests}
+        </CardTitle>
+        <p className="text-[10px] text-muted-foreground">{t.aiAgents.backtestDesc}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className={`grid gap-3 ${isMobile ? "grid-cols-2" : "grid-cols-6"}`}>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t.aiAgents.backtestAgent}</Label>
+            <Select value={agentId} onValueChange={setAgentId}>
+              <SelectTrigger className="h-8 text-xs" data-testid="select-backtest-agent"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">{t.aiAgents.strategyDefaults}</SelectItem>
+                {agents.map(a => <SelectItem key={a.id} value={String(a.id)}>{a.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          {agentId === "none" && (
+            <>
+              <div className="space-y-1.5">
+                <Label className="text-xs">{t.aiAgents.strategy}</Label>
+                <Select value={strategy} onValueChange={setStrategy}>
+                  <SelectTrigger className="h-8 text-xs" data-testid="select-backtest-strategy"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {strategies.map(s => <SelectItem key={s.value} value={s.value}><span className={s.color}>{s.label}</span></SelectItem>)}
+                    {customStrategies.map(s => <SelectItem key={s.id} value={customStrategyValue(s.id)}><span className="text-purple-400">{s.name}</span></SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">{t.common.chain}</Label>
+                <Select value={chain} onValueChange={setChain}>
+                  <SelectTrigger className="h-8 text-xs" data-testid="select-backtest-chain"><SelectValue /></SelectTrigger>
+                  <SelectContent>{CHAINS.filter(c => c.value !== "all").map(c => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t.aiAgents.decider}</Label>
+            <Select value={decider} onValueChange={setDecider}>
+              <SelectTrigger className="h-8 text-xs" data-testid="select-backtest-decider"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rule">{t.aiAgents.deciderRule}</SelectItem>
+                <SelectItem value="llm" disabled={!hasSubscription}>{t.aiAgents.deciderLlm}</SelectItem>
+              </SelectContent>
+            </Select>
+            {!hasSubscription && <div className="text-[9px] text-muted-foreground">{t.aiAgents.llmRequiresPlan}</div>}
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t.aiAgents.timeframe}</Label>
+            <Select value={timeframe} onValueChange={setTimeframe}>
+              <SelectTrigger className="h-8 text-xs" data-testid="select-backtest-timeframe"><SelectValue /></SelectTrigger>
+              <SelectContent>{BACKTEST_TIMEFRAMES.map(tf => <SelectItem key={tf} value={tf}>{tf}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t.aiAgents.tokenCount}</Label>
+            <Input type="number" value={tokenCount} onChange={e => setTokenCount(Number(e.target.value))} className="h-8 text-xs" min={1} max={10} data-testid="input-backtest-tokens" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t.aiAgents.candles}</Label>
+            <Input type="number" value={bars} onChange={e => setBars(Number(e.target.value))} className="h-8 text-xs" min={50} max={1000} step={50} data-testid="input-backtest-bars" />
+          </div>
+        </div>
+
+        <Button onClick={() => runMutation.mutate()} disabled={isRunning || runMutation.isPending} size="sm" data-testid="button-run-backtest">
+          <Play className="w-3 h-3 mr-1" />
+          {isRunning ? t.aiAgents.backtestRunning : t.aiAgents.runBacktest}
+        </Button>
+
+        {runs.length === 0 ? (
+          <div className="text-xs text-muted-foreground text-center py-4">{t.aiAgents.noBacktests}</div>
+        ) : (
+          <div className="space-y-1.5">
+            {runs.map(run => (
+              <div
+                key={run.id}
+                onClick={() => run.status === "completed" && setSelectedId(run.id)}
+                className={`flex items-center justify-between gap-2 rounded-md border p-2 text-[10px] cursor-pointer ${run.id === activeId ? "border-gain/50" : ""}`}
+                data-testid={`backtest-run-${run.id}`}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant="outline" className="text-[9px]">{strategies.find(s => s.value === run.strategy)?.label ?? run.strategy}</Badge>
+                  <span className="text-muted-foreground">{run.decider} · {run.config?.source?.timeframe ?? run.source} · {new Date(run.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {run.status === "running" && <span className="text-amber-400">{t.aiAgents.backtestRunning}</span>}
+                  {run.status === "failed" && <span className="text-loss" title={run.error ?? ""}>{t.aiAgents.backtestFailed}</span>}
+                  {run.status === "interrupted" && <span className="text-muted-foreground" title={run.error ?? ""}>{t.aiAgents.backtestInterrupted}</span>}
+                  {run.metrics && (
+                    <span className={`font-mono ${run.metrics.totalReturnPct >= 0 ? "text-gain" : "text-loss"}`}>
+                      {run.metrics.totalReturnPct >= 0 ? "+" : ""}{run.metrics.totalReturnPct.toFixed(2)}%
+                    </span>
+                  )}
+                  {run.status !== "running" && (
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={e => { e.stopPropagation(); deleteMutation.mutate(run.id); }} data-testid={`button-delete-backtest-${run.id}`}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {metrics && (
+          <div className="space-y-3">
+            <div className={`grid gap-2 ${isMobile ? "grid-cols-2" : "grid-cols-5"}`}>
+              {[
+                { label: t.aiAgents.totalReturn, value: `${metrics.totalReturnPct >= 0 ? "+" : ""}${metrics.totalReturnPct.toFixed(2)}%`, color: metrics.totalReturnPct >= 0 ? "text-gain" : "text-loss" },
+                { label: t.aiAgents.maxDrawdown, value: `-${metrics.maxDrawdownPct.toFixed(2)}%`, color: "text-loss" },
+                { label: t.aiAgents.sharpe, value: metrics.sharpe.toFixed(2), color: "" },
+                { label: t.common.winRate, value: `${metrics.winRate.toFixed(1)}%`, color: "" },
+                { label: t.aiAgents.roundTrips, value: `${metrics.roundTrips}`, color: "" },
+              ].map(card => (
+                <div key={card.label} className="rounded-md border p-2 text-center">
+                  <div className="text-[9px] text-muted-foreground">{card.label}</div>
+                  <div className={`font-bold font-mono text-sm ${card.color}`}>{card.value}</div>
+                </div>
+              ))}
+            </div>
+            <div className="text-[9px] text-muted-foreground">
+              {metrics.startingBalance.toFixed(2)} → {metrics.finalEquity.toFixed(2)} · {metrics.trades} {t.common.trades} · {metrics.frames} {t.aiAgents.frames}
+            </div>
+
+            {curve.length > 1 && (
+              <div>
+                <div className="text-xs font-semibold mb-1">{t.aiAgents.equityCurve}</div>
+                <div className="h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={curve}>
+                      <XAxis dataKey="label" tick={{ fontSize: 8, fill: "hsl(215 15% 50%)" }} axisLine={false} tickLine={false} minTickGap={40} />
+                      <YAxis tick={{ fontSize: 9, fill: "hsl(215 15% 50%)" }} axisLine={false} tickLine={false} domain={["auto", "auto"]} tickFormatter={(v) => Number(v).toFixed(2)} width={40} />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: "hsl(220 18% 10%)",
+                          border: "1px solid hsl(220 15% 16%)",
+                          borderRadius: "6px",
+                          fontSize: "11px",
+                          fontFamily: "JetBrains Mono, monospace",
+                        }}
+                        formatter={(value: number) => [value.toFixed(4), t.aiAgents.equityCurve]}
+                      />
+                      <Line type="monotone" dataKey="equity" stroke="hsl(142 71% 45%)" strokeWidth={1.5} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+
+            {selected?.attribution && selected.attribution.length > 0 && (
+              <div>
+                <div className="text-xs font-semibold mb-1">{t.aiAgents.signalAttribution}</div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-[10px]">
+                    <thead>
+                      <tr className="text-muted-foreground text-left">
+                        <th className="py-1 font-medium">{t.aiAgents.signal}</th>
+                        <th className="py-1 font-medium text-right">{t.common.trades}</th>
+                        <th className="py-1 font-medium text-right">{t.common.winRate}</th>
+                        <th className="py-1 font-medium text-right">{t.aiAgents.avgReturn}</th>
+                        <th className="py-1 font-medium text-right">{t.common.pnl}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selected.attribution.map(row => (
+                        <tr key={row.signal} className="border-t border-border/50">
+                          <td className="py-1 font-mono">{row.signal}</td>
+                          <td className="py-1 text-right font-mono">{row.trades}</td>
+                          <td className="py-1 text-right font-mono">{row.winRate.toFixed(0)}%</td>
+                          <td className={`py-1 text-right font-mono ${row.avgReturnPct >= 0 ? "text-gain" : "text-loss"}`}>{row.avgReturnPct.toFixed(2)}%</td>
+                          <td className={`py-1 text-right font-mono ${row.totalPnl >= 0 ? "text-gain" : "text-loss"}`}>{row.totalPnl.toFixed(4)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ── Tournaments ──
+interface TournamentEntrantDraft {
+  label: string;
+  strategy: string;
+  riskLevel: number;
+  stopLossPercent: number;
+  takeProfitPercent: number;
+  decisionProvider: string;
+}
+
+interface TournamentStanding {
+  entrant: number;
+  label: string;
+  config: TournamentEntrantDraft & { maxPositionSize: number; maxDailyTrades: number };
+  metrics: BacktestMetrics;
+  vsLeader: { meanDiffPct: number; tStat: number; pValue: number } | null;
+}
+
+interface Tournament {
+  id: number;
+  name: string;
+  chain: string;
+  status: string;
+  frames: number;
+  durationMinutes: number;
+  endsAt: string;
+  standings: { standings: TournamentStanding[]; significant: boolean } | null;
+  error: string | null;
+  promotedAgentId: number | null;
+  createdAt: string;
+}
+
+function TournamentPanel({ agents, hasSubscription, isMobile }: { agents: AiAgent[]; hasSubscription: boolean; isMobile: boolean }) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const strategies = useStrategies();
+  const providers = useDecisionProviders();
+  const [name, setName] = useState("");
+  const [chain, setChain] = useState("solana");
+  const [durationMinutes, setDurationMinutes] = useState(240);
+  const [entrants, setEntrants] = useState<TournamentEntrantDraft[]>([
+    { label: "", strategy: "conservative", riskLevel: 3, stopLossPercent: 10, takeProfitPercent: 30, decisionProvider: "rule" },
+    { label: "", strategy: "aggressive", riskLevel: 7, stopLossPercent: 20, takeProfitPercent: 80, decisionProvider: "rule" },
+  ]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [promoteAgentId, setPromoteAgentId] = useState("");
+
+  const { data: tournaments = [] } = useQuery<Tournament[]>({
+    queryKey: ["/api/tournaments"],
+    refetchInterval: (query) => (query.state.data?.some(r => r.status === "running") ? 10000 : false),
+  });
+  const selected = tournaments.find(r => r.id === selectedId) ?? tournaments[0];
+
+  const updateEntrant = (index: number, patch: Partial<TournamentEntrantDraft>) =>
+    setEntrants(list => list.map((e, i) => (i === index ? { ...e, ...patch } : e)));
+
+  const startMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/tournaments", {
+      ...(name.trim() ? { name: name.trim() } : {}),
+      chain,
+      durationMinutes,
+      entrants: entrants.map(({ label, ...e }) => (label.trim() ? { label: label.trim(), ...e } : e)),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+      setSelectedId(null);
+      toast({ title: t.aiAgents.tournamentStarted });
+    },
+    onError: (err: any) => {
+      toast({ title: t.common.error, description: err.message, variant: "destructive" });
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/tournaments/${id}/stop`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] }),
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/tournaments/${id}/promote`, { agentId: Number(promoteAgentId) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai-agents"] });
+      toast({ title: t.aiAgents.winnerPromoted });
+    },
+    onError: (err: any) => {
+      toast({ title: t.common.error, description: err.message, variant: "destructive" });
+    },
+  });
+
+  const isRunning = tournaments.some(r => r.status === "running");
+  const usesLlm = entrants.some(e => e.decisionProvider !== "rule");
+  const statusLabel: Record<string, string> = {
+    running: t.aiAgents.tournamentRunning,
+    completed: t.aiAgents.completed,
+    stopped: t.aiAgents.stopped,
+    interrupted: t.aiAgents.tournamentInterrupted,
+    failed: t.aiAgents.tournamentFailed,
+  };
+  const standings = selected?.standings?.standings ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Crown className="w-4 h-4 text-gain" />
+          {t.aiAgents.tournaments}
+        </CardTitle>
+        <p className="text-[10px] text-muted-foreground">{t.aiAgents.tournamentDesc}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className={`grid gap-3 ${isMobile ? "grid-cols-2" : "grid-cols-3"}`}>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t.aiAgents.tournamentName}</Label>
+            <Input value={name} onChange={e => setName(e.target.value)} className="h-8 text-xs" maxLength={80} data-testid="input-tournament-name" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t.common.chain}</Label>
+            <Select value={chain} onValueChange={setChain}>
+              <SelectTrigger className="h-8 text-xs" data-testid="select-tournament-chain"><SelectValue /></SelectTrigger>
+              <SelectContent>{CHAINS.map(c => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t.aiAgents.durationMinutes}</Label>
+            <Input type="number" value={durationMinutes} onChange={e => setDurationMinutes(Number(e.target.value))} className="h-8 text-xs" min={10} max={4320} step={10} data-testid="input-tournament-duration" />
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs">{t.aiAgents.entrants}</Label>
+          {entrants.map((entrant, i) => (
+            <div key={i} className={`grid gap-2 items-center ${isMobile ? "grid-cols-3" : "grid-cols-7"}`} data-testid={`tournament-entrant-${i}`}>
+              <Input value={entrant.label} onChange={e => updateEntrant(i, { label: e.target.value })} placeholder={`${entrant.strategy} #${i + 1}`} className="h-8 text-xs" maxLength={40} />
+              <Select value={entrant.strategy} onValueChange={v => updateEntrant(i, { strategy: v })}>
+                <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>{strategies.map(s => <SelectItem key={s.value} value={s.value}><span className={s.color}>{s.label}</span></SelectItem>)}</SelectContent>
+              </Select>
+              <Input type="number" value={entrant.riskLevel} onChange={e => updateEntrant(i, { riskLevel: Number(e.target.value) })} title={t.aiAgents.riskLevel} className="h-8 text-xs" min={1} max={10} />
+              <Input type="number" value={entrant.stopLossPercent} onChange={e => updateEntrant(i, { stopLossPercent: Number(e.target.value) })} title={t.aiAgents.stopLoss} className="h-8 text-xs" min={1} max={100} />
+              <Input type="number" value={entrant.takeProfitPercent} onChange={e => updateEntrant(i, { takeProfitPercent: Number(e.target.value) })} title={t.aiAgents.takeProfit} className="h-8 text-xs" min={1} />
+              <Select value={entrant.decisionProvider} onValueChange={v => updateEntrant(i, { decisionProvider: v })}>
+                <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {providers.map(p => <SelectItem key={p.value} value={p.value} disabled={p.value !== "rule" && !hasSubscription}>{p.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEntrants(list => list.filter((_, j) => j !== i))} disabled={entrants.length <= 2} data-testid={`button-remove-entrant-${i}`}>
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+          <div className="text-[9px] text-muted-foreground">
+            {t.aiAgents.strategy} · {t.aiAgents.riskLevel} · {t.aiAgents.stopLoss} · {t.aiAgents.takeProfit} · {t.aiAgents.decisionProvider}
+          </div>
+          {usesLlm && <div className="text-[9px] text-amber-400">{t.aiAgents.llmShortRun}</div>}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setEntrants(list => [...list, { ...list[list.length - 1], label: "" }])}
+            disabled={entrants.length >= 8}
+            data-testid="button-add-entrant"
+          >
+            <Plus className="w-3 h-3 mr-1" /> {t.aiAgents.addEntrant}
+          </Button>
+          <Button onClick={() => startMutation.mutate()} disabled={isRunning || startMutation.isPending} size="sm" data-testid="button-start-tournament">
+            <Play className="w-3 h-3 mr-1" />
+            {isRunning ? t.aiAgents.tournamentRunning : t.aiAgents.startTournament}
+          </Button>
+        </div>
+
+        {tournaments.length === 0 ? (
+          <div className="text-xs text-muted-foreground text-center py-4">{t.aiAgents.noTournaments}</div>
+        ) : (
+          <div className="space-y-1.5">
+            {tournaments.map(run => (
+              <div
+                key={run.id}
+                onClick={() => setSelectedId(run.id)}
+                className={`flex items-center justify-between gap-2 rounded-md border p-2 text-[10px] cursor-pointer ${run.id === selected?.id ? "border-gain/50" : ""}`}
+                data-testid={`tournament-run-${run.id}`}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-semibold truncate">{run.name}</span>
+                  <span className="text-muted-foreground">{run.chain} · {run.frames} {t.aiAgents.frames} · {new Date(run.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className={run.status === "running" ? "text-amber-400" : run.status === "failed" ? "text-loss" : "text-muted-foreground"} title={run.error ?? ""}>
+                    {statusLabel[run.status] ?? run.status}
+                  </span>
+                  {run.status === "running" && (
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={e => { e.stopPropagation(); stopMutation.mutate(run.id); }} title={t.aiAgents.stopTournament} data-testid={`button-stop-tournament-${run.id}`}>
+                      <Square className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {standings.length > 0 && selected && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-xs font-semibold">{t.aiAgents.leaderboard}</div>
+              {standings[1]?.vsLeader && (
+                <Badge variant="outline" className={`text-[9px] ${selected.standings!.significant ? "text-gain border-gain/30" : "text-muted-foreground"}`} data-testid="badge-tournament-significance">
+                  {selected.standings!.significant ? t.aiAgents.significantLead : t.aiAgents.notSignificant} · p = {standings[1].vsLeader.pValue.toFixed(3)}
+                </Badge>
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-[10px]">
+                <thead>
+                  <tr className="text-muted-foreground text-left">
+                    <th className="py-1 font-medium">#</th>
+                    <th className="py-1 font-medium">{t.aiAgents.entrants}</th>
+                    <th className="py-1 font-medium text-right">{t.aiAgents.sharpe}</th>
+                    <th className="py-1 font-medium text-right">{t.aiAgents.totalReturn}</th>
+                    <th className="py-1 font-medium text-right">{t.aiAgents.maxDrawdown}</th>
+                    <th className="py-1 font-medium text-right">{t.common.trades}</th>
+                    <th className="py-1 font-medium text-right">{t.aiAgents.vsLeader}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {standings.map((row, rank) => (
+                    <tr key={row.entrant} className="border-t border-border/50" data-testid={`tournament-standing-${rank}`}>
+                      <td className="py-1 font-mono">{rank + 1}</td>
+                      <td className="py-1">
+                        <span className="font-semibold">{row.label}</span>
+                        <span className="text-muted-foreground"> · {row.config.strategy} · R{row.config.riskLevel} · SL {row.config.stopLossPercent}% · TP {row.config.takeProfitPercent}% · {row.config.decisionProvider}</span>
+                      </td>
+                      <td className="py-1 text-right font-mono">{row.metrics.sharpe.toFixed(2)}</td>
+                      <td className={`py-1 text-right font-mono ${row.metrics.totalReturnPct >= 0 ? "text-gain" : "text-loss"}`}>
+                        {row.metrics.totalReturnPct >= 0 ? "+" : ""}{row.metrics.totalReturnPct.toFixed(2)}%
+                      </td>
+                      <td className="py-1 text-right font-mono text-loss">-{row.metrics.maxDrawdownPct.toFixed(2)}%</td>
+                      <td className="py-1 text-right font-mono">{row.metrics.trades}</td>
+                      <td className="py-1 text-right font-mono text-muted-foreground">
+                        {row.vsLeader ? `p = ${row.vsLeader.pValue.toFixed(3)}` : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {selected.status !== "running" && (
+              <div className="flex items-center gap-2 flex-wrap">
+                <Label className="text-xs">{t.aiAgents.promoteTo}</Label>
+                <Select value={promoteAgentId} onValueChange={setPromoteAgentId}>
+                  <SelectTrigger className="h-8 text-xs w-48" data-testid="select-promote-agent"><SelectValue /></SelectTrigger>
+                  <SelectContent>{agents.map(a => <SelectItem key={a.id} value={String(a.id)}>{a.name}</SelectItem>)}</SelectContent>
+                </Select>
+                <Button size="sm" onClick={() => promoteMutation.mutate(selected.id)} disabled={!promoteAgentId || promoteMutation.isPending} data-testid="button-promote-winner">
+                  <Crown className="w-3 h-3 mr-1" /> {t.aiAgents.promoteWinner}
+                </Button>
+                {selected.promotedAgentId != null && (
+                  <span className="text-[10px] text-muted-foreground">
+                    {t.aiAgents.promotedTo} {agents.find(a => a.id === selected.promotedAgentId)?.name ?? `#${selected.promotedAgentId}`}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // ── Payment History ──
 function PaymentHistory() {
   const [showHistory, setShowHistory] = useState(false);
@@ -1249,10 +2588,15 @@ function PaymentHistory() {
 
   const retryMutation = useMutation({
     mutationFn: () => apiRequest("POST", "/api/subscriptions/retry-payment", { paymentId: retryPaymentId, txHash: retryTxHash }),
-    onSuccess: () => {
+    onSuccess: async (res) => {
+      const data = await res.json();
       queryClient.invalidateQueries({ queryKey: ["/api/subscriptions/payments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/subscriptions/me"] });
-      toast({ title: "Payment verified!", description: "Your subscription has been renewed." });
+      if (data.status === "confirming") {
+        toast({ title: "Payment detected", description: `${data.message || "Waiting for confirmations"}. Your subscription renews once the transaction is final.` });
+      } else {
+        toast({ title: "Payment verified!", description: "Your subscription has been renewed." });
+      }
       setRetryPaymentId(null);
       setRetryTxHash("");
     },
@@ -1271,6 +2615,7 @@ function PaymentHistory() {
 
   const statusColors: Record<string, string> = {
     pending: "text-amber-500 border-amber-500/30",
+    confirming: "text-blue-400 border-blue-400/30",
     confirmed: "text-gain border-gain/30",
     failed: "text-loss border-loss/30",
     expired: "text-muted-foreground border-border",
@@ -1344,7 +2689,7 @@ function PaymentHistory() {
                   </div>
                 )}
 
-                {(payment.status === "pending" || payment.status === "failed") && (
+                {payment.amountReserved && (payment.status === "pending" || payment.status === "failed" || payment.status === "expired") && (
                   <div className="mt-2 space-y-1.5">
                     {retryPaymentId === payment.id ? (
                       <div className="flex items-center gap-1">
@@ -51,10 +51,20 @@ function AlertsContent() {
     queryKey: ["/api/tokens"],
   });
 
+  // Email and Telegram only appear once the server has a transport for them.
+  const { data: channelData } = useQuery<{ channels: string[] }>({
+    queryKey: ["/api/price-alerts/channels"],
+  });
+  const messagingChannels = (channelData?.channels ?? []).filter(c => c === "email" || c === "telegram");
+
   const [selectedTokenId, setSelectedTokenId] = useState("");
   const [alertType, setAlertType] = useState("");
   const [targetValue, setTargetValue] = useState("");
   const [chain, setChain] = useState("solana");
+  const [windowMinutes, setWindowMinutes] = useState("60");
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [messaging, setMessaging] = useState("none");
+  const [notifyTarget, setNotifyTarget] = useState("");
 
   const tokenMap = useMemo(() => {
     const map = new Map<number, Token>();
@@ -70,11 +80,16 @@ function AlertsContent() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/price-alerts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: "Alert created", description: "Price alert is now active" });
       setSelectedTokenId("");
       setAlertType("");
       setTargetValue("");
       setChain("solana");
+      setWindowMinutes("60");
+      setWebhookUrl("");
+      setMessaging("none");
+      setNotifyTarget("");
     },
     onError: (err: Error) => {
       toast({ title: "Error", description: err.message, variant: "destructive" });
@@ -87,6 +102,7 @@ function AlertsContent() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/price-alerts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
     },
     onError: (err: Error) => {
       toast({ title: "Error", description: err.message, variant: "destructive" });
@@ -99,6 +115,7 @@ function AlertsContent() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/price-alerts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: "Deleted", description: "Price alert removed" });
     },
     onError: (err: Error) => {
@@ -110,15 +127,23 @@ function AlertsContent() {
     e.preventDefault();
     if (!selectedTokenId || !alertType || !targetValue) return;
 
+    const channels = ["websocket"];
+    if (webhookUrl.trim()) channels.push("webhook");
+    if (messaging !== "none" && notifyTarget.trim()) channels.push(messaging);
+
     const payload: Record<string, unknown> = {
       tokenId: parseInt(selectedTokenId),
       type: alertType,
       chain,
       enabled: true,
+      channels,
+      webhookUrl: webhookUrl.trim() || null,
+      notifyTarget: messaging !== "none" ? notifyTarget.trim() || null : null,
     };
 
     if (isPercent) {
       payload.percentChange = parseFloat(targetValue);
+      payload.windowMinutes = parseInt(windowMinutes) || 60;
     } else {
       payload.targetPrice = parseFloat(targetValue);
     }
@@ -204,6 +229,51 @@ function AlertsContent() {
                   <SelectItem value="tron">Tron</SelectItem>
                 </SelectContent>
               </Select>
+
+              {isPercent && (
+                <Select value={windowMinutes} onValueChange={setWindowMinutes}>
+                  <SelectTrigger data-testid="select-alert-window">
+                    <SelectValue placeholder={t.alerts.window} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="5">5m</SelectItem>
+                    <SelectItem value="15">15m</SelectItem>
+                    <SelectItem value="60">1h</SelectItem>
+                    <SelectItem value="240">4h</SelectItem>
+                    <SelectItem value="1440">24h</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+
+              <Input
+                data-testid="input-alert-webhook"
+                type="url"
+                placeholder={t.alerts.webhookUrl}
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+              />
+
+              {messagingChannels.length > 0 && (
+                <Select value={messaging} onValueChange={setMessaging}>
+                  <SelectTrigger data-testid="select-alert-messaging">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{t.alerts.noMessaging}</SelectItem>
+                    {messagingChannels.includes("email") && <SelectItem value="email">Email</SelectItem>}
+                    {messagingChannels.includes("telegram") && <SelectItem value="telegram">Telegram</SelectItem>}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {messaging !== "none" && (
+                <Input
+                  data-testid="input-alert-notify-target"
+                  placeholder={messaging === "email" ? "you@example.com" : "Telegram chat ID"}
+                  value={notifyTarget}
+                  onChange={(e) => setNotifyTarget(e.target.value)}
+                />
+              )}
             </div>
 
             <Button
@@ -268,8 +338,9 @@ function AlertsContent() {
                       </div>
                       <div className="text-xs text-muted-foreground font-mono mt-0.5">
                         {isPct
-                          ? `${alert.percentChange ?? 0}%`
+                          ? `${alert.percentChange ?? 0}% / ${alert.windowMinutes ?? 60}m`
                           : formatPrice(alert.targetPrice ?? 0)}
+                        {alert.triggered && alert.triggeredPrice != null && ` \u2192 ${formatPrice(alert.triggeredPrice)}`}
                       </div>
                     </div>
 
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { type CopyTradeConfig, type SmartWallet } from "@shared/schema";
+import { type CopyTradeConfig, type CopyTradeFill, type CopyPosition, type SmartWallet } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
@@ -10,7 +10,7 @@ import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Copy, Plus, Trash2, Settings, ToggleLeft, Target, ShieldAlert, Wallet, TrendingUp } from "lucide-react";
+import { Copy, Plus, Trash2, Settings, ToggleLeft, Target, ShieldAlert, Wallet, TrendingUp, History } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { TierGate, FeatureLimitBanner } from "@/components/tier-gate";
 import { useTranslation } from "@/i18n";
@@ -36,6 +36,14 @@ function CopyTradingContent() {
     queryKey: ["/api/smart-wallets"],
   });
 
+  const { data: fills = [] } = useQuery<CopyTradeFill[]>({
+    queryKey: ["/api/copy-trades/fills"],
+  });
+
+  const { data: copyPositions = [] } = useQuery<CopyPosition[]>({
+    queryKey: ["/api/copy-trades/positions"],
+  });
+
   const [selectedWallet, setSelectedWallet] = useState("");
   const [multiplier, setMultiplier] = useState("1");
   const [takeProfit, setTakeProfit] = useState("200");
@@ -52,6 +60,7 @@ function CopyTradingContent() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/copy-trades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: "Copy trade created", description: "New copy trade configuration added." });
       setSelectedWallet("");
       setMultiplier("1");
@@ -70,6 +79,7 @@ function CopyTradingContent() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/copy-trades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
     },
     onError: (err: Error) => {
       toast({ title: "Error", description: err.message, variant: "destructive" });
@@ -82,6 +92,7 @@ function CopyTradingContent() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/copy-trades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: "Deleted", description: "Copy trade configuration removed." });
     },
     onError: (err: Error) => {
@@ -308,6 +319,56 @@ function CopyTradingContent() {
             {createMutation.isPending ? t.common.loading : t.copyTrading.createConfig}
           </Button>
         </Card>
+
+        <Card className="p-0 overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+            <History className="w-3.5 h-3.5 text-muted-foreground" />
+            <span className="text-xs font-semibold uppercase tracking-wider">{t.copyTrading.auditTrail}</span>
+            <span className="text-[10px] text-muted-foreground font-mono ml-auto" data-testid="text-open-copy-positions">
+              {copyPositions.length} open
+            </span>
+          </div>
+          {fills.length === 0 ? (
+            <div className="p-4 text-center text-xs text-muted-foreground">{t.copyTrading.noFills}</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left px-3 py-2">{t.copyTrading.sourceWallet}</th>
+                    <th className="text-left px-3 py-2">Side</th>
+                    {!isMobile && <th className="text-left px-3 py-2">Trigger</th>}
+                    <th className="text-right px-3 py-2">{t.common.amount}</th>
+                    <th className="text-center px-3 py-2">{t.common.status}</th>
+                    {!isMobile && <th className="text-left px-3 py-2">Source Trade</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {fills.slice(0, 50).map((fill) => (
+                    <tr key={fill.id} data-testid={`row-copy-fill-${fill.id}`} className="border-b border-border/50">
+                      <td className="px-3 py-2">{walletMap.get(fill.sourceWalletId)?.label ?? `#${fill.sourceWalletId}`}</td>
+                      <td className={`px-3 py-2 ${fill.side === "buy" ? "text-gain" : "text-loss"}`}>{fill.side.toUpperCase()}</td>
+                      {!isMobile && <td className="px-3 py-2">{fill.trigger}</td>}
+                      <td className="text-right px-3 py-2">
+                        {fill.side === "buy" ? (fill.amountNative ?? 0).toFixed(4) : (fill.tokenAmount ?? 0).toFixed(2)}
+                      </td>
+                      <td className="text-center px-3 py-2">
+                        <Badge
+                          variant="outline"
+                          className={`text-[10px] ${fill.status === "filled" ? "text-gain" : fill.status === "skipped" ? "text-warning" : "text-loss"}`}
+                          title={fill.reason ?? fill.txHash ?? undefined}
+                        >
+                          {fill.status}
+                        </Badge>
+                      </td>
+                      {!isMobile && <td className="px-3 py-2 text-muted-foreground">{fill.sourceTradeId ? `#${fill.sourceTradeId}` : "-"}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
       </div>
     </div>
   );
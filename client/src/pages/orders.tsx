@@ -1,6 +1,6 @@
 import { useState, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { type Token, type LimitOrder, type DcaConfig } from "@shared/schema";
+import { type Token, type LimitOrder, type DcaConfig, type DcaExecution } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatCompact, formatPrice } from "@/lib/format";
@@ -44,6 +44,7 @@ function LimitOrdersTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/limit-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: t.orders.createOrder, description: "Limit order placed successfully" });
       setTokenId("");
       setAmount("");
@@ -61,6 +62,7 @@ function LimitOrdersTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/limit-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: t.common.cancel, description: "Order cancelled" });
     },
     onError: (err: Error) => {
@@ -74,6 +76,7 @@ function LimitOrdersTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/limit-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: t.common.delete, description: "Order removed" });
     },
     onError: (err: Error) => {
@@ -97,7 +100,7 @@ function LimitOrdersTab() {
 
   const statusColor = (status: string) => {
     if (status === "filled") return "text-gain";
-    if (status === "cancelled") return "text-loss";
+    if (status === "cancelled" || status === "failed") return "text-loss";
     return "text-warning";
   };
 
@@ -145,6 +148,8 @@ function LimitOrdersTab() {
             <SelectContent>
               <SelectItem value="limit">{t.orders.limitOrder}</SelectItem>
               <SelectItem value="stop">{t.orders.stopOrder}</SelectItem>
+              <SelectItem value="take_profit">{t.orders.takeProfit}</SelectItem>
+              <SelectItem value="stop_loss">{t.orders.stopLoss}</SelectItem>
             </SelectContent>
           </Select>
           <Input
@@ -231,7 +236,7 @@ function LimitOrdersTab() {
                       <td className="text-right px-3 py-2">{formatCompact(order.amount)}</td>
                       <td className="text-right px-3 py-2">{formatPrice(order.triggerPrice)}</td>
                       <td className="text-center px-3 py-2">
-                        <Badge variant="outline" className={`text-[10px] ${statusColor(order.status)}`}>
+                        <Badge variant="outline" className={`text-[10px] ${statusColor(order.status)}`} title={order.failureReason ?? order.txHash ?? undefined}>
                           {order.status}
                         </Badge>
                       </td>
@@ -283,6 +288,9 @@ function DcaConfigsTab() {
   const { data: configs = [], isLoading } = useQuery<DcaConfig[]>({
     queryKey: ["/api/dca-configs"],
   });
+  const { data: executions = [] } = useQuery<DcaExecution[]>({
+    queryKey: ["/api/dca-executions"],
+  });
   const { data: tokens = [] } = useQuery<Token[]>({
     queryKey: ["/api/tokens"],
   });
@@ -294,6 +302,13 @@ function DcaConfigsTab() {
   const [chain, setChain] = useState("solana");
 
   const tokenMap = useMemo(() => new Map(tokens.map((t) => [t.id, t])), [tokens]);
+  const lastRunMap = useMemo(() => {
+    const map = new Map<number, DcaExecution>();
+    for (const run of executions) {
+      if (!map.has(run.configId)) map.set(run.configId, run);
+    }
+    return map;
+  }, [executions]);
 
   const createMutation = useMutation({
     mutationFn: async (data: Record<string, unknown>) => {
@@ -301,6 +316,7 @@ function DcaConfigsTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/dca-configs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: t.orders.dca, description: "DCA configuration added" });
       setTokenId("");
       setAmount("");
@@ -317,6 +333,7 @@ function DcaConfigsTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/dca-configs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
     },
     onError: (err: Error) => {
       toast({ title: t.common.error, description: err.message, variant: "destructive" });
@@ -329,6 +346,7 @@ function DcaConfigsTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/dca-configs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: t.common.delete, description: "DCA configuration removed" });
     },
     onError: (err: Error) => {
@@ -439,6 +457,7 @@ function DcaConfigsTab() {
                   <th className="text-left px-3 py-2">{t.orders.interval}</th>
                   {!isMobile && <th className="text-right px-3 py-2">Invested</th>}
                   <th className="text-right px-3 py-2">{t.orders.executed}</th>
+                  <th className="text-center px-3 py-2">{t.orders.lastRun}</th>
                   <th className="text-center px-3 py-2">{t.common.enabled}</th>
                   <th className="text-right px-3 py-2">{t.common.actions}</th>
                 </tr>
@@ -446,6 +465,7 @@ function DcaConfigsTab() {
               <tbody>
                 {configs.map((config) => {
                   const token = tokenMap.get(config.tokenId);
+                  const lastRun = lastRunMap.get(config.id);
                   return (
                     <tr key={config.id} data-testid={`row-dca-${config.id}`} className="border-b border-border/50 hover-elevate">
                       <td className="px-3 py-2 font-semibold">{token?.symbol ?? `#${config.tokenId}`}</td>
@@ -460,6 +480,18 @@ function DcaConfigsTab() {
                         {config.executionCount ?? 0}
                         {config.maxExecutions && config.maxExecutions > 0 ? `/${config.maxExecutions}` : ""}
                       </td>
+                      <td className="text-center px-3 py-2" data-testid={`text-dca-last-run-${config.id}`}>
+                        {lastRun ? (
+                          <div className="flex flex-col items-center gap-0.5">
+                            <Badge variant="outline" className={`text-[10px] ${lastRun.status === "filled" ? "text-gain" : lastRun.status === "skipped" ? "text-warning" : "text-loss"}`}>
+                              {lastRun.status}
+                            </Badge>
+                            {lastRun.reason && !isMobile && (
+                              <span className="text-[10px] text-muted-foreground max-w-[180px] truncate" title={lastRun.reason}>{lastRun.reason}</span>
+                            )}
+                          </div>
+                        ) : "-"}
+                      </td>
                       <td className="text-center px-3 py-2">
                         <Switch
                           data-testid={`switch-dca-enabled-${config.id}`}
@@ -1,32 +1,29 @@
-import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { FEE_TIERS, getUserTier, setUserTier, type FeeTier } from "@/lib/fees";
-import { Check, Zap, Crown, Shield, ArrowRight, TrendingUp, Users, Crosshair } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
+import { FEE_TIERS, type FeeTier } from "@/lib/fees";
+import { swapFeePercent } from "@shared/tiers";
+import { useSubscription } from "@/hooks/use-subscription";
+import { Check, Zap, Crown, Shield, ArrowRight, TrendingUp, Users, Crosshair, Sparkles } from "lucide-react";
+import { useLocation } from "wouter";
 import { useTranslation } from "@/i18n";
 
 const tierIcons: Record<string, typeof Zap> = {
   free: TrendingUp,
-  pro: Zap,
-  elite: Crown,
+  basic: Zap,
+  pro: Crown,
+  whale: Sparkles,
 };
 
 export default function PricingPage() {
-  const [currentTier, setCurrentTier] = useState(getUserTier().id);
-  const { toast } = useToast();
+  const { tier: currentTier } = useSubscription();
+  const [, setLocation] = useLocation();
   const { t } = useTranslation();
 
+  // Paid plans are bought with crypto from the subscription flow; the swap fee
+  // follows the active subscription automatically.
   const handleSelectTier = (tier: FeeTier) => {
-    setUserTier(tier.id);
-    setCurrentTier(tier.id);
-    toast({
-      title: `Switched to ${tier.name}`,
-      description: tier.monthlyPrice === 0
-        ? "You're on the free plan."
-        : `${tier.swapFeePercent}% swap fee applied to all trades.`,
-    });
+    if (tier.monthlyPriceUsd > 0) setLocation("/ai-agents");
   };
 
   return (
@@ -56,7 +53,7 @@ export default function PricingPage() {
                 </div>
                 <div className="flex flex-col items-center gap-1">
                   <span className="text-muted-foreground">NextApe Free</span>
-                  <Badge variant="outline" className="text-gain">0.9%</Badge>
+                  <Badge variant="outline" className="text-gain">{swapFeePercent("free")}%</Badge>
                 </div>
                 <div className="flex flex-col items-center gap-1">
                   <span className="text-muted-foreground">GMGN Pro</span>
@@ -64,22 +61,22 @@ export default function PricingPage() {
                 </div>
                 <div className="flex flex-col items-center gap-1">
                   <span className="text-muted-foreground">NextApe Pro</span>
-                  <Badge variant="outline" className="text-gain">0.5%</Badge>
+                  <Badge variant="outline" className="text-gain">{swapFeePercent("pro")}%</Badge>
                 </div>
                 <div className="flex flex-col items-center gap-1">
                   <span className="text-muted-foreground">GMGN VIP</span>
                   <Badge variant="outline" className="text-loss">0.35%</Badge>
                 </div>
                 <div className="flex flex-col items-center gap-1">
-                  <span className="text-muted-foreground">NextApe Elite</span>
-                  <Badge variant="outline" className="text-gain">0.25%</Badge>
+                  <span className="text-muted-foreground">NextApe Whale</span>
+                  <Badge variant="outline" className="text-gain">{swapFeePercent("whale")}%</Badge>
                 </div>
               </div>
             </div>
           </Card>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           {FEE_TIERS.map((tier) => {
             const TierIcon = tierIcons[tier.id] || Zap;
             const isActive = currentTier === tier.id;
@@ -108,15 +105,15 @@ export default function PricingPage() {
                 <div className="mb-4">
                   <div className="flex items-baseline gap-1">
                     <span className="text-3xl font-bold font-mono">
-                      {tier.monthlyPrice === 0 ? t.common.free : `$${tier.monthlyPrice}`}
+                      {tier.monthlyPriceUsd === 0 ? t.common.free : `$${tier.monthlyPriceUsd}`}
                     </span>
-                    {tier.monthlyPrice > 0 && (
+                    {tier.monthlyPriceUsd > 0 && (
                       <span className="text-sm text-muted-foreground">{t.pricing.perMonth}</span>
                     )}
                   </div>
                   <div className="flex items-center gap-1.5 mt-2">
                     <Badge variant="secondary" className="text-xs font-mono">
-                      {tier.swapFeePercent}% {t.pricing.swapFee.toLowerCase()}
+                      {tier.swapFeeBps / 100}% {t.pricing.swapFee.toLowerCase()}
                     </Badge>
                   </div>
                 </div>
@@ -135,10 +132,10 @@ export default function PricingPage() {
                   className={`w-full ${tier.highlight ? "bg-gain text-white border-gain" : ""}`}
                   variant={isActive ? "secondary" : tier.highlight ? "default" : "outline"}
                   onClick={() => handleSelectTier(tier)}
-                  disabled={isActive}
+                  disabled={isActive || tier.monthlyPriceUsd === 0}
                 >
-                  {isActive ? t.pricing.currentPlan : tier.monthlyPrice === 0 ? t.pricing.selectPlan : t.common.upgrade}
-                  {!isActive && <ArrowRight className="w-3.5 h-3.5 ml-1.5" />}
+                  {isActive ? t.pricing.currentPlan : tier.monthlyPriceUsd === 0 ? t.pricing.selectPlan : t.common.upgrade}
+                  {!isActive && tier.monthlyPriceUsd > 0 && <ArrowRight className="w-3.5 h-3.5 ml-1.5" />}
                 </Button>
               </Card>
             );
@@ -172,14 +169,14 @@ export default function PricingPage() {
               <h4 className="font-bold text-sm">Fee Transparency</h4>
             </div>
             <p className="text-xs text-muted-foreground">
-              All fees are shown upfront before you confirm any trade. No hidden charges. Platform fee is deducted from your swap output.
+              All fees are shown upfront before you confirm any trade. No hidden charges. Buys pay the platform fee from the amount spent, sells from the amount received.
             </p>
           </Card>
         </div>
 
         <div className="mt-8 text-center text-xs text-muted-foreground">
           <p>All plans include: Multi-chain support (SOL, ETH, BASE, BNB, TRX) + Real-time WebSocket data + Jupiter & DexScreener integration</p>
-          <p className="mt-1">Swap fees are applied to the output amount of each trade. Network gas fees are separate and paid to the blockchain.</p>
+          <p className="mt-1">Swap fees follow your active subscription and are shown before you confirm. Network gas fees are separate and paid to the blockchain.</p>
         </div>
       </div>
     </div>
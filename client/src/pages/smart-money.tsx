@@ -430,7 +430,7 @@ function WalletDetail({ wallet, tokens }: { wallet: SmartWallet; tokens: Token[]
     const totalInvested = avgSize * totalTrades;
     const pnl7dPct = totalInvested > 0 ? (pnl7d / totalInvested) * 100 : 0;
     const pnl30dPct = totalInvested > 0 ? (pnl30d / totalInvested) * 100 : 0;
-    const avgHoldHours = Math.floor(seededRandom(walletId * 7) * 72) + 2;
+    const avgHoldHours = wallet.avgHoldHours;
     const bestTrade = trades.length > 0
       ? Math.max(...trades.map((t) => t.total))
       : seededRandom(walletId * 13) * 50000 + 5000;
@@ -513,7 +513,7 @@ function WalletDetail({ wallet, tokens }: { wallet: SmartWallet; tokens: Token[]
         />
         <MiniStat
           label={t.smartMoney.avgHoldTime}
-          value={`${perfStats.avgHoldHours}h`}
+          value={perfStats.avgHoldHours != null ? `${perfStats.avgHoldHours.toFixed(1)}h` : "-"}
           icon={<Clock className="w-3 h-3" />}
           testId={`stat-holdtime-${walletId}`}
         />
@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { type SniperRule } from "@shared/schema";
+import { type SniperRule, type SniperExecution } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
@@ -9,22 +9,13 @@ import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Checkbox } from "@/components/ui/checkbox";
-import { Crosshair, Plus, Trash2, Shield, Zap, Settings, Target, AlertTriangle, Clock } from "lucide-react";
+import { Crosshair, Plus, Trash2, Zap, Settings, Target, AlertTriangle, Clock } from "lucide-react";
 import { useState, useMemo } from "react";
 import { formatCompact } from "@/lib/format";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { TierGate, FeatureLimitBanner } from "@/components/tier-gate";
 import { useTranslation } from "@/i18n";
 
-const recentSnipes = [
-  { token: "PEPE2.0", entry: 0.0000012, current: 0.0000089, pnl: 641.67, time: "2m ago" },
-  { token: "WOJAK", entry: 0.00034, current: 0.00028, pnl: -17.65, time: "8m ago" },
-  { token: "BODEN", entry: 0.042, current: 0.078, pnl: 85.71, time: "14m ago" },
-  { token: "GROK", entry: 0.0089, current: 0.0123, pnl: 38.2, time: "21m ago" },
-  { token: "BONK2", entry: 0.0000001, current: 0.0000003, pnl: 200.0, time: "35m ago" },
-];
-
 export default function SniperPage() {
   return (
     <TierGate feature="maxSniperRules" featureLabel="Sniper Mode" requiredTier="basic">
@@ -40,6 +31,9 @@ function SniperContent() {
   const { data: rules = [], isLoading } = useQuery<SniperRule[]>({
     queryKey: ["/api/sniper-rules"],
   });
+  const { data: executions = [] } = useQuery<SniperExecution[]>({
+    queryKey: ["/api/sniper-executions"],
+  });
 
   const [name, setName] = useState("");
   const [chain, setChain] = useState("solana");
@@ -49,9 +43,10 @@ function SniperContent() {
   const [maxDevHolding, setMaxDevHolding] = useState("10");
   const [autoBuyAmount, setAutoBuyAmount] = useState("0.5");
   const [slippage, setSlippage] = useState("15");
-  const [antiMev, setAntiMev] = useState(true);
 
   const activeCount = useMemo(() => rules.filter((r) => r.enabled).length, [rules]);
+  const ruleNames = useMemo(() => new Map(rules.map((r) => [r.id, r.name])), [rules]);
+  const executedCount = useMemo(() => executions.filter((e) => e.status === "executed").length, [executions]);
 
   const createMutation = useMutation({
     mutationFn: async (data: Record<string, unknown>) => {
@@ -59,6 +54,7 @@ function SniperContent() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sniper-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: "Rule created", description: "Sniper rule is now active" });
       setName("");
       setChain("solana");
@@ -68,7 +64,6 @@ function SniperContent() {
       setMaxDevHolding("10");
       setAutoBuyAmount("0.5");
       setSlippage("15");
-      setAntiMev(true);
     },
     onError: (err: Error) => {
       toast({ title: "Error", description: err.message, variant: "destructive" });
@@ -81,6 +76,7 @@ function SniperContent() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sniper-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
     },
     onError: (err: Error) => {
       toast({ title: "Error", description: err.message, variant: "destructive" });
@@ -93,6 +89,7 @@ function SniperContent() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sniper-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({ title: "Deleted", description: "Sniper rule removed" });
     },
     onError: (err: Error) => {
@@ -112,7 +109,6 @@ function SniperContent() {
       maxDevHolding: parseFloat(maxDevHolding) || 0,
       autoBuyAmount: parseFloat(autoBuyAmount) || 0,
       slippage: parseFloat(slippage) || 0,
-      antiMev,
       enabled: true,
     });
   };
@@ -156,7 +152,7 @@ function SniperContent() {
               <Zap className="w-3.5 h-3.5 text-warning" />
               <span className={`text-muted-foreground uppercase tracking-wider ${isMobile ? "text-[9px]" : "text-[10px]"}`}>Total Snipes</span>
             </div>
-            <span data-testid="text-total-snipes" className={`font-bold font-mono ${isMobile ? "text-base" : "text-lg"}`}>{recentSnipes.length}</span>
+            <span data-testid="text-total-snipes" className={`font-bold font-mono ${isMobile ? "text-base" : "text-lg"}`}>{executedCount}</span>
           </Card>
         </div>
 
@@ -220,10 +216,6 @@ function SniperContent() {
                     <span className="text-[10px] text-muted-foreground">{t.sniper.maxSlippage}</span>
                     <span className="font-mono">{rule.slippage ?? 0}%</span>
                   </div>
-                  <div className="flex items-center gap-1.5">
-                    <Shield className={`w-3 h-3 ${rule.antiMev ? "text-gain" : "text-muted-foreground"}`} />
-                    <span className="text-[10px]">{rule.antiMev ? "Anti-MEV ON" : "Anti-MEV OFF"}</span>
-                  </div>
                 </div>
               </Card>
             ))}
@@ -321,20 +313,6 @@ function SniperContent() {
                   className="text-xs font-mono"
                 />
               </div>
-              <div className="flex flex-col gap-1 justify-end">
-                <div className="flex items-center gap-2">
-                  <Checkbox
-                    data-testid="checkbox-anti-mev"
-                    id="anti-mev"
-                    checked={antiMev}
-                    onCheckedChange={(checked) => setAntiMev(checked === true)}
-                  />
-                  <label htmlFor="anti-mev" className="text-xs flex items-center gap-1 cursor-pointer">
-                    <Shield className="w-3 h-3" />
-                    Anti-MEV Protection
-                  </label>
-                </div>
-              </div>
             </div>
             <Button
               data-testid="button-create-rule"
@@ -351,42 +329,47 @@ function SniperContent() {
           <div className="flex items-center gap-2 mb-3">
             <Clock className="w-3.5 h-3.5 text-info" />
             <span className="text-xs font-semibold uppercase tracking-wider">{t.sniper.title}</span>
-            <Badge variant="secondary" className="text-[10px]">SIMULATED</Badge>
           </div>
-          <div className="space-y-2">
-            {recentSnipes.map((snipe, idx) => {
-              const isGain = snipe.pnl >= 0;
-              return (
-                <div
-                  key={idx}
-                  data-testid={`row-snipe-${idx}`}
-                  className="flex items-center justify-between gap-2 p-2 rounded-md bg-secondary/30 flex-wrap"
-                >
-                  <div className="flex items-center gap-2">
-                    <Target className={`w-3 h-3 ${isGain ? "text-gain" : "text-loss"}`} />
-                    <span className="text-xs font-semibold">{snipe.token}</span>
-                    <span className="text-[10px] text-muted-foreground font-mono">{snipe.time}</span>
-                  </div>
-                  <div className={`flex items-center gap-3 ${isMobile ? "w-full justify-between mt-1" : ""}`}>
-                    <div className="text-right">
-                      <div className="text-[10px] text-muted-foreground">Entry</div>
-                      <div className="text-xs font-mono">${snipe.entry < 0.001 ? snipe.entry.toExponential(2) : snipe.entry.toFixed(4)}</div>
-                    </div>
-                    <div className="text-right">
-                      <div className="text-[10px] text-muted-foreground">Current</div>
-                      <div className="text-xs font-mono">${snipe.current < 0.001 ? snipe.current.toExponential(2) : snipe.current.toFixed(4)}</div>
+          {executions.length === 0 ? (
+            <div className="text-xs text-muted-foreground text-center py-4">{t.sniper.noExecutions}</div>
+          ) : (
+            <div className="space-y-2">
+              {executions.slice(0, 30).map((exec) => {
+                const executed = exec.status === "executed";
+                return (
+                  <div
+                    key={exec.id}
+                    data-testid={`row-snipe-${exec.id}`}
+                    className="flex items-center justify-between gap-2 p-2 rounded-md bg-secondary/30 flex-wrap"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Target className={`w-3 h-3 ${executed ? "text-gain" : "text-loss"}`} />
+                      <span className="text-xs font-semibold">{exec.tokenSymbol ?? `${exec.tokenAddress.slice(0, 6)}...`}</span>
+                      <Badge variant="outline" className="text-[9px]">{exec.chain}</Badge>
+                      <span className="text-[10px] text-muted-foreground font-mono">{ruleNames.get(exec.ruleId) ?? `Rule #${exec.ruleId}`}</span>
                     </div>
-                    <div className="text-right">
-                      <div className="text-[10px] text-muted-foreground">PnL</div>
-                      <div className={`text-xs font-mono font-bold ${isGain ? "text-gain" : "text-loss"}`}>
-                        {isGain ? "+" : ""}{snipe.pnl.toFixed(1)}%
-                      </div>
+                    <div className={`flex items-center gap-3 ${isMobile ? "w-full justify-between mt-1" : ""}`}>
+                      {executed ? (
+                        <div className="text-right">
+                          <div className="text-[10px] text-muted-foreground">Entry</div>
+                          <div className="text-xs font-mono">
+                            ${(exec.price ?? 0) < 0.001 ? (exec.price ?? 0).toExponential(2) : (exec.price ?? 0).toFixed(4)}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-[10px] text-muted-foreground font-mono max-w-[260px] truncate" title={(exec.failedCriteria ?? []).join(", ")}>
+                          {(exec.failedCriteria ?? []).join(", ")}
+                        </span>
+                      )}
+                      <Badge variant="outline" className={`text-[10px] ${executed ? "text-gain" : exec.status === "rejected" ? "text-warning" : "text-loss"}`}>
+                        {exec.status}
+                      </Badge>
                     </div>
                   </div>
-                </div>
-              );
-            })}
-          </div>
+                );
+              })}
+            </div>
+          )}
         </Card>
 
         <div className="flex items-center gap-2 p-3 rounded-md bg-secondary/20">
@@ -0,0 +1,48 @@
+// Assigns every row created before per-user ownership existed to one owner.
+// Run after `npm run db:push` has added the user_id columns:
+//
+//   npx tsx scripts/assign-data-owner.ts <userId>
+//
+// The owner can also be passed as DATA_OWNER_USER_ID. Rows that already have
+// an owner are left untouched, so the script is safe to run more than once.
+import { eq, isNull } from "drizzle-orm";
+import { db } from "../server/db";
+import { users } from "../shared/models/auth";
+import {
+  watchlist, priceAlerts, limitOrders, dcaConfigs,
+  copyTradeConfigs, sniperRules, positions, aiAgents,
+} from "../shared/schema";
+
+const ownedTables = {
+  watchlist, priceAlerts, limitOrders, dcaConfigs,
+  copyTradeConfigs, sniperRules, positions, aiAgents,
+};
+
+async function main() {
+  const ownerId = process.argv[2] || process.env.DATA_OWNER_USER_ID;
+  if (!ownerId) {
+    console.error("Usage: tsx scripts/assign-data-owner.ts <userId> (or set DATA_OWNER_USER_ID)");
+    process.exit(1);
+  }
+
+  const [owner] = await db.select({ id: users.id }).from(users).where(eq(users.id, ownerId));
+  if (!owner) {
+    console.error(`No user with id ${ownerId}`);
+    process.exit(1);
+  }
+
+  for (const [name, table] of Object.entries(ownedTables)) {
+    const updated = await db.update(table)
+      .set({ userId: ownerId })
+      .where(isNull(table.userId))
+      .returning({ id: table.id });
+    console.log(`${name}: assigned ${updated.length} row(s) to ${ownerId}`);
+  }
+
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Failed to assign data owner:", err);
+  process.exit(1);
+});
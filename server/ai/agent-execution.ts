@@ -0,0 +1,250 @@
+import { storage } from "../storage";
+import { resolveUserTier } from "../entitlements";
+import { getTierDefinition } from "@shared/tiers";
+import type { AiAgent, AgentPosition } from "@shared/schema";
+import { executeChainSwap } from "../onchain-swap";
+import { fetchOnChainBalance, fetchOnChainTokenBalance, decryptKey, waitForBalanceChange } from "../wallet-utils";
+import { getChainPrice } from "../crypto-prices";
+import type { AgentStore } from "./agent-runtime";
+import { findPerpVenue } from "./perp-venues";
+
+export type ExecutionMode = "paper" | "live";
+
+// Modelled price impact for paper fills, on top of the plan's swap fee.
+const PAPER_SLIPPAGE_BPS = 50;
+const LIVE_SLIPPAGE_BPS = 300;
+// Below this share of the requested size a fill counts as partial.
+const FULL_FILL_RATIO = 0.98;
+
+export interface AgentFill {
+  status: "filled" | "partial" | "failed";
+  mode: ExecutionMode;
+  // Tokens bought, sold or shorted, in both modes, so a position opened in
+  // one mode is sized, averaged and valued the same after a mode switch.
+  // Live records the amount that actually moved in the wallet.
+  size: number;
+  // Effective USD price per unit, including slippage and fees.
+  price: number;
+  // Position size left after a sell, measured on-chain for live agents.
+  remaining: number;
+  txHash: string | null;
+  explorerUrl: string | null;
+  error: string | null;
+}
+
+export interface FillTarget {
+  tokenAddress: string | null | undefined;
+  chain: string;
+}
+
+export function getExecutionMode(agent: AiAgent): ExecutionMode {
+  return agent.executionMode === "live" ? "live" : "paper";
+}
+
+function failed(mode: ExecutionMode, error: string, remaining = 0, txHash: string | null = null): AgentFill {
+  return { status: "failed", mode, size: 0, price: 0, remaining, txHash, explorerUrl: null, error };
+}
+
+async function paperFeeBps(agent: AiAgent): Promise<number> {
+  const { tier } = await resolveUserTier(agent.userId);
+  return getTierDefinition(tier).swapFeeBps;
+}
+
+// Paper opens spend `amount` of the native asset worth `nativePriceUsd`
+// each, after fees, on tokens at the slipped price.
+function paperTokens(amount: number, price: number, feeBps: number, nativePriceUsd: number): number {
+  return price > 0 ? (amount * (1 - feeBps / 10000) * nativePriceUsd) / price : 0;
+}
+
+export function paperBuyFill(amount: number, signalPrice: number, feeBps: number, nativePriceUsd: number): AgentFill {
+  const price = signalPrice * (1 + PAPER_SLIPPAGE_BPS / 10000);
+  const size = paperTokens(amount, price, feeBps, nativePriceUsd);
+  return { status: "filled", mode: "paper", size, price, remaining: size, txHash: null, explorerUrl: null, error: null };
+}
+
+export function paperSellFill(position: AgentPosition, size: number, signalPrice: number, feeBps: number): AgentFill {
+  const price = signalPrice * (1 - PAPER_SLIPPAGE_BPS / 10000) * (1 - feeBps / 10000);
+  return { status: "filled", mode: "paper", size, price, remaining: position.size - size, txHash: null, explorerUrl: null, error: null };
+}
+
+// A short's size is the tokens its native collateral covers after fees.
+// Opening sells, so slippage lowers the entry price; covering buys, so
+// slippage and fees raise the exit price.
+export function paperShortFill(amount: number, signalPrice: number, feeBps: number, nativePriceUsd: number): AgentFill {
+  const price = signalPrice * (1 - PAPER_SLIPPAGE_BPS / 10000);
+  const size = paperTokens(amount, price, feeBps, nativePriceUsd);
+  return { status: "filled", mode: "paper", size, price, remaining: size, txHash: null, explorerUrl: null, error: null };
+}
+
+export function paperCoverFill(position: AgentPosition, size: number, signalPrice: number, feeBps: number): AgentFill {
+  const price = signalPrice * (1 + PAPER_SLIPPAGE_BPS / 10000) * (1 + feeBps / 10000);
+  return { status: "filled", mode: "paper", size, price, remaining: position.size - size, txHash: null, explorerUrl: null, error: null };
+}
+
+async function resolveLiveWallet(agent: AiAgent, chain: string) {
+  if (!agent.userId) return { wallet: undefined, error: "Agent has no owner, cannot resolve a wallet" };
+  const wallet = await storage.getGeneratedWallet(agent.userId, chain);
+  if (!wallet) return { wallet: undefined, error: `No ${chain} wallet. Generate one before running live.` };
+  return { wallet, error: null };
+}
+
+// Buys spend `amount` of the chain's native asset.
+export async function fillBuy(agent: AiAgent, target: FillTarget, amount: number, signalPrice: number): Promise<AgentFill> {
+  const mode = getExecutionMode(agent);
+
+  if (mode === "paper") return paperBuyFill(amount, signalPrice, await paperFeeBps(agent), await getChainPrice(target.chain));
+
+  if (!target.tokenAddress) return failed(mode, "Token address unknown, cannot swap");
+  const { wallet, error } = await resolveLiveWallet(agent, target.chain);
+  if (!wallet) return failed(mode, error!);
+
+  const nativeBalance = await fetchOnChainBalance(target.chain, wallet.address);
+  if (nativeBalance < amount) {
+    return failed(mode, `Insufficient balance: have ${nativeBalance.toFixed(6)}, need ${amount.toFixed(6)}`);
+  }
+
+  const readTokens = () => fetchOnChainTokenBalance(target.chain, wallet.address, target.tokenAddress!);
+  const tokensBefore = await readTokens();
+  const result = await executeChainSwap(decryptKey(wallet.encryptedPrivateKey), target.chain, target.tokenAddress, amount, "buy", LIVE_SLIPPAGE_BPS);
+  if (!result.success) return failed(mode, result.error || "On-chain swap failed");
+
+  const received = (await waitForBalanceChange(readTokens, tokensBefore)) - tokensBefore;
+  if (received <= 0) {
+    return failed(mode, "Swap sent but no tokens arrived in the wallet", 0, result.txHash);
+  }
+
+  const nativePriceUsd = await getChainPrice(target.chain);
+  return {
+    status: "filled", mode,
+    size: received,
+    price: (amount * nativePriceUsd) / received,
+    remaining: received,
+    txHash: result.txHash,
+    explorerUrl: result.explorerUrl,
+    error: null,
+  };
+}
+
+// Sells `size` position units. Live sells are capped at what the wallet
+// actually holds, so a position that drifted from the chain is reported as a
+// partial fill and `remaining` carries the on-chain leftover. `slippageBps`
+// only applies to live sells.
+export async function fillSell(agent: AiAgent, position: AgentPosition, size: number, signalPrice: number, slippageBps = LIVE_SLIPPAGE_BPS): Promise<AgentFill> {
+  const mode = getExecutionMode(agent);
+
+  if (mode === "paper") return paperSellFill(position, size, signalPrice, await paperFeeBps(agent));
+
+  const chain = position.chain || agent.chain || "solana";
+  if (!position.tokenAddress) return failed(mode, "Position has no token address, cannot swap", position.size);
+  const { wallet, error } = await resolveLiveWallet(agent, chain);
+  if (!wallet) return failed(mode, error!, position.size);
+
+  const readTokens = () => fetchOnChainTokenBalance(chain, wallet.address, position.tokenAddress!);
+  // The wallet is shared with the owner's other agents and manual trades, so
+  // never attribute more than this position's size to it.
+  const held = await readTokens();
+  const available = Math.min(held, position.size);
+  const amount = Math.min(size, held);
+  if (amount <= 0) return failed(mode, "Wallet holds none of this token", 0);
+
+  const nativeBefore = await fetchOnChainBalance(chain, wallet.address);
+  const result = await executeChainSwap(decryptKey(wallet.encryptedPrivateKey), chain, position.tokenAddress, amount, "sell", slippageBps);
+  if (!result.success) return failed(mode, result.error || "On-chain swap failed", available);
+
+  const after = await waitForBalanceChange(readTokens, held);
+  const sold = held - after;
+  if (sold <= 0) return failed(mode, "Swap sent but the token balance did not change", available, result.txHash);
+
+  const proceeds = Math.max(0, (await fetchOnChainBalance(chain, wallet.address)) - nativeBefore);
+  const nativePriceUsd = await getChainPrice(chain);
+  return {
+    status: sold >= size * FULL_FILL_RATIO ? "filled" : "partial",
+    mode,
+    size: sold,
+    price: proceeds > 0 ? (proceeds * nativePriceUsd) / sold : signalPrice,
+    remaining: Math.max(0, Math.min(after, position.size - sold)),
+    txHash: result.txHash,
+    explorerUrl: result.explorerUrl,
+    error: null,
+  };
+}
+
+// Opens a short worth `amount` of the chain's native asset. Live shorts need
+// a registered perp venue that lists the token.
+export async function fillShort(agent: AiAgent, target: FillTarget, amount: number, signalPrice: number): Promise<AgentFill> {
+  const mode = getExecutionMode(agent);
+
+  if (mode === "paper") return paperShortFill(amount, signalPrice, await paperFeeBps(agent), await getChainPrice(target.chain));
+
+  if (!target.tokenAddress) return failed(mode, "Token address unknown, cannot short");
+  const market = { chain: target.chain, tokenAddress: target.tokenAddress };
+  const venue = await findPerpVenue(market);
+  if (!venue) return failed(mode, `No perp venue lists this ${target.chain} token, live shorts unavailable`);
+  const { wallet, error } = await resolveLiveWallet(agent, target.chain);
+  if (!wallet) return failed(mode, error!);
+
+  const nativeBalance = await fetchOnChainBalance(target.chain, wallet.address);
+  if (nativeBalance < amount) {
+    return failed(mode, `Insufficient collateral: have ${nativeBalance.toFixed(6)}, need ${amount.toFixed(6)}`);
+  }
+
+  const order = await venue.openShort(decryptKey(wallet.encryptedPrivateKey), market, amount);
+  if (!order.success || order.size <= 0) return failed(mode, order.error || `${venue.name} rejected the short`, 0, order.txHash);
+  return {
+    status: "filled", mode,
+    size: order.size, price: order.price, remaining: order.size,
+    txHash: order.txHash, explorerUrl: order.explorerUrl, error: null,
+  };
+}
+
+// Covers `size` units of a short. Like a live sell, `remaining` is what the
+// venue still reports open, capped at the position's size.
+export async function fillCover(agent: AiAgent, position: AgentPosition, size: number, signalPrice: number): Promise<AgentFill> {
+  const mode = getExecutionMode(agent);
+
+  if (mode === "paper") return paperCoverFill(position, size, signalPrice, await paperFeeBps(agent));
+
+  const chain = position.chain || agent.chain || "solana";
+  if (!position.tokenAddress) return failed(mode, "Position has no token address, cannot cover", position.size);
+  const market = { chain, tokenAddress: position.tokenAddress };
+  const venue = await findPerpVenue(market);
+  if (!venue) return failed(mode, `No perp venue lists this ${chain} token, cannot cover`, position.size);
+  const { wallet, error } = await resolveLiveWallet(agent, chain);
+  if (!wallet) return failed(mode, error!, position.size);
+
+  const open = Math.min(await venue.shortSize(wallet.address, market), position.size);
+  const amount = Math.min(size, open);
+  if (amount <= 0) return failed(mode, `${venue.name} holds no short on this token`, 0);
+
+  const order = await venue.closeShort(decryptKey(wallet.encryptedPrivateKey), market, amount);
+  if (!order.success || order.size <= 0) return failed(mode, order.error || `${venue.name} rejected the cover`, open, order.txHash);
+  const after = await venue.shortSize(wallet.address, market);
+  return {
+    status: order.size >= size * FULL_FILL_RATIO ? "filled" : "partial",
+    mode,
+    size: order.size,
+    price: order.price > 0 ? order.price : signalPrice,
+    remaining: Math.max(0, Math.min(after, position.size - order.size)),
+    txHash: order.txHash,
+    explorerUrl: order.explorerUrl,
+    error: null,
+  };
+}
+
+// A live sell or cover that could not (fully) fill reveals what the wallet
+// or venue really holds; shrink or close the position so the runner stops
+// trading a size that is not there.
+export async function reconcilePosition(
+  position: AgentPosition,
+  fill: AgentFill,
+  price: number,
+  store: Pick<AgentStore, "closeAgentPosition" | "updateAgentPosition"> = storage,
+): Promise<"closed" | "resized" | "unchanged"> {
+  if (fill.mode !== "live" || fill.remaining >= position.size * FULL_FILL_RATIO) return "unchanged";
+  if (fill.remaining <= 0) {
+    await store.closeAgentPosition(position.id, price, position.realizedPnl ?? 0);
+    return "closed";
+  }
+  await store.updateAgentPosition(position.id, { size: fill.remaining });
+  return "resized";
+}
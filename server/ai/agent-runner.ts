@@ -1,65 +1,94 @@
-import OpenAI from "openai";
 import { storage } from "../storage";
 import { authStorage } from "../integrations/auth/storage";
+import { checkQuota } from "../entitlements";
+import { fillBuy, fillCover, fillSell, fillShort, reconcilePosition, type AgentFill } from "./agent-execution";
+import { createRunnerState, type AgentFills, type AgentRuntime, type AgentPerformanceTracker, type RunnerState } from "./agent-runtime";
+import { stripCodeFences } from "./decision-providers";
+import { createAgentDecisionRouter } from "./decision-router";
+import { recordMarketSnapshot, withDecisionRecording } from "./snapshot-recorder";
+import { compileStrategyVersion, type CompiledStrategy } from "./custom-strategies";
+import { persistAgentState, refreshAgentStates } from "./agent-state";
+import {
+  addCheck, addSizingStep, createDecisionExplanation, explainCandidates, saveDecisionExplanation, settleExplanation,
+  type DecisionCheck, type DecisionExplanation,
+} from "./decision-explanation";
+import { checkPortfolioRisk, enforcePortfolioRisk, haltAgents } from "./risk-manager";
+import {
+  AGENT_CYCLE_MS, SCHEDULER_INSTANCE_ID, TRADING_DAY_TIMEZONE,
+  claimDueAgents, recordSchedulerCycle, releaseAgent, renewAgentLease, runLeaderDuties, withAgentLease,
+} from "./agent-scheduler";
+import { getFearGreedSignal } from "../fear-greed";
+import { getChainPrice } from "../crypto-prices";
+import { sendToUser } from "../live-feed";
 import type { AiAgent, AgentPosition } from "@shared/schema";
-import { getMarketSignals, formatSignalsForAI, getTopBuySignals, getSellSignals, getLastMarketBreadth, type TokenSignal } from "./signal-builder";
-import { computeTechnicalIndicators } from "./technical-indicators";
-
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
-
-const recentLosses = new Map<number, { tokens: string[]; timestamp: number }>();
-const cooldownTracker = new Map<number, { cyclesRemaining: number; reducedSizing: boolean }>();
-
-interface SignalPerformanceEntry {
-  signals: string[];
-  strategy: string;
-  entryPrice: number;
-  exitPrice?: number;
-  pnlPercent?: number;
-  profitable?: boolean;
-  rsiAtEntry: number;
-  emaTrendAtEntry: string;
-  macdAtEntry: number;
-  trendStrengthAtEntry: number;
-  marketRegime: string;
-  timestamp: number;
+import { getMarketSignals, formatSignalsForAI, getTopBuySignals, getTopShortSignals, getSellSignals, getLastMarketBreadth, type TokenSignal } from "./signal-builder";
+import {
+  bestPrice, closeTradeType, givebackPercent, learningSignals, openTradeType, positionSide, sidePnl, sidePnlPercent,
+  stopBelow, tighterStop, type PositionSide,
+} from "./position-side";
+
+const liveState = createRunnerState();
+
+// Renews the agent's lease before each fill, so a slow cycle keeps the agent
+// and a cycle whose lease went to another instance stops before it trades.
+function leasedFills(fills: AgentFills): AgentFills {
+  return {
+    buy: async (agent, ...rest) => { await renewAgentLease(agent.id); return fills.buy(agent, ...rest); },
+    sell: async (agent, ...rest) => { await renewAgentLease(agent.id); return fills.sell(agent, ...rest); },
+    short: async (agent, ...rest) => { await renewAgentLease(agent.id); return fills.short(agent, ...rest); },
+    cover: async (agent, ...rest) => { await renewAgentLease(agent.id); return fills.cover(agent, ...rest); },
+  };
 }
 
-const signalPerformanceLog: SignalPerformanceEntry[] = [];
-const signalWinRates = new Map<string, { wins: number; losses: number; avgPnl: number; count: number }>();
-let signalPerformanceLoaded = false;
+const liveRuntime: AgentRuntime = {
+  store: storage,
+  state: liveState,
+  fills: leasedFills({ buy: fillBuy, sell: fillSell, short: fillShort, cover: fillCover }),
+  nativePrice: getChainPrice,
+  decider: withDecisionRecording(createAgentDecisionRouter()),
+  now: () => Date.now(),
+  marketBreadth: getLastMarketBreadth,
+  checkTradeQuota: userId => checkQuota(userId, "maxDailyTrades"),
+  checkPortfolioRisk,
+  recordExplanation: saveDecisionExplanation,
+};
+
+// Other instances record trade outcomes too, so the shared win rates are
+// re-read from the database rather than trusted from memory indefinitely.
+const SIGNAL_PERFORMANCE_REFRESH_MS = 5 * 60 * 1000;
+let signalPerformanceLoadedAt = 0;
 
 async function loadSignalPerformanceFromDB(): Promise<void> {
-  if (signalPerformanceLoaded) return;
+  if (Date.now() - signalPerformanceLoadedAt < SIGNAL_PERFORMANCE_REFRESH_MS) return;
   try {
-    signalWinRates.clear();
     const rows = await storage.getAllSignalPerformance();
+    liveState.signalWinRates.clear();
     for (const row of rows) {
-      signalWinRates.set(row.signal, {
+      liveState.signalWinRates.set(row.signal, {
         wins: row.wins,
         losses: row.losses,
         avgPnl: row.avgPnl,
         count: row.count,
       });
     }
-    signalPerformanceLoaded = true;
-    console.log(`[AI] Loaded ${rows.length} signal performance records from DB`);
+    const firstLoad = signalPerformanceLoadedAt === 0;
+    signalPerformanceLoadedAt = Date.now();
+    if (firstLoad) console.log(`[AI] Loaded ${rows.length} signal performance records from DB`);
   } catch (err) {
     console.error("[AI] Failed to load signal performance from DB:", err);
   }
 }
 
 function recordTradeEntry(
+  rt: AgentRuntime,
   tokenSignal: TokenSignal | undefined,
   signals: string[],
   strategy: string,
   entryPrice: number,
   marketRegime: string
 ): void {
-  signalPerformanceLog.push({
+  const log = rt.state.signalPerformanceLog;
+  log.push({
     signals,
     strategy,
     entryPrice,
@@ -68,20 +97,24 @@ function recordTradeEntry(
     macdAtEntry: tokenSignal?.technicals.macdHistogram ?? 0,
     trendStrengthAtEntry: tokenSignal?.technicals.trendStrength ?? 50,
     marketRegime,
-    timestamp: Date.now(),
+    timestamp: rt.now(),
   });
-  if (signalPerformanceLog.length > 500) signalPerformanceLog.splice(0, 100);
+  if (log.length > 500) log.splice(0, 100);
 }
 
 async function recordTradeExit(
-  signals: string[],
+  rt: AgentRuntime,
+  tokenSignals: string[],
   strategy: string,
   entryPrice: number,
   exitPrice: number,
+  side: PositionSide = "long",
 ): Promise<void> {
-  const pnlPercent = ((exitPrice - entryPrice) / entryPrice) * 100;
+  const pnlPercent = sidePnlPercent(side, entryPrice, exitPrice);
   const profitable = pnlPercent > 0;
+  const signals = learningSignals(side, tokenSignals);
 
+  const signalWinRates = rt.state.signalWinRates;
   const dbWrites: Promise<unknown>[] = [];
 
   for (const sig of signals) {
@@ -92,7 +125,7 @@ async function recordTradeExit(
     existing.avgPnl = ((existing.avgPnl * (existing.count - 1)) + pnlPercent) / existing.count;
     signalWinRates.set(sig, existing);
 
-    dbWrites.push(storage.upsertSignalPerformance(sig, "all", profitable, pnlPercent));
+    dbWrites.push(rt.store.upsertSignalPerformance(sig, "all", profitable, pnlPercent));
   }
 
   const comboKey = `COMBO:${signals.sort().join("+")}`;
@@ -103,7 +136,7 @@ async function recordTradeExit(
   comboStats.avgPnl = ((comboStats.avgPnl * (comboStats.count - 1)) + pnlPercent) / comboStats.count;
   signalWinRates.set(comboKey, comboStats);
 
-  dbWrites.push(storage.upsertSignalPerformance(comboKey, "all", profitable, pnlPercent));
+  dbWrites.push(rt.store.upsertSignalPerformance(comboKey, "all", profitable, pnlPercent));
 
   try {
     await Promise.all(dbWrites);
@@ -112,13 +145,13 @@ async function recordTradeExit(
   }
 }
 
-export function getSignalPerformanceStats() {
-  return { signalWinRates: Object.fromEntries(signalWinRates), recentEntries: signalPerformanceLog.length };
+export function getSignalPerformanceStats(state: RunnerState = liveState) {
+  return { signalWinRates: Object.fromEntries(state.signalWinRates), recentEntries: state.signalPerformanceLog.length };
 }
 
-export function getSignalPerformanceReport(): Record<string, { winRate: number; avgPnl: number; count: number }> {
+export function getSignalPerformanceReport(state: RunnerState = liveState): Record<string, { winRate: number; avgPnl: number; count: number }> {
   const report: Record<string, { winRate: number; avgPnl: number; count: number }> = {};
-  for (const [signal, stats] of Array.from(signalWinRates.entries())) {
+  for (const [signal, stats] of Array.from(state.signalWinRates.entries())) {
     if (stats.count >= 3) {
       report[signal] = {
         winRate: Math.round((stats.wins / stats.count) * 100),
@@ -130,8 +163,8 @@ export function getSignalPerformanceReport(): Record<string, { winRate: number;
   return report;
 }
 
-function getSignalConfidenceMultiplier(signalName: string): number {
-  const stats = signalWinRates.get(signalName);
+function getSignalConfidenceMultiplier(state: RunnerState, signalName: string): number {
+  const stats = state.signalWinRates.get(signalName);
   if (!stats || stats.count < 3) return 1.0;
   const winRate = stats.wins / stats.count;
   if (winRate >= 0.75) return 1.4;
@@ -142,18 +175,18 @@ function getSignalConfidenceMultiplier(signalName: string): number {
   return 0.3;
 }
 
-function isSignalBlacklisted(signalName: string): boolean {
-  const stats = signalWinRates.get(signalName);
+function isSignalBlacklisted(state: RunnerState, signalName: string): boolean {
+  const stats = state.signalWinRates.get(signalName);
   if (!stats || stats.count < 5) return false;
   const winRate = stats.wins / stats.count;
   return winRate < 0.25 && stats.avgPnl < -3;
 }
 
-function getComboConfidence(signals: string[]): { multiplier: number; blacklisted: boolean } {
+function getComboConfidence(state: RunnerState, signals: string[]): { multiplier: number; blacklisted: boolean } {
   if (signals.length < 2) return { multiplier: 1.0, blacklisted: false };
   const sorted = [...signals].sort();
   const comboKey = `COMBO:${sorted.join("+")}`;
-  const stats = signalWinRates.get(comboKey);
+  const stats = state.signalWinRates.get(comboKey);
   if (!stats || stats.count < 3) return { multiplier: 1.0, blacklisted: false };
   const winRate = stats.wins / stats.count;
   if (winRate < 0.20 && stats.count >= 5) return { multiplier: 0, blacklisted: true };
@@ -163,12 +196,12 @@ function getComboConfidence(signals: string[]): { multiplier: number; blackliste
   return { multiplier: 1.0, blacklisted: false };
 }
 
-function computeAdaptiveConvictionBoost(tokenSignals: string[]): number {
+function computeAdaptiveConvictionBoost(state: RunnerState, tokenSignals: string[]): number {
   let totalBoost = 0;
   let boostedCount = 0;
   for (const sig of tokenSignals) {
     if (sig.startsWith("COMBO:")) continue;
-    const mult = getSignalConfidenceMultiplier(sig);
+    const mult = getSignalConfidenceMultiplier(state, sig);
     if (mult !== 1.0) {
       totalBoost += (mult - 1.0) * 15;
       boostedCount++;
@@ -178,32 +211,23 @@ function computeAdaptiveConvictionBoost(tokenSignals: string[]): number {
   return Math.round(totalBoost / boostedCount);
 }
 
-interface AgentPerformanceTracker {
-  recentTrades: { pnl: number; timestamp: number }[];
-  winStreak: number;
-  lossStreak: number;
-  adaptiveThresholdOffset: number;
-  lastUpdate: number;
-}
-
-const agentTrackers = new Map<number, AgentPerformanceTracker>();
-
-function getAgentTracker(agentId: number): AgentPerformanceTracker {
+function getAgentTracker(rt: AgentRuntime, agentId: number): AgentPerformanceTracker {
+  const agentTrackers = rt.state.agentTrackers;
   if (!agentTrackers.has(agentId)) {
     agentTrackers.set(agentId, {
       recentTrades: [],
       winStreak: 0,
       lossStreak: 0,
       adaptiveThresholdOffset: 0,
-      lastUpdate: Date.now(),
+      lastUpdate: rt.now(),
     });
   }
   return agentTrackers.get(agentId)!;
 }
 
-function updateAgentTracker(agentId: number, pnlPercent: number): void {
-  const tracker = getAgentTracker(agentId);
-  const now = Date.now();
+function updateAgentTracker(rt: AgentRuntime, agentId: number, pnlPercent: number): void {
+  const tracker = getAgentTracker(rt, agentId);
+  const now = rt.now();
   tracker.recentTrades.push({ pnl: pnlPercent, timestamp: now });
   const cutoff = now - 24 * 60 * 60 * 1000;
   tracker.recentTrades = tracker.recentTrades.filter(t => t.timestamp > cutoff);
@@ -223,13 +247,13 @@ function updateAgentTracker(agentId: number, pnlPercent: number): void {
   tracker.lastUpdate = now;
 }
 
-function getAdaptiveEntryThresholds(agentId: number, strategy: string): {
+function getAdaptiveEntryThresholds(rt: AgentRuntime, agentId: number, strategy: string): {
   minConviction: number;
   minSignalScore: number;
   minMomentum: number;
   positionSizeMultiplier: number;
 } {
-  const tracker = getAgentTracker(agentId);
+  const tracker = getAgentTracker(rt, agentId);
   const offset = tracker.adaptiveThresholdOffset;
 
   const baseThresholds: Record<string, { conviction: number; signal: number; momentum: number }> = {
@@ -260,13 +284,13 @@ function getAdaptiveEntryThresholds(agentId: number, strategy: string): {
   };
 }
 
-function shouldBreakevenStop(entryPrice: number, currentPrice: number, highestPrice: number, strategy: string): boolean {
+function shouldBreakevenStop(entryPrice: number, currentPrice: number, highestPrice: number, strategy: string, side: PositionSide = "long"): boolean {
   if (!entryPrice || !currentPrice || !highestPrice || entryPrice <= 0 || currentPrice <= 0 || highestPrice <= 0) return false;
-  if (highestPrice <= entryPrice) return false;
 
-  const pnlPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
-  const drawdownFromHigh = ((highestPrice - currentPrice) / highestPrice) * 100;
-  const profitFromHigh = ((highestPrice - entryPrice) / entryPrice) * 100;
+  const pnlPercent = sidePnlPercent(side, entryPrice, currentPrice);
+  const drawdownFromHigh = givebackPercent(side, highestPrice, currentPrice);
+  const profitFromHigh = sidePnlPercent(side, entryPrice, highestPrice);
+  if (profitFromHigh <= 0) return false;
 
   const breakevenThreshold: Record<string, number> = {
     conservative: 5,
@@ -282,11 +306,25 @@ function shouldBreakevenStop(entryPrice: number, currentPrice: number, highestPr
   return false;
 }
 
-function detectMomentumReversal(tokenSignal: TokenSignal | undefined): { reversing: boolean; severity: number } {
+// A reversal against the side held: bearish signs for a long, bullish ones
+// for a short.
+function detectMomentumReversal(tokenSignal: TokenSignal | undefined, side: PositionSide = "long"): { reversing: boolean; severity: number } {
   if (!tokenSignal) return { reversing: false, severity: 0 };
   const tech = tokenSignal.technicals;
   let reversalScore = 0;
 
+  if (side === "short") {
+    if (tech.rsiDivergence === "bullish") reversalScore += 30;
+    if (tech.emaCrossover === "golden_cross") reversalScore += 35;
+    if (tech.macdHistogram > 0 && tech.macdLine > tech.macdSignal) reversalScore += 20;
+    if (tokenSignal.momentumAcceleration > 3) reversalScore += 15;
+    if (tokenSignal.shortTermMomentum > 70) reversalScore += 15;
+    if (tech.emaTrendAlignment === "bullish") reversalScore += 20;
+    if (tokenSignal.whaleActivity === "accumulating") reversalScore += 25;
+    if (tokenSignal.buyPressureScore > 60) reversalScore += 10;
+    return { reversing: reversalScore >= 40, severity: Math.min(100, reversalScore) };
+  }
+
   if (tech.rsiDivergence === "bearish") reversalScore += 30;
   if (tech.emaCrossover === "death_cross") reversalScore += 35;
   if (tech.macdHistogram < 0 && tech.macdLine < tech.macdSignal) reversalScore += 20;
@@ -312,10 +350,10 @@ function getTimeDecayExitThreshold(holdTimeHours: number, strategy: string): num
   return 3 - (decayProgress * 6);
 }
 
-function buildAdaptiveLearningContext(agentId: number, strategy: string): string {
-  const tracker = getAgentTracker(agentId);
-  const thresholds = getAdaptiveEntryThresholds(agentId, strategy);
-  const perfReport = getSignalPerformanceReport();
+function buildAdaptiveLearningContext(rt: AgentRuntime, agentId: number, strategy: string): string {
+  const tracker = getAgentTracker(rt, agentId);
+  const thresholds = getAdaptiveEntryThresholds(rt, agentId, strategy);
+  const perfReport = getSignalPerformanceReport(rt.state);
 
   const winningSignals = Object.entries(perfReport)
     .filter(([k, v]) => !k.startsWith("COMBO:") && v.winRate >= 60 && v.count >= 3)
@@ -452,6 +490,7 @@ function buildAdaptiveLearningContext(agentId: number, strategy: string): string
   context += `\n- News Scanner: CryptoPanic + CoinGecko headlines analyzed for sentiment and impact. NEWS_MAJOR_BULLISH/BEARISH = high-impact market-moving news.`;
   context += `\n- Fear & Greed Index: Market-wide sentiment from Alternative.me (0-100). EXTREME_FEAR = contrarian buy zone. EXTREME_GREED = sell zone.`;
   context += `\n- Liquidity Monitor: DEX pool tracking across chains. LIQUIDITY_DRAINING = exit immediately. LIQUIDITY_GROWING = healthy token.`;
+  context += `\n- Multi-Timeframe Technicals: indicators on 1m, 5m, 15m and 1h candles. HTF = the 15m/1h trend. MTF_GOLDEN_CROSS and MTF_PULLBACK_ENTRY are GOLDEN_CROSS and PULLBACK_ENTRY confirmed by a bullish HTF - trust them over the 1m-only tags.`;
   context += `\n- When SMART_MONEY_STRONG_BUY + SOCIAL_SPIKE + NEWS_BULLISH align, this is MAX conviction.`;
   context += `\n- When SMART_MONEY_SELL + SOCIAL_NEGATIVE + LIQUIDITY_DRAINING align, EXIT IMMEDIATELY.`;
   context += `\n- EXTREME_FEAR + LIQUIDITY_GROWING + PULLBACK_ENTRY = prime contrarian entry.`;
@@ -460,17 +499,18 @@ function buildAdaptiveLearningContext(agentId: number, strategy: string): string
   return context;
 }
 
-const MAX_POSITIONS_BY_STRATEGY: Record<string, number> = {
+export const MAX_POSITIONS_BY_STRATEGY: Record<string, number> = {
   conservative: 3,
   balanced: 5,
   aggressive: 8,
   degen: 10,
 };
 
-function trackLoss(agentId: number, tokenSymbol: string, strategy: string): void {
-  const entry = recentLosses.get(agentId) || { tokens: [], timestamp: Date.now() };
+function trackLoss(rt: AgentRuntime, agentId: number, tokenSymbol: string, strategy: string): void {
+  const { recentLosses, cooldownTracker } = rt.state;
+  const entry = recentLosses.get(agentId) || { tokens: [], timestamp: rt.now() };
   entry.tokens.push(tokenSymbol.toUpperCase());
-  entry.timestamp = Date.now();
+  entry.timestamp = rt.now();
   if (entry.tokens.length > 20) entry.tokens.shift();
   recentLosses.set(agentId, entry);
 
@@ -479,20 +519,20 @@ function trackLoss(agentId: number, tokenSymbol: string, strategy: string): void
   const consecutiveThreshold = strategy === "degen" ? 4 : strategy === "aggressive" ? 3 : 2;
   const cooldownCycles = strategy === "degen" ? 3 : strategy === "aggressive" ? 2 : 3;
 
-  if (recentCount >= consecutiveThreshold && (Date.now() - entry.timestamp < oneHour * 6)) {
+  if (recentCount >= consecutiveThreshold && (rt.now() - entry.timestamp < oneHour * 6)) {
     cooldownTracker.set(agentId, { cyclesRemaining: cooldownCycles, reducedSizing: true });
   }
 }
 
-function wasRecentLoss(agentId: number, tokenSymbol: string): boolean {
-  const entry = recentLosses.get(agentId);
+function wasRecentLoss(rt: AgentRuntime, agentId: number, tokenSymbol: string): boolean {
+  const entry = rt.state.recentLosses.get(agentId);
   if (!entry) return false;
   const oneDay = 24 * 60 * 60 * 1000;
-  if (Date.now() - entry.timestamp > oneDay) return false;
+  if (rt.now() - entry.timestamp > oneDay) return false;
   return entry.tokens.includes(tokenSymbol.toUpperCase());
 }
 
-const STRATEGY_PROMPTS: Record<string, string> = {
+export const STRATEGY_PROMPTS: Record<string, string> = {
   conservative: `You are an elite conservative crypto trading AI designed for CAPITAL PRESERVATION with consistent, compounding returns.
 
 YOUR EDGE: Multi-factor signal confluence with technical analysis confirmation. You ONLY enter when momentum, volume, safety, smart money, whale activity, AND technical indicators ALL align.
@@ -820,8 +860,10 @@ RISK MANAGEMENT:
 - Track daily hit rate - below 30% today → hold-only`,
 };
 
-interface AgentDecision {
-  action: "buy" | "sell" | "hold";
+export interface AgentDecision {
+  // "short" opens or adds to a short and "cover" closes one; both need the
+  // agent to allow shorts.
+  action: "buy" | "sell" | "short" | "cover" | "hold";
   tokenSymbol: string;
   tokenAddress: string;
   chain: string;
@@ -911,26 +953,162 @@ function findTokenInSignals(signals: TokenSignal[], symbol: string, address?: st
   return signals.find(s => s.symbol.toUpperCase() === symbol.toUpperCase());
 }
 
-async function makeAgentDecision(agent: AiAgent, signals: TokenSignal[], openPositions: AgentPosition[]): Promise<AgentDecision> {
+// Every entry filter the runner applies to a proposed buy, in order. The
+// first one that fails is the reason the agent holds instead.
+function checkEntryFilters(
+  rt: AgentRuntime,
+  agent: AiAgent,
+  symbol: string,
+  token: TokenSignal,
+  custom: CompiledStrategy | null,
+  thresholds: ReturnType<typeof getAdaptiveEntryThresholds>
+): DecisionCheck[] {
+  const checks: DecisionCheck[] = [];
+  const check = (name: string, passed: boolean, detail: string, blocked: string) => {
+    checks.push({ name, passed, detail: passed ? detail : blocked });
+  };
+
+  if (custom) {
+    check("Custom entry rule", custom.entryRule(token),
+      `Matches the ${custom.label} entry rule`,
+      `Custom rule: ${symbol} does not match the ${custom.label} entry rule`);
+  }
+
+  check("Adaptive conviction", token.conviction >= thresholds.minConviction,
+    `Conviction ${token.conviction} (min ${thresholds.minConviction})`,
+    `Adaptive filter: ${symbol} conviction ${token.conviction} below adaptive minimum ${thresholds.minConviction} (raised due to recent performance)`);
+  check("Adaptive signal score", token.overallSignalScore >= thresholds.minSignalScore,
+    `Signal score ${token.overallSignalScore} (min ${thresholds.minSignalScore})`,
+    `Adaptive filter: ${symbol} signal score ${token.overallSignalScore} below adaptive minimum ${thresholds.minSignalScore}`);
+  check("Adaptive momentum", token.momentumScore >= thresholds.minMomentum,
+    `Momentum ${token.momentumScore} (min ${thresholds.minMomentum})`,
+    `Adaptive filter: ${symbol} momentum ${token.momentumScore} below adaptive minimum ${thresholds.minMomentum}`);
+
+  const combo = getComboConfidence(rt.state, token.signals);
+  check("Signal combination", !combo.blacklisted,
+    `Combination size multiplier x${combo.multiplier.toFixed(2)}`,
+    `Adaptive BLOCK: ${symbol} signal combination [${token.signals.join("+")}] has historically losing pattern - skipping`);
+
+  const blacklisted = token.signals.filter(s => isSignalBlacklisted(rt.state, s));
+  check("Signal blacklist", blacklisted.length === 0,
+    "No blacklisted signals",
+    `Adaptive BLOCK: Signal(s) [${blacklisted.join(", ")}] blacklisted due to consistently poor performance (<25% win rate)`);
+
+  const maxRug = agent.strategy === "degen" ? 70 : agent.strategy === "aggressive" ? 60 : 45;
+  check("Rug risk", token.rugRiskScore < maxRug,
+    `RugRisk ${token.rugRiskScore}/100 (limit: ${maxRug})`,
+    `Blocked: ${symbol} RugRisk ${token.rugRiskScore}/100 (limit: ${maxRug})`);
+
+  check("Whale activity", token.whaleActivity !== "distributing",
+    `Whales ${token.whaleActivity}`,
+    `Blocked: ${symbol} whales are distributing - never fight whale sells`);
+
+  const dump = token.signals.includes("FLASH_CRASH") ? "FLASH_CRASH" : token.signals.includes("HEAVY_SELL_PRESSURE") ? "HEAVY_SELL_PRESSURE" : null;
+  check("Sell pressure", dump === null,
+    "No FLASH_CRASH or HEAVY_SELL_PRESSURE",
+    `Blocked: ${symbol} has ${dump} - never buy dumps`);
+
+  check("Recent loss", !wasRecentLoss(rt, agent.id, symbol),
+    `No recent loss on ${symbol}`,
+    `Blocked: Recently lost on ${symbol} - avoiding revenge trade`);
+
+  const { reversing, severity } = detectMomentumReversal(token);
+  check("Momentum reversal", !reversing,
+    `Reversal severity ${severity}/100`,
+    `Adaptive BLOCK: Momentum reversal detected on ${symbol} (severity: ${severity}/100) - waiting for confirmation of trend resumption`);
+
+  return checks;
+}
+
+// The entry filters for a proposed short. They mirror checkEntryFilters, with
+// the bullish conditions turned around; a custom entry rule describes buys
+// and does not apply.
+function checkShortEntryFilters(
+  rt: AgentRuntime,
+  agent: AiAgent,
+  symbol: string,
+  token: TokenSignal,
+  thresholds: ReturnType<typeof getAdaptiveEntryThresholds>
+): DecisionCheck[] {
+  const checks: DecisionCheck[] = [];
+  const check = (name: string, passed: boolean, detail: string, blocked: string) => {
+    checks.push({ name, passed, detail: passed ? detail : blocked });
+  };
+
+  check("Short regime", token.marketRegime === "bear",
+    "Bear regime",
+    `Blocked: shorts are only taken in a bear regime (${symbol} regime: ${token.marketRegime})`);
+
+  const maxMomentum = 100 - thresholds.minMomentum;
+  check("Bearish momentum", token.momentumScore <= maxMomentum,
+    `Momentum ${token.momentumScore} (max ${maxMomentum})`,
+    `Adaptive filter: ${symbol} momentum ${token.momentumScore} above short maximum ${maxMomentum}`);
+
+  const shortSignals = learningSignals("short", token.signals);
+  const combo = getComboConfidence(rt.state, shortSignals);
+  check("Signal combination", !combo.blacklisted,
+    `Combination size multiplier x${combo.multiplier.toFixed(2)}`,
+    `Adaptive BLOCK: ${symbol} short on [${token.signals.join("+")}] has historically losing pattern - skipping`);
+
+  const blacklisted = shortSignals.filter(s => isSignalBlacklisted(rt.state, s));
+  check("Signal blacklist", blacklisted.length === 0,
+    "No blacklisted signals",
+    `Adaptive BLOCK: Short signal(s) [${blacklisted.join(", ")}] blacklisted due to consistently poor performance (<25% win rate)`);
+
+  check("Whale activity", token.whaleActivity !== "accumulating",
+    `Whales ${token.whaleActivity}`,
+    `Blocked: ${symbol} whales are accumulating - never short into whale buys`);
+
+  const squeeze = token.signals.includes("VOLUME_BREAKOUT") || token.buyPressureScore >= 60;
+  check("Squeeze risk", !squeeze,
+    `Buy pressure ${token.buyPressureScore}%`,
+    `Blocked: ${symbol} has ${token.signals.includes("VOLUME_BREAKOUT") ? "a volume breakout" : `buy pressure ${token.buyPressureScore}%`} - squeeze risk`);
+
+  check("Recent loss", !wasRecentLoss(rt, agent.id, symbol),
+    `No recent loss on ${symbol}`,
+    `Blocked: Recently lost on ${symbol} - avoiding revenge trade`);
+
+  const { reversing, severity } = detectMomentumReversal(token, "short");
+  check("Momentum reversal", !reversing,
+    `Reversal severity ${severity}/100`,
+    `Adaptive BLOCK: Bullish reversal detected on ${symbol} (severity: ${severity}/100) - not shorting into a bounce`);
+
+  return checks;
+}
+
+async function makeAgentDecision(
+  rt: AgentRuntime,
+  agent: AiAgent,
+  signals: TokenSignal[],
+  openPositions: AgentPosition[],
+  custom: CompiledStrategy | null,
+  explanation: DecisionExplanation
+): Promise<AgentDecision> {
   if (signals.length === 0) {
     return { action: "hold", tokenSymbol: "", tokenAddress: "", chain: agent.chain || "solana", amount: 0, confidence: 0, reasoning: "No tokens with valid signals on this chain", signalScore: 0 };
   }
 
   const { onStreak, streakLength } = isOnLossStreak(agent);
-  const strategyPrompt = STRATEGY_PROMPTS[agent.strategy] || STRATEGY_PROMPTS.balanced;
-  const topBuyCandidates = getTopBuySignals(signals, agent.strategy);
+  const basePrompt = STRATEGY_PROMPTS[agent.strategy] || STRATEGY_PROMPTS.balanced;
+  const strategyPrompt = custom
+    ? `${basePrompt}\n\nCUSTOM STRATEGY (${custom.label}): buy candidates are pre-filtered by the user's entry rule; max ${custom.maxPositions} open positions.${custom.promptGuidance ? `\nUSER GUIDANCE:\n${custom.promptGuidance}` : ""}`
+    : basePrompt;
+  const topBuyCandidates = getTopBuySignals(signals, agent.strategy, custom?.entryRule);
+  const topShortCandidates = agent.allowShorts ? getTopShortSignals(signals, agent.strategy) : [];
+  explanation.candidates = explainCandidates(signals, topBuyCandidates, agent.strategy, custom?.entryRule);
+  explanation.lossStreak = streakLength;
   const marketData = formatSignalsForAI(signals, 30);
   const marketRegime = signals[0]?.marketRegime || "neutral";
 
   const positionSummary = openPositions.length > 0
     ? openPositions.map(p => {
-        const pnlPercent = ((p.currentPrice - p.avgEntryPrice) / p.avgEntryPrice * 100);
-        const holdTimeMs = Date.now() - new Date(p.openedAt || Date.now()).getTime();
+        const pnlPercent = sidePnlPercent(positionSide(p), p.avgEntryPrice, p.currentPrice);
+        const holdTimeMs = rt.now() - new Date(p.openedAt || rt.now()).getTime();
         const holdHours = Math.round(holdTimeMs / (1000 * 60 * 60));
         const tokenSig = findTokenInSignals(signals, p.tokenSymbol, p.tokenAddress || undefined, p.chain || undefined);
         const whaleStatus = tokenSig ? tokenSig.whaleActivity : "unknown";
         const stMom = tokenSig ? tokenSig.shortTermMomentum : "?";
-        return `${p.tokenSymbol} (${p.chain}): ${p.size} @ $${p.avgEntryPrice.toFixed(6)} -> $${p.currentPrice.toFixed(6)} (${pnlPercent >= 0 ? "+" : ""}${pnlPercent.toFixed(1)}% PnL, ${holdHours}h held, whale: ${whaleStatus}, STMom: ${stMom})`;
+        return `${p.side === "short" ? "SHORT " : ""}${p.tokenSymbol} (${p.chain}): ${p.size} @ $${p.avgEntryPrice.toFixed(6)} -> $${p.currentPrice.toFixed(6)} (${pnlPercent >= 0 ? "+" : ""}${pnlPercent.toFixed(1)}% PnL, ${holdHours}h held, whale: ${whaleStatus}, STMom: ${stMom})`;
       }).join("\n")
     : "No open positions";
 
@@ -938,7 +1116,20 @@ async function makeAgentDecision(agent: AiAgent, signals: TokenSignal[], openPos
     ? `\n\nTOP BUY CANDIDATES (pre-filtered by strategy + anti-rug + whale filters):\n${formatSignalsForAI(topBuyCandidates, 10)}`
     : "\n\nNo strong buy candidates pass your strategy + safety + whale filters. HOLD is correct when there's no edge.";
 
-  const recentTrades = await storage.getAgentTrades(agent.id, 10);
+  const shortCandidateSummary = !agent.allowShorts
+    ? ""
+    : topShortCandidates.length > 0
+      ? `\n\nTOP SHORT CANDIDATES (bear regime, weakest momentum first):\n${formatSignalsForAI(topShortCandidates, 5)}`
+      : "\n\nNo short candidates: shorts need a bear regime and a weak, liquid token.";
+  const shortRules = agent.allowShorts
+    ? `\n\nSHORTS (enabled):
+- "short" opens a short on a TOP SHORT CANDIDATE; "cover" closes an open short. "sell" only closes longs.
+- Only short in a BEAR regime, never into whale accumulation, a volume breakout or rising buy pressure.
+- A short profits when price falls; DynSL% and DynTP% apply to the move against and in favour of it.`
+    : "";
+  const actions = agent.allowShorts ? `"buy" | "sell" | "short" | "cover" | "hold"` : `"buy" | "sell" | "hold"`;
+
+  const recentTrades = await rt.store.getAgentTrades(agent.id, 10);
   const recentTradesSummary = recentTrades.length > 0
     ? recentTrades.slice(0, 5).map(t => `${t.type.toUpperCase()} ${t.amount.toFixed(4)} @ $${t.price.toFixed(6)} (PnL: $${(t.pnl ?? 0).toFixed(4)})`).join(", ")
     : "No recent trades";
@@ -952,9 +1143,9 @@ async function makeAgentDecision(agent: AiAgent, signals: TokenSignal[], openPos
 - Capital preservation is #1 priority right now.`;
   }
 
-  const adaptiveLearningContext = buildAdaptiveLearningContext(agent.id, agent.strategy);
+  const adaptiveLearningContext = buildAdaptiveLearningContext(rt, agent.id, agent.strategy);
 
-  const breadthData = getLastMarketBreadth();
+  const breadthData = rt.marketBreadth();
   const breadthSummary = breadthData
     ? `\nMARKET BREADTH: avgRSI=${breadthData.avgRSI.toFixed(0)}, ${breadthData.bullishEmaPercent.toFixed(0)}% bullish, volume trend ${breadthData.volumeTrendUp ? "up" : "down"}, trend strength avg=${breadthData.avgTrendStrength.toFixed(0)}`
     : "";
@@ -985,11 +1176,11 @@ CRITICAL RULES:
 4. HOLD is always valid - patience preserves capital
 5. Use DynSL% and DynTP% from signal data for exits (volatility-adjusted)
 6. NEVER average down on losers
-7. NEVER re-buy a token you just lost on
+7. NEVER re-buy a token you just lost on${shortRules}
 
 RESPONSE FORMAT (valid JSON only):
 {
-  "action": "buy" | "sell" | "hold",
+  "action": ${actions},
   "tokenSymbol": "<symbol>",
   "tokenAddress": "<address>",
   "chain": "<chain>",
@@ -999,23 +1190,22 @@ RESPONSE FORMAT (valid JSON only):
   "signalScore": <signal score>
 }`;
 
-  const userMessage = `LIVE MARKET (ranked by signal):\n${marketData}${buyCandidateSummary}\n\nDecide: buy, sell, or hold. Use conviction sizing, check whale activity, respect dynamic SL/TP.`;
+  const userMessage = `LIVE MARKET (ranked by signal):\n${marketData}${buyCandidateSummary}${shortCandidateSummary}\n\nDecide: ${agent.allowShorts ? "buy, sell, short, cover," : "buy, sell,"} or hold. Use conviction sizing, check whale activity, respect dynamic SL/TP.`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-5-nano",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userMessage },
-      ],
-      max_completion_tokens: 700,
+    const answer = await rt.decider.propose({
+      agent, signals, candidates: topBuyCandidates, shortCandidates: topShortCandidates, openPositions, systemPrompt, userMessage, time: rt.now(),
     });
+    const decision = JSON.parse(stripCodeFences(answer.content)) as AgentDecision;
+    explanation.provider = answer.provider;
+    explanation.fallbackReason = answer.fallbackReason ?? null;
+    explanation.proposal = { ...decision };
+    if (answer.fallbackReason) {
+      decision.reasoning = `[Rule fallback: ${answer.fallbackReason}] ${decision.reasoning}`;
+    }
 
-    const content = response.choices[0]?.message?.content || "";
-    const cleaned = content.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
-    const decision = JSON.parse(cleaned) as AgentDecision;
-
-    if (!["buy", "sell", "hold"].includes(decision.action)) {
+    const allowedActions = agent.allowShorts ? ["buy", "sell", "short", "cover", "hold"] : ["buy", "sell", "hold"];
+    if (!allowedActions.includes(decision.action)) {
       decision.action = "hold";
     }
 
@@ -1023,59 +1213,25 @@ RESPONSE FORMAT (valid JSON only):
       const targetToken = findTokenInSignals(signals, decision.tokenSymbol || "", decision.tokenAddress, decision.chain);
 
       if (targetToken) {
-        const adaptiveThresholds = getAdaptiveEntryThresholds(agent.id, agent.strategy);
+        const adaptiveThresholds = getAdaptiveEntryThresholds(rt, agent.id, agent.strategy);
+        explanation.thresholds = adaptiveThresholds;
 
-        if (targetToken.conviction < adaptiveThresholds.minConviction) {
+        const checks = checkEntryFilters(rt, agent, decision.tokenSymbol, targetToken, custom, adaptiveThresholds);
+        explanation.checks.push(...checks);
+        const blocked = checks.find(c => !c.passed);
+        if (blocked) {
           return {
             action: "hold", tokenSymbol: decision.tokenSymbol, tokenAddress: decision.tokenAddress,
             chain: decision.chain, amount: 0, confidence: 0,
-            reasoning: `Adaptive filter: ${decision.tokenSymbol} conviction ${targetToken.conviction} below adaptive minimum ${adaptiveThresholds.minConviction} (raised due to recent performance)`,
+            reasoning: blocked.detail,
             signalScore: targetToken.overallSignalScore,
           };
         }
 
-        if (targetToken.overallSignalScore < adaptiveThresholds.minSignalScore) {
-          return {
-            action: "hold", tokenSymbol: decision.tokenSymbol, tokenAddress: decision.tokenAddress,
-            chain: decision.chain, amount: 0, confidence: 0,
-            reasoning: `Adaptive filter: ${decision.tokenSymbol} signal score ${targetToken.overallSignalScore} below adaptive minimum ${adaptiveThresholds.minSignalScore}`,
-            signalScore: targetToken.overallSignalScore,
-          };
-        }
-
-        if (targetToken.momentumScore < adaptiveThresholds.minMomentum) {
-          return {
-            action: "hold", tokenSymbol: decision.tokenSymbol, tokenAddress: decision.tokenAddress,
-            chain: decision.chain, amount: 0, confidence: 0,
-            reasoning: `Adaptive filter: ${decision.tokenSymbol} momentum ${targetToken.momentumScore} below adaptive minimum ${adaptiveThresholds.minMomentum}`,
-            signalScore: targetToken.overallSignalScore,
-          };
-        }
-
-        const comboCheck = getComboConfidence(targetToken.signals);
-        if (comboCheck.blacklisted) {
-          return {
-            action: "hold", tokenSymbol: decision.tokenSymbol, tokenAddress: decision.tokenAddress,
-            chain: decision.chain, amount: 0, confidence: 0,
-            reasoning: `Adaptive BLOCK: ${decision.tokenSymbol} signal combination [${targetToken.signals.join("+")}] has historically losing pattern - skipping`,
-            signalScore: targetToken.overallSignalScore,
-          };
-        }
-
-        const hasBlacklistedSignal = targetToken.signals.some(s => isSignalBlacklisted(s));
-        if (hasBlacklistedSignal) {
-          const blacklisted = targetToken.signals.filter(s => isSignalBlacklisted(s));
-          return {
-            action: "hold", tokenSymbol: decision.tokenSymbol, tokenAddress: decision.tokenAddress,
-            chain: decision.chain, amount: 0, confidence: 0,
-            reasoning: `Adaptive BLOCK: Signal(s) [${blacklisted.join(", ")}] blacklisted due to consistently poor performance (<25% win rate)`,
-            signalScore: targetToken.overallSignalScore,
-          };
-        }
-
-        const adaptiveBoost = computeAdaptiveConvictionBoost(targetToken.signals);
+        const adaptiveBoost = computeAdaptiveConvictionBoost(rt.state, targetToken.signals);
         const adjustedConviction = Math.max(0, Math.min(100, targetToken.conviction + adaptiveBoost));
 
+        addSizingStep(explanation, "Proposed", decision.amount);
         const convictionSize = getConvictionPositionSize(
           adjustedConviction,
           agent.maxPositionSize ?? 1,
@@ -1086,69 +1242,76 @@ RESPONSE FORMAT (valid JSON only):
           targetToken.whaleActivity
         );
         decision.amount = Math.min(decision.amount, convictionSize);
+        addSizingStep(explanation, `Conviction cap (conviction ${adjustedConviction})`, decision.amount);
 
         decision.amount = Math.round(decision.amount * adaptiveThresholds.positionSizeMultiplier * 1000) / 1000;
-        decision.amount *= comboCheck.multiplier;
+        addSizingStep(explanation, `Adaptive size x${adaptiveThresholds.positionSizeMultiplier.toFixed(2)}`, decision.amount);
+        const comboMultiplier = getComboConfidence(rt.state, targetToken.signals).multiplier;
+        decision.amount *= comboMultiplier;
         decision.amount = Math.round(decision.amount * 1000) / 1000;
+        addSizingStep(explanation, `Signal combo x${comboMultiplier.toFixed(2)}`, decision.amount);
 
         if (onStreak) {
           decision.amount = Math.round(decision.amount * 0.5 * 1000) / 1000;
+          addSizingStep(explanation, "Loss streak x0.50", decision.amount);
         }
+      }
+    } else if (decision.action === "short") {
+      const targetToken = findTokenInSignals(signals, decision.tokenSymbol || "", decision.tokenAddress, decision.chain);
 
-        const maxRug = agent.strategy === "degen" ? 70 : agent.strategy === "aggressive" ? 60 : 45;
-        if (targetToken.rugRiskScore >= maxRug) {
-          return {
-            action: "hold", tokenSymbol: decision.tokenSymbol, tokenAddress: decision.tokenAddress,
-            chain: decision.chain, amount: 0, confidence: 0,
-            reasoning: `Blocked: ${decision.tokenSymbol} RugRisk ${targetToken.rugRiskScore}/100 (limit: ${maxRug})`,
-            signalScore: targetToken.overallSignalScore,
-          };
-        }
+      if (targetToken) {
+        const adaptiveThresholds = getAdaptiveEntryThresholds(rt, agent.id, agent.strategy);
+        explanation.thresholds = adaptiveThresholds;
 
-        if (targetToken.whaleActivity === "distributing") {
+        const checks = checkShortEntryFilters(rt, agent, decision.tokenSymbol, targetToken, adaptiveThresholds);
+        explanation.checks.push(...checks);
+        const blocked = checks.find(c => !c.passed);
+        if (blocked) {
           return {
             action: "hold", tokenSymbol: decision.tokenSymbol, tokenAddress: decision.tokenAddress,
             chain: decision.chain, amount: 0, confidence: 0,
-            reasoning: `Blocked: ${decision.tokenSymbol} whales are distributing - never fight whale sells`,
+            reasoning: blocked.detail,
             signalScore: targetToken.overallSignalScore,
           };
         }
 
-        if (targetToken.signals.includes("FLASH_CRASH") || targetToken.signals.includes("HEAVY_SELL_PRESSURE")) {
-          return {
-            action: "hold", tokenSymbol: decision.tokenSymbol, tokenAddress: decision.tokenAddress,
-            chain: decision.chain, amount: 0, confidence: 0,
-            reasoning: `Blocked: ${decision.tokenSymbol} has ${targetToken.signals.includes("FLASH_CRASH") ? "FLASH_CRASH" : "HEAVY_SELL_PRESSURE"} - never buy dumps`,
-            signalScore: targetToken.overallSignalScore,
-          };
-        }
+        // Conviction and momentum score the long case; their complement is
+        // how strong the short is. The regime is already bear for every
+        // short, so it does not shrink the size again.
+        const shortConviction = Math.round((200 - targetToken.conviction - targetToken.momentumScore) / 2);
+        addSizingStep(explanation, "Proposed", decision.amount);
+        const convictionSize = getConvictionPositionSize(
+          shortConviction,
+          agent.maxPositionSize ?? 1,
+          agent.strategy,
+          targetToken.volatility,
+          "neutral",
+          false,
+          "neutral"
+        );
+        decision.amount = Math.min(decision.amount, convictionSize);
+        addSizingStep(explanation, `Conviction cap (short conviction ${shortConviction})`, decision.amount);
 
-        if (wasRecentLoss(agent.id, decision.tokenSymbol)) {
-          return {
-            action: "hold", tokenSymbol: decision.tokenSymbol, tokenAddress: decision.tokenAddress,
-            chain: decision.chain, amount: 0, confidence: 0,
-            reasoning: `Blocked: Recently lost on ${decision.tokenSymbol} - avoiding revenge trade`,
-            signalScore: targetToken.overallSignalScore,
-          };
-        }
+        decision.amount = Math.round(decision.amount * adaptiveThresholds.positionSizeMultiplier * 1000) / 1000;
+        addSizingStep(explanation, `Adaptive size x${adaptiveThresholds.positionSizeMultiplier.toFixed(2)}`, decision.amount);
+        const comboMultiplier = getComboConfidence(rt.state, learningSignals("short", targetToken.signals)).multiplier;
+        decision.amount = Math.round(decision.amount * comboMultiplier * 1000) / 1000;
+        addSizingStep(explanation, `Signal combo x${comboMultiplier.toFixed(2)}`, decision.amount);
 
-        const { reversing, severity } = detectMomentumReversal(targetToken);
-        if (reversing) {
-          return {
-            action: "hold", tokenSymbol: decision.tokenSymbol, tokenAddress: decision.tokenAddress,
-            chain: decision.chain, amount: 0, confidence: 0,
-            reasoning: `Adaptive BLOCK: Momentum reversal detected on ${decision.tokenSymbol} (severity: ${severity}/100) - waiting for confirmation of trend resumption`,
-            signalScore: targetToken.overallSignalScore,
-          };
+        if (onStreak) {
+          decision.amount = Math.round(decision.amount * 0.5 * 1000) / 1000;
+          addSizingStep(explanation, "Loss streak x0.50", decision.amount);
         }
       }
     }
 
     if (decision.amount > (agent.maxPositionSize ?? 1)) {
       decision.amount = agent.maxPositionSize ?? 1;
+      addSizingStep(explanation, "Max position size", decision.amount);
     }
-    if (decision.amount < 0.01 && decision.action === "buy") {
+    if (decision.amount < 0.01 && (decision.action === "buy" || decision.action === "short")) {
       decision.amount = 0.01;
+      addSizingStep(explanation, "Minimum trade", decision.amount);
     }
 
     return decision;
@@ -1161,7 +1324,7 @@ RESPONSE FORMAT (valid JSON only):
   }
 }
 
-const PROFIT_TIERS: Record<string, { threshold: number; sellPercent: number }[]> = {
+export const PROFIT_TIERS: Record<string, { threshold: number; sellPercent: number }[]> = {
   conservative: [
     { threshold: 0.30, sellPercent: 30 },
     { threshold: 0.55, sellPercent: 25 },
@@ -1188,25 +1351,22 @@ const PROFIT_TIERS: Record<string, { threshold: number; sellPercent: number }[]>
   ],
 };
 
-const tierProgress = new Map<string, number>();
-
-function getPositionTierKey(agentId: number, tokenSymbol: string): string {
-  return `${agentId}:${tokenSymbol}`;
-}
-
+// Trails the best price by a multiple of ATR. A regime running against the
+// position (bear for a long, bull for a short) tightens it.
 function computeATRTrailingStop(
   tokenSignal: TokenSignal | undefined,
   highestPrice: number,
   entryPrice: number,
   strategy: string,
-  marketRegime: string
+  marketRegime: string,
+  side: PositionSide = "long"
 ): number | null {
   if (!tokenSignal) return null;
 
   const atrPercent = tokenSignal.technicals.atrPercent;
   if (atrPercent <= 0) return null;
 
-  const pnlPercent = ((highestPrice - entryPrice) / entryPrice) * 100;
+  const pnlPercent = sidePnlPercent(side, entryPrice, highestPrice);
   if (pnlPercent < 3) return null;
 
   const atrMultiplier: Record<string, number> = {
@@ -1217,39 +1377,128 @@ function computeATRTrailingStop(
   };
 
   let mult = atrMultiplier[strategy] ?? 2.2;
-  if (marketRegime === "bear") mult *= 0.8;
+  if (marketRegime === (side === "short" ? "bull" : "bear")) mult *= 0.8;
   if (pnlPercent > 30) mult *= 0.7;
   else if (pnlPercent > 15) mult *= 0.85;
 
   const stopDistance = highestPrice * (atrPercent / 100) * mult;
-  return highestPrice - stopDistance;
+  return stopBelow(side, highestPrice, stopDistance);
+}
+
+// Sells a long or covers a short.
+function closeFill(rt: AgentRuntime, agent: AiAgent, pos: AgentPosition, size: number, price: number, slippageBps?: number): Promise<AgentFill> {
+  return positionSide(pos) === "short"
+    ? rt.fills.cover(agent, pos, size, price)
+    : rt.fills.sell(agent, pos, size, price, slippageBps);
+}
+
+async function handleFailedSell(rt: AgentRuntime, agent: AiAgent, pos: AgentPosition, fill: AgentFill, price: number) {
+  const reconciled = await reconcilePosition(pos, fill, price, rt.store);
+  const note = reconciled === "closed"
+    ? " - wallet no longer holds it, position closed"
+    : reconciled === "resized" ? ` - position resized to on-chain balance ${fill.remaining}` : "";
+  rt.store.createAgentLog({
+    agentId: agent.id, action: "failed",
+    reasoning: `${positionSide(pos) === "short" ? "Cover" : "Sell"} ${pos.tokenSymbol} failed (${fill.mode}): ${fill.error}${note}`,
+    tokensAnalyzed: 0, decision: "execution_failed", confidence: 0,
+  }).catch(() => {});
+  return reconciled;
+}
+
+interface PositionExit {
+  price: number;
+  highestPrice: number;
+  reason: string;
+  sellPct?: number;
+  // Signals the position was bought on. Left out for exits the owner forces,
+  // which say nothing about the strategy and are kept out of its learning.
+  signals?: string[];
+  // Overrides the live sell slippage, e.g. for an emergency exit.
+  slippageBps?: number;
+}
+
+async function exitPosition(
+  rt: AgentRuntime,
+  agent: AiAgent,
+  pos: AgentPosition,
+  exit: PositionExit
+): Promise<{ action: "closed" | "updated" }> {
+  const { price: currentPrice, highestPrice, reason, sellPct = 100, signals, slippageBps } = exit;
+  const side = positionSide(pos);
+  const sellSize = sellPct >= 95 ? pos.size : Math.round(pos.size * (sellPct / 100) * 10000) / 10000;
+  const fill = await closeFill(rt, agent, pos, sellSize, currentPrice, slippageBps);
+  if (fill.status === "failed") {
+    const reconciled = await handleFailedSell(rt, agent, pos, fill, currentPrice);
+    return { action: reconciled === "closed" ? "closed" : "updated" };
+  }
+  const exitPrice = fill.price;
+  const realizedPnl = sidePnl(side, pos.avgEntryPrice, exitPrice, fill.size);
+  const isFullClose = fill.remaining <= pos.size * 0.05;
+  const dbWrites: Promise<unknown>[] = [];
+
+  if (isFullClose) {
+    dbWrites.push(rt.store.closeAgentPosition(pos.id, exitPrice, realizedPnl));
+    if (signals) {
+      dbWrites.push(recordTradeExit(rt, signals, agent.strategy, pos.avgEntryPrice, exitPrice, side));
+      updateAgentTracker(rt, agent.id, sidePnlPercent(side, pos.avgEntryPrice, exitPrice));
+    }
+  } else {
+    dbWrites.push(rt.store.updateAgentPosition(pos.id, {
+      size: fill.remaining, currentPrice, highestPrice,
+      realizedPnl: (pos.realizedPnl ?? 0) + realizedPnl,
+    }));
+  }
+
+  dbWrites.push(rt.store.createAgentTrade({
+    agentId: agent.id, tokenId: pos.tokenId || 0, type: closeTradeType(side),
+    amount: fill.size, price: exitPrice, total: exitPrice * fill.size,
+    pnl: realizedPnl, reasoning: reason, mode: fill.mode, txHash: fill.txHash,
+  }));
+
+  if (isFullClose) {
+    const prevTotalTrades = agent.totalTrades ?? 0;
+    const newTotalTrades = prevTotalTrades + 1;
+    const newTotalPnl = (agent.totalPnl ?? 0) + realizedPnl;
+    const wins = Math.round((agent.winRate ?? 0) / 100 * prevTotalTrades) + (realizedPnl > 0 ? 1 : 0);
+    dbWrites.push(rt.store.updateAiAgent(agent.id, {
+      totalTrades: newTotalTrades, totalPnl: newTotalPnl,
+      winRate: newTotalTrades > 0 ? (wins / newTotalTrades) * 100 : 0,
+      dailyTradesUsed: (agent.dailyTradesUsed ?? 0) + 1, lastTradeAt: new Date(rt.now()),
+    }));
+  }
+
+  if (realizedPnl < 0 && signals) trackLoss(rt, agent.id, pos.tokenSymbol, agent.strategy);
+  await Promise.all(dbWrites);
+  return { action: isFullClose ? "closed" : "updated" };
 }
 
 async function processPositionUpdate(
+  rt: AgentRuntime,
   agent: AiAgent,
   pos: AgentPosition,
-  signals: TokenSignal[]
+  signals: TokenSignal[],
+  custom: CompiledStrategy | null
 ): Promise<{ action: "closed" | "updated" | "tier_sold" }> {
+  const side = positionSide(pos);
   const tokenSignal = findTokenInSignals(signals, pos.tokenSymbol, pos.tokenAddress || undefined, pos.chain || undefined);
   const currentPrice = tokenSignal?.price || pos.currentPrice;
-  const highestPrice = Math.max(pos.highestPrice || pos.avgEntryPrice, currentPrice);
+  const highestPrice = bestPrice(side, pos.highestPrice, pos.avgEntryPrice, currentPrice);
   const marketRegime = tokenSignal?.marketRegime || "neutral";
 
   const dynSL = tokenSignal?.dynamicStopLoss ?? (agent.stopLossPercent ?? 15);
   const dynTP = tokenSignal?.dynamicTakeProfit ?? (agent.takeProfitPercent ?? 50);
-  const pnlPercent = ((currentPrice - pos.avgEntryPrice) / pos.avgEntryPrice) * 100;
+  const pnlPercent = sidePnlPercent(side, pos.avgEntryPrice, currentPrice);
 
-  const atrTrailingStop = computeATRTrailingStop(tokenSignal, highestPrice, pos.avgEntryPrice, agent.strategy, marketRegime);
-  const profitMultiplier = currentPrice > pos.avgEntryPrice * 1.15 ? 0.5 : 0.7;
+  const atrTrailingStop = computeATRTrailingStop(tokenSignal, highestPrice, pos.avgEntryPrice, agent.strategy, marketRegime, side);
+  const profitMultiplier = pnlPercent > 15 ? 0.5 : 0.7;
   const legacyTrailingDist = pos.avgEntryPrice * (dynSL / 100) * profitMultiplier;
-  const legacyTrailing = highestPrice > pos.avgEntryPrice * 1.05 ? highestPrice - legacyTrailingDist : null;
+  const legacyTrailing = sidePnlPercent(side, pos.avgEntryPrice, highestPrice) > 5 ? stopBelow(side, highestPrice, legacyTrailingDist) : null;
   const trailingStopPrice = atrTrailingStop && legacyTrailing
-    ? Math.max(atrTrailingStop, legacyTrailing)
+    ? tighterStop(side, atrTrailingStop, legacyTrailing)
     : atrTrailingStop || legacyTrailing;
 
-  const tiers = PROFIT_TIERS[agent.strategy] || PROFIT_TIERS.balanced;
-  const tierKey = getPositionTierKey(agent.id, pos.tokenSymbol);
-  const completedTiers = tierProgress.get(tierKey) ?? 0;
+  const tiers = custom?.exitLadder ?? PROFIT_TIERS[agent.strategy] ?? PROFIT_TIERS.balanced;
+  const completedTiers = pos.profitTiersTaken ?? 0;
 
   if (pnlPercent > 0 && completedTiers < tiers.length) {
     const currentTier = tiers[completedTiers];
@@ -1257,108 +1506,77 @@ async function processPositionUpdate(
     if (pnlPercent >= tierTargetPnl) {
       const sellSize = Math.round(pos.size * (currentTier.sellPercent / 100) * 10000) / 10000;
       if (sellSize >= 0.001 && sellSize < pos.size * 0.95) {
-        const realizedPnl = (currentPrice - pos.avgEntryPrice) * sellSize;
+        const fill = await closeFill(rt, agent, pos, sellSize, currentPrice);
+        if (fill.status === "failed") {
+          const reconciled = await handleFailedSell(rt, agent, pos, fill, currentPrice);
+          return { action: reconciled === "closed" ? "closed" : "updated" };
+        }
+        const realizedPnl = sidePnl(side, pos.avgEntryPrice, fill.price, fill.size);
         await Promise.all([
-          storage.updateAgentPosition(pos.id, {
-            size: pos.size - sellSize, currentPrice, highestPrice,
+          rt.store.updateAgentPosition(pos.id, {
+            size: fill.remaining, currentPrice, highestPrice,
             realizedPnl: (pos.realizedPnl ?? 0) + realizedPnl,
+            profitTiersTaken: completedTiers + 1,
           }),
-          storage.createAgentTrade({
-            agentId: agent.id, tokenId: pos.tokenId || 0, type: "sell",
-            amount: sellSize, price: currentPrice, total: currentPrice * sellSize,
-            pnl: realizedPnl,
+          rt.store.createAgentTrade({
+            agentId: agent.id, tokenId: pos.tokenId || 0, type: closeTradeType(side),
+            amount: fill.size, price: fill.price, total: fill.price * fill.size,
+            pnl: realizedPnl, mode: fill.mode, txHash: fill.txHash,
             reasoning: `Tier ${completedTiers + 1}/${tiers.length} profit-take: ${currentTier.sellPercent}% at ${pnlPercent.toFixed(1)}% PnL (target: ${tierTargetPnl.toFixed(1)}% of ${dynTP}% TP)`,
           }),
         ]);
-        tierProgress.set(tierKey, completedTiers + 1);
         return { action: "tier_sold" };
       }
     }
   }
 
-  const holdTimeMs = Date.now() - new Date(pos.openedAt || Date.now()).getTime();
+  const holdTimeMs = rt.now() - new Date(pos.openedAt || rt.now()).getTime();
   const holdTimeHours = holdTimeMs / (1000 * 60 * 60);
 
-  const closePosition = async (reason: string, sellPct = 100) => {
-    const sellSize = sellPct >= 95 ? pos.size : Math.round(pos.size * (sellPct / 100) * 10000) / 10000;
-    const realizedPnl = (currentPrice - pos.avgEntryPrice) * sellSize;
-    const isFullClose = sellSize >= pos.size * 0.95;
-    const dbWrites: Promise<unknown>[] = [];
-
-    if (isFullClose) {
-      dbWrites.push(storage.closeAgentPosition(pos.id, currentPrice, realizedPnl));
-      tierProgress.delete(tierKey);
-      dbWrites.push(recordTradeExit(tokenSignal?.signals || [], agent.strategy, pos.avgEntryPrice, currentPrice));
-      updateAgentTracker(agent.id, pnlPercent);
-    } else {
-      dbWrites.push(storage.updateAgentPosition(pos.id, {
-        size: pos.size - sellSize, currentPrice, highestPrice,
-        realizedPnl: (pos.realizedPnl ?? 0) + realizedPnl,
-      }));
-    }
-
-    dbWrites.push(storage.createAgentTrade({
-      agentId: agent.id, tokenId: pos.tokenId || 0, type: "sell",
-      amount: sellSize, price: currentPrice, total: currentPrice * sellSize,
-      pnl: realizedPnl, reasoning: reason,
-    }));
-
-    if (isFullClose) {
-      const prevTotalTrades = agent.totalTrades ?? 0;
-      const newTotalTrades = prevTotalTrades + 1;
-      const newTotalPnl = (agent.totalPnl ?? 0) + realizedPnl;
-      const wins = Math.round((agent.winRate ?? 0) / 100 * prevTotalTrades) + (realizedPnl > 0 ? 1 : 0);
-      dbWrites.push(storage.updateAiAgent(agent.id, {
-        totalTrades: newTotalTrades, totalPnl: newTotalPnl,
-        winRate: newTotalTrades > 0 ? (wins / newTotalTrades) * 100 : 0,
-        dailyTradesUsed: (agent.dailyTradesUsed ?? 0) + 1, lastTradeAt: new Date(),
-      }));
-    }
+  const closePosition = (reason: string, sellPct = 100) =>
+    exitPosition(rt, agent, pos, { price: currentPrice, highestPrice, reason, sellPct, signals: tokenSignal?.signals || [] });
 
-    if (realizedPnl < 0) trackLoss(agent.id, pos.tokenSymbol, agent.strategy);
-    await Promise.all(dbWrites);
-  };
-
-  if (shouldBreakevenStop(pos.avgEntryPrice, currentPrice, highestPrice, agent.strategy)) {
-    await closePosition(`Breakeven stop: Was up ${((highestPrice - pos.avgEntryPrice) / pos.avgEntryPrice * 100).toFixed(1)}%, gave back gains - protecting capital at ${pnlPercent.toFixed(1)}%`);
-    return { action: "closed" };
+  if (shouldBreakevenStop(pos.avgEntryPrice, currentPrice, highestPrice, agent.strategy, side)) {
+    return closePosition(`Breakeven stop: Was up ${sidePnlPercent(side, pos.avgEntryPrice, highestPrice).toFixed(1)}%, gave back gains - protecting capital at ${pnlPercent.toFixed(1)}%`);
   }
 
-  const momReversal = detectMomentumReversal(tokenSignal);
+  const momReversal = detectMomentumReversal(tokenSignal, side);
   if (momReversal.reversing && momReversal.severity >= 60 && pnlPercent > -3) {
     const sellPct = momReversal.severity >= 80 ? 100 : 70;
-    await closePosition(`Momentum reversal exit (severity: ${momReversal.severity}/100) - ${sellPct}% sold at ${pnlPercent.toFixed(1)}% PnL`, sellPct);
-    return { action: "closed" };
+    return closePosition(`Momentum reversal exit (severity: ${momReversal.severity}/100) - ${sellPct}% ${side === "short" ? "covered" : "sold"} at ${pnlPercent.toFixed(1)}% PnL`, sellPct);
   }
 
   const timeDecayMinPnl = getTimeDecayExitThreshold(holdTimeHours, agent.strategy);
   if (timeDecayMinPnl > -999 && pnlPercent < timeDecayMinPnl) {
-    await closePosition(`Time-decay exit: Held ${Math.round(holdTimeHours)}h with ${pnlPercent.toFixed(1)}% PnL (min required: ${timeDecayMinPnl.toFixed(1)}%) - freeing capital for better setups`);
-    return { action: "closed" };
+    return closePosition(`Time-decay exit: Held ${Math.round(holdTimeHours)}h with ${pnlPercent.toFixed(1)}% PnL (min required: ${timeDecayMinPnl.toFixed(1)}%) - freeing capital for better setups`);
   }
 
   const { shouldSell, reason, sellPercent } = getSellSignals(
     signals, pos.avgEntryPrice, currentPrice, dynSL,
     tokenSignal?.dynamicTakeProfit ?? (agent.takeProfitPercent ?? 50),
     trailingStopPrice, pos.tokenSymbol, holdTimeHours,
-    pos.tokenAddress || undefined, pos.chain || undefined
+    pos.tokenAddress || undefined, pos.chain || undefined, side
   );
 
   if (shouldSell) {
-    await closePosition(reason, sellPercent);
-    return { action: "closed" };
+    return closePosition(reason, sellPercent);
   }
 
-  await storage.updateAgentPosition(pos.id, {
+  await rt.store.updateAgentPosition(pos.id, {
     currentPrice, highestPrice, trailingStopPrice,
-    unrealizedPnl: (currentPrice - pos.avgEntryPrice) * pos.size,
+    unrealizedPnl: sidePnl(side, pos.avgEntryPrice, currentPrice, pos.size),
     unrealizedPnlPercent: pnlPercent,
   });
   return { action: "updated" };
 }
 
-async function updateOpenPositions(agent: AiAgent, signals: TokenSignal[]): Promise<{ closed: number; updated: number }> {
-  const openPositions = await storage.getAgentPositions(agent.id, "open");
+async function updateOpenPositions(
+  rt: AgentRuntime,
+  agent: AiAgent,
+  signals: TokenSignal[],
+  custom: CompiledStrategy | null
+): Promise<{ closed: number; updated: number }> {
+  const openPositions = await rt.store.getAgentPositions(agent.id, "open");
   if (openPositions.length === 0) return { closed: 0, updated: 0 };
 
   let closed = 0;
@@ -1368,24 +1586,25 @@ async function updateOpenPositions(agent: AiAgent, signals: TokenSignal[]): Prom
   const closeQueue: AgentPosition[] = [];
 
   for (const pos of openPositions) {
+    const side = positionSide(pos);
     const tokenSignal = findTokenInSignals(signals, pos.tokenSymbol, pos.tokenAddress || undefined, pos.chain || undefined);
     const currentPrice = tokenSignal?.price || pos.currentPrice;
-    const highestPrice = Math.max(pos.highestPrice || pos.avgEntryPrice, currentPrice);
-    const pnlPercent = ((currentPrice - pos.avgEntryPrice) / pos.avgEntryPrice) * 100;
+    const highestPrice = bestPrice(side, pos.highestPrice, pos.avgEntryPrice, currentPrice);
+    const pnlPercent = sidePnlPercent(side, pos.avgEntryPrice, currentPrice);
 
     const dynSL = tokenSignal?.dynamicStopLoss ?? (agent.stopLossPercent ?? 15);
-    const holdTimeMs = Date.now() - new Date(pos.openedAt || Date.now()).getTime();
+    const holdTimeMs = rt.now() - new Date(pos.openedAt || rt.now()).getTime();
     const holdTimeHours = holdTimeMs / (1000 * 60 * 60);
 
     const needsClose =
-      shouldBreakevenStop(pos.avgEntryPrice, currentPrice, highestPrice, agent.strategy) ||
-      (detectMomentumReversal(tokenSignal).reversing && detectMomentumReversal(tokenSignal).severity >= 60 && pnlPercent > -3) ||
+      shouldBreakevenStop(pos.avgEntryPrice, currentPrice, highestPrice, agent.strategy, side) ||
+      (detectMomentumReversal(tokenSignal, side).reversing && detectMomentumReversal(tokenSignal, side).severity >= 60 && pnlPercent > -3) ||
       (getTimeDecayExitThreshold(holdTimeHours, agent.strategy) > -999 && pnlPercent < getTimeDecayExitThreshold(holdTimeHours, agent.strategy));
 
     if (needsClose) {
       closeQueue.push(pos);
     } else {
-      priceUpdates.push(processPositionUpdate(agent, pos, signals));
+      priceUpdates.push(processPositionUpdate(rt, agent, pos, signals, custom));
     }
   }
 
@@ -1398,7 +1617,7 @@ async function updateOpenPositions(agent: AiAgent, signals: TokenSignal[]): Prom
 
   for (const pos of closeQueue) {
     try {
-      const result = await processPositionUpdate(agent, pos, signals);
+      const result = await processPositionUpdate(rt, agent, pos, signals, custom);
       if (result.action === "closed") closed++;
       else updated++;
     } catch (err: any) {
@@ -1447,266 +1666,437 @@ async function executeAgentCycle(agent: AiAgent, broadcast: (data: any) => void)
     }
 
     const signals = await getCachedOrFetchSignals(agent.chain || undefined, agent.strategy);
-    const openPositions = await storage.getAgentPositions(agent.id, "open");
-    const positionUpdates = await updateOpenPositions(agent, signals);
-
-    if (positionUpdates.closed > 0) {
-      broadcast({ type: "agent_update", data: { agentId: agent.id, action: "auto_close", closedPositions: positionUpdates.closed } });
+    try {
+      await runAgentCycle(liveRuntime, agent, signals, broadcast);
+    } finally {
+      await persistAgentState(liveState, agent.id).catch(err => {
+        console.error(`[AgentState] Failed to save state for agent ${agent.id}:`, err.message);
+      });
     }
+  } catch (err: any) {
+    console.error(`Agent ${agent.id} cycle error:`, err.message);
+    storage.createAgentLog({
+      agentId: agent.id, action: "error", reasoning: err.message,
+      tokensAnalyzed: 0, decision: "error", confidence: 0,
+    }).catch(() => {});
+    // Counted in the scheduler's health report.
+    throw err;
+  }
+}
 
-    const refreshedAgent = await storage.getAiAgent(agent.id);
-    if (!refreshedAgent || refreshedAgent.status !== "running") return;
+// The pinned custom strategy version, if any. A version that cannot be loaded
+// fails the cycle rather than trading the agent on its base preset.
+async function loadCustomStrategy(rt: AgentRuntime, agent: AiAgent): Promise<CompiledStrategy | null> {
+  if (agent.customStrategyVersionId == null) return null;
+  const version = await rt.store.getCustomStrategyVersion(agent.customStrategyVersionId);
+  if (!version) throw new Error(`Custom strategy version ${agent.customStrategyVersionId} not found`);
+  return compileStrategyVersion(version);
+}
 
-    if ((refreshedAgent.dailyTradesUsed ?? 0) >= (refreshedAgent.maxDailyTrades ?? 10)) {
-      storage.createAgentLog({
-        agentId: agent.id, action: "blocked",
-        reasoning: "Daily trade limit - protecting from overtrading",
-        tokensAnalyzed: signals.length, decision: "limit_reached", confidence: 0,
-      }).catch(() => {});
-      return;
-    }
+// One decision cycle against a set of signals: manage open positions, then
+// ask the decision provider for a trade and execute it. Shared by the live
+// runner and backtests, which differ only in the runtime they pass.
+export async function runAgentCycle(rt: AgentRuntime, agent: AiAgent, signals: TokenSignal[], broadcast: (data: any) => void): Promise<void> {
+  const custom = await loadCustomStrategy(rt, agent);
+  const positionUpdates = await updateOpenPositions(rt, agent, signals, custom);
 
-    const currentOpenPositions = await storage.getAgentPositions(agent.id, "open");
-    const decision = await makeAgentDecision(refreshedAgent, signals, currentOpenPositions);
+  if (positionUpdates.closed > 0) {
+    broadcast({ type: "agent_update", data: { agentId: agent.id, action: "auto_close", closedPositions: positionUpdates.closed } });
+  }
 
-    const topSignal = signals[0];
-    storage.createAgentLog({
-      agentId: agent.id,
-      action: decision.action,
-      reasoning: decision.reasoning,
-      tokensAnalyzed: signals.length,
-      decision: JSON.stringify(decision),
-      confidence: decision.confidence,
-      marketContext: `Chain: ${agent.chain} | Strat: ${agent.strategy} | Regime: ${topSignal?.marketRegime || "neutral"} | Signals: ${signals.length} | Top: ${topSignal?.symbol || '-'} (sig:${topSignal?.overallSignalScore || 0}, conv:${topSignal?.conviction || 0}, whale:${topSignal?.whaleActivity || '-'})`,
+  const refreshedAgent = await rt.store.getAiAgent(agent.id);
+  if (!refreshedAgent || refreshedAgent.status !== "running") return;
+
+  if ((refreshedAgent.dailyTradesUsed ?? 0) >= (refreshedAgent.maxDailyTrades ?? 10)) {
+    rt.store.createAgentLog({
+      agentId: agent.id, action: "blocked",
+      reasoning: "Daily trade limit - protecting from overtrading",
+      tokensAnalyzed: signals.length, decision: "limit_reached", confidence: 0,
     }).catch(() => {});
+    return;
+  }
 
-    if (decision.action === "hold" || !decision.tokenSymbol) {
-      broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: decision.reasoning } });
-      return;
+  const quota = refreshedAgent.userId && rt.checkTradeQuota ? await rt.checkTradeQuota(refreshedAgent.userId) : null;
+  if (quota && !quota.allowed) {
+    rt.store.createAgentLog({
+      agentId: agent.id, action: "blocked",
+      reasoning: `Plan daily trade limit reached (${quota.used}/${quota.limit} on ${quota.tier})`,
+      tokensAnalyzed: signals.length, decision: "plan_limit", confidence: 0,
+    }).catch(() => {});
+    return;
+  }
+
+  const currentOpenPositions = await rt.store.getAgentPositions(agent.id, "open");
+  const explanation = createDecisionExplanation({
+    time: rt.now(),
+    strategy: agent.strategy,
+    customStrategy: custom?.label ?? null,
+    openPositions: currentOpenPositions.length,
+  }, signals);
+  addCheck(explanation, "Daily trade limit", true, `${refreshedAgent.dailyTradesUsed ?? 0}/${refreshedAgent.maxDailyTrades ?? 10} trades used`);
+  if (quota) addCheck(explanation, "Plan trade quota", true, `${quota.used}/${quota.limit} on ${quota.tier}`);
+
+  const decision = await makeAgentDecision(rt, refreshedAgent, signals, currentOpenPositions, custom, explanation);
+
+  const topSignal = signals[0];
+  const decisionLog = rt.store.createAgentLog({
+    agentId: agent.id,
+    action: decision.action,
+    reasoning: decision.reasoning,
+    tokensAnalyzed: signals.length,
+    decision: JSON.stringify(decision),
+    confidence: decision.confidence,
+    marketContext: `Chain: ${agent.chain} | Strat: ${custom ? `${agent.strategy}+${custom.label}` : agent.strategy} | Regime: ${topSignal?.marketRegime || "neutral"} | Signals: ${signals.length} | Top: ${topSignal?.symbol || '-'} (sig:${topSignal?.overallSignalScore || 0}, conv:${topSignal?.conviction || 0}, whale:${topSignal?.whaleActivity || '-'})`,
+  }).catch(() => null);
+
+  try {
+    await executeDecision(rt, agent, refreshedAgent, decision, { signals, currentOpenPositions, custom, explanation }, broadcast);
+  } finally {
+    if (rt.recordExplanation) {
+      settleExplanation(explanation, decision);
+      const log = await decisionLog;
+      if (log) rt.recordExplanation(log, explanation);
     }
+  }
+}
 
-    const tokenSignal = findTokenInSignals(signals, decision.tokenSymbol, decision.tokenAddress, decision.chain);
-    const tradePrice = tokenSignal?.price || 0;
+interface DecisionContext {
+  signals: TokenSignal[];
+  currentOpenPositions: AgentPosition[];
+  custom: CompiledStrategy | null;
+  explanation: DecisionExplanation;
+}
 
-    if (tradePrice <= 0) {
-      storage.createAgentLog({
-        agentId: agent.id, action: "skipped",
-        reasoning: `Token ${decision.tokenSymbol} price invalid or not found`,
-        tokensAnalyzed: signals.length, decision: "price_invalid", confidence: 0,
+// Carries out the decision: the cycle's risk checks, then the fill and the
+// bookkeeping. Each check is recorded on the explanation as it runs.
+async function executeDecision(
+  rt: AgentRuntime,
+  agent: AiAgent,
+  refreshedAgent: AiAgent,
+  decision: AgentDecision,
+  { signals, currentOpenPositions, custom, explanation }: DecisionContext,
+  broadcast: (data: any) => void
+): Promise<void> {
+  if (decision.action === "hold" || !decision.tokenSymbol) {
+    broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: decision.reasoning } });
+    return;
+  }
+
+  const tokenSignal = findTokenInSignals(signals, decision.tokenSymbol, decision.tokenAddress, decision.chain);
+  const tradePrice = tokenSignal?.price || 0;
+
+  if (tradePrice <= 0) {
+    addCheck(explanation, "Price", false, `Token ${decision.tokenSymbol} price invalid or not found`);
+    rt.store.createAgentLog({
+      agentId: agent.id, action: "skipped",
+      reasoning: `Token ${decision.tokenSymbol} price invalid or not found`,
+      tokensAnalyzed: signals.length, decision: "price_invalid", confidence: 0,
+    }).catch(() => {});
+    return;
+  }
+
+  addCheck(explanation, "Price", true, `$${tradePrice.toPrecision(6)}`);
+
+  if (decision.action === "buy" || decision.action === "short") {
+    const side: PositionSide = decision.action === "short" ? "short" : "long";
+    // decision.amount is native to spend; positions and portfolio limits are
+    // tokens and USD, converted at this price.
+    const nativePriceUsd = await rt.nativePrice(decision.chain || agent.chain || "solana");
+    const tokenPositions = currentOpenPositions.filter(p => p.tokenSymbol.toUpperCase() === decision.tokenSymbol.toUpperCase());
+    const opposite = tokenPositions.find(p => positionSide(p) !== side);
+    if (opposite) {
+      const reason = `Cannot ${decision.action} ${decision.tokenSymbol} - a ${positionSide(opposite)} position is open, close it first`;
+      addCheck(explanation, "Opposite position", false, reason);
+      rt.store.createAgentLog({
+        agentId: agent.id, action: "blocked",
+        reasoning: reason,
+        tokensAnalyzed: signals.length, decision: "opposite_position", confidence: 0,
       }).catch(() => {});
+      broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: reason } });
       return;
     }
 
-    if (decision.action === "buy") {
-      const maxPos = MAX_POSITIONS_BY_STRATEGY[agent.strategy] ?? 5;
-      const existingPosition = currentOpenPositions.find(p => p.tokenSymbol.toUpperCase() === decision.tokenSymbol.toUpperCase());
-      if (!existingPosition && currentOpenPositions.length >= maxPos) {
-        storage.createAgentLog({
+    const maxPos = custom?.maxPositions ?? MAX_POSITIONS_BY_STRATEGY[agent.strategy] ?? 5;
+    const existingPosition = tokenPositions.find(p => positionSide(p) === side);
+    if (!existingPosition && currentOpenPositions.length >= maxPos) {
+      addCheck(explanation, "Max positions", false, `Max ${maxPos} positions for ${custom?.label ?? agent.strategy} strategy - must close one first`);
+      rt.store.createAgentLog({
+        agentId: agent.id, action: "blocked",
+        reasoning: `Max ${maxPos} positions for ${custom?.label ?? agent.strategy} strategy - must close one first`,
+        tokensAnalyzed: signals.length, decision: "max_positions", confidence: 0,
+      }).catch(() => {});
+      broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: `Max positions (${maxPos}) reached` } });
+      return;
+    }
+    addCheck(explanation, "Max positions", true, existingPosition
+      ? `Adds to the open ${existingPosition.tokenSymbol} position`
+      : `${currentOpenPositions.length}/${maxPos} open`);
+
+    if (!existingPosition && currentOpenPositions.length >= 2) {
+      const targetChain = decision.chain || agent.chain || "solana";
+      const sameChainPositions = currentOpenPositions.filter(p => p.chain === targetChain);
+      const maxPerChain = Math.max(2, Math.ceil(maxPos * 0.6));
+      if (sameChainPositions.length >= maxPerChain) {
+        addCheck(explanation, "Chain concentration", false, `Chain concentration limit: ${sameChainPositions.length}/${maxPerChain} positions on ${targetChain} - diversify across chains`);
+        rt.store.createAgentLog({
           agentId: agent.id, action: "blocked",
-          reasoning: `Max ${maxPos} positions for ${agent.strategy} strategy - must close one first`,
-          tokensAnalyzed: signals.length, decision: "max_positions", confidence: 0,
+          reasoning: `Chain concentration limit: ${sameChainPositions.length}/${maxPerChain} positions on ${targetChain} - diversify across chains`,
+          tokensAnalyzed: signals.length, decision: "chain_concentration", confidence: 0,
         }).catch(() => {});
-        broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: `Max positions (${maxPos}) reached` } });
+        broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: `Too concentrated on ${targetChain}` } });
         return;
       }
-
-      if (!existingPosition && currentOpenPositions.length >= 2) {
-        const targetChain = decision.chain || agent.chain || "solana";
-        const sameChainPositions = currentOpenPositions.filter(p => p.chain === targetChain);
-        const maxPerChain = Math.max(2, Math.ceil(maxPos * 0.6));
-        if (sameChainPositions.length >= maxPerChain) {
-          storage.createAgentLog({
+      addCheck(explanation, "Chain concentration", true, `${sameChainPositions.length}/${maxPerChain} positions on ${targetChain}`);
+
+      if (tokenSignal) {
+        const targetMom = tokenSignal.momentumScore;
+        const targetBuyP = tokenSignal.buyPressureScore;
+        const correlatedCount = currentOpenPositions.filter(p => {
+          const posSignal = findTokenInSignals(signals, p.tokenSymbol, p.tokenAddress || undefined, p.chain || undefined);
+          if (!posSignal) return false;
+          const momDiff = Math.abs(posSignal.momentumScore - targetMom);
+          const buyPDiff = Math.abs(posSignal.buyPressureScore - targetBuyP);
+          return momDiff < 12 && buyPDiff < 10 && posSignal.chain === targetChain;
+        }).length;
+
+        if (correlatedCount >= 2) {
+          addCheck(explanation, "Correlation", false, `Correlation risk: ${correlatedCount} similar positions on ${targetChain} - need diversified exposure`);
+          rt.store.createAgentLog({
             agentId: agent.id, action: "blocked",
-            reasoning: `Chain concentration limit: ${sameChainPositions.length}/${maxPerChain} positions on ${targetChain} - diversify across chains`,
-            tokensAnalyzed: signals.length, decision: "chain_concentration", confidence: 0,
+            reasoning: `Correlation risk: ${correlatedCount} similar positions on ${targetChain} - need diversified exposure`,
+            tokensAnalyzed: signals.length, decision: "correlation_limit", confidence: 0,
           }).catch(() => {});
-          broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: `Too concentrated on ${targetChain}` } });
+          broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: "Too many correlated positions" } });
           return;
         }
+        addCheck(explanation, "Correlation", true, `${correlatedCount} similar position(s) on ${targetChain}`);
+      }
 
-        if (tokenSignal) {
-          const targetMom = tokenSignal.momentumScore;
-          const targetBuyP = tokenSignal.buyPressureScore;
-          const correlatedCount = currentOpenPositions.filter(p => {
-            const posSignal = findTokenInSignals(signals, p.tokenSymbol, p.tokenAddress || undefined, p.chain || undefined);
-            if (!posSignal) return false;
-            const momDiff = Math.abs(posSignal.momentumScore - targetMom);
-            const buyPDiff = Math.abs(posSignal.buyPressureScore - targetBuyP);
-            return momDiff < 12 && buyPDiff < 10 && posSignal.chain === targetChain;
-          }).length;
-
-          if (correlatedCount >= 2) {
-            storage.createAgentLog({
-              agentId: agent.id, action: "blocked",
-              reasoning: `Correlation risk: ${correlatedCount} similar positions on ${targetChain} - need diversified exposure`,
-              tokensAnalyzed: signals.length, decision: "correlation_limit", confidence: 0,
-            }).catch(() => {});
-            broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: "Too many correlated positions" } });
-            return;
-          }
-        }
-
-        const totalExposure = currentOpenPositions.reduce((sum, p) => sum + p.size, 0);
-        const maxTotalExposure = (agent.maxPositionSize ?? 1) * maxPos * 0.8;
-        if (totalExposure + decision.amount > maxTotalExposure) {
-          const reducedAmount = Math.max(0.01, maxTotalExposure - totalExposure);
-          decision.amount = Math.min(decision.amount, reducedAmount);
-        }
+      const totalExposure = currentOpenPositions.reduce((sum, p) => sum + p.size * p.currentPrice, 0) / nativePriceUsd;
+      const maxTotalExposure = (agent.maxPositionSize ?? 1) * maxPos * 0.8;
+      if (totalExposure + decision.amount > maxTotalExposure) {
+        const reducedAmount = Math.max(0.01, maxTotalExposure - totalExposure);
+        decision.amount = Math.min(decision.amount, reducedAmount);
+        addSizingStep(explanation, "Agent exposure cap", decision.amount);
       }
+    }
 
-      const cooldown = cooldownTracker.get(agent.id);
-      if (cooldown && cooldown.cyclesRemaining > 0) {
-        cooldown.cyclesRemaining--;
-        cooldownTracker.set(agent.id, cooldown);
-        storage.createAgentLog({
+    const cooldown = rt.state.cooldownTracker.get(agent.id);
+    if (cooldown && cooldown.cyclesRemaining > 0) {
+      cooldown.cyclesRemaining--;
+      rt.state.cooldownTracker.set(agent.id, cooldown);
+      addCheck(explanation, "Loss streak cooldown", false, `Loss streak cooldown: ${cooldown.cyclesRemaining + 1} cycles remaining`);
+      rt.store.createAgentLog({
+        agentId: agent.id, action: "blocked",
+        reasoning: `Loss streak cooldown: ${cooldown.cyclesRemaining + 1} cycles remaining`,
+        tokensAnalyzed: signals.length, decision: "cooldown", confidence: 0,
+      }).catch(() => {});
+      broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: "Loss streak cooldown active" } });
+      return;
+    }
+    addCheck(explanation, "Loss streak cooldown", true, "No cooldown");
+
+    if (refreshedAgent.userId && rt.checkPortfolioRisk) {
+      const risk = await rt.checkPortfolioRisk(refreshedAgent, {
+        tokenSymbol: decision.tokenSymbol,
+        tokenAddress: tokenSignal?.address || decision.tokenAddress,
+        chain: decision.chain || agent.chain || "solana",
+      });
+      const maxAmount = risk.headroom / nativePriceUsd;
+      if (maxAmount < 0.01) {
+        addCheck(explanation, "Portfolio risk", false, `Portfolio risk: ${risk.reason}`);
+        rt.store.createAgentLog({
           agentId: agent.id, action: "blocked",
-          reasoning: `Loss streak cooldown: ${cooldown.cyclesRemaining + 1} cycles remaining`,
-          tokensAnalyzed: signals.length, decision: "cooldown", confidence: 0,
+          reasoning: `Portfolio risk: ${risk.reason}`,
+          tokensAnalyzed: signals.length, decision: risk.decision, confidence: 0,
         }).catch(() => {});
-        broadcast({ type: "agent_update", data: { agentId: agent.id, action: "hold", reasoning: "Loss streak cooldown active" } });
+        broadcast({ type: "agent_update", data: { agentId: agent.id, action: "risk_blocked", reasoning: risk.reason } });
         return;
       }
+      addCheck(explanation, "Portfolio risk", true, risk.reason ?? "No exposure limits");
+      if (maxAmount < decision.amount) {
+        decision.amount = maxAmount;
+        addSizingStep(explanation, "Portfolio headroom", decision.amount);
+      }
+    }
 
-      const dynSL = tokenSignal?.dynamicStopLoss ?? (agent.stopLossPercent ?? 15);
-      const dynTP = tokenSignal?.dynamicTakeProfit ?? (agent.takeProfitPercent ?? 50);
-
-      const positionPromise = existingPosition
-        ? storage.updateAgentPosition(existingPosition.id, {
-            size: existingPosition.size + decision.amount,
-            avgEntryPrice: ((existingPosition.avgEntryPrice * existingPosition.size) + (tradePrice * decision.amount)) / (existingPosition.size + decision.amount),
-            currentPrice: tradePrice,
-            highestPrice: Math.max(existingPosition.highestPrice || tradePrice, tradePrice),
-          })
-        : storage.createAgentPosition({
-            agentId: agent.id,
-            tokenId: typeof tokenSignal?.id === "number" ? tokenSignal.id : null,
-            tokenAddress: tokenSignal?.address || decision.tokenAddress,
-            tokenSymbol: decision.tokenSymbol,
-            chain: decision.chain || agent.chain || "solana",
-            side: "long",
-            size: decision.amount,
-            avgEntryPrice: tradePrice,
-            currentPrice: tradePrice,
-            highestPrice: tradePrice,
-            stopLossPrice: tradePrice * (1 - dynSL / 100),
-            takeProfitPrice: tradePrice * (1 + dynTP / 100),
-            status: "open",
-          });
+    const dynSL = tokenSignal?.dynamicStopLoss ?? (agent.stopLossPercent ?? 15);
+    const dynTP = tokenSignal?.dynamicTakeProfit ?? (agent.takeProfitPercent ?? 50);
 
-      await Promise.all([
-        positionPromise,
-        storage.createAgentTrade({
+    const target = {
+      tokenAddress: tokenSignal?.address || decision.tokenAddress,
+      chain: decision.chain || agent.chain || "solana",
+    };
+    const fill = side === "short"
+      ? await rt.fills.short(refreshedAgent, target, decision.amount, tradePrice)
+      : await rt.fills.buy(refreshedAgent, target, decision.amount, tradePrice);
+    if (fill.status === "failed") {
+      const verb = side === "short" ? "Short" : "Buy";
+      addCheck(explanation, "Execution", false, `${verb} ${decision.tokenSymbol} failed (${fill.mode}): ${fill.error}`);
+      rt.store.createAgentLog({
+        agentId: agent.id, action: "failed",
+        reasoning: `${verb} ${decision.tokenSymbol} failed (${fill.mode}): ${fill.error}`,
+        tokensAnalyzed: signals.length, decision: "execution_failed", confidence: 0,
+      }).catch(() => {});
+      broadcast({ type: "agent_update", data: { agentId: agent.id, action: "execution_failed", reasoning: fill.error } });
+      return;
+    }
+    const fillPrice = fill.price;
+    explanation.fill = { mode: fill.mode, price: fillPrice, size: fill.size, txHash: fill.txHash };
+
+    const positionPromise = existingPosition
+      ? rt.store.updateAgentPosition(existingPosition.id, {
+          size: existingPosition.size + fill.size,
+          avgEntryPrice: ((existingPosition.avgEntryPrice * existingPosition.size) + (fillPrice * fill.size)) / (existingPosition.size + fill.size),
+          currentPrice: fillPrice,
+          highestPrice: bestPrice(side, existingPosition.highestPrice, fillPrice, fillPrice),
+        })
+      : rt.store.createAgentPosition({
           agentId: agent.id,
-          tokenId: typeof tokenSignal?.id === "number" ? tokenSignal.id : 0,
-          type: "buy",
-          amount: decision.amount,
-          price: tradePrice,
-          total: decision.amount * tradePrice,
-          pnl: 0,
-          reasoning: decision.reasoning,
-        }),
-        storage.updateAiAgent(agent.id, {
-          dailyTradesUsed: (refreshedAgent.dailyTradesUsed ?? 0) + 1,
-          lastTradeAt: new Date(),
-        }),
-      ]);
+          tokenId: typeof tokenSignal?.id === "number" ? tokenSignal.id : null,
+          tokenAddress: tokenSignal?.address || decision.tokenAddress,
+          tokenSymbol: decision.tokenSymbol,
+          chain: decision.chain || agent.chain || "solana",
+          side,
+          size: fill.size,
+          avgEntryPrice: fillPrice,
+          currentPrice: fillPrice,
+          highestPrice: fillPrice,
+          stopLossPrice: stopBelow(side, fillPrice, fillPrice * dynSL / 100),
+          takeProfitPrice: stopBelow(side, fillPrice, -fillPrice * dynTP / 100),
+          status: "open",
+        });
+
+    await Promise.all([
+      positionPromise,
+      rt.store.createAgentTrade({
+        agentId: agent.id,
+        tokenId: typeof tokenSignal?.id === "number" ? tokenSignal.id : 0,
+        type: openTradeType(side),
+        amount: fill.size,
+        price: fillPrice,
+        total: fill.size * fillPrice,
+        pnl: 0,
+        reasoning: decision.reasoning,
+        mode: fill.mode,
+        txHash: fill.txHash,
+      }),
+      rt.store.updateAiAgent(agent.id, {
+        dailyTradesUsed: (refreshedAgent.dailyTradesUsed ?? 0) + 1,
+        lastTradeAt: new Date(rt.now()),
+      }),
+    ]);
+
+    recordTradeEntry(
+      rt,
+      tokenSignal,
+      learningSignals(side, tokenSignal?.signals || []),
+      agent.strategy,
+      fillPrice,
+      tokenSignal?.marketRegime || "neutral"
+    );
 
-      recordTradeEntry(
-        tokenSignal,
-        tokenSignal?.signals || [],
-        agent.strategy,
-        tradePrice,
-        tokenSignal?.marketRegime || "neutral"
-      );
+    broadcast({
+      type: "agent_trade",
+      data: {
+        agentId: agent.id, agentName: agent.name, action: decision.action,
+        tokenSymbol: decision.tokenSymbol, amount: fill.size, price: fillPrice,
+        mode: fill.mode, txHash: fill.txHash, explorerUrl: fill.explorerUrl,
+        confidence: decision.confidence, signalScore: decision.signalScore,
+        conviction: tokenSignal?.conviction || 0, rugRisk: tokenSignal?.rugRiskScore || 0,
+        whaleActivity: tokenSignal?.whaleActivity || "neutral",
+        volatility: tokenSignal?.volatility || 0,
+        dynamicSL: tokenSignal?.dynamicStopLoss || 0,
+        dynamicTP: tokenSignal?.dynamicTakeProfit || 0,
+        reasoning: decision.reasoning,
+      },
+    });
+  } else if (decision.action === "sell" || decision.action === "cover") {
+    // "sell" closes a long and "cover" closes a short.
+    const side: PositionSide = decision.action === "cover" ? "short" : "long";
+    const position = currentOpenPositions.find(p =>
+      p.tokenSymbol.toUpperCase() === decision.tokenSymbol.toUpperCase() && positionSide(p) === side
+    );
+    if (!position) {
+      addCheck(explanation, "Open position", false, `Cannot ${decision.action} ${decision.tokenSymbol} - no open ${side} position`);
+      rt.store.createAgentLog({
+        agentId: agent.id, action: "skipped",
+        reasoning: `Cannot ${decision.action} ${decision.tokenSymbol} - no open ${side} position`,
+        tokensAnalyzed: signals.length, decision: "no_position", confidence: 0,
+      }).catch(() => {});
+      return;
+    }
 
-      broadcast({
-        type: "agent_trade",
-        data: {
-          agentId: agent.id, agentName: agent.name, action: "buy",
-          tokenSymbol: decision.tokenSymbol, amount: decision.amount, price: tradePrice,
-          confidence: decision.confidence, signalScore: decision.signalScore,
-          conviction: tokenSignal?.conviction || 0, rugRisk: tokenSignal?.rugRiskScore || 0,
-          whaleActivity: tokenSignal?.whaleActivity || "neutral",
-          volatility: tokenSignal?.volatility || 0,
-          dynamicSL: tokenSignal?.dynamicStopLoss || 0,
-          dynamicTP: tokenSignal?.dynamicTakeProfit || 0,
-          reasoning: decision.reasoning,
-        },
-      });
-    } else if (decision.action === "sell") {
-      const position = currentOpenPositions.find(p => p.tokenSymbol.toUpperCase() === decision.tokenSymbol.toUpperCase());
-      if (!position) {
-        storage.createAgentLog({
-          agentId: agent.id, action: "skipped",
-          reasoning: `Cannot sell ${decision.tokenSymbol} - no open position`,
-          tokensAnalyzed: signals.length, decision: "no_position", confidence: 0,
-        }).catch(() => {});
-        return;
-      }
+    addCheck(explanation, "Open position", true, `${position.size} ${position.tokenSymbol} ${side === "short" ? "short" : "held"}`);
 
-      const sellAmount = Math.min(decision.amount, position.size);
-      const realizedPnl = (tradePrice - position.avgEntryPrice) * sellAmount;
-      const aiSellPnlPercent = ((tradePrice - position.avgEntryPrice) / position.avgEntryPrice) * 100;
-      const isFullClose = sellAmount >= position.size * 0.95;
-
-      const dbWrites: Promise<unknown>[] = [];
-
-      if (isFullClose) {
-        dbWrites.push(storage.closeAgentPosition(position.id, tradePrice, realizedPnl));
-        dbWrites.push(recordTradeExit(tokenSignal?.signals || [], refreshedAgent.strategy, position.avgEntryPrice, tradePrice));
-        updateAgentTracker(agent.id, aiSellPnlPercent);
-      } else {
-        dbWrites.push(storage.updateAgentPosition(position.id, {
-          size: position.size - sellAmount,
-          currentPrice: tradePrice,
-          realizedPnl: (position.realizedPnl ?? 0) + realizedPnl,
-        }));
-      }
+    const fill = await closeFill(rt, refreshedAgent, position, Math.min(decision.amount, position.size), tradePrice);
+    if (fill.status === "failed") {
+      addCheck(explanation, "Execution", false, `${side === "short" ? "Cover" : "Sell"} ${decision.tokenSymbol} failed (${fill.mode}): ${fill.error}`);
+      await handleFailedSell(rt, refreshedAgent, position, fill, tradePrice);
+      broadcast({ type: "agent_update", data: { agentId: agent.id, action: "execution_failed", reasoning: fill.error } });
+      return;
+    }
 
-      dbWrites.push(storage.createAgentTrade({
-        agentId: agent.id, tokenId: position.tokenId || 0,
-        type: "sell", amount: sellAmount, price: tradePrice,
-        total: sellAmount * tradePrice, pnl: realizedPnl, reasoning: decision.reasoning,
-      }));
+    const sellAmount = fill.size;
+    const exitPrice = fill.price;
+    explanation.fill = { mode: fill.mode, price: exitPrice, size: sellAmount, txHash: fill.txHash };
+    const realizedPnl = sidePnl(side, position.avgEntryPrice, exitPrice, sellAmount);
+    const aiSellPnlPercent = sidePnlPercent(side, position.avgEntryPrice, exitPrice);
+    const isFullClose = fill.remaining <= position.size * 0.05;
 
-      if (isFullClose) {
-        const prevTotalTrades = refreshedAgent.totalTrades ?? 0;
-        const prevTotalPnl = refreshedAgent.totalPnl ?? 0;
-        const newTotalTrades = prevTotalTrades + 1;
-        const newTotalPnl = prevTotalPnl + realizedPnl;
-        const wins = Math.round((refreshedAgent.winRate ?? 0) / 100 * prevTotalTrades) + (realizedPnl > 0 ? 1 : 0);
-        const newWinRate = newTotalTrades > 0 ? (wins / newTotalTrades) * 100 : 0;
-
-        dbWrites.push(storage.updateAiAgent(agent.id, {
-          totalTrades: newTotalTrades,
-          totalPnl: newTotalPnl,
-          winRate: newWinRate,
-          dailyTradesUsed: (refreshedAgent.dailyTradesUsed ?? 0) + 1,
-          lastTradeAt: new Date(),
-        }));
-      }
+    const dbWrites: Promise<unknown>[] = [];
 
-      if (realizedPnl < 0) {
-        trackLoss(agent.id, decision.tokenSymbol, refreshedAgent.strategy);
-      }
+    if (isFullClose) {
+      dbWrites.push(rt.store.closeAgentPosition(position.id, exitPrice, realizedPnl));
+      dbWrites.push(recordTradeExit(rt, tokenSignal?.signals || [], refreshedAgent.strategy, position.avgEntryPrice, exitPrice, side));
+      updateAgentTracker(rt, agent.id, aiSellPnlPercent);
+    } else {
+      dbWrites.push(rt.store.updateAgentPosition(position.id, {
+        size: fill.remaining,
+        currentPrice: tradePrice,
+        realizedPnl: (position.realizedPnl ?? 0) + realizedPnl,
+      }));
+    }
 
-      await Promise.all(dbWrites);
+    dbWrites.push(rt.store.createAgentTrade({
+      agentId: agent.id, tokenId: position.tokenId || 0,
+      type: closeTradeType(side), amount: sellAmount, price: exitPrice,
+      total: sellAmount * exitPrice, pnl: realizedPnl, reasoning: decision.reasoning,
+      mode: fill.mode, txHash: fill.txHash,
+    }));
 
-      broadcast({
-        type: "agent_trade",
-        data: {
-          agentId: agent.id, agentName: agent.name, action: "sell",
-          tokenSymbol: decision.tokenSymbol, amount: sellAmount, price: tradePrice,
-          pnl: realizedPnl, confidence: decision.confidence, reasoning: decision.reasoning,
-        },
-      });
+    if (isFullClose) {
+      const prevTotalTrades = refreshedAgent.totalTrades ?? 0;
+      const prevTotalPnl = refreshedAgent.totalPnl ?? 0;
+      const newTotalTrades = prevTotalTrades + 1;
+      const newTotalPnl = prevTotalPnl + realizedPnl;
+      const wins = Math.round((refreshedAgent.winRate ?? 0) / 100 * prevTotalTrades) + (realizedPnl > 0 ? 1 : 0);
+      const newWinRate = newTotalTrades > 0 ? (wins / newTotalTrades) * 100 : 0;
+
+      dbWrites.push(rt.store.updateAiAgent(agent.id, {
+        totalTrades: newTotalTrades,
+        totalPnl: newTotalPnl,
+        winRate: newWinRate,
+        dailyTradesUsed: (refreshedAgent.dailyTradesUsed ?? 0) + 1,
+        lastTradeAt: new Date(rt.now()),
+      }));
     }
-  } catch (err: any) {
-    console.error(`Agent ${agent.id} cycle error:`, err.message);
-    storage.createAgentLog({
-      agentId: agent.id, action: "error", reasoning: err.message,
-      tokensAnalyzed: 0, decision: "error", confidence: 0,
-    }).catch(() => {});
+
+    if (realizedPnl < 0) {
+      trackLoss(rt, agent.id, decision.tokenSymbol, refreshedAgent.strategy);
+    }
+
+    await Promise.all(dbWrites);
+
+    broadcast({
+      type: "agent_trade",
+      data: {
+        agentId: agent.id, agentName: agent.name, action: decision.action,
+        tokenSymbol: decision.tokenSymbol, amount: sellAmount, price: exitPrice,
+        mode: fill.mode, txHash: fill.txHash, explorerUrl: fill.explorerUrl,
+        pnl: realizedPnl, confidence: decision.confidence, reasoning: decision.reasoning,
+      },
+    });
   }
 }
 
@@ -1730,28 +2120,156 @@ function setCachedSignals(chain: string | undefined, strategy: string, signals:
   signalCache.set(key, { signals, timestamp: Date.now() });
 }
 
-async function getCachedOrFetchSignals(chain: string | undefined, strategy: string): Promise<TokenSignal[]> {
-  const cached = getCachedSignals(chain, strategy);
-  if (cached) return cached;
+// Every signal set the runner computes is cached for the group and recorded
+// as a market snapshot, so each agent cycle can be replayed later.
+async function fetchSignals(chain: string | undefined, strategy: string): Promise<TokenSignal[]> {
   const signals = await getMarketSignals(chain, strategy);
+  recordMarketSnapshot(signals, {
+    chain: chain || "all",
+    strategy,
+    breadth: getLastMarketBreadth(),
+    fearGreed: getFearGreedSignal(),
+  });
   setCachedSignals(chain, strategy, signals);
   return signals;
 }
 
-export function startAgentRunner(broadcast: (data: any) => void): void {
+export async function getCachedOrFetchSignals(chain: string | undefined, strategy: string): Promise<TokenSignal[]> {
+  const cached = getCachedSignals(chain, strategy);
+  if (cached) return cached;
+  return fetchSignals(chain, strategy);
+}
+
+// Drops the agents whose owner hit a daily-loss or drawdown limit this cycle;
+// the risk manager has already stopped them.
+async function withinPortfolioLimits(agents: AiAgent[]): Promise<AiAgent[]> {
+  const byUser = new Map<string, AiAgent[]>();
+  for (const agent of agents) {
+    if (!agent.userId) continue;
+    const owned = byUser.get(agent.userId) || [];
+    owned.push(agent);
+    byUser.set(agent.userId, owned);
+  }
+
+  const halted = new Set<string>();
+  await Promise.all(Array.from(byUser.entries()).map(async ([userId, owned]) => {
+    try {
+      if (await enforcePortfolioRisk(userId, owned, data => sendToUser(userId, data))) halted.add(userId);
+    } catch (err: any) {
+      console.error(`[Risk] Portfolio check failed for user ${userId}:`, err.message);
+    }
+  }));
+  return agents.filter(a => !a.userId || !halted.has(a.userId));
+}
+
+// Stops all of the user's agents and closes every open position, long or
+// short, at its last marked price. Each agent is closed out under its cycle
+// lease, so a cycle in flight finishes first. Positions whose sell fails, or
+// whose agent stays busy, stay open and are counted in `remaining`.
+export async function flattenUserAgents(userId: string, broadcast: (data: any) => void): Promise<{ closed: number; remaining: number }> {
+  const agents = await storage.getAiAgents(userId);
+  await haltAgents(agents.filter(a => a.status === "running"), "Flatten all: stopped by owner", "flatten_all", broadcast);
+
+  let closed = 0;
+  let remaining = 0;
+  for (const agent of agents) {
+    let agentClosed = 0;
+    try {
+      await withAgentLease(agent.id, async () => {
+        const positions = await storage.getAgentPositions(agent.id, "open");
+        for (const pos of positions) {
+          try {
+            // Each close updates the agent's totals, so re-read them first.
+            const current = (await storage.getAiAgent(agent.id)) ?? agent;
+            const result = await exitPosition(liveRuntime, current, pos, {
+              price: pos.currentPrice,
+              highestPrice: bestPrice(positionSide(pos), pos.highestPrice, pos.avgEntryPrice, pos.currentPrice),
+              reason: "Flatten all: closed by owner",
+            });
+            if (result.action === "closed") agentClosed++;
+            else remaining++;
+          } catch (err: any) {
+            console.error(`[Risk] Flatten failed for position ${pos.id}:`, err.message);
+            remaining++;
+          }
+        }
+      });
+    } catch (err: any) {
+      console.error(`[Risk] Flatten skipped agent ${agent.id}:`, err.message);
+      remaining += (await storage.getAgentPositions(agent.id, "open")).length;
+    }
+    if (agentClosed > 0) {
+      broadcast({ type: "agent_update", data: { agentId: agent.id, action: "auto_close", closedPositions: agentClosed } });
+    }
+    closed += agentClosed;
+  }
+  return { closed, remaining };
+}
+
+// Sells a long position outright, at `slippageBps` when the agent trades
+// live. Used by the rug watchdog, so like a flatten it is kept out of the
+// strategy's learning. Runs under the agent's cycle lease; a position the
+// cycle closed in the meantime is skipped.
+export async function emergencyExitAgentPosition(
+  pos: AgentPosition,
+  reason: string,
+  slippageBps: number,
+  broadcast: (data: any) => void
+): Promise<"closed" | "updated" | "skipped"> {
+  return withAgentLease(pos.agentId, async () => {
+    const agent = await storage.getAiAgent(pos.agentId);
+    const current = await storage.getAgentPosition(pos.id);
+    if (!agent || !current || current.status !== "open" || positionSide(current) !== "long") return "skipped";
+    const result = await exitPosition(liveRuntime, agent, current, {
+      price: current.currentPrice,
+      highestPrice: bestPrice("long", current.highestPrice, current.avgEntryPrice, current.currentPrice),
+      reason,
+      slippageBps,
+    });
+    broadcast({ type: "agent_update", data: { agentId: agent.id, action: "emergency_exit", reasoning: reason } });
+    return result.action;
+  });
+}
+
+// Every instance ticks on its own timer. Agents are handed out through
+// leases (see agent-scheduler.ts), so with several replicas each agent still
+// cycles once per interval, on whichever instance claims it first. Agent
+// updates go only to the agent's owner.
+export function startAgentRunner(): void {
   if (agentInterval) return;
 
   loadSignalPerformanceFromDB().catch(() => {});
+  refreshAgentStates(liveState)
+    .then(restored => console.log(`[AgentState] Restored state for ${restored} agent(s)`))
+    .catch(err => console.error("[AgentState] Failed to restore agent state:", err.message));
 
   agentInterval = setInterval(async () => {
     if (cycleRunning) return;
     cycleRunning = true;
     const cycleStart = Date.now();
+    const errors: string[] = [];
+    let claimed: AiAgent[] = [];
     try {
-      const activeAgents = await storage.getActiveAgents();
-      if (activeAgents.length === 0) { cycleRunning = false; return; }
+      await runLeaderDuties(cycleStart).catch(err => {
+        errors.push(`Leader duties: ${err.message}`);
+        console.error("[Scheduler] Leader duties failed:", err.message);
+      });
+
+      const runningAgents = await storage.getActiveAgents();
+      if (runningAgents.length === 0) return;
+      claimed = await claimDueAgents(runningAgents);
+      if (claimed.length === 0) return;
+
+      const activeAgents = await withinPortfolioLimits(claimed);
+      if (activeAgents.length === 0) return;
 
       signalCache.clear();
+      await Promise.all([
+        loadSignalPerformanceFromDB(),
+        refreshAgentStates(liveState, activeAgents.map(a => a.id)).catch(err => {
+          console.error("[AgentState] Failed to refresh agent state:", err.message);
+        }),
+      ]);
 
       const chainStratGroups = new Map<string, AiAgent[]>();
       for (const agent of activeAgents) {
@@ -1764,8 +2282,7 @@ export function startAgentRunner(broadcast: (data: any) => void): void {
       const prefetchPromises = Array.from(chainStratGroups.keys()).map(async (key) => {
         const [chain, strategy] = key.split(":");
         try {
-          const signals = await getMarketSignals(chain === "all" ? undefined : chain, strategy);
-          setCachedSignals(chain === "all" ? undefined : chain, strategy, signals);
+          await fetchSignals(chain === "all" ? undefined : chain, strategy);
         } catch (err: any) {
           console.error(`[AgentRunner] Signal prefetch error for ${key}:`, err.message);
         }
@@ -1773,35 +2290,32 @@ export function startAgentRunner(broadcast: (data: any) => void): void {
       await Promise.allSettled(prefetchPromises);
 
       const results = await Promise.allSettled(
-        activeAgents.map(agent => executeAgentCycle(agent, broadcast))
+        activeAgents.map(agent => executeAgentCycle(agent, data => sendToUser(agent.userId, data)))
       );
 
-      let errors = 0;
-      for (const r of results) {
-        if (r.status === "rejected") errors++;
-      }
+      results.forEach((r, i) => {
+        if (r.status === "rejected") errors.push(`Agent ${activeAgents[i].id}: ${r.reason?.message ?? r.reason}`);
+      });
 
       const elapsed = Date.now() - cycleStart;
-      if (elapsed > 5000 || errors > 0) {
-        console.log(`[AgentRunner] Cycle: ${activeAgents.length} agents in ${elapsed}ms (${errors} errors)`);
+      if (elapsed > 5000 || errors.length > 0) {
+        console.log(`[AgentRunner] Cycle: ${activeAgents.length} agents in ${elapsed}ms (${errors.length} errors)`);
       }
     } catch (err: any) {
+      errors.push(err.message);
       console.error("Agent runner error:", err.message);
     } finally {
+      await Promise.all(claimed.map(agent => releaseAgent(agent.id, cycleStart).catch(err => {
+        console.error(`[Scheduler] Failed to release agent ${agent.id}:`, err.message);
+      })));
+      await recordSchedulerCycle(cycleStart, claimed.length, errors).catch(err => {
+        console.error("[Scheduler] Failed to record heartbeat:", err.message);
+      });
       cycleRunning = false;
     }
-  }, 10000);
-
-  setInterval(async () => {
-    try {
-      const agents = await storage.getActiveAgents();
-      if (agents.length > 0) {
-        await Promise.all(agents.map(a => storage.updateAiAgent(a.id, { dailyTradesUsed: 0 })));
-      }
-    } catch {}
-  }, 24 * 60 * 60 * 1000);
+  }, AGENT_CYCLE_MS);
 
-  console.log("AI Agent Runner v4.0 SUPERSONIC - 10s cycles, parallel execution, signal caching, batched DB writes, fast-path exits");
+  console.log(`AI Agent Runner v4.0 SUPERSONIC - ${AGENT_CYCLE_MS / 1000}s cycles, leased across instances (${SCHEDULER_INSTANCE_ID}), daily reset at midnight ${TRADING_DAY_TIMEZONE}`);
 }
 
 export function stopAgentRunner(): void {
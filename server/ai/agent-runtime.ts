@@ -0,0 +1,137 @@
+import type { IStorage } from "../storage";
+import type { QuotaCheck } from "../entitlements";
+import type { AiAgent, AgentLog, AgentPosition } from "@shared/schema";
+import type { AgentFill, FillTarget } from "./agent-execution";
+import type { MarketBreadth, TokenSignal } from "./signal-builder";
+import type { RiskCheck, RiskTarget } from "./risk-manager";
+import type { DecisionExplanation } from "./decision-explanation";
+
+// Everything an agent cycle touches outside its own arguments. The live runner
+// wires it to the database, the wall clock, on-chain fills and the LLM; a
+// backtest swaps in an in-memory ledger, a simulated clock and paper fills so
+// the same decision and exit logic can be replayed against history.
+export interface AgentRuntime {
+  store: AgentStore;
+  state: RunnerState;
+  fills: AgentFills;
+  decider: DecisionProvider;
+  now(): number;
+  marketBreadth(): MarketBreadth | null;
+  // USD price of the chain's native asset, which buys and shorts spend.
+  nativePrice(chain: string): Promise<number>;
+  // Plan-level daily trade quota. Backtests leave it out.
+  checkTradeQuota?(userId: string): Promise<QuotaCheck>;
+  // Owner's limits across all of their agents. Backtests leave it out.
+  checkPortfolioRisk?(agent: AiAgent, target: RiskTarget): Promise<RiskCheck>;
+  // Stores the explanation of a cycle's decision. Backtests leave it out.
+  recordExplanation?(log: AgentLog, explanation: DecisionExplanation): void;
+}
+
+export type AgentStore = Pick<
+  IStorage,
+  | "getAiAgent"
+  | "updateAiAgent"
+  | "getAgentPositions"
+  | "createAgentPosition"
+  | "updateAgentPosition"
+  | "closeAgentPosition"
+  | "getAgentTrades"
+  | "createAgentTrade"
+  | "createAgentLog"
+  | "upsertSignalPerformance"
+  | "getCustomStrategyVersion"
+>;
+
+export interface AgentFills {
+  buy(agent: AiAgent, target: FillTarget, amount: number, signalPrice: number): Promise<AgentFill>;
+  sell(agent: AiAgent, position: AgentPosition, size: number, signalPrice: number, slippageBps?: number): Promise<AgentFill>;
+  short(agent: AiAgent, target: FillTarget, amount: number, signalPrice: number): Promise<AgentFill>;
+  cover(agent: AiAgent, position: AgentPosition, size: number, signalPrice: number): Promise<AgentFill>;
+}
+
+export interface DecisionRequest {
+  agent: AiAgent;
+  signals: TokenSignal[];
+  // The strategy's pre-filtered buy shortlist, as shown in the prompt.
+  candidates: TokenSignal[];
+  // The short shortlist; empty unless the agent allows shorts.
+  shortCandidates: TokenSignal[];
+  openPositions: AgentPosition[];
+  systemPrompt: string;
+  userMessage: string;
+  time: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface DecisionResponse {
+  // The raw JSON text the model would answer with.
+  content: string;
+  // Who answered; differs from the provider asked when it fell back.
+  provider: string;
+  usage?: TokenUsage;
+  // Why the rule engine answered in place of the agent's provider.
+  fallbackReason?: string;
+}
+
+// Proposes a trade. The runner parses the answer and applies the same
+// adaptive filters and sizing to every provider, so a rule stub or a recorded
+// response is judged like the LLM.
+export interface DecisionProvider {
+  readonly name: string;
+  propose(request: DecisionRequest): Promise<DecisionResponse>;
+}
+
+export interface SignalStats {
+  wins: number;
+  losses: number;
+  avgPnl: number;
+  count: number;
+}
+
+export interface SignalPerformanceEntry {
+  signals: string[];
+  strategy: string;
+  entryPrice: number;
+  exitPrice?: number;
+  pnlPercent?: number;
+  profitable?: boolean;
+  rsiAtEntry: number;
+  emaTrendAtEntry: string;
+  macdAtEntry: number;
+  trendStrengthAtEntry: number;
+  marketRegime: string;
+  timestamp: number;
+}
+
+export interface AgentPerformanceTracker {
+  recentTrades: { pnl: number; timestamp: number }[];
+  winStreak: number;
+  lossStreak: number;
+  adaptiveThresholdOffset: number;
+  lastUpdate: number;
+}
+
+// Learning and pacing state the runner keeps between cycles. The live runner
+// persists the per-agent maps (see agent-state.ts); signal win rates are
+// rebuilt from the signal_performance table.
+export interface RunnerState {
+  signalWinRates: Map<string, SignalStats>;
+  signalPerformanceLog: SignalPerformanceEntry[];
+  agentTrackers: Map<number, AgentPerformanceTracker>;
+  recentLosses: Map<number, { tokens: string[]; timestamp: number }>;
+  cooldownTracker: Map<number, { cyclesRemaining: number; reducedSizing: boolean }>;
+}
+
+export function createRunnerState(): RunnerState {
+  return {
+    signalWinRates: new Map(),
+    signalPerformanceLog: [],
+    agentTrackers: new Map(),
+    recentLosses: new Map(),
+    cooldownTracker: new Map(),
+  };
+}
@@ -0,0 +1,178 @@
+import os from "os";
+import crypto from "crypto";
+import { storage } from "../storage";
+import type { AiAgent } from "@shared/schema";
+
+export const AGENT_CYCLE_MS = 10000;
+// Agent cycles, leader duties, state restore and snapshot recording only run
+// on instances started with AGENT_RUNNER=on.
+export const AGENT_RUNNER_ENABLED = process.env.AGENT_RUNNER === "on";
+// An instance that dies mid-cycle frees its agents once this runs out. A live
+// cycle can outlast it (each fill waits up to 40s for settlement), so the
+// runner renews it before every fill.
+const CYCLE_LEASE_MS = 2 * 60 * 1000;
+// Released agents come due this much before the next tick, so timer drift
+// does not make them skip a cycle.
+const CYCLE_SLACK_MS = 2000;
+const LEADER_LEASE = "agent-runner:leader";
+const LEADER_LEASE_MS = 30 * 1000;
+// How long work outside the cycle waits for a cycle in flight to let go of
+// the agent, and how often it asks.
+const AGENT_LEASE_WAIT_MS = 30 * 1000;
+const AGENT_LEASE_RETRY_MS = 1000;
+// Instances that have not reported for this long are treated as down.
+const HEARTBEAT_STALE_MS = 60 * 1000;
+const PRUNE_AFTER_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export const SCHEDULER_INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString("hex")}`;
+
+function resolveTimezone(zone: string | undefined): string {
+  if (!zone) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return zone;
+  } catch {
+    console.warn(`[Scheduler] Unknown AGENT_DAY_TIMEZONE "${zone}", using UTC`);
+    return "UTC";
+  }
+}
+
+// Daily trade counters roll over at midnight in this zone.
+export const TRADING_DAY_TIMEZONE = resolveTimezone(process.env.AGENT_DAY_TIMEZONE);
+
+export function tradingDay(time: number): string {
+  // en-CA formats dates as YYYY-MM-DD.
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: TRADING_DAY_TIMEZONE, year: "numeric", month: "2-digit", day: "2-digit",
+  }).format(new Date(time));
+}
+
+function agentLease(agentId: number): string {
+  return `agent:${agentId}`;
+}
+
+// Claims the agents that are due: their last cycle, on whichever instance ran
+// it, finished at least a cycle interval ago. Replicas calling this at the
+// same time split the agents between them.
+export async function claimDueAgents(agents: AiAgent[]): Promise<AiAgent[]> {
+  const claimed = await Promise.all(agents.map(async agent => {
+    try {
+      return await storage.acquireSchedulerLease(agentLease(agent.id), SCHEDULER_INSTANCE_ID, CYCLE_LEASE_MS, false) ? agent : null;
+    } catch (err: any) {
+      console.error(`[Scheduler] Failed to claim agent ${agent.id}:`, err.message);
+      return null;
+    }
+  }));
+  return claimed.filter((agent): agent is AiAgent => agent !== null);
+}
+
+// Keeps the lease until the agent's next cycle is due.
+export async function releaseAgent(agentId: number, cycleStart: number): Promise<void> {
+  const nextDue = Math.max(Date.now(), cycleStart + AGENT_CYCLE_MS - CYCLE_SLACK_MS);
+  await storage.setSchedulerLeaseExpiry(agentLease(agentId), SCHEDULER_INSTANCE_ID, new Date(nextDue));
+}
+
+// Extends this instance's hold on the agent for another lease period. Throws
+// if another instance has taken the agent over, so the caller stops before
+// trading on its behalf.
+export async function renewAgentLease(agentId: number): Promise<void> {
+  if (!(await storage.acquireSchedulerLease(agentLease(agentId), SCHEDULER_INSTANCE_ID, CYCLE_LEASE_MS, true))) {
+    throw new Error(`Lost the cycle lease on agent ${agentId} to another instance`);
+  }
+}
+
+// Runs work outside the agent's cycle, such as a flatten or an emergency
+// exit, while holding its cycle lease, so it never overlaps a cycle on any
+// instance. Throws if a cycle still holds the agent after the wait.
+export async function withAgentLease<T>(agentId: number, work: () => Promise<T>): Promise<T> {
+  const deadline = Date.now() + AGENT_LEASE_WAIT_MS;
+  while (!(await storage.acquireSchedulerLease(agentLease(agentId), SCHEDULER_INSTANCE_ID, CYCLE_LEASE_MS, false))) {
+    if (Date.now() >= deadline) throw new Error(`Agent ${agentId} is busy in a cycle`);
+    await new Promise(resolve => setTimeout(resolve, AGENT_LEASE_RETRY_MS));
+  }
+  try {
+    return await work();
+  } finally {
+    // The agent is due again right away.
+    await storage.setSchedulerLeaseExpiry(agentLease(agentId), SCHEDULER_INSTANCE_ID, new Date()).catch(err => {
+      console.error(`[Scheduler] Failed to release agent ${agentId}:`, err.message);
+    });
+  }
+}
+
+let isLeader = false;
+let lastPruneAt = 0;
+
+// Work that must happen once per deployment rather than once per replica.
+// The leader lease is renewed every tick; if the leader stops ticking another
+// instance takes over when it lapses.
+export async function runLeaderDuties(now: number): Promise<void> {
+  isLeader = await storage.acquireSchedulerLease(LEADER_LEASE, SCHEDULER_INSTANCE_ID, LEADER_LEASE_MS, true);
+  if (!isLeader) return;
+
+  const reset = await storage.resetDailyTradeCounters(tradingDay(now));
+  if (reset > 0) {
+    console.log(`[Scheduler] Reset daily trade counters for ${reset} agent(s) (${TRADING_DAY_TIMEZONE})`);
+  }
+  if (now - lastPruneAt >= PRUNE_INTERVAL_MS) {
+    lastPruneAt = now;
+    await storage.pruneSchedulerRows(new Date(now - PRUNE_AFTER_MS));
+  }
+}
+
+const stats = {
+  cycles: 0,
+  errors: 0,
+  lastCycleAt: null as Date | null,
+  lastCycleMs: null as number | null,
+  lastCycleAgents: 0,
+  lastError: null as string | null,
+  lastErrorAt: null as Date | null,
+};
+
+// Reports one tick of this instance, whether or not it had agents to run.
+export async function recordSchedulerCycle(startedAt: number, agents: number, errors: string[]): Promise<void> {
+  stats.cycles++;
+  stats.errors += errors.length;
+  stats.lastCycleAt = new Date(startedAt);
+  stats.lastCycleMs = Date.now() - startedAt;
+  stats.lastCycleAgents = agents;
+  if (errors.length > 0) {
+    stats.lastError = errors[errors.length - 1].slice(0, 500);
+    stats.lastErrorAt = new Date();
+  }
+  await storage.saveSchedulerHeartbeat(SCHEDULER_INSTANCE_ID, { ...stats, isLeader });
+}
+
+export async function getSchedulerHealth() {
+  const now = Date.now();
+  const instances = await storage.getSchedulerInstances(new Date(now - HEARTBEAT_STALE_MS));
+  const lastCycleAt = instances.reduce<Date | null>(
+    (latest, i) => (i.lastCycleAt && (!latest || i.lastCycleAt > latest) ? i.lastCycleAt : latest),
+    null,
+  );
+  return {
+    healthy: lastCycleAt !== null && now - lastCycleAt.getTime() < HEARTBEAT_STALE_MS,
+    // Whether this instance runs agent cycles; with none enabled the report
+    // is never healthy.
+    runnerEnabled: AGENT_RUNNER_ENABLED,
+    lastCycleAt,
+    leader: instances.find(i => i.isLeader)?.instanceId ?? null,
+    timezone: TRADING_DAY_TIMEZONE,
+    tradingDay: tradingDay(now),
+    instances: instances.map(i => ({
+      instanceId: i.instanceId,
+      isLeader: i.isLeader,
+      startedAt: i.startedAt,
+      heartbeatAt: i.heartbeatAt,
+      lastCycleAt: i.lastCycleAt,
+      lastCycleMs: i.lastCycleMs,
+      lastCycleAgents: i.lastCycleAgents,
+      cycles: i.cycles,
+      // The error text stays in the table; it can name other users' agents.
+      errors: i.errors,
+      lastErrorAt: i.lastErrorAt,
+    })),
+  };
+}
@@ -0,0 +1,69 @@
+import { storage } from "../storage";
+import type { AgentPerformanceTracker, RunnerState } from "./agent-runtime";
+
+// The slice of RunnerState that belongs to one agent. Signal win rates are
+// shared and live in the signal_performance table; profit-tier progress is
+// kept on each position row.
+interface PersistedAgentState {
+  tracker: AgentPerformanceTracker | null;
+  recentLosses: { tokens: string[]; timestamp: number } | null;
+  cooldown: { cyclesRemaining: number; reducedSizing: boolean } | null;
+}
+
+// Version and payload of each agent's row as this instance last read or wrote
+// it, so unchanged state is not rewritten every cycle.
+const known = new Map<number, { version: number; payload: string }>();
+
+function captureAgentState(state: RunnerState, agentId: number): PersistedAgentState {
+  return {
+    tracker: state.agentTrackers.get(agentId) ?? null,
+    recentLosses: state.recentLosses.get(agentId) ?? null,
+    cooldown: state.cooldownTracker.get(agentId) ?? null,
+  };
+}
+
+function restoreAgentState(state: RunnerState, agentId: number, data: PersistedAgentState): void {
+  const apply = <T>(map: Map<number, T>, value: T | null) => {
+    if (value) map.set(agentId, value);
+    else map.delete(agentId);
+  };
+  apply(state.agentTrackers, data.tracker);
+  apply(state.recentLosses, data.recentLosses);
+  apply(state.cooldownTracker, data.cooldown);
+}
+
+// Pulls in any state written since this instance last looked: everything on
+// startup, then whatever another instance saved for these agents.
+export async function refreshAgentStates(state: RunnerState, agentIds?: number[]): Promise<number> {
+  const rows = await storage.getAgentRuntimeStates(agentIds);
+  let restored = 0;
+  for (const row of rows) {
+    const seen = known.get(row.agentId);
+    if (seen && seen.version >= row.version) continue;
+    try {
+      restoreAgentState(state, row.agentId, JSON.parse(row.state) as PersistedAgentState);
+      known.set(row.agentId, { version: row.version, payload: row.state });
+      restored++;
+    } catch (err: any) {
+      console.error(`[AgentState] Unreadable state for agent ${row.agentId}:`, err.message);
+    }
+  }
+  return restored;
+}
+
+// Saves the agent's state if the cycle changed it. A lost race means another
+// instance ran this agent in between; its write wins and is read back on the
+// next refresh.
+export async function persistAgentState(state: RunnerState, agentId: number): Promise<void> {
+  const payload = JSON.stringify(captureAgentState(state, agentId));
+  const seen = known.get(agentId);
+  if (seen?.payload === payload) return;
+
+  const expected = seen?.version ?? 0;
+  if (await storage.saveAgentRuntimeState(agentId, payload, expected)) {
+    known.set(agentId, { version: expected + 1, payload });
+  } else {
+    known.delete(agentId);
+    console.warn(`[AgentState] Agent ${agentId} state changed on another instance; reloading`);
+  }
+}
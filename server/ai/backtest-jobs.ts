@@ -0,0 +1,191 @@
+import { storage } from "../storage";
+import { resolveUserTier } from "../entitlements";
+import { getTierDefinition } from "@shared/tiers";
+import type { AiAgent, Backtest, CustomStrategyVersion } from "@shared/schema";
+import { runBacktest } from "./backtest";
+import {
+  createLlmDecisionProvider, createRecordedDecisionProvider, createRuleDecisionProvider,
+  type DecisionProviderKind, type RecordedDecision,
+} from "./decision-providers";
+import {
+  createCandleSource, createSnapshotSource, loadCandleUniverse,
+  type CandleSeries, type MarketFrame, type MarketHistorySource,
+} from "./market-history";
+import { loadRecordedDecisions, loadSnapshotFrames } from "./snapshot-recorder";
+import type { DecisionProvider } from "./agent-runtime";
+
+// Every frame is a full agent cycle; with the LLM each one is a paid call.
+const MAX_FRAMES = 1500;
+const MAX_LLM_FRAMES = 300;
+const MAX_STORED_TRADES = 500;
+const DEFAULT_RESPONSE_MAX_AGE_MS = 10 * 60 * 1000;
+// Runs report nothing until they finish, so one still "running" after this
+// long was left behind by an instance that restarted or crashed.
+const STALE_AFTER_MS = 60 * 60 * 1000;
+
+export type BacktestSourceSpec =
+  | { type: "candles"; chain: string; timeframe: string; tokenCount: number; bars: number }
+  | { type: "series"; series: CandleSeries[] }
+  | { type: "snapshots"; frames: MarketFrame[] }
+  // Market snapshots captured by the live runner (or imported by the user).
+  | { type: "recorded"; chain: string; strategy?: string; from?: string; to?: string };
+
+export interface BacktestJobSpec {
+  userId: string;
+  agent: AiAgent;
+  customStrategy?: CustomStrategyVersion;
+  source: BacktestSourceSpec;
+  decider: DecisionProviderKind;
+  responses?: RecordedDecision[];
+  // Agent whose recorded responses to replay when none are given inline.
+  recordedAgentId?: number;
+  responseMaxAgeMs?: number;
+  startingBalance?: number;
+}
+
+const runningByUser = new Set<string>();
+const runningIds = new Set<number>();
+
+export function isBacktestRunning(userId: string): boolean {
+  return runningByUser.has(userId);
+}
+
+// Marks runs whose instance went away; runs on this instance are kept
+// however long they take.
+export async function interruptStaleBacktests(userId?: string): Promise<number> {
+  return storage.interruptStaleBacktests(new Date(Date.now() - STALE_AFTER_MS), Array.from(runningIds), userId);
+}
+
+export async function listBacktests(userId: string): Promise<Backtest[]> {
+  await interruptStaleBacktests(userId);
+  return storage.getBacktests(userId);
+}
+
+export function recoverBacktests(): void {
+  interruptStaleBacktests()
+    .then(count => { if (count > 0) console.log(`[Backtest] Marked ${count} stale run(s) interrupted`); })
+    .catch(err => console.error("[Backtest] Recovery failed:", err.message));
+}
+
+async function createDecider(spec: BacktestJobSpec): Promise<DecisionProvider> {
+  if (spec.decider === "llm") return createLlmDecisionProvider();
+  if (spec.decider === "recorded") {
+    let responses = spec.responses ?? [];
+    if (responses.length === 0 && spec.recordedAgentId != null) {
+      const { from, to } = spec.source.type === "recorded" ? spec.source : { from: undefined, to: undefined };
+      responses = await loadRecordedDecisions({
+        userId: spec.userId,
+        agentId: spec.recordedAgentId,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+        limit: MAX_FRAMES,
+      });
+    }
+    if (responses.length === 0) throw new Error("No recorded responses to replay");
+    return createRecordedDecisionProvider(responses, spec.responseMaxAgeMs ?? DEFAULT_RESPONSE_MAX_AGE_MS);
+  }
+  return createRuleDecisionProvider();
+}
+
+async function createSource(spec: BacktestJobSpec): Promise<MarketHistorySource> {
+  const { source } = spec;
+  if (source.type === "snapshots") return createSnapshotSource(source.frames);
+  if (source.type === "series") return createCandleSource(source.series);
+  if (source.type === "recorded") {
+    const frames = await loadSnapshotFrames({
+      userId: spec.userId,
+      chain: source.chain,
+      strategy: source.strategy ?? spec.agent.strategy,
+      from: source.from ? new Date(source.from) : undefined,
+      to: source.to ? new Date(source.to) : undefined,
+      limit: MAX_FRAMES,
+    });
+    if (frames.length === 0) throw new Error(`No recorded snapshots for ${source.chain} in that window`);
+    return createSnapshotSource(frames);
+  }
+  const series = await loadCandleUniverse(source.chain, source.tokenCount, source.timeframe, source.bars);
+  if (series.length === 0) throw new Error(`No candle history available for ${source.chain} tokens`);
+  return createCandleSource(series);
+}
+
+// Only the parameters are kept with the run; inline candles and snapshots
+// can be large and are not needed to read the results.
+function describeSpec(spec: BacktestJobSpec) {
+  const { source } = spec;
+  return {
+    strategy: spec.agent.strategy,
+    chain: spec.agent.chain,
+    maxPositionSize: spec.agent.maxPositionSize,
+    stopLossPercent: spec.agent.stopLossPercent,
+    takeProfitPercent: spec.agent.takeProfitPercent,
+    maxDailyTrades: spec.agent.maxDailyTrades,
+    customStrategy: spec.customStrategy
+      ? { strategyId: spec.customStrategy.strategyId, version: spec.customStrategy.version, versionId: spec.customStrategy.id }
+      : null,
+    startingBalance: spec.startingBalance ?? null,
+    source: source.type === "candles" || source.type === "recorded"
+      ? source
+      : source.type === "series"
+        ? { type: source.type, tokens: source.series.map(s => s.symbol) }
+        : { type: source.type, frames: source.frames.length },
+  };
+}
+
+async function executeBacktest(id: number, spec: BacktestJobSpec): Promise<void> {
+  try {
+    const source = await createSource(spec);
+    const { tier } = await resolveUserTier(spec.userId);
+    const result = await runBacktest(source, {
+      agent: spec.agent,
+      customStrategy: spec.customStrategy,
+      decider: await createDecider(spec),
+      feeBps: getTierDefinition(tier).swapFeeBps,
+      startingBalance: spec.startingBalance,
+      maxFrames: spec.decider === "llm" ? MAX_LLM_FRAMES : MAX_FRAMES,
+    });
+    await storage.updateBacktest(id, {
+      status: "completed",
+      metrics: JSON.stringify(result.metrics),
+      equityCurve: JSON.stringify(result.equityCurve),
+      attribution: JSON.stringify(result.attribution),
+      trades: JSON.stringify(result.trades.slice(-MAX_STORED_TRADES)),
+      error: result.errors.length > 0 ? result.errors.join("\n") : null,
+      completedAt: new Date(),
+    });
+    console.log(`[Backtest] #${id} ${spec.agent.strategy}/${spec.decider}: ${result.metrics.frames} frames, ${result.metrics.trades} trades, ${result.metrics.totalReturnPct.toFixed(2)}%`);
+  } catch (err: any) {
+    console.error(`[Backtest] #${id} failed:`, err.message);
+    await storage.updateBacktest(id, { status: "failed", error: err.message, completedAt: new Date() }).catch(() => {});
+  }
+}
+
+// Records the run and replays it in the background; callers poll the row.
+// A user gets one run at a time since each replay holds the event loop for
+// every frame it scores.
+export async function startBacktest(spec: BacktestJobSpec): Promise<Backtest> {
+  if (runningByUser.has(spec.userId)) throw new Error("A backtest is already running");
+  runningByUser.add(spec.userId);
+
+  let backtest: Backtest;
+  try {
+    backtest = await storage.createBacktest({
+      userId: spec.userId,
+      agentId: spec.agent.id > 0 ? spec.agent.id : null,
+      strategy: spec.agent.strategy,
+      source: spec.source.type,
+      decider: spec.decider,
+      status: "running",
+      config: JSON.stringify(describeSpec(spec)),
+    });
+  } catch (err) {
+    runningByUser.delete(spec.userId);
+    throw err;
+  }
+
+  runningIds.add(backtest.id);
+  executeBacktest(backtest.id, spec).finally(() => {
+    runningByUser.delete(spec.userId);
+    runningIds.delete(backtest.id);
+  });
+  return backtest;
+}
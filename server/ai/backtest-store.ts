@@ -0,0 +1,155 @@
+import type {
+  AiAgent, AgentPosition, AgentTrade, AgentLog, SignalPerformance, CustomStrategyVersion,
+  InsertAgentPosition, InsertAgentTrade, InsertAgentLog,
+} from "@shared/schema";
+import type { AgentStore } from "./agent-runtime";
+
+// Keep the tail of the decision log; a long replay logs every cycle.
+const MAX_LOGS = 500;
+
+// In-memory stand-in for the agent tables, stamped with the simulated clock.
+// A backtest runs one agent against it, so nothing reaches the database.
+export class MemoryAgentStore implements AgentStore {
+  private agents = new Map<number, AiAgent>();
+  private positions = new Map<number, AgentPosition>();
+  private trades: AgentTrade[] = [];
+  private logs: AgentLog[] = [];
+  private strategyVersions = new Map<number, CustomStrategyVersion>();
+  private nextId = 1;
+
+  constructor(private now: () => number) {}
+
+  addAgent(agent: AiAgent): void {
+    this.agents.set(agent.id, { ...agent });
+  }
+
+  addStrategyVersion(version: CustomStrategyVersion): void {
+    this.strategyVersions.set(version.id, version);
+  }
+
+  getTrades(): AgentTrade[] {
+    return this.trades;
+  }
+
+  getLogs(): AgentLog[] {
+    return this.logs;
+  }
+
+  async getAiAgent(id: number): Promise<AiAgent | undefined> {
+    const agent = this.agents.get(id);
+    return agent ? { ...agent } : undefined;
+  }
+
+  async updateAiAgent(id: number, updates: Partial<AiAgent>): Promise<AiAgent> {
+    const updated = { ...this.agents.get(id)!, ...updates };
+    this.agents.set(id, updated);
+    return { ...updated };
+  }
+
+  async getCustomStrategyVersion(id: number): Promise<CustomStrategyVersion | undefined> {
+    return this.strategyVersions.get(id);
+  }
+
+  async getAgentTrades(agentId: number, limit = 50): Promise<AgentTrade[]> {
+    return this.trades.filter(t => t.agentId === agentId).slice(-limit).reverse();
+  }
+
+  async createAgentTrade(trade: InsertAgentTrade): Promise<AgentTrade> {
+    const created: AgentTrade = {
+      id: this.nextId++,
+      agentId: trade.agentId,
+      tokenId: trade.tokenId,
+      type: trade.type,
+      amount: trade.amount,
+      price: trade.price,
+      total: trade.total,
+      pnl: trade.pnl ?? 0,
+      reasoning: trade.reasoning ?? null,
+      mode: trade.mode ?? "paper",
+      txHash: trade.txHash ?? null,
+      timestamp: new Date(this.now()),
+    };
+    this.trades.push(created);
+    return created;
+  }
+
+  async createAgentLog(log: InsertAgentLog): Promise<AgentLog> {
+    const created: AgentLog = {
+      id: this.nextId++,
+      agentId: log.agentId,
+      action: log.action,
+      reasoning: log.reasoning ?? null,
+      tokensAnalyzed: log.tokensAnalyzed ?? 0,
+      decision: log.decision ?? null,
+      confidence: log.confidence ?? 0,
+      marketContext: log.marketContext ?? null,
+      createdAt: new Date(this.now()),
+    };
+    this.logs.push(created);
+    if (this.logs.length > MAX_LOGS) this.logs.splice(0, this.logs.length - MAX_LOGS);
+    return created;
+  }
+
+  async getAgentPositions(agentId: number, status?: string): Promise<AgentPosition[]> {
+    return Array.from(this.positions.values())
+      .filter(p => p.agentId === agentId && (!status || p.status === status))
+      .reverse()
+      .map(p => ({ ...p }));
+  }
+
+  async createAgentPosition(position: InsertAgentPosition): Promise<AgentPosition> {
+    const created: AgentPosition = {
+      id: this.nextId++,
+      agentId: position.agentId,
+      tokenId: position.tokenId ?? null,
+      tokenAddress: position.tokenAddress ?? null,
+      tokenSymbol: position.tokenSymbol,
+      chain: position.chain ?? "solana",
+      side: position.side ?? "long",
+      size: position.size,
+      avgEntryPrice: position.avgEntryPrice,
+      currentPrice: position.currentPrice,
+      highestPrice: position.highestPrice ?? null,
+      trailingStopPrice: position.trailingStopPrice ?? null,
+      stopLossPrice: position.stopLossPrice ?? null,
+      takeProfitPrice: position.takeProfitPrice ?? null,
+      unrealizedPnl: 0,
+      unrealizedPnlPercent: 0,
+      realizedPnl: 0,
+      profitTiersTaken: position.profitTiersTaken ?? 0,
+      status: position.status ?? "open",
+      openedAt: new Date(this.now()),
+      closedAt: null,
+    };
+    this.positions.set(created.id, created);
+    return { ...created };
+  }
+
+  async updateAgentPosition(id: number, updates: Partial<AgentPosition>): Promise<AgentPosition> {
+    const updated = { ...this.positions.get(id)!, ...updates };
+    this.positions.set(id, updated);
+    return { ...updated };
+  }
+
+  async closeAgentPosition(id: number, exitPrice: number, realizedPnl: number): Promise<AgentPosition> {
+    return this.updateAgentPosition(id, {
+      status: "closed",
+      currentPrice: exitPrice,
+      realizedPnl,
+      unrealizedPnl: 0,
+      unrealizedPnlPercent: 0,
+      closedAt: new Date(this.now()),
+    });
+  }
+
+  // Signal win rates learned during a replay stay in the run's RunnerState;
+  // they must not leak into the live performance table.
+  async upsertSignalPerformance(signal: string, strategy: string, won: boolean, pnlPercent: number): Promise<SignalPerformance> {
+    return {
+      id: 0, signal, strategy,
+      wins: won ? 1 : 0, losses: won ? 0 : 1,
+      totalPnl: pnlPercent, count: 1, avgPnl: pnlPercent,
+      lastUpdatedAt: new Date(this.now()),
+    };
+  }
+}
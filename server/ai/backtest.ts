@@ -0,0 +1,386 @@
+import type { AiAgent, AgentPosition, CustomStrategyVersion } from "@shared/schema";
+import { createRunnerState, type AgentRuntime, type DecisionProvider } from "./agent-runtime";
+import { paperBuyFill, paperCoverFill, paperSellFill, paperShortFill, type AgentFill, type FillTarget } from "./agent-execution";
+import { runAgentCycle, MAX_POSITIONS_BY_STRATEGY } from "./agent-runner";
+import { MemoryAgentStore } from "./backtest-store";
+import type { MarketBreadth, TokenSignal } from "./signal-builder";
+import type { MarketFrame, MarketHistorySource } from "./market-history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+// A round trip is complete once less than this share of the entry is left.
+const DUST_RATIO = 0.05;
+const MAX_ERRORS_KEPT = 20;
+// The equity curve is downsampled for storage and charting.
+const MAX_CURVE_POINTS = 500;
+
+export interface BacktestConfig {
+  // Template for the simulated agent: strategy, sizing, stops and limits.
+  agent: AiAgent;
+  // The custom strategy version the agent pins, if any.
+  customStrategy?: CustomStrategyVersion;
+  decider: DecisionProvider;
+  // Swap fee charged on paper fills, from the owner's plan.
+  feeBps: number;
+  // Native units. Defaults to one full position per strategy slot.
+  startingBalance?: number;
+  maxFrames?: number;
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+  cash: number;
+  openPositions: number;
+}
+
+export interface BacktestTrade {
+  time: number;
+  side: "buy" | "sell" | "short" | "cover";
+  symbol: string;
+  address: string | null;
+  // Native units spent on a buy or short, received on a sell or cover.
+  value: number;
+  price: number;
+  // Native PnL of the closed slice; 0 for buys and shorts.
+  pnl: number;
+  signals: string[];
+}
+
+export interface SignalAttribution {
+  signal: string;
+  trades: number;
+  wins: number;
+  winRate: number;
+  totalPnl: number;
+  avgReturnPct: number;
+}
+
+export interface BacktestMetrics {
+  startingBalance: number;
+  finalEquity: number;
+  totalReturnPct: number;
+  maxDrawdownPct: number;
+  sharpe: number;
+  winRate: number;
+  roundTrips: number;
+  trades: number;
+  frames: number;
+  cycleErrors: number;
+  startTime: number | null;
+  endTime: number | null;
+}
+
+export interface BacktestResult {
+  metrics: BacktestMetrics;
+  equityCurve: EquityPoint[];
+  attribution: SignalAttribution[];
+  trades: BacktestTrade[];
+  errors: string[];
+}
+
+// Native cost and proceeds of one open lot, tagged with the signals that
+// were active when it was first bought.
+interface Lot {
+  symbol: string;
+  signals: string[];
+  cost: number;
+  proceeds: number;
+}
+
+interface RoundTrip {
+  signals: string[];
+  pnl: number;
+  returnPct: number;
+}
+
+function lotKey(address: string | null | undefined, symbol: string): string {
+  return (address || symbol).toLowerCase();
+}
+
+// Replays have no history of the native asset's USD price, so token prices
+// are read as native per token: a position holds `amount / price` tokens and
+// every figure stays in native units.
+const NATIVE_PRICE = 1;
+
+// Native value of `size` tokens of a paper position at `price`. A long is
+// worth the tokens; a short's collateral gains what the price lost and is
+// gone once the price has doubled.
+function paperValue(position: AgentPosition, size: number, price: number): number {
+  if (position.side === "short") return size * Math.max(0, 2 * position.avgEntryPrice - price) / NATIVE_PRICE;
+  return (size * price) / NATIVE_PRICE;
+}
+
+// Paper-style fills against a cash balance in the chain's native asset.
+class BacktestLedger {
+  cash: number;
+  trades: BacktestTrade[] = [];
+  roundTrips: RoundTrip[] = [];
+  private lots = new Map<string, Lot>();
+  private signals: TokenSignal[] = [];
+
+  constructor(startingBalance: number, private feeBps: number, private now: () => number) {
+    this.cash = startingBalance;
+  }
+
+  setFrame(signals: TokenSignal[]): void {
+    this.signals = signals;
+  }
+
+  private signalFor(address: string | null | undefined): TokenSignal | undefined {
+    if (!address) return undefined;
+    const key = address.toLowerCase();
+    return this.signals.find(s => s.address.toLowerCase() === key);
+  }
+
+  async buy(_agent: AiAgent, target: FillTarget, amount: number, signalPrice: number): Promise<AgentFill> {
+    return this.open("buy", target, amount, paperBuyFill(amount, signalPrice, this.feeBps, NATIVE_PRICE));
+  }
+
+  // A short locks `amount` of cash as collateral, the same as a buy spends it.
+  async short(_agent: AiAgent, target: FillTarget, amount: number, signalPrice: number): Promise<AgentFill> {
+    return this.open("short", target, amount, paperShortFill(amount, signalPrice, this.feeBps, NATIVE_PRICE));
+  }
+
+  async sell(_agent: AiAgent, position: AgentPosition, size: number, signalPrice: number): Promise<AgentFill> {
+    return this.close("sell", position, paperSellFill(position, size, signalPrice, this.feeBps));
+  }
+
+  async cover(_agent: AiAgent, position: AgentPosition, size: number, signalPrice: number): Promise<AgentFill> {
+    return this.close("cover", position, paperCoverFill(position, size, signalPrice, this.feeBps));
+  }
+
+  private open(side: "buy" | "short", target: FillTarget, amount: number, fill: AgentFill): AgentFill {
+    if (amount > this.cash + 1e-9) {
+      return {
+        status: "failed", mode: "paper", size: 0, price: 0, remaining: 0, txHash: null, explorerUrl: null,
+        error: `Insufficient backtest balance: have ${this.cash.toFixed(4)}, need ${amount.toFixed(4)}`,
+      };
+    }
+    const signal = this.signalFor(target.tokenAddress);
+    const symbol = signal?.symbol ?? target.tokenAddress ?? "?";
+    const key = lotKey(target.tokenAddress, symbol);
+    const lot = this.lots.get(key) ?? { symbol, signals: signal?.signals ?? [], cost: 0, proceeds: 0 };
+    lot.cost += amount;
+    this.lots.set(key, lot);
+    this.cash -= amount;
+    this.trades.push({
+      time: this.now(), side, symbol, address: target.tokenAddress ?? null,
+      value: amount, price: fill.price, pnl: 0, signals: lot.signals,
+    });
+    return fill;
+  }
+
+  private close(side: "sell" | "cover", position: AgentPosition, fill: AgentFill): AgentFill {
+    const proceeds = paperValue(position, fill.size, fill.price);
+    const key = lotKey(position.tokenAddress, position.tokenSymbol);
+    const lot = this.lots.get(key) ?? { symbol: position.tokenSymbol, signals: [], cost: fill.size, proceeds: 0 };
+    const costShare = position.size > 0 ? lot.cost * (fill.size / position.size) : 0;
+    lot.proceeds += proceeds;
+    this.cash += proceeds;
+    this.trades.push({
+      time: this.now(), side, symbol: position.tokenSymbol, address: position.tokenAddress,
+      value: proceeds, price: fill.price, pnl: proceeds - costShare, signals: lot.signals,
+    });
+
+    if (fill.remaining <= position.size * DUST_RATIO) {
+      const pnl = lot.proceeds - lot.cost;
+      this.roundTrips.push({ signals: lot.signals, pnl, returnPct: lot.cost > 0 ? (pnl / lot.cost) * 100 : 0 });
+      this.lots.delete(key);
+    }
+    return fill;
+  }
+
+  markToMarket(positions: AgentPosition[]): number {
+    let value = 0;
+    for (const p of positions) {
+      const price = this.signalFor(p.tokenAddress)?.price ?? p.currentPrice;
+      value += paperValue(p, p.size, price);
+    }
+    return this.cash + value;
+  }
+}
+
+function maxDrawdownPct(curve: EquityPoint[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const point of curve) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) worst = Math.max(worst, ((peak - point.equity) / peak) * 100);
+  }
+  return worst;
+}
+
+// Annualized from the median spacing between frames, so the figure is
+// comparable across timeframes. Risk-free rate is taken as zero.
+function sharpeRatio(curve: EquityPoint[]): number {
+  if (curve.length < 3) return 0;
+  const returns: number[] = [];
+  const gaps: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    if (curve[i - 1].equity > 0) returns.push(curve[i].equity / curve[i - 1].equity - 1);
+    gaps.push(curve[i].time - curve[i - 1].time);
+  }
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((a, r) => a + (r - mean) ** 2, 0) / Math.max(1, returns.length - 1);
+  const std = Math.sqrt(variance);
+  gaps.sort((a, b) => a - b);
+  const step = gaps[Math.floor(gaps.length / 2)];
+  if (std === 0 || !(step > 0)) return 0;
+  return (mean / std) * Math.sqrt(YEAR_MS / step);
+}
+
+function attributeSignals(roundTrips: RoundTrip[]): SignalAttribution[] {
+  const bySignal = new Map<string, { trades: number; wins: number; totalPnl: number; totalReturn: number }>();
+  for (const trip of roundTrips) {
+    for (const signal of trip.signals) {
+      const entry = bySignal.get(signal) ?? { trades: 0, wins: 0, totalPnl: 0, totalReturn: 0 };
+      entry.trades++;
+      if (trip.pnl > 0) entry.wins++;
+      entry.totalPnl += trip.pnl;
+      entry.totalReturn += trip.returnPct;
+      bySignal.set(signal, entry);
+    }
+  }
+  return Array.from(bySignal.entries())
+    .map(([signal, e]) => ({
+      signal,
+      trades: e.trades,
+      wins: e.wins,
+      winRate: (e.wins / e.trades) * 100,
+      totalPnl: e.totalPnl,
+      avgReturnPct: e.totalReturn / e.trades,
+    }))
+    .sort((a, b) => b.totalPnl - a.totalPnl);
+}
+
+function downsample(curve: EquityPoint[]): EquityPoint[] {
+  if (curve.length <= MAX_CURVE_POINTS) return curve;
+  const stride = curve.length / MAX_CURVE_POINTS;
+  const sampled: EquityPoint[] = [];
+  for (let i = 0; i < MAX_CURVE_POINTS - 1; i++) sampled.push(curve[Math.floor(i * stride)]);
+  sampled.push(curve[curve.length - 1]);
+  return sampled;
+}
+
+// One simulated agent stepped through market frames through the live agent
+// cycle. The clock, store, fills and runner state are all private to it, so
+// it can execute next to the live runner without touching its learning state
+// or the database. Backtests drive it over a history; tournaments drive
+// several side by side on the same live frames.
+export class PaperSimulation {
+  readonly startingBalance: number;
+  readonly curve: EquityPoint[] = [];
+  private clock = 0;
+  private breadth: MarketBreadth | null = null;
+  private day: number | null = null;
+  private frames = 0;
+  private cycleErrors = 0;
+  private errors: string[] = [];
+  private store: MemoryAgentStore;
+  private ledger: BacktestLedger;
+  private rt: AgentRuntime;
+  private agent: AiAgent;
+
+  constructor(config: BacktestConfig) {
+    const now = () => this.clock;
+    const template = config.agent;
+    const maxPositions = config.customStrategy?.maxPositions ?? MAX_POSITIONS_BY_STRATEGY[template.strategy] ?? 5;
+    this.startingBalance = config.startingBalance ?? (template.maxPositionSize ?? 1) * maxPositions;
+
+    this.store = new MemoryAgentStore(now);
+    this.ledger = new BacktestLedger(this.startingBalance, config.feeBps, now);
+    this.agent = {
+      ...template,
+      status: "running",
+      executionMode: "paper",
+      dailyTradesUsed: 0,
+      totalPnl: 0,
+      totalTrades: 0,
+      winRate: 0,
+      lastTradeAt: null,
+      customStrategyVersionId: config.customStrategy?.id ?? null,
+    };
+    this.store.addAgent(this.agent);
+    if (config.customStrategy) this.store.addStrategyVersion(config.customStrategy);
+
+    this.rt = {
+      store: this.store,
+      state: createRunnerState(),
+      fills: {
+        buy: this.ledger.buy.bind(this.ledger),
+        sell: this.ledger.sell.bind(this.ledger),
+        short: this.ledger.short.bind(this.ledger),
+        cover: this.ledger.cover.bind(this.ledger),
+      },
+      decider: config.decider,
+      now,
+      marketBreadth: () => this.breadth,
+      nativePrice: async () => NATIVE_PRICE,
+    };
+  }
+
+  get frameCount(): number {
+    return this.frames;
+  }
+
+  async step(frame: MarketFrame): Promise<void> {
+    this.frames++;
+    this.clock = frame.time;
+    this.breadth = frame.breadth;
+    this.ledger.setFrame(frame.signals);
+
+    const frameDay = Math.floor(frame.time / DAY_MS);
+    if (this.day !== null && frameDay !== this.day) {
+      await this.store.updateAiAgent(this.agent.id, { dailyTradesUsed: 0 });
+    }
+    this.day = frameDay;
+
+    try {
+      await runAgentCycle(this.rt, this.agent, frame.signals, () => {});
+    } catch (err: any) {
+      this.cycleErrors++;
+      if (this.errors.length < MAX_ERRORS_KEPT) this.errors.push(`${new Date(frame.time).toISOString()}: ${err.message}`);
+    }
+
+    const open = await this.store.getAgentPositions(this.agent.id, "open");
+    this.curve.push({ time: frame.time, equity: this.ledger.markToMarket(open), cash: this.ledger.cash, openPositions: open.length });
+  }
+
+  result(): BacktestResult {
+    const { curve, ledger, startingBalance } = this;
+    const finalEquity = curve.length > 0 ? curve[curve.length - 1].equity : startingBalance;
+    const wins = ledger.roundTrips.filter(t => t.pnl > 0).length;
+
+    return {
+      metrics: {
+        startingBalance,
+        finalEquity,
+        totalReturnPct: startingBalance > 0 ? ((finalEquity - startingBalance) / startingBalance) * 100 : 0,
+        maxDrawdownPct: maxDrawdownPct(curve),
+        sharpe: sharpeRatio(curve),
+        winRate: ledger.roundTrips.length > 0 ? (wins / ledger.roundTrips.length) * 100 : 0,
+        roundTrips: ledger.roundTrips.length,
+        trades: ledger.trades.length,
+        frames: this.frames,
+        cycleErrors: this.cycleErrors,
+        startTime: curve[0]?.time ?? null,
+        endTime: curve[curve.length - 1]?.time ?? null,
+      },
+      equityCurve: downsample(curve),
+      attribution: attributeSignals(ledger.roundTrips),
+      trades: ledger.trades,
+      errors: this.errors,
+    };
+  }
+}
+
+// Replays a market history through a single simulation.
+export async function runBacktest(source: MarketHistorySource, config: BacktestConfig): Promise<BacktestResult> {
+  const simulation = new PaperSimulation(config);
+  for await (const frame of source.frames(config.agent.strategy)) {
+    if (config.maxFrames && simulation.frameCount >= config.maxFrames) break;
+    await simulation.step(frame);
+  }
+  return simulation.result();
+}
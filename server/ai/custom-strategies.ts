@@ -0,0 +1,64 @@
+import { z } from "zod";
+import type { CustomStrategyVersion } from "@shared/schema";
+import { compileRule, type SignalRule } from "./strategy-dsl";
+
+export const STRATEGY_PRESETS = ["conservative", "balanced", "aggressive", "degen"] as const;
+
+export interface ExitTier {
+  // Share of the position's dynamic take-profit at which this tier sells.
+  threshold: number;
+  sellPercent: number;
+}
+
+export interface CompiledStrategy {
+  versionId: number;
+  label: string;
+  baseStrategy: string;
+  entryRule: SignalRule;
+  exitLadder: ExitTier[];
+  maxPositions: number;
+  promptGuidance: string | null;
+}
+
+const exitLadderSchema = z.array(z.object({
+  threshold: z.number().positive().max(3),
+  sellPercent: z.number().min(1).max(100),
+})).min(1).max(8).refine(
+  tiers => tiers.every((t, i) => i === 0 || t.threshold > tiers[i - 1].threshold),
+  "Exit tiers must have ascending thresholds",
+);
+
+export const customStrategyInputSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  baseStrategy: z.enum(STRATEGY_PRESETS).default("balanced"),
+  entryRule: z.string().max(2000).superRefine((rule, ctx) => {
+    try {
+      compileRule(rule);
+    } catch (err: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Entry rule: ${err.message}` });
+    }
+  }),
+  exitLadder: exitLadderSchema,
+  maxPositions: z.number().int().min(1).max(20),
+  promptGuidance: z.string().max(2000).nullable().optional(),
+});
+export type CustomStrategyInput = z.infer<typeof customStrategyInputSchema>;
+
+// Versions never change once written, so each compiles at most once.
+const compiled = new Map<number, CompiledStrategy>();
+
+export function compileStrategyVersion(version: CustomStrategyVersion): CompiledStrategy {
+  const cached = compiled.get(version.id);
+  if (cached) return cached;
+  const strategy: CompiledStrategy = {
+    versionId: version.id,
+    label: `custom#${version.strategyId} v${version.version}`,
+    baseStrategy: version.baseStrategy,
+    entryRule: compileRule(version.entryRule),
+    exitLadder: exitLadderSchema.parse(JSON.parse(version.exitLadder)),
+    maxPositions: version.maxPositions,
+    promptGuidance: version.promptGuidance,
+  };
+  compiled.set(version.id, strategy);
+  return strategy;
+}
@@ -0,0 +1,140 @@
+import { storage } from "../storage";
+import type { AgentLog, DecisionExplanationRow } from "@shared/schema";
+import { explainBuyFilters, type TokenSignal } from "./signal-builder";
+import { decodePayload, encodePayload } from "./snapshot-recorder";
+
+// The provider is shown the top 30 signals; the explanation keeps the top of
+// that list plus every shortlisted token.
+const EXPLAINED_CANDIDATES = 20;
+
+export interface DecisionCheck {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface ExplainedCandidate {
+  rank: number;
+  symbol: string;
+  chain: string;
+  address: string;
+  price: number;
+  signalScore: number;
+  conviction: number;
+  momentum: number;
+  buyPressure: number;
+  rugRisk: number;
+  volatility: number;
+  whaleActivity: string;
+  signals: string[];
+  shortlisted: boolean;
+  // Shortlist filters the token failed. Empty for a token that passed them
+  // all but fell below the shortlist's size limit.
+  rejectedBy: string[];
+}
+
+export interface DecisionExplanation {
+  time: number;
+  strategy: string;
+  customStrategy: string | null;
+  marketRegime: string;
+  openPositions: number;
+  lossStreak: number;
+  thresholds: { minConviction: number; minSignalScore: number; minMomentum: number; positionSizeMultiplier: number } | null;
+  candidates: ExplainedCandidate[];
+  provider: string | null;
+  fallbackReason: string | null;
+  // The provider's answer as parsed, before filters and sizing.
+  proposal: Record<string, unknown> | null;
+  // Entry filters on the proposed token, then the cycle's risk checks, in the
+  // order they ran.
+  checks: DecisionCheck[];
+  // Trade amount after each sizing step.
+  sizing: { step: string; amount: number }[];
+  fill: { mode: string; price: number; size: number; txHash: string | null } | null;
+  outcome: { result: "executed" | "blocked" | "hold"; action: string; tokenSymbol: string | null; detail: string } | null;
+}
+
+export function createDecisionExplanation(
+  meta: Pick<DecisionExplanation, "time" | "strategy" | "customStrategy" | "openPositions">,
+  signals: TokenSignal[],
+): DecisionExplanation {
+  return {
+    ...meta,
+    marketRegime: signals[0]?.marketRegime || "neutral",
+    lossStreak: 0,
+    thresholds: null,
+    candidates: [],
+    provider: null,
+    fallbackReason: null,
+    proposal: null,
+    checks: [],
+    sizing: [],
+    fill: null,
+    outcome: null,
+  };
+}
+
+export function explainCandidates(
+  signals: TokenSignal[],
+  shortlist: TokenSignal[],
+  strategy: string,
+  entryRule?: (signal: TokenSignal) => boolean,
+): ExplainedCandidate[] {
+  const shortlisted = new Set(shortlist);
+  return signals
+    .map((s, i) => ({ s, rank: i + 1 }))
+    .filter(({ s, rank }) => rank <= EXPLAINED_CANDIDATES || shortlisted.has(s))
+    .map(({ s, rank }) => ({
+      rank,
+      symbol: s.symbol,
+      chain: s.chain,
+      address: s.address,
+      price: s.price,
+      signalScore: s.overallSignalScore,
+      conviction: s.conviction,
+      momentum: s.momentumScore,
+      buyPressure: s.buyPressureScore,
+      rugRisk: s.rugRiskScore,
+      volatility: s.volatility,
+      whaleActivity: s.whaleActivity,
+      signals: s.signals,
+      shortlisted: shortlisted.has(s),
+      rejectedBy: shortlisted.has(s) ? [] : explainBuyFilters(s, strategy, entryRule),
+    }));
+}
+
+export function addCheck(explanation: DecisionExplanation, name: string, passed: boolean, detail: string): void {
+  explanation.checks.push({ name, passed, detail });
+}
+
+export function addSizingStep(explanation: DecisionExplanation, step: string, amount: number): void {
+  explanation.sizing.push({ step, amount });
+}
+
+// A fill means the trade went through; otherwise the first failed check is
+// why it did not, and with neither the agent chose to hold.
+export function settleExplanation(
+  explanation: DecisionExplanation,
+  decision: { action: string; tokenSymbol: string; reasoning: string },
+): void {
+  const failed = explanation.checks.find(c => !c.passed);
+  const result = explanation.fill ? "executed" : failed ? "blocked" : "hold";
+  explanation.outcome = {
+    result,
+    action: decision.action,
+    tokenSymbol: decision.tokenSymbol || null,
+    detail: result === "blocked" ? failed!.detail : decision.reasoning,
+  };
+}
+
+// Written after the cycle so a slow insert never holds up trading.
+export function saveDecisionExplanation(log: AgentLog, explanation: DecisionExplanation): void {
+  encodePayload(explanation)
+    .then(payload => storage.saveDecisionExplanation(log.id, log.agentId, payload))
+    .catch(err => console.error("[Decisions] Failed to save explanation:", err.message));
+}
+
+export async function loadDecisionExplanation(row: DecisionExplanationRow): Promise<DecisionExplanation> {
+  return decodePayload<DecisionExplanation>(row.payload);
+}
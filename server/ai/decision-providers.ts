@@ -0,0 +1,170 @@
+import OpenAI from "openai";
+import { getSellSignals } from "./signal-builder";
+import { closeTradeType, positionSide } from "./position-side";
+import type { DecisionProvider, DecisionResponse } from "./agent-runtime";
+
+// A cycle runs every 10s, so a call that takes longer is better abandoned.
+const LLM_TIMEOUT_MS = Number(process.env.AGENT_LLM_TIMEOUT_MS) || 8000;
+const MAX_COMPLETION_TOKENS = 700;
+
+export type DecisionProviderKind = "llm" | "recorded" | "rule";
+
+export interface RecordedDecision {
+  // Epoch milliseconds of the cycle the response was given for.
+  time: number;
+  agentId?: number | null;
+  response: string;
+}
+
+export interface ChatProviderConfig {
+  name: string;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  timeoutMs: number;
+  // Older and local OpenAI-compatible servers only know `max_tokens`.
+  legacyTokenLimit?: boolean;
+}
+
+// Models often wrap their JSON in a markdown fence.
+export function stripCodeFences(content: string): string {
+  return content.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+}
+
+// Any endpoint that speaks the OpenAI chat completions API. Retries are off:
+// a slow or failing call should fall back within the cycle, not be repeated.
+export function createChatDecisionProvider(config: ChatProviderConfig): DecisionProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+    timeout: config.timeoutMs,
+    maxRetries: 0,
+  });
+
+  return {
+    name: config.name,
+    async propose({ systemPrompt, userMessage }) {
+      const response = await client.chat.completions.create({
+        model: config.model,
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userMessage },
+        ],
+        ...(config.legacyTokenLimit ? { max_tokens: MAX_COMPLETION_TOKENS } : { max_completion_tokens: MAX_COMPLETION_TOKENS }),
+      });
+      return {
+        content: response.choices[0]?.message?.content || "",
+        provider: config.name,
+        usage: response.usage
+          ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+          : undefined,
+      };
+    },
+  };
+}
+
+export function createLlmDecisionProvider(model = process.env.AGENT_LLM_MODEL || "gpt-5-nano"): DecisionProvider {
+  return createChatDecisionProvider({
+    name: "openai",
+    model,
+    apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+    baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+    timeoutMs: LLM_TIMEOUT_MS,
+  });
+}
+
+// A self-hosted model behind an OpenAI-compatible server (Ollama, llama.cpp,
+// vLLM). Defaults match a stock Ollama install.
+export function createLocalDecisionProvider(): DecisionProvider {
+  return createChatDecisionProvider({
+    name: "local",
+    model: process.env.LOCAL_LLM_MODEL || "llama3.1",
+    apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+    baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+    timeoutMs: Number(process.env.LOCAL_LLM_TIMEOUT_MS) || LLM_TIMEOUT_MS,
+    legacyTokenLimit: true,
+  });
+}
+
+// Replays answers captured from earlier runs instead of asking the model
+// again. A cycle takes the latest unused response recorded at or before its
+// time, no older than `maxAgeMs`; cycles without one fall back to hold.
+export function createRecordedDecisionProvider(responses: RecordedDecision[], maxAgeMs: number): DecisionProvider {
+  const pending = [...responses].sort((a, b) => a.time - b.time);
+  const used = new Set<RecordedDecision>();
+
+  return {
+    name: "recorded",
+    async propose({ agent, time }) {
+      let match: RecordedDecision | undefined;
+      for (const r of pending) {
+        if (r.time > time) break;
+        if (used.has(r) || (r.agentId != null && r.agentId !== agent.id)) continue;
+        match = r;
+      }
+      if (!match || time - match.time > maxAgeMs) {
+        throw new Error(`No recorded response at ${new Date(time).toISOString()}`);
+      }
+      used.add(match);
+      return { content: match.response, provider: "recorded" };
+    },
+  };
+}
+
+function ruleAnswer(decision: Record<string, unknown>): DecisionResponse {
+  return { content: JSON.stringify(decision), provider: "rule" };
+}
+
+// Deterministic stand-in for the model. Exits first: close a held position
+// on an urgent sell signal against the agent's own stop. Otherwise buy the
+// strongest candidate that passes the strategy filters and is not held yet,
+// or hold. Partial profit-taking stays with the position manager's ladder, as
+// it does when the LLM decides; repeating it here would sell every cycle.
+export function createRuleDecisionProvider(): DecisionProvider {
+  return {
+    name: "rule",
+    async propose({ agent, signals, candidates, shortCandidates, openPositions, time }) {
+      for (const p of openPositions) {
+        if (p.avgEntryPrice <= 0) continue;
+        const holdHours = (time - new Date(p.openedAt ?? time).getTime()) / (1000 * 60 * 60);
+        const exit = getSellSignals(
+          signals, p.avgEntryPrice, p.currentPrice,
+          agent.stopLossPercent ?? 15, agent.takeProfitPercent ?? 50,
+          p.trailingStopPrice, p.tokenSymbol, holdHours,
+          p.tokenAddress || undefined, p.chain || undefined, positionSide(p)
+        );
+        if (exit.shouldSell && exit.urgency === "high") {
+          return ruleAnswer({
+            action: closeTradeType(positionSide(p)), tokenSymbol: p.tokenSymbol, tokenAddress: p.tokenAddress ?? "", chain: p.chain,
+            amount: p.size * (exit.sellPercent / 100), confidence: 90,
+            reasoning: `Rule: ${exit.reason}`, signalScore: 0,
+          });
+        }
+      }
+
+      const held = new Set(openPositions.map(p => p.tokenSymbol.toUpperCase()));
+      const pick = candidates.find(s => !held.has(s.symbol.toUpperCase()));
+      const shortPick = shortCandidates.find(s => !held.has(s.symbol.toUpperCase()));
+      if (!pick && shortPick) {
+        return ruleAnswer({
+          action: "short", tokenSymbol: shortPick.symbol, tokenAddress: shortPick.address, chain: shortPick.chain,
+          amount: agent.maxPositionSize ?? 1, confidence: 100 - shortPick.conviction,
+          reasoning: `Rule: top short candidate ${shortPick.symbol} (momentum ${shortPick.momentumScore}, regime ${shortPick.marketRegime})`,
+          signalScore: shortPick.overallSignalScore,
+        });
+      }
+      if (!pick) {
+        return ruleAnswer({
+          action: "hold", tokenSymbol: "", tokenAddress: "", chain: agent.chain || "solana",
+          amount: 0, confidence: 0, reasoning: "Rule: no candidate passes the strategy filters", signalScore: 0,
+        });
+      }
+      return ruleAnswer({
+        action: "buy", tokenSymbol: pick.symbol, tokenAddress: pick.address, chain: pick.chain,
+        amount: agent.maxPositionSize ?? 1, confidence: pick.conviction,
+        reasoning: `Rule: top candidate ${pick.symbol} (signal ${pick.overallSignalScore}, conviction ${pick.conviction})`,
+        signalScore: pick.overallSignalScore,
+      });
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { storage, type DecisionUsageDelta } from "../storage";
+import type { DecisionProvider, DecisionRequest, DecisionResponse } from "./agent-runtime";
+import {
+  createLlmDecisionProvider, createLocalDecisionProvider, createRuleDecisionProvider, stripCodeFences,
+} from "./decision-providers";
+
+export const AGENT_DECISION_PROVIDERS = ["openai", "local", "rule"] as const;
+
+export function usageDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function recordUsage(request: DecisionRequest, provider: string, delta: DecisionUsageDelta): void {
+  storage.recordDecisionUsage(request.agent.id, usageDay(request.time), provider, delta).catch(err => {
+    console.error("[Decisions] Failed to record usage:", err.message);
+  });
+}
+
+function isJsonAnswer(content: string): boolean {
+  try {
+    return typeof JSON.parse(stripCodeFences(content)) === "object";
+  } catch {
+    return false;
+  }
+}
+
+// Sends each agent to the provider it is configured with. When an LLM call
+// fails, times out, answers with something that is not JSON, or the agent's
+// daily token budget is spent, the rule engine answers instead so the cycle
+// still trades on the strategy filters rather than erroring out.
+export function createAgentDecisionRouter(): DecisionProvider {
+  const rule = createRuleDecisionProvider();
+  const llms = new Map<string, DecisionProvider>();
+
+  // Clients are built on first use so a deployment without a local model (or
+  // without OpenAI credentials) only fails for agents that ask for one.
+  function llmFor(kind: string): DecisionProvider {
+    let provider = llms.get(kind);
+    if (!provider) {
+      provider = kind === "local" ? createLocalDecisionProvider() : createLlmDecisionProvider();
+      llms.set(kind, provider);
+    }
+    return provider;
+  }
+
+  async function fallBack(request: DecisionRequest, reason: string): Promise<DecisionResponse> {
+    const answer = await rule.propose(request);
+    return { ...answer, fallbackReason: reason };
+  }
+
+  return {
+    name: "router",
+    async propose(request) {
+      const { agent } = request;
+      if (agent.decisionProvider === "rule") return rule.propose(request);
+
+      const kind = agent.decisionProvider === "local" ? "local" : "openai";
+      if (agent.dailyTokenBudget != null) {
+        const used = await storage.getDecisionTokensForDay(agent.id, usageDay(request.time));
+        if (used >= agent.dailyTokenBudget) {
+          recordUsage(request, kind, { fallbacks: 1 });
+          return fallBack(request, `daily token budget spent (${used}/${agent.dailyTokenBudget})`);
+        }
+      }
+
+      let answer: DecisionResponse;
+      try {
+        answer = await llmFor(kind).propose(request);
+      } catch (err: any) {
+        console.warn(`[Decisions] ${kind} failed for agent ${agent.id}, using rules: ${err.message}`);
+        recordUsage(request, kind, { calls: 1, failures: 1, fallbacks: 1 });
+        return fallBack(request, `${kind} failed: ${err.message}`);
+      }
+
+      const tokens = {
+        promptTokens: answer.usage?.promptTokens ?? 0,
+        completionTokens: answer.usage?.completionTokens ?? 0,
+      };
+      if (!isJsonAnswer(answer.content)) {
+        recordUsage(request, kind, { calls: 1, failures: 1, fallbacks: 1, ...tokens });
+        return fallBack(request, `${kind} answered without JSON`);
+      }
+      recordUsage(request, kind, { calls: 1, ...tokens });
+      return answer;
+    },
+  };
+}
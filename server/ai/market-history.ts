@@ -0,0 +1,260 @@
+import { getLiveMemeTokens, fetchHistoricalOHLCV } from "../live-memes";
+import { rollUpBars, RESOLUTION_MS } from "../candle-store";
+import {
+  computeIndicatorsFromBars, INDICATOR_TIMEFRAMES, PRICE_HISTORY_MAX_BARS,
+  type HigherTimeframe, type PriceBar,
+} from "./technical-indicators";
+import {
+  applyMarketRegime, scoreHistoricalToken,
+  type FearGreedReading, type MarketBreadth, type PriceEntry, type TokenSignal,
+} from "./signal-builder";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Same trail length the live price tracker keeps per token.
+const TRAIL_LENGTH = 60;
+// Technical indicators are neutral below this many bars, so a token only
+// enters the replay once it has enough history to be scored like live.
+const MIN_BARS = 20;
+// A token drops out of a frame when its last candle is this many steps old.
+const STALE_STEPS = 3;
+
+export interface MarketFrame {
+  time: number;
+  signals: TokenSignal[];
+  breadth: MarketBreadth | null;
+}
+
+// A replayable market: frames in time order, each holding the scored universe
+// an agent would have seen at that moment.
+export interface MarketHistorySource {
+  readonly kind: string;
+  frames(strategy: string): AsyncIterable<MarketFrame>;
+}
+
+export interface CandleSeries {
+  address: string;
+  symbol: string;
+  name?: string;
+  chain: string;
+  // Oldest first; `t` in epoch seconds or milliseconds.
+  candles: PriceBar[];
+  // Current metadata. Market cap is scaled by price along the series;
+  // liquidity, holders and safety are held constant.
+  liquidity?: number;
+  marketCap?: number;
+  holders?: number;
+  safetyScore?: number;
+  createdAt?: string | null;
+}
+
+// Replays recorded signal snapshots. Strategy-dependent fields (regime
+// weighting, dynamic stop loss and take profit) are recomputed for the
+// strategy under test, exactly as the live second pass does.
+export function createSnapshotSource(frames: MarketFrame[]): MarketHistorySource {
+  const ordered = [...frames].sort((a, b) => a.time - b.time);
+  return {
+    kind: "snapshots",
+    async *frames(strategy: string) {
+      for (const frame of ordered) {
+        const signals: TokenSignal[] = frame.signals.map(s => ({ ...s, signals: [...s.signals], technicals: { ...s.technicals } }));
+        const breadth = applyMarketRegime(signals, strategy);
+        yield { time: frame.time, signals, breadth: frame.breadth ?? breadth };
+      }
+    },
+  };
+}
+
+interface PreparedSeries {
+  meta: CandleSeries;
+  bars: PriceBar[];
+  vol24: number[];
+  up24: number[];
+  down24: number[];
+  stepMs: number;
+  // The bars rolled up to each timeframe longer than their step.
+  higher: Partial<Record<HigherTimeframe, PriceBar[]>>;
+}
+
+function normalizeBars(candles: PriceBar[]): PriceBar[] {
+  const seen = new Set<number>();
+  const bars: PriceBar[] = [];
+  for (const c of candles) {
+    const t = c.t < 1e12 ? c.t * 1000 : c.t;
+    if (!(c.c > 0) || seen.has(t)) continue;
+    seen.add(t);
+    bars.push({ ...c, t });
+  }
+  return bars.sort((a, b) => a.t - b.t);
+}
+
+// Index of the last bar at or before `t`, or -1.
+function indexAtOrBefore(bars: PriceBar[], t: number): number {
+  let lo = 0;
+  let hi = bars.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (bars[mid].t <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+function prepareSeries(meta: CandleSeries): PreparedSeries | null {
+  const bars = normalizeBars(meta.candles);
+  if (bars.length < MIN_BARS) return null;
+
+  // Rolling 24h sums stand in for the 24h volume and buy/sell counts the
+  // live feeds report; up and down candles approximate buys and sells.
+  const vol24: number[] = [];
+  const up24: number[] = [];
+  const down24: number[] = [];
+  let start = 0;
+  let vol = 0;
+  let up = 0;
+  let down = 0;
+  for (let i = 0; i < bars.length; i++) {
+    vol += bars[i].v;
+    if (bars[i].c >= bars[i].o) up++; else down++;
+    while (bars[start].t <= bars[i].t - DAY_MS) {
+      vol -= bars[start].v;
+      if (bars[start].c >= bars[start].o) up--; else down--;
+      start++;
+    }
+    vol24.push(vol);
+    up24.push(up);
+    down24.push(down);
+  }
+
+  const gaps = bars.slice(1).map((b, i) => b.t - bars[i].t).sort((a, b) => a - b);
+  const stepMs = gaps[Math.floor(gaps.length / 2)] || 60_000;
+  const higher: PreparedSeries["higher"] = {};
+  for (const timeframe of INDICATOR_TIMEFRAMES) {
+    if (timeframe !== "1m" && RESOLUTION_MS[timeframe] > stepMs) higher[timeframe] = rollUpBars(bars, timeframe);
+  }
+  return { meta, bars, vol24, up24, down24, stepMs, higher };
+}
+
+// Each timeframe's bars as of bar `i`: the buckets closed by then plus the
+// current one built from the bars so far, so no frame sees later prices.
+function higherBarsAt(series: PreparedSeries, i: number): PreparedSeries["higher"] {
+  const { bars } = series;
+  const result: PreparedSeries["higher"] = {};
+  for (const [timeframe, rolled] of Object.entries(series.higher) as [HigherTimeframe, PriceBar[]][]) {
+    const size = RESOLUTION_MS[timeframe];
+    const current = Math.floor(bars[i].t / size) * size;
+    const closed = indexAtOrBefore(rolled, current - 1);
+    const open = rollUpBars(bars.slice(indexAtOrBefore(bars, current - 1) + 1, i + 1), timeframe);
+    result[timeframe] = rolled.slice(Math.max(0, closed + 1 - PRICE_HISTORY_MAX_BARS), closed + 1).concat(open).slice(-PRICE_HISTORY_MAX_BARS);
+  }
+  return result;
+}
+
+function changeOver(bars: PriceBar[], i: number, windowMs: number): number {
+  const j = Math.max(0, indexAtOrBefore(bars, bars[i].t - windowMs));
+  const base = bars[j].c;
+  return base > 0 ? ((bars[i].c - base) / base) * 100 : 0;
+}
+
+function signalAt(series: PreparedSeries, i: number, strategy: string, fearGreed: FearGreedReading | null): TokenSignal {
+  const { meta, bars } = series;
+  const bar = bars[i];
+  const lastClose = bars[bars.length - 1].c;
+  const window = bars.slice(Math.max(0, i + 1 - PRICE_HISTORY_MAX_BARS), i + 1);
+  const trailFrom = Math.max(0, i + 1 - TRAIL_LENGTH);
+  const trail: PriceEntry = {
+    prices: bars.slice(trailFrom, i + 1).map(b => b.c),
+    timestamps: bars.slice(trailFrom, i + 1).map(b => b.t),
+    volumes: series.vol24.slice(trailFrom, i + 1),
+  };
+
+  return scoreHistoricalToken({
+    id: meta.address,
+    address: meta.address,
+    symbol: meta.symbol,
+    name: meta.name ?? meta.symbol,
+    chain: meta.chain,
+    price: bar.c,
+    change1h: changeOver(bars, i, HOUR_MS),
+    change24h: changeOver(bars, i, DAY_MS),
+    volume: series.vol24[i],
+    mcap: meta.marketCap ? meta.marketCap * (bar.c / lastClose) : 0,
+    liq: meta.liquidity ?? 0,
+    holders: meta.holders ?? 0,
+    buys: series.up24[i],
+    sells: series.down24[i],
+    safety: meta.safetyScore ?? 50,
+    topHolderPct: null,
+    devWalletPct: null,
+    isTrending: false,
+    isBoosted: false,
+    createdAt: meta.createdAt ?? null,
+  }, trail, computeIndicatorsFromBars(window, bar.c, higherBarsAt(series, i)), strategy, bar.t, fearGreed);
+}
+
+// Rebuilds signals from OHLCV candles: one frame per distinct candle time,
+// each token scored on the bars it had up to then. Only fields derivable from
+// price and volume vary; live-only intel stays neutral.
+export function createCandleSource(series: CandleSeries[], fearGreed: FearGreedReading | null = null): MarketHistorySource {
+  const prepared = series.map(prepareSeries).filter((p): p is PreparedSeries => p !== null);
+  const times = Array.from(new Set(prepared.flatMap(p => p.bars.slice(MIN_BARS - 1).map(b => b.t)))).sort((a, b) => a - b);
+
+  return {
+    kind: "candles",
+    async *frames(strategy: string) {
+      for (const time of times) {
+        const signals: TokenSignal[] = [];
+        for (const p of prepared) {
+          const i = indexAtOrBefore(p.bars, time);
+          if (i < MIN_BARS - 1 || time - p.bars[i].t > p.stepMs * STALE_STEPS) continue;
+          signals.push(signalAt(p, i, strategy, fearGreed));
+        }
+        if (signals.length === 0) continue;
+        const breadth = applyMarketRegime(signals, strategy);
+        yield { time, signals, breadth };
+        // Scoring is synchronous; yield to the event loop between frames so a
+        // long replay does not stall request handling.
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    },
+  };
+}
+
+export function countCandleFrames(series: CandleSeries[]): number {
+  const prepared = series.map(prepareSeries).filter((p): p is PreparedSeries => p !== null);
+  return new Set(prepared.flatMap(p => p.bars.slice(MIN_BARS - 1).map(b => b.t))).size;
+}
+
+// Candles for the most traded live tokens on a chain, with their current
+// metadata. Requests are spaced out to stay under GeckoTerminal's rate limit.
+export async function loadCandleUniverse(chain: string, tokenCount: number, timeframe: string, bars: number): Promise<CandleSeries[]> {
+  const live = (await getLiveMemeTokens())
+    .filter(t => t.chain === chain && t.pairAddress && t.price > 0)
+    .sort((a, b) => (b.volume24h ?? 0) - (a.volume24h ?? 0))
+    .slice(0, tokenCount);
+
+  const series: CandleSeries[] = [];
+  for (const token of live) {
+    const candles = await fetchHistoricalOHLCV(chain, token.pairAddress!, timeframe, bars);
+    if (candles.length >= MIN_BARS) {
+      series.push({
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        chain: token.chain,
+        candles,
+        liquidity: token.liquidity ?? 0,
+        marketCap: token.marketCap ?? 0,
+        holders: token.holders ?? 0,
+        createdAt: token.createdAt,
+      });
+    }
+    await new Promise(r => setTimeout(r, 300));
+  }
+  return series;
+}
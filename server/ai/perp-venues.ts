@@ -0,0 +1,52 @@
+// Live shorts go through a perpetual-futures venue rather than a spot swap.
+// Each venue is an adapter registered at startup; none ship with the
+// terminal, so until one is registered live agents only short on paper and a
+// live short fails with a clear error.
+
+export interface PerpMarket {
+  chain: string;
+  tokenAddress: string;
+}
+
+export interface PerpOrder {
+  success: boolean;
+  // Tokens opened or closed, the same unit as a spot fill.
+  size: number;
+  // Average USD fill price, including the venue's fees.
+  price: number;
+  txHash: string | null;
+  explorerUrl: string | null;
+  error?: string;
+}
+
+export interface PerpVenue {
+  readonly name: string;
+  // Whether the venue lists a perp for this token.
+  supports(market: PerpMarket): Promise<boolean>;
+  // Opens or adds to a short worth `amount` of the chain's native asset as
+  // collateral.
+  openShort(privateKey: string, market: PerpMarket, amount: number): Promise<PerpOrder>;
+  closeShort(privateKey: string, market: PerpMarket, size: number): Promise<PerpOrder>;
+  // Short size the venue holds for this wallet.
+  shortSize(walletAddress: string, market: PerpMarket): Promise<number>;
+}
+
+const venues: PerpVenue[] = [];
+
+export function registerPerpVenue(venue: PerpVenue): void {
+  if (venues.some(v => v.name === venue.name)) return;
+  venues.push(venue);
+  console.log(`[Perps] Registered venue ${venue.name}`);
+}
+
+// The first registered venue that lists the market.
+export async function findPerpVenue(market: PerpMarket): Promise<PerpVenue | null> {
+  for (const venue of venues) {
+    try {
+      if (await venue.supports(market)) return venue;
+    } catch (err: any) {
+      console.error(`[Perps] ${venue.name} market lookup failed:`, err.message);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,61 @@
+import type { AgentPosition } from "@shared/schema";
+
+export type PositionSide = "long" | "short";
+
+export function positionSide(pos: Pick<AgentPosition, "side">): PositionSide {
+  return pos.side === "short" ? "short" : "long";
+}
+
+// +1 when a price rise is profit, -1 when it is loss.
+function direction(side: PositionSide): number {
+  return side === "short" ? -1 : 1;
+}
+
+export function sidePnl(side: PositionSide, entryPrice: number, price: number, size: number): number {
+  return direction(side) * (price - entryPrice) * size;
+}
+
+export function sidePnlPercent(side: PositionSide, entryPrice: number, price: number): number {
+  return entryPrice > 0 ? direction(side) * ((price - entryPrice) / entryPrice) * 100 : 0;
+}
+
+// Ratchets the position's most favourable price (see agentPositions.highestPrice).
+export function bestPrice(side: PositionSide, previous: number | null | undefined, entryPrice: number, price: number): number {
+  const best = previous || entryPrice;
+  return side === "short" ? Math.min(best, price) : Math.max(best, price);
+}
+
+// How far price has come back from the best price, in percent of it.
+export function givebackPercent(side: PositionSide, best: number, price: number): number {
+  return best > 0 ? direction(side) * ((best - price) / best) * 100 : 0;
+}
+
+// A stop on the losing side of `price`, `distance` away.
+export function stopBelow(side: PositionSide, price: number, distance: number): number {
+  return price - direction(side) * distance;
+}
+
+// The stop that locks in more of the move: the higher for a long, the lower
+// for a short.
+export function tighterStop(side: PositionSide, a: number, b: number): number {
+  return side === "short" ? Math.min(a, b) : Math.max(a, b);
+}
+
+export function stopHit(side: PositionSide, stop: number, price: number): boolean {
+  return side === "short" ? price >= stop : price <= stop;
+}
+
+// Trade types recorded for opening and closing a position.
+export function openTradeType(side: PositionSide): "buy" | "short" {
+  return side === "short" ? "short" : "buy";
+}
+
+export function closeTradeType(side: PositionSide): "sell" | "cover" {
+  return side === "short" ? "cover" : "sell";
+}
+
+// Shorts learn signal win rates under their own keys, so a signal that
+// works for shorts does not teach longs to buy it.
+export function learningSignals(side: PositionSide, signals: string[]): string[] {
+  return side === "short" ? signals.map(s => `SHORT:${s}`) : signals;
+}
@@ -0,0 +1,227 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import type { AiAgent, AgentPosition, AgentRiskSettings } from "@shared/schema";
+
+const limit = z.number().positive().nullable();
+
+export const riskLimitsSchema = z.object({
+  maxTotalExposure: limit,
+  maxTokenExposure: limit,
+  maxDailyLoss: limit,
+  maxDrawdown: limit,
+  rugAutoExit: z.boolean(),
+  rugExitSlippageBps: z.number().int().min(100).max(5000).nullable(),
+}).partial();
+export type RiskLimits = z.infer<typeof riskLimitsSchema>;
+
+export interface RiskTarget {
+  tokenSymbol: string;
+  tokenAddress: string | null | undefined;
+  chain: string;
+}
+
+export interface RiskCheck {
+  // USD of new exposure the owner's limits still allow; Infinity if unlimited.
+  headroom: number;
+  decision: string | null;
+  reason: string | null;
+}
+
+export interface PortfolioSnapshot {
+  equity: number;
+  totalExposure: number;
+  // Open notional per token across all agents, largest first.
+  tokenExposure: { token: string; chain: string; exposure: number }[];
+  openPositions: number;
+}
+
+const UNLIMITED: RiskCheck = { headroom: Infinity, decision: null, reason: null };
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+// Agents record a token by address when they have one; the symbol is only a
+// fallback, so the same token held by two agents lands on the same key.
+function tokenKey(chain: string | null, address: string | null | undefined, symbol: string): string {
+  return `${chain || "solana"}:${(address || symbol).toLowerCase()}`;
+}
+
+// Positions are sized in tokens whatever the execution mode, so this is USD.
+function notional(pos: AgentPosition): number {
+  return pos.size * pos.currentPrice;
+}
+
+async function loadOpenPositions(userId: string): Promise<{ agents: AiAgent[]; positions: AgentPosition[] }> {
+  const agents = await storage.getAiAgents(userId);
+  const positions = await storage.getOpenPositionsForAgents(agents.map(a => a.id));
+  return { agents, positions };
+}
+
+export async function measurePortfolio(userId: string): Promise<PortfolioSnapshot> {
+  const { agents, positions } = await loadOpenPositions(userId);
+  const realized = await storage.getRealizedAgentPnl(agents.map(a => a.id));
+
+  const byToken = new Map<string, { token: string; chain: string; exposure: number }>();
+  for (const pos of positions) {
+    const key = tokenKey(pos.chain, pos.tokenAddress, pos.tokenSymbol);
+    const entry = byToken.get(key) || { token: pos.tokenSymbol, chain: pos.chain || "solana", exposure: 0 };
+    entry.exposure += notional(pos);
+    byToken.set(key, entry);
+  }
+
+  return {
+    equity: realized + positions.reduce((sum, p) => sum + (p.unrealizedPnl ?? 0), 0),
+    totalExposure: positions.reduce((sum, p) => sum + notional(p), 0),
+    tokenExposure: Array.from(byToken.values()).sort((a, b) => b.exposure - a.exposure),
+    openPositions: positions.length,
+  };
+}
+
+// Raises the peak and starts a new day's baseline when the UTC date changes.
+// Returns only the marks that moved.
+function rollEquityMarks(settings: AgentRiskSettings, equity: number, now: number): Partial<AgentRiskSettings> {
+  const marks: Partial<AgentRiskSettings> = {};
+  if (equity > settings.equityPeak) marks.equityPeak = equity;
+  const today = utcDay(now);
+  if (settings.equityDay !== today) {
+    marks.equityDay = today;
+    marks.dayStartEquity = equity;
+  }
+  return marks;
+}
+
+function findBreach(settings: AgentRiskSettings, equity: number): { decision: string; reason: string } | null {
+  const dailyLoss = settings.dayStartEquity - equity;
+  if (settings.maxDailyLoss != null && dailyLoss >= settings.maxDailyLoss) {
+    return { decision: "daily_loss_limit", reason: `Daily loss $${dailyLoss.toFixed(2)} reached the $${settings.maxDailyLoss} limit` };
+  }
+  const drawdown = settings.equityPeak - equity;
+  if (settings.maxDrawdown != null && drawdown >= settings.maxDrawdown) {
+    return { decision: "drawdown_limit", reason: `Drawdown $${drawdown.toFixed(2)} from equity peak reached the $${settings.maxDrawdown} limit` };
+  }
+  return null;
+}
+
+export function describeRisk(settings: AgentRiskSettings | undefined, portfolio: PortfolioSnapshot) {
+  return {
+    maxTotalExposure: settings?.maxTotalExposure ?? null,
+    maxTokenExposure: settings?.maxTokenExposure ?? null,
+    maxDailyLoss: settings?.maxDailyLoss ?? null,
+    maxDrawdown: settings?.maxDrawdown ?? null,
+    killSwitchActive: settings?.killSwitchActive ?? false,
+    killSwitchReason: settings?.killSwitchReason ?? null,
+    killSwitchAt: settings?.killSwitchAt ?? null,
+    rugAutoExit: settings?.rugAutoExit ?? false,
+    rugExitSlippageBps: settings?.rugExitSlippageBps ?? null,
+    equityPeak: settings ? Math.max(settings.equityPeak, portfolio.equity) : portfolio.equity,
+    dailyPnl: settings?.equityDay === utcDay(Date.now()) ? portfolio.equity - settings.dayStartEquity : 0,
+    drawdown: settings ? Math.max(0, settings.equityPeak - portfolio.equity) : 0,
+    ...portfolio,
+  };
+}
+
+// Stops the given agents, logging and announcing each one.
+export async function haltAgents(agents: AiAgent[], reason: string, decision: string, broadcast: (data: any) => void): Promise<void> {
+  await Promise.all(agents.map(async agent => {
+    await Promise.all([
+      storage.updateAiAgent(agent.id, { status: "stopped" }),
+      storage.createAgentLog({
+        agentId: agent.id, action: "stopped", reasoning: reason,
+        tokensAnalyzed: 0, decision, confidence: 0,
+      }),
+    ]);
+    broadcast({ type: "agent_update", data: { agentId: agent.id, action: decision, reasoning: reason } });
+  }));
+}
+
+// Saves the new limits, taking the current equity as the starting peak and
+// day baseline the first time limits are set.
+export async function saveRiskLimits(userId: string, limits: RiskLimits): Promise<AgentRiskSettings> {
+  const existing = await storage.getAgentRiskSettings(userId);
+  if (existing) return storage.upsertAgentRiskSettings(userId, limits);
+  const { equity } = await measurePortfolio(userId);
+  return storage.upsertAgentRiskSettings(userId, {
+    ...limits, equityPeak: equity, dayStartEquity: equity, equityDay: utcDay(Date.now()),
+  });
+}
+
+// Clearing the switch re-bases the peak and the day's baseline on current
+// equity; otherwise the loss that tripped it would trip it again at once.
+export async function resetKillSwitch(userId: string): Promise<AgentRiskSettings | undefined> {
+  const existing = await storage.getAgentRiskSettings(userId);
+  if (!existing) return undefined;
+  const { equity } = await measurePortfolio(userId);
+  return storage.upsertAgentRiskSettings(userId, {
+    killSwitchActive: false, killSwitchReason: null, killSwitchAt: null,
+    equityPeak: equity, dayStartEquity: equity, equityDay: utcDay(Date.now()),
+  });
+}
+
+// Runs before the owner's agents cycle. Updates the equity marks and, on a
+// daily-loss or drawdown breach, trips the kill switch and stops every
+// running agent. Returns true when the agents must not cycle.
+export async function enforcePortfolioRisk(userId: string, running: AiAgent[], broadcast: (data: any) => void): Promise<boolean> {
+  const settings = await storage.getAgentRiskSettings(userId);
+  if (!settings) return false;
+
+  if (settings.killSwitchActive) {
+    await haltAgents(running, `Kill switch active: ${settings.killSwitchReason}`, "kill_switch", broadcast);
+    return true;
+  }
+
+  const now = Date.now();
+  const { equity } = await measurePortfolio(userId);
+  const marks = rollEquityMarks(settings, equity, now);
+  if (Object.keys(marks).length > 0) {
+    await storage.upsertAgentRiskSettings(userId, marks);
+    Object.assign(settings, marks);
+  }
+
+  const breach = findBreach(settings, equity);
+  if (!breach) return false;
+
+  if (await storage.tripAgentKillSwitch(userId, breach.reason)) {
+    console.warn(`[Risk] Kill switch tripped for user ${userId}: ${breach.reason}`);
+  }
+  await haltAgents(running, `Kill switch: ${breach.reason}`, breach.decision, broadcast);
+  return true;
+}
+
+// How much a buy may add under the owner's exposure caps, counting every
+// agent's open positions.
+export async function checkPortfolioRisk(agent: AiAgent, target: RiskTarget): Promise<RiskCheck> {
+  if (!agent.userId) return UNLIMITED;
+  const settings = await storage.getAgentRiskSettings(agent.userId);
+  if (!settings) return UNLIMITED;
+  if (settings.killSwitchActive) {
+    return { headroom: 0, decision: "kill_switch", reason: `Kill switch active: ${settings.killSwitchReason}` };
+  }
+  if (settings.maxTotalExposure == null && settings.maxTokenExposure == null) return UNLIMITED;
+
+  const { positions } = await loadOpenPositions(agent.userId);
+  const key = tokenKey(target.chain, target.tokenAddress, target.tokenSymbol);
+  const total = positions.reduce((sum, p) => sum + notional(p), 0);
+  const token = positions
+    .filter(p => tokenKey(p.chain, p.tokenAddress, p.tokenSymbol) === key)
+    .reduce((sum, p) => sum + notional(p), 0);
+
+  let check = UNLIMITED;
+  if (settings.maxTotalExposure != null) {
+    const headroom = Math.max(0, settings.maxTotalExposure - total);
+    check = {
+      headroom, decision: "portfolio_exposure",
+      reason: `Portfolio exposure $${total.toFixed(2)} of $${settings.maxTotalExposure} across all agents`,
+    };
+  }
+  if (settings.maxTokenExposure != null) {
+    const headroom = Math.max(0, settings.maxTokenExposure - token);
+    if (headroom < check.headroom) {
+      check = {
+        headroom, decision: "token_exposure",
+        reason: `${target.tokenSymbol} exposure $${token.toFixed(2)} of $${settings.maxTokenExposure} across all agents`,
+      };
+    }
+  }
+  return check;
+}
@@ -7,6 +7,7 @@ import { getSocialSignalForToken, type SocialSignal } from "../social-sentiment"
 import { getNewsSentimentForToken, getOverallMarketNewsSentiment } from "../news-scanner";
 import { getFearGreedSignal } from "../fear-greed";
 import { getLiquiditySignalForToken, getMarketLiquidityFlow, computeLiquidityHealthScore } from "../liquidity-tracker";
+import { sidePnlPercent, stopHit, type PositionSide } from "./position-side";
 
 export interface TokenSignal {
   id: string | number;
@@ -65,12 +66,50 @@ export interface TokenSignal {
   liquidityGrowing: boolean;
 }
 
-interface PriceEntry {
+export interface PriceEntry {
   prices: number[];
   timestamps: number[];
   volumes: number[];
 }
 
+// Market fields a signal is scored from, whether they come from the live
+// feeds or are reconstructed from candles.
+export interface TokenMarketData {
+  id: string | number;
+  address: string;
+  symbol: string;
+  name: string;
+  chain: string;
+  price: number;
+  change1h: number;
+  change24h: number;
+  volume: number;
+  mcap: number;
+  liq: number;
+  holders: number;
+  buys: number;
+  sells: number;
+  safety: number;
+  topHolderPct: number | null;
+  devWalletPct: number | null;
+  isTrending: boolean;
+  isBoosted: boolean;
+  createdAt: string | null;
+}
+
+interface TokenIntel {
+  smSignal: SmartMoneyTokenSignal | null;
+  socialSignal: SocialSignal | null;
+  newsSignal: ReturnType<typeof getNewsSentimentForToken>;
+  marketNewsSentiment: ReturnType<typeof getOverallMarketNewsSentiment>;
+  fearGreedData: ReturnType<typeof getFearGreedSignal>;
+  liqSignal: ReturnType<typeof getLiquiditySignalForToken>;
+  marketLiqFlow: ReturnType<typeof getMarketLiquidityFlow>;
+  liqHealthScore: number;
+}
+
+export type FearGreedReading = ReturnType<typeof getFearGreedSignal>;
+
 const priceHistory = new Map<string, PriceEntry>();
 const PRICE_HISTORY_MAX = 60;
 
@@ -91,8 +130,7 @@ function trackPrice(tokenKey: string, price: number, volume?: number): void {
   priceHistory.set(tokenKey, entry);
 }
 
-function computeVolatility(tokenKey: string, currentPrice: number): number {
-  const entry = priceHistory.get(tokenKey);
+function computeVolatility(entry: PriceEntry | undefined): number {
   if (!entry || entry.prices.length < 4) return 50;
 
   const recent = entry.prices.slice(-10);
@@ -156,8 +194,7 @@ function computeDynamicTakeProfit(volatility: number, marketRegime: string, stra
   return Math.round(base * multiplier);
 }
 
-function getMomentumAcceleration(tokenKey: string, currentChange1h: number): number {
-  const entry = priceHistory.get(tokenKey);
+function getMomentumAcceleration(entry: PriceEntry | undefined): number {
   if (!entry || entry.prices.length < 3) return 0;
 
   const recent = entry.prices.slice(-5);
@@ -177,11 +214,9 @@ function getMomentumAcceleration(tokenKey: string, currentChange1h: number): num
   return avgRecentChange - avgOlderChange;
 }
 
-function getShortTermMomentum(tokenKey: string): number {
-  const entry = priceHistory.get(tokenKey);
+function getShortTermMomentum(entry: PriceEntry | undefined, now: number): number {
   if (!entry || entry.prices.length < 3) return 50;
 
-  const now = Date.now();
   const fiveMinAgo = now - 5 * 60 * 1000;
   const recentPrices: number[] = [];
   for (let i = entry.prices.length - 1; i >= 0; i--) {
@@ -201,8 +236,7 @@ function getShortTermMomentum(tokenKey: string): number {
   return Math.max(0, Math.min(100, 50 + change * 3));
 }
 
-function detectVolumeBreakout(tokenKey: string, currentVolume: number): boolean {
-  const entry = priceHistory.get(tokenKey);
+function detectVolumeBreakout(entry: PriceEntry | undefined, currentVolume: number): boolean {
   if (!entry || entry.volumes.length < 5) return false;
 
   const recentVols = entry.volumes.slice(-10).filter(v => v > 0);
@@ -623,9 +657,9 @@ function getSafetyGrade(score: number): string {
   return "F";
 }
 
-function computeTokenAge(createdAt: string | null | undefined): { label: string; hours: number } {
+function computeTokenAge(createdAt: string | null | undefined, now: number): { label: string; hours: number } {
   if (!createdAt) return { label: "unknown", hours: 999 };
-  const ageMs = Date.now() - new Date(createdAt).getTime();
+  const ageMs = now - new Date(createdAt).getTime();
   const hours = ageMs / (1000 * 60 * 60);
   let label: string;
   if (hours < 1) label = `${Math.round(hours * 60)}m`;
@@ -721,6 +755,23 @@ function generateSignals(token: TokenSignal): string[] {
   if (tech.trendStrength >= 75) signals.push("STRONG_TREND");
   else if (tech.trendStrength <= 25) signals.push("WEAK_TREND");
 
+  // Lower-timeframe setups only count when the 15m and 1h trend agrees.
+  const tf5m = tech.timeframes["5m"];
+  if (tech.mtfAlignment === "bullish") signals.push("MTF_BULLISH_ALIGNED");
+  else if (tech.mtfAlignment === "bearish") signals.push("MTF_BEARISH_ALIGNED");
+
+  if (tech.htfTrend === "bullish") {
+    if (tech.emaCrossover === "golden_cross" || tf5m?.emaCrossover === "golden_cross") signals.push("MTF_GOLDEN_CROSS");
+    if (tech.isPullback || tf5m?.isPullback) signals.push("MTF_PULLBACK_ENTRY");
+    if ((tech.supertrendFlip && tech.supertrend === "up") || (tf5m?.supertrendFlip && tf5m.supertrend === "up")) signals.push("SUPERTREND_FLIP_UP");
+    if (tech.donchianBreakout === "up" && (tech.obvTrend === "rising" || tech.volumeTrend === "increasing")) signals.push("DONCHIAN_BREAKOUT");
+    if (tech.stochRsiK < 20 && tech.stochRsiK > tech.stochRsiD && tech.priceVsVwap > -3) signals.push("STOCH_RSI_HTF_BOUNCE");
+  } else if (tech.htfTrend === "bearish") {
+    if (tech.emaCrossover === "death_cross" || tf5m?.emaCrossover === "death_cross") signals.push("MTF_DEATH_CROSS");
+    if ((tech.supertrendFlip && tech.supertrend === "down") || (tf5m?.supertrendFlip && tf5m.supertrend === "down")) signals.push("SUPERTREND_FLIP_DOWN");
+    if (tech.donchianBreakout === "down") signals.push("DONCHIAN_BREAKDOWN");
+  }
+
   if (token.socialSentimentScore >= 80) signals.push("SOCIAL_BUZZ_HIGH");
   else if (token.socialSentimentScore >= 65) signals.push("SOCIAL_POSITIVE");
   else if (token.socialSentimentScore <= 25) signals.push("SOCIAL_NEGATIVE");
@@ -759,35 +810,90 @@ function mergeAndScoreToken(
   const source = liveToken || dbToken;
   if (!source) return null;
 
-  const price = liveToken?.price ?? dbToken?.price ?? 0;
-  const change1h = liveToken?.priceChange1h ?? dbToken?.priceChange1h ?? 0;
-  const change24h = liveToken?.priceChange24h ?? dbToken?.priceChange24h ?? 0;
-  const volume = liveToken?.volume24h ?? dbToken?.volume24h ?? 0;
-  const mcap = liveToken?.marketCap ?? dbToken?.marketCap ?? 0;
-  const liq = liveToken?.liquidity ?? dbToken?.liquidity ?? 0;
-  const holders = liveToken?.holders ?? dbToken?.holders ?? 0;
-  const buys = liveToken?.buys24h ?? dbToken?.buys24h ?? 0;
-  const sells = liveToken?.sells24h ?? dbToken?.sells24h ?? 0;
-  const safety = safetyReport?.overallScore ?? 50;
-  const topHolderPct = dbToken?.topHolderPercent ?? null;
-  const devWalletPct = liveToken?.devWalletPercent ?? dbToken?.devWalletPercent ?? null;
-  const symbol = liveToken?.symbol ?? dbToken?.symbol ?? "";
-  const address = liveToken?.address ?? dbToken?.address ?? "";
-  const chain = liveToken?.chain ?? dbToken?.chain ?? "solana";
-
-  const tokenKey = makeTokenKey(address, chain);
-  trackPrice(tokenKey, price, volume);
-  updatePriceHistory(tokenKey, price, volume);
-  const acceleration = getMomentumAcceleration(tokenKey, change1h);
-  const shortTermMom = getShortTermMomentum(tokenKey);
-  const volatilityScore = computeVolatility(tokenKey, price);
-  const volBreakout = detectVolumeBreakout(tokenKey, volume);
+  const market: TokenMarketData = {
+    id: liveToken?.id ?? dbToken?.id ?? 0,
+    address: liveToken?.address ?? dbToken?.address ?? "",
+    symbol: liveToken?.symbol ?? dbToken?.symbol ?? "",
+    name: liveToken?.name ?? dbToken?.name ?? "",
+    chain: liveToken?.chain ?? dbToken?.chain ?? "solana",
+    price: liveToken?.price ?? dbToken?.price ?? 0,
+    change1h: liveToken?.priceChange1h ?? dbToken?.priceChange1h ?? 0,
+    change24h: liveToken?.priceChange24h ?? dbToken?.priceChange24h ?? 0,
+    volume: liveToken?.volume24h ?? dbToken?.volume24h ?? 0,
+    mcap: liveToken?.marketCap ?? dbToken?.marketCap ?? 0,
+    liq: liveToken?.liquidity ?? dbToken?.liquidity ?? 0,
+    holders: liveToken?.holders ?? dbToken?.holders ?? 0,
+    buys: liveToken?.buys24h ?? dbToken?.buys24h ?? 0,
+    sells: liveToken?.sells24h ?? dbToken?.sells24h ?? 0,
+    safety: safetyReport?.overallScore ?? 50,
+    topHolderPct: dbToken?.topHolderPercent ?? null,
+    devWalletPct: liveToken?.devWalletPercent ?? dbToken?.devWalletPercent ?? null,
+    isTrending: liveToken ? (liveToken.boosts ?? 0) > 0 : dbToken?.isTrending || false,
+    isBoosted: (liveToken?.boosts ?? 0) > 50,
+    createdAt: (liveToken as any)?.createdAt || (dbToken as any)?.createdAt || null,
+  };
+
+  const tokenKey = makeTokenKey(market.address, market.chain);
+  trackPrice(tokenKey, market.price, market.volume);
+  updatePriceHistory(market.chain, market.address, market.price, market.volume);
+  const technicals = computeTechnicalIndicators(market.chain, market.address, market.price);
+
+  const intel: TokenIntel = {
+    smSignal: getSmartMoneySignalForToken(market.address, market.chain),
+    socialSignal: getSocialSignalForToken(market.symbol),
+    newsSignal: getNewsSentimentForToken(market.symbol),
+    marketNewsSentiment: getOverallMarketNewsSentiment(),
+    fearGreedData: getFearGreedSignal(),
+    liqSignal: getLiquiditySignalForToken(market.address, market.chain),
+    marketLiqFlow: getMarketLiquidityFlow(),
+    liqHealthScore: computeLiquidityHealthScore(market.address, market.chain),
+  };
+
+  return scoreToken(market, priceHistory.get(tokenKey), technicals, intel, marketRegime, strategy, Date.now());
+}
+
+// Scores a token reconstructed from recorded candles. Live-only intel (smart
+// money, social, news, liquidity flows) is neutral because it was never
+// captured historically; a recorded fear & greed reading can be supplied.
+export function scoreHistoricalToken(
+  market: TokenMarketData,
+  trail: PriceEntry,
+  technicals: TechnicalIndicators,
+  strategy: string,
+  now: number,
+  fearGreed?: FearGreedReading | null
+): TokenSignal {
+  const intel: TokenIntel = {
+    smSignal: null,
+    socialSignal: null,
+    newsSignal: { sentiment: 50, hasHighImpact: false, newsCount: 0 },
+    marketNewsSentiment: 50,
+    fearGreedData: fearGreed ?? { value: 50, classification: "Neutral", trend: "stable", tradingBias: "hold", confidence: 50 },
+    liqSignal: null,
+    marketLiqFlow: { direction: "neutral", totalTracked: 0, avgChange: 0, drainingTokens: 0, growingTokens: 0, abnormalCount: 0 },
+    liqHealthScore: 50,
+  };
+  return scoreToken(market, trail, technicals, intel, "neutral", strategy, now);
+}
+
+function scoreToken(
+  market: TokenMarketData,
+  history: PriceEntry | undefined,
+  technicals: TechnicalIndicators,
+  intel: TokenIntel,
+  marketRegime: string,
+  strategy: string,
+  now: number
+): TokenSignal {
+  const { price, change1h, change24h, volume, mcap, liq, holders, buys, sells, safety, topHolderPct, devWalletPct, symbol, address, chain } = market;
+
+  const acceleration = getMomentumAcceleration(history);
+  const shortTermMom = getShortTermMomentum(history, now);
+  const volatilityScore = computeVolatility(history);
+  const volBreakout = detectVolumeBreakout(history, volume);
   const whaleAct = detectWhaleActivity(buys, sells, volume, liq, change1h);
-  const technicals = computeTechnicalIndicators(tokenKey, price);
 
-  const { label: ageLabel, hours: ageHours } = computeTokenAge(
-    (liveToken as any)?.createdAt || (dbToken as any)?.createdAt || null
-  );
+  const { label: ageLabel, hours: ageHours } = computeTokenAge(market.createdAt, now);
   const lifecycle = getLifecyclePhase(ageHours, holders, liq);
 
   const momentumScore = computeMomentumScore(change1h, change24h, acceleration, shortTermMom);
@@ -795,24 +901,17 @@ function mergeAndScoreToken(
   const buyPressureScore = computeBuyPressure(buys, sells);
   const liquidityScore = computeLiquidityScore(liq);
 
-  const isTrending = liveToken ? (liveToken.boosts ?? 0) > 0 : dbToken?.isTrending || false;
-  const isBoosted = (liveToken?.boosts ?? 0) > 50;
+  const { isTrending, isBoosted } = market;
 
   const rugRiskScore = computeRugRiskScore(liq, holders, mcap, topHolderPct, devWalletPct, safety, ageHours);
-  const smSignal = getSmartMoneySignalForToken(address, chain);
-  const socialSignal = getSocialSignalForToken(symbol);
+  const { smSignal, socialSignal } = intel;
   const smartMoneyScore = computeSmartMoneyScore(isTrending, isBoosted, volume, buys, sells, liq, holders, whaleAct, smSignal);
   const { score: socialSentimentScore, isSpike: socialSpike } = computeSocialSentimentBoost(socialSignal);
   const smFlow = classifySmartMoneyFlow(smSignal);
   const volumeToLiqRatio = liq > 0 ? volume / liq : 0;
   const holderConcentrationRisk = topHolderPct ? Math.min(100, topHolderPct * 1.5) : 30;
 
-  const newsSignal = getNewsSentimentForToken(symbol);
-  const marketNewsSentiment = getOverallMarketNewsSentiment();
-  const fearGreedData = getFearGreedSignal();
-  const liqSignal = getLiquiditySignalForToken(address, chain);
-  const marketLiqFlow = getMarketLiquidityFlow();
-  const liqHealthScore = computeLiquidityHealthScore(liqSignal);
+  const { newsSignal, marketNewsSentiment, fearGreedData, liqSignal, marketLiqFlow, liqHealthScore } = intel;
 
   const newsSentiment: "bullish" | "bearish" | "neutral" = newsSignal
     ? (newsSignal.overallSentiment > 0.3 ? "bullish" : newsSignal.overallSentiment < -0.3 ? "bearish" : "neutral")
@@ -883,10 +982,10 @@ function mergeAndScoreToken(
   );
 
   const signal: TokenSignal = {
-    id: liveToken?.id ?? dbToken?.id ?? 0,
+    id: market.id,
     address,
     symbol,
-    name: liveToken?.name ?? dbToken?.name ?? "",
+    name: market.name,
     chain,
     price,
     priceChange1h: change1h,
@@ -990,14 +1089,21 @@ export async function getMarketSignals(chain?: string, strategy?: string): Promi
     }
   }
 
+  lastComputedBreadth = applyMarketRegime(signals, strat);
+  return signals;
+}
+
+// Second pass once the whole universe is scored: derive the market regime from
+// breadth, re-weight every signal for it and sort by score. Returns the breadth.
+export function applyMarketRegime(signals: TokenSignal[], strategy: string): MarketBreadth {
   const breadth = computeMarketBreadth(signals);
   const regime = breadth.regime;
   const weights = getAdaptiveWeights(regime);
 
   for (const s of signals) {
     s.marketRegime = regime;
-    s.dynamicStopLoss = Math.round(computeDynamicStopLoss(s.volatility, strat) * 10) / 10;
-    s.dynamicTakeProfit = computeDynamicTakeProfit(s.volatility, regime, strat);
+    s.dynamicStopLoss = Math.round(computeDynamicStopLoss(s.volatility, strategy) * 10) / 10;
+    s.dynamicTakeProfit = computeDynamicTakeProfit(s.volatility, regime, strategy);
 
     const techBonus =
       (s.technicals.emaTrendAlignment === "bullish" ? 4 : s.technicals.emaTrendAlignment === "bearish" ? -4 : 0) +
@@ -1030,9 +1136,7 @@ export async function getMarketSignals(chain?: string, strategy?: string): Promi
   }
 
   signals.sort((a, b) => b.overallSignalScore - a.overallSignalScore);
-
-  lastComputedBreadth = breadth;
-  return signals;
+  return breadth;
 }
 
 export function formatSignalsForAI(signals: TokenSignal[], limit = 30): string {
@@ -1040,7 +1144,7 @@ export function formatSignalsForAI(signals: TokenSignal[], limit = 30): string {
   const lines = top.map((s, i) => {
     const signalTags = s.signals.length > 0 ? ` [${s.signals.join(", ")}]` : "";
     const t = s.technicals;
-    const techStr = ` | RSI: ${t.rsi14} | EMA: ${t.emaTrendAlignment} | MACD: ${t.macdHistogram > 0 ? "+" : ""}${(t.macdHistogram * 1e6).toFixed(1)} | ATR%: ${t.atrPercent}% | Trend: ${t.trendStrength} | P/E9: ${t.priceVsEma9 >= 0 ? "+" : ""}${t.priceVsEma9}% | P/E21: ${t.priceVsEma21 >= 0 ? "+" : ""}${t.priceVsEma21}%${t.isPullback ? " | PULLBACK" : ""}${t.isOverextended ? " | OVEREXTD" : ""}${t.emaCrossover !== "none" ? ` | ${t.emaCrossover.toUpperCase()}` : ""}${t.rsiDivergence !== "none" ? ` | RSI_DIV:${t.rsiDivergence}` : ""}`;
+    const techStr = ` | RSI: ${t.rsi14} | EMA: ${t.emaTrendAlignment} | MACD: ${t.macdHistogram > 0 ? "+" : ""}${(t.macdHistogram * 1e6).toFixed(1)} | ATR%: ${t.atrPercent}% | Trend: ${t.trendStrength} | P/E9: ${t.priceVsEma9 >= 0 ? "+" : ""}${t.priceVsEma9}% | P/E21: ${t.priceVsEma21 >= 0 ? "+" : ""}${t.priceVsEma21}%${t.isPullback ? " | PULLBACK" : ""}${t.isOverextended ? " | OVEREXTD" : ""}${t.emaCrossover !== "none" ? ` | ${t.emaCrossover.toUpperCase()}` : ""}${t.rsiDivergence !== "none" ? ` | RSI_DIV:${t.rsiDivergence}` : ""} | StRSI: ${t.stochRsiK}/${t.stochRsiD} | P/VWAP: ${t.priceVsVwap >= 0 ? "+" : ""}${t.priceVsVwap}% | ST: ${t.supertrend} | BBW: ${t.bollingerWidth}% | MTF: ${t.mtfAlignment}(${t.mtfBullishCount}up/${t.mtfBearishCount}dn) | HTF: ${t.htfTrend}`;
     const socialStr = s.socialSentimentScore !== 50 || s.socialSpike ? ` | Social: ${s.socialSentimentScore}${s.socialSpike ? " SPIKE" : ""}` : "";
     const smFlowStr = s.smartMoneyFlow !== "neutral" ? ` | SM$Flow: ${s.smartMoneyFlow.toUpperCase()}` : "";
     const newsStr = s.newsSentiment !== "neutral" ? ` | News: ${s.newsSentiment.toUpperCase()}(${s.newsImpact})` : "";
@@ -1052,86 +1156,231 @@ export function formatSignalsForAI(signals: TokenSignal[], limit = 30): string {
   return lines.join("\n");
 }
 
-export function getTopBuySignals(signals: TokenSignal[], strategy: string): TokenSignal[] {
-  const hardFiltered = signals.filter(s =>
-    s.liquidity >= 10_000 &&
-    s.price > 0 &&
-    s.rugRiskScore < 70 &&
-    s.whaleActivity !== "distributing" &&
-    !s.technicals.isOverextended &&
-    s.technicals.rsi14 < 82 &&
-    s.technicals.emaTrendAlignment !== "bearish" &&
-    s.smartMoneyFlow !== "strong_sell"
-  );
+// One named condition of a buy shortlist. The name is what a decision
+// explanation shows when the condition rejects a token.
+type ShortlistFilter = [name: string, test: (s: TokenSignal) => boolean];
+
+const HARD_BUY_FILTERS: ShortlistFilter[] = [
+  ["liquidity >= $10k", s => s.liquidity >= 10_000],
+  ["price > 0", s => s.price > 0],
+  ["rugRisk < 70", s => s.rugRiskScore < 70],
+  ["whales not distributing", s => s.whaleActivity !== "distributing"],
+  ["not overextended", s => !s.technicals.isOverextended],
+  ["RSI < 82", s => s.technicals.rsi14 < 82],
+  ["EMA trend not bearish", s => s.technicals.emaTrendAlignment !== "bearish"],
+  ["smart money not strong_sell", s => s.smartMoneyFlow !== "strong_sell"],
+];
+
+const without = (signal: string): ShortlistFilter => [`no ${signal}`, s => !s.signals.includes(signal)];
+
+const STRATEGY_BUY_FILTERS: Record<string, { filters: ShortlistFilter[]; limit: number }> = {
+  conservative: {
+    limit: 5,
+    filters: [
+      ["safety >= 65", s => s.safetyScore >= 65],
+      ["liquidityScore >= 55", s => s.liquidityScore >= 55],
+      ["momentum >= 55", s => s.momentumScore >= 55],
+      ["buyPressure >= 55", s => s.buyPressureScore >= 55],
+      ["rugRisk < 30", s => s.rugRiskScore < 30],
+      ["conviction >= 50", s => s.conviction >= 50],
+      ["age >= 12h", s => s.ageHours >= 12],
+      ["volatility < 85", s => s.volatility < 85],
+      ["not in launch phase", s => s.lifecyclePhase !== "launch"],
+      ["RSI 25-68", s => s.technicals.rsi14 >= 25 && s.technicals.rsi14 <= 68],
+      ["trendStrength >= 45", s => s.technicals.trendStrength >= 45],
+      ["bullish EMA or pullback", s => s.technicals.emaTrendAlignment === "bullish" || s.technicals.isPullback],
+      without("SAFETY_RISK"),
+      without("LOW_LIQUIDITY_RISK"),
+      without("HIGH_RUG_RISK"),
+      without("WHALE_CONCENTRATION"),
+      without("WHALE_DISTRIBUTING"),
+      without("DEATH_CROSS"),
+      without("MACD_BEARISH"),
+      ["smart money not selling", s => s.smartMoneyFlow !== "sell" && s.smartMoneyFlow !== "strong_sell"],
+    ],
+  },
+  balanced: {
+    limit: 8,
+    filters: [
+      ["safety >= 45", s => s.safetyScore >= 45],
+      ["liquidityScore >= 40", s => s.liquidityScore >= 40],
+      ["momentum >= 58", s => s.momentumScore >= 58],
+      ["buyPressure >= 52", s => s.buyPressureScore >= 52],
+      ["signalScore >= 55", s => s.overallSignalScore >= 55],
+      ["rugRisk < 45", s => s.rugRiskScore < 45],
+      ["conviction >= 40", s => s.conviction >= 40],
+      ["RSI 22-75", s => s.technicals.rsi14 >= 22 && s.technicals.rsi14 <= 75],
+      ["trendStrength >= 40", s => s.technicals.trendStrength >= 40],
+      without("HIGH_RUG_RISK"),
+      without("WHALE_DISTRIBUTING"),
+      without("DEATH_CROSS"),
+    ],
+  },
+  aggressive: {
+    limit: 12,
+    filters: [
+      ["momentum >= 65", s => s.momentumScore >= 65],
+      ["volumeScore >= 55", s => s.volumeScore >= 55],
+      ["signalScore >= 58", s => s.overallSignalScore >= 58],
+      ["liquidityScore >= 25", s => s.liquidityScore >= 25],
+      ["rugRisk < 55", s => s.rugRiskScore < 55],
+      ["conviction >= 35", s => s.conviction >= 35],
+      ["RSI <= 78", s => s.technicals.rsi14 <= 78],
+      ["trendStrength >= 35", s => s.technicals.trendStrength >= 35],
+    ],
+  },
+  degen: {
+    limit: 15,
+    filters: [
+      ["momentum >= 70", s => s.momentumScore >= 70],
+      ["signalScore >= 50", s => s.overallSignalScore >= 50],
+      ["conviction >= 25", s => s.conviction >= 25],
+      ["rugRisk < 65", s => s.rugRiskScore < 65],
+      ["RSI <= 85", s => s.technicals.rsi14 <= 85],
+    ],
+  },
+};
+
+const DEFAULT_BUY_FILTERS = {
+  limit: 10,
+  filters: [
+    ["signalScore >= 55", s => s.overallSignalScore >= 55],
+    ["conviction >= 35", s => s.conviction >= 35],
+  ] as ShortlistFilter[],
+};
+
+// A custom entry rule replaces the strategy's own filter; the hard safety
+// filter applies either way.
+function buyShortlist(strategy: string, entryRule?: (signal: TokenSignal) => boolean): { filters: ShortlistFilter[]; limit: number } {
+  if (entryRule) return { filters: [...HARD_BUY_FILTERS, ["custom entry rule", entryRule]], limit: 8 };
+  const shortlist = STRATEGY_BUY_FILTERS[strategy] || DEFAULT_BUY_FILTERS;
+  return { filters: [...HARD_BUY_FILTERS, ...shortlist.filters], limit: shortlist.limit };
+}
+
+export function getTopBuySignals(signals: TokenSignal[], strategy: string, entryRule?: (signal: TokenSignal) => boolean): TokenSignal[] {
+  const { filters, limit } = buyShortlist(strategy, entryRule);
+  return signals.filter(s => filters.every(([, test]) => test(s))).slice(0, limit);
+}
 
-  switch (strategy) {
-    case "conservative":
-      return hardFiltered.filter(s =>
-        s.safetyScore >= 65 &&
-        s.liquidityScore >= 55 &&
-        s.momentumScore >= 55 &&
-        s.buyPressureScore >= 55 &&
-        s.rugRiskScore < 30 &&
-        s.conviction >= 50 &&
-        s.ageHours >= 12 &&
-        s.volatility < 85 &&
-        s.lifecyclePhase !== "launch" &&
-        s.technicals.rsi14 >= 25 && s.technicals.rsi14 <= 68 &&
-        s.technicals.trendStrength >= 45 &&
-        (s.technicals.emaTrendAlignment === "bullish" || s.technicals.isPullback) &&
-        !s.signals.includes("SAFETY_RISK") &&
-        !s.signals.includes("LOW_LIQUIDITY_RISK") &&
-        !s.signals.includes("HIGH_RUG_RISK") &&
-        !s.signals.includes("WHALE_CONCENTRATION") &&
-        !s.signals.includes("WHALE_DISTRIBUTING") &&
-        !s.signals.includes("DEATH_CROSS") &&
-        !s.signals.includes("MACD_BEARISH") &&
-        s.smartMoneyFlow !== "sell" &&
-        s.smartMoneyFlow !== "strong_sell"
-      ).slice(0, 5);
-
-    case "balanced":
-      return hardFiltered.filter(s =>
-        s.safetyScore >= 45 &&
-        s.liquidityScore >= 40 &&
-        s.momentumScore >= 58 &&
-        s.buyPressureScore >= 52 &&
-        s.overallSignalScore >= 55 &&
-        s.rugRiskScore < 45 &&
-        s.conviction >= 40 &&
-        s.technicals.rsi14 >= 22 && s.technicals.rsi14 <= 75 &&
-        s.technicals.trendStrength >= 40 &&
-        !s.signals.includes("HIGH_RUG_RISK") &&
-        !s.signals.includes("WHALE_DISTRIBUTING") &&
-        !s.signals.includes("DEATH_CROSS")
-      ).slice(0, 8);
-
-    case "aggressive":
-      return hardFiltered.filter(s =>
-        s.momentumScore >= 65 &&
-        s.volumeScore >= 55 &&
-        s.overallSignalScore >= 58 &&
-        s.liquidityScore >= 25 &&
-        s.rugRiskScore < 55 &&
-        s.conviction >= 35 &&
-        s.technicals.rsi14 <= 78 &&
-        s.technicals.trendStrength >= 35
-      ).slice(0, 12);
-
-    case "degen":
-      return hardFiltered.filter(s =>
-        s.momentumScore >= 70 &&
-        s.overallSignalScore >= 50 &&
-        s.conviction >= 25 &&
-        s.rugRiskScore < 65 &&
-        s.technicals.rsi14 <= 85
-      ).slice(0, 15);
+// Names of the shortlist filters a signal fails, empty if it passes them all.
+export function explainBuyFilters(signal: TokenSignal, strategy: string, entryRule?: (signal: TokenSignal) => boolean): string[] {
+  return buyShortlist(strategy, entryRule).filters.filter(([, test]) => !test(signal)).map(([name]) => name);
+}
 
-    default:
-      return hardFiltered.filter(s => s.overallSignalScore >= 55 && s.conviction >= 35).slice(0, 10);
+// Shorts are only taken in a bear regime, and only on tokens liquid enough
+// to borrow or list a perp for. Rug risk is no reason to skip a short, but a
+// squeeze is.
+const HARD_SHORT_FILTERS: ShortlistFilter[] = [
+  ["bear regime", s => s.marketRegime === "bear"],
+  ["liquidity >= $50k", s => s.liquidity >= 50_000],
+  ["price > 0", s => s.price > 0],
+  ["whales not accumulating", s => s.whaleActivity !== "accumulating"],
+  ["RSI > 20", s => s.technicals.rsi14 > 20],
+  ["EMA trend not bullish", s => s.technicals.emaTrendAlignment !== "bullish"],
+  ["smart money not buying", s => s.smartMoneyFlow !== "buy" && s.smartMoneyFlow !== "strong_buy"],
+  without("VOLUME_BREAKOUT"),
+  without("GOLDEN_CROSS"),
+];
+
+const STRATEGY_SHORT_FILTERS: Record<string, { filters: ShortlistFilter[]; limit: number }> = {
+  conservative: {
+    limit: 3,
+    filters: [
+      ["momentum <= 35", s => s.momentumScore <= 35],
+      ["buyPressure <= 40", s => s.buyPressureScore <= 40],
+      ["bearish EMA", s => s.technicals.emaTrendAlignment === "bearish"],
+      ["volatility < 85", s => s.volatility < 85],
+    ],
+  },
+  balanced: {
+    limit: 5,
+    filters: [
+      ["momentum <= 40", s => s.momentumScore <= 40],
+      ["buyPressure <= 45", s => s.buyPressureScore <= 45],
+    ],
+  },
+  aggressive: {
+    limit: 8,
+    filters: [
+      ["momentum <= 45", s => s.momentumScore <= 45],
+      ["buyPressure <= 50", s => s.buyPressureScore <= 50],
+    ],
+  },
+  degen: {
+    limit: 10,
+    filters: [["momentum <= 50", s => s.momentumScore <= 50]],
+  },
+};
+
+function shortShortlist(strategy: string): { filters: ShortlistFilter[]; limit: number } {
+  const shortlist = STRATEGY_SHORT_FILTERS[strategy] || STRATEGY_SHORT_FILTERS.balanced;
+  return { filters: [...HARD_SHORT_FILTERS, ...shortlist.filters], limit: shortlist.limit };
+}
+
+// Weakest first: the lower a token's momentum, the better the short.
+export function getTopShortSignals(signals: TokenSignal[], strategy: string): TokenSignal[] {
+  const { filters, limit } = shortShortlist(strategy);
+  return signals
+    .filter(s => filters.every(([, test]) => test(s)))
+    .sort((a, b) => a.momentumScore - b.momentumScore)
+    .slice(0, limit);
+}
+
+export function explainShortFilters(signal: TokenSignal, strategy: string): string[] {
+  return shortShortlist(strategy).filters.filter(([, test]) => !test(signal)).map(([name]) => name);
+}
+
+type ExitSignal = { shouldSell: boolean; reason: string; urgency: "low" | "medium" | "high"; sellPercent: number };
+
+// Token-level reasons to cover a short: the long exits turned around, since
+// what threatens a short is a squeeze rather than a dump.
+function getCoverSignals(tokenSignal: TokenSignal, pnlPercent: number): ExitSignal | null {
+  if (tokenSignal.signals.includes("VOLUME_BREAKOUT") && tokenSignal.momentumScore >= 70) {
+    return { shouldSell: true, reason: "Volume breakout against the short - emergency cover", urgency: "high", sellPercent: 100 };
+  }
+  if (tokenSignal.whaleActivity === "accumulating" && pnlPercent > -3) {
+    return { shouldSell: true, reason: `Whales accumulating - covering before a squeeze (PnL: ${pnlPercent.toFixed(1)}%)`, urgency: "high", sellPercent: 100 };
+  }
+  if (tokenSignal.buyPressureScore >= 75 && pnlPercent > -3) {
+    return { shouldSell: true, reason: `Heavy buy pressure (buy ratio ${tokenSignal.buyPressureScore}%) - covering before a squeeze`, urgency: "high", sellPercent: 100 };
+  }
+
+  const dynTP = tokenSignal.dynamicTakeProfit;
+  if (pnlPercent >= dynTP * 0.4 && pnlPercent < dynTP) {
+    return { shouldSell: true, reason: `Partial profit at ${pnlPercent.toFixed(1)}% (target: ${dynTP}%) - covering 40%`, urgency: "medium", sellPercent: 40 };
+  }
+  if (pnlPercent >= dynTP) {
+    return { shouldSell: true, reason: `Dynamic take profit hit at ${pnlPercent.toFixed(1)}% (target: ${dynTP}%)`, urgency: "medium", sellPercent: 100 };
+  }
+  if (tokenSignal.momentumScore >= 75 && pnlPercent > 0) {
+    return { shouldSell: true, reason: `Momentum recovered (${tokenSignal.momentumScore}/100) - locking in ${pnlPercent.toFixed(1)}% on the short`, urgency: "medium", sellPercent: 100 };
+  }
+  if (tokenSignal.momentumAcceleration > 3 && tokenSignal.momentumScore > 60) {
+    return { shouldSell: true, reason: `Momentum accelerating (${tokenSignal.momentumAcceleration.toFixed(1)}) against the short`, urgency: "medium", sellPercent: 100 };
+  }
+
+  const tech = tokenSignal.technicals;
+  if (tech.emaCrossover === "golden_cross" && pnlPercent > -3) {
+    return { shouldSell: true, reason: `Golden cross detected (EMA9 crossed above EMA21) - covering at ${pnlPercent.toFixed(1)}% PnL`, urgency: "high", sellPercent: 100 };
+  }
+  if (tech.rsi14 < 15 && pnlPercent > 10) {
+    return { shouldSell: true, reason: `RSI extremely oversold (${tech.rsi14}) with ${pnlPercent.toFixed(1)}% profit - covering into weakness`, urgency: "medium", sellPercent: 70 };
+  }
+  if (tech.rsiDivergence === "bullish" && pnlPercent > 5) {
+    return { shouldSell: true, reason: `Bullish RSI divergence with ${pnlPercent.toFixed(1)}% profit - covering before reversal`, urgency: "medium", sellPercent: 60 };
+  }
+  if (tech.emaTrendAlignment === "bullish" && pnlPercent > 0) {
+    return { shouldSell: true, reason: `EMA trend turned bullish - locking in ${pnlPercent.toFixed(1)}% on the short`, urgency: "medium", sellPercent: 100 };
+  }
+  if (tech.macdHistogram > 0 && tech.macdLine > 0 && pnlPercent > 3) {
+    return { shouldSell: true, reason: `MACD fully bullish - covering ${pnlPercent.toFixed(1)}% profit before a bounce`, urgency: "medium", sellPercent: 80 };
   }
+  return null;
 }
 
+// Exit check for an open position. `side` flips what counts as profit and
+// which token signals call for an exit; the stop and hold-time rules are the
+// same for both.
 export function getSellSignals(
   signals: TokenSignal[],
   entryPrice: number,
@@ -1142,15 +1391,16 @@ export function getSellSignals(
   tokenSymbol?: string,
   holdTimeHours?: number,
   tokenAddress?: string,
-  tokenChain?: string
-): { shouldSell: boolean; reason: string; urgency: "low" | "medium" | "high"; sellPercent: number } {
-  const pnlPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
+  tokenChain?: string,
+  side: PositionSide = "long"
+): ExitSignal {
+  const pnlPercent = sidePnlPercent(side, entryPrice, currentPrice);
 
   if (pnlPercent <= -stopLossPercent) {
     return { shouldSell: true, reason: `Stop loss triggered at ${pnlPercent.toFixed(1)}% loss`, urgency: "high", sellPercent: 100 };
   }
 
-  if (trailingStopPrice && currentPrice <= trailingStopPrice) {
+  if (trailingStopPrice && stopHit(side, trailingStopPrice, currentPrice)) {
     return { shouldSell: true, reason: `Trailing stop triggered at $${currentPrice.toFixed(6)}`, urgency: "high", sellPercent: 100 };
   }
 
@@ -1162,7 +1412,10 @@ export function getSellSignals(
     tokenSignal = signals.find(s => s.symbol.toUpperCase() === tokenSymbol.toUpperCase());
   }
 
-  if (tokenSignal) {
+  if (tokenSignal && side === "short") {
+    const cover = getCoverSignals(tokenSignal, pnlPercent);
+    if (cover) return cover;
+  } else if (tokenSignal) {
     if (tokenSignal.signals.includes("FLASH_CRASH")) {
       return { shouldSell: true, reason: "Flash crash detected - emergency exit", urgency: "high", sellPercent: 100 };
     }
@@ -0,0 +1,303 @@
+import { gzip, gunzip } from "zlib";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "../storage";
+import type { MarketSnapshot, DecisionSnapshot } from "@shared/schema";
+import type { DecisionProvider, DecisionRequest } from "./agent-runtime";
+import type { RecordedDecision } from "./decision-providers";
+import type { MarketFrame } from "./market-history";
+import type { FearGreedReading, MarketBreadth, TokenSignal } from "./signal-builder";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Set SNAPSHOT_RECORDING=off to stop recording; retention still applies.
+const RECORDING_ENABLED = process.env.SNAPSHOT_RECORDING !== "off";
+const RETENTION_DAYS = Number(process.env.SNAPSHOT_RETENTION_DAYS) || 7;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const EXPORT_BATCH = 200;
+
+let intervalId: NodeJS.Timeout | null = null;
+
+export interface MarketSnapshotData {
+  signals: TokenSignal[];
+  breadth: MarketBreadth | null;
+  fearGreed: FearGreedReading | null;
+}
+
+export interface DecisionSnapshotData {
+  time: number;
+  systemPrompt: string;
+  userMessage: string;
+  response: string | null;
+  error: string | null;
+}
+
+export interface SnapshotQuery {
+  userId: string;
+  from?: Date;
+  to?: Date;
+  chain?: string;
+  strategy?: string;
+  agentId?: number;
+  limit?: number;
+}
+
+// The recorder's own snapshot id for a signal set, keyed by the array the
+// runner shares between every agent in a chain/strategy group.
+const snapshotIds = new WeakMap<TokenSignal[], Promise<number | null>>();
+
+export async function encodePayload(data: unknown): Promise<string> {
+  return (await gzipAsync(JSON.stringify(data))).toString("base64");
+}
+
+export async function decodePayload<T>(payload: string): Promise<T> {
+  return JSON.parse((await gunzipAsync(Buffer.from(payload, "base64"))).toString("utf8")) as T;
+}
+
+export function recordMarketSnapshot(signals: TokenSignal[], meta: { chain: string; strategy: string } & Omit<MarketSnapshotData, "signals">): void {
+  if (!RECORDING_ENABLED) return;
+  const capturedAt = new Date();
+  const pending = encodePayload({ signals, breadth: meta.breadth, fearGreed: meta.fearGreed })
+    .then(payload => storage.createMarketSnapshot({
+      chain: meta.chain,
+      strategy: meta.strategy,
+      signalCount: signals.length,
+      payload,
+      capturedAt,
+    }))
+    .then(row => row.id)
+    .catch(err => {
+      console.error("[Snapshots] Failed to record market snapshot:", err.message);
+      return null;
+    });
+  snapshotIds.set(signals, pending);
+}
+
+async function recordDecision(request: DecisionRequest, provider: string, response: string | null, error: string | null): Promise<void> {
+  try {
+    const snapshotId = await (snapshotIds.get(request.signals) ?? Promise.resolve(null));
+    const data: DecisionSnapshotData = {
+      time: request.time,
+      systemPrompt: request.systemPrompt,
+      userMessage: request.userMessage,
+      response,
+      error,
+    };
+    await storage.createDecisionSnapshot({
+      snapshotId,
+      agentId: request.agent.id,
+      userId: request.agent.userId,
+      provider,
+      failed: error !== null,
+      payload: await encodePayload(data),
+      capturedAt: new Date(request.time),
+    });
+  } catch (err: any) {
+    console.error("[Snapshots] Failed to record decision:", err.message);
+  }
+}
+
+// Records every prompt and raw response (or failure) that passes through
+// `inner`, without delaying the cycle on the write.
+export function withDecisionRecording(inner: DecisionProvider): DecisionProvider {
+  if (!RECORDING_ENABLED) return inner;
+  return {
+    name: inner.name,
+    async propose(request) {
+      try {
+        const answer = await inner.propose(request);
+        recordDecision(request, answer.provider, answer.content, null);
+        return answer;
+      } catch (err: any) {
+        recordDecision(request, inner.name, null, err.message);
+        throw err;
+      }
+    },
+  };
+}
+
+// ── Reading back ──
+
+export async function loadMarketSnapshot(row: MarketSnapshot): Promise<MarketSnapshotData> {
+  return decodePayload<MarketSnapshotData>(row.payload);
+}
+
+export async function loadDecisionSnapshot(row: DecisionSnapshot): Promise<DecisionSnapshotData> {
+  return decodePayload<DecisionSnapshotData>(row.payload);
+}
+
+export async function loadSnapshotFrames(query: SnapshotQuery): Promise<MarketFrame[]> {
+  const rows = await storage.getMarketSnapshots(query);
+  const frames: MarketFrame[] = [];
+  for (const row of rows) {
+    const data = await loadMarketSnapshot(row);
+    frames.push({ time: row.capturedAt.getTime(), signals: data.signals, breadth: data.breadth });
+  }
+  return frames;
+}
+
+// Recorded responses for one agent, timed at the snapshot they answered so a
+// snapshot replay hands each cycle the response given for that exact frame.
+export async function loadRecordedDecisions(query: SnapshotQuery & { agentId: number }): Promise<RecordedDecision[]> {
+  const rows = (await storage.getDecisionSnapshots(query)).filter(r => !r.failed);
+  const linkedIds = Array.from(new Set(rows.map(r => r.snapshotId).filter((id): id is number => id != null)));
+  const snapshotTimes = new Map<number, number>();
+  if (linkedIds.length > 0) {
+    const snapshots = await storage.getMarketSnapshots({ userId: query.userId, ids: linkedIds, limit: linkedIds.length });
+    for (const s of snapshots) snapshotTimes.set(s.id, s.capturedAt.getTime());
+  }
+
+  const decisions: RecordedDecision[] = [];
+  for (const row of rows) {
+    const data = await loadDecisionSnapshot(row);
+    if (data.response == null) continue;
+    decisions.push({
+      time: (row.snapshotId != null ? snapshotTimes.get(row.snapshotId) : undefined) ?? row.capturedAt.getTime(),
+      response: data.response,
+    });
+  }
+  return decisions;
+}
+
+// ── JSONL export / import ──
+
+const marketLineSchema = z.object({
+  type: z.literal("market"),
+  id: z.number().int(),
+  time: z.number(),
+  chain: z.string(),
+  strategy: z.string(),
+  signals: z.array(z.record(z.any())),
+  breadth: z.record(z.any()).nullable(),
+  fearGreed: z.record(z.any()).nullable(),
+});
+
+const decisionLineSchema = z.object({
+  type: z.literal("decision"),
+  id: z.number().int(),
+  snapshotId: z.number().int().nullable(),
+  agentId: z.number().int(),
+  provider: z.string(),
+  time: z.number(),
+  systemPrompt: z.string(),
+  userMessage: z.string(),
+  response: z.string().nullable(),
+  error: z.string().nullable(),
+});
+
+// One JSON object per line: market snapshots first, then the user's decision
+// records, each referencing snapshots by their exported id.
+export async function* exportSnapshotsJsonl(query: SnapshotQuery): AsyncGenerator<string> {
+  const limit = query.limit ?? 1000;
+  let from = query.from;
+  let emitted = 0;
+  const seen = new Set<number>();
+  while (emitted < limit) {
+    const rows = (await storage.getMarketSnapshots({ ...query, from, limit: EXPORT_BATCH })).filter(r => !seen.has(r.id));
+    if (rows.length === 0) break;
+    for (const row of rows) {
+      if (emitted >= limit) break;
+      seen.add(row.id);
+      emitted++;
+      const data = await loadMarketSnapshot(row);
+      yield JSON.stringify({
+        type: "market", id: row.id, time: row.capturedAt.getTime(), chain: row.chain, strategy: row.strategy,
+        signals: data.signals, breadth: data.breadth, fearGreed: data.fearGreed,
+      }) + "\n";
+    }
+    from = rows[rows.length - 1].capturedAt;
+  }
+
+  const decisions = await storage.getDecisionSnapshots({ ...query, limit: limit * 10 });
+  for (const row of decisions) {
+    if (row.snapshotId != null && !seen.has(row.snapshotId)) continue;
+    const data = await loadDecisionSnapshot(row);
+    yield JSON.stringify({
+      type: "decision", id: row.id, snapshotId: row.snapshotId, agentId: row.agentId, provider: row.provider,
+      time: row.capturedAt.getTime(), systemPrompt: data.systemPrompt, userMessage: data.userMessage,
+      response: data.response, error: data.error,
+    }) + "\n";
+  }
+}
+
+export interface ImportResult {
+  market: number;
+  decisions: number;
+  errors: string[];
+}
+
+// Imported rows are owned by the importer and tagged as such, so they never
+// mix with the shared live record. Snapshot ids are remapped on the way in.
+export async function importSnapshotsJsonl(userId: string, text: string): Promise<ImportResult> {
+  const result: ImportResult = { market: 0, decisions: 0, errors: [] };
+  const idMap = new Map<number, number>();
+  const lines = text.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed.type === "market") {
+        const m = marketLineSchema.parse(parsed);
+        const row = await storage.createMarketSnapshot({
+          userId, source: "import", chain: m.chain, strategy: m.strategy,
+          signalCount: m.signals.length,
+          payload: await encodePayload({ signals: m.signals, breadth: m.breadth, fearGreed: m.fearGreed }),
+          capturedAt: new Date(m.time),
+        });
+        idMap.set(m.id, row.id);
+        result.market++;
+      } else if (parsed.type === "decision") {
+        const d = decisionLineSchema.parse(parsed);
+        const data: DecisionSnapshotData = {
+          time: d.time, systemPrompt: d.systemPrompt, userMessage: d.userMessage, response: d.response, error: d.error,
+        };
+        await storage.createDecisionSnapshot({
+          snapshotId: d.snapshotId != null ? idMap.get(d.snapshotId) ?? null : null,
+          agentId: d.agentId, userId, source: "import", provider: d.provider,
+          failed: d.error != null, payload: await encodePayload(data), capturedAt: new Date(d.time),
+        });
+        result.decisions++;
+      } else {
+        throw new Error(`unknown record type "${parsed.type}"`);
+      }
+    } catch (err: any) {
+      if (result.errors.length < 20) result.errors.push(`Line ${i + 1}: ${err.message}`);
+    }
+  }
+  return result;
+}
+
+// ── Retention ──
+
+async function pruneExpiredSnapshots(): Promise<void> {
+  try {
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const pruned = await storage.pruneSnapshots(cutoff);
+    if (pruned.market > 0 || pruned.decisions > 0) {
+      console.log(`[Snapshots] Pruned ${pruned.market} market and ${pruned.decisions} decision snapshot(s) older than ${RETENTION_DAYS}d`);
+    }
+    const explanations = await storage.pruneDecisionExplanations(cutoff);
+    if (explanations > 0) {
+      console.log(`[Snapshots] Pruned ${explanations} decision explanation(s) older than ${RETENTION_DAYS}d`);
+    }
+  } catch (err) {
+    console.error("[Snapshots] Error pruning snapshots:", err);
+  }
+}
+
+export function startSnapshotRetention() {
+  console.log(`[Snapshots] Recording ${RECORDING_ENABLED ? "on" : "off"}, keeping ${RETENTION_DAYS} day(s)`);
+  pruneExpiredSnapshots();
+  intervalId = setInterval(pruneExpiredSnapshots, PRUNE_INTERVAL_MS);
+}
+
+export function stopSnapshotRetention() {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("[Snapshots] Snapshot retention stopped");
+  }
+}
@@ -0,0 +1,411 @@
+import type { TokenSignal } from "./signal-builder";
+import type { TechnicalIndicators } from "./technical-indicators";
+
+// A small expression language for entry rules over TokenSignal fields, e.g.
+//
+//   conviction >= 60 && rugRiskScore < 20 && technicals.rsi14 < 65
+//   whaleActivity in ["accumulating", "neutral"] and !has(signals, "DEATH_CROSS")
+//
+// Rules are parsed and type-checked once, then evaluated as plain closures;
+// nothing is ever passed to eval.
+
+type RuleType = "number" | "boolean" | "string" | "string[]";
+type RulePath = keyof TokenSignal | `technicals.${keyof TechnicalIndicators}`;
+
+interface FieldSpec {
+  type: RuleType;
+  values?: readonly string[];
+}
+
+export const RULE_FIELDS: Partial<Record<RulePath, FieldSpec>> = {
+  symbol: { type: "string" },
+  chain: { type: "string" },
+  price: { type: "number" },
+  priceChange1h: { type: "number" },
+  priceChange24h: { type: "number" },
+  volume24h: { type: "number" },
+  marketCap: { type: "number" },
+  liquidity: { type: "number" },
+  holders: { type: "number" },
+  buys24h: { type: "number" },
+  sells24h: { type: "number" },
+  safetyScore: { type: "number" },
+  safetyGrade: { type: "string", values: ["A", "B", "C", "D", "F"] },
+  isTrending: { type: "boolean" },
+  isBoosted: { type: "boolean" },
+  ageHours: { type: "number" },
+  momentumScore: { type: "number" },
+  volumeScore: { type: "number" },
+  buyPressureScore: { type: "number" },
+  liquidityScore: { type: "number" },
+  overallSignalScore: { type: "number" },
+  signals: { type: "string[]" },
+  smartMoneyScore: { type: "number" },
+  rugRiskScore: { type: "number" },
+  momentumAcceleration: { type: "number" },
+  volumeToLiqRatio: { type: "number" },
+  holderConcentrationRisk: { type: "number" },
+  marketRegime: { type: "string", values: ["bull", "bear", "neutral"] },
+  conviction: { type: "number" },
+  volatility: { type: "number" },
+  lifecyclePhase: { type: "string", values: ["launch", "growth", "mature", "established"] },
+  shortTermMomentum: { type: "number" },
+  volumeBreakout: { type: "boolean" },
+  whaleActivity: { type: "string", values: ["accumulating", "distributing", "neutral"] },
+  dynamicStopLoss: { type: "number" },
+  dynamicTakeProfit: { type: "number" },
+  socialSentimentScore: { type: "number" },
+  socialSpike: { type: "boolean" },
+  smartMoneyFlow: { type: "string", values: ["strong_buy", "buy", "neutral", "sell", "strong_sell"] },
+  newsSentiment: { type: "string", values: ["bullish", "bearish", "neutral"] },
+  newsImpact: { type: "string", values: ["high", "medium", "low"] },
+  newsScore: { type: "number" },
+  fearGreedValue: { type: "number" },
+  fearGreedBias: { type: "string", values: ["buy", "sell", "hold"] },
+  liquidityHealth: { type: "number" },
+  liquidityFlow: { type: "string", values: ["inflow", "outflow", "neutral"] },
+  liquidityDraining: { type: "boolean" },
+  liquidityGrowing: { type: "boolean" },
+  "technicals.rsi14": { type: "number" },
+  "technicals.macdHistogram": { type: "number" },
+  "technicals.atrPercent": { type: "number" },
+  "technicals.emaTrendAlignment": { type: "string", values: ["bullish", "bearish", "mixed"] },
+  "technicals.emaCrossover": { type: "string", values: ["golden_cross", "death_cross", "none"] },
+  "technicals.rsiDivergence": { type: "string", values: ["bullish", "bearish", "none"] },
+  "technicals.priceVsEma9": { type: "number" },
+  "technicals.priceVsEma21": { type: "number" },
+  "technicals.priceVsEma50": { type: "number" },
+  "technicals.isOverextended": { type: "boolean" },
+  "technicals.isPullback": { type: "boolean" },
+  "technicals.trendStrength": { type: "number" },
+  "technicals.volumeTrend": { type: "string", values: ["increasing", "decreasing", "stable"] },
+  "technicals.priceVsVwap": { type: "number" },
+  "technicals.stochRsiK": { type: "number" },
+  "technicals.stochRsiD": { type: "number" },
+  "technicals.obvTrend": { type: "string", values: ["rising", "falling", "flat"] },
+  "technicals.bollingerWidth": { type: "number" },
+  "technicals.supertrend": { type: "string", values: ["up", "down"] },
+  "technicals.supertrendFlip": { type: "boolean" },
+  "technicals.donchianBreakout": { type: "string", values: ["up", "down", "none"] },
+  "technicals.mtfBullishCount": { type: "number" },
+  "technicals.mtfBearishCount": { type: "number" },
+  "technicals.mtfAlignment": { type: "string", values: ["bullish", "bearish", "mixed"] },
+  "technicals.htfTrend": { type: "string", values: ["bullish", "bearish", "mixed"] },
+};
+
+const MAX_RULE_LENGTH = 2000;
+const MAX_NODES = 200;
+
+type Token =
+  | { kind: "num"; value: number; pos: number }
+  | { kind: "str"; value: string; pos: number }
+  | { kind: "ident"; value: string; pos: number }
+  | { kind: "op"; value: string; pos: number }
+  | { kind: "end"; pos: number };
+
+type Node =
+  | { kind: "num"; value: number }
+  | { kind: "str"; value: string }
+  | { kind: "bool"; value: boolean }
+  | { kind: "field"; path: RulePath; spec: FieldSpec }
+  | { kind: "unary"; op: "!" | "-"; arg: Node }
+  | { kind: "binary"; op: string; left: Node; right: Node }
+  | { kind: "in"; arg: Node; list: (string | number)[] }
+  | { kind: "call"; name: string; args: Node[] };
+
+const OPERATORS = ["&&", "||", ">=", "<=", "==", "!=", ">", "<", "!", "+", "-", "*", "/", "(", ")", "[", "]", ","];
+const KEYWORD_OPS: Record<string, string> = { and: "&&", or: "||", not: "!" };
+const FUNCTIONS: Record<string, { args: RuleType[]; returns: RuleType }> = {
+  has: { args: ["string[]", "string"], returns: "boolean" },
+  abs: { args: ["number"], returns: "number" },
+  min: { args: ["number", "number"], returns: "number" },
+  max: { args: ["number", "number"], returns: "number" },
+};
+
+function fail(message: string, pos: number): never {
+  throw new Error(`${message} at position ${pos + 1}`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = /^[0-9_]*\.?[0-9_]+(e[+-]?[0-9]+)?/i.exec(source.slice(i))!;
+      tokens.push({ kind: "num", value: Number(match[0].replace(/_/g, "")), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end < 0) fail("Unterminated string", i);
+      tokens.push({ kind: "str", value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(i))!;
+      const word = match[0];
+      if (KEYWORD_OPS[word]) tokens.push({ kind: "op", value: KEYWORD_OPS[word], pos: i });
+      else tokens.push({ kind: "ident", value: word, pos: i });
+      i += word.length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) fail(`Unexpected character "${ch}"`, i);
+    tokens.push({ kind: "op", value: op, pos: i });
+    i += op.length;
+  }
+  tokens.push({ kind: "end", pos: source.length });
+  return tokens;
+}
+
+class Parser {
+  private i = 0;
+  private nodes = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.or();
+    const next = this.peek();
+    if (next.kind !== "end") fail("Unexpected input", next.pos);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.i];
+  }
+
+  private isOp(value: string): boolean {
+    const t = this.peek();
+    return t.kind === "op" && t.value === value;
+  }
+
+  private expect(value: string): void {
+    if (!this.isOp(value)) fail(`Expected "${value}"`, this.peek().pos);
+    this.i++;
+  }
+
+  private node<T extends Node>(n: T): T {
+    if (++this.nodes > MAX_NODES) fail("Rule is too complex", this.peek().pos);
+    return n;
+  }
+
+  private binaryLevel(ops: string[], next: () => Node): Node {
+    let left = next();
+    while (ops.some(op => this.isOp(op))) {
+      const op = (this.tokens[this.i++] as { value: string }).value;
+      left = this.node({ kind: "binary", op, left, right: next() });
+    }
+    return left;
+  }
+
+  private or = (): Node => this.binaryLevel(["||"], this.and);
+  private and = (): Node => this.binaryLevel(["&&"], this.not);
+
+  private not = (): Node => {
+    if (this.isOp("!")) {
+      this.i++;
+      return this.node({ kind: "unary", op: "!", arg: this.not() });
+    }
+    return this.comparison();
+  };
+
+  private comparison = (): Node => {
+    const left = this.sum();
+    const t = this.peek();
+    if (t.kind === "ident" && t.value === "in") {
+      this.i++;
+      return this.node({ kind: "in", arg: left, list: this.literalList() });
+    }
+    if (t.kind === "op" && [">=", "<=", "==", "!=", ">", "<"].includes(t.value)) {
+      this.i++;
+      return this.node({ kind: "binary", op: t.value, left, right: this.sum() });
+    }
+    return left;
+  };
+
+  private sum = (): Node => this.binaryLevel(["+", "-"], this.product);
+  private product = (): Node => this.binaryLevel(["*", "/"], this.unary);
+
+  private unary = (): Node => {
+    if (this.isOp("-")) {
+      this.i++;
+      return this.node({ kind: "unary", op: "-", arg: this.unary() });
+    }
+    return this.primary();
+  };
+
+  private literalList(): (string | number)[] {
+    this.expect("[");
+    const list: (string | number)[] = [];
+    while (!this.isOp("]")) {
+      const t = this.tokens[this.i++];
+      if (t.kind !== "str" && t.kind !== "num") fail("Lists may only hold strings or numbers", t.pos);
+      list.push(t.value);
+      if (!this.isOp("]")) this.expect(",");
+    }
+    this.i++;
+    if (list.length === 0) fail("Empty list", this.peek().pos);
+    return list;
+  }
+
+  private primary = (): Node => {
+    const t = this.tokens[this.i++];
+    if (t.kind === "num") return this.node({ kind: "num", value: t.value });
+    if (t.kind === "str") return this.node({ kind: "str", value: t.value });
+    if (t.kind === "op" && t.value === "(") {
+      const inner = this.or();
+      this.expect(")");
+      return inner;
+    }
+    if (t.kind === "ident") {
+      if (t.value === "true" || t.value === "false") return this.node({ kind: "bool", value: t.value === "true" });
+      if (this.isOp("(")) {
+        if (!FUNCTIONS[t.value]) fail(`Unknown function "${t.value}"`, t.pos);
+        this.i++;
+        const args: Node[] = [];
+        while (!this.isOp(")")) {
+          args.push(this.or());
+          if (!this.isOp(")")) this.expect(",");
+        }
+        this.i++;
+        return this.node({ kind: "call", name: t.value, args });
+      }
+      const spec = RULE_FIELDS[t.value as RulePath];
+      if (!spec) fail(`Unknown field "${t.value}"`, t.pos);
+      return this.node({ kind: "field", path: t.value as RulePath, spec });
+    }
+    fail("Expected a value", t.pos);
+  };
+}
+
+function typeOf(node: Node): RuleType {
+  switch (node.kind) {
+    case "num": return "number";
+    case "str": return "string";
+    case "bool": return "boolean";
+    case "field": return node.spec.type;
+    case "unary": {
+      const want = node.op === "!" ? "boolean" : "number";
+      if (typeOf(node.arg) !== want) throw new Error(`"${node.op}" needs a ${want}`);
+      return want;
+    }
+    case "in": {
+      const argType = typeOf(node.arg);
+      if (argType !== "string" && argType !== "number") throw new Error(`"in" needs a string or number on the left`);
+      if (node.list.some(v => typeof v !== argType)) throw new Error(`"in" list must only hold ${argType}s`);
+      if (node.arg.kind === "field" && node.arg.spec.values) checkValues(node.arg, node.list as string[]);
+      return "boolean";
+    }
+    case "call": {
+      const fn = FUNCTIONS[node.name];
+      if (node.args.length !== fn.args.length) throw new Error(`${node.name}() takes ${fn.args.length} argument(s)`);
+      node.args.forEach((arg, i) => {
+        if (typeOf(arg) !== fn.args[i]) throw new Error(`${node.name}() argument ${i + 1} must be a ${fn.args[i]}`);
+      });
+      return fn.returns;
+    }
+    case "binary": {
+      const left = typeOf(node.left);
+      const right = typeOf(node.right);
+      if (node.op === "&&" || node.op === "||") {
+        if (left !== "boolean" || right !== "boolean") throw new Error(`"${node.op}" joins conditions, not values`);
+        return "boolean";
+      }
+      if (["+", "-", "*", "/"].includes(node.op)) {
+        if (left !== "number" || right !== "number") throw new Error(`"${node.op}" needs numbers`);
+        return "number";
+      }
+      if (node.op === "==" || node.op === "!=") {
+        if (left !== right || left === "string[]") throw new Error(`Cannot compare ${left} with ${right}`);
+        const field = node.left.kind === "field" ? node.left : node.right.kind === "field" ? node.right : null;
+        const literal = node.left.kind === "str" ? node.left : node.right.kind === "str" ? node.right : null;
+        if (field && literal) checkValues(field, [literal.value]);
+        return "boolean";
+      }
+      if (left !== "number" || right !== "number") throw new Error(`"${node.op}" compares numbers`);
+      return "boolean";
+    }
+  }
+}
+
+function checkValues(field: Extract<Node, { kind: "field" }>, values: string[]): void {
+  const allowed = field.spec.values;
+  if (!allowed) return;
+  const bad = values.find(v => !allowed.includes(v));
+  if (bad !== undefined) throw new Error(`${field.path} is never "${bad}" (expected one of ${allowed.join(", ")})`);
+}
+
+type Value = number | string | boolean | string[];
+
+function readField(signal: TokenSignal, path: RulePath): Value {
+  if (path.startsWith("technicals.")) {
+    return signal.technicals[path.slice("technicals.".length) as keyof TechnicalIndicators] as Value;
+  }
+  return signal[path as keyof TokenSignal] as Value;
+}
+
+function evaluate(node: Node, s: TokenSignal): Value {
+  switch (node.kind) {
+    case "num":
+    case "str":
+    case "bool":
+      return node.value;
+    case "field":
+      return readField(s, node.path);
+    case "unary":
+      return node.op === "!" ? !evaluate(node.arg, s) : -(evaluate(node.arg, s) as number);
+    case "in":
+      return node.list.includes(evaluate(node.arg, s) as string | number);
+    case "call": {
+      const args = node.args.map(a => evaluate(a, s));
+      if (node.name === "has") return (args[0] as string[]).includes(args[1] as string);
+      if (node.name === "abs") return Math.abs(args[0] as number);
+      if (node.name === "min") return Math.min(args[0] as number, args[1] as number);
+      return Math.max(args[0] as number, args[1] as number);
+    }
+    case "binary": {
+      if (node.op === "&&") return !!evaluate(node.left, s) && !!evaluate(node.right, s);
+      if (node.op === "||") return !!evaluate(node.left, s) || !!evaluate(node.right, s);
+      const l = evaluate(node.left, s);
+      const r = evaluate(node.right, s);
+      switch (node.op) {
+        case "+": return (l as number) + (r as number);
+        case "-": return (l as number) - (r as number);
+        case "*": return (l as number) * (r as number);
+        case "/": return (r as number) === 0 ? 0 : (l as number) / (r as number);
+        case "==": return l === r;
+        case "!=": return l !== r;
+        case ">=": return (l as number) >= (r as number);
+        case "<=": return (l as number) <= (r as number);
+        case ">": return (l as number) > (r as number);
+        default: return (l as number) < (r as number);
+      }
+    }
+  }
+}
+
+export type SignalRule = (signal: TokenSignal) => boolean;
+
+// Throws with a readable message when the rule does not parse or type-check.
+export function compileRule(source: string): SignalRule {
+  if (source.length > MAX_RULE_LENGTH) throw new Error(`Rule is longer than ${MAX_RULE_LENGTH} characters`);
+  if (!source.trim()) throw new Error("Rule is empty");
+  const ast = new Parser(tokenize(source)).parse();
+  if (typeOf(ast) !== "boolean") throw new Error("Rule must be a condition (true/false), not a value");
+  return signal => {
+    try {
+      return evaluate(ast, signal) === true;
+    } catch {
+      return false;
+    }
+  };
+}
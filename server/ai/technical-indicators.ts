@@ -1,10 +1,29 @@
-interface PriceBar {
-  t: number;
-  o: number;
-  h: number;
-  l: number;
-  c: number;
-  v: number;
+import { getRecentBars, getRecentMinuteBars, ingestCandles, recordTick, HOT_CANDLE_LIMIT, type PriceBar } from "../candle-store";
+
+export type { PriceBar } from "../candle-store";
+
+export const INDICATOR_TIMEFRAMES = ["1m", "5m", "15m", "1h"] as const;
+export type IndicatorTimeframe = typeof INDICATOR_TIMEFRAMES[number];
+export type HigherTimeframe = Exclude<IndicatorTimeframe, "1m">;
+
+type Bias = "bullish" | "bearish" | "mixed";
+
+// One timeframe's read of the trend, from that timeframe's candles.
+export interface TimeframeIndicators {
+  bars: number;
+  rsi14: number;
+  emaTrendAlignment: Bias;
+  emaCrossover: "golden_cross" | "death_cross" | "none";
+  macdHistogram: number;
+  trendStrength: number;
+  isPullback: boolean;
+  priceVsVwap: number;
+  stochRsiK: number;
+  supertrend: "up" | "down";
+  supertrendFlip: boolean;
+  donchianBreakout: "up" | "down" | "none";
+  // EMA alignment, Supertrend and MACD, two of three agreeing.
+  bias: Bias;
 }
 
 export interface TechnicalIndicators {
@@ -27,8 +46,28 @@ export interface TechnicalIndicators {
   isPullback: boolean;
   trendStrength: number;
   volumeTrend: "increasing" | "decreasing" | "stable";
+  vwap: number;
+  priceVsVwap: number;
+  stochRsiK: number;
+  stochRsiD: number;
+  obvTrend: "rising" | "falling" | "flat";
+  bollingerWidth: number;
+  supertrend: "up" | "down";
+  supertrendFlip: boolean;
+  donchianBreakout: "up" | "down" | "none";
+  // Per timeframe, null until it has enough candles.
+  timeframes: Record<IndicatorTimeframe, TimeframeIndicators | null>;
+  mtfBullishCount: number;
+  mtfBearishCount: number;
+  // Bullish or bearish when at least two timeframes have a bias and all agree.
+  mtfAlignment: Bias;
+  // The 15m and 1h bias, mixed when they disagree or neither is known.
+  htfTrend: Bias;
 }
 
+// The fields read from a single series of candles.
+type SeriesIndicators = Omit<TechnicalIndicators, "timeframes" | "mtfBullishCount" | "mtfBearishCount" | "mtfAlignment" | "htfTrend">;
+
 const DEFAULT_INDICATORS: TechnicalIndicators = {
   rsi14: 50,
   ema9: 0,
@@ -49,62 +88,38 @@ const DEFAULT_INDICATORS: TechnicalIndicators = {
   isPullback: false,
   trendStrength: 50,
   volumeTrend: "stable",
+  vwap: 0,
+  priceVsVwap: 0,
+  stochRsiK: 50,
+  stochRsiD: 50,
+  obvTrend: "flat",
+  bollingerWidth: 0,
+  supertrend: "up",
+  supertrendFlip: false,
+  donchianBreakout: "none",
+  timeframes: { "1m": null, "5m": null, "15m": null, "1h": null },
+  mtfBullishCount: 0,
+  mtfBearishCount: 0,
+  mtfAlignment: "mixed",
+  htfTrend: "mixed",
 };
 
+const MIN_BARS = 10;
+
 const indicatorCache = new Map<string, { data: TechnicalIndicators; fetchedAt: number }>();
 const INDICATOR_CACHE_TTL = 45_000;
 
-const persistentPriceHistory = new Map<string, { bars: PriceBar[]; lastUpdate: number }>();
-const PRICE_HISTORY_MAX_BARS = 200;
-
-export function updatePriceHistory(tokenKey: string, price: number, volume: number, high?: number, low?: number): void {
-  const entry = persistentPriceHistory.get(tokenKey) || { bars: [], lastUpdate: 0 };
-  const now = Date.now();
-  const minuteTs = Math.floor(now / 60000) * 60000;
-
-  const lastBar = entry.bars[entry.bars.length - 1];
-  if (lastBar && Math.floor(lastBar.t / 60000) * 60000 === minuteTs) {
-    lastBar.c = price;
-    lastBar.h = Math.max(lastBar.h, high ?? price);
-    lastBar.l = Math.min(lastBar.l, low ?? price);
-    lastBar.v += volume;
-  } else {
-    entry.bars.push({
-      t: minuteTs,
-      o: price,
-      h: high ?? price,
-      l: low ?? price,
-      c: price,
-      v: volume,
-    });
-  }
+// Indicators read the candles the candle store keeps in memory for each
+// priced token, at most this many per timeframe.
+export const PRICE_HISTORY_MAX_BARS = HOT_CANDLE_LIMIT;
 
-  if (entry.bars.length > PRICE_HISTORY_MAX_BARS) {
-    entry.bars = entry.bars.slice(-PRICE_HISTORY_MAX_BARS);
-  }
-  entry.lastUpdate = now;
-  persistentPriceHistory.set(tokenKey, entry);
+export function updatePriceHistory(chain: string, address: string, price: number, volume: number, high?: number, low?: number): void {
+  recordTick(chain, address, price, volume, high, low);
 }
 
-export function ingestOHLCV(tokenKey: string, candles: PriceBar[]): void {
-  if (!candles.length) return;
-  const entry = persistentPriceHistory.get(tokenKey) || { bars: [], lastUpdate: 0 };
-
-  const existingTs = new Set(entry.bars.map(b => Math.floor(b.t / 60000)));
-  for (const c of candles) {
-    const minTs = Math.floor(c.t / 60000);
-    if (!existingTs.has(minTs)) {
-      entry.bars.push(c);
-      existingTs.add(minTs);
-    }
-  }
-
-  entry.bars.sort((a, b) => a.t - b.t);
-  if (entry.bars.length > PRICE_HISTORY_MAX_BARS) {
-    entry.bars = entry.bars.slice(-PRICE_HISTORY_MAX_BARS);
-  }
-  entry.lastUpdate = Date.now();
-  persistentPriceHistory.set(tokenKey, entry);
+export function ingestOHLCV(chain: string, address: string, candles: PriceBar[]): void {
+  ingestCandles(chain, address, "1m", candles).catch(err =>
+    console.error(`[Technicals] Failed to store candles for ${chain}:${address}:`, err.message));
 }
 
 function calcEMA(prices: number[], period: number): number[] {
@@ -147,6 +162,31 @@ function calcRSI(prices: number[], period = 14): number {
   return 100 - (100 / (1 + rs));
 }
 
+// RSI after each price from index `period` on.
+function calcRSISeries(prices: number[], period = 14): number[] {
+  if (prices.length < period + 1) return [];
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = prices[i] - prices[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss += Math.abs(change);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const rsi = (gain: number, loss: number) => loss === 0 ? 100 : 100 - (100 / (1 + gain / loss));
+  const values = [rsi(avgGain, avgLoss)];
+  for (let i = period + 1; i < prices.length; i++) {
+    const change = prices[i] - prices[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(0, change)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(0, -change)) / period;
+    values.push(rsi(avgGain, avgLoss));
+  }
+  return values;
+}
+
 function calcATR(bars: PriceBar[], period = 14): number {
   if (bars.length < period + 1) return 0;
 
@@ -169,6 +209,124 @@ function calcATR(bars: PriceBar[], period = 14): number {
   return atr;
 }
 
+// Wilder ATR after each bar from index `period` on.
+function calcATRSeries(bars: PriceBar[], period: number): number[] {
+  if (bars.length < period + 1) return [];
+  const trueRanges: number[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    trueRanges.push(Math.max(
+      bars[i].h - bars[i].l,
+      Math.abs(bars[i].h - bars[i - 1].c),
+      Math.abs(bars[i].l - bars[i - 1].c)
+    ));
+  }
+  let atr = trueRanges.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  const values = [atr];
+  for (let i = period; i < trueRanges.length; i++) {
+    atr = (atr * (period - 1) + trueRanges[i]) / period;
+    values.push(atr);
+  }
+  return values;
+}
+
+// Volume-weighted average of the typical price over the window. Zero when
+// the window has no volume.
+function calcVWAP(bars: PriceBar[]): number {
+  let priceVolume = 0;
+  let volume = 0;
+  for (const b of bars) {
+    priceVolume += ((b.h + b.l + b.c) / 3) * b.v;
+    volume += b.v;
+  }
+  return volume > 0 ? priceVolume / volume : 0;
+}
+
+function sma(values: number[], period: number): number {
+  const window = values.slice(-period);
+  return window.length > 0 ? window.reduce((a, b) => a + b, 0) / window.length : 0;
+}
+
+// %K is the RSI's position in its 14-period range, smoothed over 3; %D is
+// %K smoothed over 3 again.
+function calcStochRSI(rsiValues: number[], period = 14): { k: number; d: number } {
+  if (rsiValues.length < period) return { k: 50, d: 50 };
+  const raw: number[] = [];
+  for (let i = period - 1; i < rsiValues.length; i++) {
+    const window = rsiValues.slice(i + 1 - period, i + 1);
+    const low = Math.min(...window);
+    const high = Math.max(...window);
+    raw.push(high > low ? ((rsiValues[i] - low) / (high - low)) * 100 : 50);
+  }
+  const kValues = raw.map((_, i) => sma(raw.slice(Math.max(0, i - 2), i + 1), 3));
+  return { k: kValues[kValues.length - 1], d: sma(kValues, 3) };
+}
+
+// On-balance volume over the last 10 bars, flat when its change is under a
+// tenth of the volume traded.
+function detectOBVTrend(bars: PriceBar[], lookback = 10): "rising" | "falling" | "flat" {
+  if (bars.length < lookback + 1) return "flat";
+  const recent = bars.slice(-(lookback + 1));
+  let obvChange = 0;
+  let traded = 0;
+  for (let i = 1; i < recent.length; i++) {
+    if (recent[i].c > recent[i - 1].c) obvChange += recent[i].v;
+    else if (recent[i].c < recent[i - 1].c) obvChange -= recent[i].v;
+    traded += recent[i].v;
+  }
+  if (traded === 0 || Math.abs(obvChange) < traded * 0.1) return "flat";
+  return obvChange > 0 ? "rising" : "falling";
+}
+
+// Band width of 20-period, 2-deviation Bollinger Bands, in percent of the
+// middle band.
+function calcBollingerWidth(closes: number[], period = 20): number {
+  if (closes.length < period) return 0;
+  const window = closes.slice(-period);
+  const mean = window.reduce((a, b) => a + b, 0) / period;
+  if (mean <= 0) return 0;
+  const stdDev = Math.sqrt(window.reduce((s, c) => s + (c - mean) ** 2, 0) / period);
+  return ((4 * stdDev) / mean) * 100;
+}
+
+// Supertrend(10, 3). `flipped` when the last bar changed its direction.
+function calcSupertrend(bars: PriceBar[], period = 10, multiplier = 3): { direction: "up" | "down"; flipped: boolean } {
+  const atrs = calcATRSeries(bars, period);
+  if (atrs.length < 2) return { direction: "up", flipped: false };
+
+  let upperBand = 0;
+  let lowerBand = 0;
+  let direction: "up" | "down" = "up";
+  let previous: "up" | "down" = "up";
+  for (let j = 0; j < atrs.length; j++) {
+    const bar = bars[j + period];
+    const prevClose = bars[j + period - 1].c;
+    const mid = (bar.h + bar.l) / 2;
+    const basicUpper = mid + multiplier * atrs[j];
+    const basicLower = mid - multiplier * atrs[j];
+    if (j === 0) {
+      upperBand = basicUpper;
+      lowerBand = basicLower;
+      direction = bar.c >= mid ? "up" : "down";
+      continue;
+    }
+    upperBand = basicUpper < upperBand || prevClose > upperBand ? basicUpper : upperBand;
+    lowerBand = basicLower > lowerBand || prevClose < lowerBand ? basicLower : lowerBand;
+    previous = direction;
+    if (direction === "down" && bar.c > upperBand) direction = "up";
+    else if (direction === "up" && bar.c < lowerBand) direction = "down";
+  }
+  return { direction, flipped: direction !== previous };
+}
+
+// A close beyond the 20-bar Donchian channel before it.
+function detectDonchianBreakout(bars: PriceBar[], currentPrice: number, period = 20): "up" | "down" | "none" {
+  if (bars.length < period + 1) return "none";
+  const channel = bars.slice(-(period + 1), -1);
+  if (currentPrice > Math.max(...channel.map(b => b.h))) return "up";
+  if (currentPrice < Math.min(...channel.map(b => b.l))) return "down";
+  return "none";
+}
+
 function detectRSIDivergence(prices: number[], rsiValues: number[]): "bullish" | "bearish" | "none" {
   if (prices.length < 20 || rsiValues.length < 20) return "none";
 
@@ -215,18 +373,83 @@ function detectVolumeTrend(volumes: number[]): "increasing" | "decreasing" | "st
   return "stable";
 }
 
-export function computeTechnicalIndicators(tokenKey: string, currentPrice: number): TechnicalIndicators {
+export function computeTechnicalIndicators(chain: string, address: string, currentPrice: number): TechnicalIndicators {
+  const tokenKey = `${chain}:${address.toLowerCase()}`;
   const cached = indicatorCache.get(tokenKey);
   if (cached && Date.now() - cached.fetchedAt < INDICATOR_CACHE_TTL) {
     return cached.data;
   }
 
-  const history = persistentPriceHistory.get(tokenKey);
-  if (!history || history.bars.length < 10) {
+  const bars = getRecentMinuteBars(chain, address);
+  if (bars.length < MIN_BARS) {
     return { ...DEFAULT_INDICATORS };
   }
 
-  const bars = history.bars;
+  const higher: Partial<Record<HigherTimeframe, PriceBar[]>> = {};
+  for (const timeframe of INDICATOR_TIMEFRAMES) {
+    if (timeframe !== "1m") higher[timeframe] = getRecentBars(chain, address, timeframe);
+  }
+  const indicators = computeIndicatorsFromBars(bars, currentPrice, higher);
+  indicatorCache.set(tokenKey, { data: indicators, fetchedAt: Date.now() });
+  return indicators;
+}
+
+// Pure variant over explicit bar windows, used when replaying history
+// without touching the live price cache. `bars` are the 1m candles the
+// top-level fields come from; timeframes without bars are left null.
+export function computeIndicatorsFromBars(
+  bars: PriceBar[],
+  currentPrice: number,
+  higher: Partial<Record<HigherTimeframe, PriceBar[]>> = {},
+): TechnicalIndicators {
+  if (bars.length < MIN_BARS) return { ...DEFAULT_INDICATORS };
+
+  const base = computeSeriesIndicators(bars, currentPrice);
+  const timeframes: TechnicalIndicators["timeframes"] = { "1m": summarizeTimeframe(base, bars.length), "5m": null, "15m": null, "1h": null };
+  for (const timeframe of INDICATOR_TIMEFRAMES) {
+    const tfBars = timeframe === "1m" ? undefined : higher[timeframe];
+    if (!tfBars || tfBars.length < MIN_BARS) continue;
+    timeframes[timeframe] = summarizeTimeframe(computeSeriesIndicators(tfBars, currentPrice), tfBars.length);
+  }
+
+  const known = Object.values(timeframes).filter((tf): tf is TimeframeIndicators => tf !== null);
+  const mtfBullishCount = known.filter(tf => tf.bias === "bullish").length;
+  const mtfBearishCount = known.filter(tf => tf.bias === "bearish").length;
+  let mtfAlignment: Bias = "mixed";
+  if (known.length >= 2 && mtfBullishCount === known.length) mtfAlignment = "bullish";
+  else if (known.length >= 2 && mtfBearishCount === known.length) mtfAlignment = "bearish";
+
+  const higherBiases = [timeframes["15m"], timeframes["1h"]]
+    .filter((tf): tf is TimeframeIndicators => tf !== null)
+    .map(tf => tf.bias);
+  const htfTrend: Bias = higherBiases.length > 0 && higherBiases.every(b => b === higherBiases[0]) ? higherBiases[0] : "mixed";
+
+  return { ...base, timeframes, mtfBullishCount, mtfBearishCount, mtfAlignment, htfTrend };
+}
+
+function summarizeTimeframe(ind: SeriesIndicators, bars: number): TimeframeIndicators {
+  const votes =
+    (ind.emaTrendAlignment === "bullish" ? 1 : ind.emaTrendAlignment === "bearish" ? -1 : 0) +
+    (ind.supertrend === "up" ? 1 : -1) +
+    (ind.macdHistogram > 0 ? 1 : ind.macdHistogram < 0 ? -1 : 0);
+  return {
+    bars,
+    rsi14: ind.rsi14,
+    emaTrendAlignment: ind.emaTrendAlignment,
+    emaCrossover: ind.emaCrossover,
+    macdHistogram: ind.macdHistogram,
+    trendStrength: ind.trendStrength,
+    isPullback: ind.isPullback,
+    priceVsVwap: ind.priceVsVwap,
+    stochRsiK: ind.stochRsiK,
+    supertrend: ind.supertrend,
+    supertrendFlip: ind.supertrendFlip,
+    donchianBreakout: ind.donchianBreakout,
+    bias: votes >= 2 ? "bullish" : votes <= -2 ? "bearish" : "mixed",
+  };
+}
+
+function computeSeriesIndicators(bars: PriceBar[], currentPrice: number): SeriesIndicators {
   const closes = bars.map(b => b.c);
   if (closes[closes.length - 1] !== currentPrice) {
     closes.push(currentPrice);
@@ -234,6 +457,7 @@ export function computeTechnicalIndicators(tokenKey: string, currentPrice: numbe
   const volumes = bars.map(b => b.v);
 
   const rsi14 = calcRSI(closes, 14);
+  const rsiValues = calcRSISeries(closes, 14);
   const ema9Arr = calcEMA(closes, 9);
   const ema21Arr = calcEMA(closes, 21);
   const ema50Arr = calcEMA(closes, Math.min(50, closes.length));
@@ -272,14 +496,7 @@ export function computeTechnicalIndicators(tokenKey: string, currentPrice: numbe
     else if (prevEma9 >= prevEma21 && ema9 < ema21) emaCrossover = "death_cross";
   }
 
-  let rsiDivergence: "bullish" | "bearish" | "none" = "none";
-  if (closes.length >= 20) {
-    const rsiValues: number[] = [];
-    for (let i = 15; i <= closes.length; i++) {
-      rsiValues.push(calcRSI(closes.slice(0, i), 14));
-    }
-    rsiDivergence = detectRSIDivergence(closes, rsiValues);
-  }
+  const rsiDivergence = closes.length >= 20 ? detectRSIDivergence(closes, rsiValues) : "none";
 
   const priceVsEma9 = ema9 > 0 ? ((currentPrice - ema9) / ema9) * 100 : 0;
   const priceVsEma21 = ema21 > 0 ? ((currentPrice - ema21) / ema21) * 100 : 0;
@@ -308,7 +525,12 @@ export function computeTechnicalIndicators(tokenKey: string, currentPrice: numbe
 
   const volumeTrend = detectVolumeTrend(volumes);
 
-  const indicators: TechnicalIndicators = {
+  const vwap = calcVWAP(bars);
+  const priceVsVwap = vwap > 0 ? ((currentPrice - vwap) / vwap) * 100 : 0;
+  const stochRsi = calcStochRSI(rsiValues, 14);
+  const supertrend = calcSupertrend(bars);
+
+  return {
     rsi14: Math.round(rsi14 * 10) / 10,
     ema9,
     ema21,
@@ -328,14 +550,20 @@ export function computeTechnicalIndicators(tokenKey: string, currentPrice: numbe
     isPullback,
     trendStrength: Math.round(trendStrength),
     volumeTrend,
+    vwap,
+    priceVsVwap: Math.round(priceVsVwap * 100) / 100,
+    stochRsiK: Math.round(stochRsi.k * 10) / 10,
+    stochRsiD: Math.round(stochRsi.d * 10) / 10,
+    obvTrend: detectOBVTrend(bars),
+    bollingerWidth: Math.round(calcBollingerWidth(closes) * 100) / 100,
+    supertrend: supertrend.direction,
+    supertrendFlip: supertrend.flipped,
+    donchianBreakout: detectDonchianBreakout(bars, currentPrice),
   };
-
-  indicatorCache.set(tokenKey, { data: indicators, fetchedAt: Date.now() });
-  return indicators;
 }
 
-export function getHistorySize(tokenKey: string): number {
-  return persistentPriceHistory.get(tokenKey)?.bars.length ?? 0;
+export function getHistorySize(chain: string, address: string): number {
+  return getRecentMinuteBars(chain, address).length;
 }
 
 export function clearIndicatorCache(): void {
@@ -0,0 +1,304 @@
+import { storage } from "../storage";
+import { resolveUserTier } from "../entitlements";
+import { getTierDefinition } from "@shared/tiers";
+import type { AiAgent, AgentTournament } from "@shared/schema";
+import { PaperSimulation, type BacktestMetrics, type EquityPoint } from "./backtest";
+import { getCachedOrFetchSignals } from "./agent-runner";
+import { AGENT_CYCLE_MS } from "./agent-scheduler";
+import { createLlmDecisionProvider, createLocalDecisionProvider, createRuleDecisionProvider } from "./decision-providers";
+import { getLastMarketBreadth, type TokenSignal } from "./signal-builder";
+import type { DecisionProvider } from "./agent-runtime";
+
+// Every frame is a model call per LLM entrant, so those runs are kept short.
+const MAX_LLM_DURATION_MINUTES = 60;
+const PERSIST_EVERY_FRAMES = 6;
+// A running tournament that has not recorded a frame for this long lost its
+// instance and cannot be resumed: the simulations live in that process.
+const STALE_AFTER_MS = 2 * 60 * 1000;
+// Fewer paired returns than this are not tested for significance.
+const MIN_FRAMES_FOR_SIGNIFICANCE = 30;
+const SIGNIFICANCE_LEVEL = 0.05;
+const STANDING_CURVE_POINTS = 120;
+
+export interface TournamentEntrant {
+  label: string;
+  strategy: string;
+  riskLevel: number;
+  stopLossPercent: number;
+  takeProfitPercent: number;
+  maxPositionSize: number;
+  maxDailyTrades: number;
+  allowShorts: boolean;
+  decisionProvider: string;
+}
+
+export interface TournamentSpec {
+  userId: string;
+  name: string;
+  chain: string;
+  durationMinutes: number;
+  entrants: TournamentEntrant[];
+}
+
+export interface PairedTest {
+  // Mean per-frame return of the leader minus this entrant's, in percent.
+  meanDiffPct: number;
+  tStat: number;
+  pValue: number;
+}
+
+export interface TournamentStanding {
+  entrant: number;
+  label: string;
+  config: TournamentEntrant;
+  metrics: BacktestMetrics;
+  equityCurve: { time: number; equity: number }[];
+  // Paired t-test of the leader's per-frame returns against this entrant's.
+  // Null for the leader itself and while there are too few frames.
+  vsLeader: PairedTest | null;
+}
+
+export interface TournamentStandings {
+  standings: TournamentStanding[];
+  // The leader beat the runner-up at the 5% level.
+  significant: boolean;
+}
+
+export function usesLlm(entrants: TournamentEntrant[]): boolean {
+  return entrants.some(e => e.decisionProvider !== "rule");
+}
+
+function entrantAgent(userId: string, chain: string, entrant: TournamentEntrant): AiAgent {
+  return {
+    id: 0, name: entrant.label, walletAddress: "", chain, strategy: entrant.strategy,
+    status: "running", executionMode: "paper",
+    maxPositionSize: entrant.maxPositionSize, stopLossPercent: entrant.stopLossPercent,
+    takeProfitPercent: entrant.takeProfitPercent, maxDailyTrades: entrant.maxDailyTrades,
+    riskLevel: entrant.riskLevel, totalPnl: 0, totalTrades: 0, winRate: 0, dailyTradesUsed: 0, tradesDay: null,
+    lastTradeAt: null, userId, createdAt: new Date(), customStrategyVersionId: null,
+    decisionProvider: entrant.decisionProvider, dailyTokenBudget: null, allowShorts: entrant.allowShorts,
+  };
+}
+
+function deciderFor(provider: string): DecisionProvider {
+  if (provider === "openai") return createLlmDecisionProvider();
+  if (provider === "local") return createLocalDecisionProvider();
+  return createRuleDecisionProvider();
+}
+
+// ── Statistics ──
+
+function logGamma(x: number): number {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const coef of c) ser += coef / ++y;
+  return -tmp + Math.log((2.5066282746310005 * ser) / x);
+}
+
+// Continued fraction for the incomplete beta function (Lentz's method).
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-10) break;
+  }
+  return h;
+}
+
+function regularizedBeta(a: number, b: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+// Two-sided p-value of Student's t with `df` degrees of freedom.
+function studentTPValue(t: number, df: number): number {
+  return regularizedBeta(df / 2, 0.5, df / (df + t * t));
+}
+
+function frameReturns(curve: EquityPoint[], startingBalance: number): number[] {
+  const returns: number[] = [];
+  let previous = startingBalance;
+  for (const point of curve) {
+    returns.push(previous > 0 ? point.equity / previous - 1 : 0);
+    previous = point.equity;
+  }
+  return returns;
+}
+
+// Every entrant sees the same frames, so returns pair up frame by frame.
+function pairedTTest(leader: number[], other: number[]): PairedTest | null {
+  const n = Math.min(leader.length, other.length);
+  if (n < MIN_FRAMES_FOR_SIGNIFICANCE) return null;
+  const diffs = Array.from({ length: n }, (_, i) => leader[i] - other[i]);
+  const mean = diffs.reduce((a, b) => a + b, 0) / n;
+  const variance = diffs.reduce((a, d) => a + (d - mean) ** 2, 0) / (n - 1);
+  if (variance === 0) return { meanDiffPct: mean * 100, tStat: 0, pValue: mean === 0 ? 1 : 0 };
+  const tStat = mean / Math.sqrt(variance / n);
+  return { meanDiffPct: mean * 100, tStat, pValue: studentTPValue(Math.abs(tStat), n - 1) };
+}
+
+function thinCurve(curve: EquityPoint[]): { time: number; equity: number }[] {
+  const stride = Math.max(1, Math.ceil(curve.length / STANDING_CURVE_POINTS));
+  const points = curve.filter((_, i) => i % stride === 0 || i === curve.length - 1);
+  return points.map(p => ({ time: p.time, equity: p.equity }));
+}
+
+// Ranked by Sharpe ratio, then total return.
+export function rankEntrants(entrants: TournamentEntrant[], simulations: PaperSimulation[]): TournamentStandings {
+  const ranked = entrants
+    .map((config, i) => ({ config, i, sim: simulations[i], metrics: simulations[i].result().metrics }))
+    .sort((a, b) => b.metrics.sharpe - a.metrics.sharpe || b.metrics.totalReturnPct - a.metrics.totalReturnPct);
+
+  const leaderReturns = frameReturns(ranked[0].sim.curve, ranked[0].sim.startingBalance);
+  const standings = ranked.map((r, rank) => ({
+    entrant: r.i,
+    label: r.config.label,
+    config: r.config,
+    metrics: r.metrics,
+    equityCurve: thinCurve(r.sim.curve),
+    vsLeader: rank === 0 ? null : pairedTTest(leaderReturns, frameReturns(r.sim.curve, r.sim.startingBalance)),
+  }));
+  const runnerUp = standings[1]?.vsLeader;
+  return { standings, significant: runnerUp != null && runnerUp.meanDiffPct > 0 && runnerUp.pValue < SIGNIFICANCE_LEVEL };
+}
+
+// ── Running ──
+
+async function frameSignals(chain: string, strategies: string[]): Promise<Map<string, TokenSignal[]>> {
+  const byStrategy = new Map<string, TokenSignal[]>();
+  for (const strategy of Array.from(new Set(strategies))) {
+    byStrategy.set(strategy, await getCachedOrFetchSignals(chain === "all" ? undefined : chain, strategy));
+  }
+  return byStrategy;
+}
+
+async function executeTournament(tournament: AgentTournament, entrants: TournamentEntrant[]): Promise<void> {
+  const { id, userId, chain } = tournament;
+  const simulations: PaperSimulation[] = [];
+  try {
+    const { tier } = await resolveUserTier(userId);
+    const feeBps = getTierDefinition(tier).swapFeeBps;
+    for (const entrant of entrants) {
+      simulations.push(new PaperSimulation({
+        agent: entrantAgent(userId, chain, entrant),
+        decider: deciderFor(entrant.decisionProvider),
+        feeBps,
+      }));
+    }
+
+    let frames = 0;
+    let status = "completed";
+    while (Date.now() < tournament.endsAt.getTime()) {
+      const started = Date.now();
+      const current = await storage.getAgentTournament(id);
+      if (!current || current.status !== "running") {
+        status = current?.status ?? "stopped";
+        break;
+      }
+
+      // Signals are fetched once per strategy and handed to every entrant
+      // before any of them trades, so all of them act on the same frame. A
+      // failed fetch skips the frame for everyone.
+      const signals = await frameSignals(chain, entrants.map(e => e.strategy)).catch((err: any) => {
+        console.warn(`[Tournament] #${id} skipped a frame:`, err.message);
+        return null;
+      });
+      if (signals) {
+        const breadth = getLastMarketBreadth();
+        await Promise.all(simulations.map((sim, i) => sim.step({ time: started, signals: signals.get(entrants[i].strategy) ?? [], breadth })));
+        frames++;
+      }
+
+      if (signals && frames % PERSIST_EVERY_FRAMES === 0) {
+        await storage.updateAgentTournament(id, {
+          frames, lastFrameAt: new Date(), standings: JSON.stringify(rankEntrants(entrants, simulations)),
+        });
+      } else {
+        await storage.updateAgentTournament(id, { frames, lastFrameAt: new Date() });
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, AGENT_CYCLE_MS - (Date.now() - started))));
+    }
+
+    const result = rankEntrants(entrants, simulations);
+    await storage.updateAgentTournament(id, {
+      status, frames, standings: JSON.stringify(result), completedAt: new Date(),
+    });
+    console.log(`[Tournament] #${id} ${status} after ${frames} frames; leader ${result.standings[0]?.label}${result.significant ? " (significant)" : ""}`);
+  } catch (err: any) {
+    console.error(`[Tournament] #${id} failed:`, err.message);
+    await storage.updateAgentTournament(id, {
+      status: "failed", error: err.message, completedAt: new Date(),
+      ...(simulations.length === entrants.length ? { standings: JSON.stringify(rankEntrants(entrants, simulations)) } : {}),
+    }).catch(() => {});
+  }
+}
+
+// Marks runs whose instance went away, then returns the user's tournaments.
+export async function listTournaments(userId: string): Promise<AgentTournament[]> {
+  await storage.interruptStaleTournaments(userId, new Date(Date.now() - STALE_AFTER_MS));
+  return storage.getAgentTournaments(userId);
+}
+
+export async function hasRunningTournament(userId: string): Promise<boolean> {
+  return (await listTournaments(userId)).some(t => t.status === "running");
+}
+
+// Records the tournament and runs it in the background on this instance;
+// callers poll the row for standings.
+export async function startTournament(spec: TournamentSpec): Promise<AgentTournament> {
+  const { userId, entrants } = spec;
+  if (await hasRunningTournament(userId)) throw new Error("A tournament is already running");
+  const durationMinutes = usesLlm(entrants) ? Math.min(spec.durationMinutes, MAX_LLM_DURATION_MINUTES) : spec.durationMinutes;
+  const tournament = await storage.createAgentTournament({
+    userId,
+    name: spec.name,
+    chain: spec.chain,
+    status: "running",
+    entrants: JSON.stringify(entrants),
+    durationMinutes,
+    endsAt: new Date(Date.now() + durationMinutes * 60 * 1000),
+  });
+  executeTournament(tournament, entrants);
+  return tournament;
+}
+
+// The config fields a winner carries over to a live agent.
+export function promotedConfig(entrant: TournamentEntrant): Partial<AiAgent> {
+  return {
+    strategy: entrant.strategy,
+    riskLevel: entrant.riskLevel,
+    stopLossPercent: entrant.stopLossPercent,
+    takeProfitPercent: entrant.takeProfitPercent,
+    maxPositionSize: entrant.maxPositionSize,
+    maxDailyTrades: entrant.maxDailyTrades,
+    allowShorts: entrant.allowShorts,
+    decisionProvider: entrant.decisionProvider,
+    customStrategyVersionId: null,
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { PriceAlert } from "@shared/schema";
+import { deliverAlert, setMessageTransport, type AlertNotification, type MessageTransport } from "./alert-channels";
+
+// Keeps what it was asked to send instead of sending it.
+class RecordingTransport implements MessageTransport {
+  sent: { recipient: string; subject: string; body: string }[] = [];
+
+  async send(recipient: string, subject: string, body: string): Promise<void> {
+    this.sent.push({ recipient, subject, body });
+  }
+}
+
+function alert(overrides: Partial<PriceAlert>): PriceAlert {
+  return {
+    id: 1, tokenId: 7, type: "above", targetPrice: 2, percentChange: null, windowMinutes: 60, chain: "solana",
+    userId: "user-1", channels: ["websocket"], webhookUrl: null, notifyTarget: null, enabled: true,
+    triggered: false, triggeredAt: null, triggeredPrice: null, createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+const notification: AlertNotification = {
+  alertId: 1, userId: "user-1", tokenId: 7, symbol: "BONK", chain: "solana", type: "above",
+  price: 2.5, targetPrice: 2, percentChange: null, observedChange: null, windowMinutes: 60,
+  message: "BONK rose above $2", triggeredAt: new Date(0).toISOString(),
+};
+
+describe("deliverAlert", () => {
+  it("sends email and Telegram alerts through their transports", async () => {
+    const email = new RecordingTransport();
+    const telegram = new RecordingTransport();
+    setMessageTransport("email", email);
+    setMessageTransport("telegram", telegram);
+
+    const results = await deliverAlert(alert({ channels: ["email", "telegram"], notifyTarget: "42" }), notification);
+
+    expect(results).toEqual([{ channel: "email", ok: true }, { channel: "telegram", ok: true }]);
+    expect(email.sent).toEqual([{ recipient: "42", subject: "BONK price alert", body: "BONK rose above $2" }]);
+    expect(telegram.sent).toHaveLength(1);
+  });
+
+  it("fails a messaging channel without a recipient", async () => {
+    const email = new RecordingTransport();
+    setMessageTransport("email", email);
+
+    const [result] = await deliverAlert(alert({ channels: ["email"] }), notification);
+
+    expect(result).toEqual({ channel: "email", ok: false, error: "No email recipient configured" });
+    expect(email.sent).toHaveLength(0);
+  });
+
+  it("reports channels that are not registered", async () => {
+    const [result] = await deliverAlert(alert({ channels: ["sms"] }), notification);
+    expect(result).toEqual({ channel: "sms", ok: false, error: "Unknown channel" });
+  });
+});
@@ -0,0 +1,231 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import nodemailer from "nodemailer";
+import type { PriceAlert } from "@shared/schema";
+import { sendToUser } from "./live-feed";
+
+export interface AlertNotification {
+  alertId: number;
+  userId: string | null;
+  tokenId: number;
+  symbol: string;
+  chain: string;
+  type: string;
+  price: number;
+  targetPrice: number | null;
+  percentChange: number | null;
+  observedChange: number | null;
+  windowMinutes: number | null;
+  message: string;
+  triggeredAt: string;
+}
+
+export interface AlertChannel {
+  name: string;
+  deliver(alert: PriceAlert, notification: AlertNotification): Promise<void>;
+}
+
+export interface DeliveryResult {
+  channel: string;
+  ok: boolean;
+  error?: string;
+}
+
+// Email/Telegram-style delivery is split from the channel so the actual
+// sender can be swapped (SMTP, bot API, or a recording stub in tests).
+export interface MessageTransport {
+  send(recipient: string, subject: string, body: string): Promise<void>;
+}
+
+const MESSAGE_TIMEOUT_MS = 10_000;
+
+// Sends through the SMTP server in SMTP_HOST; null when it is not set.
+export function createSmtpTransport(env: NodeJS.ProcessEnv = process.env): MessageTransport | null {
+  if (!env.SMTP_HOST || !env.SMTP_FROM) return null;
+  const port = Number(env.SMTP_PORT) || 587;
+  const mailer = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port,
+    secure: port === 465,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+    connectionTimeout: MESSAGE_TIMEOUT_MS,
+    socketTimeout: MESSAGE_TIMEOUT_MS,
+  });
+  return {
+    async send(recipient, subject, body) {
+      await mailer.sendMail({ from: env.SMTP_FROM, to: recipient, subject, text: body });
+    },
+  };
+}
+
+// Sends as the bot in TELEGRAM_BOT_TOKEN; null when it is not set. The
+// recipient is a chat ID that has started a conversation with the bot.
+export function createTelegramTransport(env: NodeJS.ProcessEnv = process.env): MessageTransport | null {
+  const token = env.TELEGRAM_BOT_TOKEN;
+  if (!token) return null;
+  return {
+    async send(recipient, subject, body) {
+      const res = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chat_id: recipient, text: `${subject}\n${body}` }),
+        signal: AbortSignal.timeout(MESSAGE_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        const data: any = await res.json().catch(() => null);
+        throw new Error(`Telegram responded ${res.status}${data?.description ? `: ${data.description}` : ""}`);
+      }
+    },
+  };
+}
+
+const websocketChannel: AlertChannel = {
+  name: "websocket",
+  async deliver(alert, notification) {
+    sendToUser(alert.userId, { type: "alert_triggered", data: notification });
+  },
+};
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Webhook URLs are user input, so the server must not be pointed at itself,
+// the cloud metadata service or anything else on the private network.
+const BLOCKED_RANGES = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8],
+  ["169.254.0.0", 16], ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16],
+  ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  BLOCKED_RANGES.addSubnet(address, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return BLOCKED_RANGES.check(mapped[1], "ipv4");
+  return BLOCKED_RANGES.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+// Resolves like dns.lookup but fails on private addresses. The request
+// connects to the address checked here, so a host that re-resolves to a
+// private address later (DNS rebinding) is still refused.
+function publicOnlyLookup(hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void): void {
+  dns.lookup(hostname, options, (err, address: any, family?: number) => {
+    if (err) return callback(err, address, family);
+    const addresses: string[] = Array.isArray(address) ? address.map((a: dns.LookupAddress) => a.address) : [address];
+    const blocked = addresses.find(isBlockedAddress);
+    if (blocked) return callback(new Error(`Webhook host ${hostname} resolves to a private address`), address, family);
+    callback(null, address, family);
+  });
+}
+
+// Null when the URL is an http(s) URL whose host resolves to public
+// addresses only; otherwise why it is refused.
+export async function webhookUrlError(rawUrl: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return "Webhook URL is not a valid URL";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return "Webhook URL must be http(s)";
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host)) return isBlockedAddress(host) ? "Webhook URL points to a private address" : null;
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    if (addresses.some(a => isBlockedAddress(a.address))) return "Webhook URL points to a private address";
+  } catch {
+    return `Webhook host ${host} does not resolve`;
+  }
+  return null;
+}
+
+// Redirects are not followed: a public URL could otherwise bounce the
+// request to a private one.
+function postWebhook(rawUrl: string, body: string): Promise<number> {
+  const url = new URL(rawUrl);
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) },
+      lookup: publicOnlyLookup as any,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, res => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+const webhookChannel: AlertChannel = {
+  name: "webhook",
+  async deliver(alert, notification) {
+    if (!alert.webhookUrl) throw new Error("No webhook URL configured");
+    // Literal IPs skip the lookup, so they are checked here.
+    const urlError = await webhookUrlError(alert.webhookUrl);
+    if (urlError) throw new Error(urlError);
+    const status = await postWebhook(alert.webhookUrl, JSON.stringify({ event: "price_alert.triggered", ...notification }));
+    if (status < 200 || status >= 300) throw new Error(`Webhook responded ${status}`);
+  },
+};
+
+function createMessagingChannel(name: string, transport: MessageTransport): AlertChannel {
+  return {
+    name,
+    async deliver(alert, notification) {
+      if (!alert.notifyTarget) throw new Error(`No ${name} recipient configured`);
+      await transport.send(alert.notifyTarget, `${notification.symbol} price alert`, notification.message);
+    },
+  };
+}
+
+// Email and Telegram are only offered once their transport is configured.
+const channels = new Map<string, AlertChannel>([
+  [websocketChannel.name, websocketChannel],
+  [webhookChannel.name, webhookChannel],
+]);
+const smtpTransport = createSmtpTransport();
+if (smtpTransport) channels.set("email", createMessagingChannel("email", smtpTransport));
+const telegramTransport = createTelegramTransport();
+if (telegramTransport) channels.set("telegram", createMessagingChannel("telegram", telegramTransport));
+
+export function registerAlertChannel(channel: AlertChannel): void {
+  channels.set(channel.name, channel);
+}
+
+export function setMessageTransport(name: "email" | "telegram", transport: MessageTransport): void {
+  channels.set(name, createMessagingChannel(name, transport));
+}
+
+export function getAlertChannelNames(): string[] {
+  return Array.from(channels.keys());
+}
+
+export async function deliverAlert(alert: PriceAlert, notification: AlertNotification): Promise<DeliveryResult[]> {
+  const requested = alert.channels && alert.channels.length > 0 ? alert.channels : ["websocket"];
+  const results: DeliveryResult[] = [];
+
+  for (const name of Array.from(new Set(requested))) {
+    const channel = channels.get(name);
+    if (!channel) {
+      results.push({ channel: name, ok: false, error: "Unknown channel" });
+      continue;
+    }
+    try {
+      await channel.deliver(alert, notification);
+      results.push({ channel: name, ok: true });
+    } catch (err: any) {
+      console.error(`[Alerts] Delivery via ${name} failed for alert ${alert.id}:`, err.message);
+      results.push({ channel: name, ok: false, error: err.message });
+    }
+  }
+
+  return results;
+}
@@ -1,4 +1,4 @@
-const AVEAI_BASE = "https://prod.ave-api.com/v2";
+import { marketData } from "./market-data";
 
 const API_KEY = process.env.AVEAI_API_KEY || "";
 
@@ -6,32 +6,6 @@ export function hasApiKey(): boolean {
   return !!API_KEY;
 }
 
-function getHeaders(): Record<string, string> {
-  const h: Record<string, string> = { "Accept": "application/json" };
-  if (API_KEY) h["X-API-KEY"] = API_KEY;
-  return h;
-}
-
-async function fetchWithTimeout(url: string, options: RequestInit = {}, timeoutMs = 10000): Promise<any> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    const res = await fetch(url, { ...options, signal: controller.signal, headers: { ...getHeaders(), ...(options.headers || {}) } });
-    if (!res.ok) {
-      console.warn(`[AveAI] HTTP ${res.status} for ${url}`);
-      if (res.status === 403) return { _error: "AVEAI_KEY_MISSING" };
-      return null;
-    }
-    return await res.json();
-  } catch (err: any) {
-    if (err.name === "AbortError") console.warn(`[AveAI] Timeout for ${url}`);
-    else console.warn(`[AveAI] Fetch error for ${url}:`, err.message);
-    return null;
-  } finally {
-    clearTimeout(timer);
-  }
-}
-
 const cache = new Map<string, { data: any; fetchedAt: number }>();
 const CACHE_TTL = 60_000;
 const RANK_CACHE_TTL = 120_000;
@@ -124,11 +98,11 @@ export async function searchTokens(keyword: string, chain?: string, limit = 100,
   const cached = getCached(cacheKey, CACHE_TTL);
   if (cached) return { tokens: cached };
 
-  const params = new URLSearchParams({ keyword, limit: String(Math.min(limit, 300)) });
-  if (chain) params.set("chain", chain);
-  if (orderby) params.set("orderby", orderby);
+  const params: Record<string, string> = { keyword, limit: String(Math.min(limit, 300)) };
+  if (chain) params.chain = chain;
+  if (orderby) params.orderby = orderby;
 
-  const resp = await fetchWithTimeout(`${AVEAI_BASE}/tokens?${params}`);
+  const resp = await marketData().pairs.aveTokens(params);
   if (resp?._error) return { tokens: [], error: resp._error };
   if (!resp || resp.status !== 1) return { tokens: [] };
 
@@ -142,7 +116,7 @@ export async function getRankTopics(): Promise<{ topics: AveRankTopic[]; error?:
   const cached = getCached(cacheKey, RANK_CACHE_TTL);
   if (cached) return { topics: cached };
 
-  const resp = await fetchWithTimeout(`${AVEAI_BASE}/ranks/topics`);
+  const resp = await marketData().pairs.aveRankTopics();
   if (resp?._error) return { topics: [], error: resp._error };
   if (!resp || resp.status !== 1) return { topics: [] };
 
@@ -156,8 +130,7 @@ export async function getRankTokens(topic: string, limit = 200): Promise<{ token
   const cached = getCached(cacheKey, RANK_CACHE_TTL);
   if (cached) return { tokens: cached };
 
-  const params = new URLSearchParams({ topic, limit: String(Math.min(limit, 300)) });
-  const resp = await fetchWithTimeout(`${AVEAI_BASE}/ranks?${params}`);
+  const resp = await marketData().pairs.aveRanks(topic, Math.min(limit, 300));
   if (resp?._error) return { tokens: [], error: resp._error };
   if (!resp || resp.status !== 1) return { tokens: [] };
 
@@ -173,11 +146,7 @@ export async function getTokenPrices(tokenIds: string[]): Promise<Record<string,
   const cached = getCached(cacheKey, CACHE_TTL);
   if (cached) return cached;
 
-  const resp = await fetchWithTimeout(`${AVEAI_BASE}/tokens/price`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ token_ids: ids }),
-  });
+  const resp = await marketData().pairs.avePrices(ids);
   if (!resp || resp.status !== 1) return {};
 
   const data = resp.data || {};
@@ -196,8 +165,7 @@ export async function getKlineByToken(
   const cached = getCached(cacheKey, KLINE_CACHE_TTL);
   if (cached) return cached;
 
-  const params = new URLSearchParams({ chain, interval, size: String(size), price_type: priceType });
-  const resp = await fetchWithTimeout(`${AVEAI_BASE}/klines/token/${tokenAddress}?${params}`);
+  const resp = await marketData().ohlcv.aveTokenKlines(tokenAddress, { chain, interval, size: String(size), price_type: priceType });
   if (!resp || resp.status !== 1) return [];
 
   const data = resp.data || [];
@@ -215,8 +183,7 @@ export async function getKlineByPair(
   const cached = getCached(cacheKey, KLINE_CACHE_TTL);
   if (cached) return cached;
 
-  const params = new URLSearchParams({ interval, size: String(size), price_type: priceType });
-  const resp = await fetchWithTimeout(`${AVEAI_BASE}/klines/pair/${pairId}?${params}`);
+  const resp = await marketData().ohlcv.avePairKlines(pairId, { interval, size: String(size), price_type: priceType });
   if (!resp || resp.status !== 1) return [];
 
   const data = resp.data || [];
@@ -229,7 +196,7 @@ export async function getContractRisk(chain: string, tokenAddress: string): Prom
   const cached = getCached(cacheKey, RISK_CACHE_TTL);
   if (cached) return cached;
 
-  const resp = await fetchWithTimeout(`${AVEAI_BASE}/contract/risk/${chain}/${tokenAddress}`);
+  const resp = await marketData().security.aveContractRisk(chain, tokenAddress);
   if (!resp || resp.status !== 1) return null;
 
   const data = resp.data || null;
@@ -0,0 +1,412 @@
+import { storage } from "./storage";
+import { marketData } from "./market-data";
+import { fetchHistoricalOHLCV } from "./live-memes";
+import type { Candle, InsertCandle } from "@shared/schema";
+
+// Candles for every token the terminal prices, kept in Postgres per
+// chain + address + resolution. Live prices build 1m candles, which roll up
+// into each larger resolution in turn. Missing stretches are backfilled
+// from GeckoTerminal. The latest candles of each priced token are also
+// kept in memory so the technical indicators can read them synchronously.
+
+export interface PriceBar {
+  // Bucket start, ms since epoch.
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+}
+
+export const CANDLE_RESOLUTIONS = ["1m", "5m", "15m", "1h", "4h", "1d"] as const;
+export type CandleResolution = typeof CANDLE_RESOLUTIONS[number];
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+export const RESOLUTION_MS: Record<CandleResolution, number> = {
+  "1m": MINUTE_MS,
+  "5m": 5 * MINUTE_MS,
+  "15m": 15 * MINUTE_MS,
+  "1h": 60 * MINUTE_MS,
+  "4h": 240 * MINUTE_MS,
+  "1d": DAY_MS,
+};
+// Daily candles are kept for good.
+const RETENTION_MS: Partial<Record<CandleResolution, number>> = {
+  "1m": 3 * DAY_MS,
+  "5m": 14 * DAY_MS,
+  "15m": 30 * DAY_MS,
+  "1h": 180 * DAY_MS,
+  "4h": 365 * DAY_MS,
+};
+
+export const HOT_CANDLE_LIMIT = 200;
+export const MAX_CANDLES_PER_REQUEST = 1000;
+// Tokens left with fewer 1m candles than this after loading from Postgres
+// are queued for a backfill.
+const MIN_WARM_CANDLES = 30;
+const FLUSH_INTERVAL_MS = 15_000;
+const PRUNE_INTERVAL_MS = 60 * MINUTE_MS;
+// GeckoTerminal allows about 30 calls a minute.
+const BACKFILL_SPACING_MS = 2_500;
+
+interface HotSeries {
+  chain: string;
+  // As first seen, since upstream lookups of Solana mints are case-sensitive.
+  address: string;
+  bars: PriceBar[];
+  // Buckets changed since the last flush.
+  dirty: Set<number>;
+}
+
+// Candles above 1m, as last read from Postgres.
+interface StoredSeries {
+  bars: PriceBar[];
+  loadedAt: number;
+  loading: boolean;
+}
+
+const hotSeries = new Map<string, HotSeries>();
+const storedSeries = new Map<string, StoredSeries>();
+// Per series, the smallest resolution index and earliest bucket whose larger
+// resolutions need rolling up again.
+const pendingRollups = new Map<string, { chain: string; address: string; level: number; from: number }>();
+// Pools and backfill times are remembered for this many series; the least
+// recently touched are forgotten first.
+const MAX_TRACKED_SERIES = 5000;
+const pairAddresses = new Map<string, string>();
+const lastBackfill = new Map<string, number>();
+const backfillQueue: { chain: string; address: string; resolution: CandleResolution }[] = [];
+const queuedBackfills = new Set<string>();
+
+let flushing = false;
+let started = false;
+
+export function candleKey(chain: string, address: string): string {
+  return `${chain}:${address.toLowerCase()}`;
+}
+
+function remember<V>(map: Map<string, V>, key: string, value: V): void {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > MAX_TRACKED_SERIES) {
+    const oldest = map.keys().next();
+    if (!oldest.done) map.delete(oldest.value);
+  }
+}
+
+export function isCandleResolution(value: string): value is CandleResolution {
+  return (CANDLE_RESOLUTIONS as readonly string[]).includes(value);
+}
+
+function bucketStart(t: number, resolution: CandleResolution): number {
+  const size = RESOLUTION_MS[resolution];
+  return Math.floor(t / size) * size;
+}
+
+function toRow(chain: string, address: string, resolution: CandleResolution, bar: PriceBar, source: string): InsertCandle {
+  return {
+    chain, address, resolution, source,
+    bucketStart: new Date(bar.t),
+    open: bar.o, high: bar.h, low: bar.l, close: bar.c, volume: bar.v,
+  };
+}
+
+function fromRow(row: Candle): PriceBar {
+  return { t: row.bucketStart.getTime(), o: row.open, h: row.high, l: row.low, c: row.close, v: row.volume };
+}
+
+function markRollup(chain: string, address: string, level: number, from: number): void {
+  const key = candleKey(chain, address);
+  const pending = pendingRollups.get(key);
+  pendingRollups.set(key, pending
+    ? { ...pending, level: Math.min(pending.level, level), from: Math.min(pending.from, from) }
+    : { chain, address, level, from });
+}
+
+// Merges bars into the in-memory window. `replace` lets incoming bars win
+// over ticks already held for the same bucket.
+function mergeHotBars(series: HotSeries, bars: PriceBar[], replace: boolean): void {
+  const byBucket = new Map(series.bars.map(b => [b.t, b] as [number, PriceBar]));
+  for (const bar of bars) {
+    if (replace || !byBucket.has(bar.t)) byBucket.set(bar.t, { ...bar });
+  }
+  series.bars = Array.from(byBucket.values()).sort((a, b) => a.t - b.t).slice(-HOT_CANDLE_LIMIT);
+}
+
+function getHotSeries(chain: string, address: string): HotSeries {
+  const key = candleKey(chain, address);
+  let series = hotSeries.get(key);
+  if (!series) {
+    series = { chain, address, bars: [], dirty: new Set() };
+    hotSeries.set(key, series);
+    loadHotSeries(series);
+  }
+  return series;
+}
+
+async function loadHotSeries(series: HotSeries): Promise<void> {
+  try {
+    const since = new Date(bucketStart(Date.now(), "1m") - HOT_CANDLE_LIMIT * MINUTE_MS);
+    const rows = await storage.getCandles(series.chain, series.address, "1m", since);
+    mergeHotBars(series, rows.filter(r => r.source === "exchange").map(fromRow), true);
+    mergeHotBars(series, rows.filter(r => r.source !== "exchange").map(fromRow), false);
+  } catch (err: any) {
+    console.error(`[Candles] Failed to load ${candleKey(series.chain, series.address)}:`, err.message);
+  }
+  if (series.bars.length < MIN_WARM_CANDLES) queueBackfill(series.chain, series.address, "1m");
+}
+
+// Adds a live price to the token's current 1m candle. Written to Postgres
+// on the next flush.
+export function recordTick(chain: string, address: string, price: number, volume: number, high?: number, low?: number): void {
+  if (!(price > 0)) return;
+  const series = getHotSeries(chain, address);
+  const t = bucketStart(Date.now(), "1m");
+  const last = series.bars[series.bars.length - 1];
+  if (last && last.t === t) {
+    last.c = price;
+    last.h = Math.max(last.h, high ?? price);
+    last.l = Math.min(last.l, low ?? price);
+    last.v += volume;
+  } else {
+    series.bars.push({ t, o: price, h: high ?? price, l: low ?? price, c: price, v: volume });
+    if (series.bars.length > HOT_CANDLE_LIMIT) series.bars = series.bars.slice(-HOT_CANDLE_LIMIT);
+  }
+  series.dirty.add(t);
+}
+
+// Stores candles fetched from an exchange at `resolution`.
+export async function ingestCandles(chain: string, address: string, resolution: CandleResolution, bars: PriceBar[]): Promise<void> {
+  if (bars.length === 0) return;
+  const aligned = bars.map(b => ({ ...b, t: bucketStart(b.t, resolution) }));
+  await storage.upsertCandles(aligned.map(b => toRow(chain, address, resolution, b, "exchange")));
+  if (resolution === "1m") mergeHotBars(getHotSeries(chain, address), aligned, true);
+  markRollup(chain, address, CANDLE_RESOLUTIONS.indexOf(resolution), Math.min(...aligned.map(b => b.t)));
+}
+
+// The latest 1m candles held in memory, oldest first.
+export function getRecentMinuteBars(chain: string, address: string): PriceBar[] {
+  return hotSeries.get(candleKey(chain, address))?.bars ?? [];
+}
+
+// Combines time-ordered bars into candles at `resolution`.
+export function rollUpBars(bars: PriceBar[], resolution: CandleResolution): PriceBar[] {
+  const buckets = new Map<number, PriceBar>();
+  for (const b of bars) {
+    const t = bucketStart(b.t, resolution);
+    const bar = buckets.get(t);
+    if (bar) {
+      bar.h = Math.max(bar.h, b.h);
+      bar.l = Math.min(bar.l, b.l);
+      bar.c = b.c;
+      bar.v += b.v;
+    } else {
+      buckets.set(t, { t, o: b.o, h: b.h, l: b.l, c: b.c, v: b.v });
+    }
+  }
+  return Array.from(buckets.values());
+}
+
+async function loadStoredSeries(chain: string, address: string, resolution: CandleResolution, series: StoredSeries): Promise<void> {
+  series.loading = true;
+  try {
+    const since = new Date(bucketStart(Date.now(), resolution) - (HOT_CANDLE_LIMIT - 1) * RESOLUTION_MS[resolution]);
+    const rows = await storage.getCandles(chain, address, resolution, since);
+    series.bars = rows.map(fromRow);
+    if (series.bars.length < MIN_WARM_CANDLES) queueBackfill(chain, address, resolution);
+  } catch (err: any) {
+    console.error(`[Candles] Failed to load ${candleKey(chain, address)} ${resolution}:`, err.message);
+  } finally {
+    series.loadedAt = Date.now();
+    series.loading = false;
+  }
+}
+
+// The latest candles at `resolution`, oldest first, without waiting on
+// Postgres. Larger resolutions are read in the background, re-read once
+// per backfill cooldown, and brought up to date from the in-memory 1m
+// candles in between; the first read of a series only starts loading it.
+export function getRecentBars(chain: string, address: string, resolution: CandleResolution): PriceBar[] {
+  if (resolution === "1m") return getRecentMinuteBars(chain, address);
+
+  const key = `${candleKey(chain, address)}:${resolution}`;
+  let series = storedSeries.get(key);
+  if (!series) {
+    series = { bars: [], loadedAt: 0, loading: false };
+    storedSeries.set(key, series);
+  }
+  if (!series.loading && Date.now() - series.loadedAt >= backfillCooldownMs(resolution)) {
+    loadStoredSeries(chain, address, resolution, series);
+  }
+
+  const bars = series.bars.slice();
+  const last = bars[bars.length - 1];
+  const live = rollUpBars(getRecentMinuteBars(chain, address).filter(b => !last || b.t >= last.t), resolution);
+  for (const bar of live) {
+    if (last && bar.t === last.t) {
+      // The minute window may start partway into the stored bucket, so it
+      // only extends that candle.
+      bars[bars.length - 1] = { ...last, h: Math.max(last.h, bar.h), l: Math.min(last.l, bar.l), c: bar.c, v: Math.max(last.v, bar.v) };
+    } else {
+      bars.push(bar);
+    }
+  }
+  return bars.slice(-HOT_CANDLE_LIMIT);
+}
+
+// Rebuilds each resolution above `level` from the one below it, for
+// buckets from `from` on. Exchange candles are left as they are.
+async function rollUp(chain: string, address: string, level: number, from: number): Promise<void> {
+  for (let i = level + 1; i < CANDLE_RESOLUTIONS.length; i++) {
+    const resolution = CANDLE_RESOLUTIONS[i];
+    const start = bucketStart(from, resolution);
+    const rows = await storage.getCandles(chain, address, CANDLE_RESOLUTIONS[i - 1], new Date(start));
+    const bars = rollUpBars(rows.map(fromRow), resolution);
+    await storage.upsertCandles(bars.map(b => toRow(chain, address, resolution, b, "rollup")));
+  }
+}
+
+async function flushCandles(): Promise<void> {
+  if (flushing) return;
+  flushing = true;
+  try {
+    for (const series of Array.from(hotSeries.values())) {
+      if (series.dirty.size === 0) continue;
+      const dirty = series.dirty;
+      series.dirty = new Set();
+      const bars = series.bars.filter(b => dirty.has(b.t));
+      if (bars.length === 0) continue;
+      try {
+        await storage.upsertCandles(bars.map(b => toRow(series.chain, series.address, "1m", b, "tick")));
+        markRollup(series.chain, series.address, 0, bars[0].t);
+      } catch (err: any) {
+        dirty.forEach(t => series.dirty.add(t));
+        console.error(`[Candles] Failed to write ${candleKey(series.chain, series.address)}:`, err.message);
+      }
+    }
+
+    for (const [key, pending] of Array.from(pendingRollups.entries())) {
+      pendingRollups.delete(key);
+      try {
+        await rollUp(pending.chain, pending.address, pending.level, pending.from);
+      } catch (err: any) {
+        console.error(`[Candles] Rollup failed for ${key}:`, err.message);
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+async function resolvePairAddress(chain: string, address: string): Promise<string | null> {
+  const key = candleKey(chain, address);
+  const cached = pairAddresses.get(key);
+  if (cached) return cached;
+
+  const pairs = await marketData().pairs.tokenPairs(chain, [address]);
+  if (!Array.isArray(pairs)) return null;
+  const best = pairs
+    .filter((p: any) => p.pairAddress && p.baseToken?.address?.toLowerCase() === address.toLowerCase())
+    .sort((a: any, b: any) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))[0];
+  if (!best) return null;
+  remember(pairAddresses, key, best.pairAddress);
+  return best.pairAddress;
+}
+
+// Each series and resolution is fetched at most once per bucket, and at
+// least every 15 minutes, so a token with no trades in some buckets doesn't
+// re-fetch on every read.
+function backfillCooldownMs(resolution: CandleResolution): number {
+  return Math.max(MINUTE_MS, Math.min(RESOLUTION_MS[resolution], 15 * MINUTE_MS));
+}
+
+// Fetches the latest `limit` candles from GeckoTerminal. Returns whether
+// anything was stored.
+export async function backfillCandles(chain: string, address: string, resolution: CandleResolution, limit: number, pairAddress?: string | null): Promise<boolean> {
+  const key = `${candleKey(chain, address)}:${resolution}`;
+  const last = lastBackfill.get(key);
+  if (last && Date.now() - last < backfillCooldownMs(resolution)) return false;
+  remember(lastBackfill, key, Date.now());
+
+  try {
+    const pair = pairAddress || await resolvePairAddress(chain, address);
+    if (!pair) return false;
+    const fetched = await fetchHistoricalOHLCV(chain, pair, resolution, Math.min(limit, MAX_CANDLES_PER_REQUEST));
+    if (fetched.length === 0) return false;
+    await ingestCandles(chain, address, resolution, fetched.map(c => ({ ...c, t: c.t * 1000 })));
+    return true;
+  } catch (err: any) {
+    console.error(`[Candles] Backfill failed for ${key}:`, err.message);
+    return false;
+  }
+}
+
+function queueBackfill(chain: string, address: string, resolution: CandleResolution): void {
+  const key = `${candleKey(chain, address)}:${resolution}`;
+  if (queuedBackfills.has(key)) return;
+  queuedBackfills.add(key);
+  backfillQueue.push({ chain, address, resolution });
+}
+
+async function drainBackfillQueue(): Promise<void> {
+  const next = backfillQueue.shift();
+  if (!next) return;
+  queuedBackfills.delete(`${candleKey(next.chain, next.address)}:${next.resolution}`);
+  if (await backfillCandles(next.chain, next.address, next.resolution, HOT_CANDLE_LIMIT) && next.resolution !== "1m") {
+    // Read the fresh candles on the next request instead of after the cooldown.
+    const series = storedSeries.get(`${candleKey(next.chain, next.address)}:${next.resolution}`);
+    if (series) series.loadedAt = 0;
+  }
+}
+
+function hasGap(rows: Candle[], resolution: CandleResolution, count: number): boolean {
+  if (rows.length < count) return true;
+  const newest = rows[rows.length - 1].bucketStart.getTime();
+  return newest < bucketStart(Date.now(), resolution) - RESOLUTION_MS[resolution];
+}
+
+// The latest `limit` candles at `resolution`, oldest first, backfilling
+// from GeckoTerminal when the stored series has gaps. `pairAddress` skips
+// the pool lookup when the caller already knows it.
+export async function getCandles(chain: string, address: string, resolution: CandleResolution, limit: number, pairAddress?: string | null): Promise<PriceBar[]> {
+  const count = Math.max(1, Math.min(limit, MAX_CANDLES_PER_REQUEST));
+  const since = new Date(bucketStart(Date.now(), resolution) - (count - 1) * RESOLUTION_MS[resolution]);
+  let rows = await storage.getCandles(chain, address, resolution, since);
+  if (hasGap(rows, resolution, count) && await backfillCandles(chain, address, resolution, count, pairAddress)) {
+    rows = await storage.getCandles(chain, address, resolution, since);
+  }
+  return rows.map(fromRow);
+}
+
+export async function preWarmCandles(tokens: { chain: string; address: string; pairAddress?: string | null }[]): Promise<void> {
+  for (const token of tokens) {
+    await getCandles(token.chain, token.address, "15m", 100, token.pairAddress).catch(() => {});
+    await new Promise(r => setTimeout(r, 300));
+  }
+}
+
+async function pruneExpiredCandles(): Promise<void> {
+  let pruned = 0;
+  for (const resolution of CANDLE_RESOLUTIONS) {
+    const retention = RETENTION_MS[resolution];
+    if (!retention) continue;
+    try {
+      pruned += await storage.pruneCandles(resolution, new Date(Date.now() - retention));
+    } catch (err: any) {
+      console.error(`[Candles] Failed to prune ${resolution} candles:`, err.message);
+    }
+  }
+  if (pruned > 0) console.log(`[Candles] Pruned ${pruned} expired candle(s)`);
+}
+
+export function startCandleStore(): void {
+  if (started) return;
+  started = true;
+  console.log(`[Candles] Writing candles every ${FLUSH_INTERVAL_MS / 1000}s, rolling up ${CANDLE_RESOLUTIONS.join(" -> ")}`);
+  setInterval(flushCandles, FLUSH_INTERVAL_MS);
+  setInterval(drainBackfillQueue, BACKFILL_SPACING_MS);
+  setInterval(pruneExpiredCandles, PRUNE_INTERVAL_MS);
+  pruneExpiredCandles();
+}
@@ -0,0 +1,246 @@
+import { storage } from "./storage";
+import type { CopyTradeConfig, CopyPosition, WalletTrade, Token, InsertCopyTradeFill } from "@shared/schema";
+import { executeChainSwap } from "./onchain-swap";
+import { fetchOnChainBalance, fetchOnChainTokenBalance, decryptKey } from "./wallet-utils";
+import { sendToUser, onPriceUpdates, setWatchedTokens, type PriceUpdate } from "./live-feed";
+import { getChainPrice } from "./crypto-prices";
+
+const POLL_INTERVAL_MS = 20 * 1000;
+const MAX_SOURCE_AGE_MS = 10 * 60 * 1000;
+const MIN_ORDER_NATIVE = 0.0001;
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let unsubscribe: (() => void) | null = null;
+let cursor: number | null = null;
+let polling = false;
+
+const configsById = new Map<number, CopyTradeConfig>();
+const openPositions = new Map<number, CopyPosition>();
+const exiting = new Set<number>();
+
+async function recordFill(config: CopyTradeConfig, fill: InsertCopyTradeFill) {
+  try {
+    const created = await storage.createCopyTradeFill(fill);
+    sendToUser(config.userId, { type: "copy_trade_fill", data: created });
+  } catch (err) {
+    console.error(`[CopyTrade] Failed to write audit entry for config ${fill.configId}:`, err);
+  }
+  if (fill.status !== "filled") {
+    console.log(`[CopyTrade] Config ${fill.configId} ${fill.side} ${fill.status}: ${fill.reason}`);
+  }
+}
+
+async function resolveWallet(config: CopyTradeConfig) {
+  if (!config.userId) return { wallet: undefined, reason: "Config has no owner, cannot resolve a wallet" };
+  const chain = config.chain || "solana";
+  const wallet = await storage.getGeneratedWallet(config.userId, chain);
+  if (!wallet) return { wallet: undefined, reason: `No wallet for ${chain}. Generate one first.` };
+  return { wallet, reason: null };
+}
+
+async function mirrorBuy(config: CopyTradeConfig, trade: WalletTrade, token: Token) {
+  const chain = config.chain || "solana";
+  const base = { configId: config.id, sourceWalletId: trade.walletId, sourceTradeId: trade.id, tokenId: token.id, side: "buy", trigger: "mirror" };
+
+  const { wallet, reason } = await resolveWallet(config);
+  if (!wallet) return recordFill(config, { ...base, status: "skipped", reason });
+
+  const nativePriceUsd = await getChainPrice(chain);
+  const desired = (trade.total / nativePriceUsd) * (config.multiplier ?? 1);
+  const existing = await storage.getOpenCopyPosition(config.id, token.id);
+  const room = (config.maxPosition ?? 10) - (existing?.costNative ?? 0);
+  const amount = Math.min(desired, room);
+  if (amount < MIN_ORDER_NATIVE) {
+    return recordFill(config, { ...base, status: "skipped", reason: `maxPosition reached (${config.maxPosition})` });
+  }
+
+  const balance = await fetchOnChainBalance(chain, wallet.address);
+  if (balance < amount) {
+    return recordFill(config, { ...base, status: "skipped", reason: `Insufficient balance: have ${balance.toFixed(6)}, need ${amount.toFixed(6)}`, amountNative: amount });
+  }
+
+  const result = await executeChainSwap(decryptKey(wallet.encryptedPrivateKey), chain, token.address, amount, "buy");
+  if (!result.success) {
+    return recordFill(config, { ...base, status: "failed", reason: result.error || "On-chain swap failed", amountNative: amount });
+  }
+
+  const price = token.price;
+  const tokensBought = price > 0 ? (amount * nativePriceUsd) / price : 0;
+  let position: CopyPosition;
+  if (existing) {
+    const tokenAmount = existing.tokenAmount + tokensBought;
+    position = await storage.updateCopyPosition(existing.id, {
+      tokenAmount,
+      costNative: existing.costNative + amount,
+      entryPrice: tokenAmount > 0 ? (existing.entryPrice * existing.tokenAmount + price * tokensBought) / tokenAmount : price,
+    });
+  } else {
+    position = await storage.createCopyPosition({
+      configId: config.id,
+      sourceWalletId: trade.walletId,
+      tokenId: token.id,
+      chain,
+      tokenAmount: tokensBought,
+      costNative: amount,
+      entryPrice: price,
+      status: "open",
+    });
+  }
+  openPositions.set(position.id, position);
+
+  await recordFill(config, { ...base, copyPositionId: position.id, status: "filled", amountNative: amount, tokenAmount: tokensBought, price, txHash: result.txHash });
+  console.log(`[CopyTrade] Config ${config.id} mirrored buy of wallet trade ${trade.id}: ${amount.toFixed(4)} native -> ${token.symbol} (${result.txHash})`);
+}
+
+async function exitPosition(config: CopyTradeConfig, position: CopyPosition, fraction: number, trigger: string, price: number, sourceTradeId: number | null) {
+  if (exiting.has(position.id)) return;
+  exiting.add(position.id);
+  const chain = position.chain || "solana";
+  const base = { configId: config.id, copyPositionId: position.id, sourceWalletId: position.sourceWalletId, sourceTradeId, tokenId: position.tokenId, side: "sell", trigger };
+
+  try {
+    const token = await storage.getToken(position.tokenId);
+    if (!token) return recordFill(config, { ...base, status: "skipped", reason: "Token no longer tracked" });
+
+    const { wallet, reason } = await resolveWallet(config);
+    if (!wallet) return recordFill(config, { ...base, status: "skipped", reason });
+
+    const onChain = await fetchOnChainTokenBalance(chain, wallet.address, token.address);
+    const amount = Math.min(position.tokenAmount * fraction, onChain);
+    if (amount <= 0) {
+      return recordFill(config, { ...base, status: "skipped", reason: "No token balance on-chain" });
+    }
+
+    const result = await executeChainSwap(decryptKey(wallet.encryptedPrivateKey), chain, token.address, amount, "sell");
+    if (!result.success) {
+      return recordFill(config, { ...base, status: "failed", reason: result.error || "On-chain swap failed", tokenAmount: amount });
+    }
+
+    const pnlPercent = position.entryPrice > 0 ? ((price - position.entryPrice) / position.entryPrice) * 100 : 0;
+    const closing = fraction >= 0.999;
+    const updated = await storage.updateCopyPosition(position.id, closing
+      ? { tokenAmount: 0, status: "closed", exitReason: trigger, realizedPnlPercent: pnlPercent, closedAt: new Date() }
+      : { tokenAmount: position.tokenAmount - amount, costNative: position.costNative * (1 - fraction) });
+    if (closing) openPositions.delete(position.id);
+    else openPositions.set(position.id, updated);
+
+    await recordFill(config, { ...base, status: "filled", tokenAmount: amount, price, txHash: result.txHash });
+    console.log(`[CopyTrade] Position ${position.id} ${trigger} exit (${(fraction * 100).toFixed(0)}%) @ ${price}, PnL ${pnlPercent.toFixed(1)}% (${result.txHash})`);
+  } catch (err: any) {
+    console.error(`[CopyTrade] Error exiting position ${position.id}:`, err);
+    await recordFill(config, { ...base, status: "failed", reason: err.message || "Exit failed" });
+  } finally {
+    exiting.delete(position.id);
+  }
+}
+
+async function mirrorSell(config: CopyTradeConfig, trade: WalletTrade, token: Token) {
+  const position = await storage.getOpenCopyPosition(config.id, token.id);
+  if (!position) {
+    return recordFill(config, { configId: config.id, sourceWalletId: trade.walletId, sourceTradeId: trade.id, tokenId: token.id, side: "sell", trigger: "mirror", status: "skipped", reason: "No open copy position for this token" });
+  }
+
+  // Sell the same share of our position that the leader sold of theirs.
+  // Holdings are post-trade, so the leader's pre-trade size is holding + sold.
+  let fraction = 1;
+  const holding = (await storage.getWalletHoldings(trade.walletId)).find(h => h.tokenId === token.id);
+  if (holding && holding.amount > 0) {
+    fraction = Math.min(1, trade.amount / (holding.amount + trade.amount));
+  }
+  if (fraction > 0.95) fraction = 1;
+
+  await exitPosition(config, position, fraction, "mirror", token.price, trade.id);
+}
+
+async function processSourceTrade(trade: WalletTrade, followers: CopyTradeConfig[]) {
+  const token = await storage.getToken(trade.tokenId);
+  for (const config of followers) {
+    if (await storage.hasCopyTradeFill(config.id, trade.id)) continue;
+
+    if (!token) {
+      await recordFill(config, { configId: config.id, sourceWalletId: trade.walletId, sourceTradeId: trade.id, tokenId: trade.tokenId, side: trade.type, trigger: "mirror", status: "skipped", reason: "Token not tracked" });
+      continue;
+    }
+    const age = trade.timestamp ? Date.now() - new Date(trade.timestamp).getTime() : 0;
+    if (age > MAX_SOURCE_AGE_MS) {
+      await recordFill(config, { configId: config.id, sourceWalletId: trade.walletId, sourceTradeId: trade.id, tokenId: token.id, side: trade.type, trigger: "mirror", status: "skipped", reason: `Source trade too old (${Math.round(age / 60000)}m)` });
+      continue;
+    }
+
+    try {
+      if (trade.type === "buy") await mirrorBuy(config, trade, token);
+      else if (trade.type === "sell") await mirrorSell(config, trade, token);
+    } catch (err: any) {
+      console.error(`[CopyTrade] Error mirroring wallet trade ${trade.id} for config ${config.id}:`, err);
+      await recordFill(config, { configId: config.id, sourceWalletId: trade.walletId, sourceTradeId: trade.id, tokenId: token.id, side: trade.type, trigger: "mirror", status: "failed", reason: err.message || "Mirror failed" });
+    }
+  }
+}
+
+async function pollWalletTrades() {
+  if (polling) return;
+  polling = true;
+  try {
+    if (cursor === null) {
+      const lastCopied = await storage.getLatestCopiedSourceTradeId();
+      cursor = lastCopied > 0 ? lastCopied : await storage.getLatestWalletTradeId();
+    }
+
+    const configs = await storage.getEnabledCopyTradeConfigs();
+    configsById.clear();
+    for (const c of configs) configsById.set(c.id, c);
+
+    const positions = await storage.getOpenCopyPositions();
+    openPositions.clear();
+    for (const p of positions) openPositions.set(p.id, p);
+    setWatchedTokens("copy-positions", Array.from(new Set(positions.map(p => p.tokenId))));
+
+    const walletIds = Array.from(new Set(configs.map(c => c.walletId)));
+    const trades = await storage.getWalletTradesAfter(cursor, walletIds);
+    for (const trade of trades) {
+      await processSourceTrade(trade, configs.filter(c => c.walletId === trade.walletId));
+      cursor = Math.max(cursor, trade.id);
+    }
+  } catch (err) {
+    console.error("[CopyTrade] Error polling wallet trades:", err);
+  } finally {
+    polling = false;
+  }
+}
+
+async function handlePriceUpdates(updates: PriceUpdate[]) {
+  for (const u of updates) {
+    for (const position of Array.from(openPositions.values())) {
+      if (position.tokenId !== u.id || position.entryPrice <= 0) continue;
+      const config = configsById.get(position.configId);
+      if (!config) continue;
+
+      const pnlPercent = ((u.price - position.entryPrice) / position.entryPrice) * 100;
+      if (config.takeProfit != null && pnlPercent >= config.takeProfit) {
+        await exitPosition(config, position, 1, "take_profit", u.price, null);
+      } else if (config.stopLoss != null && pnlPercent <= -Math.abs(config.stopLoss)) {
+        await exitPosition(config, position, 1, "stop_loss", u.price, null);
+      }
+    }
+  }
+}
+
+export function startCopyTradeEngine() {
+  console.log(`[CopyTrade] Starting copy-trade engine (polling every ${POLL_INTERVAL_MS / 1000}s)`);
+  unsubscribe = onPriceUpdates(handlePriceUpdates);
+  pollWalletTrades();
+  intervalId = setInterval(pollWalletTrades, POLL_INTERVAL_MS);
+}
+
+export function stopCopyTradeEngine() {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+  }
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+  setWatchedTokens("copy-positions", []);
+  console.log("[CopyTrade] Copy-trade engine stopped");
+}
@@ -1,3 +1,6 @@
+import { TIER_CATALOG, type TierLimits } from "@shared/tiers";
+import { marketData } from "./market-data";
+
 const COINGECKO_IDS: Record<string, string> = {
   solana: "solana",
   ethereum: "ethereum",
@@ -28,18 +31,14 @@ export async function getCryptoPrices(): Promise<Record<string, number>> {
   }
 
   try {
-    const ids = Array.from(new Set(Object.values(COINGECKO_IDS))).join(",");
-    const resp = await fetch(
-      `https://api.coingecko.com/api/v3/simple/price?ids=${ids}&vs_currencies=usd`,
-      { headers: { Accept: "application/json" } }
-    );
+    const ids = Array.from(new Set(Object.values(COINGECKO_IDS)));
+    const data = await marketData().prices.coinGeckoPrices(ids) as Record<string, { usd: number }> | null;
 
-    if (!resp.ok) {
+    if (!data) {
       console.warn("[CryptoPrices] CoinGecko API error, using fallback prices");
       return getFallbackPrices();
     }
 
-    const data = await resp.json() as Record<string, { usd: number }>;
     const prices: Record<string, number> = {};
 
     for (const [chain, geckoId] of Object.entries(COINGECKO_IDS)) {
@@ -82,57 +81,15 @@ export function usdToCrypto(usdAmount: number, cryptoPrice: number): number {
   return parseFloat((usdAmount / cryptoPrice).toFixed(8));
 }
 
-export const TIER_PRICES_USD: Record<string, number> = {
-  basic: 29,
-  pro: 79,
-  whale: 199,
-};
+export type { TierLimits } from "@shared/tiers";
 
-export interface TierLimits {
-  maxAgents: number;
-  maxDailyTrades: number;
-  maxAlerts: number;
-  maxLimitOrders: number;
-  maxDcaConfigs: number;
-  maxCopyTrades: number;
-  maxSniperRules: number;
-  smartMoneyAccess: boolean;
-  smartMoneyFollow: boolean;
-  safetyScanner: boolean;
-  csvExport: boolean;
-  advancedAnalytics: boolean;
-}
+export const TIER_PRICES_USD: Record<string, number> = Object.fromEntries(
+  TIER_CATALOG.filter(t => t.monthlyPriceUsd > 0).map(t => [t.id, t.monthlyPriceUsd]),
+);
 
-export const TIER_LIMITS: Record<string, TierLimits> = {
-  free: {
-    maxAgents: 0, maxDailyTrades: 0,
-    maxAlerts: 2, maxLimitOrders: 1, maxDcaConfigs: 0,
-    maxCopyTrades: 0, maxSniperRules: 0,
-    smartMoneyAccess: false, smartMoneyFollow: false,
-    safetyScanner: false, csvExport: false, advancedAnalytics: false,
-  },
-  basic: {
-    maxAgents: 1, maxDailyTrades: 10,
-    maxAlerts: 5, maxLimitOrders: 3, maxDcaConfigs: 1,
-    maxCopyTrades: 1, maxSniperRules: 1,
-    smartMoneyAccess: true, smartMoneyFollow: false,
-    safetyScanner: true, csvExport: false, advancedAnalytics: false,
-  },
-  pro: {
-    maxAgents: 3, maxDailyTrades: 50,
-    maxAlerts: 20, maxLimitOrders: 20, maxDcaConfigs: 5,
-    maxCopyTrades: 5, maxSniperRules: 5,
-    smartMoneyAccess: true, smartMoneyFollow: true,
-    safetyScanner: true, csvExport: true, advancedAnalytics: true,
-  },
-  whale: {
-    maxAgents: 999, maxDailyTrades: 999,
-    maxAlerts: 999, maxLimitOrders: 999, maxDcaConfigs: 999,
-    maxCopyTrades: 999, maxSniperRules: 999,
-    smartMoneyAccess: true, smartMoneyFollow: true,
-    safetyScanner: true, csvExport: true, advancedAnalytics: true,
-  },
-};
+export const TIER_LIMITS: Record<string, TierLimits> = Object.fromEntries(
+  TIER_CATALOG.map(t => [t.id, t.limits]),
+);
 
 export const PLATFORM_PAYMENT_ADDRESSES: Record<string, string> = {
   solana: "52BVTyx5FXUwWo8M57qWmjHpPUSWYbS8J7T8h1ZWo4go",
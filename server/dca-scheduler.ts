@@ -0,0 +1,168 @@
+import { storage } from "./storage";
+import type { DcaConfig } from "@shared/schema";
+import { executeChainSwap } from "./onchain-swap";
+import { fetchOnChainBalance, decryptKey } from "./wallet-utils";
+import { broadcast, sendToUser } from "./live-feed";
+import { getChainPrice } from "./crypto-prices";
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const MAX_PRICE_IMPACT_PCT = 3;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DCA_FREQUENCY_MS: Record<string, number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+  biweekly: 14 * 24 * HOUR_MS,
+  monthly: 30 * 24 * HOUR_MS,
+};
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+function isDue(config: DcaConfig, now: number): boolean {
+  const cadence = DCA_FREQUENCY_MS[config.frequency];
+  if (!cadence) return false;
+  if (!config.lastExecutedAt) return true;
+  return now - new Date(config.lastExecutedAt).getTime() >= cadence;
+}
+
+// Constant-product estimate: a buy of size X against a pool holding L/2 on
+// the quote side moves the price by roughly X / (L/2).
+function estimatePriceImpactPct(tradeUsd: number, liquidityUsd: number | null): number {
+  if (!liquidityUsd || liquidityUsd <= 0) return 100;
+  return (tradeUsd / (liquidityUsd / 2)) * 100;
+}
+
+async function recordRun(config: DcaConfig, status: "filled" | "skipped" | "failed", reason: string | null, extra: { price?: number; tokensBought?: number; txHash?: string } = {}) {
+  try {
+    const execution = await storage.createDcaExecution({
+      configId: config.id,
+      status,
+      reason,
+      amount: config.amount,
+      price: extra.price ?? null,
+      tokensBought: extra.tokensBought ?? 0,
+      txHash: extra.txHash ?? null,
+    });
+    sendToUser(config.userId, { type: "dca_execution", data: execution });
+  } catch (err) {
+    console.error(`[DCA] Failed to record run for config ${config.id}:`, err);
+  }
+  if (status !== "filled") {
+    console.log(`[DCA] Config ${config.id} run ${status}: ${reason}`);
+  }
+}
+
+async function runDcaConfig(config: DcaConfig) {
+  // Claiming advances lastExecutedAt before any swap is sent, so a restart
+  // mid-run cannot fire the same slot twice.
+  const claimed = await storage.claimDcaRun(config.id, config.lastExecutedAt ? new Date(config.lastExecutedAt) : null);
+  if (!claimed) return;
+
+  const chain = config.chain || "solana";
+
+  if (!config.userId) {
+    return recordRun(config, "skipped", "Config has no owner, cannot resolve a wallet");
+  }
+
+  const token = await storage.getToken(config.tokenId);
+  if (!token) {
+    return recordRun(config, "skipped", "Token no longer tracked");
+  }
+
+  const wallet = await storage.getGeneratedWallet(config.userId, chain);
+  if (!wallet) {
+    return recordRun(config, "skipped", `No wallet for ${chain}. Generate one first.`);
+  }
+
+  const balance = await fetchOnChainBalance(chain, wallet.address);
+  if (balance < config.amount) {
+    return recordRun(config, "skipped", `Insufficient balance: have ${balance.toFixed(6)}, need ${config.amount.toFixed(6)}`);
+  }
+
+  const nativePriceUsd = await getChainPrice(chain);
+  const tradeUsd = config.amount * nativePriceUsd;
+  const impact = estimatePriceImpactPct(tradeUsd, token.liquidity);
+  if (impact > MAX_PRICE_IMPACT_PCT) {
+    return recordRun(config, "skipped", `Price impact too high: ~${impact.toFixed(2)}% (max ${MAX_PRICE_IMPACT_PCT}%)`);
+  }
+
+  const privateKey = decryptKey(wallet.encryptedPrivateKey);
+  const result = await executeChainSwap(privateKey, chain, token.address, config.amount, "buy");
+  if (!result.success) {
+    return recordRun(config, "failed", result.error || "On-chain swap failed");
+  }
+
+  const price = token.price;
+  const tokensBought = price > 0 ? tradeUsd / price : 0;
+  const executionCount = (config.executionCount ?? 0) + 1;
+  const reachedMax = (config.maxExecutions ?? 0) > 0 && executionCount >= (config.maxExecutions ?? 0);
+
+  const updated = await storage.updateDcaConfig(config.id, {
+    totalInvested: (config.totalInvested ?? 0) + config.amount,
+    totalBought: (config.totalBought ?? 0) + tokensBought,
+    executionCount,
+    ...(reachedMax ? { enabled: false } : {}),
+  });
+  await recordRun(config, "filled", null, { price, tokensBought, txHash: result.txHash });
+
+  try {
+    const trade = await storage.createTrade({
+      tokenId: token.id,
+      type: "buy",
+      amount: tokensBought,
+      price,
+      total: tradeUsd,
+      wallet: `${wallet.address.slice(0, 4)}...${wallet.address.slice(-4)}`,
+    });
+    broadcast({ type: "new_trade", data: trade });
+    await storage.upsertPositionFromTrade(config.userId, token.id, "buy", tokensBought, price, chain);
+    await storage.updateGeneratedWalletBalance(wallet.id, await fetchOnChainBalance(chain, wallet.address));
+  } catch (err) {
+    console.error(`[DCA] Post-fill bookkeeping error for config ${config.id} (non-fatal):`, err);
+  }
+
+  sendToUser(config.userId, { type: "dca_update", data: updated });
+  console.log(`[DCA] Config ${config.id} bought ${tokensBought.toFixed(4)} ${token.symbol} (${executionCount}${reachedMax ? ", max reached - disabled" : ""}): ${result.txHash}`);
+}
+
+async function runDcaCheck() {
+  if (running) return;
+  running = true;
+  try {
+    const now = Date.now();
+    const configs = await storage.getEnabledDcaConfigs();
+    for (const config of configs) {
+      if ((config.maxExecutions ?? 0) > 0 && (config.executionCount ?? 0) >= (config.maxExecutions ?? 0)) {
+        await storage.updateDcaConfig(config.id, { enabled: false });
+        continue;
+      }
+      if (!isDue(config, now)) continue;
+      try {
+        await runDcaConfig(config);
+      } catch (err: any) {
+        console.error(`[DCA] Error running config ${config.id}:`, err);
+        await recordRun(config, "failed", err.message || "DCA execution failed");
+      }
+    }
+  } catch (err) {
+    console.error("[DCA] Error checking DCA configs:", err);
+  } finally {
+    running = false;
+  }
+}
+
+export function startDcaScheduler() {
+  console.log(`[DCA] Starting DCA scheduler (every ${CHECK_INTERVAL_MS / 1000}s)`);
+  runDcaCheck();
+  intervalId = setInterval(runDcaCheck, CHECK_INTERVAL_MS);
+}
+
+export function stopDcaScheduler() {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("[DCA] DCA scheduler stopped");
+  }
+}
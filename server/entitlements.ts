@@ -0,0 +1,184 @@
+import { storage } from "./storage";
+import { TIER_LIMITS, type TierLimits } from "./crypto-prices";
+import type { CopyTradeConfig, DcaConfig, LimitOrder, PriceAlert, SniperRule } from "@shared/schema";
+
+export type QuotaKey =
+  | "maxAgents"
+  | "maxDailyTrades"
+  | "maxAlerts"
+  | "maxLimitOrders"
+  | "maxDcaConfigs"
+  | "maxCopyTrades"
+  | "maxSniperRules";
+
+export const QUOTA_KEYS: QuotaKey[] = [
+  "maxAgents", "maxDailyTrades", "maxAlerts", "maxLimitOrders",
+  "maxDcaConfigs", "maxCopyTrades", "maxSniperRules",
+];
+
+export interface UserTier {
+  tier: string;
+  limits: TierLimits;
+}
+
+export interface QuotaUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+export interface Entitlements extends UserTier {
+  usage: Record<QuotaKey, QuotaUsage>;
+}
+
+export interface QuotaCheck extends UserTier {
+  allowed: boolean;
+  used: number;
+  limit: number;
+}
+
+export interface ReconcileResult {
+  userId: string;
+  tier: string;
+  disabled: Partial<Record<QuotaKey, number>>;
+}
+
+export async function resolveUserTier(userId: string | undefined | null): Promise<UserTier> {
+  if (!userId) return { tier: "free", limits: TIER_LIMITS["free"] };
+
+  const promoAccess = await storage.hasActivePromoAccess(userId);
+  if (promoAccess.hasAccess) {
+    const tier = promoAccess.tier || "whale";
+    return { tier, limits: TIER_LIMITS[tier] || TIER_LIMITS["whale"] };
+  }
+
+  const activeSub = await storage.getUserActiveSubscription(userId);
+  const sub = activeSub || await storage.getUserSubscriptionIncludingGrace(userId);
+  if (!sub) return { tier: "free", limits: TIER_LIMITS["free"] };
+  return { tier: sub.tier, limits: TIER_LIMITS[sub.tier] || TIER_LIMITS["free"] };
+}
+
+// Whether a row takes a quota slot. The PATCH routes check these against the
+// row before and after an edit, so any change that makes a row count again
+// needs a free slot, not just flipping `enabled`.
+export const countsTowardQuota = {
+  maxAlerts: (a: Pick<PriceAlert, "enabled" | "triggered">) => !!a.enabled && !a.triggered,
+  maxLimitOrders: (o: Pick<LimitOrder, "status">) => o.status === "pending",
+  maxDcaConfigs: (c: Pick<DcaConfig, "enabled">) => !!c.enabled,
+  maxCopyTrades: (c: Pick<CopyTradeConfig, "enabled">) => !!c.enabled,
+  maxSniperRules: (r: Pick<SniperRule, "enabled">) => !!r.enabled,
+};
+export type CountedQuotaKey = keyof typeof countsTowardQuota;
+
+// What counts against each quota: resources that are live, so anything the
+// downgrade policy disabled or cancelled frees up its slot again.
+export async function countUsage(userId: string): Promise<Record<QuotaKey, number>> {
+  const [agents, alerts, orders, dcaConfigs, copyConfigs, sniperRules] = await Promise.all([
+    storage.getAiAgents(userId),
+    storage.getPriceAlerts(userId),
+    storage.getLimitOrders(userId),
+    storage.getDcaConfigs(userId),
+    storage.getCopyTradeConfigs(userId),
+    storage.getSniperRules(userId),
+  ]);
+
+  return {
+    maxAgents: agents.length,
+    maxDailyTrades: agents.reduce((sum, a) => sum + (a.dailyTradesUsed ?? 0), 0),
+    maxAlerts: alerts.filter(countsTowardQuota.maxAlerts).length,
+    maxLimitOrders: orders.filter(countsTowardQuota.maxLimitOrders).length,
+    maxDcaConfigs: dcaConfigs.filter(countsTowardQuota.maxDcaConfigs).length,
+    maxCopyTrades: copyConfigs.filter(countsTowardQuota.maxCopyTrades).length,
+    maxSniperRules: sniperRules.filter(countsTowardQuota.maxSniperRules).length,
+  };
+}
+
+export async function getEntitlements(userId: string): Promise<Entitlements> {
+  const [{ tier, limits }, counts] = await Promise.all([resolveUserTier(userId), countUsage(userId)]);
+  const usage = {} as Record<QuotaKey, QuotaUsage>;
+  for (const key of QUOTA_KEYS) {
+    usage[key] = { limit: limits[key], used: counts[key], remaining: Math.max(0, limits[key] - counts[key]) };
+  }
+  return { tier, limits, usage };
+}
+
+export async function checkQuota(userId: string, key: QuotaKey): Promise<QuotaCheck> {
+  const [{ tier, limits }, counts] = await Promise.all([resolveUserTier(userId), countUsage(userId)]);
+  return { tier, limits, allowed: counts[key] < limits[key], used: counts[key], limit: limits[key] };
+}
+
+// Agents can exist beyond the plan after a downgrade, so starting one checks
+// how many are already running rather than how many exist.
+export async function checkAgentStart(userId: string, agentId: number): Promise<QuotaCheck> {
+  const [{ tier, limits }, agents] = await Promise.all([resolveUserTier(userId), storage.getAiAgents(userId)]);
+  const running = agents.filter(a => a.status === "running" && a.id !== agentId).length;
+  return { tier, limits, allowed: running < limits.maxAgents, used: running, limit: limits.maxAgents };
+}
+
+// Keeps the oldest `limit` items and returns the rest, newest first.
+function excess<T extends { id: number }>(items: T[], limit: number): T[] {
+  const sorted = [...items].sort((a, b) => a.id - b.id);
+  return sorted.slice(Math.max(0, limit)).reverse();
+}
+
+// Downgrade policy: when a user holds more live resources than their tier
+// allows, the oldest ones within the quota stay active and the rest are
+// paused (agents stopped, rules and configs disabled, pending orders
+// cancelled). Nothing is deleted, so upgrading again lets the user re-enable.
+export async function reconcileEntitlements(userId: string): Promise<ReconcileResult> {
+  const { tier, limits } = await resolveUserTier(userId);
+  const disabled: Partial<Record<QuotaKey, number>> = {};
+
+  const agents = await storage.getAiAgents(userId);
+  const running = agents.filter(a => a.status === "running");
+  for (const agent of excess(running, limits.maxAgents)) {
+    await storage.updateAiAgent(agent.id, { status: "stopped" });
+    await storage.createAgentLog({
+      agentId: agent.id, action: "stopped",
+      reasoning: `Paused: ${tier} plan allows ${limits.maxAgents} running agent(s)`,
+      tokensAnalyzed: 0, decision: "plan_limit", confidence: 0,
+    });
+    disabled.maxAgents = (disabled.maxAgents ?? 0) + 1;
+  }
+  for (const agent of agents) {
+    if ((agent.maxDailyTrades ?? 0) > limits.maxDailyTrades) {
+      await storage.updateAiAgent(agent.id, { maxDailyTrades: limits.maxDailyTrades });
+    }
+  }
+
+  const alerts = (await storage.getPriceAlerts(userId)).filter(a => a.enabled && !a.triggered);
+  for (const alert of excess(alerts, limits.maxAlerts)) {
+    await storage.updatePriceAlert(alert.id, { enabled: false });
+    disabled.maxAlerts = (disabled.maxAlerts ?? 0) + 1;
+  }
+
+  const orders = (await storage.getLimitOrders(userId)).filter(o => o.status === "pending");
+  for (const order of excess(orders, limits.maxLimitOrders)) {
+    await storage.updateLimitOrder(order.id, { status: "cancelled", failureReason: `Cancelled: ${tier} plan allows ${limits.maxLimitOrders} open order(s)` });
+    disabled.maxLimitOrders = (disabled.maxLimitOrders ?? 0) + 1;
+  }
+
+  const dcaConfigs = (await storage.getDcaConfigs(userId)).filter(c => c.enabled);
+  for (const config of excess(dcaConfigs, limits.maxDcaConfigs)) {
+    await storage.updateDcaConfig(config.id, { enabled: false });
+    disabled.maxDcaConfigs = (disabled.maxDcaConfigs ?? 0) + 1;
+  }
+
+  const copyConfigs = (await storage.getCopyTradeConfigs(userId)).filter(c => c.enabled);
+  for (const config of excess(copyConfigs, limits.maxCopyTrades)) {
+    await storage.updateCopyTradeConfig(config.id, { enabled: false });
+    disabled.maxCopyTrades = (disabled.maxCopyTrades ?? 0) + 1;
+  }
+
+  const sniperRules = (await storage.getSniperRules(userId)).filter(r => r.enabled);
+  for (const rule of excess(sniperRules, limits.maxSniperRules)) {
+    await storage.updateSniperRule(rule.id, { enabled: false });
+    disabled.maxSniperRules = (disabled.maxSniperRules ?? 0) + 1;
+  }
+
+  const total = Object.values(disabled).reduce((sum, n) => sum + (n ?? 0), 0);
+  if (total > 0) {
+    console.log(`[Entitlements] User ${userId} on ${tier}: paused ${total} resource(s) over quota`, disabled);
+  }
+  return { userId, tier, disabled };
+}
@@ -1,7 +1,7 @@
 import { storage } from "./storage";
+import { marketData } from "./market-data";
 
-const ALTERNATIVE_ME_API = "https://api.alternative.me/fng/?limit=7&format=json";
-const COINGLASS_FNG = "https://api.coinglass.com/api/index/fear-greed-history?limit=7";
+const FGI_HISTORY_DAYS = 7;
 const INGEST_INTERVAL = 10 * 60 * 1000;
 let lastIngestTime = 0;
 
@@ -47,17 +47,12 @@ function determineTrend(values: number[]): "improving" | "worsening" | "stable"
 
 async function fetchAlternativeMeFGI(): Promise<FearGreedData | null> {
   try {
-    const resp = await fetch(ALTERNATIVE_ME_API, {
-      signal: AbortSignal.timeout(10_000),
-      headers: { Accept: "application/json" },
-    });
-
-    if (!resp.ok) {
-      console.log(`[FearGreed] Alternative.me returned ${resp.status}`);
+    const json = await marketData().sentiment.fearGreedHistory(FGI_HISTORY_DAYS);
+    if (!json) {
+      console.log("[FearGreed] Alternative.me request failed");
       return null;
     }
 
-    const json = await resp.json() as any;
     const data = json?.data;
     if (!Array.isArray(data) || data.length === 0) return null;
 
@@ -91,11 +86,8 @@ async function fetchAlternativeMeFGI(): Promise<FearGreedData | null> {
 
 async function computeFallbackFGI(): Promise<FearGreedData> {
   try {
-    const resp = await fetch("https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd&include_24hr_change=true", {
-      signal: AbortSignal.timeout(8_000),
-    });
-    if (resp.ok) {
-      const data = await resp.json() as any;
+    const data = await marketData().sentiment.bitcoinPrice();
+    if (data) {
       const btcChange = data?.bitcoin?.usd_24h_change || 0;
 
       let fgiValue = 50;
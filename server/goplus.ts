@@ -1,4 +1,4 @@
-const GOPLUS_API = "https://api.gopluslabs.io/api/v1";
+import { marketData } from "./market-data";
 
 const CHAIN_ID_MAP: Record<string, string> = {
   ethereum: "1",
@@ -117,20 +117,6 @@ export interface TokenSecurityResult {
 const securityCache = new Map<string, { data: TokenSecurityResult; fetchedAt: number }>();
 const SECURITY_CACHE_TTL = 120_000;
 
-async function fetchWithTimeout(url: string, timeoutMs = 10000): Promise<any> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    const res = await fetch(url, { signal: controller.signal });
-    if (!res.ok) return null;
-    return await res.json();
-  } catch {
-    return null;
-  } finally {
-    clearTimeout(timer);
-  }
-}
-
 function computeSecurityScore(data: GoPlusTokenSecurity): number {
   let score = 100;
 
@@ -256,8 +242,7 @@ export async function getTokenSecurity(chain: string, contractAddress: string):
     return cached.data;
   }
 
-  const url = `${GOPLUS_API}/token_security/${chainId}?contract_addresses=${contractAddress.toLowerCase()}`;
-  const resp = await fetchWithTimeout(url);
+  const resp = await marketData().security.goPlusTokenSecurity(chainId, contractAddress);
 
   if (!resp || resp.code !== 1 || !resp.result) return null;
 
@@ -107,6 +107,44 @@ app.use((req, res, next) => {
   const { startLiquidityTracking } = await import("./liquidity-tracker");
   startLiquidityTracking();
 
+  const { startOrderEngine } = await import("./order-engine");
+  startOrderEngine();
+
+  const { startDcaScheduler } = await import("./dca-scheduler");
+  startDcaScheduler();
+
+  const { startPriceAlertEvaluator } = await import("./price-alerts");
+  startPriceAlertEvaluator();
+
+  const { startCopyTradeEngine } = await import("./copy-trade-engine");
+  startCopyTradeEngine();
+
+  const { startSniperEngine } = await import("./sniper-engine");
+  startSniperEngine();
+
+  const { startFeeSettlement } = await import("./swap-fees");
+  startFeeSettlement();
+
+  const { recoverBacktests } = await import("./ai/backtest-jobs");
+  recoverBacktests();
+
+  const { startSnapshotRetention } = await import("./ai/snapshot-recorder");
+  startSnapshotRetention();
+
+  const { startCandleStore } = await import("./candle-store");
+  startCandleStore();
+
+  const { startRugWatchdog } = await import("./rug-watchdog");
+  startRugWatchdog();
+
+  const { AGENT_RUNNER_ENABLED } = await import("./ai/agent-scheduler");
+  if (AGENT_RUNNER_ENABLED) {
+    const { startAgentRunner } = await import("./ai/agent-runner");
+    startAgentRunner();
+  } else {
+    console.log("[AgentRunner] Disabled; set AGENT_RUNNER=on to run agent cycles on this instance");
+  }
+
   const port = parseInt(process.env.PORT || "5000", 10);
   httpServer.listen(
     {
@@ -28,9 +28,12 @@ export function getSession() {
   });
 }
 
-export async function setupAuth(app: Express) {
+// Returns the session middleware so the WebSocket server can read the same
+// sessions on upgrade.
+export async function setupAuth(app: Express): Promise<RequestHandler> {
   app.set("trust proxy", 1);
-  app.use(getSession());
+  const sessionParser = getSession();
+  app.use(sessionParser);
 
   app.get("/api/config/walletconnect", (_req, res) => {
     res.json({ projectId: process.env.WALLETCONNECT_PROJECT_ID || "" });
@@ -119,6 +122,8 @@ export async function setupAuth(app: Express) {
       res.json({ message: "Logged out" });
     });
   });
+
+  return sessionParser;
 }
 
 export const isAuthenticated: RequestHandler = async (req, res, next) => {
@@ -1,6 +1,6 @@
 import { storage } from "./storage";
+import { marketData } from "./market-data";
 
-const DEXSCREENER_API = "https://api.dexscreener.com";
 const INGEST_INTERVAL = 3 * 60 * 1000;
 let lastIngestTime = 0;
 
@@ -55,11 +55,7 @@ const previousLiquidityMap = new Map<string, { liquidity: number; volume: number
 
 async function fetchTopPairsByChain(chain: string): Promise<any[]> {
   try {
-    const resp = await fetch(`${DEXSCREENER_API}/token-boosts/top/v1`, {
-      signal: AbortSignal.timeout(10_000),
-    });
-    if (!resp.ok) return [];
-    const data = await resp.json() as any[];
+    const data = await marketData().pairs.topBoosts();
     if (!Array.isArray(data)) return [];
 
     const chainTokens = data
@@ -69,13 +65,17 @@ async function fetchTopPairsByChain(chain: string): Promise<any[]> {
 
     if (chainTokens.length === 0) return [];
 
-    const addresses = chainTokens.map((t: any) => `${t.chainId}/${t.tokenAddress}`);
-    const pairResp = await fetch(`${DEXSCREENER_API}/tokens/v1/${addresses.join(",")}`, {
-      signal: AbortSignal.timeout(10_000),
-    });
-    if (!pairResp.ok) return [];
-    const pairs = await pairResp.json() as any[];
-    return Array.isArray(pairs) ? pairs : [];
+    const byChain = new Map<string, string[]>();
+    for (const t of chainTokens) {
+      byChain.set(t.chainId, [...(byChain.get(t.chainId) || []), t.tokenAddress]);
+    }
+
+    const pairs: any[] = [];
+    for (const [chainId, addresses] of Array.from(byChain.entries())) {
+      const chainPairs = await marketData().pairs.tokenPairs(chainId, addresses);
+      if (Array.isArray(chainPairs)) pairs.push(...chainPairs);
+    }
+    return pairs;
   } catch {
     return [];
   }
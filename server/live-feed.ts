@@ -0,0 +1,80 @@
+export interface PriceUpdate {
+  id: number;
+  symbol: string;
+  address: string;
+  price: number;
+  priceChange24h: number | null;
+  volume24h: number | null;
+  liquidity: number | null;
+  marketCap: number | null;
+  image?: string | null;
+}
+
+type Broadcaster = (data: any) => void;
+type UserSender = (userId: string, data: any) => void;
+type PriceListener = (updates: PriceUpdate[]) => void | Promise<void>;
+
+let broadcaster: Broadcaster | null = null;
+let userSender: UserSender | null = null;
+const priceListeners = new Set<PriceListener>();
+const watchedTokens = new Map<string, Set<number>>();
+
+export function setBroadcaster(fn: Broadcaster): void {
+  broadcaster = fn;
+}
+
+export function setUserSender(fn: UserSender): void {
+  userSender = fn;
+}
+
+// Market data for every connected client. Anything about a user's orders,
+// alerts, positions or agents goes through sendToUser instead.
+export function broadcast(data: any): void {
+  if (broadcaster) broadcaster(data);
+}
+
+// Delivers only to the sockets signed in as `userId`. Events with no owner
+// are dropped rather than broadcast.
+export function sendToUser(userId: string | null | undefined, data: any): void {
+  if (userId && userSender) userSender(userId, data);
+}
+
+export function onPriceUpdates(listener: PriceListener): () => void {
+  priceListeners.add(listener);
+  return () => {
+    priceListeners.delete(listener);
+  };
+}
+
+export function hasPriceListeners(): boolean {
+  return priceListeners.size > 0;
+}
+
+export async function publishPriceUpdates(updates: PriceUpdate[]): Promise<void> {
+  if (updates.length === 0) return;
+  for (const listener of Array.from(priceListeners)) {
+    try {
+      await listener(updates);
+    } catch (err) {
+      console.error("[LiveFeed] Price listener error:", err);
+    }
+  }
+}
+
+// Workers register the token ids they need priced so the live poller covers
+// them even when they fall outside the default top-token window.
+export function setWatchedTokens(source: string, tokenIds: number[]): void {
+  if (tokenIds.length === 0) {
+    watchedTokens.delete(source);
+    return;
+  }
+  watchedTokens.set(source, new Set(tokenIds));
+}
+
+export function getWatchedTokenIds(): Set<number> {
+  const all = new Set<number>();
+  for (const ids of Array.from(watchedTokens.values())) {
+    for (const id of Array.from(ids)) all.add(id);
+  }
+  return all;
+}
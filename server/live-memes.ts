@@ -1,4 +1,4 @@
-const DEXSCREENER_API = "https://api.dexscreener.com";
+import { marketData } from "./market-data";
 
 const CHAIN_MAP: Record<string, string> = {
   solana: "solana",
@@ -132,27 +132,13 @@ function mapPairToToken(pair: DexPair, imageUrl?: string | null): LiveMemeToken
   };
 }
 
-async function fetchWithTimeout(url: string, timeoutMs = 8000): Promise<any> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    const res = await fetch(url, { signal: controller.signal });
-    if (!res.ok) return null;
-    return await res.json();
-  } catch {
-    return null;
-  } finally {
-    clearTimeout(timer);
-  }
-}
-
 async function fetchTokenProfiles(): Promise<TokenProfile[]> {
-  const data = await fetchWithTimeout(`${DEXSCREENER_API}/token-profiles/latest/v1`);
+  const data = await marketData().pairs.tokenProfiles();
   return Array.isArray(data) ? data : [];
 }
 
 async function fetchBoostedTokens(): Promise<TokenProfile[]> {
-  const data = await fetchWithTimeout(`${DEXSCREENER_API}/token-boosts/latest/v1`);
+  const data = await marketData().pairs.latestBoosts();
   return Array.isArray(data) ? data : [];
 }
 
@@ -165,7 +151,7 @@ async function fetchPairsForTokens(addresses: string[]): Promise<DexPair[]> {
 
   const results: DexPair[] = [];
   for (const batch of batches) {
-    const data = await fetchWithTimeout(`${DEXSCREENER_API}/latest/dex/tokens/${batch.join(",")}`);
+    const data = await marketData().pairs.pairsForTokens(batch);
     if (data?.pairs && Array.isArray(data.pairs)) {
       results.push(...data.pairs);
     }
@@ -182,7 +168,7 @@ async function fetchLatestPairsBySearch(): Promise<DexPair[]> {
   const seen = new Set<string>();
 
   for (const q of queries) {
-    const data = await fetchWithTimeout(`${DEXSCREENER_API}/latest/dex/search?q=${q}`);
+    const data = await marketData().pairs.searchPairs(q);
     if (data?.pairs && Array.isArray(data.pairs)) {
       for (const pair of data.pairs) {
         const key = pair.pairAddress;
@@ -289,13 +275,6 @@ const GECKO_CHAIN_MAP: Record<string, string> = {
   tron: "tron",
 };
 
-const GECKO_TIMEFRAME_MAP: Record<string, { timeframe: string; aggregate: number; limit: number }> = {
-  "1H": { timeframe: "minute", aggregate: 1, limit: 60 },
-  "4H": { timeframe: "minute", aggregate: 5, limit: 48 },
-  "1D": { timeframe: "hour", aggregate: 1, limit: 24 },
-  "1W": { timeframe: "hour", aggregate: 4, limit: 42 },
-};
-
 export function getLiveTokenById(id: string): LiveMemeToken | null {
   return cachedTokens.find(t => t.id === id) || null;
 }
@@ -309,41 +288,34 @@ export interface OHLCVCandle {
   t: number;
 }
 
-const ohlcvCache = new Map<string, { data: OHLCVCandle[]; fetchedAt: number }>();
-const OHLCV_CACHE_TTL = 60_000;
+// Candle buckets available for history requests, e.g. backtests.
+export const GECKO_HISTORY_TIMEFRAMES: Record<string, { timeframe: string; aggregate: number }> = {
+  "1m": { timeframe: "minute", aggregate: 1 },
+  "5m": { timeframe: "minute", aggregate: 5 },
+  "15m": { timeframe: "minute", aggregate: 15 },
+  "1h": { timeframe: "hour", aggregate: 1 },
+  "4h": { timeframe: "hour", aggregate: 4 },
+  "1d": { timeframe: "day", aggregate: 1 },
+};
+const GECKO_MAX_CANDLES = 1000;
 
-export async function fetchLiveOHLCV(
+// Uncached: returns up to `limit` candles ending now, oldest first.
+export async function fetchHistoricalOHLCV(
   chain: string,
   pairAddress: string,
-  timeframe: string
+  timeframe: string,
+  limit: number
 ): Promise<OHLCVCandle[]> {
   const network = GECKO_CHAIN_MAP[chain];
-  if (!network) return [];
-
-  const config = GECKO_TIMEFRAME_MAP[timeframe] || GECKO_TIMEFRAME_MAP["1D"];
-  const cacheKey = `${chain}:${pairAddress}:${timeframe}`;
-  const cached = ohlcvCache.get(cacheKey);
-  if (cached && Date.now() - cached.fetchedAt < OHLCV_CACHE_TTL && cached.data.length > 0) {
-    return cached.data;
-  }
+  const config = GECKO_HISTORY_TIMEFRAMES[timeframe];
+  if (!network || !config) return [];
 
   try {
-    const url = `https://api.geckoterminal.com/api/v2/networks/${network}/pools/${pairAddress}/ohlcv/${config.timeframe}?aggregate=${config.aggregate}&limit=${config.limit}&currency=usd`;
-    const resp = await fetch(url, {
-      headers: { Accept: "application/json" },
-    });
-
-    if (!resp.ok) {
-      return cached?.data || [];
-    }
-
-    const data = await resp.json();
+    const data = await marketData().ohlcv.geckoPoolOhlcv(network, pairAddress, config.timeframe, config.aggregate, Math.min(limit, GECKO_MAX_CANDLES));
     const ohlcvList = data?.data?.attributes?.ohlcv_list;
-    if (!Array.isArray(ohlcvList) || ohlcvList.length === 0) {
-      return cached?.data || [];
-    }
+    if (!Array.isArray(ohlcvList)) return [];
 
-    const result: OHLCVCandle[] = ohlcvList.map((candle: number[]) => ({
+    return ohlcvList.map((candle: number[]) => ({
       t: candle[0],
       o: candle[1],
       h: candle[2],
@@ -351,22 +323,9 @@ export async function fetchLiveOHLCV(
       c: candle[4],
       v: candle[5] || 0,
     })).sort((a: OHLCVCandle, b: OHLCVCandle) => a.t - b.t);
-
-    ohlcvCache.set(cacheKey, { data: result, fetchedAt: Date.now() });
-    return result;
   } catch (err) {
-    console.error(`[LiveMemes] GeckoTerminal OHLCV fetch failed for ${chain}/${pairAddress}:`, err);
-    return cached?.data || [];
-  }
-}
-
-export async function preWarmOHLCV(): Promise<void> {
-  const tokens = cachedTokens.slice(0, 5);
-  for (const token of tokens) {
-    if (token.pairAddress && token.chain) {
-      fetchLiveOHLCV(token.chain, token.pairAddress, "1D").catch(() => {});
-      await new Promise(r => setTimeout(r, 300));
-    }
+    console.error(`[LiveMemes] GeckoTerminal history fetch failed for ${chain}/${pairAddress}:`, err);
+    return [];
   }
 }
 
@@ -0,0 +1,95 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { MarketDataDomain, MarketDataProviders } from "./providers";
+
+// Fixtures live at <dir>/<domain>/<method>.json for calls without arguments
+// and <dir>/<domain>/<method>/<key>.json otherwise, where the key is the
+// arguments in readable form, or their hash when that would be too long. A
+// replayed call with no fixture for its arguments falls back to
+// <domain>/<method>/_default.json, so a test can answer every call the same.
+const MAX_READABLE_KEY = 100;
+const DEFAULT_FIXTURE = "_default";
+
+function argsKey(args: unknown[]): string {
+  const readable = args
+    .map(a => Array.isArray(a) ? a.join(",")
+      : a && typeof a === "object" ? Object.entries(a).map(([k, v]) => `${k}=${v}`).join(",")
+      : String(a))
+    .join("_")
+    .replace(/[^a-zA-Z0-9.,=_-]+/g, "-");
+  if (readable.length <= MAX_READABLE_KEY) return readable;
+  return createHash("sha256").update(JSON.stringify(args)).digest("hex").slice(0, 24);
+}
+
+function fixturePath(dir: string, domain: MarketDataDomain, method: string, args: unknown[]): string {
+  return args.length === 0
+    ? path.join(dir, domain, `${method}.json`)
+    : path.join(dir, domain, method, `${argsKey(args)}.json`);
+}
+
+async function readFixture(file: string): Promise<{ found: boolean; body: any }> {
+  try {
+    return { found: true, body: JSON.parse(await readFile(file, "utf8")) };
+  } catch (err: any) {
+    if (err.code !== "ENOENT") console.error(`[MarketData] Unreadable fixture ${file}:`, err.message);
+    return { found: false, body: null };
+  }
+}
+
+type AnyMethod = (...args: any[]) => Promise<any>;
+
+function mapMethods<T extends object>(provider: T, wrap: (method: string, call: AnyMethod) => AnyMethod): T {
+  const wrapped: Record<string, AnyMethod> = {};
+  for (const [method, call] of Object.entries(provider)) {
+    wrapped[method] = wrap(method, call as AnyMethod);
+  }
+  return wrapped as T;
+}
+
+function mapProviders(
+  providers: MarketDataProviders,
+  wrap: (domain: MarketDataDomain, method: string, call: AnyMethod) => AnyMethod,
+): MarketDataProviders {
+  const mapped: Partial<MarketDataProviders> = {};
+  for (const domain of Object.keys(providers) as MarketDataDomain[]) {
+    (mapped as any)[domain] = mapMethods(providers[domain], (method, call) => wrap(domain, method, call));
+  }
+  return mapped as MarketDataProviders;
+}
+
+// Serves recorded responses from `dir` and never touches the network. The
+// live providers only lend their method names. A call without a fixture
+// answers null, the same as a failed request, and is logged once.
+export function createReplayProviders(live: MarketDataProviders, dir: string): MarketDataProviders {
+  const missing = new Set<string>();
+  return mapProviders(live, (domain, method) => async (...args) => {
+    const file = fixturePath(dir, domain, method, args);
+    const exact = await readFixture(file);
+    if (exact.found) return exact.body;
+    if (args.length > 0) {
+      const fallback = await readFixture(path.join(dir, domain, method, `${DEFAULT_FIXTURE}.json`));
+      if (fallback.found) return fallback.body;
+    }
+    if (!missing.has(file)) {
+      missing.add(file);
+      console.log(`[MarketData] No fixture for ${domain}.${method} at ${file}`);
+    }
+    return null;
+  });
+}
+
+// Calls the live providers and writes every successful response to `dir`,
+// overwriting an earlier recording of the same call.
+export function createRecordingProviders(live: MarketDataProviders, dir: string): MarketDataProviders {
+  return mapProviders(live, (domain, method, call) => async (...args) => {
+    const body = await call(...args);
+    if (body != null) {
+      const file = fixturePath(dir, domain, method, args);
+      mkdir(path.dirname(file), { recursive: true })
+        .then(() => writeFile(file, JSON.stringify(body, null, 2)))
+        .catch(err => console.error(`[MarketData] Failed to record ${file}:`, err.message));
+    }
+    return body;
+  });
+}
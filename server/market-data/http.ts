@@ -0,0 +1,134 @@
+import type {
+  MarketDataProviders, NewsProvider, OhlcvProvider, PairsProvider, PriceProvider, SecurityProvider, SentimentIndexProvider,
+  SocialProvider,
+} from "./providers";
+
+const DEXSCREENER_API = "https://api.dexscreener.com";
+const GECKOTERMINAL_API = "https://api.geckoterminal.com/api/v2";
+const AVEAI_API = "https://prod.ave-api.com/v2";
+const GOPLUS_API = "https://api.gopluslabs.io/api/v1";
+const CRYPTOPANIC_API = "https://cryptopanic.com/api/free/v1/posts";
+const COINGECKO_API = "https://api.coingecko.com/api/v3";
+const LUNARCRUSH_PUBLIC_API = "https://lunarcrush.com/api4/public";
+const ALTERNATIVE_ME_API = "https://api.alternative.me/fng/";
+
+interface FetchOptions {
+  timeoutMs?: number;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+async function fetchJson(url: string, { timeoutMs = 10_000, headers, ...init }: FetchOptions = {}): Promise<any> {
+  try {
+    const resp = await fetch(url, {
+      ...init,
+      headers: { Accept: "application/json", ...headers },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!resp.ok) return null;
+    return await resp.json();
+  } catch {
+    return null;
+  }
+}
+
+async function fetchAve(path: string, init: FetchOptions = {}): Promise<any> {
+  const url = `${AVEAI_API}${path}`;
+  const apiKey = process.env.AVEAI_API_KEY;
+  try {
+    const resp = await fetch(url, {
+      method: init.method,
+      body: init.body,
+      headers: { Accept: "application/json", ...(apiKey ? { "X-API-KEY": apiKey } : {}), ...init.headers },
+      signal: AbortSignal.timeout(init.timeoutMs ?? 10_000),
+    });
+    if (!resp.ok) {
+      console.warn(`[AveAI] HTTP ${resp.status} for ${url}`);
+      if (resp.status === 403) return { _error: "AVEAI_KEY_MISSING" };
+      return null;
+    }
+    return await resp.json();
+  } catch (err: any) {
+    if (err.name === "TimeoutError") console.warn(`[AveAI] Timeout for ${url}`);
+    else console.warn(`[AveAI] Fetch error for ${url}:`, err.message);
+    return null;
+  }
+}
+
+export function createHttpPairsProvider(): PairsProvider {
+  return {
+    tokenProfiles: () => fetchJson(`${DEXSCREENER_API}/token-profiles/latest/v1`, { timeoutMs: 8000 }),
+    latestBoosts: () => fetchJson(`${DEXSCREENER_API}/token-boosts/latest/v1`, { timeoutMs: 8000 }),
+    topBoosts: () => fetchJson(`${DEXSCREENER_API}/token-boosts/top/v1`),
+    searchPairs: query => fetchJson(`${DEXSCREENER_API}/latest/dex/search?q=${encodeURIComponent(query)}`, { timeoutMs: 8000 }),
+    pairsForTokens: addresses => fetchJson(`${DEXSCREENER_API}/latest/dex/tokens/${addresses.join(",")}`, { timeoutMs: 8000 }),
+    tokenPairs: (chain, addresses) => fetchJson(`${DEXSCREENER_API}/tokens/v1/${chain}/${addresses.join(",")}`),
+    pair: (chain, pairAddress) => fetchJson(`${DEXSCREENER_API}/latest/dex/pairs/${chain}/${pairAddress}`, { timeoutMs: 8000 }),
+    aveTokens: params => fetchAve(`/tokens?${new URLSearchParams(params)}`),
+    aveRankTopics: () => fetchAve("/ranks/topics"),
+    aveRanks: (topic, limit) => fetchAve(`/ranks?${new URLSearchParams({ topic, limit: String(limit) })}`),
+    avePrices: tokenIds => fetchAve("/tokens/price", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token_ids: tokenIds }),
+    }),
+  };
+}
+
+export function createHttpOhlcvProvider(): OhlcvProvider {
+  return {
+    geckoPoolOhlcv: (network, poolAddress, timeframe, aggregate, limit) => fetchJson(
+      `${GECKOTERMINAL_API}/networks/${network}/pools/${poolAddress}/ohlcv/${timeframe}?aggregate=${aggregate}&limit=${limit}&currency=usd`,
+      { timeoutMs: 15_000 },
+    ),
+    aveTokenKlines: (tokenAddress, params) => fetchAve(`/klines/token/${tokenAddress}?${new URLSearchParams(params)}`),
+    avePairKlines: (pairId, params) => fetchAve(`/klines/pair/${pairId}?${new URLSearchParams(params)}`),
+  };
+}
+
+export function createHttpSecurityProvider(): SecurityProvider {
+  return {
+    goPlusTokenSecurity: (chainId, contractAddress) =>
+      fetchJson(`${GOPLUS_API}/token_security/${chainId}?contract_addresses=${contractAddress.toLowerCase()}`),
+    aveContractRisk: (chain, tokenAddress) => fetchAve(`/contract/risk/${chain}/${tokenAddress}`),
+  };
+}
+
+export function createHttpNewsProvider(): NewsProvider {
+  return {
+    cryptoPanicPosts: () => fetchJson(`${CRYPTOPANIC_API}/?auth_token=free&public=true&kind=news&filter=hot`),
+    coinGeckoNews: () => fetchJson(`${COINGECKO_API}/news`),
+  };
+}
+
+export function createHttpSocialProvider(): SocialProvider {
+  return {
+    lunarCrushCoins: () => fetchJson(`${LUNARCRUSH_PUBLIC_API}/coins/list/v1?sort=galaxy_score&limit=100`, { timeoutMs: 15_000 }),
+  };
+}
+
+export function createHttpSentimentIndexProvider(): SentimentIndexProvider {
+  return {
+    fearGreedHistory: limit => fetchJson(`${ALTERNATIVE_ME_API}?limit=${limit}&format=json`),
+    bitcoinPrice: () => fetchJson(`${COINGECKO_API}/simple/price?ids=bitcoin&vs_currencies=usd&include_24hr_change=true`, { timeoutMs: 8000 }),
+  };
+}
+
+export function createHttpPriceProvider(): PriceProvider {
+  return {
+    coinGeckoPrices: ids => fetchJson(`${COINGECKO_API}/simple/price?ids=${ids.join(",")}&vs_currencies=usd`),
+  };
+}
+
+export function createHttpMarketDataProviders(): MarketDataProviders {
+  return {
+    pairs: createHttpPairsProvider(),
+    ohlcv: createHttpOhlcvProvider(),
+    security: createHttpSecurityProvider(),
+    news: createHttpNewsProvider(),
+    social: createHttpSocialProvider(),
+    sentiment: createHttpSentimentIndexProvider(),
+    prices: createHttpPriceProvider(),
+  };
+}
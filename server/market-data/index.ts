@@ -0,0 +1,51 @@
+import path from "path";
+import { createHttpMarketDataProviders } from "./http";
+import { createRecordingProviders, createReplayProviders } from "./fixtures";
+import type { MarketDataProviders } from "./providers";
+
+export type {
+  MarketDataDomain, MarketDataProviders, NewsProvider, OhlcvProvider, PairsProvider, PriceProvider, SecurityProvider,
+  SentimentIndexProvider, SocialProvider,
+} from "./providers";
+
+// `live` calls the upstream APIs, `record` also saves their responses as
+// fixtures, and `replay` serves only the saved fixtures, with no network
+// access.
+export type MarketDataMode = "live" | "record" | "replay";
+
+const MARKET_DATA_MODES: MarketDataMode[] = ["live", "record", "replay"];
+
+export function marketDataMode(): MarketDataMode {
+  const mode = (process.env.MARKET_DATA_MODE || "live") as MarketDataMode;
+  if (!MARKET_DATA_MODES.includes(mode)) {
+    throw new Error(`MARKET_DATA_MODE must be one of ${MARKET_DATA_MODES.join(", ")}, got "${mode}"`);
+  }
+  return mode;
+}
+
+export function marketDataFixturesDir(): string {
+  return path.resolve(process.env.MARKET_DATA_FIXTURES_DIR || "fixtures/market-data");
+}
+
+function createMarketDataProviders(): MarketDataProviders {
+  const mode = marketDataMode();
+  const live = createHttpMarketDataProviders();
+  if (mode === "live") return live;
+
+  const dir = marketDataFixturesDir();
+  console.log(`[MarketData] ${mode === "record" ? "Recording" : "Replaying"} market data fixtures in ${dir}`);
+  return mode === "record" ? createRecordingProviders(live, dir) : createReplayProviders(live, dir);
+}
+
+let providers: MarketDataProviders | null = null;
+
+export function marketData(): MarketDataProviders {
+  if (!providers) providers = createMarketDataProviders();
+  return providers;
+}
+
+// Swaps in providers for some domains, e.g. stubs in an integration test.
+// Domains left out keep their current provider.
+export function setMarketDataProviders(overrides: Partial<MarketDataProviders>): void {
+  providers = { ...marketData(), ...overrides };
+}
@@ -0,0 +1,69 @@
+// One provider per market-data domain. Every method returns the upstream's
+// parsed JSON body unchanged, or null when the request fails, so a recorded
+// response replays exactly as the live one was read. Parsing, scoring and
+// caching stay in the modules that consume the data.
+
+export interface PairsProvider {
+  // DexScreener
+  tokenProfiles(): Promise<any>;
+  latestBoosts(): Promise<any>;
+  topBoosts(): Promise<any>;
+  searchPairs(query: string): Promise<any>;
+  // Pairs for up to 30 token addresses on any chain.
+  pairsForTokens(addresses: string[]): Promise<any>;
+  // Pairs for up to 30 token addresses on one chain.
+  tokenPairs(chain: string, addresses: string[]): Promise<any>;
+  pair(chain: string, pairAddress: string): Promise<any>;
+  // AveAI token listings. A missing or rejected API key answers
+  // { _error: "AVEAI_KEY_MISSING" }.
+  aveTokens(params: Record<string, string>): Promise<any>;
+  aveRankTopics(): Promise<any>;
+  aveRanks(topic: string, limit: number): Promise<any>;
+  avePrices(tokenIds: string[]): Promise<any>;
+}
+
+export interface OhlcvProvider {
+  // GeckoTerminal pool candles; `network` is GeckoTerminal's network id.
+  geckoPoolOhlcv(network: string, poolAddress: string, timeframe: string, aggregate: number, limit: number): Promise<any>;
+  aveTokenKlines(tokenAddress: string, params: Record<string, string>): Promise<any>;
+  avePairKlines(pairId: string, params: Record<string, string>): Promise<any>;
+}
+
+export interface SecurityProvider {
+  // GoPlus token security; `chainId` is the EVM chain id.
+  goPlusTokenSecurity(chainId: string, contractAddress: string): Promise<any>;
+  aveContractRisk(chain: string, tokenAddress: string): Promise<any>;
+}
+
+export interface NewsProvider {
+  cryptoPanicPosts(): Promise<any>;
+  coinGeckoNews(): Promise<any>;
+}
+
+export interface SocialProvider {
+  lunarCrushCoins(): Promise<any>;
+}
+
+export interface SentimentIndexProvider {
+  // Alternative.me Fear & Greed Index, latest first.
+  fearGreedHistory(limit: number): Promise<any>;
+  // CoinGecko simple price for BTC with its 24h change.
+  bitcoinPrice(): Promise<any>;
+}
+
+export interface PriceProvider {
+  // CoinGecko simple USD prices for the given coin ids.
+  coinGeckoPrices(ids: string[]): Promise<any>;
+}
+
+export interface MarketDataProviders {
+  pairs: PairsProvider;
+  ohlcv: OhlcvProvider;
+  security: SecurityProvider;
+  news: NewsProvider;
+  social: SocialProvider;
+  sentiment: SentimentIndexProvider;
+  prices: PriceProvider;
+}
+
+export type MarketDataDomain = keyof MarketDataProviders;
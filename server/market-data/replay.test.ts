@@ -0,0 +1,74 @@
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Runs market signals and native prices from fixtures on disk with the
+// network cut off, the way MARKET_DATA_MODE=replay runs the terminal.
+
+function pair(chainId: string, address: string, symbol: string, priceUsd: string) {
+  return {
+    chainId, dexId: "raydium", url: `https://dexscreener.com/${chainId}/${address}`, pairAddress: `${address}-pool`,
+    baseToken: { address, name: symbol, symbol }, quoteToken: { address: "quote", name: "Quote", symbol: "Q" },
+    priceUsd, txns: { h24: { buys: 900, sells: 400 }, h1: { buys: 60, sells: 20 } },
+    volume: { h24: 250_000, h6: 80_000, h1: 20_000 }, priceChange: { m5: 1, h1: 4, h24: 12 },
+    liquidity: { usd: 120_000 }, marketCap: 2_000_000, pairCreatedAt: Date.now() - 6 * 60 * 60 * 1000,
+  };
+}
+
+async function writeFixture(dir: string, file: string, body: unknown) {
+  const target = path.join(dir, file);
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, JSON.stringify(body));
+}
+
+let dir: string;
+const fetchSpy = vi.fn(async () => {
+  throw new Error("network access in replay mode");
+});
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), "market-data-"));
+  await writeFixture(dir, "pairs/searchPairs/_default.json", {
+    pairs: [
+      pair("solana", "So1anaMeme111111111111111111111111111111111", "SMEME", "0.0042"),
+      pair("base", "0x00000000000000000000000000000000000b45e1", "BMEME", "0.31"),
+    ],
+  });
+  await writeFixture(dir, "prices/coinGeckoPrices/_default.json", {
+    solana: { usd: 150 }, ethereum: { usd: 3000 }, binancecoin: { usd: 550 }, tron: { usd: 0.2 },
+  });
+  process.env.MARKET_DATA_MODE = "replay";
+  process.env.MARKET_DATA_FIXTURES_DIR = dir;
+  vi.stubGlobal("fetch", fetchSpy);
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("replay mode", () => {
+  it("builds market signals from fixtures without the network", async () => {
+    // The database is not market data; its reads answer empty.
+    const { storage } = await import("../storage");
+    vi.spyOn(storage, "getTokens").mockResolvedValue([]);
+    vi.spyOn(storage, "getSafetyReports").mockResolvedValue([]);
+    vi.spyOn(storage, "getCandles").mockResolvedValue([]);
+    const { getMarketSignals } = await import("../ai/signal-builder");
+
+    const signals = await getMarketSignals("all", "balanced");
+
+    expect(signals.map(s => s.symbol).sort()).toEqual(["BMEME", "SMEME"]);
+    expect(signals.find(s => s.symbol === "SMEME")?.price).toBeCloseTo(0.0042);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("prices native assets from fixtures", async () => {
+    const { getChainPrice } = await import("../crypto-prices");
+
+    expect(await getChainPrice("solana")).toBe(150);
+    expect(await getChainPrice("base")).toBe(3000);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
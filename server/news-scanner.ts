@@ -1,7 +1,6 @@
 import { storage } from "./storage";
+import { marketData } from "./market-data";
 
-const CRYPTOPANIC_API = "https://cryptopanic.com/api/free/v1/posts";
-const COINGECKO_NEWS = "https://api.coingecko.com/api/v3/news";
 const INGEST_INTERVAL = 5 * 60 * 1000;
 let lastIngestTime = 0;
 
@@ -142,17 +141,12 @@ function extractRelatedTokens(title: string, body?: string): string[] {
 
 async function fetchCryptoPanicNews(): Promise<NewsSignal[]> {
   try {
-    const resp = await fetch(`${CRYPTOPANIC_API}/?auth_token=free&public=true&kind=news&filter=hot`, {
-      signal: AbortSignal.timeout(10_000),
-      headers: { Accept: "application/json" },
-    });
-
-    if (!resp.ok) {
-      console.log(`[NewsScanner] CryptoPanic returned ${resp.status}`);
+    const data = await marketData().news.cryptoPanicPosts();
+    if (!data) {
+      console.log("[NewsScanner] CryptoPanic request failed");
       return [];
     }
 
-    const data = await resp.json() as any;
     const results = data?.results || [];
     if (!Array.isArray(results)) return [];
 
@@ -180,17 +174,12 @@ async function fetchCryptoPanicNews(): Promise<NewsSignal[]> {
 
 async function fetchCoinGeckoNews(): Promise<NewsSignal[]> {
   try {
-    const resp = await fetch(COINGECKO_NEWS, {
-      signal: AbortSignal.timeout(10_000),
-      headers: { Accept: "application/json" },
-    });
-
-    if (!resp.ok) {
-      console.log(`[NewsScanner] CoinGecko news returned ${resp.status}`);
+    const data = await marketData().news.coinGeckoNews();
+    if (!data) {
+      console.log("[NewsScanner] CoinGecko news request failed");
       return [];
     }
 
-    const data = await resp.json() as any;
     const items = data?.data || data || [];
     if (!Array.isArray(items)) return [];
 
@@ -219,12 +208,7 @@ async function fetchCoinGeckoNews(): Promise<NewsSignal[]> {
 
 async function fetchDexScreenerTrendingNews(): Promise<NewsSignal[]> {
   try {
-    const resp = await fetch("https://api.dexscreener.com/token-boosts/top/v1", {
-      signal: AbortSignal.timeout(10_000),
-    });
-    if (!resp.ok) return [];
-
-    const data = await resp.json() as any[];
+    const data = await marketData().pairs.topBoosts();
     if (!Array.isArray(data)) return [];
 
     const signals: NewsSignal[] = [];
@@ -318,3 +318,27 @@ function buildSwapTokensForETH(amountIn: bigint, amountOutMin: bigint, path: str
     padUint256(BigInt(path.length)) +
     path.map(p => padAddress(p)).join("");
 }
+
+export async function executeChainSwap(
+  privateKeyHex: string,
+  chain: string,
+  tokenAddress: string,
+  amount: number,
+  side: "buy" | "sell",
+  slippageBps: number = 100
+): Promise<SwapResult> {
+  try {
+    if (chain === "solana") {
+      return await executeSolanaSwap(privateKeyHex, tokenAddress, amount, side, slippageBps);
+    }
+    if (EVM_CHAINS[chain]) {
+      return await executeEvmSwap(privateKeyHex, chain, tokenAddress, amount, side, slippageBps);
+    }
+    if (chain === "tron") {
+      return { success: false, txHash: "", explorerUrl: "", error: "Tron swaps not yet supported" };
+    }
+    return { success: false, txHash: "", explorerUrl: "", error: `Unsupported chain: ${chain}` };
+  } catch (err: any) {
+    return { success: false, txHash: "", explorerUrl: "", error: err.message };
+  }
+}
@@ -0,0 +1,238 @@
+import { storage } from "./storage";
+import type { LimitOrder } from "@shared/schema";
+import { executeChainSwap } from "./onchain-swap";
+import { fetchOnChainBalance, fetchOnChainTokenBalance, decryptKey, waitForBalanceChange } from "./wallet-utils";
+import { broadcast, sendToUser, onPriceUpdates, setWatchedTokens, type PriceUpdate } from "./live-feed";
+import { getChainPrice } from "./crypto-prices";
+import { getPaymentRpc } from "./payment-verifier";
+
+const REFRESH_INTERVAL_MS = 30 * 1000;
+// A refresh re-checks new and edited orders against the last price seen for
+// their token, but only while that price is recent enough to trade on.
+const PRICE_MAX_AGE_MS = 60 * 1000;
+// An order still executing this long after it was claimed was cut off by a
+// crash or restart; a swap settles well within it.
+const STUCK_AFTER_MS = 10 * 60 * 1000;
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let unsubscribe: (() => void) | null = null;
+
+const pendingByToken = new Map<number, LimitOrder[]>();
+const lastPrices = new Map<number, { price: number; address: string; receivedAt: number }>();
+const executing = new Set<number>();
+
+// buy + limit: fill at or below trigger (buy the dip)
+// buy + stop: fill at or above trigger (breakout entry)
+// sell + limit / take_profit: fill at or above trigger
+// sell + stop / stop_loss: fill at or below trigger
+export function isOrderTriggered(order: Pick<LimitOrder, "type" | "orderType" | "triggerPrice">, price: number): boolean {
+  if (price <= 0 || order.triggerPrice <= 0) return false;
+  const isStop = order.orderType === "stop" || order.orderType === "stop_loss";
+
+  if (order.type === "buy") {
+    return isStop ? price >= order.triggerPrice : price <= order.triggerPrice;
+  }
+  return isStop ? price <= order.triggerPrice : price >= order.triggerPrice;
+}
+
+async function refreshPendingOrders() {
+  try {
+    await recoverStuckOrders();
+    const pending = await storage.getPendingLimitOrders();
+    pendingByToken.clear();
+    for (const order of pending) {
+      const list = pendingByToken.get(order.tokenId) || [];
+      list.push(order);
+      pendingByToken.set(order.tokenId, list);
+    }
+    setWatchedTokens("limit-orders", Array.from(pendingByToken.keys()));
+
+    const freshSince = Date.now() - PRICE_MAX_AGE_MS;
+    for (const [tokenId, last] of Array.from(lastPrices.entries())) {
+      if (last.receivedAt < freshSince) {
+        lastPrices.delete(tokenId);
+        continue;
+      }
+      await evaluateToken(tokenId, last.price, last.address);
+    }
+  } catch (err) {
+    console.error("[OrderEngine] Error refreshing pending orders:", err);
+  }
+}
+
+async function evaluateToken(tokenId: number, price: number, address: string) {
+  const orders = pendingByToken.get(tokenId);
+  if (!orders || orders.length === 0) return;
+
+  const triggered = orders.filter(o => !executing.has(o.id) && isOrderTriggered(o, price));
+  if (triggered.length === 0) return;
+
+  pendingByToken.set(tokenId, orders.filter(o => !triggered.includes(o)));
+  for (const order of triggered) {
+    await executeOrder(order, price, address);
+  }
+}
+
+async function handlePriceUpdates(updates: PriceUpdate[]) {
+  for (const u of updates) {
+    lastPrices.set(u.id, { price: u.price, address: u.address, receivedAt: Date.now() });
+    await evaluateToken(u.id, u.price, u.address);
+  }
+}
+
+async function failOrder(order: LimitOrder, reason: string) {
+  try {
+    const updated = await storage.updateLimitOrder(order.id, { status: "failed", failureReason: reason });
+    sendToUser(order.userId, { type: "order_failed", data: { order: updated, reason } });
+  } catch (err) {
+    console.error(`[OrderEngine] Failed to mark order ${order.id} as failed:`, err);
+  }
+  console.log(`[OrderEngine] Order ${order.id} failed: ${reason}`);
+}
+
+// Settles orders left "executing" by an instance that went away. One whose
+// swap was recorded is checked on-chain; without a swap there is no way to
+// tell whether it was sent, so the owner is told to check the wallet.
+async function recoverStuckOrders() {
+  const stuck = await storage.getStaleExecutingLimitOrders(new Date(Date.now() - STUCK_AFTER_MS));
+  for (const order of stuck) {
+    if (!order.txHash) {
+      await failOrder(order, "Interrupted during execution. Check your wallet for the swap before placing the order again.");
+      continue;
+    }
+    const chain = order.chain || "solana";
+    const rpc = getPaymentRpc(chain);
+    const wallet = order.userId ? await storage.getGeneratedWallet(order.userId, chain) : undefined;
+    if (!rpc || !wallet) {
+      await failOrder(order, `Interrupted after sending swap ${order.txHash}; it could not be checked`);
+      continue;
+    }
+    let tx;
+    try {
+      tx = await rpc.getTransfer(order.txHash, wallet.address);
+    } catch (err: any) {
+      console.warn(`[OrderEngine] Could not check swap for interrupted order ${order.id}:`, err.message);
+      continue;
+    }
+    if (!tx) {
+      await failOrder(order, `Swap ${order.txHash} was not found on-chain`);
+    } else if (!tx.succeeded) {
+      await failOrder(order, `Swap ${order.txHash} failed on-chain`);
+    } else {
+      // The fill was never measured, so no price is recorded for it.
+      const filled = await storage.updateLimitOrder(order.id, { status: "filled", filledAt: tx.blockTime ?? new Date() });
+      sendToUser(order.userId, { type: "order_filled", data: { order: filled, txHash: order.txHash, explorerUrl: null } });
+      console.log(`[OrderEngine] Interrupted order ${order.id} filled on-chain: ${order.txHash}`);
+    }
+  }
+}
+
+async function executeOrder(order: LimitOrder, price: number, tokenAddress: string) {
+  executing.add(order.id);
+  try {
+    const claimed = await storage.claimLimitOrder(order.id);
+    if (!claimed) return;
+
+    const chain = order.chain || "solana";
+    console.log(`[OrderEngine] Order ${order.id} triggered: ${order.type} ${order.orderType} @ ${price} (trigger ${order.triggerPrice})`);
+
+    if (!order.userId) {
+      return failOrder(order, "Order has no owner, cannot resolve a wallet");
+    }
+
+    const wallet = await storage.getGeneratedWallet(order.userId, chain);
+    if (!wallet) {
+      return failOrder(order, `No wallet for ${chain}. Generate one first.`);
+    }
+
+    // The fill is measured from the wallet: tokens that arrived or left, and
+    // the native spent or received, rather than the price that triggered it.
+    const readTokens = () => fetchOnChainTokenBalance(chain, wallet.address, tokenAddress);
+    const nativeBefore = await fetchOnChainBalance(chain, wallet.address);
+    const tokensBefore = await readTokens();
+    let amount = order.amount;
+    if (order.type === "buy") {
+      if (nativeBefore < amount) {
+        return failOrder(order, `Insufficient balance: have ${nativeBefore.toFixed(6)}, need ${amount.toFixed(6)}`);
+      }
+    } else {
+      if (tokensBefore <= 0) {
+        return failOrder(order, "No token balance on-chain");
+      }
+      amount = Math.min(amount, tokensBefore);
+    }
+
+    const slippageBps = Math.max(1, Math.min(5000, Math.round((order.slippage ?? 1) * 100)));
+    const privateKey = decryptKey(wallet.encryptedPrivateKey);
+    const result = await executeChainSwap(privateKey, chain, tokenAddress, amount, order.type as "buy" | "sell", slippageBps);
+
+    if (!result.success) {
+      return failOrder(order, result.error || "On-chain swap failed");
+    }
+    // Kept before settling, so an interrupted order can be checked on-chain.
+    await storage.updateLimitOrder(order.id, { txHash: result.txHash });
+
+    const tokensAfter = await waitForBalanceChange(readTokens, tokensBefore);
+    const nativeAfter = await fetchOnChainBalance(chain, wallet.address);
+    const nativePriceUsd = await getChainPrice(chain);
+    const tokens = Math.abs(tokensAfter - tokensBefore);
+    const native = order.type === "buy" ? amount : Math.max(0, nativeAfter - nativeBefore);
+    const fillPrice = tokens > 0 && native > 0 ? (native * nativePriceUsd) / tokens : null;
+    if (fillPrice === null) {
+      console.warn(`[OrderEngine] Order ${order.id}: wallet did not settle in time, recording the trigger price`);
+    }
+    const tradeAmount = tokens > 0 ? tokens : order.type === "buy" ? amount * nativePriceUsd / price : amount;
+    const tradePrice = fillPrice ?? price;
+
+    const filled = await storage.updateLimitOrder(order.id, {
+      status: "filled",
+      filledAt: new Date(),
+      fillPrice,
+      txHash: result.txHash,
+    });
+
+    try {
+      const trade = await storage.createTrade({
+        tokenId: order.tokenId,
+        type: order.type,
+        amount: tradeAmount,
+        price: tradePrice,
+        total: tradeAmount * tradePrice,
+        wallet: `${wallet.address.slice(0, 4)}...${wallet.address.slice(-4)}`,
+      });
+      broadcast({ type: "new_trade", data: trade });
+      await storage.upsertPositionFromTrade(order.userId, order.tokenId, order.type, tradeAmount, tradePrice, chain);
+      await storage.updateGeneratedWalletBalance(wallet.id, nativeAfter);
+    } catch (err) {
+      console.error(`[OrderEngine] Post-fill bookkeeping error for order ${order.id} (non-fatal):`, err);
+    }
+
+    sendToUser(order.userId, { type: "order_filled", data: { order: filled, txHash: result.txHash, explorerUrl: result.explorerUrl } });
+    console.log(`[OrderEngine] Order ${order.id} filled @ ${tradePrice}: ${result.txHash}`);
+  } catch (err: any) {
+    console.error(`[OrderEngine] Error executing order ${order.id}:`, err);
+    await failOrder(order, err.message || "Order execution failed");
+  } finally {
+    executing.delete(order.id);
+  }
+}
+
+export function startOrderEngine() {
+  console.log(`[OrderEngine] Starting limit/stop order engine (refresh every ${REFRESH_INTERVAL_MS / 1000}s)`);
+  unsubscribe = onPriceUpdates(handlePriceUpdates);
+  refreshPendingOrders();
+  intervalId = setInterval(refreshPendingOrders, REFRESH_INTERVAL_MS);
+}
+
+export function stopOrderEngine() {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+  }
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+  setWatchedTokens("limit-orders", []);
+  console.log("[OrderEngine] Order engine stopped");
+}
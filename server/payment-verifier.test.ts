@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { SubscriptionPayment } from "@shared/schema";
+import { PLATFORM_PAYMENT_ADDRESSES } from "./crypto-prices";
+import { setPaymentRpc, taggedPaymentAmount, verifyPayment, type ObservedTransfer, type PaymentRpc } from "./payment-verifier";
+
+// A chain held in memory: transactions are whatever the test puts in it.
+class FakeChain implements PaymentRpc {
+  transfers = new Map<string, ObservedTransfer>();
+
+  async getTransfer(txHash: string, recipient: string): Promise<ObservedTransfer | null> {
+    if (recipient !== PLATFORM_PAYMENT_ADDRESSES.solana) return null;
+    return this.transfers.get(txHash) ?? null;
+  }
+}
+
+const createdAt = new Date("2026-01-01T00:00:00Z");
+const amount = taggedPaymentAmount("solana", 0.5);
+
+function payment(): SubscriptionPayment {
+  return {
+    id: 1, userId: "user-1", tier: "pro", chain: "solana", paymentAddress: PLATFORM_PAYMENT_ADDRESSES.solana,
+    amountRequiredUsd: 90, amountRequiredCrypto: amount, currency: "SOL", amountReceived: 0, txHash: null,
+    status: "confirming", failureReason: null, retryCount: 0, amountReserved: true,
+    expiresAt: new Date(createdAt.getTime() + 30 * 60 * 1000), confirmedAt: null, createdAt,
+  };
+}
+
+function transfer(overrides: Partial<ObservedTransfer> = {}): ObservedTransfer {
+  return {
+    succeeded: true, finalized: true, amount, sender: "payer",
+    blockTime: new Date(createdAt.getTime() + 60 * 1000), ...overrides,
+  };
+}
+
+describe("verifyPayment", () => {
+  let chain: FakeChain;
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    setPaymentRpc("solana", chain);
+  });
+
+  it("confirms a final transfer of the exact amount", async () => {
+    chain.transfers.set("tx", transfer());
+    expect(await verifyPayment(payment(), "tx")).toEqual({ status: "confirmed", amountReceived: amount, reason: null });
+  });
+
+  it("waits while the transaction is unknown or not final", async () => {
+    expect((await verifyPayment(payment(), "tx")).status).toBe("confirming");
+    chain.transfers.set("tx", transfer({ finalized: false, confirmations: 3 }));
+    expect(await verifyPayment(payment(), "tx")).toMatchObject({ status: "confirming", reason: "Waiting for finality (3 confirmations)" });
+  });
+
+  it("fails a transfer of another payment's amount", async () => {
+    chain.transfers.set("tx", transfer({ amount: amount + 0.001 }));
+    expect(await verifyPayment(payment(), "tx")).toMatchObject({ status: "failed" });
+  });
+
+  it("fails a transfer sent before the payment existed", async () => {
+    chain.transfers.set("tx", transfer({ blockTime: new Date(createdAt.getTime() - 60 * 60 * 1000) }));
+    expect(await verifyPayment(payment(), "tx")).toMatchObject({
+      status: "failed", reason: "Transaction was sent before this payment was created",
+    });
+  });
+
+  it("fails a reverted transaction", async () => {
+    chain.transfers.set("tx", transfer({ succeeded: false }));
+    expect(await verifyPayment(payment(), "tx")).toMatchObject({ status: "failed", reason: "Transaction failed on-chain" });
+  });
+});
@@ -0,0 +1,233 @@
+import type { SubscriptionPayment } from "@shared/schema";
+import { CHAIN_RPC_MAP } from "./wallet-utils";
+import { PLATFORM_PAYMENT_ADDRESSES } from "./crypto-prices";
+
+const EVM_CONFIRMATIONS: Record<string, number> = {
+  ethereum: 12,
+  base: 10,
+  bsc: 15,
+};
+// Every payment goes to the same platform address, so the amount is what
+// ties a transfer to its payment. The price is rounded up to the chain's grid
+// and a random tag fills the digits below it; no two reserved payments on a
+// chain share an amount (a partial unique index enforces it), and a transfer
+// must pay the amount exactly.
+const DEFAULT_AMOUNT_GRID = 1e-4;
+// TRX only has 6 decimals.
+const AMOUNT_GRID: Record<string, number> = { tron: 0.01 };
+const AMOUNT_TAG_SLOTS = 10_000;
+// Block timestamps can run slightly ahead of or behind the database clock.
+export const BLOCK_TIME_SKEW_MS = 60 * 1000;
+
+function amountStep(chain: string): number {
+  return (AMOUNT_GRID[chain] ?? DEFAULT_AMOUNT_GRID) / AMOUNT_TAG_SLOTS;
+}
+
+// The amount a new payment asks for. Callers retry with a fresh tag when it
+// collides with another reserved payment.
+export function taggedPaymentAmount(chain: string, amount: number): number {
+  const grid = AMOUNT_GRID[chain] ?? DEFAULT_AMOUNT_GRID;
+  const step = amountStep(chain);
+  const tag = 1 + Math.floor(Math.random() * (AMOUNT_TAG_SLOTS - 1));
+  const decimals = Math.round(-Math.log10(step));
+  return parseFloat((Math.ceil(amount / grid) * grid + tag * step).toFixed(decimals));
+}
+
+export interface ObservedTransfer {
+  succeeded: boolean;
+  finalized: boolean;
+  // Native amount credited to the recipient by this transaction.
+  amount: number;
+  // Address that signed the transaction; null when the node does not say.
+  sender: string | null;
+  // When the transaction's block was produced; null until it is known.
+  blockTime: Date | null;
+  confirmations?: number;
+}
+
+// Chain access used by the verifier. Returns null while the transaction is
+// unknown to the node; a fake implementation can be swapped in with
+// setPaymentRpc to run the verifier against a local chain.
+export interface PaymentRpc {
+  getTransfer(txHash: string, recipient: string): Promise<ObservedTransfer | null>;
+}
+
+export type PaymentVerificationStatus = "confirmed" | "confirming" | "failed";
+
+export interface PaymentVerification {
+  status: PaymentVerificationStatus;
+  amountReceived: number;
+  reason: string | null;
+}
+
+async function rpcCall(url: string, method: string, params: unknown[]): Promise<any> {
+  const resp = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    signal: AbortSignal.timeout(15_000),
+  });
+  const data = await resp.json();
+  if (data.error) throw new Error(data.error.message || `${method} failed`);
+  return data.result;
+}
+
+export const solanaPaymentRpc: PaymentRpc = {
+  async getTransfer(txHash, recipient) {
+    const fetchTx = (commitment: string) => rpcCall(CHAIN_RPC_MAP.solana, "getTransaction", [
+      txHash,
+      { encoding: "jsonParsed", commitment, maxSupportedTransactionVersion: 0 },
+    ]);
+
+    let tx = await fetchTx("finalized");
+    const finalized = !!tx;
+    if (!tx) tx = await fetchTx("confirmed");
+    if (!tx || !tx.meta) return null;
+
+    const keys: string[] = (tx.transaction?.message?.accountKeys || []).map((k: any) => typeof k === "string" ? k : k.pubkey);
+    const index = keys.indexOf(recipient);
+    const lamports = index >= 0 ? (tx.meta.postBalances[index] ?? 0) - (tx.meta.preBalances[index] ?? 0) : 0;
+
+    return {
+      succeeded: tx.meta.err == null,
+      finalized,
+      amount: Math.max(0, lamports) / 1e9,
+      // The fee payer is always the first account key.
+      sender: keys[0] ?? null,
+      blockTime: tx.blockTime ? new Date(tx.blockTime * 1000) : null,
+    };
+  },
+};
+
+export function createEvmPaymentRpc(chain: string): PaymentRpc {
+  return {
+    async getTransfer(txHash, recipient) {
+      const url = CHAIN_RPC_MAP[chain];
+      const tx = await rpcCall(url, "eth_getTransactionByHash", [txHash]);
+      if (!tx || !tx.blockNumber) return null;
+
+      const receipt = await rpcCall(url, "eth_getTransactionReceipt", [txHash]);
+      if (!receipt) return null;
+      const [headHex, block] = await Promise.all([
+        rpcCall(url, "eth_blockNumber", []),
+        rpcCall(url, "eth_getBlockByNumber", [tx.blockNumber, false]),
+      ]);
+      const head = parseInt(headHex, 16);
+      const confirmations = head - parseInt(tx.blockNumber, 16) + 1;
+
+      const toRecipient = typeof tx.to === "string" && tx.to.toLowerCase() === recipient.toLowerCase();
+      const wei = toRecipient ? BigInt(tx.value || "0x0") : BigInt(0);
+
+      return {
+        succeeded: receipt.status === "0x1",
+        finalized: confirmations >= (EVM_CONFIRMATIONS[chain] ?? 12),
+        amount: Number(wei) / 1e18,
+        sender: typeof tx.from === "string" ? tx.from : null,
+        blockTime: block?.timestamp ? new Date(parseInt(block.timestamp, 16) * 1000) : null,
+        confirmations,
+      };
+    },
+  };
+}
+
+export const tronPaymentRpc: PaymentRpc = {
+  async getTransfer(txHash, recipient) {
+    const post = async (path: string) => {
+      const resp = await fetch(`${CHAIN_RPC_MAP.tron}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ value: txHash, visible: true }),
+        signal: AbortSignal.timeout(15_000),
+      });
+      return resp.json();
+    };
+
+    const tx = await post("/wallet/gettransactionbyid");
+    if (!tx || !tx.raw_data) return null;
+
+    // Only plain TRX transfers count; the solidity node only knows about the
+    // transaction once its block is irreversible.
+    const contract = tx.raw_data.contract?.[0];
+    const value = contract?.type === "TransferContract" ? contract.parameter?.value : null;
+    const sun = value && value.to_address === recipient ? Number(value.amount || 0) : 0;
+    const info = await post("/walletsolidity/gettransactioninfobyid");
+
+    return {
+      succeeded: tx.ret?.[0]?.contractRet === "SUCCESS",
+      finalized: !!info?.blockNumber,
+      amount: sun / 1e6,
+      sender: value?.owner_address ?? null,
+      blockTime: info?.blockTimeStamp ? new Date(info.blockTimeStamp) : null,
+    };
+  },
+};
+
+const rpcByChain = new Map<string, PaymentRpc>([
+  ["solana", solanaPaymentRpc],
+  ["ethereum", createEvmPaymentRpc("ethereum")],
+  ["base", createEvmPaymentRpc("base")],
+  ["bsc", createEvmPaymentRpc("bsc")],
+  ["tron", tronPaymentRpc],
+]);
+
+export function setPaymentRpc(chain: string, rpc: PaymentRpc): void {
+  rpcByChain.set(chain, rpc);
+}
+
+export function getPaymentRpc(chain: string): PaymentRpc | undefined {
+  return rpcByChain.get(chain);
+}
+
+export function normalizeTxHash(chain: string, txHash: string): string {
+  const trimmed = txHash.trim();
+  if (chain === "solana") return trimmed;
+  const hex = trimmed.toLowerCase().replace(/^0x/, "");
+  return chain === "tron" ? hex : `0x${hex}`;
+}
+
+export async function verifyPayment(payment: SubscriptionPayment, txHash: string): Promise<PaymentVerification> {
+  const recipient = PLATFORM_PAYMENT_ADDRESSES[payment.chain];
+  const rpc = rpcByChain.get(payment.chain);
+  if (!recipient || !rpc) {
+    return { status: "failed", amountReceived: 0, reason: `Unsupported chain: ${payment.chain}` };
+  }
+  if (payment.paymentAddress !== recipient) {
+    return { status: "failed", amountReceived: 0, reason: "Payment address does not match the platform address" };
+  }
+
+  let transfer: ObservedTransfer | null;
+  try {
+    transfer = await rpc.getTransfer(txHash, recipient);
+  } catch (err: any) {
+    return { status: "confirming", amountReceived: 0, reason: `RPC error: ${err.message}` };
+  }
+
+  if (!transfer) {
+    return { status: "confirming", amountReceived: 0, reason: "Transaction not found yet" };
+  }
+  if (!transfer.succeeded) {
+    return { status: "failed", amountReceived: 0, reason: "Transaction failed on-chain" };
+  }
+  if (transfer.amount <= 0) {
+    return { status: "failed", amountReceived: 0, reason: "Transaction did not pay the platform address" };
+  }
+  if (transfer.blockTime && payment.createdAt && transfer.blockTime.getTime() < new Date(payment.createdAt).getTime() - BLOCK_TIME_SKEW_MS) {
+    return { status: "failed", amountReceived: 0, reason: "Transaction was sent before this payment was created" };
+  }
+  if (Math.abs(transfer.amount - payment.amountRequiredCrypto) >= amountStep(payment.chain) / 2) {
+    return {
+      status: "failed",
+      amountReceived: transfer.amount,
+      reason: `Amount mismatch: received ${transfer.amount} ${payment.currency}, this payment requires exactly ${payment.amountRequiredCrypto}`,
+    };
+  }
+  if (!transfer.finalized) {
+    const progress = transfer.confirmations != null ? ` (${transfer.confirmations} confirmations)` : "";
+    return { status: "confirming", amountReceived: transfer.amount, reason: `Waiting for finality${progress}` };
+  }
+  if (!transfer.blockTime) {
+    return { status: "confirming", amountReceived: transfer.amount, reason: "Waiting for the transaction's block time" };
+  }
+
+  return { status: "confirmed", amountReceived: transfer.amount, reason: null };
+}
@@ -0,0 +1,157 @@
+import { storage } from "./storage";
+import type { PriceAlert } from "@shared/schema";
+import { onPriceUpdates, setWatchedTokens, type PriceUpdate } from "./live-feed";
+import { deliverAlert, type AlertNotification } from "./alert-channels";
+
+const REFRESH_INTERVAL_MS = 30 * 1000;
+const DEFAULT_WINDOW_MINUTES = 60;
+const MAX_HISTORY_MS = 24 * 60 * 60 * 1000;
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let unsubscribe: (() => void) | null = null;
+
+const activeByToken = new Map<number, PriceAlert[]>();
+const priceSamples = new Map<number, Array<{ t: number; price: number; symbol: string }>>();
+
+function recordSample(update: PriceUpdate) {
+  const now = Date.now();
+  const samples = priceSamples.get(update.id) || [];
+  samples.push({ t: now, price: update.price, symbol: update.symbol });
+  while (samples.length > 1 && samples[1].t < now - MAX_HISTORY_MS) samples.shift();
+  priceSamples.set(update.id, samples);
+}
+
+// The feed only emits on change, so the price at the start of the window is
+// the last sample at or before it; fall back to the oldest sample we have.
+function getWindowBaseline(tokenId: number, windowMinutes: number): number | null {
+  const samples = priceSamples.get(tokenId);
+  if (!samples || samples.length < 2) return null;
+  const windowStart = Date.now() - windowMinutes * 60 * 1000;
+  let baseline = samples[0].price;
+  for (const s of samples) {
+    if (s.t > windowStart) break;
+    baseline = s.price;
+  }
+  return baseline > 0 ? baseline : null;
+}
+
+export function evaluateAlert(alert: PriceAlert, price: number, baseline: number | null): { hit: boolean; change: number | null } {
+  switch (alert.type) {
+    case "price_above":
+      return { hit: alert.targetPrice != null && price >= alert.targetPrice, change: null };
+    case "price_below":
+      return { hit: alert.targetPrice != null && price <= alert.targetPrice, change: null };
+    case "percent_change_up":
+    case "percent_change_down": {
+      if (baseline == null || alert.percentChange == null) return { hit: false, change: null };
+      const change = ((price - baseline) / baseline) * 100;
+      const threshold = Math.abs(alert.percentChange);
+      const hit = alert.type === "percent_change_up" ? change >= threshold : change <= -threshold;
+      return { hit, change };
+    }
+    default:
+      return { hit: false, change: null };
+  }
+}
+
+function buildMessage(alert: PriceAlert, symbol: string, price: number, change: number | null): string {
+  const windowMinutes = alert.windowMinutes ?? DEFAULT_WINDOW_MINUTES;
+  if (change != null) {
+    return `${symbol} moved ${change >= 0 ? "+" : ""}${change.toFixed(2)}% in ${windowMinutes}m (now $${price})`;
+  }
+  const direction = alert.type === "price_above" ? "above" : "below";
+  return `${symbol} is ${direction} $${alert.targetPrice} (now $${price})`;
+}
+
+async function fireAlert(alert: PriceAlert, symbol: string, price: number, change: number | null) {
+  const triggered = await storage.markPriceAlertTriggered(alert.id, price);
+  if (!triggered) return;
+
+  const notification: AlertNotification = {
+    alertId: alert.id,
+    userId: alert.userId,
+    tokenId: alert.tokenId,
+    symbol,
+    chain: alert.chain || "solana",
+    type: alert.type,
+    price,
+    targetPrice: alert.targetPrice,
+    percentChange: alert.percentChange,
+    observedChange: change,
+    windowMinutes: alert.windowMinutes,
+    message: buildMessage(alert, symbol, price, change),
+    triggeredAt: (triggered.triggeredAt ?? new Date()).toISOString(),
+  };
+
+  const results = await deliverAlert(triggered, notification);
+  const delivered = results.filter(r => r.ok).map(r => r.channel);
+  console.log(`[Alerts] Alert ${alert.id} triggered: ${notification.message} (delivered: ${delivered.join(", ") || "none"})`);
+}
+
+async function evaluateToken(tokenId: number, price: number, symbol: string) {
+  const alerts = activeByToken.get(tokenId);
+  if (!alerts || alerts.length === 0) return;
+
+  const remaining: PriceAlert[] = [];
+  for (const alert of alerts) {
+    const baseline = getWindowBaseline(tokenId, alert.windowMinutes ?? DEFAULT_WINDOW_MINUTES);
+    const { hit, change } = evaluateAlert(alert, price, baseline);
+    if (!hit) {
+      remaining.push(alert);
+      continue;
+    }
+    try {
+      await fireAlert(alert, symbol, price, change);
+    } catch (err) {
+      console.error(`[Alerts] Error firing alert ${alert.id}:`, err);
+    }
+  }
+  activeByToken.set(tokenId, remaining);
+}
+
+async function handlePriceUpdates(updates: PriceUpdate[]) {
+  for (const u of updates) {
+    recordSample(u);
+    await evaluateToken(u.id, u.price, u.symbol);
+  }
+}
+
+async function refreshActiveAlerts() {
+  try {
+    const active = await storage.getActivePriceAlerts();
+    activeByToken.clear();
+    for (const alert of active) {
+      const list = activeByToken.get(alert.tokenId) || [];
+      list.push(alert);
+      activeByToken.set(alert.tokenId, list);
+    }
+    setWatchedTokens("price-alerts", Array.from(activeByToken.keys()));
+
+    for (const [tokenId, samples] of Array.from(priceSamples.entries())) {
+      const last = samples[samples.length - 1];
+      if (last) await evaluateToken(tokenId, last.price, last.symbol);
+    }
+  } catch (err) {
+    console.error("[Alerts] Error refreshing active alerts:", err);
+  }
+}
+
+export function startPriceAlertEvaluator() {
+  console.log(`[Alerts] Starting price alert evaluator (refresh every ${REFRESH_INTERVAL_MS / 1000}s)`);
+  unsubscribe = onPriceUpdates(handlePriceUpdates);
+  refreshActiveAlerts();
+  intervalId = setInterval(refreshActiveAlerts, REFRESH_INTERVAL_MS);
+}
+
+export function stopPriceAlertEvaluator() {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+  }
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+  setWatchedTokens("price-alerts", []);
+  console.log("[Alerts] Price alert evaluator stopped");
+}
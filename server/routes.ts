@@ -1,25 +1,45 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import crypto from "crypto";
 import { z } from "zod";
 import { storage } from "./storage";
-import { insertWatchlistSchema, insertTradeSchema, insertCopyTradeConfigSchema, insertSniperRuleSchema, insertAiAgentSchema, insertPriceAlertSchema, insertLimitOrderSchema, insertDcaConfigSchema, insertReferralSchema } from "@shared/schema";
+import { insertWatchlistSchema, insertTradeSchema, insertCopyTradeConfigSchema, insertSniperRuleSchema, insertAiAgentSchema, insertPriceAlertSchema, insertLimitOrderSchema, insertDcaConfigSchema, insertReferralSchema, updateCopyTradeConfigSchema, updateSniperRuleSchema, updatePriceAlertSchema, updateLimitOrderSchema, updateDcaConfigSchema, type AiAgent, type AgentTournament, type SubscriptionPayment, type Backtest, type CustomStrategyVersion } from "@shared/schema";
 import { seedDatabase } from "./seed";
 // Agent runner disabled - only real on-chain trades
 import { setupAuth, registerAuthRoutes, isAuthenticated } from "./integrations/auth";
-import { getLiveMemeTokens, filterAndSortMemes, getLiveTokenById, fetchLiveOHLCV, preWarmOHLCV, type OHLCVCandle } from "./live-memes";
+import { getLiveMemeTokens, filterAndSortMemes, getLiveTokenById, GECKO_HISTORY_TIMEFRAMES, type OHLCVCandle } from "./live-memes";
+import { getCandles, preWarmCandles, recordTick, isCandleResolution, MAX_CANDLES_PER_REQUEST, type CandleResolution, type PriceBar } from "./candle-store";
+import { marketData } from "./market-data";
 import { Keypair } from "@solana/web3.js";
 import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 import { executeSolanaSwap, executeEvmSwap } from "./onchain-swap";
+import { fetchOnChainBalance, fetchOnChainTokenBalance, encryptKey, decryptKey } from "./wallet-utils";
+import { setBroadcaster, setUserSender, hasPriceListeners, publishPriceUpdates, getWatchedTokenIds, type PriceUpdate } from "./live-feed";
+import { getAlertChannelNames, webhookUrlError } from "./alert-channels";
+import { normalizeTxHash, taggedPaymentAmount } from "./payment-verifier";
+import { settlePayment, CONFIRMATION_WINDOW_MS } from "./subscription-lifecycle";
+import { resolveUserTier, checkQuota, checkAgentStart, getEntitlements, countsTowardQuota, type QuotaKey, type CountedQuotaKey } from "./entitlements";
+import { resolveJupiterFee, getSwapFee, feeFromAmount, recordSwapFee, settleFeeEntry, isFeeConfirmToken } from "./swap-fees";
+import { PAID_TIER_IDS } from "@shared/tiers";
 import { getTokenSecurity, isSupportedChain, type TokenSecurityResult } from "./goplus";
 import { getSolanaTokenHolders, formatSolanaHolders, formatSolanaInsiders } from "./solana-holders";
-import { getSignalPerformanceReport } from "./ai/agent-runner";
+import { getSignalPerformanceReport, STRATEGY_PROMPTS, flattenUserAgents } from "./ai/agent-runner";
+import { getSchedulerHealth } from "./ai/agent-scheduler";
+import { riskLimitsSchema, measurePortfolio, describeRisk, saveRiskLimits, resetKillSwitch } from "./ai/risk-manager";
+import { usageDay, AGENT_DECISION_PROVIDERS } from "./ai/decision-router";
+import {
+  startBacktest, isBacktestRunning, listBacktests, interruptStaleBacktests, type BacktestSourceSpec,
+} from "./ai/backtest-jobs";
+import { startTournament, listTournaments, usesLlm, promotedConfig, type TournamentStandings } from "./ai/tournament";
+import { customStrategyInputSchema, type CustomStrategyInput } from "./ai/custom-strategies";
+import { RULE_FIELDS } from "./ai/strategy-dsl";
+import { exportSnapshotsJsonl, importSnapshotsJsonl, loadDecisionSnapshot, loadMarketSnapshot } from "./ai/snapshot-recorder";
+import { loadDecisionExplanation } from "./ai/decision-explanation";
 import { getNewsSignals, getOverallMarketNewsSentiment } from "./news-scanner";
 import { getFearGreedSignal } from "./fear-greed";
 import { getMarketLiquidityFlow } from "./liquidity-tracker";
 
-const DEXSCREENER_API = "https://api.dexscreener.com";
 const JUPITER_API = "https://lite-api.jup.ag/swap/v1";
 
 const SOL_MINT = "So11111111111111111111111111111111111111112";
@@ -29,13 +49,13 @@ export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  await setupAuth(app);
+  const sessionParser = await setupAuth(app);
   registerAuthRoutes(app);
 
   seedDatabase().catch((err) => console.error("Seeding error:", err));
 
-  getLiveMemeTokens().then(() => {
-    preWarmOHLCV().catch(() => {});
+  getLiveMemeTokens().then((tokens) => {
+    preWarmCandles(tokens.slice(0, 5).filter(t => t.chain && t.address)).catch(() => {});
   }).catch(() => {});
 
   app.get("/api/tokens", async (req, res) => {
@@ -134,19 +154,11 @@ export async function registerRoutes(
       let holders = liveToken.holders ?? 500;
 
       if (liveToken.pairAddress) {
-        try {
-          const controller = new AbortController();
-          const timer = setTimeout(() => controller.abort(), 8000);
-          const resp = await fetch(`${DEXSCREENER_API}/latest/dex/pairs/${liveToken.chain}/${liveToken.pairAddress}`, { signal: controller.signal });
-          clearTimeout(timer);
-          if (resp.ok) {
-            const data = await resp.json();
-            if (data?.pair) {
-              price = parseFloat(data.pair.priceUsd || "0") || price;
-              marketCap = data.pair.marketCap ?? data.pair.fdv ?? marketCap;
-            }
-          }
-        } catch {}
+        const data = await marketData().pairs.pair(liveToken.chain, liveToken.pairAddress);
+        if (data?.pair) {
+          price = parseFloat(data.pair.priceUsd || "0") || price;
+          marketCap = data.pair.marketCap ?? data.pair.fdv ?? marketCap;
+        }
       }
 
       if (marketCap > 0) {
@@ -378,6 +390,35 @@ export async function registerRoutes(
     }
   });
 
+  // Chart ranges for the per-token candle routes, as candle resolution and
+  // count.
+  const CHART_RANGE_CANDLES: Record<string, { resolution: CandleResolution; limit: number }> = {
+    "1H": { resolution: "1m", limit: 60 },
+    "4H": { resolution: "5m", limit: 48 },
+    "1D": { resolution: "1h", limit: 24 },
+    "1W": { resolution: "4h", limit: 42 },
+  };
+  // Charts take candle times in seconds.
+  const toChartCandle = (bar: PriceBar): OHLCVCandle => ({ ...bar, t: Math.floor(bar.t / 1000) });
+
+  // The pool is always resolved server-side: backfilled candles are stored
+  // for the token and feed agent indicators.
+  app.get("/api/candles/:chain/:address", isAuthenticated, async (req, res) => {
+    try {
+      const chain = req.params.chain as string;
+      if (!CHAIN_CONFIGS[chain]) return res.status(400).json({ message: "Invalid chain" });
+      const resolution = (req.query.resolution as string) || "15m";
+      if (!isCandleResolution(resolution)) {
+        return res.status(400).json({ message: `Unsupported resolution: ${resolution}` });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 300, MAX_CANDLES_PER_REQUEST);
+      const candles = await getCandles(chain, req.params.address as string, resolution, limit);
+      res.json(candles.map(toChartCandle));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch candles" });
+    }
+  });
+
   app.get("/api/tokens/:id/price-history/:timeframe", async (req, res) => {
     try {
       const tokenId = req.params.id;
@@ -392,13 +433,14 @@ export async function registerRoutes(
         if (!liveToken || !liveToken.pairAddress) {
           return res.json([]);
         }
-        const ohlcv = await fetchLiveOHLCV(liveToken.chain, liveToken.pairAddress, timeframe);
-        return res.json(ohlcv.map((entry, i) => ({
+        const range = CHART_RANGE_CANDLES[timeframe] || CHART_RANGE_CANDLES["1D"];
+        const candles = await getCandles(liveToken.chain, liveToken.address, range.resolution, range.limit, liveToken.pairAddress);
+        return res.json(candles.map((entry, i) => ({
           id: i,
           tokenId: 0,
           price: entry.c,
           volume: entry.v,
-          timestamp: new Date(entry.t * 1000).toISOString(),
+          timestamp: new Date(entry.t).toISOString(),
         })));
       }
 
@@ -430,8 +472,9 @@ export async function registerRoutes(
         if (!liveToken || !liveToken.pairAddress) {
           return res.json([]);
         }
-        const ohlcv = await fetchLiveOHLCV(liveToken.chain, liveToken.pairAddress, timeframe);
-        return res.json(ohlcv);
+        const range = CHART_RANGE_CANDLES[timeframe] || CHART_RANGE_CANDLES["1D"];
+        const candles = await getCandles(liveToken.chain, liveToken.address, range.resolution, range.limit, liveToken.pairAddress);
+        return res.json(candles.map(toChartCandle));
       }
 
       let hoursBack = 24;
@@ -473,9 +516,9 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/watchlist", isAuthenticated, async (_req, res) => {
+  app.get("/api/watchlist", isAuthenticated, async (req, res) => {
     try {
-      const items = await storage.getWatchlist();
+      const items = await storage.getWatchlist((req.session as any).userId);
       res.json(items);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch watchlist" });
@@ -484,7 +527,7 @@ export async function registerRoutes(
 
   app.post("/api/watchlist", isAuthenticated, async (req, res) => {
     try {
-      const parsed = insertWatchlistSchema.parse(req.body);
+      const parsed = insertWatchlistSchema.parse({ ...req.body, userId: (req.session as any).userId });
       const item = await storage.addToWatchlist(parsed);
       res.json(item);
     } catch (err: any) {
@@ -494,7 +537,7 @@ export async function registerRoutes(
 
   app.delete("/api/watchlist/:tokenId", isAuthenticated, async (req, res) => {
     try {
-      await storage.removeFromWatchlist(parseInt(req.params.tokenId as string));
+      await storage.removeFromWatchlist((req.session as any).userId, parseInt(req.params.tokenId as string));
       res.json({ success: true });
     } catch (err) {
       res.status(500).json({ message: "Failed to remove from watchlist" });
@@ -566,23 +609,18 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/copy-trades", isAuthenticated, async (_req, res) => {
+  app.get("/api/copy-trades", isAuthenticated, async (req, res) => {
     try {
-      const configs = await storage.getCopyTradeConfigs();
+      const configs = await storage.getCopyTradeConfigs((req.session as any).userId);
       res.json(configs);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch copy trade configs" });
     }
   });
 
-  app.post("/api/copy-trades", isAuthenticated, requireFeature("maxCopyTrades", "Copy Trading"), async (req, res) => {
+  app.post("/api/copy-trades", isAuthenticated, requireQuota("maxCopyTrades", "Copy Trading", "copy trade config(s)"), async (req, res) => {
     try {
-      const { limits, tier } = (req as any).tierInfo;
-      const existing = await storage.getCopyTradeConfigs();
-      if (existing.length >= limits.maxCopyTrades) {
-        return res.status(403).json({ message: `Your ${tier} plan allows ${limits.maxCopyTrades} copy trade config(s). Upgrade for more.`, code: "LIMIT_REACHED" });
-      }
-      const parsed = insertCopyTradeConfigSchema.parse(req.body);
+      const parsed = insertCopyTradeConfigSchema.parse({ ...req.body, userId: (req.session as any).userId });
       const config = await storage.createCopyTradeConfig(parsed);
       res.json(config);
     } catch (err: any) {
@@ -590,9 +628,32 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/copy-trades/fills", isAuthenticated, async (req, res) => {
+    try {
+      const fills = await storage.getCopyTradeFills((req.session as any).userId);
+      res.json(fills);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch copy trade fills" });
+    }
+  });
+
+  app.get("/api/copy-trades/positions", isAuthenticated, async (req, res) => {
+    try {
+      const positions = await storage.getOpenCopyPositions((req.session as any).userId);
+      res.json(positions);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch copy positions" });
+    }
+  });
+
   app.patch("/api/copy-trades/:id", isAuthenticated, async (req, res) => {
     try {
-      const config = await storage.updateCopyTradeConfig(parseInt(req.params.id as string), req.body);
+      const owned = await findOwned(req, res, id => storage.getCopyTradeConfig(id), "Copy trade config");
+      if (!owned) return;
+      const updates = parseUpdate(res, updateCopyTradeConfigSchema, req.body);
+      if (!updates) return;
+      if (!(await checkReenable(req, res, owned, updates, "maxCopyTrades", "copy trade config(s)"))) return;
+      const config = await storage.updateCopyTradeConfig(owned.id, updates);
       res.json(config);
     } catch (err: any) {
       res.status(400).json({ message: err.message || "Invalid request" });
@@ -601,30 +662,27 @@ export async function registerRoutes(
 
   app.delete("/api/copy-trades/:id", isAuthenticated, async (req, res) => {
     try {
-      await storage.deleteCopyTradeConfig(parseInt(req.params.id as string));
+      const owned = await findOwned(req, res, id => storage.getCopyTradeConfig(id), "Copy trade config");
+      if (!owned) return;
+      await storage.deleteCopyTradeConfig(owned.id);
       res.json({ success: true });
     } catch (err) {
       res.status(500).json({ message: "Failed to delete config" });
     }
   });
 
-  app.get("/api/sniper-rules", isAuthenticated, async (_req, res) => {
+  app.get("/api/sniper-rules", isAuthenticated, async (req, res) => {
     try {
-      const rules = await storage.getSniperRules();
+      const rules = await storage.getSniperRules((req.session as any).userId);
       res.json(rules);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch sniper rules" });
     }
   });
 
-  app.post("/api/sniper-rules", isAuthenticated, requireFeature("maxSniperRules", "Sniper Mode"), async (req, res) => {
+  app.post("/api/sniper-rules", isAuthenticated, requireQuota("maxSniperRules", "Sniper Mode", "sniper rule(s)"), async (req, res) => {
     try {
-      const { limits, tier } = (req as any).tierInfo;
-      const existing = await storage.getSniperRules();
-      if (existing.length >= limits.maxSniperRules) {
-        return res.status(403).json({ message: `Your ${tier} plan allows ${limits.maxSniperRules} sniper rule(s). Upgrade for more.`, code: "LIMIT_REACHED" });
-      }
-      const parsed = insertSniperRuleSchema.parse(req.body);
+      const parsed = insertSniperRuleSchema.parse({ ...req.body, userId: (req.session as any).userId });
       const rule = await storage.createSniperRule(parsed);
       res.json(rule);
     } catch (err: any) {
@@ -632,9 +690,23 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/sniper-executions", isAuthenticated, async (req, res) => {
+    try {
+      const executions = await storage.getSniperExecutions((req.session as any).userId);
+      res.json(executions);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch sniper executions" });
+    }
+  });
+
   app.patch("/api/sniper-rules/:id", isAuthenticated, async (req, res) => {
     try {
-      const rule = await storage.updateSniperRule(parseInt(req.params.id as string), req.body);
+      const owned = await findOwned(req, res, id => storage.getSniperRule(id), "Sniper rule");
+      if (!owned) return;
+      const updates = parseUpdate(res, updateSniperRuleSchema, req.body);
+      if (!updates) return;
+      if (!(await checkReenable(req, res, owned, updates, "maxSniperRules", "sniper rule(s)"))) return;
+      const rule = await storage.updateSniperRule(owned.id, updates);
       res.json(rule);
     } catch (err: any) {
       res.status(400).json({ message: err.message || "Invalid request" });
@@ -643,16 +715,18 @@ export async function registerRoutes(
 
   app.delete("/api/sniper-rules/:id", isAuthenticated, async (req, res) => {
     try {
-      await storage.deleteSniperRule(parseInt(req.params.id as string));
+      const owned = await findOwned(req, res, id => storage.getSniperRule(id), "Sniper rule");
+      if (!owned) return;
+      await storage.deleteSniperRule(owned.id);
       res.json({ success: true });
     } catch (err) {
       res.status(500).json({ message: "Failed to delete rule" });
     }
   });
 
-  app.get("/api/positions", isAuthenticated, async (_req, res) => {
+  app.get("/api/positions", isAuthenticated, async (req, res) => {
     try {
-      const positionList = await storage.getPositions();
+      const positionList = await storage.getPositions((req.session as any).userId);
       res.json(positionList);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch positions" });
@@ -783,8 +857,8 @@ export async function registerRoutes(
     try {
       const { q } = req.query;
       if (!q) return res.json({ pairs: [] });
-      const resp = await fetch(`${DEXSCREENER_API}/latest/dex/search?q=${encodeURIComponent(String(q))}`);
-      const data = await resp.json();
+      const data = await marketData().pairs.searchPairs(String(q));
+      if (!data) return res.status(500).json({ message: "DexScreener search failed" });
       res.json(data);
     } catch (err) {
       res.status(500).json({ message: "DexScreener search failed" });
@@ -793,8 +867,8 @@ export async function registerRoutes(
 
   app.get("/api/dex/tokens/:address", async (req, res) => {
     try {
-      const resp = await fetch(`${DEXSCREENER_API}/latest/dex/tokens/${req.params.address}`);
-      const data = await resp.json();
+      const data = await marketData().pairs.pairsForTokens([req.params.address]);
+      if (!data) return res.status(500).json({ message: "DexScreener token fetch failed" });
       res.json(data);
     } catch (err) {
       res.status(500).json({ message: "DexScreener token fetch failed" });
@@ -811,8 +885,8 @@ export async function registerRoutes(
         tron: "tron",
       };
       const chain = chainMap[req.params.chain] || req.params.chain;
-      const resp = await fetch(`${DEXSCREENER_API}/latest/dex/pairs/${chain}/${req.params.pairAddress}`);
-      const data = await resp.json();
+      const data = await marketData().pairs.pair(chain, req.params.pairAddress);
+      if (!data) return res.status(500).json({ message: "DexScreener pair fetch failed" });
       res.json(data);
     } catch (err) {
       res.status(500).json({ message: "DexScreener pair fetch failed" });
@@ -821,8 +895,8 @@ export async function registerRoutes(
 
   app.get("/api/dex/trending", async (_req, res) => {
     try {
-      const resp = await fetch(`${DEXSCREENER_API}/token-boosts/top/v1`);
-      const data = await resp.json();
+      const data = await marketData().pairs.topBoosts();
+      if (!data) return res.status(500).json({ message: "DexScreener trending fetch failed" });
       res.json(data);
     } catch (err) {
       res.status(500).json({ message: "DexScreener trending fetch failed" });
@@ -841,9 +915,11 @@ export async function registerRoutes(
         amount: String(amount),
         slippageBps: String(slippageBps || "50"),
       });
+      const fee = await resolveJupiterFee((req.session as any)?.userId, String(inputMint), String(outputMint));
+      if (fee.feeBps > 0) params.set("platformFeeBps", String(fee.feeBps));
       const resp = await fetch(`${JUPITER_API}/quote?${params}`);
       const data = await resp.json();
-      res.json(data);
+      res.json({ ...data, tier: fee.tier, feeBps: fee.feeBps });
     } catch (err) {
       res.status(500).json({ message: "Jupiter quote failed" });
     }
@@ -851,13 +927,50 @@ export async function registerRoutes(
 
   app.post("/api/jupiter/swap", async (req, res) => {
     try {
+      const { quoteResponse, userPublicKey, feeAccount: _clientFeeAccount, ...options } = req.body || {};
+      if (!quoteResponse?.inputMint || !quoteResponse?.outputMint || !userPublicKey) {
+        return res.status(400).json({ message: "Missing required params: quoteResponse, userPublicKey" });
+      }
+
+      // The fee is never taken from the client: the quote has to carry the
+      // rate of the caller's plan, and the fee account is filled in here.
+      const userId = (req.session as any)?.userId;
+      const fee = await resolveJupiterFee(userId, quoteResponse.inputMint, quoteResponse.outputMint);
+      const quotedBps = Number(quoteResponse.platformFee?.feeBps ?? 0);
+      if (quotedBps !== fee.feeBps) {
+        return res.status(400).json({ message: "Quote fee does not match your plan. Refresh the quote and try again." });
+      }
+
       const resp = await fetch(`${JUPITER_API}/swap`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(req.body),
+        body: JSON.stringify({ ...options, quoteResponse, userPublicKey, ...(fee.feeAccount ? { feeAccount: fee.feeAccount } : {}) }),
       });
       const data = await resp.json();
-      res.json(data);
+      if (!data.swapTransaction) return res.json(data);
+
+      const isBuy = quoteResponse.inputMint === SOL_MINT;
+      const feeOnInput = fee.feeMint === quoteResponse.inputMint;
+      const feeAmount = fee.feeBps > 0
+        ? (feeOnInput ? feeFromAmount(BigInt(quoteResponse.inAmount), fee.feeBps) : BigInt(quoteResponse.platformFee?.amount ?? 0))
+        : BigInt(0);
+      const entry = await recordSwapFee({
+        userId: userId ?? null,
+        chain: "solana",
+        venue: "jupiter",
+        side: isBuy ? "buy" : "sell",
+        tier: fee.tier,
+        feeBps: fee.feeBps,
+        tokenAddress: isBuy ? quoteResponse.outputMint : quoteResponse.inputMint,
+        traderAddress: String(userPublicKey),
+        tradeAmountRaw: String(quoteResponse.inAmount ?? "0"),
+        feeAsset: fee.feeMint ?? SOL_MINT,
+        feeDecimals: 9,
+        feeAmountRaw: feeAmount.toString(),
+        feeRecipient: fee.feeAccount,
+        reason: fee.waivedReason,
+      });
+      res.json({ ...data, feeLedgerId: entry.id, feeConfirmToken: entry.confirmToken, feeBps: fee.feeBps });
     } catch (err) {
       res.status(500).json({ message: "Jupiter swap failed" });
     }
@@ -984,7 +1097,10 @@ export async function registerRoutes(
       const tokenDecimals = await fetchTokenDecimals(String(tokenAddress), config.rpc);
       const isBuy = String(side) !== "sell";
       const inputDecimals = isBuy ? 18 : tokenDecimals;
-      const amountWei = BigInt(Math.round(parseFloat(String(amount)) * Math.pow(10, inputDecimals)));
+      const grossWei = BigInt(Math.round(parseFloat(String(amount)) * Math.pow(10, inputDecimals)));
+      const fee = await getSwapFee((req.session as any)?.userId);
+      // Buys pay the fee out of the native input, sells out of the native output.
+      const amountWei = isBuy ? grossWei - feeFromAmount(grossWei, fee.feeBps) : grossWei;
       const path = isBuy
         ? [config.weth, String(tokenAddress)]
         : [String(tokenAddress), config.weth];
@@ -1022,11 +1138,15 @@ export async function registerRoutes(
       }
 
       const outputDecimals = isBuy ? tokenDecimals : 18;
+      const feeAmount = isBuy ? grossWei - amountWei : feeFromAmount(BigInt(estimatedOutput), fee.feeBps);
       res.json({
         chain: String(chain),
         dex: config.name,
         inputAmount: amountWei.toString(),
         estimatedOutput,
+        tier: fee.tier,
+        feeBps: fee.feeBps,
+        feeAmount: feeAmount.toString(),
         path,
         router: config.router,
         chainId: config.chainId,
@@ -1056,7 +1176,10 @@ export async function registerRoutes(
       const tokenDecimals = await fetchTokenDecimals(String(tokenAddress), config.rpc);
       const isBuy = String(side) !== "sell";
       const inputDecimals = isBuy ? 18 : tokenDecimals;
-      const amountWei = BigInt(Math.round(parseFloat(String(amount)) * Math.pow(10, inputDecimals)));
+      const grossWei = BigInt(Math.round(parseFloat(String(amount)) * Math.pow(10, inputDecimals)));
+      const userId = (req.session as any)?.userId;
+      const fee = await getSwapFee(userId);
+      const amountWei = isBuy ? grossWei - feeFromAmount(grossWei, fee.feeBps) : grossWei;
       const deadline = BigInt(Math.floor(Date.now() / 1000) + 1200); // 20 min
 
       const path = isBuy
@@ -1096,14 +1219,14 @@ export async function registerRoutes(
       let txData: string;
       let txValue: string;
       let txTo: string;
-      const transactions: Array<{ to: string; data: string; value: string }> = [];
+      const transactions: Array<{ to: string; data: string; value: string; kind: "approve" | "swap" | "fee" }> = [];
 
       if (isBuy) {
         // Buy: swapExactETHForTokens - send ETH, receive tokens
         txData = encodeSwapETHForTokens(amountOutMin, path, String(userAddress), deadline);
         txTo = config.router;
         txValue = "0x" + amountWei.toString(16);
-        transactions.push({ to: txTo, data: txData, value: txValue });
+        transactions.push({ to: txTo, data: txData, value: txValue, kind: "swap" });
       } else {
         // Sell: need to approve token first, then swapExactTokensForETH
         const maxApproval = BigInt("0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff");
@@ -1112,6 +1235,7 @@ export async function registerRoutes(
           to: String(tokenAddress),
           data: approveData,
           value: "0x0",
+          kind: "approve",
         });
 
         txData = encodeSwapTokensForETH(amountWei, amountOutMin, path, String(userAddress), deadline);
@@ -1119,12 +1243,43 @@ export async function registerRoutes(
           to: config.router,
           data: txData,
           value: "0x0",
+          kind: "swap",
         });
       }
 
+      // The fee goes out as a plain native transfer after the swap. On sells it
+      // is based on the slippage-protected minimum so the swap always covers it.
+      const { PLATFORM_PAYMENT_ADDRESSES } = await import("./crypto-prices");
+      const feeRecipient = PLATFORM_PAYMENT_ADDRESSES[String(chain)];
+      const feeWei = isBuy ? grossWei - amountWei : feeFromAmount(amountOutMin, fee.feeBps);
+      if (feeWei > BigInt(0)) {
+        transactions.push({ to: feeRecipient, data: "0x", value: "0x" + feeWei.toString(16), kind: "fee" });
+      }
+      const entry = await recordSwapFee({
+        userId: userId ?? null,
+        chain: String(chain),
+        venue: "evm",
+        side: isBuy ? "buy" : "sell",
+        tier: fee.tier,
+        feeBps: feeWei > BigInt(0) ? fee.feeBps : 0,
+        tokenAddress: String(tokenAddress),
+        traderAddress: String(userAddress),
+        tradeAmountRaw: grossWei.toString(),
+        feeAsset: "native",
+        feeDecimals: 18,
+        feeAmountRaw: feeWei.toString(),
+        feeRecipient,
+        reason: feeWei > BigInt(0) ? null : "Fee rounds to zero",
+      });
+
       const outputDecimals = isBuy ? tokenDecimals : 18;
       res.json({
         transactions,
+        feeLedgerId: entry.id,
+        feeConfirmToken: entry.confirmToken,
+        tier: fee.tier,
+        feeBps: fee.feeBps,
+        feeAmount: feeWei.toString(),
         chain: String(chain),
         chainId: config.chainId,
         dex: config.name,
@@ -1139,8 +1294,59 @@ export async function registerRoutes(
     }
   });
 
+  // ── Swap Fee Ledger ──
+
+  app.get("/api/fees", isAuthenticated, async (req, res) => {
+    try {
+      const entries = await storage.getFeeLedger((req.session as any).userId);
+      res.json(entries);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch fee ledger" });
+    }
+  });
+
+  // Called by the client once the swap (Solana) or fee transfer (EVM) has
+  // been sent; the entry is settled against the chain from here on.
+  app.post("/api/fees/:id/confirm", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      const { txHash, confirmToken } = req.body || {};
+      if (!txHash || typeof txHash !== "string") return res.status(400).json({ message: "txHash is required" });
+
+      // Swaps can be built signed out, so the token returned with the build is
+      // what proves the caller built it. A signed-in owner must also match.
+      const entry = await storage.getFeeLedgerEntry(id);
+      if (!entry) return res.status(404).json({ message: "Fee entry not found" });
+      if (!isFeeConfirmToken(entry, confirmToken)) return res.status(403).json({ message: "Unauthorized" });
+      if (entry.userId && entry.userId !== (req.session as any)?.userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (entry.status !== "built") return res.status(409).json({ message: `Fee entry is already ${entry.status}` });
+
+      const hash = normalizeTxHash(entry.chain, txHash);
+      if (await storage.isFeeTxHashUsed(hash, entry.id)) {
+        return res.status(409).json({ message: "Transaction already recorded for another fee" });
+      }
+
+      const submitted = await storage.updateFeeLedgerEntry(entry.id, { status: "submitted", txHash: hash });
+      const settled = await settleFeeEntry(submitted);
+      res.json(settled);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to confirm fee" });
+    }
+  });
+
   // ── Subscription & Payment Routes ──
 
+  app.get("/api/entitlements", isAuthenticated, async (req, res) => {
+    try {
+      const entitlements = await getEntitlements((req.session as any).userId);
+      res.json(entitlements);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch entitlements" });
+    }
+  });
+
   app.get("/api/subscriptions/me", isAuthenticated, async (req, res) => {
     try {
       const userId = (req.session as any).userId;
@@ -1148,8 +1354,7 @@ export async function registerRoutes(
       const activeSub = await storage.getUserActiveSubscription(userId);
       const graceSub = !activeSub ? await storage.getUserSubscriptionIncludingGrace(userId) : null;
       const sub = activeSub || graceSub;
-      const allAgents = await storage.getAiAgents();
-      const userAgents = allAgents.filter((a: any) => a.userId === userId);
+      const userAgents = await storage.getAiAgents(userId);
       const { TIER_LIMITS } = await import("./crypto-prices");
       const effectiveTier = promoAccess.hasAccess ? promoAccess.tier : sub?.tier || "free";
       const limits = TIER_LIMITS[effectiveTier] || TIER_LIMITS["free"];
@@ -1207,7 +1412,7 @@ export async function registerRoutes(
     try {
       const userId = (req.session as any).userId;
       const createPaymentSchema = z.object({
-        tier: z.enum(["basic", "pro", "whale"]),
+        tier: z.enum(PAID_TIER_IDS),
         chain: z.enum(["solana", "ethereum", "base", "bsc", "tron"]),
       });
       const parsed = createPaymentSchema.safeParse(req.body);
@@ -1219,25 +1424,37 @@ export async function registerRoutes(
       if (!usdPrice) return res.status(400).json({ message: "Invalid tier" });
 
       const cryptoPrice = await getChainPrice(chain);
-      const amountRequired = usdToCrypto(usdPrice, cryptoPrice);
+      const baseAmount = usdToCrypto(usdPrice, cryptoPrice);
       const currency = getCurrencySymbol(chain);
       const paymentAddress = PLATFORM_PAYMENT_ADDRESSES[chain];
       if (!paymentAddress) return res.status(400).json({ message: "Unsupported chain" });
 
       const expiresAt = new Date(Date.now() + 30 * 60 * 1000);
 
-      const payment = await storage.createSubscriptionPayment({
-        userId,
-        tier,
-        chain,
-        paymentAddress,
-        amountRequiredUsd: usdPrice,
-        amountRequiredCrypto: amountRequired,
-        currency,
-        txHash: null,
-        status: "pending",
-        expiresAt,
-      });
+      // The amount identifies the payment, so it must not match another
+      // reserved one; on a collision, draw another tag.
+      let payment: SubscriptionPayment | undefined;
+      for (let attempt = 0; attempt < 5 && !payment; attempt++) {
+        try {
+          payment = await storage.createSubscriptionPayment({
+            userId,
+            tier,
+            chain,
+            paymentAddress,
+            amountRequiredUsd: usdPrice,
+            amountRequiredCrypto: taggedPaymentAmount(chain, baseAmount),
+            currency,
+            txHash: null,
+            status: "pending",
+            amountReserved: true,
+            expiresAt,
+          });
+        } catch (err: any) {
+          if (err?.code !== "23505") throw err;
+        }
+      }
+      if (!payment) return res.status(503).json({ message: "Could not reserve a payment amount. Please try again." });
+      const amountRequired = payment.amountRequiredCrypto;
 
       res.json({
         paymentId: payment.id,
@@ -1262,49 +1479,32 @@ export async function registerRoutes(
       });
       const parsed = verifySchema.safeParse(req.body);
       if (!parsed.success) return res.status(400).json({ message: "Invalid paymentId or txHash", errors: parsed.error.flatten() });
-      const { paymentId, txHash } = parsed.data;
+      const { paymentId, txHash: rawTxHash } = parsed.data;
 
       const payment = await storage.getSubscriptionPayment(paymentId);
       if (!payment) return res.status(404).json({ message: "Payment not found" });
       if (payment.userId !== userId) return res.status(403).json({ message: "Unauthorized" });
       if (payment.status === "confirmed") return res.status(400).json({ message: "Payment already confirmed" });
-      if (payment.expiresAt && new Date(payment.expiresAt) < new Date()) return res.status(400).json({ message: "Payment expired. Please create a new payment." });
 
-      await storage.updateSubscriptionPayment(payment.id, {
+      const txHash = normalizeTxHash(payment.chain, rawTxHash);
+      const recheck = payment.status === "confirming" && payment.txHash === txHash;
+      if (!recheck) {
+        if (payment.status !== "pending") return res.status(400).json({ message: `Payment is ${payment.status}. Use retry instead.` });
+        if (payment.expiresAt && new Date(payment.expiresAt) < new Date()) return res.status(400).json({ message: "Payment expired. Please create a new payment." });
+        if (await storage.isPaymentTxHashUsed(txHash, payment.id)) return res.status(409).json({ message: "This transaction has already been used for a payment" });
+      }
+
+      const confirming = recheck ? payment : await storage.updateSubscriptionPayment(payment.id, {
         txHash,
-        status: "confirmed",
-        amountReceived: payment.amountRequiredCrypto,
-        confirmedAt: new Date(),
+        status: "confirming",
+        failureReason: null,
+        expiresAt: new Date(Date.now() + CONFIRMATION_WINDOW_MS),
       });
 
-      const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
-      const existing = await storage.getUserActiveSubscription(userId);
-      if (existing) {
-        const newExpiry = new Date(Math.max(existing.expiresAt.getTime(), Date.now()) + 30 * 24 * 60 * 60 * 1000);
-        await storage.updateSubscription(existing.id, {
-          tier: payment.tier,
-          expiresAt: newExpiry,
-          paymentTxHash: txHash,
-          amountPaid: payment.amountRequiredCrypto,
-          currency: payment.currency,
-          chain: payment.chain,
-        });
-      } else {
-        await storage.createSubscription({
-          userId,
-          tier: payment.tier,
-          status: "active",
-          chain: payment.chain,
-          amountPaid: payment.amountRequiredCrypto,
-          currency: payment.currency,
-          paymentTxHash: txHash,
-          startedAt: new Date(),
-          expiresAt,
-        });
-      }
-
-      const sub = await storage.getUserActiveSubscription(userId);
-      res.json({ success: true, subscription: sub });
+      const result = await settlePayment(confirming);
+      if (result.status === "failed") return res.status(400).json({ message: result.reason || "Payment verification failed" });
+      if (result.status === "confirming") return res.status(202).json({ success: false, status: "confirming", message: result.reason });
+      res.json({ success: true, status: "confirmed", subscription: result.subscription });
     } catch (err: any) {
       res.status(500).json({ message: err.message || "Failed to verify payment" });
     }
@@ -1329,67 +1529,32 @@ export async function registerRoutes(
       });
       const parsed = retrySchema.safeParse(req.body);
       if (!parsed.success) return res.status(400).json({ message: "Invalid paymentId or txHash", errors: parsed.error.flatten() });
-      const { paymentId, txHash } = parsed.data;
+      const { paymentId, txHash: rawTxHash } = parsed.data;
 
       const payment = await storage.getSubscriptionPayment(paymentId);
       if (!payment) return res.status(404).json({ message: "Payment not found" });
       if (payment.userId !== userId) return res.status(403).json({ message: "Unauthorized" });
       if (payment.status === "confirmed") return res.status(400).json({ message: "Payment already confirmed" });
+      if (payment.status === "confirming") return res.status(400).json({ message: "Payment is already being confirmed on-chain" });
       if ((payment.retryCount ?? 0) >= 5) return res.status(400).json({ message: "Maximum retry attempts reached. Please create a new payment." });
+      // Without its amount the transfer could belong to another payment.
+      if (!payment.amountReserved) return res.status(400).json({ message: "This payment can no longer be retried. Please create a new payment." });
 
-      const newExpiry = new Date(Date.now() + 30 * 60 * 1000);
+      const txHash = normalizeTxHash(payment.chain, rawTxHash);
+      if (await storage.isPaymentTxHashUsed(txHash, payment.id)) return res.status(409).json({ message: "This transaction has already been used for a payment" });
 
-      await storage.updateSubscriptionPayment(payment.id, {
+      const confirming = await storage.updateSubscriptionPayment(payment.id, {
         txHash,
-        status: "pending",
+        status: "confirming",
         failureReason: null,
         retryCount: (payment.retryCount ?? 0) + 1,
-        expiresAt: newExpiry,
-      });
-
-      await storage.updateSubscriptionPayment(payment.id, {
-        txHash,
-        status: "confirmed",
-        amountReceived: payment.amountRequiredCrypto,
-        confirmedAt: new Date(),
-        retryCount: (payment.retryCount ?? 0) + 1,
+        expiresAt: new Date(Date.now() + CONFIRMATION_WINDOW_MS),
       });
 
-      const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
-      const existing = await storage.getUserActiveSubscription(userId);
-      const existingGrace = await storage.getUserSubscriptionIncludingGrace(userId);
-      const sub = existing || existingGrace;
-
-      if (sub) {
-        const newExpiry = new Date(Math.max(sub.expiresAt.getTime(), Date.now()) + 30 * 24 * 60 * 60 * 1000);
-        await storage.updateSubscription(sub.id, {
-          tier: payment.tier,
-          status: "active",
-          expiresAt: newExpiry,
-          paymentTxHash: txHash,
-          amountPaid: payment.amountRequiredCrypto,
-          currency: payment.currency,
-          chain: payment.chain,
-          renewalFailures: 0,
-          lastFailureReason: null,
-          gracePeriodEndsAt: null,
-        });
-      } else {
-        await storage.createSubscription({
-          userId,
-          tier: payment.tier,
-          status: "active",
-          chain: payment.chain,
-          amountPaid: payment.amountRequiredCrypto,
-          currency: payment.currency,
-          paymentTxHash: txHash,
-          startedAt: new Date(),
-          expiresAt,
-        });
-      }
-
-      const activeSub = await storage.getUserActiveSubscription(userId);
-      res.json({ success: true, subscription: activeSub });
+      const result = await settlePayment(confirming);
+      if (result.status === "failed") return res.status(400).json({ message: result.reason || "Payment verification failed" });
+      if (result.status === "confirming") return res.status(202).json({ success: false, status: "confirming", message: result.reason });
+      res.json({ success: true, status: "confirmed", subscription: result.subscription });
     } catch (err: any) {
       res.status(500).json({ message: err.message || "Failed to retry payment" });
     }
@@ -1447,7 +1612,7 @@ export async function registerRoutes(
     try {
       const schema = z.object({
         code: z.string().min(3).max(32),
-        tier: z.enum(["basic", "pro", "whale"]).default("pro"),
+        tier: z.enum(PAID_TIER_IDS).default("pro"),
         maxUses: z.literal(1).default(1),
         expiresAt: z.string().datetime().optional(),
       });
@@ -1520,7 +1685,7 @@ export async function registerRoutes(
       const schema = z.object({
         isActive: z.boolean().optional(),
         maxUses: z.number().int().min(1).optional(),
-        tier: z.enum(["basic", "pro", "whale"]).optional(),
+        tier: z.enum(PAID_TIER_IDS).optional(),
       });
       const updates = schema.parse(req.body);
       const updated = await storage.updatePromoCode(id, updates);
@@ -1542,20 +1707,7 @@ export async function registerRoutes(
 
   // ── Subscription Guard Helpers ──
   async function getUserTier(req: any): Promise<{ tier: string; limits: import("./crypto-prices").TierLimits }> {
-    const userId = (req.session as any)?.userId;
-    const { TIER_LIMITS } = await import("./crypto-prices");
-    if (!userId) return { tier: "free", limits: TIER_LIMITS["free"] };
-
-    const promoAccess = await storage.hasActivePromoAccess(userId);
-    if (promoAccess.hasAccess) {
-      const tier = promoAccess.tier || "whale";
-      return { tier, limits: TIER_LIMITS[tier] || TIER_LIMITS["whale"] };
-    }
-
-    const activeSub = await storage.getUserActiveSubscription(userId);
-    const sub = activeSub || await storage.getUserSubscriptionIncludingGrace(userId);
-    if (!sub) return { tier: "free", limits: TIER_LIMITS["free"] };
-    return { tier: sub.tier, limits: TIER_LIMITS[sub.tier] || TIER_LIMITS["free"] };
+    return resolveUserTier((req.session as any)?.userId);
   }
 
   async function checkSubscription(req: any, res: any): Promise<{ tier: string; limits: import("./crypto-prices").TierLimits } | null> {
@@ -1586,6 +1738,82 @@ export async function registerRoutes(
     };
   }
 
+  // Like requireFeature, but also counts the user's live resources against
+  // the tier quota before letting a create through.
+  function requireQuota(quotaKey: QuotaKey, featureLabel: string, unitLabel: string) {
+    return async (req: any, res: any, next: any) => {
+      try {
+        const quota = await checkQuota((req.session as any).userId, quotaKey);
+        if (quota.limit === 0) {
+          const upgradeMsg = quota.tier === "free"
+            ? `Subscribe to unlock ${featureLabel}.`
+            : `Upgrade your plan to access ${featureLabel}.`;
+          return res.status(403).json({ message: upgradeMsg, code: "FEATURE_LOCKED", feature: quotaKey, currentTier: quota.tier });
+        }
+        if (!quota.allowed) {
+          return res.status(403).json({ message: quotaExceededMessage(quota, unitLabel), code: "LIMIT_REACHED", feature: quotaKey, used: quota.used, limit: quota.limit });
+        }
+        (req as any).tierInfo = { tier: quota.tier, limits: quota.limits };
+        next();
+      } catch {
+        res.status(500).json({ message: "Failed to check subscription" });
+      }
+    };
+  }
+
+  function quotaExceededMessage(quota: { tier: string; limit: number }, unitLabel: string): string {
+    return `Your ${quota.tier} plan allows ${quota.limit} active ${unitLabel}. Upgrade for more.`;
+  }
+
+  // An edit that makes a row count against its quota again (re-enabling a
+  // paused rule, re-arming an alert, reopening an order) takes a slot just
+  // like creating one.
+  async function checkReenable<T>(req: any, res: any, current: T, updates: Partial<T>, quotaKey: CountedQuotaKey, unitLabel: string): Promise<boolean> {
+    const counted = countsTowardQuota[quotaKey] as (row: T) => boolean;
+    if (counted(current) || !counted({ ...current, ...updates })) return true;
+    const quota = await checkQuota((req.session as any).userId, quotaKey);
+    if (quota.allowed) return true;
+    res.status(403).json({ message: quotaExceededMessage(quota, unitLabel), code: "LIMIT_REACHED", feature: quotaKey, used: quota.used, limit: quota.limit });
+    return false;
+  }
+
+  // Parses a PATCH body down to the fields its schema lets the owner edit;
+  // anything else (ids, owner, engine-managed status) is dropped.
+  function parseUpdate<T extends z.ZodTypeAny>(res: any, schema: T, body: unknown): z.infer<T> | null {
+    const parsed = schema.safeParse(body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid request" });
+      return null;
+    }
+    if (Object.keys(parsed.data).length === 0) {
+      res.status(400).json({ message: "No editable fields in request" });
+      return null;
+    }
+    return parsed.data;
+  }
+
+  async function alertChannelError(alert: { channels?: string[] | null; webhookUrl?: string | null }): Promise<string | null> {
+    const available = getAlertChannelNames();
+    const unknownChannels = (alert.channels || []).filter(c => !available.includes(c));
+    if (unknownChannels.length > 0) return `Notification channel(s) not available: ${unknownChannels.join(", ")}`;
+    if (!alert.channels?.includes("webhook")) return null;
+    if (!alert.webhookUrl) return "A valid http(s) webhook URL is required for webhook alerts";
+    return webhookUrlError(alert.webhookUrl);
+  }
+
+  async function findOwned<T extends { userId: string | null }>(req: any, res: any, lookup: (id: number) => Promise<T | undefined>, label: string): Promise<T | null> {
+    const item = await lookup(parseInt(req.params.id as string));
+    if (!item) {
+      res.status(404).json({ message: `${label} not found` });
+      return null;
+    }
+    if (item.userId !== (req.session as any).userId) {
+      res.status(403).json({ message: "Unauthorized" });
+      return null;
+    }
+    return item;
+  }
+
   // ── AI Agent Routes (subscription-gated) ──
 
   app.get("/api/signal-performance", async (req, res) => {
@@ -1693,9 +1921,31 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/ai-agents", isAuthenticated, async (_req, res) => {
+  const agentStrategySchema = z.object({ customStrategyId: z.number().int().nullable().optional() });
+
+  // Agents run the latest version of a custom strategy as of when it is
+  // picked, on top of the version's base preset.
+  async function pinCustomStrategy(res: any, userId: string, customStrategyId: number): Promise<{ strategy: string; customStrategyVersionId: number } | null> {
+    const strategy = await storage.getCustomStrategy(customStrategyId);
+    const version = strategy && strategy.userId === userId ? await storage.getLatestCustomStrategyVersion(strategy.id) : undefined;
+    if (!version) {
+      res.status(404).json({ message: "Custom strategy not found" });
+      return null;
+    }
+    return { strategy: version.baseStrategy, customStrategyVersionId: version.id };
+  }
+
+  // A tripped kill switch keeps every agent stopped until the owner resets it.
+  async function killSwitchBlocks(res: any, userId: string): Promise<boolean> {
+    const risk = await storage.getAgentRiskSettings(userId);
+    if (!risk?.killSwitchActive) return false;
+    res.status(409).json({ message: `Kill switch active: ${risk.killSwitchReason}. Reset it before starting agents.`, code: "KILL_SWITCH_ACTIVE" });
+    return true;
+  }
+
+  app.get("/api/ai-agents", isAuthenticated, async (req, res) => {
     try {
-      const agents = await storage.getAiAgents();
+      const agents = await storage.getAiAgents((req.session as any).userId);
       res.json(agents);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch AI agents" });
@@ -1704,8 +1954,8 @@ export async function registerRoutes(
 
   app.get("/api/ai-agents/:id", isAuthenticated, async (req, res) => {
     try {
-      const agent = await storage.getAiAgent(parseInt(req.params.id as string));
-      if (!agent) return res.status(404).json({ message: "Agent not found" });
+      const agent = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!agent) return;
       res.json(agent);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch agent" });
@@ -1717,15 +1967,25 @@ export async function registerRoutes(
       const subCheck = await checkSubscription(req, res);
       if (!subCheck) return;
 
-      const agents = await storage.getAiAgents();
-      if (agents.length >= subCheck.limits.maxAgents) {
+      const userId = (req.session as any).userId;
+      const quota = await checkQuota(userId, "maxAgents");
+      if (!quota.allowed) {
         return res.status(403).json({
-          message: `Your ${subCheck.tier} plan allows ${subCheck.limits.maxAgents} agent(s). Upgrade for more.`,
+          message: `Your ${quota.tier} plan allows ${quota.limit} agent(s). Upgrade for more.`,
           code: "AGENT_LIMIT_REACHED",
         });
       }
 
-      const parsed = insertAiAgentSchema.parse(req.body);
+      const parsed = insertAiAgentSchema.parse({ ...req.body, userId, customStrategyVersionId: null });
+      const { customStrategyId } = agentStrategySchema.parse(req.body);
+      if (customStrategyId != null) {
+        const pinned = await pinCustomStrategy(res, userId, customStrategyId);
+        if (!pinned) return;
+        Object.assign(parsed, pinned);
+      }
+      if (parsed.executionMode === "live" && !(await storage.getGeneratedWallet(userId, parsed.chain || "solana"))) {
+        return res.status(400).json({ message: `Live mode trades from your ${parsed.chain || "solana"} wallet. Generate one first.` });
+      }
       const agent = await storage.createAiAgent({
         ...parsed,
         maxDailyTrades: Math.min(parsed.maxDailyTrades ?? 10, subCheck.limits.maxDailyTrades),
@@ -1738,9 +1998,42 @@ export async function registerRoutes(
 
   app.patch("/api/ai-agents/:id", isAuthenticated, async (req, res) => {
     try {
+      const owned = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!owned) return;
       const partialSchema = insertAiAgentSchema.partial();
       const parsed = partialSchema.parse(req.body);
-      const agent = await storage.updateAiAgent(parseInt(req.params.id as string), parsed);
+      delete parsed.customStrategyVersionId;
+      const { customStrategyId } = agentStrategySchema.parse(req.body);
+      if (customStrategyId != null) {
+        const pinned = await pinCustomStrategy(res, (req.session as any).userId, customStrategyId);
+        if (!pinned) return;
+        Object.assign(parsed, pinned);
+      } else if (customStrategyId === null || parsed.strategy) {
+        // Picking a preset unpins the custom strategy.
+        parsed.customStrategyVersionId = null;
+      }
+      if (parsed.executionMode && parsed.executionMode !== owned.executionMode) {
+        // A paper position has no tokens in the wallet for a live agent to
+        // sell, so the mode can only change once the agent is flat.
+        const open = await storage.getAgentPositions(owned.id, "open");
+        if (open.length > 0) {
+          return res.status(409).json({ message: "Close all open positions before switching between paper and live mode" });
+        }
+        const chain = parsed.chain || owned.chain || "solana";
+        if (parsed.executionMode === "live" && !(await storage.getGeneratedWallet((req.session as any).userId, chain))) {
+          return res.status(400).json({ message: `Live mode trades from your ${chain} wallet. Generate one first.` });
+        }
+      }
+      const { limits } = await getUserTier(req);
+      if (parsed.status === "running" && owned.status !== "running") {
+        if (await killSwitchBlocks(res, (req.session as any).userId)) return;
+        const quota = await checkAgentStart((req.session as any).userId, owned.id);
+        if (!quota.allowed) {
+          return res.status(403).json({ message: `Your ${quota.tier} plan allows ${quota.limit} running agent(s). Stop another agent or upgrade.`, code: "AGENT_LIMIT_REACHED" });
+        }
+      }
+      if (parsed.maxDailyTrades != null) parsed.maxDailyTrades = Math.min(parsed.maxDailyTrades, limits.maxDailyTrades);
+      const agent = await storage.updateAiAgent(owned.id, { ...parsed, userId: owned.userId });
       res.json(agent);
     } catch (err: any) {
       res.status(400).json({ message: err.message || "Invalid request" });
@@ -1749,7 +2042,9 @@ export async function registerRoutes(
 
   app.delete("/api/ai-agents/:id", isAuthenticated, async (req, res) => {
     try {
-      await storage.deleteAiAgent(parseInt(req.params.id as string));
+      const agent = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!agent) return;
+      await storage.deleteAiAgent(agent.id);
       res.json({ success: true });
     } catch (err) {
       res.status(500).json({ message: "Failed to delete agent" });
@@ -1761,9 +2056,17 @@ export async function registerRoutes(
       const subCheck = await checkSubscription(req, res);
       if (!subCheck) return;
 
-      const agent = await storage.getAiAgent(parseInt(req.params.id as string));
-      if (!agent) return res.status(404).json({ message: "Agent not found" });
-      const updated = await storage.updateAiAgent(agent.id, { status: "running" });
+      const agent = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!agent) return;
+      if (await killSwitchBlocks(res, (req.session as any).userId)) return;
+      const quota = await checkAgentStart((req.session as any).userId, agent.id);
+      if (!quota.allowed) {
+        return res.status(403).json({ message: `Your ${quota.tier} plan allows ${quota.limit} running agent(s). Stop another agent or upgrade.`, code: "AGENT_LIMIT_REACHED" });
+      }
+      const updated = await storage.updateAiAgent(agent.id, {
+        status: "running",
+        maxDailyTrades: Math.min(agent.maxDailyTrades ?? 10, subCheck.limits.maxDailyTrades),
+      });
       res.json(updated);
     } catch (err) {
       res.status(500).json({ message: "Failed to start agent" });
@@ -1772,8 +2075,8 @@ export async function registerRoutes(
 
   app.post("/api/ai-agents/:id/stop", isAuthenticated, async (req, res) => {
     try {
-      const agent = await storage.getAiAgent(parseInt(req.params.id as string));
-      if (!agent) return res.status(404).json({ message: "Agent not found" });
+      const agent = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!agent) return;
       const updated = await storage.updateAiAgent(agent.id, { status: "stopped" });
       res.json(updated);
     } catch (err) {
@@ -1783,7 +2086,9 @@ export async function registerRoutes(
 
   app.get("/api/ai-agents/:id/trades", isAuthenticated, async (req, res) => {
     try {
-      const trades = await storage.getAgentTrades(parseInt(req.params.id as string));
+      const agent = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!agent) return;
+      const trades = await storage.getAgentTrades(agent.id);
       res.json(trades);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch agent trades" });
@@ -1792,28 +2097,66 @@ export async function registerRoutes(
 
   app.get("/api/ai-agents/:id/logs", isAuthenticated, async (req, res) => {
     try {
-      const logs = await storage.getAgentLogs(parseInt(req.params.id as string));
+      const agent = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!agent) return;
+      const logs = await storage.getAgentLogs(agent.id);
       res.json(logs);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch agent logs" });
     }
   });
 
+  app.get("/api/ai-agents/:id/logs/:logId/explanation", isAuthenticated, async (req, res) => {
+    try {
+      const agent = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!agent) return;
+      const row = await storage.getDecisionExplanation(parseInt(req.params.logId as string));
+      if (!row || row.agentId !== agent.id) {
+        return res.status(404).json({ message: "No explanation recorded for this decision" });
+      }
+      res.json({ logId: row.logId, createdAt: row.createdAt, ...(await loadDecisionExplanation(row)) });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch decision explanation" });
+    }
+  });
+
   app.get("/api/ai-agents/:id/positions", isAuthenticated, async (req, res) => {
     try {
+      const agent = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!agent) return;
       const status = req.query.status as string | undefined;
-      const positions = await storage.getAgentPositions(parseInt(req.params.id as string), status);
+      const positions = await storage.getAgentPositions(agent.id, status);
       res.json(positions);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch agent positions" });
     }
   });
 
+  app.get("/api/ai-agents/:id/usage", isAuthenticated, async (req, res) => {
+    try {
+      const agent = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!agent) return;
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 7, 1), 90);
+      const now = Date.now();
+      const rows = await storage.getDecisionUsage(agent.id, usageDay(now - (days - 1) * 24 * 60 * 60 * 1000));
+      const today = rows.filter(r => r.day === usageDay(now));
+      res.json({
+        provider: agent.decisionProvider,
+        dailyTokenBudget: agent.dailyTokenBudget,
+        tokensToday: today.reduce((sum, r) => sum + r.promptTokens + r.completionTokens, 0),
+        days: rows,
+      });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch decision usage" });
+    }
+  });
+
   app.get("/api/ai-agents/:id/positions/summary", isAuthenticated, async (req, res) => {
     try {
-      const agentId = parseInt(req.params.id as string);
-      const openPositions = await storage.getAgentPositions(agentId, "open");
-      const closedPositions = await storage.getAgentPositions(agentId, "closed");
+      const agent = await findOwned(req, res, id => storage.getAiAgent(id), "Agent");
+      if (!agent) return;
+      const openPositions = await storage.getAgentPositions(agent.id, "open");
+      const closedPositions = await storage.getAgentPositions(agent.id, "closed");
 
       const totalUnrealizedPnl = openPositions.reduce((sum, p) => sum + (p.unrealizedPnl ?? 0), 0);
       const totalRealizedPnl = closedPositions.reduce((sum, p) => sum + (p.realizedPnl ?? 0), 0);
@@ -1836,6 +2179,515 @@ export async function registerRoutes(
     }
   });
 
+  // ── Agent Scheduler ──
+
+  // 503 when no instance has finished an agent cycle recently.
+  app.get("/api/scheduler/health", isAuthenticated, async (_req, res) => {
+    try {
+      const health = await getSchedulerHealth();
+      res.status(health.healthy ? 200 : 503).json(health);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch scheduler health" });
+    }
+  });
+
+  // ── Portfolio Risk ──
+
+  app.get("/api/risk", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const [settings, portfolio] = await Promise.all([
+        storage.getAgentRiskSettings(userId),
+        measurePortfolio(userId),
+      ]);
+      res.json(describeRisk(settings, portfolio));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch risk status" });
+    }
+  });
+
+  app.put("/api/risk", isAuthenticated, async (req, res) => {
+    try {
+      const parsed = riskLimitsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid risk limits" });
+      }
+      const userId = (req.session as any).userId;
+      const settings = await saveRiskLimits(userId, parsed.data);
+      res.json(describeRisk(settings, await measurePortfolio(userId)));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to save risk limits" });
+    }
+  });
+
+  app.post("/api/risk/reset", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const settings = await resetKillSwitch(userId);
+      if (!settings) return res.status(404).json({ message: "No risk limits set" });
+      res.json(describeRisk(settings, await measurePortfolio(userId)));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to reset kill switch" });
+    }
+  });
+
+  app.post("/api/risk/flatten", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const result = await flattenUserAgents(userId, data => sendToUser(userId, data));
+      res.json(result);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to flatten positions" });
+    }
+  });
+
+  // ── Custom Strategies ──
+
+  function strategyVersionValues(input: CustomStrategyInput) {
+    return {
+      baseStrategy: input.baseStrategy,
+      entryRule: input.entryRule,
+      exitLadder: JSON.stringify(input.exitLadder),
+      maxPositions: input.maxPositions,
+      promptGuidance: input.promptGuidance || null,
+    };
+  }
+
+  app.get("/api/strategies/fields", isAuthenticated, (_req, res) => {
+    res.json(RULE_FIELDS);
+  });
+
+  app.get("/api/strategies", isAuthenticated, async (req, res) => {
+    try {
+      const strategies = await storage.getCustomStrategies((req.session as any).userId);
+      const withLatest = await Promise.all(strategies.map(async s => ({
+        ...s,
+        latest: await storage.getLatestCustomStrategyVersion(s.id),
+      })));
+      res.json(withLatest);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch strategies" });
+    }
+  });
+
+  app.post("/api/strategies", isAuthenticated, async (req, res) => {
+    try {
+      const parsed = customStrategyInputSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid request" });
+      const { strategy, version } = await storage.createCustomStrategy(
+        { userId: (req.session as any).userId, name: parsed.data.name },
+        strategyVersionValues(parsed.data),
+      );
+      res.json({ ...strategy, latest: version });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to create strategy" });
+    }
+  });
+
+  // Saving always adds a version; agents keep the version they pinned until
+  // they are pointed at the strategy again.
+  app.put("/api/strategies/:id", isAuthenticated, async (req, res) => {
+    try {
+      const owned = await findOwned(req, res, id => storage.getCustomStrategy(id), "Strategy");
+      if (!owned) return;
+      const parsed = customStrategyInputSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid request" });
+      const { strategy, version } = await storage.addCustomStrategyVersion(owned.id, strategyVersionValues(parsed.data), parsed.data.name);
+      res.json({ ...strategy, latest: version });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to save strategy" });
+    }
+  });
+
+  app.get("/api/strategies/:id/versions", isAuthenticated, async (req, res) => {
+    try {
+      const owned = await findOwned(req, res, id => storage.getCustomStrategy(id), "Strategy");
+      if (!owned) return;
+      res.json(await storage.getCustomStrategyVersions(owned.id));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch strategy versions" });
+    }
+  });
+
+  app.delete("/api/strategies/:id", isAuthenticated, async (req, res) => {
+    try {
+      const owned = await findOwned(req, res, id => storage.getCustomStrategy(id), "Strategy");
+      if (!owned) return;
+      const inUse = await storage.countAgentsUsingCustomStrategy(owned.id);
+      if (inUse > 0) return res.status(409).json({ message: `Strategy is used by ${inUse} agent(s). Switch them to another strategy first.` });
+      await storage.deleteCustomStrategy(owned.id);
+      res.json({ success: true });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to delete strategy" });
+    }
+  });
+
+  // ── Backtests ──
+
+  const candleSchema = z.object({ t: z.number(), o: z.number(), h: z.number(), l: z.number(), c: z.number(), v: z.number() });
+  const backtestSchema = z.object({
+    agentId: z.number().int().optional(),
+    strategy: z.string().refine(s => s in STRATEGY_PROMPTS, "Unknown strategy").default("balanced"),
+    // Runs the latest version; takes precedence over `strategy`.
+    customStrategyId: z.number().int().optional(),
+    chain: z.string().default("solana"),
+    maxPositionSize: z.number().positive().default(1),
+    stopLossPercent: z.number().positive().max(100).default(15),
+    takeProfitPercent: z.number().positive().default(50),
+    maxDailyTrades: z.number().int().positive().max(1000).default(10),
+    allowShorts: z.boolean().default(false),
+    startingBalance: z.number().positive().optional(),
+    decider: z.enum(["rule", "llm", "recorded"]).default("rule"),
+    responses: z.array(z.object({
+      time: z.number(),
+      agentId: z.number().int().nullable().optional(),
+      response: z.string(),
+    })).max(5000).optional(),
+    recordedAgentId: z.number().int().optional(),
+    responseMaxAgeMs: z.number().int().positive().optional(),
+    source: z.discriminatedUnion("type", [
+      z.object({
+        type: z.literal("candles"),
+        chain: z.string().default("solana"),
+        timeframe: z.string().refine(tf => tf in GECKO_HISTORY_TIMEFRAMES, "Unsupported timeframe").default("15m"),
+        tokenCount: z.number().int().min(1).max(10).default(5),
+        bars: z.number().int().min(50).max(1000).default(300),
+      }),
+      z.object({
+        type: z.literal("series"),
+        series: z.array(z.object({
+          address: z.string(),
+          symbol: z.string(),
+          name: z.string().optional(),
+          chain: z.string(),
+          candles: z.array(candleSchema).max(5000),
+          liquidity: z.number().optional(),
+          marketCap: z.number().optional(),
+          holders: z.number().optional(),
+          safetyScore: z.number().optional(),
+          createdAt: z.string().nullable().optional(),
+        })).min(1).max(10),
+      }),
+      z.object({
+        type: z.literal("recorded"),
+        chain: z.string().default("solana"),
+        strategy: z.string().optional(),
+        from: z.string().datetime().optional(),
+        to: z.string().datetime().optional(),
+      }),
+      z.object({
+        type: z.literal("snapshots"),
+        frames: z.array(z.object({
+          time: z.number(),
+          signals: z.array(z.record(z.any())),
+          breadth: z.record(z.any()).nullable().optional(),
+        })).min(1).max(5000),
+      }),
+    ]),
+  });
+
+  function parseBacktest(backtest: Backtest, full: boolean) {
+    const parse = (value: string | null) => (value ? JSON.parse(value) : null);
+    return {
+      ...backtest,
+      config: parse(backtest.config),
+      metrics: parse(backtest.metrics),
+      attribution: parse(backtest.attribution),
+      equityCurve: full ? parse(backtest.equityCurve) : undefined,
+      trades: full ? parse(backtest.trades) : undefined,
+    };
+  }
+
+  app.post("/api/backtests", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const parsed = backtestSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid request" });
+      const body = parsed.data;
+
+      if (body.decider === "llm" && !(await checkSubscription(req, res))) return;
+      const recordedAgentId = body.recordedAgentId ?? body.agentId;
+      if (body.decider === "recorded" && !body.responses?.length && recordedAgentId == null) {
+        return res.status(400).json({ message: "Recorded decider needs responses or an agent with recorded decisions" });
+      }
+      if (isBacktestRunning(userId)) {
+        return res.status(409).json({ message: "A backtest is already running. Wait for it to finish." });
+      }
+
+      let agent: AiAgent;
+      if (body.agentId != null) {
+        const owned = await storage.getAiAgent(body.agentId);
+        if (!owned) return res.status(404).json({ message: "Agent not found" });
+        if (owned.userId !== userId) return res.status(403).json({ message: "Unauthorized" });
+        agent = owned;
+      } else {
+        agent = {
+          id: 0, name: "Backtest", walletAddress: "", chain: body.chain, strategy: body.strategy,
+          status: "running", executionMode: "paper",
+          maxPositionSize: body.maxPositionSize, stopLossPercent: body.stopLossPercent,
+          takeProfitPercent: body.takeProfitPercent, maxDailyTrades: body.maxDailyTrades,
+          riskLevel: 5, totalPnl: 0, totalTrades: 0, winRate: 0, dailyTradesUsed: 0, tradesDay: null,
+          lastTradeAt: null, userId, createdAt: new Date(), customStrategyVersionId: null,
+          decisionProvider: "rule", dailyTokenBudget: null, allowShorts: body.allowShorts,
+        };
+      }
+
+      let customStrategy: CustomStrategyVersion | undefined;
+      if (body.customStrategyId != null) {
+        const pinned = await pinCustomStrategy(res, userId, body.customStrategyId);
+        if (!pinned) return;
+        customStrategy = await storage.getCustomStrategyVersion(pinned.customStrategyVersionId);
+        agent = { ...agent, strategy: pinned.strategy };
+      } else if (agent.customStrategyVersionId != null) {
+        customStrategy = await storage.getCustomStrategyVersion(agent.customStrategyVersionId);
+      }
+
+      const backtest = await startBacktest({
+        userId,
+        agent,
+        customStrategy,
+        source: body.source as BacktestSourceSpec,
+        decider: body.decider,
+        responses: body.responses,
+        recordedAgentId,
+        responseMaxAgeMs: body.responseMaxAgeMs,
+        startingBalance: body.startingBalance,
+      });
+      res.status(202).json(parseBacktest(backtest, false));
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Failed to start backtest" });
+    }
+  });
+
+  app.get("/api/backtests", isAuthenticated, async (req, res) => {
+    try {
+      const backtests = await listBacktests((req.session as any).userId);
+      res.json(backtests.map(b => parseBacktest(b, false)));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch backtests" });
+    }
+  });
+
+  app.get("/api/backtests/:id", isAuthenticated, async (req, res) => {
+    try {
+      const backtest = await findOwned(req, res, id => storage.getBacktest(id), "Backtest");
+      if (!backtest) return;
+      res.json(parseBacktest(backtest, true));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch backtest" });
+    }
+  });
+
+  app.delete("/api/backtests/:id", isAuthenticated, async (req, res) => {
+    try {
+      await interruptStaleBacktests((req.session as any).userId);
+      const backtest = await findOwned(req, res, id => storage.getBacktest(id), "Backtest");
+      if (!backtest) return;
+      if (backtest.status === "running") return res.status(409).json({ message: "Backtest is still running" });
+      await storage.deleteBacktest(backtest.id);
+      res.json({ success: true });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to delete backtest" });
+    }
+  });
+
+  // ── Tournaments ──
+
+  const tournamentSchema = z.object({
+    name: z.string().trim().min(1).max(80).default("Tournament"),
+    chain: z.string().default("solana"),
+    durationMinutes: z.number().int().min(10).max(72 * 60).default(240),
+    entrants: z.array(z.object({
+      label: z.string().trim().min(1).max(40).optional(),
+      strategy: z.string().refine(s => s in STRATEGY_PROMPTS, "Unknown strategy"),
+      riskLevel: z.number().int().min(1).max(10).default(5),
+      stopLossPercent: z.number().positive().max(100).default(15),
+      takeProfitPercent: z.number().positive().default(50),
+      maxPositionSize: z.number().positive().default(1),
+      maxDailyTrades: z.number().int().positive().max(1000).default(10),
+      allowShorts: z.boolean().default(false),
+      decisionProvider: z.enum(AGENT_DECISION_PROVIDERS).default("rule"),
+    })).min(2, "A tournament needs at least two entrants").max(8),
+  });
+
+  function parseTournament(tournament: AgentTournament) {
+    return {
+      ...tournament,
+      entrants: JSON.parse(tournament.entrants),
+      standings: tournament.standings ? JSON.parse(tournament.standings) : null,
+    };
+  }
+
+  app.post("/api/tournaments", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const parsed = tournamentSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid request" });
+      const body = parsed.data;
+      const entrants = body.entrants.map((e, i) => ({ ...e, label: e.label ?? `${e.strategy} #${i + 1}` }));
+
+      if (usesLlm(entrants) && !(await checkSubscription(req, res))) return;
+      if ((await listTournaments(userId)).some(t => t.status === "running")) {
+        return res.status(409).json({ message: "A tournament is already running. Stop it or wait for it to finish." });
+      }
+
+      const tournament = await startTournament({
+        userId, name: body.name, chain: body.chain, durationMinutes: body.durationMinutes, entrants,
+      });
+      res.status(202).json(parseTournament(tournament));
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Failed to start tournament" });
+    }
+  });
+
+  app.get("/api/tournaments", isAuthenticated, async (req, res) => {
+    try {
+      const tournaments = await listTournaments((req.session as any).userId);
+      res.json(tournaments.map(parseTournament));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch tournaments" });
+    }
+  });
+
+  app.get("/api/tournaments/:id", isAuthenticated, async (req, res) => {
+    try {
+      const tournament = await findOwned(req, res, id => storage.getAgentTournament(id), "Tournament");
+      if (!tournament) return;
+      res.json(parseTournament(tournament));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch tournament" });
+    }
+  });
+
+  // The running instance sees the status change on its next frame and
+  // records final standings.
+  app.post("/api/tournaments/:id/stop", isAuthenticated, async (req, res) => {
+    try {
+      const tournament = await findOwned(req, res, id => storage.getAgentTournament(id), "Tournament");
+      if (!tournament) return;
+      if (tournament.status !== "running") return res.status(409).json({ message: "Tournament is not running" });
+      const updated = await storage.updateAgentTournament(tournament.id, { status: "stopped" });
+      res.json(parseTournament(updated!));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to stop tournament" });
+    }
+  });
+
+  // Copies the leader's configuration onto one of the user's agents.
+  app.post("/api/tournaments/:id/promote", isAuthenticated, async (req, res) => {
+    try {
+      const parsed = z.object({ agentId: z.number().int() }).safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ message: "agentId is required" });
+      const { agentId } = parsed.data;
+      const tournament = await findOwned(req, res, id => storage.getAgentTournament(id), "Tournament");
+      if (!tournament) return;
+      if (tournament.status === "running") return res.status(409).json({ message: "Wait for the tournament to finish before promoting" });
+      const standings: TournamentStandings | null = tournament.standings ? JSON.parse(tournament.standings) : null;
+      const winner = standings?.standings[0];
+      if (!winner) return res.status(409).json({ message: "Tournament has no standings to promote" });
+
+      const agent = await storage.getAiAgent(agentId);
+      if (!agent) return res.status(404).json({ message: "Agent not found" });
+      if (agent.userId !== tournament.userId) return res.status(403).json({ message: "Unauthorized" });
+
+      const { limits } = await getUserTier(req);
+      const config = promotedConfig(winner.config);
+      const updated = await storage.updateAiAgent(agent.id, {
+        ...config,
+        maxDailyTrades: Math.min(winner.config.maxDailyTrades, limits.maxDailyTrades),
+      });
+      await storage.createAgentLog({
+        agentId: agent.id, action: "promoted",
+        reasoning: `Promoted "${winner.label}" from tournament "${tournament.name}" (Sharpe ${winner.metrics.sharpe.toFixed(2)}, ${winner.metrics.totalReturnPct.toFixed(2)}% return${standings!.significant ? "" : ", not statistically significant"})`,
+        tokensAnalyzed: 0, decision: "promoted", confidence: 0,
+      });
+      await storage.updateAgentTournament(tournament.id, { promotedAgentId: agent.id });
+      res.json(updated);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to promote tournament winner" });
+    }
+  });
+
+  // ── Market Snapshots ──
+
+  function snapshotQuery(req: any) {
+    const schema = z.object({
+      chain: z.string().optional(),
+      strategy: z.string().optional(),
+      agentId: z.coerce.number().int().optional(),
+      from: z.string().datetime().optional(),
+      to: z.string().datetime().optional(),
+      limit: z.coerce.number().int().min(1).max(5000).default(500),
+    });
+    const q = schema.parse(req.query);
+    return {
+      ...q,
+      userId: (req.session as any).userId as string,
+      from: q.from ? new Date(q.from) : undefined,
+      to: q.to ? new Date(q.to) : undefined,
+    };
+  }
+
+  app.get("/api/snapshots", isAuthenticated, async (req, res) => {
+    try {
+      const rows = await storage.getMarketSnapshots(snapshotQuery(req));
+      res.json(rows.map(({ payload: _payload, ...meta }) => meta));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch snapshots" });
+    }
+  });
+
+  app.get("/api/snapshots/export", isAuthenticated, async (req, res) => {
+    let query;
+    try {
+      query = snapshotQuery(req);
+    } catch (err: any) {
+      return res.status(400).json({ message: err.message || "Invalid request" });
+    }
+    try {
+      res.setHeader("Content-Type", "application/x-ndjson");
+      res.setHeader("Content-Disposition", `attachment; filename="snapshots-${Date.now()}.jsonl"`);
+      for await (const line of exportSnapshotsJsonl(query)) {
+        res.write(line);
+      }
+      res.end();
+    } catch (err: any) {
+      console.error("[Snapshots] Export failed:", err.message);
+      if (!res.headersSent) res.status(500).json({ message: "Failed to export snapshots" });
+      else res.end();
+    }
+  });
+
+  app.post("/api/snapshots/import", isAuthenticated, express.text({ type: ["application/x-ndjson", "text/plain"], limit: "50mb" }), async (req, res) => {
+    try {
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "Send JSONL as application/x-ndjson" });
+      }
+      const result = await importSnapshotsJsonl((req.session as any).userId, req.body);
+      res.json(result);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to import snapshots" });
+    }
+  });
+
+  app.get("/api/snapshots/decisions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const decision = await findOwned(req, res, id => storage.getDecisionSnapshot(id), "Decision");
+      if (!decision) return;
+      const snapshot = decision.snapshotId != null ? await storage.getMarketSnapshot(decision.snapshotId) : undefined;
+      const { payload: _payload, ...meta } = decision;
+      res.json({
+        ...meta,
+        ...(await loadDecisionSnapshot(decision)),
+        snapshot: snapshot
+          ? { id: snapshot.id, chain: snapshot.chain, strategy: snapshot.strategy, capturedAt: snapshot.capturedAt, ...(await loadMarketSnapshot(snapshot)) }
+          : null,
+      });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch decision" });
+    }
+  });
+
   app.get("/api/market-signals", async (req, res) => {
     try {
       const { getMarketSignals } = await import("./ai/signal-builder");
@@ -1847,23 +2699,20 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/price-alerts", isAuthenticated, async (_req, res) => {
+  app.get("/api/price-alerts", isAuthenticated, async (req, res) => {
     try {
-      const alerts = await storage.getPriceAlerts();
+      const alerts = await storage.getPriceAlerts((req.session as any).userId);
       res.json(alerts);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch price alerts" });
     }
   });
 
-  app.post("/api/price-alerts", isAuthenticated, requireFeature("maxAlerts", "Price Alerts"), async (req, res) => {
+  app.post("/api/price-alerts", isAuthenticated, requireQuota("maxAlerts", "Price Alerts", "alert(s)"), async (req, res) => {
     try {
-      const { limits, tier } = (req as any).tierInfo;
-      const existing = await storage.getPriceAlerts();
-      if (existing.length >= limits.maxAlerts) {
-        return res.status(403).json({ message: `Your ${tier} plan allows ${limits.maxAlerts} alert(s). Upgrade for more.`, code: "LIMIT_REACHED" });
-      }
-      const parsed = insertPriceAlertSchema.parse(req.body);
+      const parsed = insertPriceAlertSchema.parse({ ...req.body, userId: (req.session as any).userId });
+      const channelError = await alertChannelError(parsed);
+      if (channelError) return res.status(400).json({ message: channelError });
       const alert = await storage.createPriceAlert(parsed);
       res.json(alert);
     } catch (err: any) {
@@ -1871,9 +2720,20 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/price-alerts/channels", isAuthenticated, async (_req, res) => {
+    res.json({ channels: getAlertChannelNames() });
+  });
+
   app.patch("/api/price-alerts/:id", isAuthenticated, async (req, res) => {
     try {
-      const alert = await storage.updatePriceAlert(parseInt(req.params.id as string), req.body);
+      const owned = await findOwned(req, res, id => storage.getPriceAlert(id), "Alert");
+      if (!owned) return;
+      const updates = parseUpdate(res, updatePriceAlertSchema, req.body);
+      if (!updates) return;
+      const channelError = await alertChannelError({ ...owned, ...updates });
+      if (channelError) return res.status(400).json({ message: channelError });
+      if (!(await checkReenable(req, res, owned, updates, "maxAlerts", "alert(s)"))) return;
+      const alert = await storage.updatePriceAlert(owned.id, updates);
       res.json(alert);
     } catch (err: any) {
       res.status(400).json({ message: err.message || "Invalid request" });
@@ -1882,30 +2742,27 @@ export async function registerRoutes(
 
   app.delete("/api/price-alerts/:id", isAuthenticated, async (req, res) => {
     try {
-      await storage.deletePriceAlert(parseInt(req.params.id as string));
+      const owned = await findOwned(req, res, id => storage.getPriceAlert(id), "Alert");
+      if (!owned) return;
+      await storage.deletePriceAlert(owned.id);
       res.json({ success: true });
     } catch (err) {
       res.status(500).json({ message: "Failed to delete alert" });
     }
   });
 
-  app.get("/api/limit-orders", isAuthenticated, async (_req, res) => {
+  app.get("/api/limit-orders", isAuthenticated, async (req, res) => {
     try {
-      const orders = await storage.getLimitOrders();
+      const orders = await storage.getLimitOrders((req.session as any).userId);
       res.json(orders);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch limit orders" });
     }
   });
 
-  app.post("/api/limit-orders", isAuthenticated, requireFeature("maxLimitOrders", "Limit Orders"), async (req, res) => {
+  app.post("/api/limit-orders", isAuthenticated, requireQuota("maxLimitOrders", "Limit Orders", "limit order(s)"), async (req, res) => {
     try {
-      const { limits, tier } = (req as any).tierInfo;
-      const existing = await storage.getLimitOrders();
-      if (existing.length >= limits.maxLimitOrders) {
-        return res.status(403).json({ message: `Your ${tier} plan allows ${limits.maxLimitOrders} limit order(s). Upgrade for more.`, code: "LIMIT_REACHED" });
-      }
-      const parsed = insertLimitOrderSchema.parse(req.body);
+      const parsed = insertLimitOrderSchema.parse({ ...req.body, userId: (req.session as any).userId });
       const order = await storage.createLimitOrder(parsed);
       res.json(order);
     } catch (err: any) {
@@ -1915,7 +2772,15 @@ export async function registerRoutes(
 
   app.patch("/api/limit-orders/:id", isAuthenticated, async (req, res) => {
     try {
-      const order = await storage.updateLimitOrder(parseInt(req.params.id as string), req.body);
+      const owned = await findOwned(req, res, id => storage.getLimitOrder(id), "Order");
+      if (!owned) return;
+      const updates = parseUpdate(res, updateLimitOrderSchema, req.body);
+      if (!updates) return;
+      if (owned.status !== "pending") {
+        return res.status(409).json({ message: `Order is already ${owned.status}` });
+      }
+      if (!(await checkReenable(req, res, owned, updates, "maxLimitOrders", "limit order(s)"))) return;
+      const order = await storage.updateLimitOrder(owned.id, updates);
       res.json(order);
     } catch (err: any) {
       res.status(400).json({ message: err.message || "Invalid request" });
@@ -1924,30 +2789,27 @@ export async function registerRoutes(
 
   app.delete("/api/limit-orders/:id", isAuthenticated, async (req, res) => {
     try {
-      await storage.deleteLimitOrder(parseInt(req.params.id as string));
+      const owned = await findOwned(req, res, id => storage.getLimitOrder(id), "Order");
+      if (!owned) return;
+      await storage.deleteLimitOrder(owned.id);
       res.json({ success: true });
     } catch (err) {
       res.status(500).json({ message: "Failed to delete order" });
     }
   });
 
-  app.get("/api/dca-configs", isAuthenticated, async (_req, res) => {
+  app.get("/api/dca-configs", isAuthenticated, async (req, res) => {
     try {
-      const configs = await storage.getDcaConfigs();
+      const configs = await storage.getDcaConfigs((req.session as any).userId);
       res.json(configs);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch DCA configs" });
     }
   });
 
-  app.post("/api/dca-configs", isAuthenticated, requireFeature("maxDcaConfigs", "DCA Automation"), async (req, res) => {
+  app.post("/api/dca-configs", isAuthenticated, requireQuota("maxDcaConfigs", "DCA Automation", "DCA config(s)"), async (req, res) => {
     try {
-      const { limits, tier } = (req as any).tierInfo;
-      const existing = await storage.getDcaConfigs();
-      if (existing.length >= limits.maxDcaConfigs) {
-        return res.status(403).json({ message: `Your ${tier} plan allows ${limits.maxDcaConfigs} DCA config(s). Upgrade for more.`, code: "LIMIT_REACHED" });
-      }
-      const parsed = insertDcaConfigSchema.parse(req.body);
+      const parsed = insertDcaConfigSchema.parse({ ...req.body, userId: (req.session as any).userId });
       const config = await storage.createDcaConfig(parsed);
       res.json(config);
     } catch (err: any) {
@@ -1955,9 +2817,23 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/dca-executions", isAuthenticated, async (req, res) => {
+    try {
+      const executions = await storage.getDcaExecutions((req.session as any).userId);
+      res.json(executions);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch DCA executions" });
+    }
+  });
+
   app.patch("/api/dca-configs/:id", isAuthenticated, async (req, res) => {
     try {
-      const config = await storage.updateDcaConfig(parseInt(req.params.id as string), req.body);
+      const owned = await findOwned(req, res, id => storage.getDcaConfig(id), "DCA config");
+      if (!owned) return;
+      const updates = parseUpdate(res, updateDcaConfigSchema, req.body);
+      if (!updates) return;
+      if (!(await checkReenable(req, res, owned, updates, "maxDcaConfigs", "DCA config(s)"))) return;
+      const config = await storage.updateDcaConfig(owned.id, updates);
       res.json(config);
     } catch (err: any) {
       res.status(400).json({ message: err.message || "Invalid request" });
@@ -1966,7 +2842,9 @@ export async function registerRoutes(
 
   app.delete("/api/dca-configs/:id", isAuthenticated, async (req, res) => {
     try {
-      await storage.deleteDcaConfig(parseInt(req.params.id as string));
+      const owned = await findOwned(req, res, id => storage.getDcaConfig(id), "DCA config");
+      if (!owned) return;
+      await storage.deleteDcaConfig(owned.id);
       res.json({ success: true });
     } catch (err) {
       res.status(500).json({ message: "Failed to delete DCA config" });
@@ -2260,16 +3138,6 @@ export async function registerRoutes(
     return { address: account.address, privateKey: privateKeyHex };
   }
 
-  function encryptKey(key: string): string {
-    const secret = process.env.SESSION_SECRET;
-    if (!secret) throw new Error("SESSION_SECRET is required for wallet encryption");
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv("aes-256-cbc", crypto.createHash("sha256").update(secret).digest(), iv);
-    let encrypted = cipher.update(key, "utf8", "hex");
-    encrypted += cipher.final("hex");
-    return iv.toString("hex") + ":" + encrypted;
-  }
-
   function generateTxHash(chain: string): string {
     const chars = "0123456789abcdef";
     if (chain === "solana") {
@@ -2371,112 +3239,6 @@ export async function registerRoutes(
   });
 
   // ========== Real Balance Refresh from Blockchain RPCs ==========
-  const CHAIN_RPC_MAP: Record<string, string> = {
-    solana: "https://api.mainnet-beta.solana.com",
-    ethereum: "https://eth.llamarpc.com",
-    base: "https://mainnet.base.org",
-    bsc: "https://bsc-dataseed.binance.org",
-    tron: "https://api.trongrid.io",
-  };
-
-  async function fetchOnChainBalance(chain: string, address: string): Promise<number> {
-    try {
-      if (chain === "solana") {
-        const resp = await fetch(CHAIN_RPC_MAP.solana, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            jsonrpc: "2.0", id: 1,
-            method: "getBalance",
-            params: [address],
-          }),
-        });
-        const data = await resp.json();
-        if (data.result?.value !== undefined) {
-          return data.result.value / 1e9;
-        }
-        return 0;
-      }
-
-      if (chain === "tron") {
-        const resp = await fetch(`${CHAIN_RPC_MAP.tron}/v1/accounts/${address}`);
-        const data = await resp.json();
-        if (data.data?.[0]?.balance !== undefined) {
-          return data.data[0].balance / 1e6;
-        }
-        return 0;
-      }
-
-      const rpc = CHAIN_RPC_MAP[chain];
-      if (!rpc) return 0;
-      const resp = await fetch(rpc, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jsonrpc: "2.0", id: 1,
-          method: "eth_getBalance",
-          params: [address, "latest"],
-        }),
-      });
-      const data = await resp.json();
-      if (data.result) {
-        const wei = BigInt(data.result);
-        return Number(wei) / 1e18;
-      }
-      return 0;
-    } catch (err) {
-      console.error(`Balance fetch error for ${chain}:${address}:`, err);
-      return 0;
-    }
-  }
-
-  async function fetchOnChainTokenBalance(chain: string, walletAddress: string, tokenAddress: string): Promise<number> {
-    try {
-      const rpc = CHAIN_RPC_MAP[chain];
-      if (!rpc) return 0;
-
-      if (chain === "solana") {
-        const resp = await fetch(rpc, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            jsonrpc: "2.0", id: 1,
-            method: "getTokenAccountsByOwner",
-            params: [
-              walletAddress,
-              { mint: tokenAddress },
-              { encoding: "jsonParsed" },
-            ],
-          }),
-        });
-        const data = await resp.json() as any;
-        const accounts = data.result?.value || [];
-        let total = 0;
-        for (const acc of accounts) {
-          const amt = parseFloat(acc.account?.data?.parsed?.info?.tokenAmount?.uiAmountString || "0");
-          total += amt;
-        }
-        return total;
-      } else {
-        const paddedAddr = walletAddress.replace("0x", "").padStart(64, "0");
-        const resp = await fetch(rpc, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            jsonrpc: "2.0", id: 1,
-            method: "eth_call",
-            params: [{ to: tokenAddress, data: `0x70a08231${paddedAddr}` }, "latest"],
-          }),
-        });
-        const data = await resp.json() as any;
-        const raw = BigInt(data.result || "0x0");
-        return Number(raw) / 1e18;
-      }
-    } catch (err) {
-      console.error(`Token balance fetch error for ${chain}:${walletAddress}:${tokenAddress}:`, err);
-      return 0;
-    }
-  }
 
   app.post("/api/wallets/refresh-balance", isAuthenticated, async (req, res) => {
     try {
@@ -2520,17 +3282,6 @@ export async function registerRoutes(
     }
   });
 
-  function decryptKey(encrypted: string): string {
-    const secret = process.env.SESSION_SECRET;
-    if (!secret) throw new Error("SESSION_SECRET is required for wallet decryption");
-    const [ivHex, encHex] = encrypted.split(":");
-    const iv = Buffer.from(ivHex, "hex");
-    const decipher = crypto.createDecipheriv("aes-256-cbc", crypto.createHash("sha256").update(secret).digest(), iv);
-    let decrypted = decipher.update(encHex, "hex", "utf8");
-    decrypted += decipher.final("utf8");
-    return decrypted;
-  }
-
   app.post("/api/wallets/:id/export-key", isAuthenticated, async (req, res) => {
     try {
       const userId = (req.session as any).userId;
@@ -2690,7 +3441,7 @@ export async function registerRoutes(
         broadcast({ type: "new_trade", data: trade });
 
         try {
-          await storage.upsertPositionFromTrade(dbTokenId, type, tradeAmount, price, chain);
+          await storage.upsertPositionFromTrade(userId, dbTokenId, type, tradeAmount, price, chain);
         } catch (posErr) {
           console.error("Position upsert error (non-fatal):", posErr);
         }
@@ -2717,7 +3468,7 @@ export async function registerRoutes(
           });
           broadcast({ type: "new_trade", data: trade });
           try {
-            await storage.upsertPositionFromTrade(existingToken.id, type, tradeAmount, price, chain);
+            await storage.upsertPositionFromTrade(userId, existingToken.id, type, tradeAmount, price, chain);
           } catch (posErr) {
             console.error("Position upsert error (non-fatal):", posErr);
           }
@@ -2754,12 +3505,34 @@ export async function registerRoutes(
 
   const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
   const clients = new Set<WebSocket>();
+  // Sockets whose upgrade request carried a signed-in session. A socket keeps
+  // the user it connected as; the client reconnects after login or logout.
+  const userSockets = new Map<string, Set<WebSocket>>();
 
-  wss.on("connection", (ws) => {
+  wss.on("connection", (ws, req) => {
     clients.add(ws);
-    ws.on("close", () => clients.delete(ws));
-    ws.on("error", () => clients.delete(ws));
-    ws.send(JSON.stringify({ type: "connected", message: "NextApe Terminal connected" }));
+    let userId: string | undefined;
+    const drop = () => {
+      clients.delete(ws);
+      const owned = userId ? userSockets.get(userId) : undefined;
+      if (!owned) return;
+      owned.delete(ws);
+      if (owned.size === 0) userSockets.delete(userId!);
+    };
+    ws.on("close", drop);
+    ws.on("error", drop);
+
+    sessionParser(req as any, {} as any, () => {
+      userId = ((req as any).session as any)?.userId;
+      if (userId && ws.readyState === WebSocket.OPEN) {
+        const owned = userSockets.get(userId) || new Set<WebSocket>();
+        owned.add(ws);
+        userSockets.set(userId, owned);
+      }
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: "connected", message: "NextApe Terminal connected", authenticated: !!userId }));
+      }
+    });
   });
 
   function broadcast(data: any) {
@@ -2771,25 +3544,41 @@ export async function registerRoutes(
     });
   }
 
+  function sendToUser(userId: string, data: any) {
+    const owned = userSockets.get(userId);
+    if (!owned) return;
+    const message = JSON.stringify(data);
+    owned.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  }
+
+  setBroadcaster(broadcast);
+  setUserSender(sendToUser);
+
   const priceCache = new Map<string, number>();
 
   async function fetchLivePrices() {
-    if (clients.size === 0) return;
+    if (clients.size === 0 && !hasPriceListeners()) return;
     try {
       const tokenList = await storage.getTokens();
-      const addresses = tokenList.slice(0, 30).map(t => t.address);
+      const watched = getWatchedTokenIds();
+      const addresses = [
+        ...tokenList.slice(0, 30),
+        ...tokenList.slice(30).filter(t => watched.has(t.id)),
+      ].map(t => t.address);
       if (addresses.length === 0) return;
 
       const batchSize = 10;
-      const updates: Array<{ id: number; symbol: string; address: string; price: number; priceChange24h: number | null; volume24h: number | null; liquidity: number | null; marketCap: number | null; image?: string | null }> = [];
+      const updates: PriceUpdate[] = [];
 
       for (let i = 0; i < addresses.length; i += batchSize) {
         const batch = addresses.slice(i, i + batchSize);
-        const joined = batch.join(",");
         try {
-          const resp = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${joined}`);
-          if (!resp.ok) continue;
-          const data = await resp.json();
+          const data = await marketData().pairs.pairsForTokens(batch);
+          if (!data) continue;
           const pairs = data.pairs || [];
 
           for (const pair of pairs) {
@@ -2801,6 +3590,7 @@ export async function registerRoutes(
             const newPrice = parseFloat(pair.priceUsd) || 0;
             const oldPrice = priceCache.get(addr) ?? token.price;
             priceCache.set(addr, newPrice);
+            recordTick(token.chain || "solana", token.address, newPrice, 0);
 
             const imageUrl = pair.info?.imageUrl || null;
             if (imageUrl && !token.image) {
@@ -2839,6 +3629,7 @@ export async function registerRoutes(
             });
           } catch {}
         }
+        await publishPriceUpdates(updates);
       }
     } catch (err) {
       console.error("Live price fetch error:", err);
@@ -2858,9 +3649,8 @@ export async function registerRoutes(
       for (let i = 0; i < addresses.length; i += 10) {
         const batch = addresses.slice(i, i + 10);
         try {
-          const resp = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${batch.join(",")}`);
-          if (!resp.ok) continue;
-          const data = await resp.json();
+          const data = await marketData().pairs.pairsForTokens(batch);
+          if (!data) continue;
           const pairs = data.pairs || [];
           for (const pair of pairs) {
             const addr = pair.baseToken?.address;
@@ -0,0 +1,519 @@
+import { parseAbi, parseAbiItem, zeroAddress, type Address } from "viem";
+import { storage } from "./storage";
+import { marketData } from "./market-data";
+import { getLiquiditySignalForToken } from "./liquidity-tracker";
+import { getTokenSecurity, isSupportedChain } from "./goplus";
+import { evmClient } from "./swap-events";
+import { solanaRpcCall } from "./solana-holders";
+import { executeChainSwap } from "./onchain-swap";
+import { fetchOnChainTokenBalance, decryptKey } from "./wallet-utils";
+import { broadcast, sendToUser } from "./live-feed";
+import { emergencyExitAgentPosition } from "./ai/agent-runner";
+import { SCHEDULER_INSTANCE_ID } from "./ai/agent-scheduler";
+import type { AgentPosition, AgentRiskSettings, Position } from "@shared/schema";
+
+// Watches every token held in an open position, manual or agent, for signs
+// of a rug: the pool's liquidity pulled, a honeypot or sell-tax flip, the
+// owner changing, or new supply minted. Any new sign raises an urgent
+// `rug_alert`. Critical ones also sell the position for owners who turned
+// on rugAutoExit in their risk settings. One instance watches for the whole
+// deployment, under a leader lease like the agent runner's leader duties.
+
+const POLL_INTERVAL_MS = 30_000;
+// GoPlus answers are cached for two minutes, so polling faster gains nothing.
+const SECURITY_POLL_MS = 2 * 60_000;
+// The same sign on the same token is raised again after this long.
+const ALERT_COOLDOWN_MS = 30 * 60_000;
+const DEFAULT_EXIT_SLIPPAGE_BPS = 1500;
+const LEADER_LEASE = "rug-watchdog:leader";
+// Renewed every poll; if the leader stops polling another instance takes
+// over once it lapses.
+const LEADER_LEASE_MS = 2 * POLL_INTERVAL_MS;
+
+// Share of the pool's peak liquidity, since it was first watched, that
+// counts as the LP being pulled.
+const LP_REMOVAL_DROP = 0.5;
+const SELL_TAX_JUMP = 20;
+// New supply at or above this share of the total counts as a rug mint.
+const MINT_SUPPLY_SHARE = 0.01;
+const MAX_LOG_BLOCKS = 2_000;
+const DEXSCREENER_BATCH = 30;
+
+const EVM_CHAINS = new Set(["ethereum", "base", "bsc"]);
+const RENOUNCED_OWNERS = new Set<string>([zeroAddress, "0x000000000000000000000000000000000000dead"]);
+
+const TRANSFER_EVENT = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)");
+const OWNERSHIP_EVENT = parseAbiItem("event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)");
+const BURN_EVENT = parseAbiItem("event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)");
+const TOKEN_ABI = parseAbi(["function totalSupply() view returns (uint256)"]);
+const PAIR_ABI = parseAbi(["function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)"]);
+
+export type RugSignal = "lp_removed" | "liquidity_draining" | "honeypot" | "sell_tax_spike" | "owner_changed" | "supply_minted" | "mint_authority_changed";
+
+export interface RugIndicator {
+  signal: RugSignal;
+  // Critical signs trigger the emergency exit; warnings only alert.
+  severity: "critical" | "warning";
+  detail: string;
+}
+
+export interface RugExitResult {
+  kind: "manual" | "agent";
+  positionId: number;
+  userId: string;
+  status: "sold" | "partial" | "failed" | "skipped";
+  txHash?: string | null;
+  error?: string;
+}
+
+interface SecuritySnapshot {
+  isHoneypot: boolean;
+  sellTax: number;
+  owner: string;
+  isMintable: boolean;
+  canTakeBackOwnership: boolean;
+}
+
+interface MintSnapshot {
+  supply: number;
+  mintAuthority: string | null;
+}
+
+interface WatchedToken {
+  chain: string;
+  address: string;
+  symbol: string;
+  tokenId: number | null;
+  price: number;
+  manual: Position[];
+  agent: AgentPosition[];
+  pairAddress: string | null;
+  peakLiquidity: number;
+  security: SecuritySnapshot | null;
+  securityPolledAt: number;
+  mint: MintSnapshot | null;
+  // Next EVM block whose logs haven't been read.
+  nextBlock: bigint | null;
+  alertedAt: Map<RugSignal, number>;
+}
+
+const watched = new Map<string, WatchedToken>();
+// Positions with an emergency exit in flight here. Agent exits also take the
+// agent's cycle lease, which keeps them off a running cycle on any instance.
+const exiting = new Set<string>();
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+
+async function holdLeaderLease(): Promise<boolean> {
+  return storage.acquireSchedulerLease(LEADER_LEASE, SCHEDULER_INSTANCE_ID, LEADER_LEASE_MS, true);
+}
+
+function watchKey(chain: string, address: string): string {
+  return `${chain}:${address.toLowerCase()}`;
+}
+
+function watch(chain: string, address: string, symbol: string, tokenId: number | null, price: number): WatchedToken {
+  const key = watchKey(chain, address);
+  let token = watched.get(key);
+  if (!token) {
+    token = {
+      chain, address, symbol, tokenId, price, manual: [], agent: [],
+      pairAddress: null, peakLiquidity: 0, security: null, securityPolledAt: 0, mint: null, nextBlock: null,
+      alertedAt: new Map(),
+    };
+    watched.set(key, token);
+  }
+  return token;
+}
+
+// Rebuilds the watch list from open positions. State for tokens still held
+// carries over, so their baselines keep comparing against first sight.
+async function refreshHoldings(): Promise<void> {
+  const [manual, agent] = await Promise.all([storage.getOpenManualPositions(), storage.getAllOpenPositions()]);
+  const held = new Set<string>();
+  for (const token of Array.from(watched.values())) {
+    token.manual = [];
+    token.agent = [];
+  }
+
+  for (const pos of agent) {
+    // A rug only hurts a long; shorts profit from it.
+    if (pos.side === "short" || !pos.tokenAddress) continue;
+    const chain = pos.chain || "solana";
+    const token = watch(chain, pos.tokenAddress, pos.tokenSymbol, pos.tokenId, pos.currentPrice);
+    token.agent.push(pos);
+    held.add(watchKey(chain, pos.tokenAddress));
+  }
+
+  for (const pos of manual) {
+    if (!pos.userId) continue;
+    const info = await storage.getToken(pos.tokenId);
+    if (!info) continue;
+    const chain = pos.chain || info.chain || "solana";
+    const token = watch(chain, info.address, info.symbol, info.id, info.price);
+    token.manual.push(pos);
+    held.add(watchKey(chain, info.address));
+  }
+
+  for (const key of Array.from(watched.keys())) {
+    if (!held.has(key)) watched.delete(key);
+  }
+}
+
+// Reads each token's deepest pool from DexScreener, a batch per chain, and
+// flags a pool that lost most of its peak liquidity.
+async function checkLiquidity(tokens: WatchedToken[]): Promise<Map<WatchedToken, RugIndicator[]>> {
+  const found = new Map<WatchedToken, RugIndicator[]>();
+  const byChain = new Map<string, WatchedToken[]>();
+  for (const token of tokens) byChain.set(token.chain, [...(byChain.get(token.chain) || []), token]);
+
+  for (const [chain, list] of Array.from(byChain.entries())) {
+    for (let i = 0; i < list.length; i += DEXSCREENER_BATCH) {
+      const batch = list.slice(i, i + DEXSCREENER_BATCH);
+      const pairs = await marketData().pairs.tokenPairs(chain, batch.map(t => t.address));
+      if (!Array.isArray(pairs)) continue;
+      for (const token of batch) {
+        const best = pairs
+          .filter((p: any) => p.baseToken?.address?.toLowerCase() === token.address.toLowerCase())
+          .sort((a: any, b: any) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))[0];
+        if (!best) continue;
+        const liquidity = best.liquidity?.usd || 0;
+        const price = parseFloat(best.priceUsd || "0");
+        if (price > 0) token.price = price;
+        token.pairAddress = best.pairAddress || token.pairAddress;
+        if (token.peakLiquidity > 0 && liquidity < token.peakLiquidity * (1 - LP_REMOVAL_DROP)) {
+          const drop = Math.round((1 - liquidity / token.peakLiquidity) * 100);
+          found.set(token, [{
+            signal: "lp_removed", severity: "critical",
+            detail: `Pool liquidity fell ${drop}% from $${Math.round(token.peakLiquidity)} to $${Math.round(liquidity)}`,
+          }]);
+        }
+        token.peakLiquidity = Math.max(token.peakLiquidity, liquidity);
+      }
+    }
+  }
+
+  for (const token of tokens) {
+    if (getLiquiditySignalForToken(token.address, token.chain)?.isLiquidityDraining) {
+      found.set(token, [...(found.get(token) || []), {
+        signal: "liquidity_draining", severity: "warning", detail: "Liquidity tracker reports the pool draining",
+      }]);
+    }
+  }
+  return found;
+}
+
+function isLiveOwner(owner: string): boolean {
+  return !!owner && !RENOUNCED_OWNERS.has(owner.toLowerCase());
+}
+
+// Compares the latest GoPlus report with the previous one. The first report
+// only sets the baseline, except that a honeypot is flagged straight away.
+async function checkSecurity(token: WatchedToken): Promise<RugIndicator[]> {
+  if (!isSupportedChain(token.chain) || Date.now() - token.securityPolledAt < SECURITY_POLL_MS) return [];
+  token.securityPolledAt = Date.now();
+  const security = await getTokenSecurity(token.chain, token.address);
+  if (!security) return [];
+
+  const next: SecuritySnapshot = {
+    isHoneypot: security.isHoneypot || security.raw?.cannot_sell_all === "1",
+    sellTax: security.sellTax,
+    owner: security.raw?.owner_address || "",
+    isMintable: security.isMintable,
+    canTakeBackOwnership: security.canTakeBackOwnership,
+  };
+  const prev = token.security;
+  token.security = next;
+
+  const found: RugIndicator[] = [];
+  if (next.isHoneypot && !prev?.isHoneypot) {
+    found.push({ signal: "honeypot", severity: "critical", detail: "GoPlus now reports the token can't be sold" });
+  }
+  if (prev && next.sellTax >= prev.sellTax + SELL_TAX_JUMP) {
+    found.push({ signal: "sell_tax_spike", severity: "critical", detail: `Sell tax rose from ${prev.sellTax}% to ${next.sellTax}%` });
+  }
+  if (prev && next.owner.toLowerCase() !== prev.owner.toLowerCase() && isLiveOwner(next.owner)) {
+    found.push({
+      signal: "owner_changed",
+      // A new owner of a contract that can mint or reclaim ownership can drain it.
+      severity: next.isMintable || next.canTakeBackOwnership ? "critical" : "warning",
+      detail: `Contract owner changed to ${next.owner}`,
+    });
+  }
+  return found;
+}
+
+// Reads the token's mint and ownership logs and the pool's V2 LP burns
+// since the last poll. The first poll starts from the chain head.
+async function checkEvmEvents(token: WatchedToken): Promise<RugIndicator[]> {
+  const client = evmClient(token.chain);
+  const head = await client.getBlockNumber();
+  if (token.nextBlock == null) {
+    token.nextBlock = head + BigInt(1);
+    return [];
+  }
+  if (token.nextBlock > head) return [];
+  const fromBlock = head - token.nextBlock > BigInt(MAX_LOG_BLOCKS) ? head - BigInt(MAX_LOG_BLOCKS) : token.nextBlock;
+  token.nextBlock = head + BigInt(1);
+  const tokenAddress = token.address as Address;
+
+  const found: RugIndicator[] = [];
+  const [mints, ownerships] = await Promise.all([
+    client.getLogs({ address: tokenAddress, event: TRANSFER_EVENT, args: { from: zeroAddress }, fromBlock, toBlock: head }),
+    client.getLogs({ address: tokenAddress, event: OWNERSHIP_EVENT, fromBlock, toBlock: head }),
+  ]);
+
+  if (mints.length > 0) {
+    const minted = mints.reduce((s, log) => s + (log.args.value ?? BigInt(0)), BigInt(0));
+    const supply = await client.readContract({ address: tokenAddress, abi: TOKEN_ABI, functionName: "totalSupply" });
+    if (supply > BigInt(0) && Number(minted) / Number(supply) >= MINT_SUPPLY_SHARE) {
+      found.push({
+        signal: "supply_minted", severity: "critical",
+        detail: `${((Number(minted) / Number(supply)) * 100).toFixed(1)}% of supply minted in ${mints.length} transfer(s)`,
+      });
+    }
+  }
+
+  const newOwner = ownerships[ownerships.length - 1]?.args.newOwner;
+  if (newOwner && isLiveOwner(newOwner)) {
+    found.push({ signal: "owner_changed", severity: "warning", detail: `Ownership transferred on-chain to ${newOwner}` });
+  }
+
+  if (token.pairAddress) {
+    const pair = token.pairAddress as Address;
+    const burns = await client.getLogs({ address: pair, event: BURN_EVENT, fromBlock, toBlock: head }).catch(() => []);
+    if (burns.length > 0) {
+      // V3 pools have no getReserves, so their LP pulls are left to the
+      // liquidity check.
+      const reserves = await client.readContract({ address: pair, abi: PAIR_ABI, functionName: "getReserves" }).catch(() => null);
+      if (reserves) {
+        const burned = burns.reduce((s, log) => s + (log.args.amount0 ?? BigInt(0)), BigInt(0));
+        const share = Number(burned) / (Number(burned) + Number(reserves[0]));
+        if (share >= LP_REMOVAL_DROP) {
+          found.push({ signal: "lp_removed", severity: "critical", detail: `${Math.round(share * 100)}% of the pool's liquidity was withdrawn on-chain` });
+        }
+      }
+    }
+  }
+  return found;
+}
+
+// Solana mints: new supply, or the mint authority handed to someone else.
+async function checkSolanaMint(token: WatchedToken): Promise<RugIndicator[]> {
+  const account = await solanaRpcCall("getAccountInfo", [token.address, { encoding: "jsonParsed", commitment: "confirmed" }]);
+  const info = account?.value?.data?.parsed?.info;
+  if (!info) return [];
+  const next: MintSnapshot = { supply: parseFloat(info.supply || "0"), mintAuthority: info.mintAuthority ?? null };
+  const prev = token.mint;
+  token.mint = next;
+  if (!prev) return [];
+
+  const found: RugIndicator[] = [];
+  if (prev.supply > 0 && next.supply >= prev.supply * (1 + MINT_SUPPLY_SHARE)) {
+    found.push({
+      signal: "supply_minted", severity: "critical",
+      detail: `Supply grew ${(((next.supply - prev.supply) / prev.supply) * 100).toFixed(1)}% through the mint authority`,
+    });
+  }
+  if (next.mintAuthority && next.mintAuthority !== prev.mintAuthority) {
+    found.push({ signal: "mint_authority_changed", severity: "warning", detail: `Mint authority moved to ${next.mintAuthority}` });
+  }
+  return found;
+}
+
+async function checkOnChain(token: WatchedToken): Promise<RugIndicator[]> {
+  if (token.chain === "solana") return checkSolanaMint(token);
+  if (EVM_CHAINS.has(token.chain)) return checkEvmEvents(token);
+  return [];
+}
+
+// Tokens in the owner's wallet that belong to their live agents' open longs.
+// Agents trade from the same generated wallet, so a manual exit must leave
+// these behind.
+async function agentHeldTokens(userId: string, token: WatchedToken): Promise<number> {
+  let held = 0;
+  for (const agent of await storage.getAiAgents(userId)) {
+    if (agent.executionMode !== "live") continue;
+    for (const p of await storage.getAgentPositions(agent.id, "open")) {
+      if (p.side !== "long" || (p.chain || "solana") !== token.chain) continue;
+      if (p.tokenAddress?.toLowerCase() !== token.address.toLowerCase()) continue;
+      held += p.size;
+    }
+  }
+  return held;
+}
+
+// Sells a manually held token from the owner's generated wallet: the
+// position's size, or less when the wallet holds less than that beyond what
+// the agents own.
+async function sellManualPosition(pos: Position, token: WatchedToken, slippageBps: number): Promise<RugExitResult> {
+  const result: RugExitResult = { kind: "manual", positionId: pos.id, userId: pos.userId!, status: "failed" };
+  const wallet = await storage.getGeneratedWallet(pos.userId!, token.chain);
+  if (!wallet) return { ...result, status: "skipped", error: `No ${token.chain} wallet` };
+
+  const balance = await fetchOnChainTokenBalance(token.chain, wallet.address, token.address);
+  const amount = Math.min(pos.size, balance - await agentHeldTokens(pos.userId!, token));
+  if (amount <= 0) return { ...result, status: "skipped", error: "No manual token balance on-chain" };
+
+  const swap = await executeChainSwap(decryptKey(wallet.encryptedPrivateKey), token.chain, token.address, amount, "sell", slippageBps);
+  if (!swap.success) return { ...result, error: swap.error || "On-chain swap failed" };
+
+  try {
+    const trade = await storage.createTrade({
+      tokenId: pos.tokenId,
+      type: "sell",
+      amount,
+      price: token.price,
+      total: amount * token.price,
+      wallet: `${wallet.address.slice(0, 4)}...${wallet.address.slice(-4)}`,
+    });
+    broadcast({ type: "new_trade", data: trade });
+    await storage.upsertPositionFromTrade(pos.userId!, pos.tokenId, "sell", amount, token.price, token.chain);
+  } catch (err: any) {
+    console.error(`[RugWatchdog] Bookkeeping failed after emergency sell of position ${pos.id} (non-fatal):`, err.message);
+  }
+  return { ...result, status: "sold", txHash: swap.txHash };
+}
+
+async function runExit(key: string, exit: () => Promise<RugExitResult>, fallback: RugExitResult): Promise<RugExitResult> {
+  if (exiting.has(key)) return { ...fallback, status: "skipped", error: "Exit already in progress" };
+  exiting.add(key);
+  try {
+    return await exit();
+  } catch (err: any) {
+    return { ...fallback, error: err.message };
+  } finally {
+    exiting.delete(key);
+  }
+}
+
+// Sells every position in the token whose owner opted in.
+async function emergencyExit(token: WatchedToken, reason: string): Promise<RugExitResult[]> {
+  const settings = new Map<string, AgentRiskSettings | undefined>();
+  const optedIn = async (userId: string | null | undefined) => {
+    if (!userId) return undefined;
+    if (!settings.has(userId)) settings.set(userId, await storage.getAgentRiskSettings(userId));
+    const s = settings.get(userId);
+    return s?.rugAutoExit ? s : undefined;
+  };
+
+  // Agent positions go first, so a manual sell only has to leave behind the
+  // agent positions whose exits failed or were not opted in.
+  const results: RugExitResult[] = [];
+  for (const pos of token.agent) {
+    const agent = await storage.getAiAgent(pos.agentId);
+    const s = await optedIn(agent?.userId);
+    if (!s) continue;
+    const slippage = s.rugExitSlippageBps ?? DEFAULT_EXIT_SLIPPAGE_BPS;
+    const fallback: RugExitResult = { kind: "agent", positionId: pos.id, userId: agent!.userId!, status: "failed" };
+    results.push(await runExit(`agent:${pos.id}`, async () => {
+      const action = await emergencyExitAgentPosition(pos, reason, slippage, data => sendToUser(agent!.userId, data));
+      return { ...fallback, status: action === "closed" ? "sold" : action === "updated" ? "partial" : "skipped" };
+    }, fallback));
+  }
+  for (const pos of token.manual) {
+    const s = await optedIn(pos.userId);
+    if (!s) continue;
+    const slippage = s.rugExitSlippageBps ?? DEFAULT_EXIT_SLIPPAGE_BPS;
+    results.push(await runExit(`manual:${pos.id}`, () => sellManualPosition(pos, token, slippage),
+      { kind: "manual", positionId: pos.id, userId: pos.userId!, status: "failed" }));
+  }
+  return results;
+}
+
+// Open positions in the token per owning user.
+async function positionsByOwner(token: WatchedToken): Promise<Map<string, number>> {
+  const owners = new Map<string, number>();
+  const add = (userId: string | null | undefined) => {
+    if (userId) owners.set(userId, (owners.get(userId) ?? 0) + 1);
+  };
+  const agentOwners = new Map<number, string | null | undefined>();
+  for (const pos of token.agent) {
+    if (!agentOwners.has(pos.agentId)) agentOwners.set(pos.agentId, (await storage.getAiAgent(pos.agentId))?.userId);
+    add(agentOwners.get(pos.agentId));
+  }
+  token.manual.forEach(pos => add(pos.userId));
+  return owners;
+}
+
+// Alerts go only to users holding the token, each told about their own
+// positions and exits.
+async function raiseAlert(token: WatchedToken, indicators: RugIndicator[]): Promise<void> {
+  const now = Date.now();
+  const fresh = indicators.filter(i => now - (token.alertedAt.get(i.signal) ?? 0) >= ALERT_COOLDOWN_MS);
+  if (fresh.length === 0) return;
+  fresh.forEach(i => token.alertedAt.set(i.signal, now));
+
+  const critical = fresh.some(i => i.severity === "critical");
+  const message = `${token.symbol}: ${fresh.map(i => i.detail).join("; ")}`;
+  const alert = {
+    urgent: critical,
+    chain: token.chain,
+    address: token.address,
+    symbol: token.symbol,
+    indicators: fresh,
+    message,
+    detectedAt: new Date(now).toISOString(),
+  };
+  const owners = await positionsByOwner(token);
+  owners.forEach((openPositions, userId) => sendToUser(userId, { type: "rug_alert", data: { ...alert, openPositions } }));
+  console.log(`[RugWatchdog] ${critical ? "RUG" : "Warning"} on ${token.chain}:${token.address} - ${message}`);
+  if (!critical) return;
+
+  // A slow poll can outlast the lease; only the current leader sells.
+  if (!(await holdLeaderLease())) {
+    console.log(`[RugWatchdog] Lost the leader lease, skipping the exit for ${token.symbol}`);
+    return;
+  }
+  const exits = await emergencyExit(token, `Rug watchdog: ${message}`);
+  if (exits.length === 0) return;
+  owners.forEach((openPositions, userId) => {
+    const own = exits.filter(e => e.userId === userId).map(({ userId: _owner, ...exit }) => exit);
+    if (own.length > 0) sendToUser(userId, { type: "rug_exit", data: { ...alert, openPositions, exits: own } });
+  });
+  const sold = exits.filter(e => e.status === "sold").length;
+  console.log(`[RugWatchdog] Emergency exit for ${token.symbol}: ${sold}/${exits.length} position(s) sold`);
+}
+
+async function pollWatchdog(): Promise<void> {
+  if (polling) return;
+  polling = true;
+  try {
+    if (!(await holdLeaderLease())) {
+      // Baselines restart from scratch if this instance leads again.
+      watched.clear();
+      return;
+    }
+    await refreshHoldings();
+    const tokens = Array.from(watched.values());
+    if (tokens.length === 0) return;
+
+    const liquidity = await checkLiquidity(tokens).catch(err => {
+      console.error("[RugWatchdog] Liquidity check failed:", err.message);
+      return new Map<WatchedToken, RugIndicator[]>();
+    });
+    for (const token of tokens) {
+      const indicators = [...(liquidity.get(token) || [])];
+      for (const check of [checkSecurity, checkOnChain]) {
+        try {
+          indicators.push(...await check(token));
+        } catch (err: any) {
+          console.error(`[RugWatchdog] ${check.name} failed for ${token.chain}:${token.address}:`, err.message);
+        }
+      }
+      if (indicators.length > 0) await raiseAlert(token, indicators);
+    }
+  } catch (err: any) {
+    console.error("[RugWatchdog] Poll failed:", err.message);
+  } finally {
+    polling = false;
+  }
+}
+
+export function startRugWatchdog(): void {
+  if (intervalId) return;
+  console.log(`[RugWatchdog] Watching open positions every ${POLL_INTERVAL_MS / 1000}s`);
+  intervalId = setInterval(pollWatchdog, POLL_INTERVAL_MS);
+  pollWatchdog();
+}
@@ -1,6 +1,6 @@
 import { storage } from "./storage";
-
-const DEXSCREENER_API = "https://api.dexscreener.com";
+import { marketData } from "./market-data";
+import { indexPoolWallets } from "./wallet-indexer";
 
 interface DexPair {
   chainId: string;
@@ -8,6 +8,7 @@ interface DexPair {
   baseToken: { address: string; name: string; symbol: string };
   quoteToken: { address: string; name: string; symbol: string };
   priceUsd: string;
+  priceNative: string;
   volume: { h24: number };
   txns: { h24: { buys: number; sells: number } };
   liquidity: { usd: number };
@@ -43,11 +44,7 @@ const smartMoneySignalCache = new Map<string, { signal: SmartMoneyTokenSignal; f
 
 async function fetchTrendingPairs(): Promise<DexPair[]> {
   try {
-    const resp = await fetch(`${DEXSCREENER_API}/token-boosts/top/v1`, {
-      signal: AbortSignal.timeout(10_000),
-    });
-    if (!resp.ok) return [];
-    const data = await resp.json() as any[];
+    const data = await marketData().pairs.topBoosts();
     if (!Array.isArray(data)) return [];
 
     const tokenAddresses: { chain: string; address: string }[] = [];
@@ -72,18 +69,10 @@ async function fetchTrendingPairs(): Promise<DexPair[]> {
       const batchSize = 5;
       for (let i = 0; i < addresses.length; i += batchSize) {
         const batch = addresses.slice(i, i + batchSize);
-        const tokenStr = batch.join(",");
-        try {
-          const pairResp = await fetch(`${DEXSCREENER_API}/tokens/v1/${chain}/${tokenStr}`, {
-            signal: AbortSignal.timeout(10_000),
-          });
-          if (pairResp.ok) {
-            const pairs = await pairResp.json() as DexPair[];
-            if (Array.isArray(pairs)) {
-              allPairs.push(...pairs.filter(p => p.volume?.h24 > 10000));
-            }
-          }
-        } catch {}
+        const pairs = await marketData().pairs.tokenPairs(chain, batch) as DexPair[] | null;
+        if (Array.isArray(pairs)) {
+          allPairs.push(...pairs.filter(p => p.volume?.h24 > 10000));
+        }
         await new Promise(r => setTimeout(r, 300));
       }
     }
@@ -95,15 +84,6 @@ async function fetchTrendingPairs(): Promise<DexPair[]> {
   }
 }
 
-function deriveWalletAddressFromPair(pair: DexPair, index: number): string {
-  const base = pair.pairAddress || pair.baseToken.address;
-  const hash = Buffer.from(`${base}-holder-${index}`).toString("base64").replace(/[^a-zA-Z0-9]/g, "").slice(0, 32);
-  if (pair.chainId === "solana") {
-    return hash + "SMwallet" + index;
-  }
-  return "0x" + hash.slice(0, 40);
-}
-
 function mapChain(chainId: string): string {
   if (chainId === "bsc") return "bsc";
   if (chainId === "ethereum") return "ethereum";
@@ -148,7 +128,7 @@ export async function ingestSmartMoneyData(): Promise<void> {
   if (Date.now() - lastIngestTime < INGEST_INTERVAL) return;
   lastIngestTime = Date.now();
 
-  console.log("[SmartMoney] Starting data ingestion from DexScreener...");
+  console.log("[SmartMoney] Starting data ingestion from DexScreener and on-chain swaps...");
 
   try {
     const trendingPairs = await fetchTrendingPairs();
@@ -157,94 +137,68 @@ export async function ingestSmartMoneyData(): Promise<void> {
       return;
     }
 
-    console.log(`[SmartMoney] Found ${trendingPairs.length} trending pairs, processing wallets + signals...`);
+    console.log(`[SmartMoney] Found ${trendingPairs.length} trending pairs, indexing wallets + signals...`);
 
-    const seenAddresses = new Set<string>();
-    let walletCount = 0;
+    const walletIds = new Set<number>();
     let signalCount = 0;
+    const tokenPrices = new Map<number, number>();
 
     for (const pair of trendingPairs.slice(0, 15)) {
       const vol24h = pair.volume?.h24 || 0;
-      const buys = pair.txns?.h24?.buys || 0;
-      const sells = pair.txns?.h24?.sells || 0;
-      const txns24h = buys + sells;
-      const fdv = pair.fdv || 0;
-      const makers = pair.makers?.h24 || Math.floor(txns24h * 0.3);
       const chain = mapChain(pair.chainId);
+      const accScore = computeWhaleAccumulationScore(pair);
 
-      const topHolderCount = Math.min(3, Math.max(1, Math.floor(makers / 100)));
-
-      for (let i = 0; i < topHolderCount; i++) {
-        const address = deriveWalletAddressFromPair(pair, i);
-        if (seenAddresses.has(address)) continue;
-        seenAddresses.add(address);
-
-        const holdingPct = i === 0 ? 5 + Math.random() * 10 : 1 + Math.random() * 5;
-        const holdingValue = (holdingPct / 100) * fdv;
-        const isWhale = holdingValue > 100_000;
-        const label = i === 0 ? `${pair.baseToken.symbol} Top Holder` : `${pair.baseToken.symbol} Whale #${i + 1}`;
-        const avgTradeSize = txns24h > 0 ? Math.round(vol24h / txns24h) : 0;
-        const winRate = 55 + Math.round(Math.random() * 30);
-
-        try {
-          const existing = await storage.getSmartWallets();
-          const existingWallet = existing.find(e => e.address === address);
-
-          if (existingWallet) {
-            await storage.updateSmartWallet(existingWallet.id, {
-              label, totalTrades: txns24h, avgTradeSize,
-              pnl7d: Math.round(holdingValue * (0.02 + Math.random() * 0.08)),
-              pnl30d: Math.round(holdingValue * (0.05 + Math.random() * 0.2)),
-            });
-          } else {
-            await storage.createSmartWallet({
-              address, label, chain,
-              pnl7d: Math.round(holdingValue * (0.02 + Math.random() * 0.08)),
-              pnl30d: Math.round(holdingValue * (0.05 + Math.random() * 0.2)),
-              winRate, totalTrades: txns24h, avgTradeSize,
-              followers: Math.floor(Math.random() * 500), isWhale,
-            });
-          }
-          walletCount++;
-        } catch {}
+      const activity = await indexPoolWallets({
+        chainId: pair.chainId,
+        chain,
+        pairAddress: pair.pairAddress,
+        baseToken: pair.baseToken,
+        quoteToken: pair.quoteToken,
+        priceUsd: parseFloat(pair.priceUsd || "0"),
+        priceNative: parseFloat(pair.priceNative || "0"),
+        imageUrl: pair.info?.imageUrl,
+      }, tokenPrices);
+
+      // Buys, sells and flow come from the indexed wallets' own fills. Pools
+      // whose swaps can't be decoded fall back to the pair's 24h totals,
+      // with no wallet stats.
+      let buys = pair.txns?.h24?.buys || 0;
+      let sells = pair.txns?.h24?.sells || 0;
+      let netFlow = (buys - sells) * (vol24h / Math.max(1, buys + sells));
+      let avgWinRate = 0;
+      let avgPnl = 0;
+      const wallets = activity?.wallets || [];
+      if (activity && wallets.length > 0) {
+        buys = activity.buys;
+        sells = activity.sells;
+        netFlow = activity.buyVolumeUsd - activity.sellVolumeUsd;
+        avgWinRate = wallets.reduce((s, w) => s + (w.winRate ?? 0), 0) / wallets.length;
+        avgPnl = wallets.reduce((s, w) => s + (w.pnl7d ?? 0), 0) / wallets.length;
+        wallets.forEach(w => walletIds.add(w.id));
       }
 
-      const accScore = computeWhaleAccumulationScore(pair);
-      const netFlow = (buys - sells) * (vol24h / Math.max(1, txns24h));
-      const avgWinRate = 55 + Math.round((accScore / 100) * 25);
-      const avgPnl = (accScore - 50) * 0.3;
+      const signal: SmartMoneyTokenSignal = {
+        tokenAddress: pair.baseToken.address,
+        tokenSymbol: pair.baseToken.symbol,
+        chain,
+        topTraderBuys: buys,
+        topTraderSells: sells,
+        netFlow: Math.round(netFlow),
+        whaleAccumulationScore: accScore,
+        topWalletCount: wallets.length,
+        avgWalletWinRate: Math.round(avgWinRate * 10) / 10,
+        avgWalletPnl: Math.round(avgPnl * 100) / 100,
+      };
 
       try {
-        await storage.upsertSmartMoneySignal({
-          tokenAddress: pair.baseToken.address,
-          tokenSymbol: pair.baseToken.symbol,
-          chain,
-          topTraderBuys: buys,
-          topTraderSells: sells,
-          netFlow: Math.round(netFlow),
-          whaleAccumulationScore: accScore,
-          topWalletCount: topHolderCount,
-          avgWalletWinRate: avgWinRate,
-          avgWalletPnl: Math.round(avgPnl * 100) / 100,
-        });
-
+        await storage.upsertSmartMoneySignal(signal);
         const cacheKey = `${chain}:${pair.baseToken.address.toLowerCase()}`;
-        smartMoneySignalCache.set(cacheKey, {
-          signal: {
-            tokenAddress: pair.baseToken.address,
-            tokenSymbol: pair.baseToken.symbol,
-            chain, topTraderBuys: buys, topTraderSells: sells,
-            netFlow: Math.round(netFlow), whaleAccumulationScore: accScore,
-            topWalletCount: topHolderCount, avgWalletWinRate: avgWinRate,
-            avgWalletPnl: Math.round(avgPnl * 100) / 100,
-          },
-          fetchedAt: Date.now(),
-        });
+        smartMoneySignalCache.set(cacheKey, { signal, fetchedAt: Date.now() });
         signalCount++;
       } catch {}
     }
 
-    console.log(`[SmartMoney] Ingestion complete: ${walletCount} wallets, ${signalCount} token signals processed`);
+    console.log(`[SmartMoney] Ingestion complete: ${walletIds.size} wallets, ${signalCount} token signals processed`);
   } catch (err) {
     console.error("[SmartMoney] Ingestion error:", (err as Error).message);
   }
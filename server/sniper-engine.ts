@@ -0,0 +1,234 @@
+import { storage } from "./storage";
+import type { SniperRule } from "@shared/schema";
+import { getLiveMemeTokens, type LiveMemeToken } from "./live-memes";
+import { getTokenSecurity, isSupportedChain, type TokenSecurityResult } from "./goplus";
+import { getSolanaTokenHolders } from "./solana-holders";
+import { executeChainSwap } from "./onchain-swap";
+import { fetchOnChainBalance, decryptKey } from "./wallet-utils";
+import { sendToUser } from "./live-feed";
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const MAX_PAIR_AGE_MS = 30 * 60 * 1000;
+const MAX_TAX_PERCENT = 10;
+const MIN_SECURITY_SCORE = 50;
+// getTokenLargestAccounts returns at most this many accounts.
+const SOLANA_LARGEST_ACCOUNTS = 20;
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+let baselined = false;
+
+const seenPairs = new Set<string>();
+const evaluated = new Map<number, Set<string>>();
+
+interface HolderStats {
+  holders: number | null;
+  // The token may have more holders than `holders`; only a count that
+  // reaches the rule's minimum passes.
+  holdersLowerBound?: boolean;
+  devHoldingPercent: number | null;
+}
+
+function pairKey(token: LiveMemeToken): string {
+  return `${token.chain}:${token.address.toLowerCase()}`;
+}
+
+function isFreshPair(token: LiveMemeToken): boolean {
+  if (!token.createdAt) return baselined;
+  return Date.now() - new Date(token.createdAt).getTime() <= MAX_PAIR_AGE_MS;
+}
+
+// Dexscreener pairs carry no holder data, so fill it from GoPlus on EVM
+// chains and from the largest token accounts on Solana. On Solana the top
+// account is normally the pool/bonding curve, so the next largest account is
+// used as the dev-holding proxy. A full page of accounts only shows there are
+// at least that many holders, so the feed's count is used when it is higher.
+async function getHolderStats(token: LiveMemeToken, security: TokenSecurityResult | null): Promise<HolderStats> {
+  if (security) {
+    return { holders: security.holderCount, devHoldingPercent: security.creatorPercent };
+  }
+  if (token.chain === "solana") {
+    const data = await getSolanaTokenHolders(token.address);
+    if (data && data.totalSupply > 0) {
+      const nonZero = data.holders.filter(h => h.uiAmount > 0);
+      const second = nonZero[1];
+      const capped = data.holders.length >= SOLANA_LARGEST_ACCOUNTS;
+      const holders = capped && token.holders != null && token.holders > nonZero.length ? token.holders : nonZero.length;
+      return {
+        holders,
+        holdersLowerBound: capped && holders === nonZero.length,
+        devHoldingPercent: second ? (second.uiAmount / data.totalSupply) * 100 : 0,
+      };
+    }
+  }
+  return { holders: token.holders, devHoldingPercent: token.devWalletPercent };
+}
+
+export function checkRuleCriteria(rule: SniperRule, token: LiveMemeToken, stats: HolderStats): string[] {
+  const failed: string[] = [];
+  const minLiquidity = rule.minLiquidity ?? 0;
+  const maxMcap = rule.maxMcap ?? 0;
+  const minHolders = rule.minHolders ?? 0;
+  const maxDevHolding = rule.maxDevHolding ?? 100;
+
+  if ((token.liquidity ?? 0) < minLiquidity) {
+    failed.push(`liquidity $${Math.round(token.liquidity ?? 0)} < $${minLiquidity}`);
+  }
+  if (maxMcap > 0 && (token.marketCap ?? 0) > maxMcap) {
+    failed.push(`mcap $${Math.round(token.marketCap ?? 0)} > $${maxMcap}`);
+  }
+  if (minHolders > 0) {
+    if (stats.holders == null) {
+      failed.push("holder count unavailable");
+    } else if (stats.holders < minHolders) {
+      failed.push(stats.holdersLowerBound
+        ? `holders ${stats.holders}+ (cannot confirm ${minHolders})`
+        : `holders ${stats.holders} < ${minHolders}`);
+    }
+  }
+  if (stats.devHoldingPercent != null && stats.devHoldingPercent > maxDevHolding) {
+    failed.push(`dev holding ${stats.devHoldingPercent.toFixed(1)}% > ${maxDevHolding}%`);
+  }
+  return failed;
+}
+
+export function checkSecurityGate(security: TokenSecurityResult): string[] {
+  const failed: string[] = [];
+  if (security.isHoneypot) failed.push("honeypot");
+  if (security.buyTax > MAX_TAX_PERCENT) failed.push(`buy tax ${security.buyTax}%`);
+  if (security.sellTax > MAX_TAX_PERCENT) failed.push(`sell tax ${security.sellTax}%`);
+  if (security.hasHiddenOwner) failed.push("hidden owner");
+  if (security.canTakeBackOwnership) failed.push("owner can reclaim ownership");
+  if (security.transferPausable) failed.push("transfers pausable");
+  if (security.overallScore < MIN_SECURITY_SCORE) failed.push(`security score ${security.overallScore} < ${MIN_SECURITY_SCORE}`);
+  return failed;
+}
+
+async function reject(rule: SniperRule, token: LiveMemeToken, failedCriteria: string[], status: "rejected" | "failed" = "rejected") {
+  try {
+    const execution = await storage.createSniperExecution({
+      ruleId: rule.id,
+      chain: token.chain,
+      tokenAddress: token.address,
+      tokenSymbol: token.symbol,
+      status,
+      failedCriteria,
+      price: token.price,
+    });
+    sendToUser(rule.userId, { type: "snipe_rejected", data: { ...execution, ruleName: rule.name } });
+  } catch (err) {
+    console.error(`[Sniper] Failed to record rejection for rule ${rule.id}:`, err);
+  }
+}
+
+async function snipe(rule: SniperRule, token: LiveMemeToken) {
+  if (await storage.hasSniperExecution(rule.id, token.chain, token.address)) return;
+
+  const security = isSupportedChain(token.chain) ? await getTokenSecurity(token.chain, token.address) : null;
+  const stats = await getHolderStats(token, security);
+  const failed = checkRuleCriteria(rule, token, stats);
+
+  if (isSupportedChain(token.chain)) {
+    if (!security) failed.push("GoPlus security check unavailable");
+    else failed.push(...checkSecurityGate(security));
+  }
+  if (failed.length > 0) return reject(rule, token, failed);
+
+  if (!rule.userId) return reject(rule, token, ["rule has no owner wallet"], "failed");
+  const wallet = await storage.getGeneratedWallet(rule.userId, token.chain);
+  if (!wallet) return reject(rule, token, [`no ${token.chain} wallet`], "failed");
+
+  const amount = rule.autoBuyAmount ?? 0;
+  if (amount <= 0) return reject(rule, token, ["autoBuyAmount is zero"], "failed");
+  const balance = await fetchOnChainBalance(token.chain, wallet.address);
+  if (balance < amount) {
+    return reject(rule, token, [`insufficient balance ${balance.toFixed(4)} < ${amount}`], "failed");
+  }
+
+  const privateKey = decryptKey(wallet.encryptedPrivateKey);
+  // Another instance, or this one before a restart, may have got here first.
+  // A claim left "executing" by a crash keeps blocking the pair, since the
+  // buy may have gone through.
+  const claim = await storage.claimSniperExecution({
+    ruleId: rule.id,
+    chain: token.chain,
+    tokenAddress: token.address,
+    tokenSymbol: token.symbol,
+    status: "executing",
+    failedCriteria: [],
+    amount,
+    price: token.price,
+  });
+  if (!claim) return;
+
+  const slippageBps = Math.max(1, Math.min(5000, Math.round((rule.slippage ?? 15) * 100)));
+  const result = await executeChainSwap(privateKey, token.chain, token.address, amount, "buy", slippageBps);
+  if (!result.success) {
+    const failed = await storage.updateSniperExecution(claim.id, {
+      status: "failed", failedCriteria: [result.error || "on-chain swap failed"],
+    });
+    sendToUser(rule.userId, { type: "snipe_rejected", data: { ...failed, ruleName: rule.name } });
+    return;
+  }
+
+  const execution = await storage.updateSniperExecution(claim.id, { status: "executed", txHash: result.txHash });
+  sendToUser(rule.userId, { type: "snipe_executed", data: { ...execution, ruleName: rule.name, explorerUrl: result.explorerUrl } });
+  console.log(`[Sniper] Rule "${rule.name}" sniped ${token.symbol} on ${token.chain} for ${amount} (${result.txHash})`);
+}
+
+async function pollNewPairs() {
+  if (polling) return;
+  polling = true;
+  try {
+    const rules = await storage.getEnabledSniperRules();
+    const tokens = await getLiveMemeTokens();
+
+    const fresh: LiveMemeToken[] = [];
+    for (const token of tokens) {
+      const key = pairKey(token);
+      if (seenPairs.has(key)) continue;
+      seenPairs.add(key);
+      if (isFreshPair(token)) fresh.push(token);
+    }
+    baselined = true;
+
+    for (const rule of rules) {
+      const done = evaluated.get(rule.id) || new Set<string>();
+      evaluated.set(rule.id, done);
+      for (const token of fresh) {
+        if (rule.chain && rule.chain !== token.chain) continue;
+        const key = pairKey(token);
+        if (done.has(key)) continue;
+        done.add(key);
+        try {
+          await snipe(rule, token);
+        } catch (err: any) {
+          console.error(`[Sniper] Error evaluating ${token.symbol} for rule ${rule.id}:`, err);
+          await reject(rule, token, [err.message || "evaluation error"], "failed");
+        }
+      }
+    }
+
+    if (fresh.length > 0) {
+      console.log(`[Sniper] Evaluated ${fresh.length} new pairs against ${rules.length} rule(s)`);
+    }
+  } catch (err) {
+    console.error("[Sniper] Error polling new pairs:", err);
+  } finally {
+    polling = false;
+  }
+}
+
+export function startSniperEngine() {
+  console.log(`[Sniper] Starting sniper engine (polling every ${POLL_INTERVAL_MS / 1000}s)`);
+  pollNewPairs();
+  intervalId = setInterval(pollNewPairs, POLL_INTERVAL_MS);
+}
+
+export function stopSniperEngine() {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("[Sniper] Sniper engine stopped");
+  }
+}
@@ -1,6 +1,6 @@
 import { storage } from "./storage";
+import { marketData } from "./market-data";
 
-const LUNARCRUSH_PUBLIC_API = "https://lunarcrush.com/api4/public";
 const FETCH_INTERVAL = 300_000;
 const CACHE_TTL = 120_000;
 
@@ -32,17 +32,12 @@ const CRYPTO_SYMBOLS = new Set([
 
 async function fetchLunarCrushCoins(): Promise<LunarCrushCoin[]> {
   try {
-    const resp = await fetch(`${LUNARCRUSH_PUBLIC_API}/coins/list/v1?sort=galaxy_score&limit=100`, {
-      signal: AbortSignal.timeout(15_000),
-      headers: { "Accept": "application/json" },
-    });
-
-    if (!resp.ok) {
-      console.log(`[SocialSentiment] LunarCrush returned ${resp.status}, falling back to DexScreener-based signals`);
+    const json = await marketData().social.lunarCrushCoins();
+    if (!json) {
+      console.log("[SocialSentiment] LunarCrush request failed, falling back to DexScreener-based signals");
       return await generateDexScreenerBasedSignals();
     }
 
-    const json = await resp.json() as any;
     const data = json?.data ?? json;
     if (!Array.isArray(data)) {
       console.log("[SocialSentiment] Unexpected response format, falling back to DexScreener-based signals");
@@ -72,68 +67,49 @@ async function generateDexScreenerBasedSignals(): Promise<LunarCrushCoin[]> {
   if (cachedCoins.length > 0) return cachedCoins;
 
   try {
-    const resp = await fetch("https://api.dexscreener.com/token-boosts/top/v1", {
-      signal: AbortSignal.timeout(10_000),
-    });
-    if (!resp.ok) return generateBaselineSignals();
-
-    const data = await resp.json() as any[];
+    const data = await marketData().pairs.topBoosts();
     if (!Array.isArray(data)) return generateBaselineSignals();
 
     const symbolMap = new Map<string, LunarCrushCoin>();
 
-    const pairAddresses = data.slice(0, 30)
-      .filter((item: any) => item.chainId && item.tokenAddress)
-      .map((item: any) => `${item.chainId}/${item.tokenAddress}`);
-
-    if (pairAddresses.length > 0) {
-      try {
-        const chunks = [];
-        for (let i = 0; i < pairAddresses.length; i += 30) {
-          chunks.push(pairAddresses.slice(i, i + 30));
-        }
-        for (const chunk of chunks) {
-          const pairResp = await fetch(`https://api.dexscreener.com/tokens/v1/${chunk.join(",")}`, {
-            signal: AbortSignal.timeout(10_000),
-          });
-          if (pairResp.ok) {
-            const pairData = await pairResp.json() as any[];
-            if (Array.isArray(pairData)) {
-              for (const pair of pairData) {
-                const sym = (pair.baseToken?.symbol || "").toUpperCase();
-                if (!sym || sym.length < 2 || symbolMap.has(sym)) continue;
-
-                const boostItem = data.find((d: any) =>
-                  d.tokenAddress?.toLowerCase() === pair.baseToken?.address?.toLowerCase()
-                );
-                const boosts = boostItem?.totalAmount || 0;
-                const links = boostItem?.links || [];
-                const hasTwitter = links.some((l: any) => l.type === "twitter" || l.label?.toLowerCase().includes("twitter"));
-                const hasTelegram = links.some((l: any) => l.type === "telegram" || l.label?.toLowerCase().includes("telegram"));
-                const socialLinks = (hasTwitter ? 1 : 0) + (hasTelegram ? 1 : 0);
-
-                const galaxyScore = Math.min(100, 30 + boosts * 2 + socialLinks * 15 + (pair.txns?.h24?.buys > 1000 ? 10 : 0));
-                const socialVolume = boosts * 100 + (hasTwitter ? 5000 : 0) + (hasTelegram ? 3000 : 0) + (pair.txns?.h24?.buys || 0);
-
-                symbolMap.set(sym, {
-                  id: symbolMap.size + 1,
-                  symbol: sym,
-                  name: pair.baseToken?.name || sym,
-                  price: parseFloat(pair.priceUsd) || 0,
-                  galaxy_score: galaxyScore,
-                  alt_rank: symbolMap.size + 1,
-                  social_volume: socialVolume,
-                  social_dominance: 0,
-                  sentiment: boosts > 50 ? 72 : boosts > 20 ? 60 : 50,
-                  interactions_24h: boosts * 50 + (pair.txns?.h24?.buys || 0),
-                  categories: "",
-                });
-              }
-            }
-          }
-        }
-      } catch (pairErr) {
-        // continue with what we have
+    const byChain = new Map<string, string[]>();
+    for (const item of data.slice(0, 30)) {
+      if (!item.chainId || !item.tokenAddress) continue;
+      byChain.set(item.chainId, [...(byChain.get(item.chainId) || []), item.tokenAddress]);
+    }
+
+    for (const [chainId, addresses] of Array.from(byChain.entries())) {
+      const pairData = await marketData().pairs.tokenPairs(chainId, addresses);
+      if (!Array.isArray(pairData)) continue;
+      for (const pair of pairData) {
+        const sym = (pair.baseToken?.symbol || "").toUpperCase();
+        if (!sym || sym.length < 2 || symbolMap.has(sym)) continue;
+
+        const boostItem = data.find((d: any) =>
+          d.tokenAddress?.toLowerCase() === pair.baseToken?.address?.toLowerCase()
+        );
+        const boosts = boostItem?.totalAmount || 0;
+        const links = boostItem?.links || [];
+        const hasTwitter = links.some((l: any) => l.type === "twitter" || l.label?.toLowerCase().includes("twitter"));
+        const hasTelegram = links.some((l: any) => l.type === "telegram" || l.label?.toLowerCase().includes("telegram"));
+        const socialLinks = (hasTwitter ? 1 : 0) + (hasTelegram ? 1 : 0);
+
+        const galaxyScore = Math.min(100, 30 + boosts * 2 + socialLinks * 15 + (pair.txns?.h24?.buys > 1000 ? 10 : 0));
+        const socialVolume = boosts * 100 + (hasTwitter ? 5000 : 0) + (hasTelegram ? 3000 : 0) + (pair.txns?.h24?.buys || 0);
+
+        symbolMap.set(sym, {
+          id: symbolMap.size + 1,
+          symbol: sym,
+          name: pair.baseToken?.name || sym,
+          price: parseFloat(pair.priceUsd) || 0,
+          galaxy_score: galaxyScore,
+          alt_rank: symbolMap.size + 1,
+          social_volume: socialVolume,
+          social_dominance: 0,
+          sentiment: boosts > 50 ? 72 : boosts > 20 ? 60 : 50,
+          interactions_24h: boosts * 50 + (pair.txns?.h24?.buys || 0),
+          categories: "",
+        });
       }
     }
 
@@ -20,7 +20,7 @@ export interface SolanaHolderResult {
 let lastRpcCall = 0;
 const MIN_RPC_INTERVAL = 500;
 
-async function solanaRpcCall(method: string, params: any[], retries = 3): Promise<any> {
+export async function solanaRpcCall(method: string, params: any[], retries = 3): Promise<any> {
   for (let attempt = 0; attempt < retries; attempt++) {
     const now = Date.now();
     const waitTime = Math.max(0, MIN_RPC_INTERVAL - (now - lastRpcCall));
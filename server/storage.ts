@@ -29,6 +29,20 @@ import {
   type CryptoNews, type InsertCryptoNews,
   type FearGreedIndexRecord, type InsertFearGreedIndex,
   type LiquidityEventRecord, type InsertLiquidityEvent,
+  type DcaExecution, type InsertDcaExecution,
+  type CopyPosition, type InsertCopyPosition,
+  type CopyTradeFill, type InsertCopyTradeFill,
+  type SniperExecution, type InsertSniperExecution,
+  type FeeLedgerEntry, type InsertFeeLedgerEntry,
+  type Backtest, type InsertBacktest,
+  type MarketSnapshot, type InsertMarketSnapshot,
+  type DecisionSnapshot, type InsertDecisionSnapshot,
+  type CustomStrategy, type InsertCustomStrategy,
+  type CustomStrategyVersion, type InsertCustomStrategyVersion,
+  type AgentDecisionUsage, type AgentRuntimeState, type AgentRiskSettings,
+  type SchedulerInstance, type DecisionExplanationRow,
+  type AgentTournament, type InsertAgentTournament,
+  type Candle, type InsertCandle,
   tokens, watchlist, trades, priceHistory,
   smartWallets, walletHoldings, walletTrades,
   copyTradeConfigs, sniperRules, positions, safetyReports,
@@ -37,10 +51,14 @@ import {
   generatedWallets, subscriptions, subscriptionPayments,
   promoCodes, promoRedemptions, signalPerformance,
   tokenSocialMetrics, smartMoneySignals,
-  cryptoNews, fearGreedIndex, liquidityEvents,
+  cryptoNews, fearGreedIndex, liquidityEvents, dcaExecutions,
+  copyPositions, copyTradeFills, sniperExecutions, feeLedger, backtests,
+  marketSnapshots, decisionSnapshots, customStrategies, customStrategyVersions,
+  agentDecisionUsage, agentRuntimeState, agentRiskSettings,
+  schedulerLeases, schedulerInstances, decisionExplanations, agentTournaments, candles,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, sql, gte, lte, ilike } from "drizzle-orm";
+import { eq, desc, and, or, sql, gt, gte, lt, lte, ilike, isNull, isNotNull, inArray, notInArray } from "drizzle-orm";
 
 export interface IStorage {
   getTokens(): Promise<Token[]>;
@@ -49,9 +67,9 @@ export interface IStorage {
   createToken(token: InsertToken): Promise<Token>;
   updateTokenPrice(id: number, price: number, change1h: number, change24h: number): Promise<void>;
   updateToken(id: number, updates: Partial<{ price: number; priceChange1h: number | null; priceChange24h: number | null; volume24h: number | null; liquidity: number | null; marketCap: number | null; image: string | null }>): Promise<void>;
-  getWatchlist(): Promise<WatchlistItem[]>;
+  getWatchlist(userId: string): Promise<WatchlistItem[]>;
   addToWatchlist(item: InsertWatchlist): Promise<WatchlistItem>;
-  removeFromWatchlist(tokenId: number): Promise<void>;
+  removeFromWatchlist(userId: string, tokenId: number): Promise<void>;
   getTrades(limit?: number): Promise<Trade[]>;
   getTradesByToken(tokenId: number): Promise<Trade[]>;
   createTrade(trade: InsertTrade): Promise<Trade>;
@@ -61,27 +79,51 @@ export interface IStorage {
   getTokenCount(): Promise<number>;
   getSmartWallets(): Promise<SmartWallet[]>;
   getSmartWallet(id: number): Promise<SmartWallet | undefined>;
+  getSmartWalletByAddress(address: string): Promise<SmartWallet | undefined>;
   createSmartWallet(wallet: InsertSmartWallet): Promise<SmartWallet>;
-  updateSmartWallet(id: number, updates: Partial<InsertSmartWallet>): Promise<SmartWallet | undefined>;
+  updateSmartWallet(id: number, updates: Partial<InsertSmartWallet> & { lastActive?: Date }): Promise<SmartWallet | undefined>;
   getWalletHoldings(walletId: number): Promise<WalletHolding[]>;
   createWalletHolding(holding: InsertWalletHolding): Promise<WalletHolding>;
+  replaceWalletHoldings(walletId: number, holdings: InsertWalletHolding[]): Promise<void>;
   getWalletTrades(walletId: number, limit?: number): Promise<WalletTrade[]>;
+  getWalletTradesSince(walletId: number, since: Date): Promise<WalletTrade[]>;
   createWalletTrade(trade: InsertWalletTrade): Promise<WalletTrade>;
-  getCopyTradeConfigs(): Promise<CopyTradeConfig[]>;
+  getCopyTradeConfigs(userId: string): Promise<CopyTradeConfig[]>;
+  getCopyTradeConfig(id: number): Promise<CopyTradeConfig | undefined>;
+  getEnabledCopyTradeConfigs(): Promise<CopyTradeConfig[]>;
+  getWalletTradesAfter(afterId: number, walletIds: number[]): Promise<WalletTrade[]>;
+  getLatestWalletTradeId(): Promise<number>;
+  getLatestCopiedSourceTradeId(): Promise<number>;
+  hasCopyTradeFill(configId: number, sourceTradeId: number): Promise<boolean>;
+  getCopyTradeFills(userId: string, limit?: number): Promise<CopyTradeFill[]>;
+  createCopyTradeFill(fill: InsertCopyTradeFill): Promise<CopyTradeFill>;
+  getOpenCopyPositions(userId?: string): Promise<CopyPosition[]>;
+  getOpenCopyPosition(configId: number, tokenId: number): Promise<CopyPosition | undefined>;
+  createCopyPosition(position: InsertCopyPosition): Promise<CopyPosition>;
+  updateCopyPosition(id: number, updates: Partial<CopyPosition>): Promise<CopyPosition>;
   createCopyTradeConfig(config: InsertCopyTradeConfig): Promise<CopyTradeConfig>;
   updateCopyTradeConfig(id: number, updates: Partial<InsertCopyTradeConfig>): Promise<CopyTradeConfig>;
   deleteCopyTradeConfig(id: number): Promise<void>;
-  getSniperRules(): Promise<SniperRule[]>;
+  getSniperRules(userId: string): Promise<SniperRule[]>;
+  getSniperRule(id: number): Promise<SniperRule | undefined>;
+  getEnabledSniperRules(): Promise<SniperRule[]>;
+  hasSniperExecution(ruleId: number, chain: string, tokenAddress: string): Promise<boolean>;
+  getSniperExecutions(userId: string, limit?: number): Promise<SniperExecution[]>;
+  createSniperExecution(execution: InsertSniperExecution): Promise<SniperExecution>;
+  claimSniperExecution(execution: InsertSniperExecution): Promise<SniperExecution | undefined>;
+  updateSniperExecution(id: number, updates: Partial<InsertSniperExecution>): Promise<SniperExecution>;
   createSniperRule(rule: InsertSniperRule): Promise<SniperRule>;
   updateSniperRule(id: number, updates: Partial<InsertSniperRule>): Promise<SniperRule>;
   deleteSniperRule(id: number): Promise<void>;
-  getPositions(): Promise<Position[]>;
+  getPositions(userId: string): Promise<Position[]>;
+  getOpenManualPositions(): Promise<Position[]>;
   createPosition(position: InsertPosition): Promise<Position>;
-  upsertPositionFromTrade(tokenId: number, tradeType: string, tradeAmount: number, tradePrice: number, chain: string): Promise<Position>;
+  upsertPositionFromTrade(userId: string, tokenId: number, tradeType: string, tradeAmount: number, tradePrice: number, chain: string): Promise<Position>;
   getSafetyReport(tokenId: number): Promise<SafetyReport | undefined>;
   getSafetyReports(): Promise<SafetyReport[]>;
   createSafetyReport(report: InsertSafetyReport): Promise<SafetyReport>;
-  getAiAgents(): Promise<AiAgent[]>;
+  getAiAgents(userId: string): Promise<AiAgent[]>;
+  getResourceOwnerIds(): Promise<string[]>;
   getAiAgent(id: number): Promise<AiAgent | undefined>;
   getActiveAgents(): Promise<AiAgent[]>;
   createAiAgent(agent: InsertAiAgent): Promise<AiAgent>;
@@ -98,15 +140,27 @@ export interface IStorage {
   closeAgentPosition(id: number, exitPrice: number, realizedPnl: number): Promise<AgentPosition>;
   getOpenPositionByToken(agentId: number, tokenSymbol: string): Promise<AgentPosition | undefined>;
   getAllOpenPositions(): Promise<AgentPosition[]>;
-  getPriceAlerts(): Promise<PriceAlert[]>;
+  getPriceAlerts(userId: string): Promise<PriceAlert[]>;
+  getPriceAlert(id: number): Promise<PriceAlert | undefined>;
+  getActivePriceAlerts(): Promise<PriceAlert[]>;
+  markPriceAlertTriggered(id: number, price: number): Promise<PriceAlert | undefined>;
   createPriceAlert(alert: InsertPriceAlert): Promise<PriceAlert>;
   updatePriceAlert(id: number, updates: Partial<PriceAlert>): Promise<PriceAlert>;
   deletePriceAlert(id: number): Promise<void>;
-  getLimitOrders(): Promise<LimitOrder[]>;
+  getLimitOrders(userId: string): Promise<LimitOrder[]>;
+  getLimitOrder(id: number): Promise<LimitOrder | undefined>;
+  getPendingLimitOrders(): Promise<LimitOrder[]>;
+  claimLimitOrder(id: number): Promise<LimitOrder | undefined>;
+  getStaleExecutingLimitOrders(claimedBefore: Date): Promise<LimitOrder[]>;
   createLimitOrder(order: InsertLimitOrder): Promise<LimitOrder>;
   updateLimitOrder(id: number, updates: Partial<LimitOrder>): Promise<LimitOrder>;
   deleteLimitOrder(id: number): Promise<void>;
-  getDcaConfigs(): Promise<DcaConfig[]>;
+  getDcaConfigs(userId: string): Promise<DcaConfig[]>;
+  getDcaConfig(id: number): Promise<DcaConfig | undefined>;
+  getEnabledDcaConfigs(): Promise<DcaConfig[]>;
+  claimDcaRun(id: number, previousRunAt: Date | null): Promise<DcaConfig | undefined>;
+  getDcaExecutions(userId: string, limit?: number): Promise<DcaExecution[]>;
+  createDcaExecution(execution: InsertDcaExecution): Promise<DcaExecution>;
   createDcaConfig(config: InsertDcaConfig): Promise<DcaConfig>;
   updateDcaConfig(id: number, updates: Partial<DcaConfig>): Promise<DcaConfig>;
   deleteDcaConfig(id: number): Promise<void>;
@@ -123,6 +177,7 @@ export interface IStorage {
   getExpiringSubscriptions(): Promise<Subscription[]>;
   getGracePeriodExpiredSubscriptions(): Promise<Subscription[]>;
   getExpiredPendingPayments(): Promise<SubscriptionPayment[]>;
+  releasePaymentAmounts(createdBefore: Date): Promise<number>;
   getUserSubscriptions(userId: string): Promise<Subscription[]>;
   createSubscription(sub: InsertSubscription): Promise<Subscription>;
   updateSubscription(id: number, updates: Partial<Subscription>): Promise<Subscription>;
@@ -131,6 +186,9 @@ export interface IStorage {
   getPendingPaymentsByUser(userId: string): Promise<SubscriptionPayment[]>;
   getUserPaymentHistory(userId: string): Promise<SubscriptionPayment[]>;
   updateSubscriptionPayment(id: number, updates: Partial<SubscriptionPayment>): Promise<SubscriptionPayment>;
+  getConfirmingPayments(): Promise<SubscriptionPayment[]>;
+  isPaymentTxHashUsed(txHash: string, excludePaymentId: number): Promise<boolean>;
+  confirmSubscriptionPayment(id: number, amountReceived: number): Promise<SubscriptionPayment | undefined>;
   createPromoCode(promo: InsertPromoCode): Promise<PromoCode>;
   getPromoCode(code: string): Promise<PromoCode | undefined>;
   getPromoCodeById(id: number): Promise<PromoCode | undefined>;
@@ -158,8 +216,71 @@ export interface IStorage {
 
   getLiquidityEvents(limit?: number): Promise<LiquidityEventRecord[]>;
   upsertLiquidityEvent(data: InsertLiquidityEvent): Promise<LiquidityEventRecord>;
+
+  createFeeLedgerEntry(entry: InsertFeeLedgerEntry): Promise<FeeLedgerEntry>;
+  getFeeLedgerEntry(id: number): Promise<FeeLedgerEntry | undefined>;
+  getFeeLedger(userId: string, limit?: number): Promise<FeeLedgerEntry[]>;
+  getFeeLedgerByStatus(status: string): Promise<FeeLedgerEntry[]>;
+  updateFeeLedgerEntry(id: number, updates: Partial<FeeLedgerEntry>): Promise<FeeLedgerEntry>;
+  isFeeTxHashUsed(txHash: string, excludeId: number): Promise<boolean>;
+
+  createBacktest(backtest: InsertBacktest): Promise<Backtest>;
+  getBacktest(id: number): Promise<Backtest | undefined>;
+  getBacktests(userId: string, limit?: number): Promise<Backtest[]>;
+  updateBacktest(id: number, updates: Partial<Backtest>): Promise<Backtest>;
+  deleteBacktest(id: number): Promise<void>;
+  interruptStaleBacktests(before: Date, keepIds: number[], userId?: string): Promise<number>;
+
+  createMarketSnapshot(snapshot: InsertMarketSnapshot): Promise<MarketSnapshot>;
+  getMarketSnapshot(id: number): Promise<MarketSnapshot | undefined>;
+  getMarketSnapshots(query: { userId: string; from?: Date; to?: Date; chain?: string; strategy?: string; ids?: number[]; limit?: number }): Promise<MarketSnapshot[]>;
+  createDecisionSnapshot(snapshot: InsertDecisionSnapshot): Promise<DecisionSnapshot>;
+  getDecisionSnapshot(id: number): Promise<DecisionSnapshot | undefined>;
+  getDecisionSnapshots(query: { userId: string; agentId?: number; from?: Date; to?: Date; limit?: number }): Promise<DecisionSnapshot[]>;
+  pruneSnapshots(before: Date): Promise<{ market: number; decisions: number }>;
+
+  getCustomStrategies(userId: string): Promise<CustomStrategy[]>;
+  getCustomStrategy(id: number): Promise<CustomStrategy | undefined>;
+  createCustomStrategy(strategy: InsertCustomStrategy, version: Omit<InsertCustomStrategyVersion, "strategyId" | "version">): Promise<{ strategy: CustomStrategy; version: CustomStrategyVersion }>;
+  addCustomStrategyVersion(strategyId: number, version: Omit<InsertCustomStrategyVersion, "strategyId" | "version">, name?: string): Promise<{ strategy: CustomStrategy; version: CustomStrategyVersion }>;
+  getCustomStrategyVersion(id: number): Promise<CustomStrategyVersion | undefined>;
+  getCustomStrategyVersions(strategyId: number): Promise<CustomStrategyVersion[]>;
+  getLatestCustomStrategyVersion(strategyId: number): Promise<CustomStrategyVersion | undefined>;
+  countAgentsUsingCustomStrategy(strategyId: number): Promise<number>;
+  deleteCustomStrategy(id: number): Promise<void>;
+
+  recordDecisionUsage(agentId: number, day: string, provider: string, delta: DecisionUsageDelta): Promise<void>;
+  getDecisionUsage(agentId: number, sinceDay: string): Promise<AgentDecisionUsage[]>;
+  getDecisionTokensForDay(agentId: number, day: string): Promise<number>;
+
+  getAgentRuntimeStates(agentIds?: number[]): Promise<AgentRuntimeState[]>;
+  saveAgentRuntimeState(agentId: number, state: string, expectedVersion: number): Promise<boolean>;
+  getAgentRiskSettings(userId: string): Promise<AgentRiskSettings | undefined>;
+  upsertAgentRiskSettings(userId: string, updates: Partial<AgentRiskSettings>): Promise<AgentRiskSettings>;
+  tripAgentKillSwitch(userId: string, reason: string): Promise<boolean>;
+  getOpenPositionsForAgents(agentIds: number[]): Promise<AgentPosition[]>;
+  getRealizedAgentPnl(agentIds: number[]): Promise<number>;
+  acquireSchedulerLease(name: string, holder: string, ttlMs: number, renew: boolean): Promise<boolean>;
+  setSchedulerLeaseExpiry(name: string, holder: string, expiresAt: Date): Promise<void>;
+  resetDailyTradeCounters(day: string): Promise<number>;
+  saveSchedulerHeartbeat(instanceId: string, stats: Partial<SchedulerInstance>): Promise<void>;
+  getSchedulerInstances(since: Date): Promise<SchedulerInstance[]>;
+  pruneSchedulerRows(before: Date): Promise<void>;
+  saveDecisionExplanation(logId: number, agentId: number, payload: string): Promise<void>;
+  getDecisionExplanation(logId: number): Promise<DecisionExplanationRow | undefined>;
+  pruneDecisionExplanations(before: Date): Promise<number>;
+  createAgentTournament(tournament: InsertAgentTournament): Promise<AgentTournament>;
+  getAgentTournament(id: number): Promise<AgentTournament | undefined>;
+  getAgentTournaments(userId: string, limit?: number): Promise<AgentTournament[]>;
+  updateAgentTournament(id: number, updates: Partial<AgentTournament>): Promise<AgentTournament>;
+  interruptStaleTournaments(userId: string, before: Date): Promise<number>;
+  getCandles(chain: string, address: string, resolution: string, since: Date, limit?: number): Promise<Candle[]>;
+  upsertCandles(rows: InsertCandle[]): Promise<void>;
+  pruneCandles(resolution: string, before: Date): Promise<number>;
 }
 
+export type DecisionUsageDelta = Partial<Pick<AgentDecisionUsage, "calls" | "failures" | "fallbacks" | "promptTokens" | "completionTokens">>;
+
 export class DatabaseStorage implements IStorage {
   async getTokens(): Promise<Token[]> {
     return db.select().from(tokens).orderBy(desc(tokens.volume24h));
@@ -202,8 +323,8 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getWatchlist(): Promise<WatchlistItem[]> {
-    return db.select().from(watchlist).orderBy(desc(watchlist.addedAt));
+  async getWatchlist(userId: string): Promise<WatchlistItem[]> {
+    return db.select().from(watchlist).where(eq(watchlist.userId, userId)).orderBy(desc(watchlist.addedAt));
   }
 
   async addToWatchlist(item: InsertWatchlist): Promise<WatchlistItem> {
@@ -211,8 +332,8 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async removeFromWatchlist(tokenId: number): Promise<void> {
-    await db.delete(watchlist).where(eq(watchlist.tokenId, tokenId));
+  async removeFromWatchlist(userId: string, tokenId: number): Promise<void> {
+    await db.delete(watchlist).where(and(eq(watchlist.userId, userId), eq(watchlist.tokenId, tokenId)));
   }
 
   async getTrades(limit = 50): Promise<Trade[]> {
@@ -265,12 +386,17 @@ export class DatabaseStorage implements IStorage {
     return wallet;
   }
 
+  async getSmartWalletByAddress(address: string): Promise<SmartWallet | undefined> {
+    const [wallet] = await db.select().from(smartWallets).where(eq(smartWallets.address, address));
+    return wallet;
+  }
+
   async createSmartWallet(wallet: InsertSmartWallet): Promise<SmartWallet> {
     const [created] = await db.insert(smartWallets).values(wallet).returning();
     return created;
   }
 
-  async updateSmartWallet(id: number, updates: Partial<InsertSmartWallet>): Promise<SmartWallet | undefined> {
+  async updateSmartWallet(id: number, updates: Partial<InsertSmartWallet> & { lastActive?: Date }): Promise<SmartWallet | undefined> {
     const [updated] = await db.update(smartWallets).set(updates).where(eq(smartWallets.id, id)).returning();
     return updated;
   }
@@ -284,6 +410,13 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async replaceWalletHoldings(walletId: number, holdings: InsertWalletHolding[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(walletHoldings).where(eq(walletHoldings.walletId, walletId));
+      if (holdings.length > 0) await tx.insert(walletHoldings).values(holdings);
+    });
+  }
+
   async getWalletTrades(walletId: number, limit = 20): Promise<WalletTrade[]> {
     return db.select().from(walletTrades)
       .where(eq(walletTrades.walletId, walletId))
@@ -291,13 +424,91 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getWalletTradesSince(walletId: number, since: Date): Promise<WalletTrade[]> {
+    return db.select().from(walletTrades)
+      .where(and(eq(walletTrades.walletId, walletId), gte(walletTrades.timestamp, since)))
+      .orderBy(walletTrades.timestamp, walletTrades.id);
+  }
+
   async createWalletTrade(trade: InsertWalletTrade): Promise<WalletTrade> {
     const [created] = await db.insert(walletTrades).values(trade).returning();
     return created;
   }
 
-  async getCopyTradeConfigs(): Promise<CopyTradeConfig[]> {
-    return db.select().from(copyTradeConfigs);
+  async getCopyTradeConfigs(userId: string): Promise<CopyTradeConfig[]> {
+    return db.select().from(copyTradeConfigs).where(eq(copyTradeConfigs.userId, userId));
+  }
+
+  async getCopyTradeConfig(id: number): Promise<CopyTradeConfig | undefined> {
+    const [config] = await db.select().from(copyTradeConfigs).where(eq(copyTradeConfigs.id, id));
+    return config;
+  }
+
+  async getEnabledCopyTradeConfigs(): Promise<CopyTradeConfig[]> {
+    return db.select().from(copyTradeConfigs).where(eq(copyTradeConfigs.enabled, true));
+  }
+
+  async getWalletTradesAfter(afterId: number, walletIds: number[]): Promise<WalletTrade[]> {
+    if (walletIds.length === 0) return [];
+    return db.select().from(walletTrades)
+      .where(and(gt(walletTrades.id, afterId), inArray(walletTrades.walletId, walletIds)))
+      .orderBy(walletTrades.id);
+  }
+
+  async getLatestWalletTradeId(): Promise<number> {
+    const [row] = await db.select({ maxId: sql<number>`coalesce(max(${walletTrades.id}), 0)` }).from(walletTrades);
+    return Number(row?.maxId ?? 0);
+  }
+
+  async getLatestCopiedSourceTradeId(): Promise<number> {
+    const [row] = await db.select({ maxId: sql<number>`coalesce(max(${copyTradeFills.sourceTradeId}), 0)` }).from(copyTradeFills);
+    return Number(row?.maxId ?? 0);
+  }
+
+  async hasCopyTradeFill(configId: number, sourceTradeId: number): Promise<boolean> {
+    const [row] = await db.select({ id: copyTradeFills.id }).from(copyTradeFills)
+      .where(and(eq(copyTradeFills.configId, configId), eq(copyTradeFills.sourceTradeId, sourceTradeId)));
+    return !!row;
+  }
+
+  async getCopyTradeFills(userId: string, limit = 100): Promise<CopyTradeFill[]> {
+    const rows = await db.select({ fill: copyTradeFills }).from(copyTradeFills)
+      .innerJoin(copyTradeConfigs, eq(copyTradeFills.configId, copyTradeConfigs.id))
+      .where(eq(copyTradeConfigs.userId, userId))
+      .orderBy(desc(copyTradeFills.createdAt))
+      .limit(limit);
+    return rows.map(r => r.fill);
+  }
+
+  async createCopyTradeFill(fill: InsertCopyTradeFill): Promise<CopyTradeFill> {
+    const [created] = await db.insert(copyTradeFills).values(fill).returning();
+    return created;
+  }
+
+  async getOpenCopyPositions(userId?: string): Promise<CopyPosition[]> {
+    if (!userId) {
+      return db.select().from(copyPositions).where(eq(copyPositions.status, "open"));
+    }
+    const rows = await db.select({ position: copyPositions }).from(copyPositions)
+      .innerJoin(copyTradeConfigs, eq(copyPositions.configId, copyTradeConfigs.id))
+      .where(and(eq(copyPositions.status, "open"), eq(copyTradeConfigs.userId, userId)));
+    return rows.map(r => r.position);
+  }
+
+  async getOpenCopyPosition(configId: number, tokenId: number): Promise<CopyPosition | undefined> {
+    const [position] = await db.select().from(copyPositions)
+      .where(and(eq(copyPositions.configId, configId), eq(copyPositions.tokenId, tokenId), eq(copyPositions.status, "open")));
+    return position;
+  }
+
+  async createCopyPosition(position: InsertCopyPosition): Promise<CopyPosition> {
+    const [created] = await db.insert(copyPositions).values(position).returning();
+    return created;
+  }
+
+  async updateCopyPosition(id: number, updates: Partial<CopyPosition>): Promise<CopyPosition> {
+    const [updated] = await db.update(copyPositions).set(updates).where(eq(copyPositions.id, id)).returning();
+    return updated;
   }
 
   async createCopyTradeConfig(config: InsertCopyTradeConfig): Promise<CopyTradeConfig> {
@@ -314,8 +525,58 @@ export class DatabaseStorage implements IStorage {
     await db.delete(copyTradeConfigs).where(eq(copyTradeConfigs.id, id));
   }
 
-  async getSniperRules(): Promise<SniperRule[]> {
-    return db.select().from(sniperRules).orderBy(desc(sniperRules.createdAt));
+  async getSniperRules(userId: string): Promise<SniperRule[]> {
+    return db.select().from(sniperRules).where(eq(sniperRules.userId, userId)).orderBy(desc(sniperRules.createdAt));
+  }
+
+  async getSniperRule(id: number): Promise<SniperRule | undefined> {
+    const [rule] = await db.select().from(sniperRules).where(eq(sniperRules.id, id));
+    return rule;
+  }
+
+  async getEnabledSniperRules(): Promise<SniperRule[]> {
+    return db.select().from(sniperRules).where(eq(sniperRules.enabled, true));
+  }
+
+  async hasSniperExecution(ruleId: number, chain: string, tokenAddress: string): Promise<boolean> {
+    const [row] = await db.select({ id: sniperExecutions.id }).from(sniperExecutions)
+      .where(and(
+        eq(sniperExecutions.ruleId, ruleId),
+        eq(sniperExecutions.chain, chain),
+        eq(sniperExecutions.tokenAddress, tokenAddress),
+        inArray(sniperExecutions.status, ["executing", "executed"]),
+      ));
+    return !!row;
+  }
+
+  async getSniperExecutions(userId: string, limit = 100): Promise<SniperExecution[]> {
+    const rows = await db.select({ execution: sniperExecutions }).from(sniperExecutions)
+      .innerJoin(sniperRules, eq(sniperExecutions.ruleId, sniperRules.id))
+      .where(eq(sniperRules.userId, userId))
+      .orderBy(desc(sniperExecutions.createdAt))
+      .limit(limit);
+    return rows.map(r => r.execution);
+  }
+
+  async createSniperExecution(execution: InsertSniperExecution): Promise<SniperExecution> {
+    const [created] = await db.insert(sniperExecutions).values(execution).returning();
+    return created;
+  }
+
+  // Undefined when the rule already bought or is buying the token.
+  async claimSniperExecution(execution: InsertSniperExecution): Promise<SniperExecution | undefined> {
+    try {
+      const [claimed] = await db.insert(sniperExecutions).values({ ...execution, status: "executing" }).returning();
+      return claimed;
+    } catch (err: any) {
+      if (err?.code === "23505") return undefined;
+      throw err;
+    }
+  }
+
+  async updateSniperExecution(id: number, updates: Partial<InsertSniperExecution>): Promise<SniperExecution> {
+    const [updated] = await db.update(sniperExecutions).set(updates).where(eq(sniperExecutions.id, id)).returning();
+    return updated;
   }
 
   async createSniperRule(rule: InsertSniperRule): Promise<SniperRule> {
@@ -332,8 +593,12 @@ export class DatabaseStorage implements IStorage {
     await db.delete(sniperRules).where(eq(sniperRules.id, id));
   }
 
-  async getPositions(): Promise<Position[]> {
-    return db.select().from(positions).orderBy(desc(positions.openedAt));
+  async getPositions(userId: string): Promise<Position[]> {
+    return db.select().from(positions).where(eq(positions.userId, userId)).orderBy(desc(positions.openedAt));
+  }
+
+  async getOpenManualPositions(): Promise<Position[]> {
+    return db.select().from(positions).where(gt(positions.size, 0));
   }
 
   async createPosition(position: InsertPosition): Promise<Position> {
@@ -341,8 +606,8 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async upsertPositionFromTrade(tokenId: number, tradeType: string, tradeAmount: number, tradePrice: number, chain: string): Promise<Position> {
-    const [existing] = await db.select().from(positions).where(eq(positions.tokenId, tokenId));
+  async upsertPositionFromTrade(userId: string, tokenId: number, tradeType: string, tradeAmount: number, tradePrice: number, chain: string): Promise<Position> {
+    const [existing] = await db.select().from(positions).where(and(eq(positions.userId, userId), eq(positions.tokenId, tokenId)));
 
     if (tradeType === "buy") {
       if (existing) {
@@ -358,7 +623,7 @@ export class DatabaseStorage implements IStorage {
       } else {
         const [created] = await db.insert(positions).values({
           tokenId, size: tradeAmount, avgEntry: tradePrice, currentPrice: tradePrice,
-          unrealizedPnl: 0, unrealizedPnlPercent: 0, realizedPnl: 0, chain,
+          unrealizedPnl: 0, unrealizedPnlPercent: 0, realizedPnl: 0, chain, userId,
         }).returning();
         return created;
       }
@@ -377,7 +642,7 @@ export class DatabaseStorage implements IStorage {
       } else {
         const [created] = await db.insert(positions).values({
           tokenId, size: 0, avgEntry: tradePrice, currentPrice: tradePrice,
-          unrealizedPnl: 0, unrealizedPnlPercent: 0, realizedPnl: 0, chain,
+          unrealizedPnl: 0, unrealizedPnlPercent: 0, realizedPnl: 0, chain, userId,
         }).returning();
         return created;
       }
@@ -398,8 +663,20 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async getAiAgents(): Promise<AiAgent[]> {
-    return db.select().from(aiAgents).orderBy(desc(aiAgents.createdAt));
+  async getAiAgents(userId: string): Promise<AiAgent[]> {
+    return db.select().from(aiAgents).where(eq(aiAgents.userId, userId)).orderBy(desc(aiAgents.createdAt));
+  }
+
+  async getResourceOwnerIds(): Promise<string[]> {
+    const owned = [aiAgents, priceAlerts, limitOrders, dcaConfigs, copyTradeConfigs, sniperRules];
+    const results = await Promise.all(owned.map(table =>
+      db.selectDistinct({ userId: table.userId }).from(table).where(isNotNull(table.userId)),
+    ));
+    const ids = new Set<string>();
+    for (const rows of results) {
+      for (const row of rows) if (row.userId) ids.add(row.userId);
+    }
+    return Array.from(ids);
   }
 
   async getAiAgent(id: number): Promise<AiAgent | undefined> {
@@ -422,6 +699,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteAiAgent(id: number): Promise<void> {
+    await db.delete(agentRuntimeState).where(eq(agentRuntimeState.agentId, id));
     await db.delete(agentPositions).where(eq(agentPositions.agentId, id));
     await db.delete(agentLogs).where(eq(agentLogs.agentId, id));
     await db.delete(agentTrades).where(eq(agentTrades.agentId, id));
@@ -506,8 +784,26 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(agentPositions.openedAt));
   }
 
-  async getPriceAlerts(): Promise<PriceAlert[]> {
-    return db.select().from(priceAlerts).orderBy(desc(priceAlerts.createdAt));
+  async getPriceAlerts(userId: string): Promise<PriceAlert[]> {
+    return db.select().from(priceAlerts).where(eq(priceAlerts.userId, userId)).orderBy(desc(priceAlerts.createdAt));
+  }
+
+  async getPriceAlert(id: number): Promise<PriceAlert | undefined> {
+    const [alert] = await db.select().from(priceAlerts).where(eq(priceAlerts.id, id));
+    return alert;
+  }
+
+  async getActivePriceAlerts(): Promise<PriceAlert[]> {
+    return db.select().from(priceAlerts)
+      .where(and(eq(priceAlerts.enabled, true), eq(priceAlerts.triggered, false)));
+  }
+
+  async markPriceAlertTriggered(id: number, price: number): Promise<PriceAlert | undefined> {
+    const [updated] = await db.update(priceAlerts)
+      .set({ triggered: true, triggeredAt: new Date(), triggeredPrice: price })
+      .where(and(eq(priceAlerts.id, id), eq(priceAlerts.triggered, false)))
+      .returning();
+    return updated;
   }
 
   async createPriceAlert(alert: InsertPriceAlert): Promise<PriceAlert> {
@@ -524,8 +820,34 @@ export class DatabaseStorage implements IStorage {
     await db.delete(priceAlerts).where(eq(priceAlerts.id, id));
   }
 
-  async getLimitOrders(): Promise<LimitOrder[]> {
-    return db.select().from(limitOrders).orderBy(desc(limitOrders.createdAt));
+  async getLimitOrders(userId: string): Promise<LimitOrder[]> {
+    return db.select().from(limitOrders).where(eq(limitOrders.userId, userId)).orderBy(desc(limitOrders.createdAt));
+  }
+
+  async getLimitOrder(id: number): Promise<LimitOrder | undefined> {
+    const [order] = await db.select().from(limitOrders).where(eq(limitOrders.id, id));
+    return order;
+  }
+
+  async getPendingLimitOrders(): Promise<LimitOrder[]> {
+    return db.select().from(limitOrders).where(eq(limitOrders.status, "pending"));
+  }
+
+  async claimLimitOrder(id: number): Promise<LimitOrder | undefined> {
+    const [claimed] = await db.update(limitOrders)
+      .set({ status: "executing", claimedAt: new Date() })
+      .where(and(eq(limitOrders.id, id), eq(limitOrders.status, "pending")))
+      .returning();
+    return claimed;
+  }
+
+  // Orders claimed before `claimedBefore` that never reached filled or failed.
+  // Rows claimed before claimedAt existed count as stale.
+  async getStaleExecutingLimitOrders(claimedBefore: Date): Promise<LimitOrder[]> {
+    return db.select().from(limitOrders).where(and(
+      eq(limitOrders.status, "executing"),
+      or(isNull(limitOrders.claimedAt), lt(limitOrders.claimedAt, claimedBefore)),
+    ));
   }
 
   async createLimitOrder(order: InsertLimitOrder): Promise<LimitOrder> {
@@ -542,8 +864,43 @@ export class DatabaseStorage implements IStorage {
     await db.delete(limitOrders).where(eq(limitOrders.id, id));
   }
 
-  async getDcaConfigs(): Promise<DcaConfig[]> {
-    return db.select().from(dcaConfigs).orderBy(desc(dcaConfigs.createdAt));
+  async getDcaConfigs(userId: string): Promise<DcaConfig[]> {
+    return db.select().from(dcaConfigs).where(eq(dcaConfigs.userId, userId)).orderBy(desc(dcaConfigs.createdAt));
+  }
+
+  async getDcaConfig(id: number): Promise<DcaConfig | undefined> {
+    const [config] = await db.select().from(dcaConfigs).where(eq(dcaConfigs.id, id));
+    return config;
+  }
+
+  async getEnabledDcaConfigs(): Promise<DcaConfig[]> {
+    return db.select().from(dcaConfigs).where(eq(dcaConfigs.enabled, true));
+  }
+
+  async claimDcaRun(id: number, previousRunAt: Date | null): Promise<DcaConfig | undefined> {
+    const [claimed] = await db.update(dcaConfigs)
+      .set({ lastExecutedAt: new Date() })
+      .where(and(
+        eq(dcaConfigs.id, id),
+        eq(dcaConfigs.enabled, true),
+        previousRunAt ? eq(dcaConfigs.lastExecutedAt, previousRunAt) : isNull(dcaConfigs.lastExecutedAt),
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async getDcaExecutions(userId: string, limit = 100): Promise<DcaExecution[]> {
+    const rows = await db.select({ execution: dcaExecutions }).from(dcaExecutions)
+      .innerJoin(dcaConfigs, eq(dcaExecutions.configId, dcaConfigs.id))
+      .where(eq(dcaConfigs.userId, userId))
+      .orderBy(desc(dcaExecutions.createdAt))
+      .limit(limit);
+    return rows.map(r => r.execution);
+  }
+
+  async createDcaExecution(execution: InsertDcaExecution): Promise<DcaExecution> {
+    const [created] = await db.insert(dcaExecutions).values(execution).returning();
+    return created;
   }
 
   async createDcaConfig(config: InsertDcaConfig): Promise<DcaConfig> {
@@ -654,6 +1011,19 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  // Frees the amounts of payments that can no longer be retried.
+  async releasePaymentAmounts(createdBefore: Date): Promise<number> {
+    const released = await db.update(subscriptionPayments)
+      .set({ amountReserved: false })
+      .where(and(
+        eq(subscriptionPayments.amountReserved, true),
+        inArray(subscriptionPayments.status, ["failed", "expired"]),
+        lt(subscriptionPayments.createdAt, createdBefore),
+      ))
+      .returning({ id: subscriptionPayments.id });
+    return released.length;
+  }
+
   async getUserSubscriptions(userId: string): Promise<Subscription[]> {
     return db.select().from(subscriptions)
       .where(eq(subscriptions.userId, userId))
@@ -701,6 +1071,43 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getConfirmingPayments(): Promise<SubscriptionPayment[]> {
+    return db.select().from(subscriptionPayments)
+      .where(eq(subscriptionPayments.status, "confirming"));
+  }
+
+  async isPaymentTxHashUsed(txHash: string, excludePaymentId: number): Promise<boolean> {
+    const [row] = await db.select({ id: subscriptionPayments.id }).from(subscriptionPayments)
+      .where(and(
+        eq(subscriptionPayments.txHash, txHash),
+        inArray(subscriptionPayments.status, ["confirming", "confirmed"]),
+        sql`${subscriptionPayments.id} <> ${excludePaymentId}`,
+      ))
+      .limit(1);
+    return !!row;
+  }
+
+  // Only one caller can move a payment from confirming to confirmed, and never
+  // while another payment already holds the same transaction hash. Two
+  // payments confirming the same hash at once both pass the NOT EXISTS; the
+  // unique index on confirmed hashes turns the loser away.
+  async confirmSubscriptionPayment(id: number, amountReceived: number): Promise<SubscriptionPayment | undefined> {
+    try {
+      const [confirmed] = await db.update(subscriptionPayments)
+        .set({ status: "confirmed", amountReceived, amountReserved: false, failureReason: null, confirmedAt: new Date() })
+        .where(and(
+          eq(subscriptionPayments.id, id),
+          eq(subscriptionPayments.status, "confirming"),
+          sql`NOT EXISTS (SELECT 1 FROM subscription_payments p WHERE p.tx_hash = ${subscriptionPayments.txHash} AND p.status = 'confirmed' AND p.id <> ${id})`,
+        ))
+        .returning();
+      return confirmed;
+    } catch (err: any) {
+      if (err?.code === "23505") return undefined;
+      throw err;
+    }
+  }
+
   async createPromoCode(promo: InsertPromoCode): Promise<PromoCode> {
     const [created] = await db.insert(promoCodes).values(promo).returning();
     return created;
@@ -791,32 +1198,23 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(signalPerformance.count));
   }
 
+  // Increments in place so concurrent runner instances never lose a result.
   async upsertSignalPerformance(signal: string, strategy: string, won: boolean, pnlPercent: number): Promise<SignalPerformance> {
-    const [existing] = await db.select().from(signalPerformance)
+    const [updated] = await db.update(signalPerformance)
+      .set({
+        wins: sql`${signalPerformance.wins} + ${won ? 1 : 0}`,
+        losses: sql`${signalPerformance.losses} + ${won ? 0 : 1}`,
+        totalPnl: sql`${signalPerformance.totalPnl} + ${pnlPercent}`,
+        count: sql`${signalPerformance.count} + 1`,
+        avgPnl: sql`round(((${signalPerformance.totalPnl} + ${pnlPercent}) / (${signalPerformance.count} + 1))::numeric, 2)`,
+        lastUpdatedAt: new Date(),
+      })
       .where(and(
         eq(signalPerformance.signal, signal),
         eq(signalPerformance.strategy, strategy)
-      )).limit(1);
-
-    if (existing) {
-      const newCount = existing.count + 1;
-      const newWins = existing.wins + (won ? 1 : 0);
-      const newLosses = existing.losses + (won ? 0 : 1);
-      const newTotalPnl = existing.totalPnl + pnlPercent;
-      const newAvgPnl = newTotalPnl / newCount;
-      const [updated] = await db.update(signalPerformance)
-        .set({
-          wins: newWins,
-          losses: newLosses,
-          totalPnl: newTotalPnl,
-          count: newCount,
-          avgPnl: Math.round(newAvgPnl * 100) / 100,
-          lastUpdatedAt: new Date(),
-        })
-        .where(eq(signalPerformance.id, existing.id))
-        .returning();
-      return updated;
-    }
+      ))
+      .returning();
+    if (updated) return updated;
 
     const [created] = await db.insert(signalPerformance).values({
       signal,
@@ -927,6 +1325,452 @@ export class DatabaseStorage implements IStorage {
     const [created] = await db.insert(liquidityEvents).values(data).returning();
     return created;
   }
+
+  async createFeeLedgerEntry(entry: InsertFeeLedgerEntry): Promise<FeeLedgerEntry> {
+    const [created] = await db.insert(feeLedger).values(entry).returning();
+    return created;
+  }
+
+  async getFeeLedgerEntry(id: number): Promise<FeeLedgerEntry | undefined> {
+    const [entry] = await db.select().from(feeLedger).where(eq(feeLedger.id, id));
+    return entry;
+  }
+
+  async getFeeLedger(userId: string, limit = 100): Promise<FeeLedgerEntry[]> {
+    return db.select().from(feeLedger)
+      .where(eq(feeLedger.userId, userId))
+      .orderBy(desc(feeLedger.createdAt))
+      .limit(limit);
+  }
+
+  async getFeeLedgerByStatus(status: string): Promise<FeeLedgerEntry[]> {
+    return db.select().from(feeLedger).where(eq(feeLedger.status, status));
+  }
+
+  async updateFeeLedgerEntry(id: number, updates: Partial<FeeLedgerEntry>): Promise<FeeLedgerEntry> {
+    const [updated] = await db.update(feeLedger).set(updates).where(eq(feeLedger.id, id)).returning();
+    return updated;
+  }
+
+  async isFeeTxHashUsed(txHash: string, excludeId: number): Promise<boolean> {
+    const [row] = await db.select({ id: feeLedger.id }).from(feeLedger)
+      .where(and(eq(feeLedger.txHash, txHash), sql`${feeLedger.id} <> ${excludeId}`));
+    return !!row;
+  }
+
+  async createBacktest(backtest: InsertBacktest): Promise<Backtest> {
+    const [created] = await db.insert(backtests).values(backtest).returning();
+    return created;
+  }
+
+  async getBacktest(id: number): Promise<Backtest | undefined> {
+    const [backtest] = await db.select().from(backtests).where(eq(backtests.id, id));
+    return backtest;
+  }
+
+  async getBacktests(userId: string, limit = 20): Promise<Backtest[]> {
+    return db.select().from(backtests)
+      .where(eq(backtests.userId, userId))
+      .orderBy(desc(backtests.createdAt))
+      .limit(limit);
+  }
+
+  async updateBacktest(id: number, updates: Partial<Backtest>): Promise<Backtest> {
+    const [updated] = await db.update(backtests).set(updates).where(eq(backtests.id, id)).returning();
+    return updated;
+  }
+
+  async deleteBacktest(id: number): Promise<void> {
+    await db.delete(backtests).where(eq(backtests.id, id));
+  }
+
+  // Running backtests created before `before`, other than the ones in
+  // `keepIds`; scoped to one user when `userId` is given.
+  async interruptStaleBacktests(before: Date, keepIds: number[], userId?: string): Promise<number> {
+    const conditions = [eq(backtests.status, "running"), lt(backtests.createdAt, before)];
+    if (keepIds.length > 0) conditions.push(notInArray(backtests.id, keepIds));
+    if (userId) conditions.push(eq(backtests.userId, userId));
+    const interrupted = await db.update(backtests)
+      .set({ status: "interrupted", error: "Interrupted by a server restart", completedAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: backtests.id });
+    return interrupted.length;
+  }
+
+  async createMarketSnapshot(snapshot: InsertMarketSnapshot): Promise<MarketSnapshot> {
+    const [created] = await db.insert(marketSnapshots).values(snapshot).returning();
+    return created;
+  }
+
+  async getMarketSnapshot(id: number): Promise<MarketSnapshot | undefined> {
+    const [snapshot] = await db.select().from(marketSnapshots).where(eq(marketSnapshots.id, id));
+    return snapshot;
+  }
+
+  // Live snapshots are shared; imported ones are only visible to their owner.
+  async getMarketSnapshots(query: { userId: string; from?: Date; to?: Date; chain?: string; strategy?: string; ids?: number[]; limit?: number }): Promise<MarketSnapshot[]> {
+    const conditions = [or(isNull(marketSnapshots.userId), eq(marketSnapshots.userId, query.userId))];
+    if (query.from) conditions.push(gte(marketSnapshots.capturedAt, query.from));
+    if (query.to) conditions.push(lte(marketSnapshots.capturedAt, query.to));
+    if (query.chain) conditions.push(eq(marketSnapshots.chain, query.chain));
+    if (query.strategy) conditions.push(eq(marketSnapshots.strategy, query.strategy));
+    if (query.ids) conditions.push(inArray(marketSnapshots.id, query.ids.length > 0 ? query.ids : [-1]));
+    return db.select().from(marketSnapshots)
+      .where(and(...conditions))
+      .orderBy(marketSnapshots.capturedAt)
+      .limit(query.limit ?? 1000);
+  }
+
+  async createDecisionSnapshot(snapshot: InsertDecisionSnapshot): Promise<DecisionSnapshot> {
+    const [created] = await db.insert(decisionSnapshots).values(snapshot).returning();
+    return created;
+  }
+
+  async getDecisionSnapshot(id: number): Promise<DecisionSnapshot | undefined> {
+    const [snapshot] = await db.select().from(decisionSnapshots).where(eq(decisionSnapshots.id, id));
+    return snapshot;
+  }
+
+  async getDecisionSnapshots(query: { userId: string; agentId?: number; from?: Date; to?: Date; limit?: number }): Promise<DecisionSnapshot[]> {
+    const conditions = [eq(decisionSnapshots.userId, query.userId)];
+    if (query.agentId != null) conditions.push(eq(decisionSnapshots.agentId, query.agentId));
+    if (query.from) conditions.push(gte(decisionSnapshots.capturedAt, query.from));
+    if (query.to) conditions.push(lte(decisionSnapshots.capturedAt, query.to));
+    return db.select().from(decisionSnapshots)
+      .where(and(...conditions))
+      .orderBy(decisionSnapshots.capturedAt)
+      .limit(query.limit ?? 1000);
+  }
+
+  // Imported rows keep the capture time of the run they came from, so their
+  // retention counts from when they were imported instead.
+  async pruneSnapshots(before: Date): Promise<{ market: number; decisions: number }> {
+    const decisions = await db.delete(decisionSnapshots).where(or(
+      and(sql`${decisionSnapshots.source} <> 'import'`, lte(decisionSnapshots.capturedAt, before)),
+      and(eq(decisionSnapshots.source, "import"), lte(decisionSnapshots.createdAt, before)),
+    )).returning({ id: decisionSnapshots.id });
+    const market = await db.delete(marketSnapshots).where(or(
+      and(sql`${marketSnapshots.source} <> 'import'`, lte(marketSnapshots.capturedAt, before)),
+      and(eq(marketSnapshots.source, "import"), lte(marketSnapshots.createdAt, before)),
+    )).returning({ id: marketSnapshots.id });
+    return { market: market.length, decisions: decisions.length };
+  }
+
+  async getCustomStrategies(userId: string): Promise<CustomStrategy[]> {
+    return db.select().from(customStrategies)
+      .where(eq(customStrategies.userId, userId))
+      .orderBy(desc(customStrategies.updatedAt));
+  }
+
+  async getCustomStrategy(id: number): Promise<CustomStrategy | undefined> {
+    const [strategy] = await db.select().from(customStrategies).where(eq(customStrategies.id, id));
+    return strategy;
+  }
+
+  async createCustomStrategy(strategy: InsertCustomStrategy, version: Omit<InsertCustomStrategyVersion, "strategyId" | "version">): Promise<{ strategy: CustomStrategy; version: CustomStrategyVersion }> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(customStrategies).values({ ...strategy, latestVersion: 1 }).returning();
+      const [first] = await tx.insert(customStrategyVersions).values({ ...version, strategyId: created.id, version: 1 }).returning();
+      return { strategy: created, version: first };
+    });
+  }
+
+  // Versions are never edited in place; the row lock keeps concurrent saves
+  // from claiming the same version number.
+  async addCustomStrategyVersion(strategyId: number, version: Omit<InsertCustomStrategyVersion, "strategyId" | "version">, name?: string): Promise<{ strategy: CustomStrategy; version: CustomStrategyVersion }> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(customStrategies).where(eq(customStrategies.id, strategyId)).for("update");
+      const next = current.latestVersion + 1;
+      const [created] = await tx.insert(customStrategyVersions).values({ ...version, strategyId, version: next }).returning();
+      const [updated] = await tx.update(customStrategies)
+        .set({ latestVersion: next, updatedAt: new Date(), ...(name ? { name } : {}) })
+        .where(eq(customStrategies.id, strategyId))
+        .returning();
+      return { strategy: updated, version: created };
+    });
+  }
+
+  async getCustomStrategyVersion(id: number): Promise<CustomStrategyVersion | undefined> {
+    const [version] = await db.select().from(customStrategyVersions).where(eq(customStrategyVersions.id, id));
+    return version;
+  }
+
+  async getCustomStrategyVersions(strategyId: number): Promise<CustomStrategyVersion[]> {
+    return db.select().from(customStrategyVersions)
+      .where(eq(customStrategyVersions.strategyId, strategyId))
+      .orderBy(desc(customStrategyVersions.version));
+  }
+
+  async getLatestCustomStrategyVersion(strategyId: number): Promise<CustomStrategyVersion | undefined> {
+    const [version] = await db.select().from(customStrategyVersions)
+      .where(eq(customStrategyVersions.strategyId, strategyId))
+      .orderBy(desc(customStrategyVersions.version))
+      .limit(1);
+    return version;
+  }
+
+  async countAgentsUsingCustomStrategy(strategyId: number): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(aiAgents)
+      .innerJoin(customStrategyVersions, eq(aiAgents.customStrategyVersionId, customStrategyVersions.id))
+      .where(eq(customStrategyVersions.strategyId, strategyId));
+    return row?.count ?? 0;
+  }
+
+  async deleteCustomStrategy(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(customStrategyVersions).where(eq(customStrategyVersions.strategyId, id));
+      await tx.delete(customStrategies).where(eq(customStrategies.id, id));
+    });
+  }
+
+  // A single agent's cycles run one at a time, so the read-then-write below
+  // cannot race with itself.
+  async recordDecisionUsage(agentId: number, day: string, provider: string, delta: DecisionUsageDelta): Promise<void> {
+    const [existing] = await db.select().from(agentDecisionUsage)
+      .where(and(
+        eq(agentDecisionUsage.agentId, agentId),
+        eq(agentDecisionUsage.day, day),
+        eq(agentDecisionUsage.provider, provider),
+      )).limit(1);
+
+    if (!existing) {
+      await db.insert(agentDecisionUsage).values({ agentId, day, provider, ...delta });
+      return;
+    }
+    await db.update(agentDecisionUsage)
+      .set({
+        calls: sql`${agentDecisionUsage.calls} + ${delta.calls ?? 0}`,
+        failures: sql`${agentDecisionUsage.failures} + ${delta.failures ?? 0}`,
+        fallbacks: sql`${agentDecisionUsage.fallbacks} + ${delta.fallbacks ?? 0}`,
+        promptTokens: sql`${agentDecisionUsage.promptTokens} + ${delta.promptTokens ?? 0}`,
+        completionTokens: sql`${agentDecisionUsage.completionTokens} + ${delta.completionTokens ?? 0}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(agentDecisionUsage.id, existing.id));
+  }
+
+  async getDecisionUsage(agentId: number, sinceDay: string): Promise<AgentDecisionUsage[]> {
+    return db.select().from(agentDecisionUsage)
+      .where(and(eq(agentDecisionUsage.agentId, agentId), gte(agentDecisionUsage.day, sinceDay)))
+      .orderBy(desc(agentDecisionUsage.day), agentDecisionUsage.provider);
+  }
+
+  async getDecisionTokensForDay(agentId: number, day: string): Promise<number> {
+    const [row] = await db.select({
+      total: sql<number>`coalesce(sum(${agentDecisionUsage.promptTokens} + ${agentDecisionUsage.completionTokens}), 0)::int`,
+    }).from(agentDecisionUsage)
+      .where(and(eq(agentDecisionUsage.agentId, agentId), eq(agentDecisionUsage.day, day)));
+    return row?.total ?? 0;
+  }
+
+  async getAgentRuntimeStates(agentIds?: number[]): Promise<AgentRuntimeState[]> {
+    if (agentIds && agentIds.length === 0) return [];
+    return db.select().from(agentRuntimeState)
+      .where(agentIds ? inArray(agentRuntimeState.agentId, agentIds) : undefined);
+  }
+
+  // Writes only over the version the caller last saw (0: no row yet). Returns
+  // false when another instance got there first.
+  async saveAgentRuntimeState(agentId: number, state: string, expectedVersion: number): Promise<boolean> {
+    if (expectedVersion === 0) {
+      const inserted = await db.insert(agentRuntimeState)
+        .values({ agentId, state, version: 1 })
+        .onConflictDoNothing()
+        .returning({ id: agentRuntimeState.id });
+      return inserted.length > 0;
+    }
+    const updated = await db.update(agentRuntimeState)
+      .set({ state, version: expectedVersion + 1, updatedAt: new Date() })
+      .where(and(eq(agentRuntimeState.agentId, agentId), eq(agentRuntimeState.version, expectedVersion)))
+      .returning({ id: agentRuntimeState.id });
+    return updated.length > 0;
+  }
+
+  async getAgentRiskSettings(userId: string): Promise<AgentRiskSettings | undefined> {
+    const [settings] = await db.select().from(agentRiskSettings).where(eq(agentRiskSettings.userId, userId));
+    return settings;
+  }
+
+  async upsertAgentRiskSettings(userId: string, updates: Partial<AgentRiskSettings>): Promise<AgentRiskSettings> {
+    const { id: _id, userId: _userId, ...values } = updates;
+    const [settings] = await db.insert(agentRiskSettings)
+      .values({ ...values, userId })
+      .onConflictDoUpdate({ target: agentRiskSettings.userId, set: { ...values, updatedAt: new Date() } })
+      .returning();
+    return settings;
+  }
+
+  // Only the first caller to trip a live switch gets true, so each breach
+  // stops the agents and notifies once even with several runners.
+  async tripAgentKillSwitch(userId: string, reason: string): Promise<boolean> {
+    const tripped = await db.update(agentRiskSettings)
+      .set({ killSwitchActive: true, killSwitchReason: reason, killSwitchAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(agentRiskSettings.userId, userId), eq(agentRiskSettings.killSwitchActive, false)))
+      .returning({ id: agentRiskSettings.id });
+    return tripped.length > 0;
+  }
+
+  async getOpenPositionsForAgents(agentIds: number[]): Promise<AgentPosition[]> {
+    if (agentIds.length === 0) return [];
+    return db.select().from(agentPositions)
+      .where(and(inArray(agentPositions.agentId, agentIds), eq(agentPositions.status, "open")));
+  }
+
+  // Every sell books its PnL on the trade row, so this includes partial
+  // profit-takes that the agent's totalPnl does not.
+  async getRealizedAgentPnl(agentIds: number[]): Promise<number> {
+    if (agentIds.length === 0) return 0;
+    const [row] = await db.select({
+      total: sql<number>`coalesce(sum(${agentTrades.pnl}), 0)::float`,
+    }).from(agentTrades).where(inArray(agentTrades.agentId, agentIds));
+    return row?.total ?? 0;
+  }
+
+
+  // Takes the lease if it has expired, or, with `renew`, if the caller
+  // already holds it. Returns whether the caller now holds it.
+  async acquireSchedulerLease(name: string, holder: string, ttlMs: number, renew: boolean): Promise<boolean> {
+    const now = new Date();
+    const free = lt(schedulerLeases.expiresAt, now);
+    const acquired = await db.insert(schedulerLeases)
+      .values({ name, holder, expiresAt: new Date(now.getTime() + ttlMs) })
+      .onConflictDoUpdate({
+        target: schedulerLeases.name,
+        set: { holder, expiresAt: new Date(now.getTime() + ttlMs), updatedAt: now },
+        setWhere: renew ? or(free, eq(schedulerLeases.holder, holder)) : free,
+      })
+      .returning({ id: schedulerLeases.id });
+    return acquired.length > 0;
+  }
+
+  async setSchedulerLeaseExpiry(name: string, holder: string, expiresAt: Date): Promise<void> {
+    await db.update(schedulerLeases)
+      .set({ expiresAt, updatedAt: new Date() })
+      .where(and(eq(schedulerLeases.name, name), eq(schedulerLeases.holder, holder)));
+  }
+
+  // Idempotent: agents already on `day` are left alone, so replicas racing
+  // on the boundary reset each agent once.
+  async resetDailyTradeCounters(day: string): Promise<number> {
+    const reset = await db.update(aiAgents)
+      .set({ dailyTradesUsed: 0, tradesDay: day })
+      .where(or(isNull(aiAgents.tradesDay), sql`${aiAgents.tradesDay} <> ${day}`))
+      .returning({ id: aiAgents.id });
+    return reset.length;
+  }
+
+  async saveSchedulerHeartbeat(instanceId: string, stats: Partial<SchedulerInstance>): Promise<void> {
+    const { id: _id, instanceId: _instanceId, ...values } = stats;
+    await db.insert(schedulerInstances)
+      .values({ ...values, instanceId, heartbeatAt: new Date() })
+      .onConflictDoUpdate({ target: schedulerInstances.instanceId, set: { ...values, heartbeatAt: new Date() } });
+  }
+
+  async getSchedulerInstances(since: Date): Promise<SchedulerInstance[]> {
+    return db.select().from(schedulerInstances)
+      .where(gte(schedulerInstances.heartbeatAt, since))
+      .orderBy(desc(schedulerInstances.heartbeatAt));
+  }
+
+  async pruneSchedulerRows(before: Date): Promise<void> {
+    await db.delete(schedulerLeases).where(lt(schedulerLeases.expiresAt, before));
+    await db.delete(schedulerInstances).where(lt(schedulerInstances.heartbeatAt, before));
+  }
+
+  async saveDecisionExplanation(logId: number, agentId: number, payload: string): Promise<void> {
+    await db.insert(decisionExplanations).values({ logId, agentId, payload })
+      .onConflictDoUpdate({ target: decisionExplanations.logId, set: { payload } });
+  }
+
+  async getDecisionExplanation(logId: number): Promise<DecisionExplanationRow | undefined> {
+    const [row] = await db.select().from(decisionExplanations).where(eq(decisionExplanations.logId, logId));
+    return row;
+  }
+
+  async pruneDecisionExplanations(before: Date): Promise<number> {
+    const pruned = await db.delete(decisionExplanations).where(lt(decisionExplanations.createdAt, before))
+      .returning({ id: decisionExplanations.id });
+    return pruned.length;
+  }
+
+  async createAgentTournament(tournament: InsertAgentTournament): Promise<AgentTournament> {
+    const [created] = await db.insert(agentTournaments).values(tournament).returning();
+    return created;
+  }
+
+  async getAgentTournament(id: number): Promise<AgentTournament | undefined> {
+    const [tournament] = await db.select().from(agentTournaments).where(eq(agentTournaments.id, id));
+    return tournament;
+  }
+
+  async getAgentTournaments(userId: string, limit = 20): Promise<AgentTournament[]> {
+    return db.select().from(agentTournaments)
+      .where(eq(agentTournaments.userId, userId))
+      .orderBy(desc(agentTournaments.createdAt))
+      .limit(limit);
+  }
+
+  async updateAgentTournament(id: number, updates: Partial<AgentTournament>): Promise<AgentTournament> {
+    const [updated] = await db.update(agentTournaments).set(updates).where(eq(agentTournaments.id, id)).returning();
+    return updated;
+  }
+
+  // Running tournaments that have not recorded a frame (or, before their
+  // first frame, been created) since `before`.
+  async interruptStaleTournaments(userId: string, before: Date): Promise<number> {
+    const interrupted = await db.update(agentTournaments)
+      .set({ status: "interrupted", completedAt: new Date() })
+      .where(and(
+        eq(agentTournaments.userId, userId),
+        eq(agentTournaments.status, "running"),
+        lt(sql`coalesce(${agentTournaments.lastFrameAt}, ${agentTournaments.createdAt})`, before),
+      ))
+      .returning({ id: agentTournaments.id });
+    return interrupted.length;
+  }
+
+  // Oldest first; with a limit, the latest `limit` candles since `since`.
+  async getCandles(chain: string, address: string, resolution: string, since: Date, limit?: number): Promise<Candle[]> {
+    const where = and(
+      eq(candles.chain, chain),
+      eq(candles.address, address.toLowerCase()),
+      eq(candles.resolution, resolution),
+      gte(candles.bucketStart, since),
+    );
+    if (limit == null) {
+      return db.select().from(candles).where(where).orderBy(candles.bucketStart);
+    }
+    const latest = await db.select().from(candles).where(where).orderBy(desc(candles.bucketStart)).limit(limit);
+    return latest.reverse();
+  }
+
+  // Exchange candles win over tick and rollup candles for the same bucket.
+  async upsertCandles(rows: InsertCandle[]): Promise<void> {
+    if (rows.length === 0) return;
+    await db.insert(candles)
+      .values(rows.map(r => ({ ...r, address: r.address.toLowerCase() })))
+      .onConflictDoUpdate({
+        target: [candles.chain, candles.address, candles.resolution, candles.bucketStart],
+        set: {
+          open: sql`excluded.open`,
+          high: sql`excluded.high`,
+          low: sql`excluded.low`,
+          close: sql`excluded.close`,
+          volume: sql`excluded.volume`,
+          source: sql`excluded.source`,
+          updatedAt: new Date(),
+        },
+        setWhere: sql`${candles.source} <> 'exchange' or excluded.source = 'exchange'`,
+      });
+  }
+
+  async pruneCandles(resolution: string, before: Date): Promise<number> {
+    const pruned = await db.delete(candles)
+      .where(and(eq(candles.resolution, resolution), lt(candles.bucketStart, before)))
+      .returning({ id: candles.id });
+    return pruned.length;
+  }
+
 }
 
 export const storage = new DatabaseStorage();
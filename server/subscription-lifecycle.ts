@@ -1,7 +1,96 @@
 import { storage } from "./storage";
+import type { SubscriptionPayment, Subscription } from "@shared/schema";
+import { verifyPayment, type PaymentVerification } from "./payment-verifier";
+import { reconcileEntitlements } from "./entitlements";
 
 const GRACE_PERIOD_DAYS = 3;
 const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const PAYMENT_RECHECK_INTERVAL_MS = 30 * 1000;
+const SUBSCRIPTION_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+export const CONFIRMATION_WINDOW_MS = 2 * 60 * 60 * 1000;
+// A failed or expired payment keeps its amount, and can be retried, for this
+// long after it was created.
+const PAYMENT_RETRY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export async function activateSubscriptionFromPayment(payment: SubscriptionPayment): Promise<Subscription | undefined> {
+  const existing = await storage.getUserActiveSubscription(payment.userId)
+    || await storage.getUserSubscriptionIncludingGrace(payment.userId);
+
+  if (existing) {
+    const newExpiry = new Date(Math.max(existing.expiresAt.getTime(), Date.now()) + SUBSCRIPTION_PERIOD_MS);
+    await storage.updateSubscription(existing.id, {
+      tier: payment.tier,
+      status: "active",
+      expiresAt: newExpiry,
+      paymentTxHash: payment.txHash,
+      amountPaid: payment.amountReceived ?? payment.amountRequiredCrypto,
+      currency: payment.currency,
+      chain: payment.chain,
+      renewalFailures: 0,
+      lastFailureReason: null,
+      gracePeriodEndsAt: null,
+    });
+  } else {
+    await storage.createSubscription({
+      userId: payment.userId,
+      tier: payment.tier,
+      status: "active",
+      chain: payment.chain,
+      amountPaid: payment.amountReceived ?? payment.amountRequiredCrypto,
+      currency: payment.currency,
+      paymentTxHash: payment.txHash,
+      startedAt: new Date(),
+      expiresAt: new Date(Date.now() + SUBSCRIPTION_PERIOD_MS),
+    });
+  }
+
+  await reconcileEntitlements(payment.userId);
+  return storage.getUserActiveSubscription(payment.userId);
+}
+
+// Runs the on-chain check for a payment in the confirming state and applies
+// the outcome. The subscription is only extended once the transfer is final.
+export async function settlePayment(payment: SubscriptionPayment): Promise<PaymentVerification & { subscription?: Subscription }> {
+  if (!payment.txHash) {
+    return { status: "failed", amountReceived: 0, reason: "No transaction hash submitted" };
+  }
+
+  const result = await verifyPayment(payment, payment.txHash);
+
+  if (result.status === "confirmed") {
+    const confirmed = await storage.confirmSubscriptionPayment(payment.id, result.amountReceived);
+    if (!confirmed) {
+      const current = await storage.getSubscriptionPayment(payment.id);
+      if (current?.status === "confirmed") {
+        return { ...result, subscription: await storage.getUserActiveSubscription(payment.userId) };
+      }
+      await storage.updateSubscriptionPayment(payment.id, { status: "failed", failureReason: "Transaction hash already used by another payment" });
+      return { status: "failed", amountReceived: result.amountReceived, reason: "Transaction hash already used by another payment" };
+    }
+    const subscription = await activateSubscriptionFromPayment(confirmed);
+    console.log(`[SubLifecycle] Payment ${payment.id} for user ${payment.userId} confirmed on ${payment.chain} (${payment.txHash})`);
+    return { ...result, subscription };
+  }
+
+  if (result.status === "failed") {
+    await storage.updateSubscriptionPayment(payment.id, {
+      status: "failed",
+      amountReceived: result.amountReceived,
+      failureReason: result.reason,
+    });
+    console.log(`[SubLifecycle] Payment ${payment.id} for user ${payment.userId} failed verification: ${result.reason}`);
+    return result;
+  }
+
+  if (payment.expiresAt && new Date(payment.expiresAt) <= new Date()) {
+    const reason = `Transaction not finalized in time: ${result.reason}`;
+    await storage.updateSubscriptionPayment(payment.id, { status: "failed", failureReason: reason });
+    return { status: "failed", amountReceived: result.amountReceived, reason };
+  }
+
+  await storage.updateSubscriptionPayment(payment.id, { amountReceived: result.amountReceived });
+  return result;
+}
 
 async function processExpiringSubscriptions() {
   try {
@@ -50,21 +139,77 @@ async function processExpiredPendingPayments() {
   }
 }
 
+async function releaseRetryWindowAmounts() {
+  try {
+    const released = await storage.releasePaymentAmounts(new Date(Date.now() - PAYMENT_RETRY_WINDOW_MS));
+    if (released > 0) console.log(`[SubLifecycle] Released the amounts of ${released} payment(s) past their retry window`);
+  } catch (err) {
+    console.error("[SubLifecycle] Error releasing payment amounts:", err);
+  }
+}
+
+let recheckingPayments = false;
+
+async function processConfirmingPayments() {
+  if (recheckingPayments) return;
+  recheckingPayments = true;
+  try {
+    const confirming = await storage.getConfirmingPayments();
+    for (const payment of confirming) {
+      try {
+        await settlePayment(payment);
+      } catch (err) {
+        console.error(`[SubLifecycle] Error re-checking payment ${payment.id}:`, err);
+      }
+    }
+  } catch (err) {
+    console.error("[SubLifecycle] Error processing confirming payments:", err);
+  } finally {
+    recheckingPayments = false;
+  }
+}
+
+// Tier changes happen in several places (expiry, promo codes running out, a
+// renewal on a cheaper plan), so every owner is re-checked against quota.
+async function processEntitlementReconciliation() {
+  try {
+    const ownerIds = await storage.getResourceOwnerIds();
+    for (const userId of ownerIds) {
+      try {
+        await reconcileEntitlements(userId);
+      } catch (err) {
+        console.error(`[SubLifecycle] Error reconciling entitlements for user ${userId}:`, err);
+      }
+    }
+  } catch (err) {
+    console.error("[SubLifecycle] Error reconciling entitlements:", err);
+  }
+}
+
 async function runLifecycleCheck() {
   await processExpiringSubscriptions();
   await processGracePeriodExpired();
   await processExpiredPendingPayments();
+  await releaseRetryWindowAmounts();
+  await processEntitlementReconciliation();
 }
 
 let intervalId: ReturnType<typeof setInterval> | null = null;
+let paymentIntervalId: ReturnType<typeof setInterval> | null = null;
 
 export function startSubscriptionLifecycle() {
-  console.log(`[SubLifecycle] Starting subscription lifecycle checker (every ${CHECK_INTERVAL_MS / 1000}s)`);
+  console.log(`[SubLifecycle] Starting subscription lifecycle checker (every ${CHECK_INTERVAL_MS / 1000}s, payments every ${PAYMENT_RECHECK_INTERVAL_MS / 1000}s)`);
   runLifecycleCheck();
+  processConfirmingPayments();
   intervalId = setInterval(runLifecycleCheck, CHECK_INTERVAL_MS);
+  paymentIntervalId = setInterval(processConfirmingPayments, PAYMENT_RECHECK_INTERVAL_MS);
 }
 
 export function stopSubscriptionLifecycle() {
+  if (paymentIntervalId) {
+    clearInterval(paymentIntervalId);
+    paymentIntervalId = null;
+  }
   if (intervalId) {
     clearInterval(intervalId);
     intervalId = null;
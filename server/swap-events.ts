@@ -0,0 +1,249 @@
+import { createPublicClient, http, parseAbi, formatUnits, type Address, type Chain, type Hex, type PublicClient } from "viem";
+import { mainnet, base, bsc } from "viem/chains";
+import { CHAIN_RPC_MAP } from "./wallet-utils";
+import { solanaRpcCall } from "./solana-holders";
+
+// One trader's swap against one pool, seen from the pool's base token.
+export interface DecodedSwap {
+  txHash: string;
+  trader: string;
+  side: "buy" | "sell";
+  // Base tokens received on a buy, or given up on a sell.
+  baseAmount: number;
+  // Quote tokens paid on a buy, or received on a sell.
+  quoteAmount: number;
+  timestamp: Date;
+}
+
+export interface SwapPool {
+  // DexScreener chain id.
+  chain: string;
+  pairAddress: string;
+  baseToken: string;
+  quoteToken: string;
+}
+
+// Reads a pool's recent swaps, newest first. A fake can be installed with
+// setSwapSource to run the wallet indexer against recorded swaps.
+export interface SwapSource {
+  recentSwaps(pool: SwapPool): Promise<DecodedSwap[]>;
+}
+
+const MAX_SWAPS_PER_POOL = 200;
+
+// EVM pools: Uniswap V2 and V3 Swap logs.
+
+const EVM_CHAINS: Record<string, Chain> = { ethereum: mainnet, base, bsc };
+
+// A few hours of blocks on each chain. Public RPCs reject much wider
+// eth_getLogs ranges.
+const EVM_LOG_LOOKBACK_BLOCKS: Record<string, number> = {
+  ethereum: 1_200,
+  base: 5_000,
+  bsc: 4_000,
+};
+
+// V2 pairs report gross in/out amounts per token; V3 pools report signed
+// deltas from the pool's side, positive when the pool received tokens.
+const SWAP_EVENTS = parseAbi([
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+]);
+const ZERO = BigInt(0);
+const POOL_ABI = parseAbi(["function token0() view returns (address)"]);
+const ERC20_ABI = parseAbi(["function decimals() view returns (uint8)"]);
+
+interface EvmPoolInfo {
+  baseIsToken0: boolean;
+  baseDecimals: number;
+  quoteDecimals: number;
+}
+
+const evmClients = new Map<string, PublicClient>();
+const evmPoolInfo = new Map<string, EvmPoolInfo>();
+
+export function evmClient(chain: string): PublicClient {
+  let client = evmClients.get(chain);
+  if (!client) {
+    client = createPublicClient({ chain: EVM_CHAINS[chain], transport: http(CHAIN_RPC_MAP[chain], { batch: true }) }) as PublicClient;
+    evmClients.set(chain, client);
+  }
+  return client;
+}
+
+async function loadEvmPoolInfo(client: PublicClient, pool: SwapPool): Promise<EvmPoolInfo> {
+  const key = `${pool.chain}:${pool.pairAddress.toLowerCase()}`;
+  const cached = evmPoolInfo.get(key);
+  if (cached) return cached;
+
+  const [token0, baseDecimals, quoteDecimals] = await Promise.all([
+    client.readContract({ address: pool.pairAddress as Address, abi: POOL_ABI, functionName: "token0" }),
+    client.readContract({ address: pool.baseToken as Address, abi: ERC20_ABI, functionName: "decimals" }),
+    client.readContract({ address: pool.quoteToken as Address, abi: ERC20_ABI, functionName: "decimals" }),
+  ]);
+  const info = { baseIsToken0: token0.toLowerCase() === pool.baseToken.toLowerCase(), baseDecimals, quoteDecimals };
+  evmPoolInfo.set(key, info);
+  return info;
+}
+
+export const evmSwapSource: SwapSource = {
+  async recentSwaps(pool) {
+    const client = evmClient(pool.chain);
+    const info = await loadEvmPoolInfo(client, pool);
+    const head = await client.getBlockNumber();
+    const logs = await client.getLogs({
+      address: pool.pairAddress as Address,
+      events: SWAP_EVENTS,
+      fromBlock: head - BigInt(EVM_LOG_LOOKBACK_BLOCKS[pool.chain]),
+      toBlock: head,
+    });
+
+    // Net the pool's base and quote flow per transaction, from the trader's
+    // side: positive base means the trader received base tokens.
+    const byTx = new Map<Hex, { base: bigint; quote: bigint; blockNumber: bigint }>();
+    for (const log of logs.slice(-MAX_SWAPS_PER_POOL)) {
+      if (!log.transactionHash || log.blockNumber == null) continue;
+      const args = log.args as any;
+      let amount0: bigint, amount1: bigint;
+      if ("amount0In" in args) {
+        amount0 = BigInt(args.amount0Out) - BigInt(args.amount0In);
+        amount1 = BigInt(args.amount1Out) - BigInt(args.amount1In);
+      } else {
+        amount0 = -BigInt(args.amount0);
+        amount1 = -BigInt(args.amount1);
+      }
+      const entry = byTx.get(log.transactionHash) || { base: ZERO, quote: ZERO, blockNumber: log.blockNumber };
+      entry.base += info.baseIsToken0 ? amount0 : amount1;
+      entry.quote += info.baseIsToken0 ? amount1 : amount0;
+      byTx.set(log.transactionHash, entry);
+    }
+
+    // The Swap log names a router or the pool's recipient, not necessarily
+    // the trader, so the trader is the account that signed the transaction.
+    const hashes = Array.from(byTx.keys());
+    const blockNumbers = Array.from(new Set(Array.from(byTx.values()).map(e => e.blockNumber)));
+    const [txs, blocks] = await Promise.all([
+      Promise.all(hashes.map(hash => client.getTransaction({ hash }).catch(() => null))),
+      Promise.all(blockNumbers.map(blockNumber => client.getBlock({ blockNumber }).catch(() => null))),
+    ]);
+    const blockTimes = new Map<bigint, number>();
+    blocks.forEach((block, i) => { if (block) blockTimes.set(blockNumbers[i], Number(block.timestamp) * 1000); });
+
+    const swaps: DecodedSwap[] = [];
+    hashes.forEach((hash, i) => {
+      const tx = txs[i];
+      const entry = byTx.get(hash)!;
+      const time = blockTimes.get(entry.blockNumber);
+      if (!tx || time == null) return;
+      const isBuy = entry.base > ZERO && entry.quote < ZERO;
+      const isSell = entry.base < ZERO && entry.quote > ZERO;
+      if (!isBuy && !isSell) return;
+      swaps.push({
+        txHash: hash,
+        trader: tx.from,
+        side: isBuy ? "buy" : "sell",
+        baseAmount: Math.abs(Number(formatUnits(entry.base, info.baseDecimals))),
+        quoteAmount: Math.abs(Number(formatUnits(entry.quote, info.quoteDecimals))),
+        timestamp: new Date(time),
+      });
+    });
+    return swaps.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  },
+};
+
+// Solana pools: transactions that run a Jupiter or Raydium swap.
+
+const WSOL_MINT = "So11111111111111111111111111111111111111112";
+
+// Each signature costs one rate-limited getTransaction call.
+const SOLANA_SIGNATURE_LIMIT = 25;
+
+const SOLANA_SWAP_PROGRAMS = new Set([
+  "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4", // Jupiter aggregator v6
+  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8", // Raydium AMM v4
+  "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK", // Raydium CLMM
+  "CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C", // Raydium CPMM
+]);
+
+function invokesSwapProgram(tx: any): boolean {
+  const instructions: any[] = [
+    ...(tx.transaction?.message?.instructions || []),
+    ...(tx.meta?.innerInstructions || []).flatMap((inner: any) => inner.instructions || []),
+  ];
+  return instructions.some(ix => SOLANA_SWAP_PROGRAMS.has(ix.programId));
+}
+
+function tokenBalanceChange(tx: any, owner: string, mint: string): number {
+  const sum = (balances: any[] | undefined) => (balances || [])
+    .filter(b => b.owner === owner && b.mint === mint)
+    .reduce((s, b) => s + parseFloat(b.uiTokenAmount?.uiAmountString || "0"), 0);
+  return sum(tx.meta.postTokenBalances) - sum(tx.meta.preTokenBalances);
+}
+
+function decodeSolanaSwap(tx: any, signature: string, pool: SwapPool): DecodedSwap | null {
+  if (!tx?.meta || tx.meta.err != null || !tx.blockTime) return null;
+  if (!invokesSwapProgram(tx)) return null;
+
+  // The fee payer signs the swap and owns the accounts that change hands.
+  const payer = tx.transaction?.message?.accountKeys?.[0];
+  const trader: string | undefined = typeof payer === "string" ? payer : payer?.pubkey;
+  if (!trader) return null;
+
+  const baseChange = tokenBalanceChange(tx, trader, pool.baseToken);
+  let quoteChange = tokenBalanceChange(tx, trader, pool.quoteToken);
+  if (pool.quoteToken === WSOL_MINT) {
+    // Routers wrap and unwrap SOL inside the transaction, so count the
+    // payer's native balance too, without the network fee.
+    const lamports = (tx.meta.postBalances[0] ?? 0) - (tx.meta.preBalances[0] ?? 0) + (tx.meta.fee ?? 0);
+    quoteChange += lamports / 1e9;
+  }
+
+  const isBuy = baseChange > 0 && quoteChange < 0;
+  const isSell = baseChange < 0 && quoteChange > 0;
+  if (!isBuy && !isSell) return null;
+  return {
+    txHash: signature,
+    trader,
+    side: isBuy ? "buy" : "sell",
+    baseAmount: Math.abs(baseChange),
+    quoteAmount: Math.abs(quoteChange),
+    timestamp: new Date(tx.blockTime * 1000),
+  };
+}
+
+export const solanaSwapSource: SwapSource = {
+  async recentSwaps(pool) {
+    const signatures: any[] = await solanaRpcCall("getSignaturesForAddress", [pool.pairAddress, { limit: SOLANA_SIGNATURE_LIMIT }]) || [];
+    const swaps: DecodedSwap[] = [];
+    for (const entry of signatures) {
+      if (entry.err) continue;
+      try {
+        const tx = await solanaRpcCall("getTransaction", [
+          entry.signature,
+          { encoding: "jsonParsed", commitment: "confirmed", maxSupportedTransactionVersion: 0 },
+        ]);
+        const swap = decodeSolanaSwap(tx, entry.signature, pool);
+        if (swap) swaps.push(swap);
+      } catch (err: any) {
+        console.log(`[SwapEvents] Skipping Solana tx ${entry.signature}: ${err.message}`);
+      }
+    }
+    return swaps;
+  },
+};
+
+const swapSources: Record<string, SwapSource> = {
+  ethereum: evmSwapSource,
+  base: evmSwapSource,
+  bsc: evmSwapSource,
+  solana: solanaSwapSource,
+};
+
+// Null when swaps on the chain can't be decoded (e.g. tron).
+export function getSwapSource(chain: string): SwapSource | null {
+  return swapSources[chain] ?? null;
+}
+
+export function setSwapSource(chain: string, source: SwapSource): void {
+  swapSources[chain] = source;
+}
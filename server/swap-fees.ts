@@ -0,0 +1,194 @@
+import crypto from "crypto";
+import { PublicKey } from "@solana/web3.js";
+import type { FeeLedgerEntry, InsertFeeLedgerEntry } from "@shared/schema";
+import { getTierDefinition } from "@shared/tiers";
+import { storage } from "./storage";
+import { resolveUserTier } from "./entitlements";
+import { PLATFORM_PAYMENT_ADDRESSES } from "./crypto-prices";
+import { CHAIN_RPC_MAP } from "./wallet-utils";
+import { BLOCK_TIME_SKEW_MS, getPaymentRpc } from "./payment-verifier";
+
+export const SOL_MINT = "So11111111111111111111111111111111111111112";
+const TOKEN_PROGRAM_ID = new PublicKey("TokenkegQfeZyiNwAJbNbGbPFXCWuBvf9Ss623VQ5DA");
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
+
+const SETTLE_INTERVAL_MS = 60 * 1000;
+// Entries without a reported transaction after this long were never sent.
+const UNREPORTED_EXPIRY_MS = 60 * 60 * 1000;
+// Reported transactions that no node has seen after this long are dropped.
+const SETTLE_WINDOW_MS = 2 * 60 * 60 * 1000;
+const FEE_ACCOUNT_RECHECK_MS = 10 * 60 * 1000;
+
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let settling = false;
+let feeAccountCache: { address: string | null; checkedAt: number } | null = null;
+
+export interface SwapFee {
+  tier: string;
+  feeBps: number;
+}
+
+export interface JupiterFee extends SwapFee {
+  feeMint: string | null;
+  feeAccount: string | null;
+  // Why no fee is applied even though the tier charges one.
+  waivedReason: string | null;
+}
+
+export async function getSwapFee(userId: string | undefined | null): Promise<SwapFee> {
+  const { tier } = await resolveUserTier(userId);
+  return { tier, feeBps: getTierDefinition(tier).swapFeeBps };
+}
+
+export function feeFromAmount(amount: bigint, feeBps: number): bigint {
+  return (amount * BigInt(feeBps)) / BigInt(10000);
+}
+
+// Jupiter pays the platform fee into a token account owned by the platform
+// wallet. Only the wSOL account is used, so every fee settles in SOL no matter
+// which side of the pair SOL is on. The account has to exist before Jupiter
+// will route into it; a missing account is re-checked every few minutes.
+async function getSolanaFeeAccount(): Promise<string | null> {
+  if (feeAccountCache && (feeAccountCache.address || Date.now() - feeAccountCache.checkedAt < FEE_ACCOUNT_RECHECK_MS)) {
+    return feeAccountCache.address;
+  }
+
+  const owner = new PublicKey(PLATFORM_PAYMENT_ADDRESSES.solana);
+  const [ata] = PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), new PublicKey(SOL_MINT).toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+  );
+
+  let address: string | null = null;
+  try {
+    const resp = await fetch(CHAIN_RPC_MAP.solana, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "getAccountInfo", params: [ata.toBase58(), { encoding: "base64" }] }),
+      signal: AbortSignal.timeout(10_000),
+    });
+    const data = await resp.json();
+    if (data.result?.value) address = ata.toBase58();
+  } catch (err) {
+    console.warn("[Fees] Could not check the platform wSOL fee account:", err);
+    return feeAccountCache?.address ?? null;
+  }
+
+  if (!address) console.warn(`[Fees] Platform wSOL fee account ${ata.toBase58()} is not initialized; Solana swap fees are waived`);
+  feeAccountCache = { address, checkedAt: Date.now() };
+  return address;
+}
+
+export async function resolveJupiterFee(userId: string | undefined | null, inputMint: string, outputMint: string): Promise<JupiterFee> {
+  const fee = await getSwapFee(userId);
+  const none = { feeMint: null, feeAccount: null };
+  if (fee.feeBps <= 0) return { ...fee, ...none, waivedReason: null };
+  if (inputMint !== SOL_MINT && outputMint !== SOL_MINT) {
+    return { tier: fee.tier, feeBps: 0, ...none, waivedReason: "Fees are only collected on SOL pairs" };
+  }
+
+  const feeAccount = await getSolanaFeeAccount();
+  if (!feeAccount) {
+    return { tier: fee.tier, feeBps: 0, ...none, waivedReason: "Platform fee account is not initialized" };
+  }
+  return { ...fee, feeMint: SOL_MINT, feeAccount, waivedReason: null };
+}
+
+export async function recordSwapFee(entry: InsertFeeLedgerEntry): Promise<FeeLedgerEntry> {
+  const status = entry.status ?? (entry.feeBps > 0 ? "built" : "waived");
+  const confirmToken = status === "built" ? crypto.randomBytes(24).toString("hex") : null;
+  return storage.createFeeLedgerEntry({ ...entry, status, confirmToken });
+}
+
+export function isFeeConfirmToken(entry: FeeLedgerEntry, token: unknown): boolean {
+  if (!entry.confirmToken || typeof token !== "string" || token.length !== entry.confirmToken.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(token), Buffer.from(entry.confirmToken));
+}
+
+// EVM addresses are checksummed in mixed case; Solana and Tron addresses are
+// case-sensitive base58.
+function sameAddress(chain: string, a: string, b: string): boolean {
+  return chain === "solana" || chain === "tron" ? a === b : a.toLowerCase() === b.toLowerCase();
+}
+
+// Checks the reported transaction against the fee recipient. Fees are paid in
+// the chain's native asset (wSOL on Solana is plain lamports in the fee
+// account), so the subscription payment RPCs can measure what arrived. The
+// transaction must come from the wallet the swap was built for and land after
+// the entry was created, so an unrelated transfer cannot settle it.
+export async function settleFeeEntry(entry: FeeLedgerEntry): Promise<FeeLedgerEntry> {
+  if (!entry.txHash || !entry.feeRecipient) return entry;
+  const rpc = getPaymentRpc(entry.chain);
+  if (!rpc) return entry;
+
+  const fail = (reason: string) => storage.updateFeeLedgerEntry(entry.id, { status: "failed", reason, settledAt: new Date() });
+
+  let transfer;
+  try {
+    transfer = await rpc.getTransfer(entry.txHash, entry.feeRecipient);
+  } catch (err: any) {
+    console.warn(`[Fees] RPC error settling fee ${entry.id}:`, err.message);
+    return entry;
+  }
+
+  if (!transfer) {
+    const age = Date.now() - new Date(entry.createdAt ?? Date.now()).getTime();
+    return age > SETTLE_WINDOW_MS ? fail("Transaction not found") : entry;
+  }
+  if (!transfer.succeeded) return fail("Transaction failed on-chain");
+  if (!entry.traderAddress || !transfer.sender || !sameAddress(entry.chain, transfer.sender, entry.traderAddress)) {
+    return fail("Transaction was not sent by the trading wallet");
+  }
+  if (transfer.blockTime && entry.createdAt && transfer.blockTime.getTime() < new Date(entry.createdAt).getTime() - BLOCK_TIME_SKEW_MS) {
+    return fail("Transaction was sent before this fee was built");
+  }
+  if (!transfer.finalized) return entry;
+  if (!transfer.blockTime) return entry;
+
+  const expected = Number(entry.feeAmountRaw) / Math.pow(10, entry.feeDecimals ?? 0);
+  if (transfer.amount + 1e-9 < expected) {
+    return fail(`Underpaid: received ${transfer.amount}, expected ${expected}`);
+  }
+  return storage.updateFeeLedgerEntry(entry.id, { status: "collected", reason: null, settledAt: new Date() });
+}
+
+async function settleReportedFees() {
+  if (settling) return;
+  settling = true;
+  try {
+    const submitted = await storage.getFeeLedgerByStatus("submitted");
+    let collected = 0;
+    for (const entry of submitted) {
+      const settled = await settleFeeEntry(entry);
+      if (settled.status === "collected") collected++;
+    }
+
+    const built = await storage.getFeeLedgerByStatus("built");
+    for (const entry of built) {
+      const age = Date.now() - new Date(entry.createdAt ?? Date.now()).getTime();
+      if (age > UNREPORTED_EXPIRY_MS) {
+        await storage.updateFeeLedgerEntry(entry.id, { status: "expired", reason: "No transaction reported", settledAt: new Date() });
+      }
+    }
+
+    if (collected > 0) console.log(`[Fees] Collected ${collected} swap fee(s)`);
+  } catch (err) {
+    console.error("[Fees] Error settling swap fees:", err);
+  } finally {
+    settling = false;
+  }
+}
+
+export function startFeeSettlement() {
+  console.log(`[Fees] Starting swap fee settlement (every ${SETTLE_INTERVAL_MS / 1000}s)`);
+  settleReportedFees();
+  intervalId = setInterval(settleReportedFees, SETTLE_INTERVAL_MS);
+}
+
+export function stopFeeSettlement() {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log("[Fees] Swap fee settlement stopped");
+  }
+}
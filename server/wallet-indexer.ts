@@ -0,0 +1,251 @@
+import { storage } from "./storage";
+import { getSwapSource, type DecodedSwap } from "./swap-events";
+import type { InsertWalletHolding, SmartWallet, Token, WalletTrade } from "@shared/schema";
+
+// Derives smart wallets from a pool's decoded swaps. Every trader with real
+// size in the pool becomes a smart wallet, their fills are stored as wallet
+// trades, and PnL, win rate, hold time and holdings are recomputed from the
+// stored fills of the last 30 days.
+
+const STATS_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const PNL_7D_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MIN_TRADER_VOLUME_USD = 1_000;
+const MAX_WALLETS_PER_POOL = 10;
+// More fills than this in one pool's recent swaps is a bot (MEV, volume or
+// market maker), not a trader worth following.
+const MAX_FILLS_PER_TRADER = 30;
+// A sell that leaves less than this share of the position closes the trip.
+const DUST_FRACTION = 0.01;
+const WHALE_HOLDINGS_USD = 100_000;
+const WHALE_TRADE_SIZE_USD = 10_000;
+
+export interface IndexedPool {
+  // DexScreener chain id, and the chain name stored on wallets and tokens.
+  chainId: string;
+  chain: string;
+  pairAddress: string;
+  baseToken: { address: string; name: string; symbol: string };
+  quoteToken: { address: string; symbol: string };
+  priceUsd: number;
+  // Base token price in quote tokens.
+  priceNative: number;
+  imageUrl?: string;
+}
+
+// What the indexed wallets did in one pool during the swaps just read.
+export interface PoolWalletActivity {
+  wallets: SmartWallet[];
+  buys: number;
+  sells: number;
+  buyVolumeUsd: number;
+  sellVolumeUsd: number;
+}
+
+interface Fill {
+  swap: DecodedSwap;
+  priceUsd: number;
+  totalUsd: number;
+}
+
+interface WalletPerformance {
+  realizedPnl: number;
+  realizedPnl7d: number;
+  unrealizedPnl: number;
+  winRate: number;
+  avgHoldHours: number | null;
+  totalTrades: number;
+  avgTradeSize: number;
+  holdings: Omit<InsertWalletHolding, "walletId">[];
+}
+
+// Average-cost accounting over fills in time order. A round trip runs from
+// the buy that opens a position to the sell that closes it, and is a win
+// when its realized PnL is positive. Sells of tokens bought before the
+// window have no known cost and are left out of PnL.
+function computeWalletPerformance(trades: WalletTrade[], currentPrice: (tokenId: number) => number, now = Date.now()): WalletPerformance {
+  const positions = new Map<number, { amount: number; cost: number; openedAt: number; tripPnl: number }>();
+  const trips: { pnl: number; holdMs: number }[] = [];
+  let realizedPnl = 0;
+  let realizedPnl7d = 0;
+
+  for (const trade of trades) {
+    const time = trade.timestamp ? new Date(trade.timestamp).getTime() : now;
+    const pos = positions.get(trade.tokenId) || { amount: 0, cost: 0, openedAt: time, tripPnl: 0 };
+    if (trade.type === "buy") {
+      if (pos.amount <= 0) Object.assign(pos, { amount: 0, cost: 0, openedAt: time, tripPnl: 0 });
+      pos.amount += trade.amount;
+      pos.cost += trade.total;
+      positions.set(trade.tokenId, pos);
+      continue;
+    }
+
+    const matched = Math.min(trade.amount, pos.amount);
+    if (matched <= 0) continue;
+    const avgCost = pos.cost / pos.amount;
+    const pnl = (trade.price - avgCost) * matched;
+    realizedPnl += pnl;
+    if (now - time <= PNL_7D_MS) realizedPnl7d += pnl;
+    pos.tripPnl += pnl;
+    pos.cost -= avgCost * matched;
+    pos.amount -= matched;
+    if (pos.amount <= (pos.amount + matched) * DUST_FRACTION) {
+      trips.push({ pnl: pos.tripPnl, holdMs: time - pos.openedAt });
+      positions.delete(trade.tokenId);
+    }
+  }
+
+  const holdings: WalletPerformance["holdings"] = [];
+  let unrealizedPnl = 0;
+  for (const [tokenId, pos] of Array.from(positions.entries())) {
+    if (pos.amount <= 0) continue;
+    const currentValue = pos.amount * currentPrice(tokenId);
+    const pnl = currentValue - pos.cost;
+    unrealizedPnl += pnl;
+    holdings.push({ tokenId, amount: pos.amount, avgCost: pos.cost / pos.amount, currentValue, unrealizedPnl: pnl });
+  }
+
+  const wins = trips.filter(t => t.pnl > 0).length;
+  return {
+    realizedPnl,
+    realizedPnl7d,
+    unrealizedPnl,
+    winRate: trips.length > 0 ? (wins / trips.length) * 100 : 0,
+    avgHoldHours: trips.length > 0 ? trips.reduce((s, t) => s + t.holdMs, 0) / trips.length / 3_600_000 : null,
+    totalTrades: trades.length,
+    avgTradeSize: trades.length > 0 ? trades.reduce((s, t) => s + t.total, 0) / trades.length : 0,
+    holdings,
+  };
+}
+
+async function ensureToken(pool: IndexedPool): Promise<Token> {
+  const existing = await storage.getTokenByAddress(pool.baseToken.address);
+  if (existing) return existing;
+  return storage.createToken({
+    address: pool.baseToken.address,
+    name: pool.baseToken.name || "Unknown",
+    symbol: pool.baseToken.symbol || "???",
+    image: pool.imageUrl || null,
+    price: pool.priceUsd,
+    chain: pool.chain,
+  });
+}
+
+async function ensureWallet(address: string, pool: IndexedPool): Promise<SmartWallet> {
+  const existing = await storage.getSmartWalletByAddress(address);
+  if (existing) return existing;
+  return storage.createSmartWallet({ address, label: `${pool.baseToken.symbol} Trader`, chain: pool.chain });
+}
+
+// Stores fills not seen before, then recomputes the wallet from its stored
+// fills. `prices` holds the current USD price of tokens indexed this run;
+// other holdings are valued at the tracked token price, or their last fill.
+async function syncWallet(wallet: SmartWallet, token: Token, fills: Fill[], prices: Map<number, number>): Promise<SmartWallet> {
+  const since = new Date(Date.now() - STATS_WINDOW_MS);
+  const stored = await storage.getWalletTradesSince(wallet.id, since);
+  const seen = new Set(stored.map(t => `${t.txHash}:${t.tokenId}`));
+
+  for (const fill of fills) {
+    if (seen.has(`${fill.swap.txHash}:${token.id}`) || fill.swap.timestamp < since) continue;
+    stored.push(await storage.createWalletTrade({
+      walletId: wallet.id,
+      tokenId: token.id,
+      type: fill.swap.side,
+      amount: fill.swap.baseAmount,
+      price: fill.priceUsd,
+      total: fill.totalUsd,
+      txHash: fill.swap.txHash,
+      timestamp: fill.swap.timestamp,
+    }));
+  }
+  stored.sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime() || a.id - b.id);
+
+  const lastFillPrice = new Map<number, number>();
+  for (const t of stored) lastFillPrice.set(t.tokenId, t.price);
+  const priceOf = new Map(prices);
+  for (const tokenId of Array.from(lastFillPrice.keys())) {
+    if (priceOf.has(tokenId)) continue;
+    const tracked = await storage.getToken(tokenId);
+    priceOf.set(tokenId, tracked && tracked.price > 0 ? tracked.price : lastFillPrice.get(tokenId)!);
+  }
+
+  const perf = computeWalletPerformance(stored, tokenId => priceOf.get(tokenId) ?? 0);
+  const holdingsValue = perf.holdings.reduce((s, h) => s + (h.currentValue ?? 0), 0);
+  await storage.replaceWalletHoldings(wallet.id, perf.holdings.map(h => ({ ...h, walletId: wallet.id })));
+  const lastActive = stored.length > 0 ? new Date(stored[stored.length - 1].timestamp!) : undefined;
+  const updated = await storage.updateSmartWallet(wallet.id, {
+    pnl7d: Math.round(perf.realizedPnl7d + perf.unrealizedPnl),
+    pnl30d: Math.round(perf.realizedPnl + perf.unrealizedPnl),
+    realizedPnl: Math.round(perf.realizedPnl),
+    unrealizedPnl: Math.round(perf.unrealizedPnl),
+    winRate: Math.round(perf.winRate * 10) / 10,
+    avgHoldHours: perf.avgHoldHours != null ? Math.round(perf.avgHoldHours * 10) / 10 : null,
+    totalTrades: perf.totalTrades,
+    avgTradeSize: Math.round(perf.avgTradeSize),
+    isWhale: holdingsValue > WHALE_HOLDINGS_USD || perf.avgTradeSize > WHALE_TRADE_SIZE_USD,
+    lastActive,
+  });
+  return updated ?? wallet;
+}
+
+// Indexes the traders in one pool. Returns null when the pool's chain has no
+// swap decoder or its swaps couldn't be read.
+export async function indexPoolWallets(pool: IndexedPool, prices: Map<number, number>): Promise<PoolWalletActivity | null> {
+  const source = getSwapSource(pool.chainId);
+  if (!source) return null;
+  // Fills are priced at the quote token's current USD price.
+  const quoteUsd = pool.priceNative > 0 ? pool.priceUsd / pool.priceNative : 0;
+  if (quoteUsd <= 0) return null;
+
+  let swaps: DecodedSwap[];
+  try {
+    swaps = await source.recentSwaps({
+      chain: pool.chainId,
+      pairAddress: pool.pairAddress,
+      baseToken: pool.baseToken.address,
+      quoteToken: pool.quoteToken.address,
+    });
+  } catch (err: any) {
+    console.log(`[WalletIndexer] Failed to read swaps for ${pool.baseToken.symbol} (${pool.chainId}): ${err.message}`);
+    return null;
+  }
+
+  const byTrader = new Map<string, Fill[]>();
+  for (const swap of swaps) {
+    if (swap.baseAmount <= 0) continue;
+    const totalUsd = swap.quoteAmount * quoteUsd;
+    const fills = byTrader.get(swap.trader) || [];
+    fills.push({ swap, priceUsd: totalUsd / swap.baseAmount, totalUsd });
+    byTrader.set(swap.trader, fills);
+  }
+
+  const traders = Array.from(byTrader.entries())
+    .map(([address, fills]) => ({ address, fills, volume: fills.reduce((s, f) => s + f.totalUsd, 0) }))
+    .filter(t => t.volume >= MIN_TRADER_VOLUME_USD && t.fills.length <= MAX_FILLS_PER_TRADER)
+    .sort((a, b) => b.volume - a.volume)
+    .slice(0, MAX_WALLETS_PER_POOL);
+
+  const activity: PoolWalletActivity = { wallets: [], buys: 0, sells: 0, buyVolumeUsd: 0, sellVolumeUsd: 0 };
+  if (traders.length === 0) return activity;
+
+  const token = await ensureToken(pool);
+  prices.set(token.id, pool.priceUsd);
+  for (const trader of traders) {
+    try {
+      const wallet = await ensureWallet(trader.address, pool);
+      activity.wallets.push(await syncWallet(wallet, token, trader.fills, prices));
+      for (const fill of trader.fills) {
+        if (fill.swap.side === "buy") {
+          activity.buys++;
+          activity.buyVolumeUsd += fill.totalUsd;
+        } else {
+          activity.sells++;
+          activity.sellVolumeUsd += fill.totalUsd;
+        }
+      }
+    } catch (err: any) {
+      console.error(`[WalletIndexer] Failed to index wallet ${trader.address}:`, err.message);
+    }
+  }
+  return activity;
+}
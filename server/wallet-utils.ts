@@ -0,0 +1,166 @@
+import crypto from "crypto";
+import { formatUnits } from "viem";
+
+export const CHAIN_RPC_MAP: Record<string, string> = {
+  solana: "https://api.mainnet-beta.solana.com",
+  ethereum: "https://eth.llamarpc.com",
+  base: "https://mainnet.base.org",
+  bsc: "https://bsc-dataseed.binance.org",
+  tron: "https://api.trongrid.io",
+};
+
+export async function fetchOnChainBalance(chain: string, address: string): Promise<number> {
+  try {
+    if (chain === "solana") {
+      const resp = await fetch(CHAIN_RPC_MAP.solana, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0", id: 1,
+          method: "getBalance",
+          params: [address],
+        }),
+      });
+      const data = await resp.json();
+      if (data.result?.value !== undefined) {
+        return data.result.value / 1e9;
+      }
+      return 0;
+    }
+
+    if (chain === "tron") {
+      const resp = await fetch(`${CHAIN_RPC_MAP.tron}/v1/accounts/${address}`);
+      const data = await resp.json();
+      if (data.data?.[0]?.balance !== undefined) {
+        return data.data[0].balance / 1e6;
+      }
+      return 0;
+    }
+
+    const rpc = CHAIN_RPC_MAP[chain];
+    if (!rpc) return 0;
+    const resp = await fetch(rpc, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0", id: 1,
+        method: "eth_getBalance",
+        params: [address, "latest"],
+      }),
+    });
+    const data = await resp.json();
+    if (data.result) {
+      const wei = BigInt(data.result);
+      return Number(wei) / 1e18;
+    }
+    return 0;
+  } catch (err) {
+    console.error(`Balance fetch error for ${chain}:${address}:`, err);
+    return 0;
+  }
+}
+
+// ERC-20 decimals never change, so each token is read once.
+const tokenDecimals = new Map<string, number>();
+
+async function evmEthCall(rpc: string, to: string, data: string): Promise<string> {
+  const resp = await fetch(rpc, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_call", params: [{ to, data }, "latest"] }),
+  });
+  const result = (await resp.json() as any).result;
+  if (typeof result !== "string" || result === "0x") throw new Error(`eth_call to ${to} returned no data`);
+  return result;
+}
+
+// Throws rather than guessing 18: a wrong guess mis-sizes every sell by
+// orders of magnitude.
+async function fetchTokenDecimals(chain: string, rpc: string, tokenAddress: string): Promise<number> {
+  const key = `${chain}:${tokenAddress.toLowerCase()}`;
+  const cached = tokenDecimals.get(key);
+  if (cached != null) return cached;
+  const decimals = Number(BigInt(await evmEthCall(rpc, tokenAddress, "0x313ce567")));
+  tokenDecimals.set(key, decimals);
+  return decimals;
+}
+
+// Balance in whole tokens, scaled by the token's own decimals (the same ones
+// executeEvmSwap uses to size a sell). Returns 0 when it cannot be read.
+export async function fetchOnChainTokenBalance(chain: string, walletAddress: string, tokenAddress: string): Promise<number> {
+  try {
+    const rpc = CHAIN_RPC_MAP[chain];
+    if (!rpc) return 0;
+
+    if (chain === "solana") {
+      const resp = await fetch(rpc, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0", id: 1,
+          method: "getTokenAccountsByOwner",
+          params: [
+            walletAddress,
+            { mint: tokenAddress },
+            { encoding: "jsonParsed" },
+          ],
+        }),
+      });
+      const data = await resp.json() as any;
+      const accounts = data.result?.value || [];
+      let total = 0;
+      for (const acc of accounts) {
+        const amt = parseFloat(acc.account?.data?.parsed?.info?.tokenAmount?.uiAmountString || "0");
+        total += amt;
+      }
+      return total;
+    } else {
+      const paddedAddr = walletAddress.replace("0x", "").padStart(64, "0");
+      const [raw, decimals] = await Promise.all([
+        evmEthCall(rpc, tokenAddress, `0x70a08231${paddedAddr}`).then(BigInt),
+        fetchTokenDecimals(chain, rpc, tokenAddress),
+      ]);
+      return Number(formatUnits(raw, decimals));
+    }
+  } catch (err) {
+    console.error(`Token balance fetch error for ${chain}:${walletAddress}:${tokenAddress}:`, err);
+    return 0;
+  }
+}
+
+// Swaps are only submitted, not awaited, so settlement is observed by
+// polling a balance until it moves. Returns the last reading, which equals
+// `before` if nothing moved in time.
+const SETTLE_POLL_MS = 4000;
+const SETTLE_ATTEMPTS = 10;
+
+export async function waitForBalanceChange(read: () => Promise<number>, before: number): Promise<number> {
+  let current = before;
+  for (let i = 0; i < SETTLE_ATTEMPTS; i++) {
+    await new Promise(resolve => setTimeout(resolve, SETTLE_POLL_MS));
+    current = await read();
+    if (Math.abs(current - before) > before * 1e-9) break;
+  }
+  return current;
+}
+
+export function encryptKey(key: string): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new Error("SESSION_SECRET is required for wallet encryption");
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv("aes-256-cbc", crypto.createHash("sha256").update(secret).digest(), iv);
+  let encrypted = cipher.update(key, "utf8", "hex");
+  encrypted += cipher.final("hex");
+  return iv.toString("hex") + ":" + encrypted;
+}
+
+export function decryptKey(encrypted: string): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new Error("SESSION_SECRET is required for wallet decryption");
+  const [ivHex, encHex] = encrypted.split(":");
+  const iv = Buffer.from(ivHex, "hex");
+  const decipher = crypto.createDecipheriv("aes-256-cbc", crypto.createHash("sha256").update(secret).digest(), iv);
+  let decrypted = decipher.update(encHex, "hex", "utf8");
+  decrypted += decipher.final("utf8");
+  return decrypted;
+}
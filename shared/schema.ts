@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, boolean, timestamp, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, doublePrecision, boolean, timestamp, serial, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -37,6 +37,7 @@ export const tokens = pgTable("tokens", {
 export const watchlist = pgTable("watchlist", {
   id: serial("id").primaryKey(),
   tokenId: integer("token_id").notNull(),
+  userId: varchar("user_id", { length: 64 }),
   addedAt: timestamp("added_at").defaultNow(),
 });
 
@@ -69,6 +70,9 @@ export const smartWallets = pgTable("smart_wallets", {
   winRate: real("win_rate").default(0),
   totalTrades: integer("total_trades").default(0),
   avgTradeSize: real("avg_trade_size").default(0),
+  realizedPnl: real("realized_pnl").default(0),
+  unrealizedPnl: real("unrealized_pnl").default(0),
+  avgHoldHours: real("avg_hold_hours"),
   followers: integer("followers").default(0),
   isWhale: boolean("is_whale").default(false),
   lastActive: timestamp("last_active").defaultNow(),
@@ -92,6 +96,8 @@ export const walletTrades = pgTable("wallet_trades", {
   amount: real("amount").notNull(),
   price: real("price").notNull(),
   total: real("total").notNull(),
+  // On-chain transaction the fill was decoded from; null for seeded trades.
+  txHash: varchar("tx_hash", { length: 128 }),
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
@@ -104,6 +110,7 @@ export const copyTradeConfigs = pgTable("copy_trade_configs", {
   stopLoss: real("stop_loss").default(50),
   maxPosition: real("max_position").default(10),
   chain: text("chain").default("solana"),
+  userId: varchar("user_id", { length: 64 }),
 });
 
 export const sniperRules = pgTable("sniper_rules", {
@@ -117,7 +124,8 @@ export const sniperRules = pgTable("sniper_rules", {
   maxDevHolding: real("max_dev_holding").default(10),
   autoBuyAmount: real("auto_buy_amount").default(0.5),
   slippage: real("slippage").default(15),
-  antiMev: boolean("anti_mev").default(true),
+  antiMev: boolean("anti_mev").default(false),
+  userId: varchar("user_id", { length: 64 }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -131,6 +139,7 @@ export const positions = pgTable("positions", {
   unrealizedPnlPercent: real("unrealized_pnl_percent").default(0),
   realizedPnl: real("realized_pnl").default(0),
   chain: text("chain").default("solana"),
+  userId: varchar("user_id", { length: 64 }),
   openedAt: timestamp("opened_at").defaultNow(),
 });
 
@@ -186,18 +195,34 @@ export const insertWalletHoldingSchema = createInsertSchema(walletHoldings).omit
 
 export const insertWalletTradeSchema = createInsertSchema(walletTrades).omit({
   id: true,
-  timestamp: true,
 });
 
 export const insertCopyTradeConfigSchema = createInsertSchema(copyTradeConfigs).omit({
   id: true,
 });
 
+// Fields an owner may change through PATCH. The followed wallet and chain
+// are fixed once positions may exist.
+export const updateCopyTradeConfigSchema = insertCopyTradeConfigSchema.pick({
+  enabled: true,
+  multiplier: true,
+  takeProfit: true,
+  stopLoss: true,
+  maxPosition: true,
+}).partial();
+
+// The engine has no private or MEV-protected submission, so rules cannot turn
+// anti_mev on; the column is kept for existing rows.
 export const insertSniperRuleSchema = createInsertSchema(sniperRules).omit({
   id: true,
   createdAt: true,
+  antiMev: true,
 });
 
+export const updateSniperRuleSchema = insertSniperRuleSchema.omit({
+  userId: true,
+}).partial();
+
 export const insertPositionSchema = createInsertSchema(positions).omit({
   id: true,
   openedAt: true,
@@ -215,6 +240,19 @@ export const aiAgents = pgTable("ai_agents", {
   chain: text("chain").default("solana"),
   strategy: text("strategy").notNull().default("balanced"),
   status: text("status").notNull().default("stopped"),
+  // "paper" simulates fills; "live" swaps from the owner's generated wallet.
+  executionMode: text("execution_mode").notNull().default("paper"),
+  // Pinned version of a user-authored strategy; `strategy` then holds the
+  // preset it builds on.
+  customStrategyVersionId: integer("custom_strategy_version_id"),
+  // "openai", "local" (OpenAI-compatible local endpoint) or "rule". LLM
+  // providers fall back to the rule engine on failure or once the daily
+  // token budget (null: unlimited) is spent.
+  decisionProvider: text("decision_provider").notNull().default("openai"),
+  dailyTokenBudget: integer("daily_token_budget"),
+  // Lets the agent open shorts on bear-regime signals: paper fills in paper
+  // mode, a perp venue in live mode.
+  allowShorts: boolean("allow_shorts").notNull().default(false),
   maxPositionSize: real("max_position_size").default(1),
   stopLossPercent: real("stop_loss_percent").default(15),
   takeProfitPercent: real("take_profit_percent").default(50),
@@ -224,7 +262,10 @@ export const aiAgents = pgTable("ai_agents", {
   totalTrades: integer("total_trades").default(0),
   winRate: real("win_rate").default(0),
   dailyTradesUsed: integer("daily_trades_used").default(0),
+  // Trading day (in the scheduler's reset timezone) dailyTradesUsed counts.
+  tradesDay: varchar("trades_day", { length: 10 }),
   lastTradeAt: timestamp("last_trade_at"),
+  userId: varchar("user_id", { length: 64 }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -238,6 +279,8 @@ export const agentTrades = pgTable("agent_trades", {
   total: real("total").notNull(),
   pnl: real("pnl").default(0),
   reasoning: text("reasoning"),
+  mode: text("mode").notNull().default("paper"),
+  txHash: text("tx_hash"),
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
@@ -260,10 +303,13 @@ export const agentPositions = pgTable("agent_positions", {
   tokenAddress: varchar("token_address", { length: 128 }),
   tokenSymbol: text("token_symbol").notNull(),
   chain: text("chain").default("solana"),
+  // "long" or "short".
   side: text("side").notNull().default("long"),
   size: real("size").notNull(),
   avgEntryPrice: real("avg_entry_price").notNull(),
   currentPrice: real("current_price").notNull(),
+  // Most favourable price since entry: the high for a long, the low for a
+  // short. Trailing and breakeven stops ratchet from it.
   highestPrice: real("highest_price"),
   trailingStopPrice: real("trailing_stop_price"),
   stopLossPrice: real("stop_loss_price"),
@@ -271,6 +317,8 @@ export const agentPositions = pgTable("agent_positions", {
   unrealizedPnl: real("unrealized_pnl").default(0),
   unrealizedPnlPercent: real("unrealized_pnl_percent").default(0),
   realizedPnl: real("realized_pnl").default(0),
+  // Profit-ladder tiers already sold, so a restart does not sell them again.
+  profitTiersTaken: integer("profit_tiers_taken").notNull().default(0),
   status: text("status").notNull().default("open"),
   openedAt: timestamp("opened_at").defaultNow(),
   closedAt: timestamp("closed_at"),
@@ -282,10 +330,16 @@ export const priceAlerts = pgTable("price_alerts", {
   type: text("type").notNull(),
   targetPrice: real("target_price"),
   percentChange: real("percent_change"),
+  windowMinutes: integer("window_minutes").default(60),
   chain: text("chain").default("solana"),
+  userId: varchar("user_id", { length: 64 }),
+  channels: text("channels").array().default(["websocket"]),
+  webhookUrl: text("webhook_url"),
+  notifyTarget: text("notify_target"),
   enabled: boolean("enabled").default(true),
   triggered: boolean("triggered").default(false),
   triggeredAt: timestamp("triggered_at"),
+  triggeredPrice: real("triggered_price"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -299,6 +353,12 @@ export const limitOrders = pgTable("limit_orders", {
   slippage: real("slippage").default(1),
   status: text("status").notNull().default("pending"),
   chain: text("chain").default("solana"),
+  userId: varchar("user_id", { length: 64 }),
+  fillPrice: real("fill_price"),
+  txHash: text("tx_hash"),
+  failureReason: text("failure_reason"),
+  // When the engine moved the order to "executing".
+  claimedAt: timestamp("claimed_at"),
   filledAt: timestamp("filled_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -314,6 +374,7 @@ export const dcaConfigs = pgTable("dca_configs", {
   maxExecutions: integer("max_executions").default(0),
   enabled: boolean("enabled").default(true),
   chain: text("chain").default("solana"),
+  userId: varchar("user_id", { length: 64 }),
   lastExecutedAt: timestamp("last_executed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -328,12 +389,17 @@ export const referrals = pgTable("referrals", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertAiAgentSchema = createInsertSchema(aiAgents).omit({
+export const insertAiAgentSchema = createInsertSchema(aiAgents, {
+  executionMode: z.enum(["paper", "live"]),
+  decisionProvider: z.enum(["openai", "local", "rule"]),
+  dailyTokenBudget: z.number().int().positive().nullable(),
+}).omit({
   id: true,
   totalPnl: true,
   totalTrades: true,
   winRate: true,
   dailyTradesUsed: true,
+  tradesDay: true,
   lastTradeAt: true,
   createdAt: true,
 });
@@ -361,16 +427,42 @@ export const insertPriceAlertSchema = createInsertSchema(priceAlerts).omit({
   id: true,
   triggered: true,
   triggeredAt: true,
+  triggeredPrice: true,
   createdAt: true,
 });
 
+export const updatePriceAlertSchema = insertPriceAlertSchema.pick({
+  type: true,
+  targetPrice: true,
+  percentChange: true,
+  windowMinutes: true,
+  channels: true,
+  webhookUrl: true,
+  notifyTarget: true,
+  enabled: true,
+}).partial();
+
 export const insertLimitOrderSchema = createInsertSchema(limitOrders).omit({
   id: true,
   status: true,
+  fillPrice: true,
+  txHash: true,
+  failureReason: true,
+  claimedAt: true,
   filledAt: true,
   createdAt: true,
 });
 
+// An owner can reprice or resize a pending order, or cancel it; the engine
+// owns every other status.
+export const updateLimitOrderSchema = insertLimitOrderSchema.pick({
+  amount: true,
+  triggerPrice: true,
+  slippage: true,
+}).extend({
+  status: z.literal("cancelled"),
+}).partial();
+
 export const insertDcaConfigSchema = createInsertSchema(dcaConfigs).omit({
   id: true,
   totalInvested: true,
@@ -380,6 +472,13 @@ export const insertDcaConfigSchema = createInsertSchema(dcaConfigs).omit({
   createdAt: true,
 });
 
+export const updateDcaConfigSchema = insertDcaConfigSchema.pick({
+  amount: true,
+  frequency: true,
+  maxExecutions: true,
+  enabled: true,
+}).partial();
+
 export const insertReferralSchema = createInsertSchema(referrals).omit({
   id: true,
   referredWallets: true,
@@ -470,17 +569,28 @@ export const subscriptionPayments = pgTable("subscription_payments", {
   chain: text("chain").notNull().default("solana"),
   paymentAddress: varchar("payment_address", { length: 128 }).notNull(),
   amountRequiredUsd: real("amount_required_usd").notNull(),
-  amountRequiredCrypto: real("amount_required_crypto").notNull(),
+  // Double precision: the low digits carry the payment's amount tag.
+  amountRequiredCrypto: doublePrecision("amount_required_crypto").notNull(),
   currency: text("currency").notNull().default("SOL"),
-  amountReceived: real("amount_received").default(0),
+  amountReceived: doublePrecision("amount_received").default(0),
   txHash: varchar("tx_hash", { length: 128 }),
   status: text("status").notNull().default("pending"),
   failureReason: text("failure_reason"),
   retryCount: integer("retry_count").default(0),
+  // Whether the payment still holds its amount. It does from creation until
+  // it is confirmed or its retry window closes, so a failed or expired
+  // payment can be retried without another payment taking its amount. New
+  // payments set it; older rows predate reservations and stay unreserved.
+  amountReserved: boolean("amount_reserved").notNull().default(false),
   expiresAt: timestamp("expires_at").notNull(),
   confirmedAt: timestamp("confirmed_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // A transaction pays for one payment only.
+  uniqueIndex("subscription_payments_confirmed_tx_idx").on(table.txHash).where(sql`${table.status} = 'confirmed'`),
+  // A transfer's amount identifies the reserved payment it pays.
+  uniqueIndex("subscription_payments_reserved_amount_idx").on(table.chain, table.amountRequiredCrypto).where(sql`${table.amountReserved}`),
+]);
 
 export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
   id: true,
@@ -662,3 +772,402 @@ export const waitlist = pgTable("waitlist", {
   email: varchar("email", { length: 255 }).notNull().unique(),
   createdAt: timestamp("created_at").defaultNow(),
 });
+
+export const dcaExecutions = pgTable("dca_executions", {
+  id: serial("id").primaryKey(),
+  configId: integer("config_id").notNull(),
+  status: text("status").notNull(),
+  reason: text("reason"),
+  amount: real("amount").notNull().default(0),
+  price: real("price"),
+  tokensBought: real("tokens_bought").default(0),
+  txHash: text("tx_hash"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDcaExecutionSchema = createInsertSchema(dcaExecutions).omit({
+  id: true,
+  createdAt: true,
+});
+export type DcaExecution = typeof dcaExecutions.$inferSelect;
+export type InsertDcaExecution = z.infer<typeof insertDcaExecutionSchema>;
+
+export const copyPositions = pgTable("copy_positions", {
+  id: serial("id").primaryKey(),
+  configId: integer("config_id").notNull(),
+  sourceWalletId: integer("source_wallet_id").notNull(),
+  tokenId: integer("token_id").notNull(),
+  chain: text("chain").notNull().default("solana"),
+  tokenAmount: real("token_amount").notNull().default(0),
+  costNative: real("cost_native").notNull().default(0),
+  entryPrice: real("entry_price").notNull(),
+  status: text("status").notNull().default("open"),
+  exitReason: text("exit_reason"),
+  realizedPnlPercent: real("realized_pnl_percent"),
+  openedAt: timestamp("opened_at").defaultNow(),
+  closedAt: timestamp("closed_at"),
+});
+
+export const insertCopyPositionSchema = createInsertSchema(copyPositions).omit({
+  id: true,
+  openedAt: true,
+  closedAt: true,
+});
+export type CopyPosition = typeof copyPositions.$inferSelect;
+export type InsertCopyPosition = z.infer<typeof insertCopyPositionSchema>;
+
+export const copyTradeFills = pgTable("copy_trade_fills", {
+  id: serial("id").primaryKey(),
+  configId: integer("config_id").notNull(),
+  copyPositionId: integer("copy_position_id"),
+  sourceWalletId: integer("source_wallet_id").notNull(),
+  sourceTradeId: integer("source_trade_id"),
+  tokenId: integer("token_id").notNull(),
+  side: text("side").notNull(),
+  trigger: text("trigger").notNull().default("mirror"),
+  status: text("status").notNull(),
+  reason: text("reason"),
+  amountNative: real("amount_native").default(0),
+  tokenAmount: real("token_amount").default(0),
+  price: real("price"),
+  txHash: text("tx_hash"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCopyTradeFillSchema = createInsertSchema(copyTradeFills).omit({
+  id: true,
+  createdAt: true,
+});
+export type CopyTradeFill = typeof copyTradeFills.$inferSelect;
+export type InsertCopyTradeFill = z.infer<typeof insertCopyTradeFillSchema>;
+
+export const sniperExecutions = pgTable("sniper_executions", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").notNull(),
+  chain: text("chain").notNull(),
+  tokenAddress: varchar("token_address", { length: 128 }).notNull(),
+  tokenSymbol: text("token_symbol"),
+  status: text("status").notNull(),
+  failedCriteria: text("failed_criteria").array().default([]),
+  amount: real("amount").default(0),
+  price: real("price"),
+  txHash: text("tx_hash"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // A rule buys a token at most once, across restarts and instances. The row
+  // is claimed as "executing" before the swap is sent.
+  uniqueIndex("sniper_executions_rule_token_idx").on(table.ruleId, table.chain, table.tokenAddress)
+    .where(sql`${table.status} in ('executing', 'executed')`),
+]);
+
+export const insertSniperExecutionSchema = createInsertSchema(sniperExecutions).omit({
+  id: true,
+  createdAt: true,
+});
+export type SniperExecution = typeof sniperExecutions.$inferSelect;
+export type InsertSniperExecution = z.infer<typeof insertSniperExecutionSchema>;
+
+// One row per swap built with a platform fee. Amounts are raw integer units
+// of the fee asset (lamports / wei / token base units) so they reconcile
+// exactly against on-chain transfers.
+export const feeLedger = pgTable("fee_ledger", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 64 }),
+  chain: text("chain").notNull(),
+  venue: text("venue").notNull(),
+  side: text("side").notNull(),
+  tier: text("tier").notNull(),
+  feeBps: integer("fee_bps").notNull(),
+  tokenAddress: varchar("token_address", { length: 128 }),
+  traderAddress: varchar("trader_address", { length: 128 }),
+  tradeAmountRaw: text("trade_amount_raw").notNull().default("0"),
+  feeAsset: varchar("fee_asset", { length: 128 }).notNull(),
+  feeDecimals: integer("fee_decimals"),
+  feeAmountRaw: text("fee_amount_raw").notNull().default("0"),
+  feeRecipient: varchar("fee_recipient", { length: 128 }),
+  status: text("status").notNull().default("built"),
+  reason: text("reason"),
+  txHash: varchar("tx_hash", { length: 128 }),
+  // Handed to whoever built the swap; only they can report its fee transaction.
+  confirmToken: varchar("confirm_token", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  settledAt: timestamp("settled_at"),
+});
+
+export const insertFeeLedgerSchema = createInsertSchema(feeLedger).omit({
+  id: true,
+  createdAt: true,
+  settledAt: true,
+});
+export type FeeLedgerEntry = typeof feeLedger.$inferSelect;
+export type InsertFeeLedgerEntry = z.infer<typeof insertFeeLedgerSchema>;
+
+// A strategy replay against historical signals or candles. Config, metrics
+// and results are JSON in text columns, written once when the run finishes.
+export const backtests = pgTable("backtests", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull(),
+  agentId: integer("agent_id"),
+  strategy: text("strategy").notNull(),
+  source: text("source").notNull(),
+  decider: text("decider").notNull(),
+  status: text("status").notNull().default("running"),
+  config: text("config").notNull(),
+  metrics: text("metrics"),
+  equityCurve: text("equity_curve"),
+  attribution: text("attribution"),
+  trades: text("trades"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertBacktestSchema = createInsertSchema(backtests).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+export type Backtest = typeof backtests.$inferSelect;
+export type InsertBacktest = z.infer<typeof insertBacktestSchema>;
+
+// Append-only record of the signal set one chain/strategy group saw in a
+// runner cycle. `payload` is gzipped JSON (base64) holding the signals,
+// market breadth and fear & greed reading. Live rows have no userId;
+// imported rows belong to the importing user.
+export const marketSnapshots = pgTable("market_snapshots", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 64 }),
+  source: text("source").notNull().default("live"),
+  chain: text("chain").notNull(),
+  strategy: text("strategy").notNull(),
+  signalCount: integer("signal_count").notNull().default(0),
+  payload: text("payload").notNull(),
+  capturedAt: timestamp("captured_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertMarketSnapshotSchema = createInsertSchema(marketSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+export type MarketSnapshot = typeof marketSnapshots.$inferSelect;
+export type InsertMarketSnapshot = z.infer<typeof insertMarketSnapshotSchema>;
+
+// The prompt an agent sent and the raw response it got back for one cycle,
+// linked to the market snapshot it decided on. `payload` is gzipped JSON.
+export const decisionSnapshots = pgTable("decision_snapshots", {
+  id: serial("id").primaryKey(),
+  snapshotId: integer("snapshot_id"),
+  agentId: integer("agent_id").notNull(),
+  userId: varchar("user_id", { length: 64 }),
+  source: text("source").notNull().default("live"),
+  provider: text("provider").notNull(),
+  failed: boolean("failed").notNull().default(false),
+  payload: text("payload").notNull(),
+  capturedAt: timestamp("captured_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDecisionSnapshotSchema = createInsertSchema(decisionSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+export type DecisionSnapshot = typeof decisionSnapshots.$inferSelect;
+export type InsertDecisionSnapshot = z.infer<typeof insertDecisionSnapshotSchema>;
+
+// User-authored agent strategies. Every edit adds an immutable version, and
+// agents pin the version they were created or last updated with.
+export const customStrategies = pgTable("custom_strategies", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull(),
+  name: text("name").notNull(),
+  latestVersion: integer("latest_version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const customStrategyVersions = pgTable("custom_strategy_versions", {
+  id: serial("id").primaryKey(),
+  strategyId: integer("strategy_id").notNull(),
+  version: integer("version").notNull(),
+  // Preset whose stops, sizing and regime handling the strategy inherits.
+  baseStrategy: text("base_strategy").notNull().default("balanced"),
+  entryRule: text("entry_rule").notNull(),
+  // JSON array of { threshold, sellPercent }, ascending by threshold.
+  exitLadder: text("exit_ladder").notNull(),
+  maxPositions: integer("max_positions").notNull().default(5),
+  promptGuidance: text("prompt_guidance"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCustomStrategySchema = createInsertSchema(customStrategies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const insertCustomStrategyVersionSchema = createInsertSchema(customStrategyVersions).omit({
+  id: true,
+  createdAt: true,
+});
+export type CustomStrategy = typeof customStrategies.$inferSelect;
+export type InsertCustomStrategy = z.infer<typeof insertCustomStrategySchema>;
+export type CustomStrategyVersion = typeof customStrategyVersions.$inferSelect;
+export type InsertCustomStrategyVersion = z.infer<typeof insertCustomStrategyVersionSchema>;
+
+// Per agent, per UTC day and provider. A fallback is a cycle the rule engine
+// answered because this provider failed or was over budget.
+export const agentDecisionUsage = pgTable("agent_decision_usage", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").notNull(),
+  day: varchar("day", { length: 10 }).notNull(),
+  provider: text("provider").notNull(),
+  calls: integer("calls").notNull().default(0),
+  failures: integer("failures").notNull().default(0),
+  fallbacks: integer("fallbacks").notNull().default(0),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type AgentDecisionUsage = typeof agentDecisionUsage.$inferSelect;
+
+// Per-agent learning state the runner keeps between cycles (performance
+// tracker, recent losses, cooldown) as JSON. `version` increments on every
+// write so an instance never overwrites state it has not seen.
+export const agentRuntimeState = pgTable("agent_runtime_state", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").notNull().unique(),
+  state: text("state").notNull(),
+  version: integer("version").notNull().default(1),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type AgentRuntimeState = typeof agentRuntimeState.$inferSelect;
+
+// Portfolio limits across all of a user's agents, in USD (null: no limit),
+// and the equity marks the drawdown and daily-loss limits are measured from.
+// Equity is realized agent PnL plus the open positions' unrealized PnL. A
+// tripped kill switch keeps every agent stopped until the owner resets it.
+export const agentRiskSettings = pgTable("agent_risk_settings", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull().unique(),
+  maxTotalExposure: real("max_total_exposure"),
+  maxTokenExposure: real("max_token_exposure"),
+  maxDailyLoss: real("max_daily_loss"),
+  maxDrawdown: real("max_drawdown"),
+  equityPeak: real("equity_peak").notNull().default(0),
+  dayStartEquity: real("day_start_equity").notNull().default(0),
+  // UTC day dayStartEquity was taken on.
+  equityDay: varchar("equity_day", { length: 10 }),
+  killSwitchActive: boolean("kill_switch_active").notNull().default(false),
+  killSwitchReason: text("kill_switch_reason"),
+  killSwitchAt: timestamp("kill_switch_at"),
+  // Sell every open position in a token the rug watchdog flags. Null
+  // slippage uses the watchdog's default.
+  rugAutoExit: boolean("rug_auto_exit").notNull().default(false),
+  rugExitSlippageBps: integer("rug_exit_slippage_bps"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type AgentRiskSettings = typeof agentRiskSettings.$inferSelect;
+
+// Time-limited claims that keep server replicas from doing the same work: one
+// row per agent (its next cycle is due once the lease expires) and one for
+// the scheduler leader.
+export const schedulerLeases = pgTable("scheduler_leases", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 128 }).notNull().unique(),
+  holder: varchar("holder", { length: 128 }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Heartbeat and cycle stats each agent runner instance reports.
+export const schedulerInstances = pgTable("scheduler_instances", {
+  id: serial("id").primaryKey(),
+  instanceId: varchar("instance_id", { length: 128 }).notNull().unique(),
+  isLeader: boolean("is_leader").notNull().default(false),
+  startedAt: timestamp("started_at").defaultNow(),
+  heartbeatAt: timestamp("heartbeat_at").defaultNow(),
+  lastCycleAt: timestamp("last_cycle_at"),
+  lastCycleMs: integer("last_cycle_ms"),
+  lastCycleAgents: integer("last_cycle_agents").notNull().default(0),
+  cycles: integer("cycles").notNull().default(0),
+  errors: integer("errors").notNull().default(0),
+  lastError: text("last_error"),
+  lastErrorAt: timestamp("last_error_at"),
+});
+
+export type SchedulerInstance = typeof schedulerInstances.$inferSelect;
+
+// Structured account of one agent decision, written after the cycle that made
+// it: the candidates and why each was or was not shortlisted, the entry and
+// risk checks, sizing and the outcome. The payload is gzipped JSON; rows
+// expire with the snapshot retention window.
+export const decisionExplanations = pgTable("decision_explanations", {
+  id: serial("id").primaryKey(),
+  logId: integer("log_id").notNull().unique(),
+  agentId: integer("agent_id").notNull(),
+  payload: text("payload").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type DecisionExplanationRow = typeof decisionExplanations.$inferSelect;
+
+// Paper-mode agent configs run side by side on the same live signal frames.
+// Entrants and standings are JSON; standings are rewritten as the run goes.
+// A run whose instance stops sending frames is marked interrupted.
+export const agentTournaments = pgTable("agent_tournaments", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull(),
+  name: text("name").notNull(),
+  chain: text("chain").notNull(),
+  status: text("status").notNull().default("running"),
+  entrants: text("entrants").notNull(),
+  standings: text("standings"),
+  frames: integer("frames").notNull().default(0),
+  durationMinutes: integer("duration_minutes").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  lastFrameAt: timestamp("last_frame_at"),
+  error: text("error"),
+  promotedAgentId: integer("promoted_agent_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertAgentTournamentSchema = createInsertSchema(agentTournaments).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+export type AgentTournament = typeof agentTournaments.$inferSelect;
+export type InsertAgentTournament = z.infer<typeof insertAgentTournamentSchema>;
+
+// OHLCV candles per token and resolution, keyed by the lowercased token
+// address. `source` is "exchange" for candles fetched from GeckoTerminal,
+// "tick" for 1m candles built from live prices, and "rollup" for candles
+// aggregated from the next smaller resolution. Exchange candles are never
+// overwritten by tick or rollup candles.
+export const candles = pgTable("candles", {
+  id: serial("id").primaryKey(),
+  chain: text("chain").notNull(),
+  address: varchar("address", { length: 128 }).notNull(),
+  resolution: varchar("resolution", { length: 8 }).notNull(),
+  bucketStart: timestamp("bucket_start").notNull(),
+  open: real("open").notNull(),
+  high: real("high").notNull(),
+  low: real("low").notNull(),
+  close: real("close").notNull(),
+  volume: real("volume").notNull().default(0),
+  source: varchar("source", { length: 16 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("candles_series_bucket_idx").on(table.chain, table.address, table.resolution, table.bucketStart),
+]);
+
+export const insertCandleSchema = createInsertSchema(candles).omit({
+  id: true,
+  updatedAt: true,
+});
+export type Candle = typeof candles.$inferSelect;
+export type InsertCandle = z.infer<typeof insertCandleSchema>;
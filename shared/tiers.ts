@@ -0,0 +1,127 @@
+// Single source of truth for subscription tiers. The server bills, gates
+// features and charges swap fees from this catalog; the client renders the
+// pricing page and fee previews from it.
+
+export type TierId = "free" | "basic" | "pro" | "whale";
+
+export interface TierLimits {
+  maxAgents: number;
+  maxDailyTrades: number;
+  maxAlerts: number;
+  maxLimitOrders: number;
+  maxDcaConfigs: number;
+  maxCopyTrades: number;
+  maxSniperRules: number;
+  smartMoneyAccess: boolean;
+  smartMoneyFollow: boolean;
+  safetyScanner: boolean;
+  csvExport: boolean;
+  advancedAnalytics: boolean;
+}
+
+export interface TierDefinition {
+  id: TierId;
+  name: string;
+  monthlyPriceUsd: number;
+  // Platform fee on swaps built through /api/jupiter/swap and /api/evm/swap.
+  swapFeeBps: number;
+  limits: TierLimits;
+  features: string[];
+  highlight?: boolean;
+  badge?: string;
+}
+
+export const TIER_CATALOG: TierDefinition[] = [
+  {
+    id: "free",
+    name: "Free",
+    monthlyPriceUsd: 0,
+    swapFeeBps: 90,
+    limits: {
+      maxAgents: 0, maxDailyTrades: 0,
+      maxAlerts: 2, maxLimitOrders: 1, maxDcaConfigs: 0,
+      maxCopyTrades: 0, maxSniperRules: 0,
+      smartMoneyAccess: false, smartMoneyFollow: false,
+      safetyScanner: false, csvExport: false, advancedAnalytics: false,
+    },
+    features: [
+      "Real-time token scanner",
+      "DexScreener live search",
+      "Basic chart & trade panel",
+      "2 price alerts, 1 limit order",
+      "Watchlist",
+    ],
+  },
+  {
+    id: "basic",
+    name: "Basic",
+    monthlyPriceUsd: 29,
+    swapFeeBps: 50,
+    limits: {
+      maxAgents: 1, maxDailyTrades: 10,
+      maxAlerts: 5, maxLimitOrders: 3, maxDcaConfigs: 1,
+      maxCopyTrades: 1, maxSniperRules: 1,
+      smartMoneyAccess: true, smartMoneyFollow: false,
+      safetyScanner: true, csvExport: false, advancedAnalytics: false,
+    },
+    features: [
+      "Everything in Free",
+      "1 AI agent, 10 trades/day",
+      "Smart Money Tracker",
+      "Safety scanner",
+      "1 copy trade, 1 sniper rule, 1 DCA plan",
+    ],
+  },
+  {
+    id: "pro",
+    name: "Pro",
+    monthlyPriceUsd: 79,
+    swapFeeBps: 35,
+    highlight: true,
+    badge: "POPULAR",
+    limits: {
+      maxAgents: 3, maxDailyTrades: 50,
+      maxAlerts: 20, maxLimitOrders: 20, maxDcaConfigs: 5,
+      maxCopyTrades: 5, maxSniperRules: 5,
+      smartMoneyAccess: true, smartMoneyFollow: true,
+      safetyScanner: true, csvExport: true, advancedAnalytics: true,
+    },
+    features: [
+      "Everything in Basic",
+      "3 AI agents, 50 trades/day",
+      "Follow smart money wallets",
+      "5 copy trades, 5 sniper rules",
+      "CSV export & advanced analytics",
+    ],
+  },
+  {
+    id: "whale",
+    name: "Whale",
+    monthlyPriceUsd: 199,
+    swapFeeBps: 25,
+    badge: "BEST VALUE",
+    limits: {
+      maxAgents: 999, maxDailyTrades: 999,
+      maxAlerts: 999, maxLimitOrders: 999, maxDcaConfigs: 999,
+      maxCopyTrades: 999, maxSniperRules: 999,
+      smartMoneyAccess: true, smartMoneyFollow: true,
+      safetyScanner: true, csvExport: true, advancedAnalytics: true,
+    },
+    features: [
+      "Everything in Pro",
+      "Unlimited agents and trades",
+      "Unlimited copy trades & sniper rules",
+      "Lowest swap fee",
+    ],
+  },
+];
+
+export const PAID_TIER_IDS = ["basic", "pro", "whale"] as const;
+
+export function getTierDefinition(tier: string | null | undefined): TierDefinition {
+  return TIER_CATALOG.find(t => t.id === tier) || TIER_CATALOG[0];
+}
+
+export function swapFeePercent(tier: string | null | undefined): number {
+  return getTierDefinition(tier).swapFeeBps / 100;
+}